@@ -0,0 +1,125 @@
+/**
+ * Service worker de WorkFlowConnect
+ *
+ * - Precarga la aplicación (index.html, JS, CSS e iconos) para poder abrirla sin conexión
+ * - Guarda los listados públicos de trabajos de la API (peticiones sin sesión) y los sirve
+ *   cuando no hay conexión; los datos de cada usuario los guarda la página en IndexedDB
+ * - Sincronización en segundo plano: al volver la conexión avisa a las pestañas abiertas de la
+ *   aplicación para que envíen la cola de mensajes pendientes. La cola y el token de sesión solo
+ *   los tiene la página, así que sin ninguna pestaña abierta no se envía nada hasta volver a abrirla
+ * - Abre el chat al pulsar una notificación de mensaje nuevo
+ *
+ * Al compilar, vite.config.ts sustituye la lista de archivos y la versión de la caché.
+ * En desarrollo no se registra (ver src/lib/pwa.ts).
+ */
+
+const CACHE_VERSION = '__WFC_CACHE_VERSION__';
+const SHELL_CACHE = `wfc-shell-${CACHE_VERSION}`;
+// Mismo nombre que en src/lib/offlineStore.ts, que la borra al cerrar sesión
+const API_CACHE = 'wfc-api-jobs';
+const SYNC_TAG = 'wfc-outbox';
+
+// Origen de la API (el mismo que API_URL en src/lib/api.ts)
+const API_ORIGIN = 'http://localhost:5000';
+// Listados de trabajos iguales para todos los usuarios
+const PUBLIC_API_PATHS = ['/api/jobs', '/api/jobs/categories', '/api/jobs/skills'];
+
+const BUILD_URLS = self.__WFC_PRECACHE__ || [];
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/favicon.ico', '/icons/icon.svg', '/icons/icon-maskable.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll([...new Set([...SHELL_URLS, ...BUILD_URLS])]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Borrar la aplicación precargada por versiones anteriores
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('wfc-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Indicar si una petición es a un listado público de la API
+ * Con sesión la respuesta depende del usuario (ej: se ocultan los usuarios bloqueados) y no se guarda
+ */
+const isPublicApiRequest = (request, url) =>
+  url.origin === API_ORIGIN &&
+  PUBLIC_API_PATHS.includes(url.pathname) &&
+  !request.headers.has('Authorization');
+
+/**
+ * Pedir a la red y guardar la respuesta; sin conexión se devuelve la última guardada
+ */
+const networkFirst = async (request) => {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // La API está en otro origen; de ella solo se guardan los listados públicos
+  if (isPublicApiRequest(request, url)) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // Todas las rutas de la aplicación se sirven con index.html
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/')));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  // La cola se envía desde la página: sin pestañas abiertas no hay a quién avisar
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(clients => {
+      clients.forEach(client => client.postMessage({ type: 'REPLAY_QUEUE' }));
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const [client] = clients;
+      if (!client) return self.clients.openWindow(url);
+
+      client.postMessage({ type: 'OPEN_URL', url });
+      return client.focus();
+    })
+  );
+});
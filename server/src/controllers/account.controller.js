@@ -0,0 +1,157 @@
+const { User } = require('../models');
+const { verifyAccountToken } = require('../utils/accountTokens');
+const { sendVerificationEmail, sendPasswordResetEmail } = require('../utils/accountEmails');
+const { revokeUserSessions } = require('../utils/sessionTokens');
+const { disconnectSession } = require('./socket.controller');
+
+// Longitud mínima de la contraseña (la misma que pide el formulario de registro)
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Solicitar el enlace para restablecer la contraseña
+ * Responde igual exista o no la cuenta, para no revelar qué correos están registrados
+ */
+exports.forgotPassword = async (req, res) => {
+  try {
+    const email = String(req.body.email || '').trim();
+    
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Indica tu correo electrónico'
+      });
+    }
+    
+    // El correo se envía sin esperar, para que el tiempo de respuesta tampoco revele si la cuenta existe
+    const user = await User.findOne({ where: { email } });
+    if (user) {
+      sendPasswordResetEmail(user).catch(error => {
+        console.error('Error al enviar el correo de restablecimiento:', error);
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Si existe una cuenta con ese correo, recibirás un enlace para restablecer la contraseña'
+    });
+    
+  } catch (error) {
+    console.error('Error al solicitar el restablecimiento de contraseña:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al solicitar el restablecimiento de contraseña',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Restablecer la contraseña con el token del enlace
+ * Cierra todas las sesiones abiertas de la cuenta
+ */
+exports.resetPassword = async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres`
+      });
+    }
+    
+    const result = await verifyAccountToken(token, 'password_reset');
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    const { user } = result;
+    user.password = password;
+    // Quien recibe el enlace demuestra que controla el correo
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+    
+    const sessionIds = await revokeUserSessions(user.id);
+    sessionIds.forEach(disconnectSession);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Contraseña restablecida. Ya puedes iniciar sesión.'
+    });
+    
+  } catch (error) {
+    console.error('Error al restablecer la contraseña:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al restablecer la contraseña',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Confirmar el correo con el token del enlace
+ */
+exports.verifyEmail = async (req, res) => {
+  try {
+    const result = await verifyAccountToken(req.body.token, 'email_verification');
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    const { user } = result;
+    await user.update({ emailVerifiedAt: new Date() });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Correo confirmado correctamente'
+    });
+    
+  } catch (error) {
+    console.error('Error al verificar el correo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al verificar el correo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Reenviar el enlace de verificación al usuario actual
+ */
+exports.resendVerificationEmail = async (req, res) => {
+  try {
+    const user = req.user;
+    
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tu correo ya está confirmado'
+      });
+    }
+    
+    await sendVerificationEmail(user);
+    
+    return res.status(200).json({
+      success: true,
+      message: `Te hemos enviado un enlace de confirmación a ${user.email}`
+    });
+    
+  } catch (error) {
+    console.error('Error al reenviar el correo de verificación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al reenviar el correo de verificación',
+      error: error.message
+    });
+  }
+};
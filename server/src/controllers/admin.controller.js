@@ -0,0 +1,1059 @@
+const { User, Job, Organization, Report, AuditLog, Category, Skill, Contract, Milestone, sequelize } = require('../models');
+const { Op, fn, col } = require('sequelize');
+const { UUID_PATTERN, revokeUserSessions } = require('../utils/sessionTokens');
+const {
+  recordAdminAction,
+  findReportTarget,
+  describeReportTarget,
+  removeReportedContent
+} = require('../utils/moderation');
+const { postMilestoneMovement, completeContractIfPaid } = require('../utils/escrow');
+const { lockContractWithJob } = require('../utils/jobLifecycle');
+const { getIO, disconnectSession } = require('./socket.controller');
+
+// Tamaño de página de los listados del panel
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Duración máxima de una suspensión temporal
+const MAX_SUSPENSION_DAYS = 365;
+
+// Datos de usuario que se muestran en el panel
+const ADMIN_USER_ATTRIBUTES = [
+  'id', 'name', 'email', 'role', 'photoURL', 'accountStatus', 'suspendedUntil',
+  'moderationReason', 'emailVerifiedAt', 'lastSeen', 'createdAt'
+];
+
+// Estado final de un hito en disputa según la resolución del administrador
+const DISPUTE_RESOLUTIONS = {
+  release: 'released',
+  refund: 'refunded'
+};
+
+// Acción del registro de auditoría para cada estado de cuenta
+const ACCOUNT_STATUS_ACTIONS = {
+  active: 'user.reinstate',
+  suspended: 'user.suspend',
+  banned: 'user.ban'
+};
+
+/**
+ * Leer la paginación de un listado: `limit` y `before` (fecha de creación del último elemento recibido)
+ */
+const getPage = (query) => {
+  const limit = Math.min(parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const before = query.before ? new Date(query.before) : null;
+  
+  return {
+    limit,
+    where: before && !isNaN(before.getTime()) ? { createdAt: { [Op.lt]: before } } : {}
+  };
+};
+
+/**
+ * Validar el nombre de una categoría o habilidad; devuelve el nombre limpio o null
+ */
+const parseCatalogName = (name) => {
+  const trimmed = String(name || '').trim();
+  return trimmed && trimmed.length <= 60 ? trimmed : null;
+};
+
+/**
+ * Buscar otra entrada del catálogo con el mismo nombre (sin distinguir mayúsculas)
+ */
+const findCatalogDuplicate = (model, name, exceptId) => model.findOne({
+  where: {
+    [Op.and]: [
+      sequelize.where(fn('lower', col('name')), name.toLowerCase()),
+      ...(exceptId ? [{ id: { [Op.ne]: exceptId } }] : [])
+    ]
+  }
+});
+
+/**
+ * Resumen para las pestañas del panel
+ */
+exports.getOverview = async (req, res) => {
+  try {
+    const [pendingJobs, openReports, openDisputes, suspendedUsers, bannedUsers] = await Promise.all([
+      Job.count({ where: { moderationStatus: 'pending' } }),
+      Report.count({ where: { status: 'open' } }),
+      Milestone.count({ where: { status: 'disputed' } }),
+      User.count({ where: { accountStatus: 'suspended' } }),
+      User.count({ where: { accountStatus: 'banned' } })
+    ]);
+    
+    return res.status(200).json({
+      success: true,
+      overview: { pendingJobs, openReports, openDisputes, suspendedUsers, bannedUsers }
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener el resumen de administración:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener el resumen de administración',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Listar usuarios (los más recientes primero)
+ * Filtros: `search` (nombre o correo), `role` y `status` (estado de la cuenta)
+ */
+exports.getUsers = async (req, res) => {
+  try {
+    const { search, role, status } = req.query;
+    const { limit, where } = getPage(req.query);
+    
+    if (search) {
+      where[Op.or] = [
+        { name: { [Op.iLike]: `%${search}%` } },
+        { email: { [Op.iLike]: `%${search}%` } }
+      ];
+    }
+    if (['freelancer', 'client', 'admin'].includes(role)) {
+      where.role = role;
+    }
+    if (['active', 'suspended', 'banned'].includes(status)) {
+      where.accountStatus = status;
+    }
+    
+    const users = await User.findAll({
+      where,
+      attributes: ADMIN_USER_ATTRIBUTES,
+      order: [['createdAt', 'DESC']],
+      limit: limit + 1
+    });
+    
+    return res.status(200).json({
+      success: true,
+      users: users.slice(0, limit),
+      hasMore: users.length > limit
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener usuarios:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener usuarios',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Suspender, expulsar o readmitir a un usuario
+ * Body: { status: 'active' | 'suspended' | 'banned', reason, days } (días solo para suspensiones temporales)
+ */
+exports.updateUserStatus = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { status, days } = req.body;
+    const reason = String(req.body.reason || '').trim();
+    
+    if (!ACCOUNT_STATUS_ACTIONS[status]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Estado de cuenta no válido'
+      });
+    }
+    
+    if (status !== 'active' && !reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'Indica el motivo; el usuario lo verá al intentar acceder'
+      });
+    }
+    
+    let suspendedUntil = null;
+    if (status === 'suspended' && days !== undefined && days !== null && days !== '') {
+      const parsedDays = parseInt(days, 10);
+      if (isNaN(parsedDays) || parsedDays < 1 || parsedDays > MAX_SUSPENSION_DAYS) {
+        return res.status(400).json({
+          success: false,
+          message: `La suspensión debe durar entre 1 y ${MAX_SUSPENSION_DAYS} días`
+        });
+      }
+      suspendedUntil = new Date(Date.now() + parsedDays * 24 * 60 * 60 * 1000);
+    }
+    
+    const user = UUID_PATTERN.test(userId) ? await User.findByPk(userId) : null;
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado'
+      });
+    }
+    
+    if (user.id === req.user.id || user.role === 'admin') {
+      return res.status(400).json({
+        success: false,
+        message: 'No se puede cambiar el estado de la cuenta de un administrador'
+      });
+    }
+    
+    const previousStatus = user.accountStatus;
+    
+    await sequelize.transaction(async (transaction) => {
+      await user.update({
+        accountStatus: status,
+        suspendedUntil,
+        moderationReason: status === 'active' ? null : reason
+      }, { transaction });
+      
+      await recordAdminAction(req.user.id, ACCOUNT_STATUS_ACTIONS[status], { type: 'user', id: user.id }, {
+        previousStatus,
+        reason: reason || null,
+        suspendedUntil
+      }, transaction);
+    });
+    
+    // Cerrar sus sesiones abiertas para que la suspensión se aplique de inmediato
+    if (status !== 'active') {
+      const sessionIds = await revokeUserSessions(user.id, null, 'moderation');
+      sessionIds.forEach(disconnectSession);
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Estado de la cuenta actualizado',
+      user: await User.findByPk(user.id, { attributes: ADMIN_USER_ATTRIBUTES })
+    });
+  
+  } catch (error) {
+    console.error('Error al cambiar el estado de la cuenta:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al cambiar el estado de la cuenta',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cola de moderación de trabajos
+ * Filtro: `status` (pending por defecto, approved o removed). Incluye las denuncias abiertas de cada trabajo
+ */
+exports.getModerationJobs = async (req, res) => {
+  try {
+    const status = ['pending', 'approved', 'removed'].includes(req.query.status) ? req.query.status : 'pending';
+    const { limit, where } = getPage(req.query);
+    where.moderationStatus = status;
+    
+    const jobs = await Job.findAll({
+      where,
+      attributes: [
+        'id', 'title', 'description', 'budget', 'category', 'skills', 'status',
+        'moderationStatus', 'moderationNote', 'moderatedAt', 'createdAt'
+      ],
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'photoURL', 'accountStatus']
+        },
+        {
+          model: Organization,
+          as: 'organization',
+          attributes: ['id', 'name']
+        },
+        {
+          model: User,
+          as: 'moderator',
+          attributes: ['id', 'name']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: limit + 1
+    });
+    
+    const page = jobs.slice(0, limit);
+    
+    // Número de denuncias abiertas de cada trabajo de la página
+    const reportCounts = await Report.findAll({
+      where: { targetType: 'job', targetId: page.map(job => job.id), status: 'open' },
+      attributes: ['targetId', [fn('COUNT', col('id')), 'count']],
+      group: ['targetId'],
+      raw: true
+    });
+    const openReports = Object.fromEntries(reportCounts.map(row => [row.targetId, parseInt(row.count, 10)]));
+    
+    return res.status(200).json({
+      success: true,
+      jobs: page.map(job => ({ ...job.toJSON(), openReports: openReports[job.id] || 0 })),
+      hasMore: jobs.length > limit
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener la cola de moderación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener la cola de moderación',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Aprobar o retirar un trabajo
+ * Body: { status: 'approved' | 'removed', note } (la nota es obligatoria al retirar)
+ */
+exports.moderateJob = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const { status } = req.body;
+    const note = String(req.body.note || '').trim();
+    
+    if (!['approved', 'removed'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Estado de moderación no válido'
+      });
+    }
+    
+    if (status === 'removed' && !note) {
+      return res.status(400).json({
+        success: false,
+        message: 'Indica el motivo de la retirada'
+      });
+    }
+    
+    const job = UUID_PATTERN.test(jobId) ? await Job.findByPk(jobId) : null;
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    const previousStatus = job.moderationStatus;
+    const action = status === 'removed'
+      ? 'job.remove'
+      : previousStatus === 'removed' ? 'job.restore' : 'job.approve';
+    
+    await sequelize.transaction(async (transaction) => {
+      await job.update({
+        moderationStatus: status,
+        moderationNote: note || null,
+        moderatedAt: new Date(),
+        moderatedBy: req.user.id
+      }, { transaction });
+      
+      await recordAdminAction(req.user.id, action, { type: 'job', id: job.id }, {
+        title: job.title,
+        previousStatus,
+        note: note || null
+      }, transaction);
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: status === 'removed' ? 'Trabajo retirado' : 'Trabajo aprobado',
+      job: {
+        id: job.id,
+        moderationStatus: job.moderationStatus,
+        moderationNote: job.moderationNote,
+        moderatedAt: job.moderatedAt
+      }
+    });
+  
+  } catch (error) {
+    console.error('Error al moderar el trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al moderar el trabajo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Listar denuncias (las más recientes primero) con un resumen del contenido denunciado
+ * Filtro: `status` (open por defecto, resolved o dismissed)
+ */
+exports.getReports = async (req, res) => {
+  try {
+    const status = ['open', 'resolved', 'dismissed'].includes(req.query.status) ? req.query.status : 'open';
+    const { limit, where } = getPage(req.query);
+    where.status = status;
+    
+    const reports = await Report.findAll({
+      where,
+      include: [
+        {
+          model: User,
+          as: 'reporter',
+          attributes: ['id', 'name', 'photoURL']
+        },
+        {
+          model: User,
+          as: 'resolver',
+          attributes: ['id', 'name']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: limit + 1
+    });
+    
+    const page = reports.slice(0, limit);
+    
+    const targets = await Promise.all(page.map(async (report) =>
+      describeReportTarget(report.targetType, await findReportTarget(report.targetType, report.targetId))
+    ));
+    
+    // Nombre del autor de cada contenido
+    const authorIds = [...new Set(targets.filter(target => target && target.authorId).map(target => target.authorId))];
+    const authors = await User.findAll({
+      where: { id: authorIds },
+      attributes: ['id', 'name', 'accountStatus']
+    });
+    const authorsById = Object.fromEntries(authors.map(author => [author.id, author]));
+    
+    return res.status(200).json({
+      success: true,
+      reports: page.map((report, index) => {
+        const target = targets[index];
+        const author = target && authorsById[target.authorId];
+        
+        return {
+          ...report.toJSON(),
+          target: target && {
+            ...target,
+            authorName: author ? author.name : null,
+            authorStatus: author ? author.accountStatus : null
+          }
+        };
+      }),
+      hasMore: reports.length > limit
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener denuncias:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener denuncias',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Resolver o desestimar una denuncia
+ * Body: { status: 'resolved' | 'dismissed', note, removeContent }
+ * Se cierran también las demás denuncias abiertas sobre el mismo contenido
+ */
+exports.resolveReport = async (req, res) => {
+  try {
+    const { reportId } = req.params;
+    const { status, removeContent } = req.body;
+    const note = String(req.body.note || '').trim() || null;
+    
+    if (!['resolved', 'dismissed'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Estado de la denuncia no válido'
+      });
+    }
+    
+    const report = UUID_PATTERN.test(reportId) ? await Report.findByPk(reportId) : null;
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Denuncia no encontrada'
+      });
+    }
+    
+    if (report.status !== 'open') {
+      return res.status(400).json({
+        success: false,
+        message: 'La denuncia ya está cerrada'
+      });
+    }
+    
+    let contentRemoved = false;
+    let closedCount = 0;
+    let removedMessage = null;
+    
+    await sequelize.transaction(async (transaction) => {
+      if (status === 'resolved' && removeContent) {
+        const target = await findReportTarget(report.targetType, report.targetId, { transaction });
+        contentRemoved = await removeReportedContent(report.targetType, target, req.user.id, transaction);
+        if (contentRemoved && report.targetType === 'message') {
+          removedMessage = target;
+        }
+      }
+      
+      [closedCount] = await Report.update({
+        status,
+        resolutionNote: note,
+        resolvedAt: new Date(),
+        resolvedBy: req.user.id
+      }, {
+        where: { targetType: report.targetType, targetId: report.targetId, status: 'open' },
+        transaction
+      });
+      
+      await recordAdminAction(req.user.id, status === 'resolved' ? 'report.resolve' : 'report.dismiss', {
+        type: 'report',
+        id: report.id
+      }, {
+        targetType: report.targetType,
+        targetId: report.targetId,
+        note,
+        contentRemoved,
+        closedCount
+      }, transaction);
+    });
+    
+    // El mensaje retirado desaparece en tiempo real como al eliminarlo para todos
+    const io = getIO();
+    if (removedMessage && io) {
+      io.to(`chat:${removedMessage.chatId}`).emit('message_deleted', {
+        chatId: removedMessage.chatId,
+        messageId: removedMessage.id,
+        deletedAt: removedMessage.deletedAt
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: status === 'resolved' ? 'Denuncia resuelta' : 'Denuncia desestimada',
+      contentRemoved,
+      closedCount
+    });
+  
+  } catch (error) {
+    console.error('Error al resolver la denuncia:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al resolver la denuncia',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Listar los hitos en disputa (los más antiguos primero: llevan más tiempo esperando)
+ */
+exports.getDisputes = async (req, res) => {
+  try {
+    const milestones = await Milestone.findAll({
+      where: { status: 'disputed' },
+      include: [{
+        model: Contract,
+        as: 'contract',
+        attributes: ['id', 'title', 'jobId', 'totalAmount'],
+        include: [
+          { model: User, as: 'client', attributes: ['id', 'name'] },
+          { model: User, as: 'freelancer', attributes: ['id', 'name'] }
+        ]
+      }],
+      order: [['updatedAt', 'ASC']],
+      limit: MAX_PAGE_SIZE
+    });
+    
+    return res.status(200).json({
+      success: true,
+      disputes: milestones
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener disputas:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener disputas',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Resolver la disputa de un hito
+ * - release: el importe en garantía se paga al freelancer
+ * - refund: el importe en garantía se devuelve al cliente
+ * El dinero se mueve con un apunte cuadrado en el libro contable del contrato
+ */
+exports.resolveDispute = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { milestoneId } = req.params;
+    const { resolution } = req.body;
+    const note = String(req.body.note || '').trim();
+    
+    if (!DISPUTE_RESOLUTIONS[resolution]) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Resolución no válida'
+      });
+    }
+    
+    if (!note) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Indica el motivo de la resolución'
+      });
+    }
+    
+    const found = UUID_PATTERN.test(milestoneId) ? await Milestone.findByPk(milestoneId, { transaction }) : null;
+    
+    // Bloquear el contrato como en las acciones de las partes para no duplicar apuntes
+    const { contract, job } = (found && await lockContractWithJob(found.contractId, transaction)) || {};
+    
+    if (!contract) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Hito no encontrado'
+      });
+    }
+    
+    const milestones = await Milestone.findAll({ where: { contractId: contract.id }, transaction });
+    const milestone = milestones.find(m => m.id === found.id);
+    
+    if (contract.status !== 'active' || milestone.status !== 'disputed') {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'El hito no está en disputa'
+      });
+    }
+    
+    await postMilestoneMovement(resolution, contract, milestone, transaction);
+    
+    milestone.status = DISPUTE_RESOLUTIONS[resolution];
+    milestone.resolutionNote = note;
+    await milestone.save({ transaction });
+    
+    if (resolution === 'release') {
+      const transitionError = await completeContractIfPaid(contract, job, milestones, {
+        userId: req.user.id,
+        transaction
+      });
+      
+      if (transitionError) {
+        await transaction.rollback();
+        return res.status(transitionError.status).json({
+          success: false,
+          message: transitionError.error
+        });
+      }
+    }
+    
+    await recordAdminAction(req.user.id, `milestone.${resolution}`, { type: 'milestone', id: milestone.id }, {
+      contractId: contract.id,
+      title: milestone.title,
+      amount: milestone.amount,
+      note
+    }, transaction);
+    
+    await transaction.commit();
+    
+    return res.status(200).json({
+      success: true,
+      message: resolution === 'release' ? 'Pago liberado al freelancer' : 'Importe devuelto al cliente',
+      milestone: {
+        id: milestone.id,
+        status: milestone.status,
+        resolutionNote: milestone.resolutionNote
+      }
+    });
+  
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al resolver la disputa:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al resolver la disputa',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Listar categorías con el número de trabajos de cada una
+ */
+exports.getCategories = async (req, res) => {
+  try {
+    const [categories, jobCounts] = await Promise.all([
+      Category.findAll({ order: [['name', 'ASC']] }),
+      Job.findAll({
+        attributes: ['category', [fn('COUNT', col('id')), 'count']],
+        group: ['category'],
+        raw: true
+      })
+    ]);
+    const countsByName = Object.fromEntries(jobCounts.map(row => [row.category, parseInt(row.count, 10)]));
+    
+    return res.status(200).json({
+      success: true,
+      categories: categories.map(category => ({
+        id: category.id,
+        name: category.name,
+        jobCount: countsByName[category.name] || 0
+      }))
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener categorías:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener categorías',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Crear una categoría
+ */
+exports.createCategory = async (req, res) => {
+  try {
+    const name = parseCatalogName(req.body.name);
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'El nombre es obligatorio y no puede superar los 60 caracteres'
+      });
+    }
+    
+    if (await findCatalogDuplicate(Category, name)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ya existe una categoría con ese nombre'
+      });
+    }
+    
+    const category = await sequelize.transaction(async (transaction) => {
+      const created = await Category.create({ name }, { transaction });
+      await recordAdminAction(req.user.id, 'category.create', { type: 'category', id: created.id }, { name }, transaction);
+      return created;
+    });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Categoría creada',
+      category: { id: category.id, name: category.name, jobCount: 0 }
+    });
+  
+  } catch (error) {
+    console.error('Error al crear la categoría:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear la categoría',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cambiar el nombre de una categoría
+ * Los trabajos guardan el nombre de la categoría, así que se actualizan también
+ */
+exports.updateCategory = async (req, res) => {
+  try {
+    const name = parseCatalogName(req.body.name);
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'El nombre es obligatorio y no puede superar los 60 caracteres'
+      });
+    }
+    
+    const category = await Category.findByPk(parseInt(req.params.categoryId, 10) || 0);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Categoría no encontrada'
+      });
+    }
+    
+    if (await findCatalogDuplicate(Category, name, category.id)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ya existe una categoría con ese nombre'
+      });
+    }
+    
+    const previousName = category.name;
+    let jobCount = 0;
+    
+    await sequelize.transaction(async (transaction) => {
+      await category.update({ name }, { transaction });
+      [jobCount] = await Job.update({ category: name }, { where: { category: previousName }, transaction });
+      await recordAdminAction(req.user.id, 'category.rename', { type: 'category', id: category.id }, {
+        previousName,
+        name,
+        jobCount
+      }, transaction);
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Categoría actualizada',
+      category: { id: category.id, name: category.name, jobCount }
+    });
+  
+  } catch (error) {
+    console.error('Error al actualizar la categoría:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar la categoría',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar una categoría que no usa ningún trabajo
+ */
+exports.deleteCategory = async (req, res) => {
+  try {
+    const category = await Category.findByPk(parseInt(req.params.categoryId, 10) || 0);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Categoría no encontrada'
+      });
+    }
+    
+    const jobCount = await Job.count({ where: { category: category.name } });
+    if (jobCount > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Hay ${jobCount} trabajos en esta categoría. Cámbiale el nombre o mueve los trabajos antes de eliminarla.`
+      });
+    }
+    
+    await sequelize.transaction(async (transaction) => {
+      await category.destroy({ transaction });
+      await recordAdminAction(req.user.id, 'category.delete', { type: 'category', id: category.id }, {
+        name: category.name
+      }, transaction);
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Categoría eliminada'
+    });
+  
+  } catch (error) {
+    console.error('Error al eliminar la categoría:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar la categoría',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Listar habilidades
+ */
+exports.getSkills = async (req, res) => {
+  try {
+    const skills = await Skill.findAll({
+      attributes: ['id', 'name'],
+      order: [['name', 'ASC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      skills
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener habilidades:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener habilidades',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Crear una habilidad
+ */
+exports.createSkill = async (req, res) => {
+  try {
+    const name = parseCatalogName(req.body.name);
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'El nombre es obligatorio y no puede superar los 60 caracteres'
+      });
+    }
+    
+    if (await findCatalogDuplicate(Skill, name)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ya existe una habilidad con ese nombre'
+      });
+    }
+    
+    const skill = await sequelize.transaction(async (transaction) => {
+      const created = await Skill.create({ name }, { transaction });
+      await recordAdminAction(req.user.id, 'skill.create', { type: 'skill', id: created.id }, { name }, transaction);
+      return created;
+    });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Habilidad creada',
+      skill: { id: skill.id, name: skill.name }
+    });
+  
+  } catch (error) {
+    console.error('Error al crear la habilidad:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear la habilidad',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cambiar el nombre de una habilidad
+ * Se sustituye también en las habilidades de los trabajos y de los perfiles
+ */
+exports.updateSkill = async (req, res) => {
+  try {
+    const name = parseCatalogName(req.body.name);
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'El nombre es obligatorio y no puede superar los 60 caracteres'
+      });
+    }
+    
+    const skill = await Skill.findByPk(parseInt(req.params.skillId, 10) || 0);
+    if (!skill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Habilidad no encontrada'
+      });
+    }
+    
+    if (await findCatalogDuplicate(Skill, name, skill.id)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ya existe una habilidad con ese nombre'
+      });
+    }
+    
+    const previousName = skill.name;
+    
+    await sequelize.transaction(async (transaction) => {
+      await skill.update({ name }, { transaction });
+      
+      for (const table of ['Jobs', 'Users']) {
+        await sequelize.query(
+          `UPDATE "${table}" SET skills = array_replace(skills, :previousName, :name) WHERE :previousName = ANY(skills)`,
+          { replacements: { previousName, name }, transaction }
+        );
+      }
+      
+      await recordAdminAction(req.user.id, 'skill.rename', { type: 'skill', id: skill.id }, {
+        previousName,
+        name
+      }, transaction);
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Habilidad actualizada',
+      skill: { id: skill.id, name: skill.name }
+    });
+  
+  } catch (error) {
+    console.error('Error al actualizar la habilidad:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar la habilidad',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar una habilidad del catálogo
+ * Los trabajos y perfiles que ya la tienen la conservan
+ */
+exports.deleteSkill = async (req, res) => {
+  try {
+    const skill = await Skill.findByPk(parseInt(req.params.skillId, 10) || 0);
+    if (!skill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Habilidad no encontrada'
+      });
+    }
+    
+    await sequelize.transaction(async (transaction) => {
+      await skill.destroy({ transaction });
+      await recordAdminAction(req.user.id, 'skill.delete', { type: 'skill', id: skill.id }, {
+        name: skill.name
+      }, transaction);
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Habilidad eliminada'
+    });
+  
+  } catch (error) {
+    console.error('Error al eliminar la habilidad:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar la habilidad',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Registro de auditoría (las acciones más recientes primero)
+ * Filtros: `action` (ej: 'user.suspend') y `targetType`
+ */
+exports.getAuditLog = async (req, res) => {
+  try {
+    const { action, targetType } = req.query;
+    const { limit, where } = getPage(req.query);
+    
+    if (action) where.action = action;
+    if (targetType) where.targetType = targetType;
+    
+    const entries = await AuditLog.findAll({
+      where,
+      include: [
+        {
+          model: User,
+          as: 'admin',
+          attributes: ['id', 'name', 'photoURL']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: limit + 1
+    });
+    
+    return res.status(200).json({
+      success: true,
+      entries: entries.slice(0, limit),
+      hasMore: entries.length > limit
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener el registro de auditoría:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener el registro de auditoría',
+      error: error.message
+    });
+  }
+};
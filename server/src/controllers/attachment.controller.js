@@ -0,0 +1,373 @@
+const { Attachment, Job, Proposal, Comment, Milestone, Contract } = require('../models');
+const {
+  getAttachmentPath,
+  getThumbnailPath,
+  createThumbnail,
+  removeUploadedFiles,
+  removeAttachmentFiles
+} = require('../utils/attachmentStorage');
+const { hasJobPermission } = require('../utils/organizations');
+
+// Archivos que puede tener como máximo cada elemento
+const MAX_ATTACHMENTS_PER_OWNER = 10;
+
+// Estados de un hito en los que el freelancer puede añadir o quitar entregables
+const DELIVERABLE_STATUSES = ['funded', 'submitted', 'disputed'];
+
+const ATTACHMENT_ATTRIBUTES = Attachment.PUBLIC_ATTRIBUTES;
+
+// Elementos que admiten archivos adjuntos: cómo se cargan y quién puede subir archivos
+const ATTACHMENT_OWNERS = {
+  job: {
+    field: 'jobId',
+    label: 'Trabajo',
+    load: (id) => Job.findByPk(id),
+    canUpload: (job, userId) => hasJobPermission(job, userId, 'jobs:manage')
+  },
+  proposal: {
+    field: 'proposalId',
+    label: 'Oferta',
+    load: (id) => Proposal.findByPk(id),
+    canUpload: (proposal, userId) => proposal.userId === userId && proposal.status !== 'withdrawn'
+  },
+  comment: {
+    field: 'commentId',
+    label: 'Comentario',
+    load: (id) => Comment.findByPk(id),
+    canUpload: (comment, userId) => comment.userId === userId
+  },
+  milestone: {
+    field: 'milestoneId',
+    label: 'Hito',
+    load: (id) => Milestone.findByPk(id, { include: [{ model: Contract, as: 'contract' }] }),
+    canUpload: (milestone, userId) =>
+      milestone.contract.freelancerId === userId && DELIVERABLE_STATUSES.includes(milestone.status)
+  }
+};
+
+/**
+ * Comprobar si un usuario puede descargar un archivo
+ * - Trabajos y comentarios: cualquier usuario autenticado (son públicos en la plataforma)
+ * - Ofertas: el freelancer que la envió y los miembros de la organización del trabajo
+ * - Entregables de hitos: el freelancer del contrato y los miembros de la organización del trabajo
+ */
+const canAccessAttachment = async (attachment, userId) => {
+  if (attachment.userId === userId) return true;
+  
+  if (attachment.proposalId) {
+    const proposal = await Proposal.findByPk(attachment.proposalId, {
+      include: [{ model: Job, as: 'job', attributes: ['userId', 'organizationId'] }]
+    });
+    return !!proposal && (proposal.userId === userId || await hasJobPermission(proposal.job, userId, 'jobs:view'));
+  }
+  
+  if (attachment.milestoneId) {
+    const milestone = await Milestone.findByPk(attachment.milestoneId, {
+      include: [{
+        model: Contract,
+        as: 'contract',
+        include: [{ model: Job, as: 'job', attributes: ['userId', 'organizationId'] }]
+      }]
+    });
+    if (!milestone) return false;
+    
+    const { contract } = milestone;
+    return contract.freelancerId === userId || (!!contract.job && await hasJobPermission(contract.job, userId, 'jobs:view'));
+  }
+  
+  return true;
+};
+
+/**
+ * Cargar un archivo comprobando que existe y que el usuario tiene acceso
+ * Si no, responde con el error correspondiente y devuelve null
+ */
+const findAccessibleAttachment = async (req, res) => {
+  const attachment = await Attachment.findByPk(req.params.attachmentId);
+  
+  if (!attachment) {
+    res.status(404).json({
+      success: false,
+      message: 'Archivo no encontrado'
+    });
+    return null;
+  }
+  
+  if (!(await canAccessAttachment(attachment, req.user.id))) {
+    res.status(403).json({
+      success: false,
+      message: 'No tienes permiso para acceder a este archivo'
+    });
+    return null;
+  }
+  
+  return attachment;
+};
+
+/**
+ * Subir archivos a un trabajo, oferta, comentario o hito
+ * Los archivos llegan ya validados (tipo y tamaño) por el middleware de subida
+ */
+exports.uploadAttachments = async (req, res) => {
+  const files = req.files || [];
+  
+  try {
+    const { ownerType, ownerId } = req.params;
+    const owner = ATTACHMENT_OWNERS[ownerType];
+    
+    if (!owner) {
+      await removeUploadedFiles(files);
+      return res.status(404).json({
+        success: false,
+        message: 'Tipo de elemento no válido'
+      });
+    }
+    
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No se ha subido ningún archivo'
+      });
+    }
+    
+    const target = await owner.load(ownerId);
+    if (!target) {
+      await removeUploadedFiles(files);
+      return res.status(404).json({
+        success: false,
+        message: `${owner.label} no encontrado`
+      });
+    }
+    
+    if (!(await owner.canUpload(target, req.user.id))) {
+      await removeUploadedFiles(files);
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para adjuntar archivos aquí'
+      });
+    }
+    
+    const existingCount = await Attachment.count({ where: { [owner.field]: target.id } });
+    if (existingCount + files.length > MAX_ATTACHMENTS_PER_OWNER) {
+      await removeUploadedFiles(files);
+      return res.status(400).json({
+        success: false,
+        message: `Se permiten como máximo ${MAX_ATTACHMENTS_PER_OWNER} archivos por elemento`
+      });
+    }
+    
+    const created = [];
+    for (const file of files) {
+      created.push(await Attachment.create({
+        originalName: file.originalname,
+        fileName: file.filename,
+        mimeType: file.mimetype,
+        size: file.size,
+        thumbnailName: await createThumbnail(file),
+        [owner.field]: target.id,
+        userId: req.user.id
+      }));
+    }
+    
+    const attachments = await Attachment.findAll({
+      where: { id: created.map(attachment => attachment.id) },
+      attributes: ATTACHMENT_ATTRIBUTES,
+      order: [['createdAt', 'ASC']]
+    });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Archivos subidos correctamente',
+      attachments
+    });
+  
+  } catch (error) {
+    await removeUploadedFiles(files);
+    console.error('Error al subir archivos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al subir archivos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener los archivos de un trabajo y de sus comentarios
+ * Los de los comentarios se devuelven agrupados por comentario
+ */
+exports.getJobAttachments = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    
+    const job = await Job.findByPk(jobId, {
+      attributes: ['id'],
+      include: [
+        {
+          model: Attachment,
+          as: 'files',
+          attributes: ATTACHMENT_ATTRIBUTES
+        },
+        {
+          model: Comment,
+          as: 'comments',
+          attributes: ['id'],
+          include: [
+            {
+              model: Attachment,
+              as: 'files',
+              attributes: ATTACHMENT_ATTRIBUTES
+            }
+          ]
+        }
+      ],
+      order: [
+        [{ model: Attachment, as: 'files' }, 'createdAt', 'ASC'],
+        [{ model: Comment, as: 'comments' }, { model: Attachment, as: 'files' }, 'createdAt', 'ASC']
+      ]
+    });
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    const commentAttachments = {};
+    for (const comment of job.comments) {
+      if (comment.files.length > 0) {
+        commentAttachments[comment.id] = comment.files;
+      }
+    }
+    
+    return res.status(200).json({
+      success: true,
+      attachments: job.files,
+      commentAttachments
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener archivos del trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener archivos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Descargar un archivo con su nombre original
+ */
+exports.downloadAttachment = async (req, res) => {
+  try {
+    const attachment = await findAccessibleAttachment(req, res);
+    if (!attachment) return;
+    
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Cache-Control', 'private, no-cache');
+    
+    return res.download(getAttachmentPath(attachment.fileName), attachment.originalName, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          message: 'El archivo ya no está disponible'
+        });
+      }
+    });
+  
+  } catch (error) {
+    console.error('Error al descargar archivo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al descargar archivo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener la miniatura de una imagen adjunta
+ */
+exports.getAttachmentThumbnail = async (req, res) => {
+  try {
+    const attachment = await findAccessibleAttachment(req, res);
+    if (!attachment) return;
+    
+    if (!attachment.thumbnailName) {
+      return res.status(404).json({
+        success: false,
+        message: 'Este archivo no tiene miniatura'
+      });
+    }
+    
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    
+    return res.sendFile(getThumbnailPath(attachment.thumbnailName), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          message: 'La miniatura ya no está disponible'
+        });
+      }
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener miniatura:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener miniatura',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar un archivo (solo quien lo subió)
+ * Los entregables solo se pueden quitar mientras el hito no esté aprobado
+ */
+exports.deleteAttachment = async (req, res) => {
+  try {
+    const attachment = await Attachment.findByPk(req.params.attachmentId, {
+      include: [{ model: Milestone, as: 'milestone' }]
+    });
+    
+    if (!attachment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Archivo no encontrado'
+      });
+    }
+    
+    if (attachment.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo quien subió el archivo puede eliminarlo'
+      });
+    }
+    
+    if (attachment.milestone && !DELIVERABLE_STATUSES.includes(attachment.milestone.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'No se pueden quitar entregables de un hito aprobado'
+      });
+    }
+    
+    await attachment.destroy();
+    await removeAttachmentFiles(attachment);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Archivo eliminado correctamente'
+    });
+  
+  } catch (error) {
+    console.error('Error al eliminar archivo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar archivo',
+      error: error.message
+    });
+  }
+};
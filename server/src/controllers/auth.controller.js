@@ -1,6 +1,14 @@
 
-const jwt = require('jsonwebtoken');
-const { User } = require('../models');
+const { Op } = require('sequelize');
+const { User, Session } = require('../models');
+const { createSession, rotateSession, revokeUserSessions } = require('../utils/sessionTokens');
+const { sendVerificationEmail } = require('../utils/accountEmails');
+const { createOrganization } = require('../utils/organizations');
+const { createLoginChallenge, completeLoginChallenge } = require('../utils/twoFactor');
+const { disconnectSession } = require('./socket.controller');
+
+// Campos de una sesión que se muestran al usuario
+const SESSION_ATTRIBUTES = ['id', 'userAgent', 'ip', 'lastUsedAt', 'createdAt'];
 
 /**
  * Registrar un nuevo usuario
@@ -9,6 +17,14 @@ exports.register = async (req, res) => {
   try {
     const { name, email, password, role = 'freelancer' } = req.body;
     
+    // El rol de administrador no se puede elegir al registrarse
+    if (!['freelancer', 'client'].includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rol no válido'
+      });
+    }
+    
     // Verificar si el email ya está en uso
     const existingUser = await User.findOne({ where: { email } });
     if (existingUser) {
@@ -26,16 +42,25 @@ exports.register = async (req, res) => {
       role
     });
     
-    // Generar token JWT
-    const token = jwt.sign({ id: user.id }, process.env.JWT_SECRET, {
-      expiresIn: process.env.JWT_EXPIRATION
+    // Los clientes publican trabajos a través de una organización: se crea la suya
+    if (user.role === 'client') {
+      await createOrganization(user, name);
+    }
+    
+    // El registro no falla si no se puede enviar el correo: se puede reenviar desde la aplicación
+    sendVerificationEmail(user).catch(error => {
+      console.error('Error al enviar el correo de verificación:', error);
     });
     
+    // Abrir una sesión para este dispositivo
+    const { token, refreshToken } = await createSession(user, req);
+    
     return res.status(201).json({
       success: true,
       message: 'Usuario registrado correctamente',
       user: user.toJSON(),
-      token
+      token,
+      refreshToken
     });
     
   } catch (error) {
@@ -73,21 +98,39 @@ exports.login = async (req, res) => {
       });
     }
     
+    // Las cuentas suspendidas o expulsadas no pueden iniciar sesión
+    const restriction = user.getAccessRestriction();
+    if (restriction) {
+      return res.status(403).json({
+        success: false,
+        message: restriction
+      });
+    }
+    
+    // Con la verificación en dos pasos activa, la sesión se abre tras el segundo paso
+    if (user.twoFactorEnabled) {
+      return res.status(200).json({
+        success: true,
+        message: 'Introduce el código de verificación',
+        twoFactorRequired: true,
+        challengeToken: createLoginChallenge(user)
+      });
+    }
+    
     // Actualizar estado de conexión
     user.isOnline = true;
     user.lastSeen = new Date();
     await user.save();
     
-    // Generar token JWT
-    const token = jwt.sign({ id: user.id }, process.env.JWT_SECRET, {
-      expiresIn: process.env.JWT_EXPIRATION
-    });
+    // Abrir una sesión para este dispositivo
+    const { token, refreshToken } = await createSession(user, req);
     
     return res.status(200).json({
       success: true,
       message: 'Inicio de sesión exitoso',
       user: user.toJSON(),
-      token
+      token,
+      refreshToken
     });
     
   } catch (error) {
@@ -101,12 +144,104 @@ exports.login = async (req, res) => {
 };
 
 /**
- * Cerrar sesión
+ * Segundo paso del inicio de sesión: código TOTP o código de recuperación
+ */
+exports.verifyTwoFactorLogin = async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+    
+    const result = await completeLoginChallenge(challengeToken, code);
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    const { user, method } = result;
+    
+    const restriction = user.getAccessRestriction();
+    if (restriction) {
+      return res.status(403).json({
+        success: false,
+        message: restriction
+      });
+    }
+    
+    // Actualizar estado de conexión
+    user.isOnline = true;
+    user.lastSeen = new Date();
+    await user.save();
+    
+    // Abrir una sesión para este dispositivo
+    const { token, refreshToken } = await createSession(user, req);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Inicio de sesión exitoso',
+      user: user.toJSON(),
+      token,
+      refreshToken,
+      // Avisar de cuántos códigos de recuperación quedan tras usar uno
+      recoveryCodesRemaining: method === 'recovery' ? user.twoFactorRecoveryCodes.length : undefined
+    });
+    
+  } catch (error) {
+    console.error('Error en la verificación en dos pasos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al verificar el código',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Renovar el token de acceso con el refresh token (que también se rota)
+ */
+exports.refresh = async (req, res) => {
+  try {
+    const result = await rotateSession(req.body.refreshToken, req);
+    
+    if (result.error) {
+      // Si se reutilizó un token, la sesión queda cerrada también en tiempo real
+      if (result.session) {
+        disconnectSession(result.session.id);
+      }
+      
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      user: result.user.toJSON(),
+      token: result.token,
+      refreshToken: result.refreshToken
+    });
+    
+  } catch (error) {
+    console.error('Error al renovar la sesión:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al renovar la sesión',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cerrar sesión (revoca la sesión del dispositivo actual)
  */
 exports.logout = async (req, res) => {
   try {
     const userId = req.user.id;
     
+    await req.authSession.update({ revokedAt: new Date(), revokedReason: 'logout' });
+    disconnectSession(req.authSession.id);
+    
     // Actualizar estado de conexión
     await User.update(
       { isOnline: false, lastSeen: new Date() },
@@ -150,3 +285,96 @@ exports.verifySession = async (req, res) => {
     });
   }
 };
+
+/**
+ * Obtener las sesiones activas del usuario (una por dispositivo)
+ */
+exports.getSessions = async (req, res) => {
+  try {
+    const sessions = await Session.findAll({
+      where: {
+        userId: req.user.id,
+        revokedAt: null,
+        expiresAt: { [Op.gt]: new Date() }
+      },
+      attributes: SESSION_ATTRIBUTES,
+      order: [['lastUsedAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      sessions: sessions.map(session => ({
+        ...session.toJSON(),
+        current: session.id === req.authSession.id
+      }))
+    });
+    
+  } catch (error) {
+    console.error('Error al obtener sesiones:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener sesiones',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cerrar una sesión concreta del usuario
+ */
+exports.revokeSession = async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    
+    const session = await Session.findOne({
+      where: { id: sessionId, userId: req.user.id, revokedAt: null }
+    });
+    
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sesión no encontrada'
+      });
+    }
+    
+    await session.update({ revokedAt: new Date(), revokedReason: 'revoked' });
+    disconnectSession(session.id);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Sesión cerrada correctamente'
+    });
+    
+  } catch (error) {
+    console.error('Error al cerrar la sesión:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al cerrar la sesión',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cerrar todas las sesiones del usuario excepto la actual
+ */
+exports.revokeOtherSessions = async (req, res) => {
+  try {
+    const sessionIds = await revokeUserSessions(req.user.id, req.authSession.id);
+    sessionIds.forEach(disconnectSession);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Se han cerrado las demás sesiones',
+      revokedCount: sessionIds.length
+    });
+    
+  } catch (error) {
+    console.error('Error al cerrar las demás sesiones:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al cerrar las demás sesiones',
+      error: error.message
+    });
+  }
+};
@@ -1,6 +1,126 @@
 
-const { Chat, User, Message } = require('../models');
-const { Op } = require('sequelize');
+const { Chat, User, Message, sequelize } = require('../models');
+const { Op, QueryTypes } = require('sequelize');
+const { getIO, emitToUser } = require('./socket.controller');
+const {
+  MESSAGE_INCLUDE,
+  createMessageReceipts,
+  findMessageWithReceipts,
+  markChatMessagesRead
+} = require('../utils/messageReceipts');
+const { editMessage, deleteMessage, toggleReaction, getMessageEdits } = require('../utils/messageActions');
+const { notifyNewMessage } = require('./notification.controller');
+const {
+  getBlockedUserIds,
+  notFromBlockedUsers,
+  checkChatBlocks,
+  checkPrivateChatBlocks
+} = require('../utils/blocks');
+const { createOnce } = require('../utils/idempotency');
+
+// Mensajes por página del historial
+const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+/**
+ * Condición para los mensajes anteriores o posteriores a uno dado
+ * Se ordena por fecha y, a igualdad de fecha, por id
+ */
+const beyondMessage = (anchor, direction) => {
+  const op = direction === 'before' ? Op.lt : Op.gt;
+  return {
+    [Op.or]: [
+      { createdAt: { [op]: anchor.createdAt } },
+      { createdAt: anchor.createdAt, id: { [op]: anchor.id } }
+    ]
+  };
+};
+
+/**
+ * Obtener mensajes de un chat a un lado de un mensaje (o los más recientes si no hay ancla)
+ * @param hiddenUserIds - Usuarios cuyos mensajes no se devuelven (los bloqueados)
+ * @returns { messages (del más antiguo al más reciente), hasMore }
+ */
+const findMessagesBeyond = async (chatId, anchor, direction, limit, hiddenUserIds) => {
+  const descending = direction === 'before';
+  const messages = await Message.findAll({
+    where: {
+      [Op.and]: [
+        { chatId },
+        anchor ? beyondMessage(anchor, direction) : {},
+        notFromBlockedUsers(hiddenUserIds, true)
+      ]
+    },
+    include: MESSAGE_INCLUDE,
+    order: [['createdAt', descending ? 'DESC' : 'ASC'], ['id', descending ? 'DESC' : 'ASC']],
+    limit: limit + 1
+  });
+  
+  const page = messages.slice(0, limit);
+  return {
+    messages: descending ? page.reverse() : page,
+    hasMore: messages.length > limit
+  };
+};
+
+/**
+ * Obtener una página del historial de un chat
+ * @param cursor.before - Mensajes anteriores a este id
+ * @param cursor.after - Mensajes posteriores a este id
+ * @param cursor.around - Este mensaje con contexto a ambos lados
+ * @param hiddenUserIds - Usuarios cuyos mensajes no se devuelven (los bloqueados)
+ * @returns { messages, hasOlder, hasNewer } o null si el mensaje de referencia no es del chat
+ *   (o, con around, es de un usuario oculto)
+ */
+const findMessagePage = async (chatId, { before, after, around } = {}, limit = DEFAULT_MESSAGE_PAGE_SIZE, hiddenUserIds = []) => {
+  const anchorId = before || after || around;
+  const anchor = anchorId
+    ? await Message.findOne({ where: { id: anchorId, chatId }, include: MESSAGE_INCLUDE })
+    : null;
+  
+  if (anchorId && !anchor) return null;
+  
+  if (around) {
+    // El mensaje de referencia se devuelve, así que tampoco puede ser de un usuario oculto
+    if (hiddenUserIds.includes(anchor.userId)) return null;
+    
+    const half = Math.floor(limit / 2);
+    const older = await findMessagesBeyond(chatId, anchor, 'before', half, hiddenUserIds);
+    const newer = await findMessagesBeyond(chatId, anchor, 'after', half, hiddenUserIds);
+    return {
+      messages: [...older.messages, anchor, ...newer.messages],
+      hasOlder: older.hasMore,
+      hasNewer: newer.hasMore
+    };
+  }
+  
+  if (after) {
+    const newer = await findMessagesBeyond(chatId, anchor, 'after', limit, hiddenUserIds);
+    return { messages: newer.messages, hasOlder: true, hasNewer: newer.hasMore };
+  }
+  
+  const older = await findMessagesBeyond(chatId, anchor, 'before', limit, hiddenUserIds);
+  return { messages: older.messages, hasOlder: older.hasMore, hasNewer: !!anchor };
+};
+
+/**
+ * Buscar el chat privado entre dos usuarios: el que los tiene a ambos como participantes y a nadie más
+ * @returns El id del chat o null si no existe
+ */
+const findPrivateChatId = async (userIds) => {
+  const [row] = await sequelize.query(`
+    SELECT cp."chatId"
+    FROM "ChatParticipants" cp
+    JOIN "Chats" c ON c.id = cp."chatId" AND c."isGroup" = false
+    GROUP BY cp."chatId"
+    HAVING COUNT(*) = 2 AND COUNT(*) FILTER (WHERE cp."userId" IN (:userIds)) = 2
+    LIMIT 1`, {
+    replacements: { userIds },
+    type: QueryTypes.SELECT
+  });
+  
+  return row ? row.chatId : null;
+};
 
 /**
  * Crear un nuevo chat
@@ -10,55 +130,50 @@ exports.createChat = async (req, res) => {
     const { participantIds, name, isGroup } = req.body;
     const userId = req.user.id;
     
+    if (!Array.isArray(participantIds) || participantIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Debes indicar al menos un participante'
+      });
+    }
+    
     // Asegurarse de que el usuario actual está incluido en los participantes
     if (!participantIds.includes(userId)) {
       participantIds.push(userId);
     }
     
+    // No se puede abrir un chat con quien te ha bloqueado o con quien has bloqueado
+    const blockError = await checkChatBlocks(userId, participantIds);
+    if (blockError) {
+      return res.status(blockError.status).json({
+        success: false,
+        message: blockError.error
+      });
+    }
+    
     // Para chats privados (no grupos), verificar si ya existe un chat entre los usuarios
     if (!isGroup && participantIds.length === 2) {
-      const existingChat = await Chat.findOne({
-        include: [
-          {
-            model: User,
-            as: 'participants',
-            where: {
-              id: { [Op.in]: participantIds }
-            }
-          }
-        ],
-        where: { isGroup: false }
-      });
+      const existingChatId = await findPrivateChatId(participantIds);
       
-      // Si ya existe un chat privado entre estos usuarios, devolverlo
-      if (existingChat && (await existingChat.getParticipants()).length === 2) {
-        const chatWithDetails = await Chat.findByPk(existingChat.id, {
+      // Si ya existe un chat privado entre estos usuarios, devolverlo con la página más
+      // reciente de mensajes, igual que al abrirlo
+      if (existingChatId) {
+        const existingChat = await Chat.findByPk(existingChatId, {
           include: [
             {
               model: User,
               as: 'participants',
               attributes: ['id', 'name', 'photoURL', 'isOnline', 'lastSeen']
-            },
-            {
-              model: Message,
-              as: 'messages',
-              limit: 20,
-              order: [['createdAt', 'DESC']],
-              include: [
-                {
-                  model: User,
-                  as: 'user',
-                  attributes: ['id', 'name', 'photoURL']
-                }
-              ]
             }
           ]
         });
+        const page = await findMessagePage(existingChatId, {}, DEFAULT_MESSAGE_PAGE_SIZE, await getBlockedUserIds(userId));
         
         return res.status(200).json({
           success: true,
           message: 'Chat existente encontrado',
-          chat: chatWithDetails
+          chat: { ...existingChat.toJSON(), messages: page.messages },
+          hasOlderMessages: page.hasOlder
         });
       }
     }
@@ -83,6 +198,11 @@ exports.createChat = async (req, res) => {
       ]
     });
     
+    // Avisar a los participantes para que se unan a la sala del nuevo chat
+    participantIds.forEach(participantId => {
+      emitToUser(participantId, 'chat_created', chatWithDetails);
+    });
+    
     return res.status(201).json({
       success: true,
       message: 'Chat creado correctamente',
@@ -108,6 +228,7 @@ exports.getChats = async (req, res) => {
     
     // Buscar usuario
     const user = await User.findByPk(userId);
+    const hiddenUserIds = await getBlockedUserIds(userId);
     
     // Obtener todos los chats donde el usuario es participante
     const chats = await user.getChats({
@@ -120,15 +241,11 @@ exports.getChats = async (req, res) => {
         {
           model: Message,
           as: 'messages',
+          separate: true,
+          where: notFromBlockedUsers(hiddenUserIds, true),
           limit: 1,
           order: [['createdAt', 'DESC']],
-          include: [
-            {
-              model: User,
-              as: 'user',
-              attributes: ['id', 'name', 'photoURL']
-            }
-          ]
+          include: MESSAGE_INCLUDE
         }
       ],
       order: [['lastMessageAt', 'DESC']]
@@ -164,19 +281,6 @@ exports.getChat = async (req, res) => {
           model: User,
           as: 'participants',
           attributes: ['id', 'name', 'photoURL', 'isOnline', 'lastSeen']
-        },
-        {
-          model: Message,
-          as: 'messages',
-          limit: 50,
-          order: [['createdAt', 'DESC']],
-          include: [
-            {
-              model: User,
-              as: 'user',
-              attributes: ['id', 'name', 'photoURL']
-            }
-          ]
         }
       ]
     });
@@ -197,21 +301,24 @@ exports.getChat = async (req, res) => {
       });
     }
     
-    // Marcar mensajes como leídos
-    await Message.update(
-      { read: true },
-      {
-        where: {
-          chatId,
-          userId: { [Op.ne]: userId },
-          read: false
-        }
-      }
-    );
+    // Marcar mensajes como leídos y avisar al resto de participantes
+    const readCount = await markChatMessagesRead(chatId, userId);
+    const io = getIO();
+    if (readCount > 0 && io) {
+      io.to(`chat:${chatId}`).emit('messages_read', {
+        chatId,
+        userId,
+        readAt: new Date()
+      });
+    }
+    
+    // Solo se envía la página más reciente; el resto se pide a /messages
+    const page = await findMessagePage(chatId, {}, DEFAULT_MESSAGE_PAGE_SIZE, await getBlockedUserIds(userId));
     
     return res.status(200).json({
       success: true,
-      chat
+      chat: { ...chat.toJSON(), messages: page.messages },
+      hasOlderMessages: page.hasOlder
     });
     
   } catch (error) {
@@ -224,13 +331,72 @@ exports.getChat = async (req, res) => {
   }
 };
 
+/**
+ * Obtener el historial de mensajes de un chat paginado por cursor
+ * - before: mensajes anteriores a ese id (scroll hacia arriba)
+ * - after: mensajes posteriores a ese id (volver hacia el presente)
+ * - around: ese mensaje con contexto a ambos lados (saltar a un mensaje)
+ * Sin cursor devuelve los más recientes
+ */
+exports.getMessages = async (req, res) => {
+  try {
+    const { chatId } = req.params;
+    const { before, after, around } = req.query;
+    const limit = Math.min(parseInt(req.query.limit, 10) || DEFAULT_MESSAGE_PAGE_SIZE, MAX_MESSAGE_PAGE_SIZE);
+    
+    if ([before, after, around].filter(Boolean).length > 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Usa solo uno de before, after o around'
+      });
+    }
+    
+    const chat = await Chat.findByPk(chatId);
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat no encontrado'
+      });
+    }
+    
+    const isParticipant = await chat.hasParticipant(req.user.id);
+    if (!isParticipant) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes acceso a este chat'
+      });
+    }
+    
+    const page = await findMessagePage(chatId, { before, after, around }, limit, await getBlockedUserIds(req.user.id));
+    if (!page) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mensaje no encontrado en este chat'
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      ...page
+    });
+    
+  } catch (error) {
+    console.error('Error al obtener mensajes:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener mensajes',
+      error: error.message
+    });
+  }
+};
+
 /**
  * Enviar un mensaje
  */
 exports.sendMessage = async (req, res) => {
   try {
     const { chatId } = req.params;
-    const { content } = req.body;
+    const { content, idempotencyKey } = req.body;
     const userId = req.user.id;
     
     // Verificar que el chat existe
@@ -251,29 +417,45 @@ exports.sendMessage = async (req, res) => {
       });
     }
     
-    // Crear mensaje
-    const message = await Message.create({
+    // En un chat privado con un bloqueo de por medio ya no se puede escribir
+    const blockError = await checkPrivateChatBlocks(chat, userId);
+    if (blockError) {
+      return res.status(blockError.status).json({
+        success: false,
+        message: blockError.error
+      });
+    }
+    
+    // Crear mensaje (un reintento con la misma clave devuelve el ya creado sin volver a propagarlo)
+    const { record: message, created } = await createOnce(Message, {
       content,
       chatId,
-      userId
-    });
+      userId,
+      idempotencyKey
+    }, 'chatId');
+    
+    if (created) {
+      // Actualizar lastMessageAt del chat
+      chat.lastMessageAt = new Date();
+      await chat.save();
+      
+      await createMessageReceipts(chat, message);
+    }
     
-    // Actualizar lastMessageAt del chat
-    chat.lastMessageAt = new Date();
-    await chat.save();
+    // Cargar mensaje con información del usuario y sus recibos
+    const messageWithUser = await findMessageWithReceipts(message.id);
     
-    // Cargar mensaje con información del usuario
-    const messageWithUser = await Message.findByPk(message.id, {
-      include: [
-        {
-          model: User,
-          as: 'user',
-          attributes: ['id', 'name', 'photoURL']
-        }
-      ]
-    });
+    if (created) {
+      // Propagar el mensaje en tiempo real a los participantes conectados
+      const io = getIO();
+      if (io) {
+        io.to(`chat:${chatId}`).emit('new_message', messageWithUser);
+      }
+      
+      await notifyNewMessage(chat, message);
+    }
     
-    return res.status(201).json({
+    return res.status(created ? 201 : 200).json({
       success: true,
       message: 'Mensaje enviado correctamente',
       chatMessage: messageWithUser
@@ -289,6 +471,147 @@ exports.sendMessage = async (req, res) => {
   }
 };
 
+/**
+ * Editar un mensaje propio (se guarda la versión anterior)
+ */
+exports.editMessage = async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    const { content } = req.body;
+    
+    const result = await editMessage({ messageId, chatId, userId: req.user.id, content });
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    const io = getIO();
+    if (io) {
+      io.to(`chat:${chatId}`).emit('message_edited', result.message);
+    }
+    
+    return res.status(200).json({
+      success: true,
+      chatMessage: result.message
+    });
+    
+  } catch (error) {
+    console.error('Error al editar mensaje:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al editar mensaje',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar un mensaje propio para todos los participantes
+ */
+exports.deleteMessage = async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    
+    const result = await deleteMessage({ messageId, chatId, userId: req.user.id });
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    const io = getIO();
+    if (io) {
+      io.to(`chat:${chatId}`).emit('message_deleted', {
+        chatId,
+        messageId,
+        deletedAt: result.message.deletedAt
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Mensaje eliminado'
+    });
+    
+  } catch (error) {
+    console.error('Error al eliminar mensaje:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar mensaje',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Añadir o quitar una reacción a un mensaje
+ */
+exports.toggleReaction = async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    const { emoji } = req.body;
+    
+    const result = await toggleReaction({ messageId, chatId, userId: req.user.id, emoji });
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    const io = getIO();
+    if (io) {
+      io.to(`chat:${chatId}`).emit('message_reactions', { chatId, messageId, reactions: result.reactions });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      reactions: result.reactions
+    });
+    
+  } catch (error) {
+    console.error('Error al reaccionar a mensaje:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al reaccionar al mensaje',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener el historial de ediciones de un mensaje
+ */
+exports.getMessageEdits = async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    
+    const result = await getMessageEdits({ messageId, chatId, userId: req.user.id });
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      edits: result.edits
+    });
+    
+  } catch (error) {
+    console.error('Error al obtener historial de ediciones:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener historial de ediciones',
+      error: error.message
+    });
+  }
+};
+
 /**
  * Añadir participante a un chat grupal
  */
@@ -333,6 +656,15 @@ exports.addParticipant = async (req, res) => {
       });
     }
     
+    // No se puede añadir a quien te ha bloqueado o a quien has bloqueado
+    const blockError = await checkChatBlocks(requestUserId, [participantId]);
+    if (blockError) {
+      return res.status(blockError.status).json({
+        success: false,
+        message: blockError.error
+      });
+    }
+    
     // Verificar si el usuario ya es participante
     const isAlreadyParticipant = await chat.hasParticipant(participantId);
     if (isAlreadyParticipant) {
@@ -345,11 +677,11 @@ exports.addParticipant = async (req, res) => {
     // Añadir participante
     await chat.addParticipant(participantId);
     
-    // Crear mensaje del sistema
-    await Message.create({
+    // Crear mensaje del sistema (sin usuario asociado)
+    const systemMessage = await Message.create({
       content: `${req.user.name} ha añadido a ${userToAdd.name} al chat`,
       chatId,
-      userId: 'system' // ID especial para mensajes del sistema
+      userId: null
     });
     
     // Obtener chat actualizado con participantes
@@ -363,6 +695,13 @@ exports.addParticipant = async (req, res) => {
       ]
     });
     
+    // Notificar al nuevo participante y al resto del chat
+    emitToUser(participantId, 'chat_created', updatedChat);
+    const io = getIO();
+    if (io) {
+      io.to(`chat:${chatId}`).emit('new_message', systemMessage);
+    }
+    
     return res.status(200).json({
       success: true,
       message: 'Participante añadido correctamente',
@@ -416,13 +755,23 @@ exports.leaveChat = async (req, res) => {
     // Eliminar al usuario de los participantes
     await chat.removeParticipant(userId);
     
-    // Crear mensaje del sistema
-    await Message.create({
+    // Sacar sus conexiones de la sala para que deje de recibir los eventos del chat
+    const io = getIO();
+    if (io) {
+      io.in(`user:${userId}`).socketsLeave(`chat:${chatId}`);
+    }
+    
+    // Crear mensaje del sistema (sin usuario asociado)
+    const systemMessage = await Message.create({
       content: `${req.user.name} ha abandonado el chat`,
       chatId,
-      userId: 'system'
+      userId: null
     });
     
+    if (io) {
+      io.to(`chat:${chatId}`).emit('new_message', systemMessage);
+    }
+    
     return res.status(200).json({
       success: true,
       message: 'Has abandonado el chat correctamente'
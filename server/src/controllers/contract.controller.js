@@ -0,0 +1,455 @@
+const { Contract, Milestone, Job, User, Attachment, OrganizationMember, sequelize } = require('../models');
+const { Op } = require('sequelize');
+const { transitionJob, lockContractWithJob } = require('../utils/jobLifecycle');
+const { hasPermission, hasJobPermission } = require('../utils/organizations');
+const {
+  toCents,
+  postMilestoneMovement,
+  getContractBalances,
+  allocatedCents,
+  completeContractIfPaid
+} = require('../utils/escrow');
+
+// Transiciones permitidas de los hitos: quién puede realizarlas y desde qué estados
+const MILESTONE_TRANSITIONS = {
+  fund: { role: 'client', from: ['pending'], to: 'funded' },
+  submit: { role: 'freelancer', from: ['funded', 'disputed'], to: 'submitted' },
+  approve: { role: 'client', from: ['submitted', 'disputed'], to: 'approved' },
+  release: { role: 'client', from: ['approved'], to: 'released' },
+  dispute: { role: 'any', from: ['funded', 'submitted', 'approved'], to: 'disputed' },
+  // El freelancer puede devolver al cliente el importe en garantía (ej: para cerrar una disputa)
+  refund: { role: 'freelancer', from: ['funded', 'submitted', 'approved', 'disputed'], to: 'refunded' }
+};
+
+// Acciones que mueven dinero en el libro contable
+const LEDGER_ACTIONS = ['fund', 'release', 'refund'];
+
+// Datos de usuario que se incluyen al devolver un contrato
+const PARTY_ATTRIBUTES = ['id', 'name', 'photoURL'];
+
+// Datos del trabajo necesarios para comprobar los permisos de su organización
+const JOB_ATTRIBUTES = ['id', 'title', 'status', 'userId', 'organizationId'];
+
+/**
+ * Papel de un usuario en un contrato
+ * - client: actúa en nombre del cliente (permiso contracts:manage sobre el trabajo)
+ * - freelancer: el freelancer contratado
+ * - viewer: miembro de la organización del trabajo que solo puede consultarlo
+ * @returns null si el usuario no tiene acceso al contrato
+ */
+const getContractRole = async (contract, job, userId) => {
+  if (contract.freelancerId === userId) return 'freelancer';
+  if (!job) return null;
+  if (await hasJobPermission(job, userId, 'contracts:manage')) return 'client';
+  if (await hasJobPermission(job, userId, 'jobs:view')) return 'viewer';
+  return null;
+};
+
+/**
+ * Obtener un contrato con sus partes, hitos, saldos y el papel del usuario en él
+ */
+const findContractWithDetails = async (contractId, userId, transaction) => {
+  const contract = await Contract.findByPk(contractId, {
+    include: [
+      { model: User, as: 'client', attributes: PARTY_ATTRIBUTES },
+      { model: User, as: 'freelancer', attributes: PARTY_ATTRIBUTES },
+      { model: Job, as: 'job', attributes: JOB_ATTRIBUTES },
+      {
+        model: Milestone,
+        as: 'milestones',
+        include: [{ model: Attachment, as: 'files', attributes: Attachment.PUBLIC_ATTRIBUTES }]
+      }
+    ],
+    order: [
+      [{ model: Milestone, as: 'milestones' }, 'createdAt', 'ASC'],
+      [{ model: Milestone, as: 'milestones' }, { model: Attachment, as: 'files' }, 'createdAt', 'ASC']
+    ],
+    transaction
+  });
+  
+  if (!contract) return null;
+  
+  return {
+    ...contract.toJSON(),
+    balances: await getContractBalances(contract, transaction),
+    role: await getContractRole(contract, contract.job, userId)
+  };
+};
+
+/**
+ * Obtener los contratos del usuario actual: como freelancer o de los trabajos
+ * de sus organizaciones
+ */
+exports.getMyContracts = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    
+    const memberships = await OrganizationMember.findAll({ where: { userId } });
+    const organizationIds = memberships
+      .filter(membership => hasPermission(membership.role, 'jobs:view'))
+      .map(membership => membership.organizationId);
+    
+    const contracts = await Contract.findAll({
+      where: {
+        [Op.or]: [
+          { clientId: userId },
+          { freelancerId: userId },
+          ...(organizationIds.length > 0 ? [{ '$job.organizationId$': organizationIds }] : [])
+        ]
+      },
+      include: [
+        { model: User, as: 'client', attributes: PARTY_ATTRIBUTES },
+        { model: User, as: 'freelancer', attributes: PARTY_ATTRIBUTES },
+        { model: Job, as: 'job', attributes: JOB_ATTRIBUTES }
+      ],
+      order: [['createdAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      contracts
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener contratos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener contratos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener el contrato de un trabajo: el activo o, si no hay, el último
+ * (el activo siempre es el más reciente: se crea al asignar el trabajo)
+ */
+exports.getJobContract = async (req, res) => {
+  try {
+    const contract = await Contract.findOne({
+      where: { jobId: req.params.jobId },
+      include: [{ model: Job, as: 'job', attributes: JOB_ATTRIBUTES }],
+      order: [['createdAt', 'DESC']]
+    });
+    
+    if (!contract || !(await getContractRole(contract, contract.job, req.user.id))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contrato no encontrado'
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      contract: await findContractWithDetails(contract.id, req.user.id)
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener contrato del trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener contrato',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener un contrato por ID
+ */
+exports.getContract = async (req, res) => {
+  try {
+    const contract = await findContractWithDetails(req.params.contractId, req.user.id);
+    
+    if (!contract) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contrato no encontrado'
+      });
+    }
+    
+    if (!contract.role) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes acceso a este contrato'
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      contract
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener contrato:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener contrato',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Añadir un hito a un contrato (quien actúa en nombre del cliente)
+ * La suma de los hitos no puede superar el importe total del contrato; el contrato se
+ * bloquea para que dos hitos creados a la vez no la superen entre los dos
+ */
+exports.createMilestone = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { contractId } = req.params;
+    const { title, description, amount, dueDate } = req.body;
+    
+    if (!title || !amount || parseFloat(amount) <= 0) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'El hito necesita un título y un importe mayor que cero'
+      });
+    }
+    
+    const locked = await lockContractWithJob(contractId, transaction);
+    
+    if (!locked) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Contrato no encontrado'
+      });
+    }
+    
+    const { contract, job } = locked;
+    if (await getContractRole(contract, job, req.user.id) !== 'client') {
+      await transaction.rollback();
+      return res.status(403).json({
+        success: false,
+        message: 'Solo el cliente puede añadir hitos'
+      });
+    }
+    
+    if (contract.status !== 'active') {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'El contrato ya no está activo'
+      });
+    }
+    
+    const milestones = await Milestone.findAll({ where: { contractId }, transaction });
+    if (allocatedCents(milestones) + toCents(parseFloat(amount)) > toCents(contract.totalAmount)) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'La suma de los hitos supera el importe del contrato'
+      });
+    }
+    
+    await Milestone.create({
+      contractId,
+      title,
+      description,
+      amount: parseFloat(amount),
+      dueDate: dueDate || null
+    }, { transaction });
+    
+    await transaction.commit();
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Hito creado correctamente',
+      contract: await findContractWithDetails(contractId, req.user.id)
+    });
+  
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al crear hito:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear hito',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar un hito que todavía no se ha financiado (quien actúa en nombre del cliente)
+ * El contrato se bloquea como en las acciones sobre los hitos para que no se financie a la vez
+ */
+exports.deleteMilestone = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { contractId, milestoneId } = req.params;
+    
+    const locked = await lockContractWithJob(contractId, transaction);
+    const milestone = locked && await Milestone.findOne({
+      where: { id: milestoneId, contractId },
+      transaction
+    });
+    
+    if (!milestone) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Hito no encontrado'
+      });
+    }
+    
+    const { contract, job } = locked;
+    if (await getContractRole(contract, job, req.user.id) !== 'client') {
+      await transaction.rollback();
+      return res.status(403).json({
+        success: false,
+        message: 'Solo el cliente puede eliminar hitos'
+      });
+    }
+    
+    if (contract.status !== 'active' || milestone.status !== 'pending') {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Solo se pueden eliminar hitos sin financiar de un contrato activo'
+      });
+    }
+    
+    await milestone.destroy({ transaction });
+    await transaction.commit();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Hito eliminado correctamente',
+      contract: await findContractWithDetails(contractId, req.user.id)
+    });
+  
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al eliminar hito:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar hito',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Aplicar una acción a un hito (fund, submit, approve, release, dispute, refund)
+ * - fund: el cliente deposita el importe en garantía
+ * - release: el importe en garantía se paga al freelancer
+ * - refund: el freelancer devuelve al cliente el importe en garantía
+ * Cuando los pagos liberados cubren el contrato, este se completa. Las disputas se cierran
+ * aprobando la entrega, devolviendo el importe o con la resolución de un administrador
+ */
+exports.updateMilestone = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { contractId, milestoneId, action } = req.params;
+    const { note } = req.body;
+    const userId = req.user.id;
+    const transition = MILESTONE_TRANSITIONS[action];
+    
+    if (!transition) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Acción no válida'
+      });
+    }
+    
+    // Bloquear el contrato para que dos acciones simultáneas no dupliquen apuntes
+    const { contract, job } = await lockContractWithJob(contractId, transaction) || {};
+    const role = contract && await getContractRole(contract, job, userId);
+    
+    if (!role) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Contrato no encontrado'
+      });
+    }
+    
+    const milestones = await Milestone.findAll({ where: { contractId }, transaction });
+    
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Hito no encontrado'
+      });
+    }
+    
+    // Los miembros que solo pueden consultar el contrato no realizan ninguna acción
+    if (role === 'viewer' || (transition.role !== 'any' && transition.role !== role)) {
+      await transaction.rollback();
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para realizar esta acción'
+      });
+    }
+    
+    if (contract.status !== 'active' || !transition.from.includes(milestone.status)) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: `No se puede realizar esta acción sobre un hito en estado "${milestone.status}"`
+      });
+    }
+    
+    if (LEDGER_ACTIONS.includes(action)) {
+      await postMilestoneMovement(action, contract, milestone, transaction);
+    }
+    
+    if (action === 'submit') {
+      milestone.submissionNote = note || null;
+    }
+    
+    if (action === 'dispute') {
+      milestone.disputeReason = note || null;
+    }
+    
+    if (action === 'refund') {
+      milestone.resolutionNote = note || null;
+    }
+    
+    milestone.status = transition.to;
+    await milestone.save({ transaction });
+    
+    // El trabajo empieza con el primer hito financiado y se completa cuando se ha pagado todo
+    let transitionError = null;
+    if (action === 'fund' && job.status === 'assigned') {
+      transitionError = await transitionJob(job, 'in-progress', { userId, transaction });
+    }
+    if (action === 'release') {
+      transitionError = await completeContractIfPaid(contract, job, milestones, { userId, transaction });
+    }
+    
+    if (transitionError) {
+      await transaction.rollback();
+      return res.status(transitionError.status).json({
+        success: false,
+        message: transitionError.error
+      });
+    }
+    
+    await transaction.commit();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Hito actualizado correctamente',
+      contract: await findContractWithDetails(contractId, userId)
+    });
+  
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al actualizar hito:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar hito',
+      error: error.message
+    });
+  }
+};
@@ -1,6 +1,112 @@
 
-const { Job, User, Comment, Reply, Category, Skill } = require('../models');
-const { Op } = require('sequelize');
+const { Job, User, Comment, Reply, Category, Skill, Proposal, Contract, Milestone, LedgerEntry, Attachment, Organization, JobStatusChange, sequelize } = require('../models');
+const { Op, fn, col, literal } = require('sequelize');
+const { buildJobFilters } = require('../utils/jobFilters');
+const { notifySavedSearchMatches } = require('./savedSearch.controller');
+const { notifyUser, toPreview } = require('./notification.controller');
+const { removeAttachmentFiles } = require('../utils/attachmentStorage');
+const { hasJobPermission } = require('../utils/organizations');
+const { getBlockedUserIds, notFromBlockedUsers } = require('../utils/blocks');
+const { createOnce } = require('../utils/idempotency');
+const { UUID_PATTERN } = require('../utils/sessionTokens');
+const { getJobRoles, getAvailableTransitions, recordStatusChange, transitionJob } = require('../utils/jobLifecycle');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Subconsultas para ordenar por popularidad
+const LIKES_COUNT_SQL = '(SELECT COUNT(*) FROM "JobLikes" WHERE "JobLikes"."jobId" = "Job"."id")';
+const COMMENTS_COUNT_SQL = '(SELECT COUNT(*) FROM "Comments" WHERE "Comments"."jobId" = "Job"."id")';
+
+// Criterios de ordenación disponibles en el listado de trabajos
+// valueType es el tipo del valor de orden que se guarda en el cursor
+const SORT_OPTIONS = {
+  newest: { expression: '"Job"."createdAt"', direction: 'DESC', valueType: 'date' },
+  budget_desc: { expression: '"Job"."budget"', direction: 'DESC', valueType: 'number' },
+  budget_asc: { expression: '"Job"."budget"', direction: 'ASC', valueType: 'number' },
+  most_liked: { expression: LIKES_COUNT_SQL, direction: 'DESC', valueType: 'number' },
+  most_commented: { expression: COMMENTS_COUNT_SQL, direction: 'DESC', valueType: 'number' }
+};
+
+// Formatos del valor de orden en el cursor: fechas de toISOString y números
+// (los recuentos llegan de Postgres como texto, así que un número puede venir entre comillas)
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Codificar el cursor de paginación (valor de orden del último trabajo + su id)
+ */
+const encodeCursor = (value, id) => {
+  const serializedValue = value instanceof Date ? value.toISOString() : value;
+  return Buffer.from(JSON.stringify({ value: serializedValue, id })).toString('base64url');
+};
+
+/**
+ * Indicar si el valor de orden de un cursor tiene el tipo del criterio de ordenación
+ */
+const isValidSortValue = (value, valueType) => {
+  if (valueType === 'date') {
+    return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+  }
+  return Number.isFinite(value) || (typeof value === 'string' && NUMERIC_PATTERN.test(value));
+};
+
+/**
+ * Decodificar el cursor de paginación; devuelve null si no es válido
+ * El valor y el id van directos a la consulta, así que se comprueba su tipo para no
+ * provocar un error de conversión en Postgres
+ */
+const decodeCursor = (cursor, sortOption) => {
+  if (!cursor) return null;
+  
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const isValid = decoded
+      && typeof decoded.id === 'string'
+      && UUID_PATTERN.test(decoded.id)
+      && isValidSortValue(decoded.value, sortOption.valueType);
+    return isValid ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Contar trabajos por categoría, estado y habilidad
+ * Cada faceta aplica todos los filtros salvo el suyo propio
+ */
+const getJobFacets = async (query, hiddenUserIds) => {
+  const toFacet = (rows, field) => rows
+    .map(row => ({ value: row[field], count: parseInt(row.count, 10) }))
+    .sort((a, b) => b.count - a.count);
+  
+  const [categories, statuses, skills] = await Promise.all([
+    Job.findAll({
+      attributes: ['category', [fn('COUNT', col('id')), 'count']],
+      where: buildJobFilters(query, 'category', hiddenUserIds),
+      group: ['category'],
+      raw: true
+    }),
+    Job.findAll({
+      attributes: ['status', [fn('COUNT', col('id')), 'count']],
+      where: buildJobFilters(query, 'status', hiddenUserIds),
+      group: ['status'],
+      raw: true
+    }),
+    Job.findAll({
+      attributes: [[fn('unnest', col('skills')), 'skill'], [fn('COUNT', literal('*')), 'count']],
+      where: buildJobFilters(query, 'skills', hiddenUserIds),
+      group: ['skill'],
+      raw: true
+    })
+  ]);
+  
+  return {
+    categories: toFacet(categories, 'category'),
+    statuses: toFacet(statuses, 'status'),
+    skills: toFacet(skills, 'skill')
+  };
+};
 
 // Obtener categorías
 exports.getCategories = async (req, res) => {
@@ -52,15 +158,10 @@ exports.createJob = async (req, res) => {
     const { title, description, budget, category, skills } = req.body;
     const userId = req.user.id;
     
-    console.log('Creating job with data:', { title, description, budget, category, skills, userId });
+    // Organización en la que se publica (comprobada por requireOrganizationPermission)
+    const organizationId = req.organization.id;
     
-    // Verificar que el usuario es un cliente
-    if (req.user.role !== 'client') {
-      return res.status(403).json({
-        success: false,
-        message: 'Solo los clientes pueden publicar trabajos'
-      });
-    }
+    console.log('Creating job with data:', { title, description, budget, category, skills, userId, organizationId });
     
     // Validar datos requeridos
     if (!title || !description || !budget || !category) {
@@ -89,18 +190,31 @@ exports.createJob = async (req, res) => {
       budget: parseFloat(budget),
       category,
       skills: Array.isArray(skills) ? skills : [],
-      userId
+      userId,
+      organizationId
     });
     
     console.log('Job created successfully:', job.id);
     
+    await recordStatusChange(job, null, { userId });
+    
+    // Avisar a los usuarios con búsquedas guardadas que coinciden (sin bloquear la respuesta)
+    notifySavedSearchMatches(job).catch(error => {
+      console.error('Error al notificar búsquedas guardadas:', error);
+    });
+    
     // Cargar el trabajo con información del usuario
     const jobWithUser = await Job.findByPk(job.id, {
       include: [
         {
           model: User,
           as: 'user',
-          attributes: ['id', 'name', 'photoURL']
+          attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+        },
+        {
+          model: Organization,
+          as: 'organization',
+          attributes: ['id', 'name']
         }
       ]
     });
@@ -122,56 +236,115 @@ exports.createJob = async (req, res) => {
 };
 
 /**
- * Obtener todos los trabajos con filtros
+ * Obtener trabajos con filtros, orden, paginación por cursor y facetas
+ * 
+ * Parámetros de consulta:
+ * - search, category, status, userId
+ * - skills (separadas por comas) y skillsMatch ('any' | 'all')
+ * - minBudget, maxBudget
+ * - sort ('newest' | 'budget_desc' | 'budget_asc' | 'most_liked' | 'most_commented')
+ * - cursor (devuelto en pageInfo.nextCursor) y limit
+ * Las facetas y el total solo se calculan en la primera página
  */
 exports.getAllJobs = async (req, res) => {
   try {
-    const { category, search, status } = req.query;
-    const query = {
-      include: [
-        {
-          model: User,
-          as: 'user',
-          attributes: ['id', 'name', 'photoURL']
-        },
-        {
-          model: User,
-          as: 'likedBy',
-          attributes: ['id'],
-          through: { attributes: [] }
-        }
-      ],
-      order: [['createdAt', 'DESC']],
-      where: {}
-    };
+    const sortOption = SORT_OPTIONS[req.query.sort] || SORT_OPTIONS.newest;
+    const limit = Math.min(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const cursor = decodeCursor(req.query.cursor, sortOption);
     
-    // Filtrar por categoría
-    if (category) {
-      query.where.category = category;
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cursor de paginación no válido'
+      });
     }
     
-    // Filtrar por estado
-    if (status) {
-      query.where.status = status;
-    }
+    const hiddenUserIds = await getBlockedUserIds(req.user && req.user.id);
+    const where = buildJobFilters(req.query, undefined, hiddenUserIds);
+    const sortExpression = literal(sortOption.expression);
+    const comparator = sortOption.direction === 'DESC' ? Op.lt : Op.gt;
     
-    // Buscar por título o descripción
-    if (search) {
-      query.where = {
-        ...query.where,
-        [Op.or]: [
-          { title: { [Op.iLike]: `%${search}%` } },
-          { description: { [Op.iLike]: `%${search}%` } }
+    // Continuar después del último trabajo de la página anterior (valor de orden + id)
+    const pageWhere = cursor
+      ? {
+          [Op.and]: [
+            where,
+            {
+              [Op.or]: [
+                sequelize.where(sortExpression, { [comparator]: cursor.value }),
+                {
+                  [Op.and]: [
+                    sequelize.where(sortExpression, cursor.value),
+                    { id: { [comparator]: cursor.id } }
+                  ]
+                }
+              ]
+            }
+          ]
+        }
+      : where;
+    
+    // Primero se obtienen los IDs de la página y después los trabajos con sus relaciones
+    const pageRows = await Job.findAll({
+      attributes: ['id', [sortExpression, 'sortValue']],
+      where: pageWhere,
+      order: [[sortExpression, sortOption.direction], ['id', sortOption.direction]],
+      limit: limit + 1,
+      raw: true
+    });
+    
+    const hasMore = pageRows.length > limit;
+    const pageIds = pageRows.slice(0, limit).map(row => row.id);
+    
+    const jobsById = new Map();
+    if (pageIds.length > 0) {
+      const jobs = await Job.findAll({
+        where: { id: pageIds },
+        attributes: {
+          include: [
+            [literal(LIKES_COUNT_SQL), 'likesCount'],
+            [literal(COMMENTS_COUNT_SQL), 'commentsCount']
+          ]
+        },
+        include: [
+          {
+            model: User,
+            as: 'user',
+            attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+          },
+          {
+            model: Organization,
+            as: 'organization',
+            attributes: ['id', 'name']
+          },
+          {
+            model: User,
+            as: 'likedBy',
+            attributes: ['id'],
+            through: { attributes: [] }
+          }
         ]
-      };
+      });
+      jobs.forEach(job => jobsById.set(job.id, job));
     }
     
-    const jobs = await Job.findAll(query);
+    const lastRow = hasMore ? pageRows[limit - 1] : null;
     
-    return res.status(200).json({
+    const response = {
       success: true,
-      jobs
-    });
+      jobs: pageIds.map(id => jobsById.get(id)).filter(Boolean),
+      pageInfo: {
+        hasMore,
+        nextCursor: lastRow ? encodeCursor(lastRow.sortValue, lastRow.id) : null
+      }
+    };
+    
+    if (!cursor) {
+      response.total = await Job.count({ where });
+      response.facets = await getJobFacets(req.query, hiddenUserIds);
+    }
+    
+    return res.status(200).json(response);
     
   } catch (error) {
     console.error('Error al obtener trabajos:', error);
@@ -189,13 +362,20 @@ exports.getAllJobs = async (req, res) => {
 exports.getJobById = async (req, res) => {
   try {
     const { jobId } = req.params;
+    // Los comentarios y respuestas de los usuarios bloqueados no se muestran
+    const hiddenAuthors = notFromBlockedUsers(await getBlockedUserIds(req.user && req.user.id));
     
     const job = await Job.findByPk(jobId, {
       include: [
         {
           model: User,
           as: 'user',
-          attributes: ['id', 'name', 'photoURL']
+          attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+        },
+        {
+          model: Organization,
+          as: 'organization',
+          attributes: ['id', 'name']
         },
         {
           model: User,
@@ -206,6 +386,8 @@ exports.getJobById = async (req, res) => {
         {
           model: Comment,
           as: 'comments',
+          where: hiddenAuthors,
+          required: false,
           include: [
             {
               model: User,
@@ -215,6 +397,8 @@ exports.getJobById = async (req, res) => {
             {
               model: Reply,
               as: 'replies',
+              where: hiddenAuthors,
+              required: false,
               include: [
                 {
                   model: User,
@@ -228,7 +412,7 @@ exports.getJobById = async (req, res) => {
       ]
     });
     
-    if (!job) {
+    if (!job || job.moderationStatus === 'removed') {
       return res.status(404).json({
         success: false,
         message: 'Trabajo no encontrado'
@@ -268,21 +452,40 @@ exports.updateJob = async (req, res) => {
       });
     }
     
-    // Verificar que el usuario es el propietario
-    if (job.userId !== userId) {
+    // Verificar que el usuario puede gestionar los trabajos de la organización
+    if (!(await hasJobPermission(job, userId, 'jobs:manage'))) {
       return res.status(403).json({
         success: false,
         message: 'No tienes permiso para editar este trabajo'
       });
     }
     
+    // El estado solo cambia mediante las transiciones de PUT /api/jobs/:jobId/status
+    if (status && status !== job.status) {
+      return res.status(400).json({
+        success: false,
+        message: 'El estado del trabajo se cambia desde su propio endpoint'
+      });
+    }
+    
+    if (job.moderationStatus === 'removed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Este trabajo ha sido retirado por moderación y no se puede editar'
+      });
+    }
+    
+    // Un trabajo ya revisado vuelve a la cola de moderación si cambia su texto
+    if ((title && title !== job.title) || (description && description !== job.description)) {
+      job.moderationStatus = 'pending';
+    }
+    
     // Actualizar campos
     if (title) job.title = title;
     if (description) job.description = description;
     if (budget) job.budget = budget;
     if (category) job.category = category;
     if (skills) job.skills = skills;
-    if (status) job.status = status;
     
     await job.save();
     
@@ -292,7 +495,12 @@ exports.updateJob = async (req, res) => {
         {
           model: User,
           as: 'user',
-          attributes: ['id', 'name', 'photoURL']
+          attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+        },
+        {
+          model: Organization,
+          as: 'organization',
+          attributes: ['id', 'name']
         }
       ]
     });
@@ -313,32 +521,208 @@ exports.updateJob = async (req, res) => {
   }
 };
 
+/**
+ * Cambiar el estado de un trabajo (open, assigned, in-progress, completed, cancelled)
+ * Solo se permiten las transiciones del ciclo de vida según el rol del usuario;
+ * cancelar o devolver el trabajo a abierto exige un motivo
+ */
+exports.changeJobStatus = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { jobId } = req.params;
+    const { status, reason } = req.body;
+    const userId = req.user.id;
+    
+    const job = await Job.findByPk(jobId, { transaction, lock: transaction.LOCK.UPDATE });
+    
+    if (!job || job.moderationStatus === 'removed') {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    const roles = await getJobRoles(job, userId);
+    if (roles.length === 0) {
+      await transaction.rollback();
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para cambiar el estado de este trabajo'
+      });
+    }
+    
+    const result = await transitionJob(job, status, { userId, roles, reason, transaction });
+    if (result) {
+      await transaction.rollback();
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+    
+    await transaction.commit();
+    
+    const updatedJob = await Job.findByPk(jobId, {
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+        },
+        {
+          model: Organization,
+          as: 'organization',
+          attributes: ['id', 'name']
+        }
+      ]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Estado del trabajo actualizado',
+      job: updatedJob
+    });
+    
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al cambiar estado del trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al cambiar estado del trabajo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener el historial de estados de un trabajo
+ * Con sesión incluye también los cambios que el usuario puede hacer
+ */
+exports.getJobStatusHistory = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    
+    const job = await Job.findByPk(jobId);
+    
+    if (!job || job.moderationStatus === 'removed') {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    const history = await JobStatusChange.findAll({
+      where: { jobId },
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'photoURL']
+        }
+      ],
+      order: [['createdAt', 'ASC']]
+    });
+    
+    const roles = await getJobRoles(job, req.user && req.user.id);
+    
+    return res.status(200).json({
+      success: true,
+      history,
+      availableTransitions: getAvailableTransitions(job, roles)
+    });
+    
+  } catch (error) {
+    console.error('Error al obtener historial del trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener historial del trabajo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener todos los archivos de un trabajo: los suyos y los de sus comentarios, ofertas e hitos
+ */
+const findJobAttachments = async (jobId) => {
+  const [comments, proposals, milestones] = await Promise.all([
+    Comment.findAll({ where: { jobId }, attributes: ['id'] }),
+    Proposal.findAll({ where: { jobId }, attributes: ['id'] }),
+    Milestone.findAll({
+      attributes: ['id'],
+      include: [{ model: Contract, as: 'contract', attributes: [], where: { jobId } }]
+    })
+  ]);
+  
+  return Attachment.findAll({
+    where: {
+      [Op.or]: [
+        { jobId },
+        { commentId: comments.map(comment => comment.id) },
+        { proposalId: proposals.map(proposal => proposal.id) },
+        { milestoneId: milestones.map(milestone => milestone.id) }
+      ]
+    }
+  });
+};
+
 /**
  * Eliminar un trabajo
+ * No se permite si tiene un contrato que no está cancelado o movimientos en el libro
+ * contable: el dinero en garantía y su registro no se pueden perder (se cancela en su lugar)
  */
 exports.deleteJob = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
   try {
     const { jobId } = req.params;
     const userId = req.user.id;
     
-    const job = await Job.findByPk(jobId);
+    // Bloquear el trabajo para que no se asigne mientras se elimina
+    const job = await Job.findByPk(jobId, { transaction, lock: transaction.LOCK.UPDATE });
     
     if (!job) {
+      await transaction.rollback();
       return res.status(404).json({
         success: false,
         message: 'Trabajo no encontrado'
       });
     }
     
-    // Verificar que el usuario es el propietario
-    if (job.userId !== userId) {
+    // Verificar que el usuario puede gestionar los trabajos de la organización
+    if (!(await hasJobPermission(job, userId, 'jobs:manage'))) {
+      await transaction.rollback();
       return res.status(403).json({
         success: false,
         message: 'No tienes permiso para eliminar este trabajo'
       });
     }
     
-    await job.destroy();
+    const contracts = await Contract.findAll({
+      where: { jobId: job.id },
+      attributes: ['id', 'status'],
+      transaction
+    });
+    const ledgerEntries = contracts.length > 0
+      ? await LedgerEntry.count({ where: { contractId: contracts.map(contract => contract.id) }, transaction })
+      : 0;
+    
+    if (contracts.some(contract => contract.status !== 'cancelled') || ledgerEntries > 0) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'El trabajo tiene un contrato o pagos registrados y no se puede eliminar; cancélalo en su lugar'
+      });
+    }
+    
+    // Los registros de los archivos se borran en cascada, pero los ficheros hay que quitarlos del disco
+    const attachments = await findJobAttachments(job.id);
+    
+    await job.destroy({ transaction });
+    await transaction.commit();
+    await Promise.all(attachments.map(removeAttachmentFiles));
     
     return res.status(200).json({
       success: true,
@@ -346,6 +730,7 @@ exports.deleteJob = async (req, res) => {
     });
     
   } catch (error) {
+    await transaction.rollback();
     console.error('Error al eliminar trabajo:', error);
     return res.status(500).json({
       success: false,
@@ -361,7 +746,7 @@ exports.deleteJob = async (req, res) => {
 exports.addComment = async (req, res) => {
   try {
     const { jobId } = req.params;
-    const { content } = req.body;
+    const { content, idempotencyKey } = req.body;
     const userId = req.user.id;
     
     // Verificar que el trabajo existe
@@ -373,12 +758,13 @@ exports.addComment = async (req, res) => {
       });
     }
     
-    // Crear comentario
-    const comment = await Comment.create({
+    // Crear comentario (un reintento con la misma clave devuelve el ya creado)
+    const { record: comment, created } = await createOnce(Comment, {
       content,
       jobId,
-      userId
-    });
+      userId,
+      idempotencyKey
+    }, 'jobId');
     
     // Cargar comentario con información del usuario
     const commentWithUser = await Comment.findByPk(comment.id, {
@@ -391,7 +777,15 @@ exports.addComment = async (req, res) => {
       ]
     });
     
-    return res.status(201).json({
+    // Avisar al propietario del trabajo
+    if (created) {
+      await notifyUser(job.userId, 'job_comment', {
+        actorId: userId,
+        data: { jobId, jobTitle: job.title, commentId: comment.id, preview: toPreview(content) }
+      });
+    }
+    
+    return res.status(created ? 201 : 200).json({
       success: true,
       message: 'Comentario añadido correctamente',
       comment: commentWithUser
@@ -413,7 +807,7 @@ exports.addComment = async (req, res) => {
 exports.addReply = async (req, res) => {
   try {
     const { commentId } = req.params;
-    const { content } = req.body;
+    const { content, idempotencyKey } = req.body;
     const userId = req.user.id;
     
     // Verificar que el comentario existe
@@ -425,12 +819,13 @@ exports.addReply = async (req, res) => {
       });
     }
     
-    // Crear respuesta
-    const reply = await Reply.create({
+    // Crear respuesta (un reintento con la misma clave devuelve la ya creada)
+    const { record: reply, created } = await createOnce(Reply, {
       content,
       commentId,
-      userId
-    });
+      userId,
+      idempotencyKey
+    }, 'commentId');
     
     // Cargar respuesta con información del usuario
     const replyWithUser = await Reply.findByPk(reply.id, {
@@ -443,7 +838,21 @@ exports.addReply = async (req, res) => {
       ]
     });
     
-    return res.status(201).json({
+    // Avisar al autor del comentario
+    if (created) {
+      const job = await Job.findByPk(comment.jobId, { attributes: ['id', 'title'] });
+      await notifyUser(comment.userId, 'comment_reply', {
+        actorId: userId,
+        data: {
+          jobId: comment.jobId,
+          jobTitle: job ? job.title : '',
+          commentId,
+          preview: toPreview(content)
+        }
+      });
+    }
+    
+    return res.status(created ? 201 : 200).json({
       success: true,
       message: 'Respuesta añadida correctamente',
       reply: replyWithUser
@@ -483,8 +892,13 @@ exports.toggleJobLike = async (req, res) => {
       // Quitar like
       await job.removeLikedBy(userId);
     } else {
-      // Añadir like
+      // Añadir like y avisar al propietario (los likes del mismo trabajo se agrupan)
       await job.addLikedBy(userId);
+      await notifyUser(job.userId, 'job_like', {
+        actorId: userId,
+        data: { jobId, jobTitle: job.title },
+        groupBy: 'jobId'
+      });
     }
     
     return res.status(200).json({
@@ -554,11 +968,17 @@ exports.getSavedJobs = async (req, res) => {
     
     const user = await User.findByPk(userId);
     const savedJobs = await user.getSavedJobs({
+      where: { moderationStatus: { [Op.ne]: 'removed' } },
       include: [
         {
           model: User,
           as: 'user',
-          attributes: ['id', 'name', 'photoURL']
+          attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+        },
+        {
+          model: Organization,
+          as: 'organization',
+          attributes: ['id', 'name']
         }
       ]
     });
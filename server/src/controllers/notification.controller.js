@@ -0,0 +1,417 @@
+const { Notification, User, UserBlock } = require('../models');
+const { Op } = require('sequelize');
+const { emitToUser } = require('./socket.controller');
+const { sendMail } = require('../utils/mailer');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Cada cuánto se envían los resúmenes de notificaciones por correo
+const DIGEST_INTERVAL_MS = parseInt(process.env.NOTIFICATION_DIGEST_INTERVAL_MS, 10) || 24 * 60 * 60 * 1000;
+
+// Longitud máxima del extracto de comentarios y mensajes
+const PREVIEW_LENGTH = 140;
+
+const ACTOR_ATTRIBUTES = ['id', 'name', 'photoURL'];
+
+/**
+ * Recortar un texto para guardarlo como extracto en la notificación
+ */
+const toPreview = (text) => {
+  const value = String(text || '').trim();
+  return value.length > PREVIEW_LENGTH ? `${value.slice(0, PREVIEW_LENGTH - 1)}…` : value;
+};
+
+/**
+ * Preferencias del usuario completadas con el canal por defecto (in_app)
+ */
+const getPreferences = (user) => {
+  const saved = user.notificationPreferences || {};
+  return Notification.TYPES.reduce((preferences, type) => {
+    preferences[type] = Notification.CHANNELS.includes(saved[type]) ? saved[type] : 'in_app';
+    return preferences;
+  }, {});
+};
+
+const findNotificationWithActor = (notificationId) => Notification.findByPk(notificationId, {
+  include: [
+    {
+      model: User,
+      as: 'actor',
+      attributes: ACTOR_ATTRIBUTES
+    }
+  ]
+});
+
+/**
+ * Crear una notificación respetando las preferencias del destinatario
+ * Las de canal in_app se envían al momento por socket; las de email_digest esperan al resumen
+ * @param userId - Destinatario (no se notifica al propio autor de la acción ni a quien le ha bloqueado)
+ * @param type - Uno de Notification.TYPES
+ * @param options.actorId - Usuario que provoca la notificación
+ * @param options.data - Datos para mostrar y enlazar la notificación
+ * @param options.groupBy - Campo de data con el que se agrupa en una notificación sin leer
+ */
+const createNotification = async (userId, type, { actorId = null, data = {}, groupBy } = {}) => {
+  if (!userId || userId === actorId) return null;
+  
+  const recipient = await User.findByPk(userId, { attributes: ['id', 'notificationPreferences'] });
+  if (!recipient) return null;
+  
+  const channel = getPreferences(recipient)[type];
+  if (channel === 'off') return null;
+  
+  if (actorId && await UserBlock.count({ where: { blockerId: userId, blockedId: actorId } }) > 0) {
+    return null;
+  }
+  
+  // Agrupar con una notificación pendiente del mismo origen (p. ej. mensajes del mismo chat)
+  let notification = groupBy && data[groupBy]
+    ? await Notification.findOne({
+      where: {
+        userId,
+        type,
+        readAt: null,
+        emailedAt: null,
+        data: { [groupBy]: data[groupBy] }
+      }
+    })
+    : null;
+  
+  if (notification) {
+    notification.count += 1;
+    notification.actorId = actorId;
+    notification.data = { ...notification.data, ...data };
+    await notification.save();
+  } else {
+    notification = await Notification.create({ userId, type, channel, actorId, data });
+  }
+  
+  if (channel === 'in_app') {
+    emitToUser(userId, 'notification', await findNotificationWithActor(notification.id));
+  }
+  
+  return notification;
+};
+
+/**
+ * Crear una notificación sin que un fallo afecte a la acción que la provoca
+ */
+const notifyUser = async (userId, type, options) => {
+  try {
+    return await createNotification(userId, type, options);
+  } catch (error) {
+    console.error('Error al crear notificación:', error);
+    return null;
+  }
+};
+
+exports.notifyUser = notifyUser;
+exports.toPreview = toPreview;
+
+/**
+ * Notificar un mensaje nuevo al resto de participantes del chat
+ */
+exports.notifyNewMessage = async (chat, message) => {
+  try {
+    const participants = await chat.getParticipants({ attributes: ['id'], joinTableAttributes: [] });
+    
+    for (const participant of participants) {
+      if (participant.id === message.userId) continue;
+      
+      await notifyUser(participant.id, 'new_message', {
+        actorId: message.userId,
+        data: {
+          chatId: chat.id,
+          chatName: chat.isGroup ? chat.name : null,
+          preview: toPreview(message.content)
+        },
+        groupBy: 'chatId'
+      });
+    }
+  } catch (error) {
+    console.error('Error al notificar mensaje nuevo:', error);
+  }
+};
+
+/**
+ * Obtener las notificaciones del usuario (las más recientes primero)
+ * Se pagina con `before` (fecha de actualización de la última notificación recibida)
+ */
+exports.getNotifications = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const limit = Math.min(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const before = req.query.before ? new Date(req.query.before) : null;
+    
+    const where = { userId };
+    if (before && !isNaN(before.getTime())) {
+      where.updatedAt = { [Op.lt]: before };
+    }
+    
+    const notifications = await Notification.findAll({
+      where,
+      include: [
+        {
+          model: User,
+          as: 'actor',
+          attributes: ACTOR_ATTRIBUTES
+        }
+      ],
+      order: [['updatedAt', 'DESC']],
+      limit: limit + 1
+    });
+    
+    const unreadCount = await Notification.count({ where: { userId, readAt: null } });
+    
+    return res.status(200).json({
+      success: true,
+      notifications: notifications.slice(0, limit),
+      hasMore: notifications.length > limit,
+      unreadCount
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener notificaciones:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener notificaciones',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Marcar una notificación como leída
+ */
+exports.markAsRead = async (req, res) => {
+  try {
+    const { notificationId } = req.params;
+    
+    const notification = await Notification.findByPk(notificationId);
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notificación no encontrada'
+      });
+    }
+    
+    if (notification.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para modificar esta notificación'
+      });
+    }
+    
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save({ silent: true });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      notification
+    });
+  
+  } catch (error) {
+    console.error('Error al marcar notificación como leída:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar notificación',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Marcar todas las notificaciones del usuario como leídas
+ */
+exports.markAllAsRead = async (req, res) => {
+  try {
+    const [updatedCount] = await Notification.update(
+      { readAt: new Date() },
+      { where: { userId: req.user.id, readAt: null }, silent: true }
+    );
+    
+    return res.status(200).json({
+      success: true,
+      updatedCount
+    });
+  
+  } catch (error) {
+    console.error('Error al marcar notificaciones como leídas:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar notificaciones',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener las preferencias de notificación del usuario
+ */
+exports.getNotificationPreferences = async (req, res) => {
+  try {
+    const user = await User.findByPk(req.user.id, { attributes: ['id', 'notificationPreferences'] });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado'
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      preferences: getPreferences(user)
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener preferencias de notificación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener preferencias',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Actualizar el canal de cada tipo de notificación (in_app, email_digest u off)
+ */
+exports.updateNotificationPreferences = async (req, res) => {
+  try {
+    const { preferences } = req.body;
+    
+    if (!preferences || typeof preferences !== 'object') {
+      return res.status(400).json({
+        success: false,
+        message: 'Faltan las preferencias'
+      });
+    }
+    
+    for (const [type, channel] of Object.entries(preferences)) {
+      if (!Notification.TYPES.includes(type) || !Notification.CHANNELS.includes(channel)) {
+        return res.status(400).json({
+          success: false,
+          message: `Preferencia no válida: ${type}`
+        });
+      }
+    }
+    
+    const user = await User.findByPk(req.user.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado'
+      });
+    }
+    
+    user.notificationPreferences = { ...getPreferences(user), ...preferences };
+    await user.save();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Preferencias actualizadas correctamente',
+      preferences: getPreferences(user)
+    });
+  
+  } catch (error) {
+    console.error('Error al actualizar preferencias de notificación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar preferencias',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Texto de una notificación para el resumen por correo
+ */
+const describeNotification = (notification) => {
+  const actorName = notification.actor ? notification.actor.name : 'Alguien';
+  const { jobTitle, chatName, preview } = notification.data || {};
+  
+  switch (notification.type) {
+    case 'job_comment':
+      return `${actorName} comentó en "${jobTitle}": ${preview}`;
+    case 'comment_reply':
+      return `${actorName} respondió a tu comentario en "${jobTitle}": ${preview}`;
+    case 'job_like':
+      return notification.count > 1
+        ? `A ${notification.count} personas les gusta "${jobTitle}"`
+        : `A ${actorName} le gusta "${jobTitle}"`;
+    case 'new_message':
+      return notification.count > 1
+        ? `${notification.count} mensajes nuevos${chatName ? ` en ${chatName}` : ` de ${actorName}`}`
+        : `${actorName}${chatName ? ` en ${chatName}` : ''}: ${preview}`;
+    default:
+      return 'Tienes una notificación nueva';
+  }
+};
+
+/**
+ * Enviar un resumen a cada usuario con notificaciones pendientes del canal email_digest
+ * Se usa el transporte de correo configurado (MAIL_TRANSPORT)
+ */
+const sendEmailDigests = async () => {
+  const pending = await Notification.findAll({
+    where: { channel: 'email_digest', emailedAt: null, readAt: null },
+    include: [
+      {
+        model: User,
+        as: 'user',
+        attributes: ['id', 'name', 'email']
+      },
+      {
+        model: User,
+        as: 'actor',
+        attributes: ACTOR_ATTRIBUTES
+      }
+    ],
+    order: [['updatedAt', 'ASC']]
+  });
+  
+  const byUser = new Map();
+  for (const notification of pending) {
+    const list = byUser.get(notification.userId) || [];
+    list.push(notification);
+    byUser.set(notification.userId, list);
+  }
+  
+  for (const notifications of byUser.values()) {
+    const { user } = notifications[0];
+    const lines = notifications.map(notification => `- ${describeNotification(notification)}`);
+    
+    // Si falla un envío, sus notificaciones quedan pendientes para el siguiente resumen
+    try {
+      await sendMail({
+        to: user.email,
+        subject: notifications.length === 1
+          ? 'Tienes 1 notificación pendiente en WorkFlowConnect'
+          : `Tienes ${notifications.length} notificaciones pendientes en WorkFlowConnect`,
+        text: `Hola ${user.name},\n\nEsto es lo que ha pasado mientras no estabas:\n\n${lines.join('\n')}\n\nPuedes cambiar qué notificaciones recibes por correo en tu perfil.`
+      });
+    } catch (error) {
+      console.error(`Error al enviar el resumen de notificaciones a ${user.email}:`, error);
+      continue;
+    }
+    
+    await Notification.update(
+      { emailedAt: new Date() },
+      { where: { id: notifications.map(notification => notification.id) }, silent: true }
+    );
+  }
+  
+  return byUser.size;
+};
+
+/**
+ * Programar el envío periódico de los resúmenes por correo
+ */
+exports.scheduleEmailDigests = () => setInterval(() => {
+  sendEmailDigests().catch(error => {
+    console.error('Error al enviar resúmenes de notificaciones:', error);
+  });
+}, DIGEST_INTERVAL_MS);
@@ -0,0 +1,541 @@
+const { User, Organization, OrganizationMember, OrganizationInvitation, sequelize } = require('../models');
+const { Op } = require('sequelize');
+const {
+  ROLE_RANK,
+  hasPermission,
+  findMembership,
+  createOrganization,
+  createInvitation,
+  findInvitationByToken
+} = require('../utils/organizations');
+const { getInvitationUrl, sendOrganizationInvitationEmail } = require('../utils/accountEmails');
+
+// Roles que se pueden asignar con una invitación (los propietarios se nombran desde la organización)
+const INVITATION_ROLES = ['admin', 'hiring_manager', 'viewer'];
+
+// Datos de una invitación que se devuelven (nunca el hash del token)
+const INVITATION_ATTRIBUTES = ['id', 'email', 'role', 'expiresAt', 'createdAt'];
+
+// Datos de usuario que se incluyen al listar miembros
+const MEMBER_USER_ATTRIBUTES = ['id', 'name', 'email', 'photoURL'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validar el nombre de una organización; devuelve el nombre limpio o null
+ */
+const parseOrganizationName = (name) => {
+  const trimmed = String(name || '').trim();
+  return trimmed && trimmed.length <= 120 ? trimmed : null;
+};
+
+/**
+ * Comprobar si un miembro es el único propietario de su organización
+ */
+const isLastOwner = async (member) => {
+  if (member.role !== 'owner') return false;
+  
+  const owners = await OrganizationMember.count({
+    where: { organizationId: member.organizationId, role: 'owner' }
+  });
+  return owners === 1;
+};
+
+/**
+ * Obtener las organizaciones del usuario actual con su rol en cada una
+ */
+exports.getMyOrganizations = async (req, res) => {
+  try {
+    const memberships = await OrganizationMember.findAll({
+      where: { userId: req.user.id },
+      include: [{ model: Organization, as: 'organization', attributes: ['id', 'name'] }],
+      order: [['createdAt', 'ASC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      organizations: memberships.map(membership => ({
+        id: membership.organization.id,
+        name: membership.organization.name,
+        role: membership.role
+      }))
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener organizaciones:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener organizaciones',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Crear una organización (solo clientes); quien la crea es su propietario
+ */
+exports.createOrganization = async (req, res) => {
+  try {
+    const name = parseOrganizationName(req.body.name);
+    
+    if (req.user.role !== 'client') {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo los clientes pueden crear organizaciones'
+      });
+    }
+    
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'El nombre es obligatorio y no puede superar los 120 caracteres'
+      });
+    }
+    
+    const organization = await sequelize.transaction(transaction =>
+      createOrganization(req.user, name, transaction)
+    );
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Organización creada correctamente',
+      organization: { id: organization.id, name: organization.name, role: 'owner' }
+    });
+  
+  } catch (error) {
+    console.error('Error al crear organización:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear organización',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cambiar el nombre de una organización (solo propietarios)
+ */
+exports.updateOrganization = async (req, res) => {
+  try {
+    const name = parseOrganizationName(req.body.name);
+    
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'El nombre es obligatorio y no puede superar los 120 caracteres'
+      });
+    }
+    
+    await req.organization.update({ name });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Organización actualizada correctamente',
+      organization: { id: req.organization.id, name, role: req.membership.role }
+    });
+  
+  } catch (error) {
+    console.error('Error al actualizar organización:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar organización',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener los miembros de una organización
+ * Quien puede gestionar miembros recibe además las invitaciones pendientes
+ */
+exports.getMembers = async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    
+    const members = await OrganizationMember.findAll({
+      where: { organizationId },
+      include: [{ model: User, as: 'user', attributes: MEMBER_USER_ATTRIBUTES }]
+    });
+    
+    members.sort((a, b) =>
+      ROLE_RANK[a.role] - ROLE_RANK[b.role] ||
+      new Date(a.createdAt) - new Date(b.createdAt)
+    );
+    
+    const response = {
+      success: true,
+      members
+    };
+    
+    if (hasPermission(req.membership.role, 'members:manage')) {
+      response.invitations = await OrganizationInvitation.findAll({
+        where: {
+          organizationId,
+          revokedAt: null,
+          acceptedAt: null,
+          expiresAt: { [Op.gt]: new Date() }
+        },
+        attributes: INVITATION_ATTRIBUTES,
+        include: [{ model: User, as: 'inviter', attributes: ['id', 'name'] }],
+        order: [['createdAt', 'DESC']]
+      });
+    }
+    
+    return res.status(200).json(response);
+  
+  } catch (error) {
+    console.error('Error al obtener miembros:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener miembros',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cambiar el rol de un miembro
+ * Solo un propietario puede nombrar propietarios o cambiar el rol de otro propietario
+ */
+exports.updateMemberRole = async (req, res) => {
+  try {
+    const { organizationId, memberId } = req.params;
+    const { role } = req.body;
+    
+    if (ROLE_RANK[role] === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rol no válido'
+      });
+    }
+    
+    const member = await OrganizationMember.findOne({
+      where: { id: memberId, organizationId },
+      include: [{ model: User, as: 'user', attributes: MEMBER_USER_ATTRIBUTES }]
+    });
+    
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        message: 'Miembro no encontrado'
+      });
+    }
+    
+    if ((role === 'owner' || member.role === 'owner') && req.membership.role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo un propietario puede cambiar a los propietarios'
+      });
+    }
+    
+    if (role !== 'owner' && await isLastOwner(member)) {
+      return res.status(400).json({
+        success: false,
+        message: 'La organización necesita al menos un propietario'
+      });
+    }
+    
+    await member.update({ role });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Rol actualizado correctamente',
+      member
+    });
+  
+  } catch (error) {
+    console.error('Error al cambiar el rol del miembro:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al cambiar el rol del miembro',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Quitar a un miembro de la organización (o salir de ella si es uno mismo)
+ */
+exports.removeMember = async (req, res) => {
+  try {
+    const { organizationId, memberId } = req.params;
+    
+    const member = await OrganizationMember.findOne({ where: { id: memberId, organizationId } });
+    
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        message: 'Miembro no encontrado'
+      });
+    }
+    
+    const isSelf = member.userId === req.user.id;
+    
+    if (!isSelf && !hasPermission(req.membership.role, 'members:manage')) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para quitar miembros'
+      });
+    }
+    
+    if (!isSelf && member.role === 'owner' && req.membership.role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo un propietario puede cambiar a los propietarios'
+      });
+    }
+    
+    if (await isLastOwner(member)) {
+      return res.status(400).json({
+        success: false,
+        message: 'La organización necesita al menos un propietario'
+      });
+    }
+    
+    await member.destroy();
+    
+    return res.status(200).json({
+      success: true,
+      message: isSelf ? 'Has salido de la organización' : 'Miembro eliminado correctamente'
+    });
+  
+  } catch (error) {
+    console.error('Error al quitar miembro:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al quitar miembro',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Invitar a alguien a la organización
+ * Con email se envía un correo y la invitación sirve una vez para esa dirección;
+ * sin email se devuelve un enlace que puede usar cualquier cliente hasta que caduque
+ */
+exports.createInvitation = async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    const { role = 'viewer' } = req.body;
+    const email = req.body.email ? String(req.body.email).trim().toLowerCase() : null;
+    
+    if (!INVITATION_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rol no válido'
+      });
+    }
+    
+    if (email && !EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({
+        success: false,
+        message: 'El correo electrónico no es válido'
+      });
+    }
+    
+    if (email) {
+      const invitedUser = await User.findOne({
+        where: sequelize.where(sequelize.fn('lower', sequelize.col('email')), email)
+      });
+      
+      if (invitedUser && await findMembership(organizationId, invitedUser.id)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Esta persona ya es miembro de la organización'
+        });
+      }
+      
+      // Una invitación nueva sustituye a las pendientes para el mismo correo
+      await OrganizationInvitation.update(
+        { revokedAt: new Date() },
+        { where: { organizationId, email, revokedAt: null, acceptedAt: null } }
+      );
+    }
+    
+    const { invitation, token } = await createInvitation({
+      organizationId,
+      email,
+      role,
+      invitedBy: req.user.id
+    });
+    
+    if (email) {
+      await sendOrganizationInvitationEmail({
+        email,
+        organization: req.organization,
+        inviter: req.user,
+        role,
+        token
+      });
+    }
+    
+    return res.status(201).json({
+      success: true,
+      message: email ? 'Invitación enviada correctamente' : 'Enlace de invitación creado',
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+        inviter: { id: req.user.id, name: req.user.name }
+      },
+      // El enlace solo se muestra al crearlo; las invitaciones por correo lo reciben en el correo
+      url: email ? null : getInvitationUrl(token)
+    });
+  
+  } catch (error) {
+    console.error('Error al crear invitación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear invitación',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Anular una invitación pendiente
+ */
+exports.revokeInvitation = async (req, res) => {
+  try {
+    const { organizationId, invitationId } = req.params;
+    
+    const invitation = await OrganizationInvitation.findOne({ where: { id: invitationId, organizationId } });
+    
+    if (!invitation || !invitation.isPending()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitación no encontrada'
+      });
+    }
+    
+    await invitation.update({ revokedAt: new Date() });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Invitación anulada correctamente'
+    });
+  
+  } catch (error) {
+    console.error('Error al anular invitación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al anular invitación',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Ver los datos de una invitación a partir de su token (antes de aceptarla)
+ */
+exports.getInvitation = async (req, res) => {
+  try {
+    const invitation = await findInvitationByToken(req.params.token);
+    
+    if (!invitation || !invitation.isPending()) {
+      return res.status(404).json({
+        success: false,
+        message: 'La invitación no es válida o ha caducado'
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      invitation: {
+        organization: invitation.organization,
+        inviter: invitation.inviter,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt
+      }
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener invitación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener invitación',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Aceptar una invitación y entrar en la organización con su rol
+ */
+exports.acceptInvitation = async (req, res) => {
+  try {
+    const user = req.user;
+    const invitation = await findInvitationByToken(req.body.token);
+    
+    if (!invitation || !invitation.isPending()) {
+      return res.status(404).json({
+        success: false,
+        message: 'La invitación no es válida o ha caducado'
+      });
+    }
+    
+    if (user.role !== 'client') {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo las cuentas de cliente pueden unirse a una organización'
+      });
+    }
+    
+    // El correo confirmado demuestra que la invitación llega a quien se envió
+    if (!user.emailVerifiedAt) {
+      return res.status(403).json({
+        success: false,
+        message: 'Confirma tu correo electrónico antes de unirte a una organización'
+      });
+    }
+    
+    if (invitation.email && invitation.email !== user.email.toLowerCase()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Esta invitación se envió a otro correo electrónico'
+      });
+    }
+    
+    const organization = invitation.organization;
+    const existingMembership = await findMembership(organization.id, user.id);
+    
+    if (existingMembership) {
+      return res.status(200).json({
+        success: true,
+        message: 'Ya eres miembro de esta organización',
+        organization: { id: organization.id, name: organization.name, role: existingMembership.role }
+      });
+    }
+    
+    await sequelize.transaction(async (transaction) => {
+      await OrganizationMember.create({
+        organizationId: organization.id,
+        userId: user.id,
+        role: invitation.role
+      }, { transaction });
+      
+      // Las invitaciones por enlace siguen vigentes para otros miembros
+      if (invitation.email) {
+        await invitation.update({ acceptedAt: new Date(), acceptedBy: user.id }, { transaction });
+      }
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: `Te has unido a ${organization.name}`,
+      organization: { id: organization.id, name: organization.name, role: invitation.role }
+    });
+  
+  } catch (error) {
+    console.error('Error al aceptar invitación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al aceptar invitación',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,367 @@
+const { Proposal, Job, User, Attachment, sequelize } = require('../models');
+const { hasJobPermission } = require('../utils/organizations');
+const { assignJob } = require('../utils/jobLifecycle');
+
+// Orden de los estados al listar ofertas (las más relevantes primero)
+const STATUS_RANK = {
+  accepted: 0,
+  shortlisted: 1,
+  pending: 2,
+  rejected: 3,
+  withdrawn: 4
+};
+
+// Acciones que el propietario del trabajo puede aplicar a una oferta
+const OWNER_STATUSES = ['accepted', 'rejected', 'shortlisted'];
+
+/**
+ * Calcular la puntuación de una oferta respecto al trabajo (0-100)
+ * - 60 puntos por coincidencia de habilidades del freelancer con las del trabajo
+ * - 40 puntos por ajuste del presupuesto propuesto al presupuesto del trabajo
+ */
+const calculateMatchScore = (proposal, job) => {
+  const jobSkills = job.skills || [];
+  const freelancerSkills = (proposal.user && proposal.user.skills) || [];
+  
+  const skillScore = jobSkills.length === 0
+    ? 1
+    : jobSkills.filter(skill => freelancerSkills.includes(skill)).length / jobSkills.length;
+  
+  const budgetScore = proposal.proposedBudget <= job.budget
+    ? 1
+    : job.budget / proposal.proposedBudget;
+  
+  return Math.round(skillScore * 60 + budgetScore * 40);
+};
+
+/**
+ * Enviar una oferta a un trabajo
+ */
+exports.createProposal = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const { coverLetter, proposedBudget, estimatedDuration, attachments } = req.body;
+    const userId = req.user.id;
+    
+    if (req.user.role !== 'freelancer') {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo los freelancers pueden enviar ofertas'
+      });
+    }
+    
+    if (!coverLetter || !proposedBudget || !estimatedDuration) {
+      return res.status(400).json({
+        success: false,
+        message: 'Faltan campos requeridos (carta de presentación, presupuesto, duración estimada)'
+      });
+    }
+    
+    const job = await Job.findByPk(jobId);
+    if (!job || job.moderationStatus === 'removed') {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    if (await hasJobPermission(job, userId, 'jobs:view')) {
+      return res.status(400).json({
+        success: false,
+        message: 'No puedes enviar una oferta a un trabajo de tu organización'
+      });
+    }
+    
+    if (job.status !== 'open') {
+      return res.status(400).json({
+        success: false,
+        message: 'El trabajo ya no acepta ofertas'
+      });
+    }
+    
+    // Un freelancer solo puede tener una oferta por trabajo
+    const existingProposal = await Proposal.findOne({ where: { jobId, userId } });
+    if (existingProposal && existingProposal.status !== 'withdrawn') {
+      return res.status(400).json({
+        success: false,
+        message: 'Ya has enviado una oferta para este trabajo'
+      });
+    }
+    
+    const proposalData = {
+      coverLetter,
+      proposedBudget: parseFloat(proposedBudget),
+      estimatedDuration: parseInt(estimatedDuration, 10),
+      attachments: Array.isArray(attachments) ? attachments : [],
+      status: 'pending'
+    };
+    
+    // Si la oferta se había retirado, se reutiliza el registro
+    const proposal = existingProposal
+      ? await existingProposal.update(proposalData)
+      : await Proposal.create({ ...proposalData, jobId, userId });
+    
+    const proposalWithUser = await Proposal.findByPk(proposal.id, {
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'photoURL', 'skills', 'hourlyRate']
+        },
+        {
+          model: Attachment,
+          as: 'files',
+          attributes: Attachment.PUBLIC_ATTRIBUTES
+        }
+      ]
+    });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Oferta enviada correctamente',
+      proposal: proposalWithUser
+    });
+  
+  } catch (error) {
+    console.error('Error al enviar oferta:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al enviar oferta',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener las ofertas de un trabajo
+ * Los miembros de la organización ven todas ordenadas por relevancia; un freelancer solo ve la suya
+ */
+exports.getJobProposals = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const userId = req.user.id;
+    
+    const job = await Job.findByPk(jobId);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    const where = { jobId };
+    if (!(await hasJobPermission(job, userId, 'jobs:view'))) {
+      where.userId = userId;
+    }
+    
+    const proposals = await Proposal.findAll({
+      where,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'photoURL', 'skills', 'hourlyRate']
+        },
+        {
+          model: Attachment,
+          as: 'files',
+          attributes: Attachment.PUBLIC_ATTRIBUTES
+        }
+      ]
+    });
+    
+    const rankedProposals = proposals
+      .map(proposal => ({
+        ...proposal.toJSON(),
+        matchScore: calculateMatchScore(proposal, job)
+      }))
+      .sort((a, b) =>
+        STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+        b.matchScore - a.matchScore ||
+        new Date(a.createdAt) - new Date(b.createdAt)
+      );
+    
+    return res.status(200).json({
+      success: true,
+      proposals: rankedProposals
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener ofertas:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener ofertas',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener las ofertas enviadas por el usuario actual
+ */
+exports.getMyProposals = async (req, res) => {
+  try {
+    const proposals = await Proposal.findAll({
+      where: { userId: req.user.id },
+      include: [
+        {
+          model: Job,
+          as: 'job',
+          attributes: ['id', 'title', 'budget', 'status', 'userId']
+        }
+      ],
+      order: [['createdAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      proposals
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener mis ofertas:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener ofertas',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Cambiar el estado de una oferta (aceptar, rechazar o preseleccionar)
+ * Al aceptar una oferta el trabajo pasa a "assigned", se rechazan las demás
+ * y se crea el contrato entre el cliente y el freelancer
+ */
+exports.updateProposalStatus = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { proposalId } = req.params;
+    const { status } = req.body;
+    const userId = req.user.id;
+    
+    if (!OWNER_STATUSES.includes(status)) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Estado de oferta no válido'
+      });
+    }
+    
+    // Se bloquea primero el trabajo y después la oferta: dos aceptaciones simultáneas de ofertas
+    // del mismo trabajo se hacen una detrás de otra y la segunda ya ve el trabajo asignado
+    const target = await Proposal.findByPk(proposalId, { attributes: ['id', 'jobId'], transaction });
+    const job = target && await Job.findByPk(target.jobId, { transaction, lock: transaction.LOCK.UPDATE });
+    const proposal = job && await Proposal.findByPk(proposalId, { transaction, lock: transaction.LOCK.UPDATE });
+    
+    if (!proposal) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Oferta no encontrada'
+      });
+    }
+    
+    let contract = null;
+    
+    // Verificar que el usuario puede gestionar las ofertas de la organización
+    if (!(await hasJobPermission(job, userId, 'proposals:manage'))) {
+      await transaction.rollback();
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para gestionar esta oferta'
+      });
+    }
+    
+    if (proposal.status === 'withdrawn' || proposal.status === 'accepted') {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Esta oferta ya no se puede modificar'
+      });
+    }
+    
+    if (status === 'accepted') {
+      const result = await assignJob(job, proposal, { userId, transaction });
+      if (result.error) {
+        await transaction.rollback();
+        return res.status(result.status).json({
+          success: false,
+          message: result.error
+        });
+      }
+      contract = result.contract;
+    }
+    
+    proposal.status = status;
+    await proposal.save({ transaction });
+    
+    await transaction.commit();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Oferta actualizada correctamente',
+      proposal,
+      jobStatus: job.status,
+      contractId: contract ? contract.id : null
+    });
+  
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al actualizar oferta:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar oferta',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Retirar una oferta propia
+ */
+exports.withdrawProposal = async (req, res) => {
+  try {
+    const { proposalId } = req.params;
+    
+    const proposal = await Proposal.findByPk(proposalId);
+    if (!proposal) {
+      return res.status(404).json({
+        success: false,
+        message: 'Oferta no encontrada'
+      });
+    }
+    
+    if (proposal.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para retirar esta oferta'
+      });
+    }
+    
+    if (proposal.status === 'accepted') {
+      return res.status(400).json({
+        success: false,
+        message: 'No se puede retirar una oferta aceptada'
+      });
+    }
+    
+    proposal.status = 'withdrawn';
+    await proposal.save();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Oferta retirada correctamente',
+      proposal
+    });
+  
+  } catch (error) {
+    console.error('Error al retirar oferta:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al retirar oferta',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,190 @@
+const { Job, User, Proposal } = require('../models');
+const { Op, fn, col } = require('sequelize');
+const { buildSkillWeights, scoreMatch, isRelevantMatch } = require('../utils/recommendations');
+const { hasJobPermission } = require('../utils/organizations');
+const { getBlockedUserIds } = require('../utils/blocks');
+
+// Número de recomendaciones devueltas por defecto y como máximo
+const DEFAULT_RECOMMENDATIONS = 5;
+const MAX_RECOMMENDATIONS = 20;
+
+// Candidatos que se evalúan como máximo en cada petición
+const MAX_CANDIDATES = 500;
+
+const getLimit = (value) =>
+  Math.min(Math.max(parseInt(value, 10) || DEFAULT_RECOMMENDATIONS, 1), MAX_RECOMMENDATIONS);
+
+/**
+ * Obtener el historial de categorías de los freelancers a partir de sus ofertas
+ * @returns Map de userId a { [categoría]: nº de trabajos }
+ */
+const getCategoryHistories = async (userIds) => {
+  const rows = await Proposal.findAll({
+    attributes: [
+      'userId',
+      [col('job.category'), 'category'],
+      [fn('COUNT', col('Proposal.id')), 'count']
+    ],
+    where: { userId: userIds },
+    include: [
+      {
+        model: Job,
+        as: 'job',
+        attributes: []
+      }
+    ],
+    group: ['Proposal.userId', 'job.category'],
+    raw: true
+  });
+  
+  const histories = new Map();
+  for (const row of rows) {
+    const history = histories.get(row.userId) || {};
+    history[row.category] = parseInt(row.count, 10);
+    histories.set(row.userId, history);
+  }
+  
+  return histories;
+};
+
+/**
+ * Recomendar trabajos abiertos al freelancer autenticado
+ * Excluye sus propios trabajos y aquellos a los que ya ha enviado una oferta
+ */
+exports.getRecommendedJobs = async (req, res) => {
+  try {
+    if (req.user.role !== 'freelancer') {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo los freelancers reciben recomendaciones de trabajos'
+      });
+    }
+    
+    const freelancer = await User.findByPk(req.user.id);
+    if (!freelancer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado'
+      });
+    }
+    
+    const proposals = await Proposal.findAll({
+      where: { userId: freelancer.id },
+      attributes: ['jobId']
+    });
+    const proposedJobIds = proposals.map(proposal => proposal.jobId);
+    const blockedIds = await getBlockedUserIds(freelancer.id);
+    
+    const openJobs = await Job.findAll({
+      where: {
+        status: 'open',
+        moderationStatus: { [Op.ne]: 'removed' },
+        userId: { [Op.notIn]: [freelancer.id, ...blockedIds] },
+        ...(proposedJobIds.length > 0 && { id: { [Op.notIn]: proposedJobIds } })
+      },
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: MAX_CANDIDATES
+    });
+    
+    // La rareza de cada habilidad se mide entre los trabajos abiertos
+    const skillWeights = buildSkillWeights(openJobs.map(job => job.skills));
+    const histories = await getCategoryHistories([freelancer.id]);
+    const profile = {
+      skills: freelancer.skills,
+      hourlyRate: freelancer.hourlyRate,
+      categoryHistory: histories.get(freelancer.id) || {}
+    };
+    
+    const recommendations = openJobs
+      .map(job => ({ job, match: scoreMatch(job, profile, skillWeights, openJobs.length) }))
+      .filter(({ match }) => isRelevantMatch(match))
+      .sort((a, b) => b.match.score - a.match.score)
+      .slice(0, getLimit(req.query.limit));
+    
+    return res.status(200).json({
+      success: true,
+      recommendations
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener trabajos recomendados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener recomendaciones',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Recomendar freelancers para un trabajo (solo para el propietario del trabajo)
+ */
+exports.getRecommendedFreelancers = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    
+    const job = await Job.findByPk(jobId);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    if (!(await hasJobPermission(job, req.user.id, 'jobs:view'))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Solo la organización del trabajo puede ver los candidatos recomendados'
+      });
+    }
+    
+    const blockedIds = await getBlockedUserIds(req.user.id);
+    
+    const freelancers = await User.findAll({
+      where: {
+        role: 'freelancer',
+        id: { [Op.notIn]: [job.userId, ...blockedIds] }
+      },
+      attributes: ['id', 'name', 'photoURL', 'bio', 'skills', 'hourlyRate', 'ratingAverage', 'ratingCount'],
+      order: [['ratingAverage', 'DESC']],
+      limit: MAX_CANDIDATES
+    });
+    
+    // La rareza de cada habilidad se mide entre los freelancers
+    const skillWeights = buildSkillWeights(freelancers.map(freelancer => freelancer.skills));
+    const histories = await getCategoryHistories(freelancers.map(freelancer => freelancer.id));
+    
+    const recommendations = freelancers
+      .map(freelancer => ({
+        freelancer,
+        match: scoreMatch(job, {
+          skills: freelancer.skills,
+          hourlyRate: freelancer.hourlyRate,
+          categoryHistory: histories.get(freelancer.id) || {}
+        }, skillWeights, freelancers.length)
+      }))
+      .filter(({ match }) => isRelevantMatch(match))
+      .sort((a, b) => b.match.score - a.match.score || b.freelancer.ratingAverage - a.freelancer.ratingAverage)
+      .slice(0, getLimit(req.query.limit));
+    
+    return res.status(200).json({
+      success: true,
+      recommendations
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener freelancers recomendados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener recomendaciones',
+      error: error.message
+    });
+  }
+};
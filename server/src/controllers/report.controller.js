@@ -0,0 +1,103 @@
+const { Report, Chat } = require('../models');
+const { findReportTarget, describeReportTarget } = require('../utils/moderation');
+
+// Longitud máxima de la explicación de quien denuncia
+const MAX_DETAILS_LENGTH = 1000;
+
+/**
+ * Denunciar un trabajo, comentario, respuesta, mensaje o perfil
+ * La denuncia entra en la cola de moderación de los administradores
+ */
+exports.createReport = async (req, res) => {
+  try {
+    const { targetType, targetId, reason } = req.body;
+    const details = typeof req.body.details === 'string' ? req.body.details.trim() : '';
+    const reporterId = req.user.id;
+    
+    if (!Report.TARGET_TYPES.includes(targetType)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tipo de contenido no válido'
+      });
+    }
+    
+    if (!Report.REASONS.includes(reason)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Indica el motivo de la denuncia'
+      });
+    }
+    
+    if (details.length > MAX_DETAILS_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `La explicación no puede superar los ${MAX_DETAILS_LENGTH} caracteres`
+      });
+    }
+    
+    const target = describeReportTarget(targetType, await findReportTarget(targetType, targetId));
+    if (!target || target.removed) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contenido no encontrado'
+      });
+    }
+    
+    // Los mensajes solo los pueden denunciar los participantes del chat (y los del sistema no)
+    if (targetType === 'message') {
+      const chat = await Chat.findByPk(target.chatId);
+      if (!target.authorId || !chat || !(await chat.hasParticipant(reporterId))) {
+        return res.status(404).json({
+          success: false,
+          message: 'Contenido no encontrado'
+        });
+      }
+    }
+    
+    if (target.authorId === reporterId) {
+      return res.status(400).json({
+        success: false,
+        message: 'No puedes denunciar tu propio contenido'
+      });
+    }
+    
+    const existingReport = await Report.findOne({
+      where: { targetType, targetId, reporterId, status: 'open' }
+    });
+    if (existingReport) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ya has denunciado este contenido. Lo revisaremos lo antes posible'
+      });
+    }
+    
+    const report = await Report.create({
+      targetType,
+      targetId,
+      reason,
+      details: details || null,
+      reporterId
+    });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Denuncia enviada. La revisaremos lo antes posible',
+      report: {
+        id: report.id,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        reason: report.reason,
+        status: report.status,
+        createdAt: report.createdAt
+      }
+    });
+  
+  } catch (error) {
+    console.error('Error al crear la denuncia:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al enviar la denuncia',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,227 @@
+const { Review, Job, User, sequelize } = require('../models');
+const { Op } = require('sequelize');
+
+// Puntuaciones por dimensión que acompañan a cada reseña
+const REVIEW_SCORES = ['rating', 'communication', 'quality', 'timeliness'];
+
+const isValidScore = (value) => Number.isInteger(value) && value >= 1 && value <= 5;
+
+/**
+ * Dejar una reseña a la otra parte de un trabajo completado
+ * Solo se puede valorar dentro del plazo, contado desde que se completó el trabajo.
+ * La reseña queda oculta hasta que ambas partes la envían o vence el plazo, así que
+ * nadie puede leer la reseña de la otra parte antes de escribir la suya
+ */
+exports.createReview = async (req, res) => {
+  const transaction = await sequelize.transaction();
+  
+  try {
+    const { jobId } = req.params;
+    const { comment } = req.body;
+    const userId = req.user.id;
+    
+    const scores = {};
+    for (const field of REVIEW_SCORES) {
+      scores[field] = parseInt(req.body[field], 10);
+      if (!isValidScore(scores[field])) {
+        await transaction.rollback();
+        return res.status(400).json({
+          success: false,
+          message: 'Las puntuaciones deben ser números enteros entre 1 y 5'
+        });
+      }
+    }
+    
+    const job = await Job.findByPk(jobId, { transaction });
+    if (!job) {
+      await transaction.rollback();
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    if (job.status !== 'completed' || !job.assignedTo) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Solo se pueden valorar trabajos completados'
+      });
+    }
+    
+    if (job.userId !== userId && job.assignedTo !== userId) {
+      await transaction.rollback();
+      return res.status(403).json({
+        success: false,
+        message: 'Solo el cliente y el freelancer del trabajo pueden dejar reseñas'
+      });
+    }
+    
+    if (Date.now() > Review.getReviewDeadline(job).getTime()) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'El plazo para valorar este trabajo ha terminado'
+      });
+    }
+    
+    const existingReview = await Review.findOne({ where: { jobId, reviewerId: userId }, transaction });
+    if (existingReview) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Ya has valorado este trabajo'
+      });
+    }
+    
+    const revieweeId = job.userId === userId ? job.assignedTo : job.userId;
+    
+    const review = await Review.create({
+      ...scores,
+      comment: comment || null,
+      jobId,
+      reviewerId: userId,
+      revieweeId
+    }, { transaction });
+    
+    // Si la otra parte ya había valorado, ambas reseñas se hacen visibles
+    // (si la suya ya se había publicado al vencer el plazo, la nueva se publica al momento)
+    const counterpartReview = await Review.findOne({
+      where: { jobId, reviewerId: revieweeId },
+      transaction
+    });
+    
+    if (counterpartReview) {
+      const revealedAt = new Date();
+      review.revealedAt = revealedAt;
+      await review.save({ transaction });
+      
+      if (!counterpartReview.revealedAt) {
+        counterpartReview.revealedAt = revealedAt;
+        await counterpartReview.save({ transaction });
+        await Review.refreshUserRating(userId, { transaction });
+      }
+      
+      await Review.refreshUserRating(revieweeId, { transaction });
+    }
+    
+    await transaction.commit();
+    
+    return res.status(201).json({
+      success: true,
+      message: review.revealedAt
+        ? 'Reseña publicada correctamente'
+        : 'Reseña guardada. Se publicará cuando la otra parte te valore o venza el plazo',
+      review
+    });
+  
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error al crear reseña:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear reseña',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener las reseñas de un trabajo
+ * Cada parte ve siempre la suya; la de la otra parte solo cuando es visible
+ */
+exports.getJobReviews = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const userId = req.user.id;
+    
+    const job = await Job.findByPk(jobId);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    await Review.revealExpired({ jobId });
+    
+    const reviews = await Review.findAll({
+      where: { jobId },
+      include: [
+        {
+          model: User,
+          as: 'reviewer',
+          attributes: ['id', 'name', 'photoURL']
+        }
+      ],
+      order: [['createdAt', 'ASC']]
+    });
+    
+    const isParty = job.userId === userId || job.assignedTo === userId;
+    const myReview = reviews.find(review => review.reviewerId === userId);
+    const isCompleted = job.status === 'completed' && !!job.assignedTo;
+    const reviewDeadline = isCompleted ? Review.getReviewDeadline(job) : null;
+    
+    return res.status(200).json({
+      success: true,
+      reviews: reviews.filter(review => review.revealedAt || review.reviewerId === userId),
+      canReview: isParty && isCompleted && !myReview && Date.now() <= reviewDeadline.getTime(),
+      awaitingCounterpart: !!myReview && !myReview.revealedAt,
+      reviewWindowDays: Review.REVIEW_WINDOW_DAYS,
+      reviewDeadline
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener reseñas del trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener reseñas',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener las reseñas visibles que ha recibido un usuario y su valoración
+ */
+exports.getUserReviews = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    
+    await Review.revealExpired({ revieweeId: userId });
+    
+    const reviews = await Review.findAll({
+      where: {
+        revieweeId: userId,
+        revealedAt: { [Op.ne]: null }
+      },
+      include: [
+        {
+          model: User,
+          as: 'reviewer',
+          attributes: ['id', 'name', 'photoURL', 'role']
+        },
+        {
+          model: Job,
+          as: 'job',
+          attributes: ['id', 'title']
+        }
+      ],
+      order: [['revealedAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      reviews,
+      ratingSummary: await Review.getRatingSummary(userId)
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener reseñas del usuario:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener reseñas',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,314 @@
+const { SavedJob, SavedJobCollection, Job, User, Organization } = require('../models');
+const { Op } = require('sequelize');
+
+// Número máximo de listas de guardados por usuario
+const MAX_COLLECTIONS = 20;
+
+// Datos del trabajo que acompañan a cada guardado
+const SAVED_JOB_INCLUDE = {
+  model: Job,
+  as: 'job',
+  required: true,
+  where: { moderationStatus: { [Op.ne]: 'removed' } },
+  include: [
+    {
+      model: User,
+      as: 'user',
+      attributes: ['id', 'name', 'photoURL', 'ratingAverage', 'ratingCount']
+    },
+    {
+      model: Organization,
+      as: 'organization',
+      attributes: ['id', 'name']
+    },
+    {
+      model: User,
+      as: 'likedBy',
+      attributes: ['id'],
+      through: { attributes: [] }
+    }
+  ]
+};
+
+/**
+ * Buscar una lista del usuario
+ * @returns { collection } o { status, error } si no existe o es de otro usuario
+ */
+const findOwnCollection = async (collectionId, userId) => {
+  const collection = await SavedJobCollection.findByPk(collectionId);
+  if (!collection) {
+    return { status: 404, error: 'Lista no encontrada' };
+  }
+  if (collection.userId !== userId) {
+    return { status: 403, error: 'No tienes permiso para modificar esta lista' };
+  }
+  return { collection };
+};
+
+/**
+ * Comprobar que el nombre no lo usa ya otra lista del usuario
+ */
+const isCollectionNameTaken = async (userId, name, exceptId = null) => {
+  const collections = await SavedJobCollection.findAll({ where: { userId }, attributes: ['id', 'name'] });
+  return collections.some(collection =>
+    collection.id !== exceptId && collection.name.toLowerCase() === name.toLowerCase()
+  );
+};
+
+/**
+ * Obtener los trabajos guardados del usuario con su nota y su lista
+ */
+exports.getMySavedJobs = async (req, res) => {
+  try {
+    const savedJobs = await SavedJob.findAll({
+      where: { userId: req.user.id },
+      include: [SAVED_JOB_INCLUDE],
+      order: [['createdAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      savedJobs
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener trabajos guardados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener trabajos guardados',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Guardar un trabajo o cambiar su nota y su lista
+ * Solo se modifican los campos que llegan en el cuerpo
+ */
+exports.saveJob = async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const { note, collectionId } = req.body;
+    const userId = req.user.id;
+    
+    const job = await Job.findByPk(jobId);
+    if (!job || job.moderationStatus === 'removed') {
+      return res.status(404).json({
+        success: false,
+        message: 'Trabajo no encontrado'
+      });
+    }
+    
+    if (collectionId) {
+      const { error, status } = await findOwnCollection(collectionId, userId);
+      if (error) {
+        return res.status(status).json({
+          success: false,
+          message: error
+        });
+      }
+    }
+    
+    const [savedJob] = await SavedJob.findOrCreate({ where: { userId, jobId } });
+    
+    if (note !== undefined) {
+      savedJob.note = note && note.trim() ? note.trim() : null;
+    }
+    if (collectionId !== undefined) {
+      savedJob.collectionId = collectionId || null;
+    }
+    await savedJob.save();
+    
+    return res.status(200).json({
+      success: true,
+      savedJob: await SavedJob.findOne({
+        where: { userId, jobId },
+        include: [SAVED_JOB_INCLUDE]
+      })
+    });
+  
+  } catch (error) {
+    console.error('Error al guardar trabajo:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al guardar trabajo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Quitar un trabajo de guardados (se pierde también su nota)
+ */
+exports.unsaveJob = async (req, res) => {
+  try {
+    await SavedJob.destroy({
+      where: { userId: req.user.id, jobId: req.params.jobId }
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Trabajo eliminado de guardados'
+    });
+  
+  } catch (error) {
+    console.error('Error al quitar trabajo guardado:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al quitar trabajo guardado',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Obtener las listas del usuario con el número de trabajos de cada una
+ */
+exports.getMyCollections = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    
+    const collections = await SavedJobCollection.findAll({
+      where: { userId },
+      order: [['createdAt', 'ASC']]
+    });
+    
+    const savedJobs = await SavedJob.findAll({
+      where: { userId, collectionId: { [Op.ne]: null } },
+      attributes: ['collectionId']
+    });
+    
+    return res.status(200).json({
+      success: true,
+      collections: collections.map(collection => ({
+        ...collection.toJSON(),
+        savedCount: savedJobs.filter(savedJob => savedJob.collectionId === collection.id).length
+      }))
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener listas de guardados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener listas de guardados',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Crear una lista de guardados
+ */
+exports.createCollection = async (req, res) => {
+  try {
+    const name = req.body.name.trim();
+    const userId = req.user.id;
+    
+    const collectionCount = await SavedJobCollection.count({ where: { userId } });
+    if (collectionCount >= MAX_COLLECTIONS) {
+      return res.status(400).json({
+        success: false,
+        message: `No puedes crear más de ${MAX_COLLECTIONS} listas`
+      });
+    }
+    
+    if (await isCollectionNameTaken(userId, name)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ya tienes una lista con ese nombre'
+      });
+    }
+    
+    const collection = await SavedJobCollection.create({ name, userId });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Lista creada correctamente',
+      collection: { ...collection.toJSON(), savedCount: 0 }
+    });
+  
+  } catch (error) {
+    console.error('Error al crear lista de guardados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al crear lista de guardados',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Renombrar una lista de guardados
+ */
+exports.updateCollection = async (req, res) => {
+  try {
+    const name = req.body.name.trim();
+    const userId = req.user.id;
+    
+    const { collection, error, status } = await findOwnCollection(req.params.collectionId, userId);
+    if (error) {
+      return res.status(status).json({
+        success: false,
+        message: error
+      });
+    }
+    
+    if (await isCollectionNameTaken(userId, name, collection.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ya tienes una lista con ese nombre'
+      });
+    }
+    
+    collection.name = name;
+    await collection.save();
+    
+    return res.status(200).json({
+      success: true,
+      collection: {
+        ...collection.toJSON(),
+        savedCount: await SavedJob.count({ where: { collectionId: collection.id } })
+      }
+    });
+  
+  } catch (error) {
+    console.error('Error al actualizar lista de guardados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar lista de guardados',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar una lista de guardados
+ * Sus trabajos siguen guardados, sin lista
+ */
+exports.deleteCollection = async (req, res) => {
+  try {
+    const { collection, error, status } = await findOwnCollection(req.params.collectionId, req.user.id);
+    if (error) {
+      return res.status(status).json({
+        success: false,
+        message: error
+      });
+    }
+    
+    await SavedJob.update({ collectionId: null }, { where: { collectionId: collection.id } });
+    await collection.destroy();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Lista eliminada correctamente'
+    });
+  
+  } catch (error) {
+    console.error('Error al eliminar lista de guardados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar lista de guardados',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,209 @@
+const { SavedSearch, Job } = require('../models');
+const { Op } = require('sequelize');
+const { buildJobFilters, matchesJobFilters, pickSearchFilters } = require('../utils/jobFilters');
+const { emitToUser } = require('./socket.controller');
+
+// Número máximo de búsquedas guardadas por usuario
+const MAX_SAVED_SEARCHES = 20;
+
+/**
+ * Contar los trabajos de otros usuarios publicados desde la última visita a la búsqueda
+ */
+const countNewJobs = (savedSearch) => Job.count({
+  where: {
+    [Op.and]: [
+      buildJobFilters(savedSearch.filters || {}),
+      { createdAt: { [Op.gt]: savedSearch.lastViewedAt } },
+      { userId: { [Op.ne]: savedSearch.userId } }
+    ]
+  }
+});
+
+const withNewCount = async (savedSearch) => ({
+  ...savedSearch.toJSON(),
+  newCount: await countNewJobs(savedSearch)
+});
+
+/**
+ * Avisar por socket a los usuarios cuyas búsquedas guardadas coinciden con un trabajo nuevo
+ * Se llama desde createJob; el autor del trabajo no recibe aviso
+ */
+exports.notifySavedSearchMatches = async (job) => {
+  const savedSearches = await SavedSearch.findAll({
+    where: { userId: { [Op.ne]: job.userId } }
+  });
+  
+  const matches = savedSearches.filter(savedSearch => matchesJobFilters(job, savedSearch.filters || {}));
+  
+  for (const savedSearch of matches) {
+    emitToUser(savedSearch.userId, 'saved_search_match', {
+      savedSearchId: savedSearch.id,
+      savedSearchName: savedSearch.name,
+      job: {
+        id: job.id,
+        title: job.title,
+        budget: job.budget,
+        category: job.category
+      }
+    });
+  }
+  
+  return matches.length;
+};
+
+/**
+ * Obtener las búsquedas guardadas del usuario con el número de trabajos nuevos
+ */
+exports.getMySavedSearches = async (req, res) => {
+  try {
+    const savedSearches = await SavedSearch.findAll({
+      where: { userId: req.user.id },
+      order: [['createdAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      savedSearches: await Promise.all(savedSearches.map(withNewCount))
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener búsquedas guardadas:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener búsquedas guardadas',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Guardar la combinación actual de filtros con un nombre
+ */
+exports.createSavedSearch = async (req, res) => {
+  try {
+    const { name } = req.body;
+    const userId = req.user.id;
+    
+    if (!name || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'La búsqueda necesita un nombre'
+      });
+    }
+    
+    const filters = pickSearchFilters(req.body.filters);
+    if (Object.keys(filters).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Selecciona al menos un filtro para guardar la búsqueda'
+      });
+    }
+    
+    const savedSearchCount = await SavedSearch.count({ where: { userId } });
+    if (savedSearchCount >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({
+        success: false,
+        message: `No puedes guardar más de ${MAX_SAVED_SEARCHES} búsquedas`
+      });
+    }
+    
+    const savedSearch = await SavedSearch.create({
+      name: name.trim(),
+      filters,
+      userId
+    });
+    
+    return res.status(201).json({
+      success: true,
+      message: 'Búsqueda guardada correctamente',
+      savedSearch: await withNewCount(savedSearch)
+    });
+  
+  } catch (error) {
+    console.error('Error al guardar búsqueda:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al guardar búsqueda',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Marcar una búsqueda guardada como vista (reinicia el contador de nuevos)
+ */
+exports.markSavedSearchViewed = async (req, res) => {
+  try {
+    const { savedSearchId } = req.params;
+    
+    const savedSearch = await SavedSearch.findByPk(savedSearchId);
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Búsqueda guardada no encontrada'
+      });
+    }
+    
+    if (savedSearch.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para modificar esta búsqueda'
+      });
+    }
+    
+    savedSearch.lastViewedAt = new Date();
+    await savedSearch.save();
+    
+    return res.status(200).json({
+      success: true,
+      savedSearch: { ...savedSearch.toJSON(), newCount: 0 }
+    });
+  
+  } catch (error) {
+    console.error('Error al actualizar búsqueda guardada:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al actualizar búsqueda guardada',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Eliminar una búsqueda guardada
+ */
+exports.deleteSavedSearch = async (req, res) => {
+  try {
+    const { savedSearchId } = req.params;
+    
+    const savedSearch = await SavedSearch.findByPk(savedSearchId);
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Búsqueda guardada no encontrada'
+      });
+    }
+    
+    if (savedSearch.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'No tienes permiso para eliminar esta búsqueda'
+      });
+    }
+    
+    await savedSearch.destroy();
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Búsqueda eliminada correctamente'
+    });
+  
+  } catch (error) {
+    console.error('Error al eliminar búsqueda guardada:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al eliminar búsqueda guardada',
+      error: error.message
+    });
+  }
+};
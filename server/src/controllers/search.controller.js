@@ -0,0 +1,157 @@
+const { sequelize } = require('../models');
+const { QueryTypes } = require('sequelize');
+const { SEARCH_QUERY, searchVector, toSearchTerms } = require('../utils/searchIndex');
+
+// Resultados por tipo en la búsqueda global y al filtrar por un solo tipo
+const DEFAULT_RESULTS_PER_TYPE = 5;
+const MAX_RESULTS_PER_TYPE = 25;
+
+// Excluir el contenido de los usuarios bloqueados por quien busca
+const notBlocked = (userColumn) =>
+  `NOT EXISTS (SELECT 1 FROM "UserBlocks" b WHERE b."blockerId" = :userId AND b."blockedId" = ${userColumn})`;
+
+// Excluir las cuentas expulsadas o con una suspensión vigente (ver User.getAccessRestriction)
+const accountAvailable = (alias) =>
+  `${alias}."accountStatus" <> 'banned'
+      AND NOT (${alias}."accountStatus" = 'suspended' AND (${alias}."suspendedUntil" IS NULL OR ${alias}."suspendedUntil" > NOW()))`;
+
+// Las coincidencias se marcan con <mark> en los fragmentos de texto
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+/**
+ * Consultas de cada tipo de resultado
+ * Todas reciben :terms, :limit, :userId y las opciones de resaltado, y ordenan por relevancia
+ */
+const SEARCH_SOURCES = {
+  jobs: `
+    SELECT j.id, j.status, j.category,
+      ts_headline('spanish', j.title, q.query, :titleOptions) AS title,
+      ts_headline('spanish', j.description, q.query, :options) AS snippet,
+      ts_rank_cd(${searchVector('Jobs', 'j')}, q.query) AS rank
+    FROM "Jobs" j, (SELECT ${SEARCH_QUERY} AS query) q
+    WHERE ${searchVector('Jobs', 'j')} @@ q.query AND j."moderationStatus" <> 'removed'
+      AND ${notBlocked('j."userId"')}
+    ORDER BY rank DESC, j."createdAt" DESC
+    LIMIT :limit`,
+  
+  comments: `
+    SELECT c.id, c."jobId", j.title AS "jobTitle", u.name AS "userName",
+      ts_headline('spanish', c.content, q.query, :options) AS snippet,
+      ts_rank_cd(${searchVector('Comments', 'c')}, q.query) AS rank
+    FROM "Comments" c
+    JOIN "Jobs" j ON j.id = c."jobId"
+    LEFT JOIN "Users" u ON u.id = c."userId",
+    (SELECT ${SEARCH_QUERY} AS query) q
+    WHERE ${searchVector('Comments', 'c')} @@ q.query AND j."moderationStatus" <> 'removed'
+      AND ${notBlocked('c."userId"')}
+    ORDER BY rank DESC, c."createdAt" DESC
+    LIMIT :limit`,
+  
+  replies: `
+    SELECT r.id, r."commentId", c."jobId", j.title AS "jobTitle", u.name AS "userName",
+      ts_headline('spanish', r.content, q.query, :options) AS snippet,
+      ts_rank_cd(${searchVector('Replies', 'r')}, q.query) AS rank
+    FROM "Replies" r
+    JOIN "Comments" c ON c.id = r."commentId"
+    JOIN "Jobs" j ON j.id = c."jobId"
+    LEFT JOIN "Users" u ON u.id = r."userId",
+    (SELECT ${SEARCH_QUERY} AS query) q
+    WHERE ${searchVector('Replies', 'r')} @@ q.query AND j."moderationStatus" <> 'removed'
+      AND ${notBlocked('r."userId"')}
+    ORDER BY rank DESC, r."createdAt" DESC
+    LIMIT :limit`,
+  
+  // Solo mensajes de chats en los que participa el usuario; no se buscan mensajes eliminados ni del sistema
+  messages: `
+    SELECT m.id, m."chatId", m."createdAt", ch.name AS "chatName", ch."isGroup", u.name AS "userName",
+      ts_headline('spanish', m.content, q.query, :options) AS snippet,
+      ts_rank_cd(${searchVector('Messages', 'm')}, q.query) AS rank
+    FROM "Messages" m
+    JOIN "ChatParticipants" cp ON cp."chatId" = m."chatId" AND cp."userId" = :userId
+    JOIN "Chats" ch ON ch.id = m."chatId"
+    LEFT JOIN "Users" u ON u.id = m."userId",
+    (SELECT ${SEARCH_QUERY} AS query) q
+    WHERE ${searchVector('Messages', 'm')} @@ q.query
+      AND m."deletedAt" IS NULL
+      AND m."userId" IS NOT NULL
+      AND ${notBlocked('m."userId"')}
+    ORDER BY rank DESC, m."createdAt" DESC
+    LIMIT :limit`,
+  
+  // Sin los perfiles bloqueados por quien busca ni las cuentas suspendidas o expulsadas
+  users: `
+    SELECT u.id, u.role, u."photoURL",
+      ts_headline('spanish', u.name, q.query, :titleOptions) AS name,
+      ts_headline('spanish', coalesce(u.bio, ''), q.query, :options) AS snippet,
+      ts_rank_cd(${searchVector('Users', 'u')}, q.query) AS rank
+    FROM "Users" u, (SELECT ${SEARCH_QUERY} AS query) q
+    WHERE ${searchVector('Users', 'u')} @@ q.query
+      AND ${notBlocked('u.id')}
+      AND ${accountAvailable('u')}
+    ORDER BY rank DESC, u.name ASC
+    LIMIT :limit`
+};
+
+/**
+ * Búsqueda global de texto completo
+ * Query params:
+ * - q: texto a buscar
+ * - type: limitar a un tipo (jobs, comments, replies, messages, users)
+ * - limit: resultados por tipo
+ */
+exports.search = async (req, res) => {
+  try {
+    const { q, type } = req.query;
+    const terms = toSearchTerms(q);
+    
+    if (type && !SEARCH_SOURCES[type]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tipo de búsqueda no válido'
+      });
+    }
+    
+    const types = type ? [type] : Object.keys(SEARCH_SOURCES);
+    const results = Object.fromEntries(types.map(sourceType => [sourceType, []]));
+    
+    if (!terms) {
+      return res.status(200).json({
+        success: true,
+        query: q || '',
+        results
+      });
+    }
+    
+    const defaultLimit = type ? MAX_RESULTS_PER_TYPE : DEFAULT_RESULTS_PER_TYPE;
+    const limit = Math.min(parseInt(req.query.limit, 10) || defaultLimit, MAX_RESULTS_PER_TYPE);
+    const replacements = {
+      terms,
+      limit,
+      userId: req.user.id,
+      options: HEADLINE_OPTIONS,
+      titleOptions: TITLE_HEADLINE_OPTIONS
+    };
+    
+    for (const sourceType of types) {
+      results[sourceType] = await sequelize.query(SEARCH_SOURCES[sourceType], {
+        replacements,
+        type: QueryTypes.SELECT
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      query: q,
+      results
+    });
+  
+  } catch (error) {
+    console.error('Error al buscar:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al buscar',
+      error: error.message
+    });
+  }
+};
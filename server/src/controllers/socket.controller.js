@@ -1,9 +1,58 @@
 
 const { User, Chat, Message } = require('../models');
-const jwt = require('jsonwebtoken');
-const { Op } = require('sequelize');
+const { verifyAccessToken } = require('../utils/sessionTokens');
+const {
+  createMessageReceipts,
+  findMessageWithReceipts,
+  markMessagesDelivered,
+  markChatMessagesRead
+} = require('../utils/messageReceipts');
+const { editMessage, deleteMessage, toggleReaction } = require('../utils/messageActions');
+const { checkPrivateChatBlocks } = require('../utils/blocks');
+const { UUID_PATTERN } = require('../utils/sessionTokens');
+const { validateRequestBody } = require('../utils/apiContract');
+const { createOnce } = require('../utils/idempotency');
+
+// Instancia de Socket.IO compartida con los controladores REST
+let ioInstance = null;
+
+/**
+ * Obtener la instancia de Socket.IO (null si aún no se ha inicializado)
+ */
+const getIO = () => ioInstance;
+
+/**
+ * Emitir un evento a todas las conexiones de un usuario
+ */
+const emitToUser = (userId, event, payload) => {
+  if (ioInstance) {
+    ioInstance.to(`user:${userId}`).emit(event, payload);
+  }
+};
+
+/**
+ * Desconectar todos los sockets abiertos con una sesión (ej: al revocarla)
+ */
+const disconnectSession = (sessionId) => {
+  if (ioInstance) {
+    ioInstance.in(`session:${sessionId}`).disconnectSockets(true);
+  }
+};
+
+/**
+ * Comprobar en la base de datos que el usuario sigue siendo participante del chat
+ * La sala del socket no basta: un usuario que abandona el chat puede seguir en ella
+ */
+const isChatParticipant = async (chatId, userId) => {
+  if (!UUID_PATTERN.test(chatId || '')) return false;
+  
+  const chat = await Chat.findByPk(chatId, { attributes: ['id'] });
+  return !!chat && chat.hasParticipant(userId);
+};
 
 const initSocket = (io) => {
+  ioInstance = io;
+  
   // Mapeo de usuarios a sus sockets
   const userSockets = new Map();
   
@@ -16,25 +65,18 @@ const initSocket = (io) => {
         return next(new Error('No se proporcionó token de autenticación'));
       }
       
-      try {
-        // Verificar token
-        const decoded = jwt.verify(token, process.env.JWT_SECRET);
-        
-        // Buscar usuario en la base de datos
-        const user = await User.findByPk(decoded.id);
-        
-        if (!user) {
-          return next(new Error('Usuario no encontrado'));
-        }
-        
-        // Guardar usuario en el socket
-        socket.user = user;
-        next();
-        
-      } catch (error) {
+      // Verificar token y que su sesión siga activa
+      const auth = await verifyAccessToken(token);
+      
+      if (!auth) {
         return next(new Error('Token inválido o expirado'));
       }
       
+      // Guardar usuario y sesión en el socket
+      socket.user = auth.user;
+      socket.sessionId = auth.session.id;
+      next();
+      
     } catch (error) {
       console.error('Error en middleware de autenticación de socket:', error);
       next(new Error('Error interno del servidor'));
@@ -58,6 +100,12 @@ const initSocket = (io) => {
       }
       userSockets.get(user.id).add(socket.id);
       
+      // Sala personal para eventos dirigidos al usuario (ej: chats nuevos)
+      socket.join(`user:${user.id}`);
+      
+      // Sala de la sesión, para desconectarla si se revoca
+      socket.join(`session:${socket.sessionId}`);
+      
       // Enviar estado online a todos
       io.emit('user_status_change', {
         userId: user.id,
@@ -71,15 +119,42 @@ const initSocket = (io) => {
         socket.join(`chat:${chat.id}`);
       });
       
+      // Los mensajes recibidos mientras estaba desconectado pasan a entregados
+      const deliveredChatIds = await markMessagesDelivered(user.id);
+      const deliveredAt = new Date();
+      deliveredChatIds.forEach(chatId => {
+        socket.to(`chat:${chatId}`).emit('messages_delivered', {
+          chatId,
+          userId: user.id,
+          deliveredAt
+        });
+      });
+      
       // Manejar envío de mensajes
-      socket.on('send_message', async (data) => {
+      socket.on('send_message', async (data, callback) => {
+        // El cliente puede pasar un callback de confirmación (ack)
+        const respond = typeof callback === 'function' ? callback : () => {};
+        
         try {
-          const { chatId, content } = data;
+          const { chatId, content, idempotencyKey } = data;
+          
+          if (!content || !content.trim()) {
+            respond({ success: false, message: 'El mensaje no puede estar vacío' });
+            return;
+          }
+          
+          // Mismo cuerpo que POST /api/chats/:chatId/messages
+          const validationError = await validateRequestBody('chats.sendMessage', { content, idempotencyKey });
+          if (validationError) {
+            respond({ success: false, message: validationError.error });
+            return;
+          }
           
           // Verificar que el chat existe
           const chat = await Chat.findByPk(chatId);
           if (!chat) {
             socket.emit('error', { message: 'Chat no encontrado' });
+            respond({ success: false, message: 'Chat no encontrado' });
             return;
           }
           
@@ -87,73 +162,191 @@ const initSocket = (io) => {
           const isParticipant = await chat.hasParticipant(user.id);
           if (!isParticipant) {
             socket.emit('error', { message: 'No tienes acceso a este chat' });
+            respond({ success: false, message: 'No tienes acceso a este chat' });
             return;
           }
           
-          // Crear mensaje
-          const message = await Message.create({
+          // En un chat privado con un bloqueo de por medio ya no se puede escribir
+          const blockError = await checkPrivateChatBlocks(chat, user.id);
+          if (blockError) {
+            respond({ success: false, message: blockError.error });
+            return;
+          }
+          
+          // Crear mensaje (un reintento con la misma clave devuelve el ya creado sin volver a emitirlo)
+          const { record: message, created } = await createOnce(Message, {
             content,
             chatId,
-            userId: user.id
-          });
+            userId: user.id,
+            idempotencyKey
+          }, 'chatId');
+          
+          if (!created) {
+            respond({ success: true, chatMessage: await findMessageWithReceipts(message.id) });
+            return;
+          }
           
           // Actualizar lastMessageAt del chat
           chat.lastMessageAt = new Date();
           await chat.save();
           
-          // Cargar mensaje con información del usuario
-          const messageWithUser = await Message.findByPk(message.id, {
-            include: [
-              {
-                model: User,
-                as: 'user',
-                attributes: ['id', 'name', 'photoURL']
-              }
-            ]
-          });
+          await createMessageReceipts(chat, message);
+          
+          // Cargar mensaje con información del usuario y sus recibos
+          const messageWithUser = await findMessageWithReceipts(message.id);
           
           // Emitir mensaje a todos los participantes del chat
+          socket.to(`chat:${chatId}`).emit('user_stopped_typing', { chatId, userId: user.id });
           io.to(`chat:${chatId}`).emit('new_message', messageWithUser);
+          respond({ success: true, chatMessage: messageWithUser });
+          
+          // Se importa aquí para evitar la dependencia circular con notification.controller
+          const { notifyNewMessage } = require('./notification.controller');
+          await notifyNewMessage(chat, message);
           
         } catch (error) {
           console.error('Error al enviar mensaje via socket:', error);
           socket.emit('error', { message: 'Error al enviar mensaje' });
+          respond({ success: false, message: 'Error al enviar mensaje' });
         }
       });
       
-      // Manejar escritura
-      socket.on('typing', (data) => {
-        const { chatId } = data;
+      // Manejar edición de mensajes propios
+      socket.on('edit_message', async (data, callback) => {
+        const respond = typeof callback === 'function' ? callback : () => {};
         
-        // Emitir evento de escritura a todos los participantes excepto el remitente
-        socket.to(`chat:${chatId}`).emit('user_typing', {
-          chatId,
-          userId: user.id,
-          userName: user.name
-        });
+        try {
+          const { chatId, messageId, content } = data || {};
+          const result = await editMessage({ messageId, chatId, userId: user.id, content });
+          
+          if (result.error) {
+            respond({ success: false, message: result.error });
+            return;
+          }
+          
+          io.to(`chat:${result.message.chatId}`).emit('message_edited', result.message);
+          respond({ success: true, chatMessage: result.message });
+          
+        } catch (error) {
+          console.error('Error al editar mensaje via socket:', error);
+          respond({ success: false, message: 'Error al editar mensaje' });
+        }
+      });
+      
+      // Manejar eliminación de mensajes para todos
+      socket.on('delete_message', async (data, callback) => {
+        const respond = typeof callback === 'function' ? callback : () => {};
+        
+        try {
+          const { chatId, messageId } = data || {};
+          const result = await deleteMessage({ messageId, chatId, userId: user.id });
+          
+          if (result.error) {
+            respond({ success: false, message: result.error });
+            return;
+          }
+          
+          const { message } = result;
+          io.to(`chat:${message.chatId}`).emit('message_deleted', {
+            chatId: message.chatId,
+            messageId: message.id,
+            deletedAt: message.deletedAt
+          });
+          respond({ success: true });
+          
+        } catch (error) {
+          console.error('Error al eliminar mensaje via socket:', error);
+          respond({ success: false, message: 'Error al eliminar mensaje' });
+        }
+      });
+      
+      // Manejar reacciones (añade la reacción o la quita si ya existía)
+      socket.on('toggle_reaction', async (data, callback) => {
+        const respond = typeof callback === 'function' ? callback : () => {};
+        
+        try {
+          const { chatId, messageId, emoji } = data || {};
+          const result = await toggleReaction({ messageId, chatId, userId: user.id, emoji });
+          
+          if (result.error) {
+            respond({ success: false, message: result.error });
+            return;
+          }
+          
+          const payload = {
+            chatId: result.message.chatId,
+            messageId: result.message.id,
+            reactions: result.reactions
+          };
+          io.to(`chat:${payload.chatId}`).emit('message_reactions', payload);
+          respond({ success: true, ...payload });
+          
+        } catch (error) {
+          console.error('Error al reaccionar a mensaje via socket:', error);
+          respond({ success: false, message: 'Error al reaccionar al mensaje' });
+        }
+      });
+      
+      /**
+       * Comprobar que el socket puede emitir eventos en un chat: debe estar en su sala
+       * y seguir siendo participante (si ya no lo es, se le saca de la sala)
+       */
+      const canUseChat = async (chatId) => {
+        if (!socket.rooms.has(`chat:${chatId}`)) return false;
+        
+        if (!(await isChatParticipant(chatId, user.id))) {
+          socket.leave(`chat:${chatId}`);
+          return false;
+        }
+        return true;
+      };
+      
+      // Manejar escritura (solo en chats de los que el usuario es participante)
+      socket.on('typing', async (data) => {
+        try {
+          const { chatId } = data || {};
+          if (!(await canUseChat(chatId))) return;
+          
+          // Emitir evento de escritura a todos los participantes excepto el remitente
+          socket.to(`chat:${chatId}`).emit('user_typing', {
+            chatId,
+            userId: user.id,
+            userName: user.name
+          });
+        } catch (error) {
+          console.error('Error al enviar indicador de escritura:', error);
+        }
+      });
+      
+      socket.on('stop_typing', async (data) => {
+        try {
+          const { chatId } = data || {};
+          if (!(await canUseChat(chatId))) return;
+          
+          socket.to(`chat:${chatId}`).emit('user_stopped_typing', {
+            chatId,
+            userId: user.id
+          });
+        } catch (error) {
+          console.error('Error al enviar indicador de escritura:', error);
+        }
       });
       
       // Manejar lectura de mensajes
       socket.on('mark_read', async (data) => {
         try {
-          const { chatId } = data;
+          const { chatId } = data || {};
+          if (!(await canUseChat(chatId))) return;
           
           // Marcar mensajes como leídos
-          await Message.update(
-            { read: true },
-            {
-              where: {
-                chatId,
-                userId: { [Op.ne]: user.id },
-                read: false
-              }
-            }
-          );
-          
-          // Notificar a los demás usuarios
-          socket.to(`chat:${chatId}`).emit('messages_read', {
+          const readCount = await markChatMessagesRead(chatId, user.id);
+          if (readCount === 0) return;
+          
+          // Notificar a todos los participantes (también a las otras conexiones del usuario)
+          io.to(`chat:${chatId}`).emit('messages_read', {
             chatId,
-            userId: user.id
+            userId: user.id,
+            readAt: new Date()
           });
           
         } catch (error) {
@@ -223,4 +416,4 @@ const initSocket = (io) => {
   });
 };
 
-module.exports = { initSocket };
+module.exports = { initSocket, getIO, emitToUser, disconnectSession };
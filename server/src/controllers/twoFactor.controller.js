@@ -0,0 +1,204 @@
+const QRCode = require('qrcode');
+const { generateSecret, verifyCode, buildOtpauthUrl, generateRecoveryCodes } = require('../utils/totp');
+const { verifySecondFactor } = require('../utils/twoFactor');
+
+/**
+ * Estado de la verificación en dos pasos del usuario actual
+ */
+exports.getStatus = async (req, res) => {
+  try {
+    const user = req.user;
+    
+    return res.status(200).json({
+      success: true,
+      enabled: user.twoFactorEnabled,
+      recoveryCodesRemaining: user.twoFactorEnabled ? (user.twoFactorRecoveryCodes || []).length : 0
+    });
+  
+  } catch (error) {
+    console.error('Error al obtener la verificación en dos pasos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener la verificación en dos pasos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Iniciar la activación: genera un secreto nuevo y su código QR
+ * El secreto queda pendiente hasta que se confirme con un código (enable)
+ */
+exports.setup = async (req, res) => {
+  try {
+    const user = req.user;
+    
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'La verificación en dos pasos ya está activada'
+      });
+    }
+    
+    const secret = generateSecret();
+    const otpauthUrl = buildOtpauthUrl(secret, user.email);
+    
+    await user.update({ twoFactorSecret: secret, twoFactorLastUsedStep: null });
+    
+    // El QR se genera en el servidor para no enviar el secreto a servicios externos
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+    
+    return res.status(200).json({
+      success: true,
+      secret,
+      otpauthUrl,
+      qrCode
+    });
+  
+  } catch (error) {
+    console.error('Error al configurar la verificación en dos pasos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al configurar la verificación en dos pasos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Confirmar la activación con un código de la aplicación de autenticación
+ * Devuelve los códigos de recuperación, que solo se muestran esta vez
+ */
+exports.enable = async (req, res) => {
+  try {
+    const user = req.user;
+    const { code } = req.body;
+    
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'La verificación en dos pasos ya está activada'
+      });
+    }
+    
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({
+        success: false,
+        message: 'Primero genera el código QR de configuración'
+      });
+    }
+    
+    const step = verifyCode(user.twoFactorSecret, code);
+    if (step === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Código de verificación incorrecto'
+      });
+    }
+    
+    const recoveryCodes = generateRecoveryCodes();
+    await user.update({
+      twoFactorEnabled: true,
+      twoFactorLastUsedStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.hashes
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Verificación en dos pasos activada',
+      recoveryCodes: recoveryCodes.codes
+    });
+  
+  } catch (error) {
+    console.error('Error al activar la verificación en dos pasos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al activar la verificación en dos pasos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Desactivar la verificación en dos pasos (requiere un código actual)
+ */
+exports.disable = async (req, res) => {
+  try {
+    const user = req.user;
+    const { code } = req.body;
+    
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'La verificación en dos pasos no está activada'
+      });
+    }
+    
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Código de verificación incorrecto'
+      });
+    }
+    
+    await user.update({
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: []
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Verificación en dos pasos desactivada'
+    });
+  
+  } catch (error) {
+    console.error('Error al desactivar la verificación en dos pasos:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al desactivar la verificación en dos pasos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Generar códigos de recuperación nuevos (requiere un código actual; invalida los anteriores)
+ */
+exports.regenerateRecoveryCodes = async (req, res) => {
+  try {
+    const user = req.user;
+    const { code } = req.body;
+    
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'La verificación en dos pasos no está activada'
+      });
+    }
+    
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Código de verificación incorrecto'
+      });
+    }
+    
+    const recoveryCodes = generateRecoveryCodes();
+    await user.update({ twoFactorRecoveryCodes: recoveryCodes.hashes });
+    
+    return res.status(200).json({
+      success: true,
+      recoveryCodes: recoveryCodes.codes
+    });
+  
+  } catch (error) {
+    console.error('Error al generar códigos de recuperación:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al generar códigos de recuperación',
+      error: error.message
+    });
+  }
+};
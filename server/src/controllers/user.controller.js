@@ -1,5 +1,5 @@
 
-const { User, Job } = require('../models');
+const { User, Job, Review, UserBlock } = require('../models');
 const fs = require('fs').promises;
 const path = require('path');
 
@@ -25,13 +25,14 @@ exports.getCurrentUser = async (req, res) => {
 
 /**
  * Obtener perfil de un usuario por ID
+ * Incluye la valoración media y por dimensión de sus reseñas visibles
  */
 exports.getUserById = async (req, res) => {
   try {
     const { userId } = req.params;
     
     const user = await User.findByPk(userId, {
-      attributes: { exclude: ['password'] },
+      attributes: { exclude: User.PRIVATE_FIELDS },
       include: [
         {
           model: Job,
@@ -49,9 +50,15 @@ exports.getUserById = async (req, res) => {
       });
     }
     
+    // Publicar reseñas vencidas antes de calcular la valoración
+    await Review.revealExpired({ revieweeId: userId });
+    
     return res.status(200).json({
       success: true,
-      user
+      user: {
+        ...user.toJSON(),
+        ratingSummary: await Review.getRatingSummary(userId)
+      }
     });
     
   } catch (error) {
@@ -160,7 +167,7 @@ exports.searchUsers = async (req, res) => {
   try {
     const { query, role } = req.query;
     const searchQuery = {
-      attributes: { exclude: ['password'] },
+      attributes: { exclude: User.PRIVATE_FIELDS },
       where: {}
     };
     
@@ -196,3 +203,104 @@ exports.searchUsers = async (req, res) => {
     });
   }
 };
+
+/**
+ * Obtener los usuarios bloqueados por el usuario actual
+ */
+exports.getBlockedUsers = async (req, res) => {
+  try {
+    const blocks = await UserBlock.findAll({
+      where: { blockerId: req.user.id },
+      include: [
+        {
+          model: User,
+          as: 'blocked',
+          attributes: ['id', 'name', 'photoURL', 'role']
+        }
+      ],
+      order: [['createdAt', 'DESC']]
+    });
+    
+    return res.status(200).json({
+      success: true,
+      blockedUsers: blocks
+        .filter(block => block.blocked)
+        .map(block => ({ ...block.blocked.toJSON(), blockedAt: block.createdAt }))
+    });
+    
+  } catch (error) {
+    console.error('Error al obtener usuarios bloqueados:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al obtener usuarios bloqueados',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Bloquear a un usuario
+ * Deja de verse su contenido y ninguno de los dos puede escribir al otro
+ */
+exports.blockUser = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    
+    if (userId === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'No puedes bloquearte a ti mismo'
+      });
+    }
+    
+    const user = await User.findByPk(userId, { attributes: ['id', 'name', 'photoURL', 'role'] });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado'
+      });
+    }
+    
+    const [block] = await UserBlock.findOrCreate({
+      where: { blockerId: req.user.id, blockedId: user.id }
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: `Has bloqueado a ${user.name}`,
+      blockedUser: { ...user.toJSON(), blockedAt: block.createdAt }
+    });
+    
+  } catch (error) {
+    console.error('Error al bloquear usuario:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al bloquear usuario',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Desbloquear a un usuario
+ */
+exports.unblockUser = async (req, res) => {
+  try {
+    await UserBlock.destroy({
+      where: { blockerId: req.user.id, blockedId: req.params.userId }
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Usuario desbloqueado'
+    });
+    
+  } catch (error) {
+    console.error('Error al desbloquear usuario:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al desbloquear usuario',
+      error: error.message
+    });
+  }
+};
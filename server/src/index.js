@@ -25,12 +25,37 @@ const authRoutes = require('./routes/auth.routes');
 const userRoutes = require('./routes/user.routes');
 const jobRoutes = require('./routes/job.routes');
 const chatRoutes = require('./routes/chat.routes');
+const proposalRoutes = require('./routes/proposal.routes');
+const contractRoutes = require('./routes/contract.routes');
+const reviewRoutes = require('./routes/review.routes');
+const savedSearchRoutes = require('./routes/savedSearch.routes');
+const savedJobRoutes = require('./routes/savedJob.routes');
+const recommendationRoutes = require('./routes/recommendation.routes');
+const notificationRoutes = require('./routes/notification.routes');
+const attachmentRoutes = require('./routes/attachment.routes');
+const searchRoutes = require('./routes/search.routes');
+const organizationRoutes = require('./routes/organization.routes');
+const adminRoutes = require('./routes/admin.routes');
+const reportRoutes = require('./routes/report.routes');
+const { verifyToken } = require('./middleware/auth');
 
 // Definir rutas
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/jobs', jobRoutes);
-app.use('/api/chats', chatRoutes);
+app.use('/api/chats', verifyToken, chatRoutes);
+app.use('/api/proposals', proposalRoutes);
+app.use('/api/contracts', contractRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/saved-jobs', savedJobRoutes);
+app.use('/api/recommendations', recommendationRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/attachments', attachmentRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/reports', reportRoutes);
 
 // Ruta para obtener categorías
 app.get('/api/categories', async (req, res) => {
@@ -72,7 +97,22 @@ const io = new Server(server, {
 const { initSocket } = require('./controllers/socket.controller');
 initSocket(io);
 
-// Datos iniciales para categorías y habilidades
+// Cambios del esquema en tablas existentes (sync solo crea las que faltan)
+const { runMigrations } = require('./utils/migrations');
+
+// Índices de búsqueda de texto completo
+const { ensureSearchIndexes } = require('./utils/searchIndex');
+
+// Organizaciones personales de los clientes
+const { ensurePersonalOrganizations } = require('./utils/organizations');
+
+// Administradores indicados en ADMIN_EMAILS
+const { ensureAdminUsers } = require('./utils/moderation');
+
+// Resúmenes periódicos de notificaciones por correo
+const { scheduleEmailDigests } = require('./controllers/notification.controller');
+
+// Datos iniciales para categorías y habilidades (después se gestionan desde el panel de administración)
 const initialCategories = [
   'Desarrollo Web', 'Diseño UX/UI', 'Marketing Digital', 'Redacción y Traducción',
   'Diseño Gráfico', 'Video y Animación', 'Audio y Música', 'Programación y Tecnología',
@@ -93,23 +133,28 @@ const initialSkills = [
 // Inicialización de datos
 const initializeData = async () => {
   try {
-    // Insertar categorías iniciales si no existen
-    for (const categoryName of initialCategories) {
-      await Category.findOrCreate({
-        where: { name: categoryName },
-        defaults: { name: categoryName }
-      });
+    // Insertar las categorías iniciales solo en una base de datos vacía,
+    // para no volver a crear las que un administrador haya eliminado
+    if (await Category.count() === 0) {
+      for (const categoryName of initialCategories) {
+        await Category.findOrCreate({
+          where: { name: categoryName },
+          defaults: { name: categoryName }
+        });
+      }
+      console.log('Categorías inicializadas correctamente');
     }
-    console.log('Categorías inicializadas correctamente');
-
-    // Insertar habilidades iniciales si no existen
-    for (const skillName of initialSkills) {
-      await Skill.findOrCreate({
-        where: { name: skillName },
-        defaults: { name: skillName }
-      });
+    
+    // Insertar las habilidades iniciales (mismo criterio que las categorías)
+    if (await Skill.count() === 0) {
+      for (const skillName of initialSkills) {
+        await Skill.findOrCreate({
+          where: { name: skillName },
+          defaults: { name: skillName }
+        });
+      }
+      console.log('Habilidades inicializadas correctamente');
     }
-    console.log('Habilidades inicializadas correctamente');
   } catch (error) {
     console.error('Error al inicializar datos:', error);
   }
@@ -122,10 +167,15 @@ const startServer = async () => {
     const isConnected = await testConnection();
     
     if (isConnected) {
-      // Sincronizar modelos con la base de datos
+      // Actualizar las tablas existentes y crear las que falten
+      await runMigrations();
       await sequelize.sync({ force: false });
       console.log('Modelos sincronizados con la base de datos.');
       
+      await ensureSearchIndexes();
+      await ensurePersonalOrganizations();
+      await ensureAdminUsers();
+      
       // Inicializar datos
       await initializeData();
       
@@ -133,6 +183,8 @@ const startServer = async () => {
       server.listen(PORT, () => {
         console.log(`Servidor iniciado en el puerto ${PORT}`);
       });
+      
+      scheduleEmailDigests();
     } else {
       console.error('No se pudo iniciar el servidor debido a errores de conexión a la DB.');
       process.exit(1);
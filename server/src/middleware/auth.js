@@ -1,6 +1,7 @@
 
-const jwt = require('jsonwebtoken');
-const { User } = require('../models');
+const { Organization } = require('../models');
+const { verifyAccessToken } = require('../utils/sessionTokens');
+const { hasPermission, findMembership, findDefaultOrganizationId } = require('../utils/organizations');
 
 /**
  * Middleware para verificar token JWT
@@ -18,30 +19,21 @@ exports.verifyToken = async (req, res, next) => {
     
     const token = authHeader.split(' ')[1];
     
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
-      
-      // Buscar usuario en la base de datos
-      const user = await User.findByPk(decoded.id);
-      
-      if (!user) {
-        return res.status(401).json({
-          success: false,
-          message: 'Usuario no encontrado'
-        });
-      }
-      
-      // Añadir usuario al objeto request
-      req.user = user;
-      next();
-      
-    } catch (error) {
+    // Verificar el token y que su sesión no se haya cerrado
+    const auth = await verifyAccessToken(token);
+    
+    if (!auth) {
       return res.status(401).json({
         success: false,
         message: 'Token inválido o expirado'
       });
     }
     
+    // Añadir usuario y sesión al objeto request
+    req.user = auth.user;
+    req.authSession = auth.session;
+    next();
+    
   } catch (error) {
     console.error('Error en middleware de autenticación:', error);
     return res.status(500).json({
@@ -52,17 +44,90 @@ exports.verifyToken = async (req, res, next) => {
 };
 
 /**
- * Middleware para verificar permisos de cliente
+ * Middleware de autenticación opcional para las rutas públicas
+ * Si llega un token válido añade el usuario (para personalizar la respuesta); si no, continúa sin él
+ */
+exports.optionalAuth = async (req, res, next) => {
+  try {
+    const authHeader = req.headers.authorization;
+    
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      const auth = await verifyAccessToken(authHeader.split(' ')[1]);
+      if (auth) {
+        req.user = auth.user;
+        req.authSession = auth.session;
+      }
+    }
+    
+    next();
+    
+  } catch (error) {
+    console.error('Error en middleware de autenticación opcional:', error);
+    next();
+  }
+};
+
+/**
+ * Middleware para verificar si el usuario es administrador
  */
-exports.isClient = (req, res, next) => {
-  if (req.user && req.user.role === 'client') {
-    return next();
+exports.isAdmin = (req, res, next) => {
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({
+      success: false,
+      message: 'Acceso denegado. Solo para administradores.'
+    });
   }
   
-  return res.status(403).json({
-    success: false,
-    message: 'Acceso denegado. Se requiere rol de cliente.'
-  });
+  next();
+};
+
+/**
+ * Middleware para verificar un permiso en una organización (ej: 'jobs:manage')
+ * La organización se toma de la ruta (:organizationId) o del cuerpo de la petición;
+ * si no se indica, se usa la primera organización del usuario con ese permiso
+ */
+exports.requireOrganizationPermission = (permission) => async (req, res, next) => {
+  try {
+    const organizationId = req.params.organizationId
+      || (req.body && req.body.organizationId)
+      || await findDefaultOrganizationId(req.user.id, permission);
+    
+    if (!organizationId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Acceso denegado. Necesitas pertenecer a una organización.'
+      });
+    }
+    
+    const membership = await findMembership(organizationId, req.user.id, {
+      include: [{ model: Organization, as: 'organization' }]
+    });
+    
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organización no encontrada'
+      });
+    }
+    
+    if (!hasPermission(membership.role, permission)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Acceso denegado. Tu rol en la organización no lo permite.'
+      });
+    }
+    
+    req.organization = membership.organization;
+    req.membership = membership;
+    next();
+    
+  } catch (error) {
+    console.error('Error en middleware de organización:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor'
+    });
+  }
 };
 
 /**
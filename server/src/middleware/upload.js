@@ -0,0 +1,72 @@
+const multer = require('multer');
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+const { ATTACHMENT_DIR } = require('../utils/attachmentStorage');
+
+// Límites de los archivos adjuntos
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_FILES_PER_UPLOAD = 5;
+
+// Extensiones permitidas y los tipos MIME que se aceptan para cada una
+const ALLOWED_TYPES = {
+  '.pdf': ['application/pdf'],
+  '.jpg': ['image/jpeg'],
+  '.jpeg': ['image/jpeg'],
+  '.png': ['image/png'],
+  '.gif': ['image/gif'],
+  '.webp': ['image/webp'],
+  '.txt': ['text/plain'],
+  '.csv': ['text/csv', 'application/vnd.ms-excel'],
+  '.doc': ['application/msword'],
+  '.docx': ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  '.xls': ['application/vnd.ms-excel'],
+  '.xlsx': ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  '.ppt': ['application/vnd.ms-powerpoint'],
+  '.pptx': ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  '.zip': ['application/zip', 'application/x-zip-compressed']
+};
+
+// Mensajes para los errores de multer
+const UPLOAD_ERROR_MESSAGES = {
+  LIMIT_FILE_SIZE: 'Cada archivo puede ocupar como máximo 10MB',
+  LIMIT_FILE_COUNT: `Solo se pueden subir ${MAX_FILES_PER_UPLOAD} archivos a la vez`,
+  LIMIT_UNEXPECTED_FILE: `Solo se pueden subir ${MAX_FILES_PER_UPLOAD} archivos a la vez en el campo "files"`
+};
+
+const storage = multer.diskStorage({
+  destination: function(req, file, cb) {
+    cb(null, ATTACHMENT_DIR);
+  },
+  filename: function(req, file, cb) {
+    cb(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+  }
+});
+
+const upload = multer({
+  storage: storage,
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES_PER_UPLOAD },
+  fileFilter: function(req, file, cb) {
+    const allowedMimeTypes = ALLOWED_TYPES[path.extname(file.originalname).toLowerCase()];
+    if (allowedMimeTypes && allowedMimeTypes.includes(file.mimetype)) {
+      return cb(null, true);
+    }
+    cb(new Error(`Tipo de archivo no permitido: ${file.originalname}`));
+  }
+});
+
+/**
+ * Middleware para recibir archivos adjuntos en el campo `files`
+ * Los errores de validación se devuelven como 400 con el formato habitual de la API
+ */
+exports.uploadAttachments = (req, res, next) => {
+  upload.array('files', MAX_FILES_PER_UPLOAD)(req, res, (error) => {
+    if (!error) return next();
+    
+    return res.status(400).json({
+      success: false,
+      message: error instanceof multer.MulterError
+        ? UPLOAD_ERROR_MESSAGES[error.code] || error.message
+        : error.message
+    });
+  });
+};
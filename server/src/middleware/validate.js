@@ -0,0 +1,41 @@
+const { validateRequestBody, validateRequestQuery } = require('../utils/apiContract');
+
+/**
+ * Middleware para validar una parte de la petición con el contrato de la API
+ * Solo comprueba la forma de los datos (campos obligatorios, tipos y longitudes);
+ * las reglas de negocio siguen en cada controlador
+ * @param {string} endpointName - Nombre del endpoint en el contrato (ej: 'jobs.createJob')
+ */
+const validateRequest = (validatePart, part) => (endpointName) => async (req, res, next) => {
+  try {
+    const validationError = await validatePart(endpointName, req[part]);
+    
+    if (validationError) {
+      return res.status(validationError.status).json({
+        success: false,
+        message: validationError.error,
+        errors: validationError.errors
+      });
+    }
+    
+    next();
+    
+  } catch (error) {
+    console.error('Error al validar la petición:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error al validar la petición',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Validar el cuerpo de la petición
+ */
+exports.validateBody = validateRequest(validateRequestBody, 'body');
+
+/**
+ * Validar la query de la petición (ej: ids de los cursores de paginación)
+ */
+exports.validateQuery = validateRequest(validateRequestQuery, 'query');
@@ -0,0 +1,19 @@
+/**
+ * Chat y autor de cada mensaje (los mensajes del sistema no tienen autor)
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Messages', 'chatId', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: { model: 'Chats', key: 'id' },
+    onUpdate: 'CASCADE',
+    onDelete: 'CASCADE'
+  });
+  await addColumnIfMissing('Messages', 'userId', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: { model: 'Users', key: 'id' },
+    onUpdate: 'CASCADE',
+    onDelete: 'CASCADE'
+  });
+};
@@ -0,0 +1,12 @@
+/**
+ * Freelancer contratado en cada trabajo
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Jobs', 'assignedTo', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: { model: 'Users', key: 'id' },
+    onUpdate: 'CASCADE',
+    onDelete: 'SET NULL'
+  });
+};
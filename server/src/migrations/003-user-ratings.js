@@ -0,0 +1,13 @@
+/**
+ * Reputación de los usuarios (media y número de reseñas visibles)
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Users', 'ratingAverage', {
+    type: DataTypes.FLOAT,
+    defaultValue: 0
+  });
+  await addColumnIfMissing('Users', 'ratingCount', {
+    type: DataTypes.INTEGER,
+    defaultValue: 0
+  });
+};
@@ -0,0 +1,9 @@
+/**
+ * Preferencias de notificación por tipo (vacío: se usa el canal por defecto)
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Users', 'notificationPreferences', {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  });
+};
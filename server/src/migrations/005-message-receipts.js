@@ -0,0 +1,32 @@
+/**
+ * Recibos de entrega y lectura por destinatario en lugar de la marca `read` del mensaje
+ * Los mensajes existentes reciben un recibo por destinatario: los marcados como leídos
+ * pasan a entregados y leídos (en su última actualización) y el resto quedan pendientes
+ */
+exports.up = async ({ sequelize, queryInterface, tableExists, removeColumnIfExists }) => {
+  if (!(await tableExists('Messages'))) return;
+
+  const columns = await queryInterface.describeTable('Messages');
+  if (!columns.read) return;
+
+  if (await tableExists('ChatParticipants')) {
+    await sequelize.models.MessageReceipt.sync();
+    await sequelize.query(`
+      INSERT INTO "MessageReceipts" ("id", "messageId", "userId", "deliveredAt", "readAt", "createdAt", "updatedAt")
+      SELECT
+        md5(m."id"::text || p."userId"::text)::uuid,
+        m."id",
+        p."userId",
+        CASE WHEN m."read" THEN m."updatedAt" END,
+        CASE WHEN m."read" THEN m."updatedAt" END,
+        m."createdAt",
+        NOW()
+      FROM "Messages" m
+      JOIN "ChatParticipants" p ON p."chatId" = m."chatId"
+      WHERE m."userId" IS NOT NULL AND p."userId" <> m."userId"
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  await removeColumnIfExists('Messages', 'read');
+};
@@ -0,0 +1,13 @@
+/**
+ * Edición y eliminación para todos de los mensajes
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Messages', 'editedAt', {
+    type: DataTypes.DATE,
+    allowNull: true
+  });
+  await addColumnIfMissing('Messages', 'deletedAt', {
+    type: DataTypes.DATE,
+    allowNull: true
+  });
+};
@@ -0,0 +1,21 @@
+/**
+ * Verificación en dos pasos (TOTP y códigos de recuperación)
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Users', 'twoFactorEnabled', {
+    type: DataTypes.BOOLEAN,
+    defaultValue: false
+  });
+  await addColumnIfMissing('Users', 'twoFactorSecret', {
+    type: DataTypes.STRING,
+    allowNull: true
+  });
+  await addColumnIfMissing('Users', 'twoFactorLastUsedStep', {
+    type: DataTypes.BIGINT,
+    allowNull: true
+  });
+  await addColumnIfMissing('Users', 'twoFactorRecoveryCodes', {
+    type: DataTypes.ARRAY(DataTypes.STRING),
+    defaultValue: []
+  });
+};
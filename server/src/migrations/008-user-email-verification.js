@@ -0,0 +1,10 @@
+/**
+ * Confirmación del correo
+ * Las cuentas existentes quedan sin confirmar: pueden pedir un enlace de confirmación nuevo
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing }) => {
+  await addColumnIfMissing('Users', 'emailVerifiedAt', {
+    type: DataTypes.DATE,
+    allowNull: true
+  });
+};
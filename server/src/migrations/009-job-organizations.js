@@ -0,0 +1,17 @@
+/**
+ * Organización propietaria de cada trabajo
+ * La tabla de organizaciones se crea antes para poder referenciarla; los trabajos
+ * existentes pasan a sus organizaciones personales al arrancar (ensurePersonalOrganizations)
+ */
+exports.up = async ({ sequelize, DataTypes, tableExists, addColumnIfMissing }) => {
+  if (!(await tableExists('Jobs'))) return;
+
+  await sequelize.models.Organization.sync();
+  await addColumnIfMissing('Jobs', 'organizationId', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: { model: 'Organizations', key: 'id' },
+    onUpdate: 'CASCADE',
+    onDelete: 'CASCADE'
+  });
+};
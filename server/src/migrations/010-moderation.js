@@ -0,0 +1,44 @@
+/**
+ * Moderación: rol de administrador, suspensión de cuentas y revisión de trabajos
+ * Los trabajos publicados antes de la moderación se dan por aprobados para no llenar la cola
+ */
+exports.up = async ({ sequelize, DataTypes, addColumnIfMissing, addEnumValue }) => {
+  await addEnumValue('Users', 'role', 'admin');
+
+  await addColumnIfMissing('Users', 'accountStatus', {
+    type: DataTypes.ENUM('active', 'suspended', 'banned'),
+    defaultValue: 'active'
+  });
+  await addColumnIfMissing('Users', 'suspendedUntil', {
+    type: DataTypes.DATE,
+    allowNull: true
+  });
+  await addColumnIfMissing('Users', 'moderationReason', {
+    type: DataTypes.TEXT,
+    allowNull: true
+  });
+
+  const addedModerationStatus = await addColumnIfMissing('Jobs', 'moderationStatus', {
+    type: DataTypes.ENUM('pending', 'approved', 'removed'),
+    defaultValue: 'pending'
+  });
+  if (addedModerationStatus) {
+    await sequelize.query(`UPDATE "Jobs" SET "moderationStatus" = 'approved'`);
+  }
+
+  await addColumnIfMissing('Jobs', 'moderationNote', {
+    type: DataTypes.TEXT,
+    allowNull: true
+  });
+  await addColumnIfMissing('Jobs', 'moderatedAt', {
+    type: DataTypes.DATE,
+    allowNull: true
+  });
+  await addColumnIfMissing('Jobs', 'moderatedBy', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: { model: 'Users', key: 'id' },
+    onUpdate: 'CASCADE',
+    onDelete: 'SET NULL'
+  });
+};
@@ -0,0 +1,21 @@
+/**
+ * Nota y lista de cada trabajo guardado
+ * SavedJobs ya existía como tabla intermedia sin más columnas; la tabla de listas
+ * se crea antes para poder referenciarla
+ */
+exports.up = async ({ sequelize, DataTypes, tableExists, addColumnIfMissing }) => {
+  if (!(await tableExists('SavedJobs'))) return;
+
+  await sequelize.models.SavedJobCollection.sync();
+  await addColumnIfMissing('SavedJobs', 'note', {
+    type: DataTypes.TEXT,
+    allowNull: true
+  });
+  await addColumnIfMissing('SavedJobs', 'collectionId', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: { model: 'SavedJobCollections', key: 'id' },
+    onUpdate: 'CASCADE',
+    onDelete: 'SET NULL'
+  });
+};
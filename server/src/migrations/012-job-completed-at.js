@@ -0,0 +1,26 @@
+/**
+ * Fecha en que se completó cada trabajo (inicio del plazo para las reseñas)
+ * En los ya completados se toma del historial de estados o, si no hay, de su última actualización
+ */
+exports.up = async ({ sequelize, DataTypes, tableExists, addColumnIfMissing }) => {
+  const added = await addColumnIfMissing('Jobs', 'completedAt', {
+    type: DataTypes.DATE,
+    allowNull: true
+  });
+  if (!added) return;
+
+  if (await tableExists('JobStatusChanges')) {
+    await sequelize.query(`
+      UPDATE "Jobs" j SET "completedAt" = (
+        SELECT MAX(c."createdAt") FROM "JobStatusChanges" c
+        WHERE c."jobId" = j."id" AND c."toStatus" = 'completed'
+      )
+      WHERE j."status" = 'completed'
+    `);
+  }
+
+  await sequelize.query(`
+    UPDATE "Jobs" SET "completedAt" = "updatedAt"
+    WHERE "status" = 'completed' AND "completedAt" IS NULL
+  `);
+};
@@ -0,0 +1,11 @@
+/**
+ * Devoluciones de hitos: estado "refunded" y nota con la resolución de la devolución o la disputa
+ */
+exports.up = async ({ DataTypes, addColumnIfMissing, addEnumValue }) => {
+  await addEnumValue('Milestones', 'status', 'refunded');
+
+  await addColumnIfMissing('Milestones', 'resolutionNote', {
+    type: DataTypes.TEXT,
+    allowNull: true
+  });
+};
@@ -0,0 +1,15 @@
+/**
+ * Clave de idempotencia de comentarios, respuestas y mensajes
+ * Es única por usuario para que un reintento no duplique el registro
+ */
+exports.up = async ({ queryInterface, DataTypes, addColumnIfMissing }) => {
+  for (const table of ['Comments', 'Replies', 'Messages']) {
+    const added = await addColumnIfMissing(table, 'idempotencyKey', {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    });
+    if (added) {
+      await queryInterface.addIndex(table, ['userId', 'idempotencyKey'], { unique: true });
+    }
+  }
+};
@@ -0,0 +1,15 @@
+/**
+ * Un contrato por cada vez que se asigna un trabajo
+ * Al reabrir un trabajo su contrato se cancela pero se conserva, así que la restricción
+ * única de jobId pasa a cubrir solo los contratos activos
+ */
+exports.up = async ({ sequelize, queryInterface, tableExists }) => {
+  if (!(await tableExists('Contracts'))) return;
+
+  await sequelize.query('ALTER TABLE "Contracts" DROP CONSTRAINT IF EXISTS "Contracts_jobId_key"');
+  await queryInterface.addIndex('Contracts', ['jobId'], {
+    name: 'contracts_job_id_active',
+    unique: true,
+    where: { status: 'active' }
+  });
+};
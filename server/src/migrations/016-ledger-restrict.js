@@ -0,0 +1,17 @@
+/**
+ * Los apuntes del libro contable ya no se borran en cascada con su contrato o hito
+ * Se rehacen las claves foráneas con ON DELETE RESTRICT
+ */
+exports.up = async ({ sequelize, tableExists }) => {
+  if (!(await tableExists('LedgerEntries'))) return;
+
+  const references = [['contractId', 'Contracts'], ['milestoneId', 'Milestones']];
+  for (const [column, table] of references) {
+    const constraint = `LedgerEntries_${column}_fkey`;
+    await sequelize.query(`ALTER TABLE "LedgerEntries" DROP CONSTRAINT IF EXISTS "${constraint}"`);
+    await sequelize.query(`
+      ALTER TABLE "LedgerEntries" ADD CONSTRAINT "${constraint}"
+      FOREIGN KEY ("${column}") REFERENCES "${table}" ("id") ON UPDATE CASCADE ON DELETE RESTRICT
+    `);
+  }
+};
@@ -0,0 +1,13 @@
+/**
+ * La clave de idempotencia pasa a ser única por usuario y por chat, trabajo o comentario
+ * Así un reintento con una clave ya usada en otro sitio no devuelve un registro ajeno
+ */
+exports.up = async ({ sequelize, queryInterface, tableExists }) => {
+  const scopes = [['Comments', 'jobId'], ['Replies', 'commentId'], ['Messages', 'chatId']];
+  for (const [table, scope] of scopes) {
+    if (!(await tableExists(table))) continue;
+
+    await sequelize.query(`DROP INDEX IF EXISTS "${table.toLowerCase()}_user_id_idempotency_key"`);
+    await queryInterface.addIndex(table, ['userId', scope, 'idempotencyKey'], { unique: true });
+  }
+};
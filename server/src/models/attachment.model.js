@@ -0,0 +1,84 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Attachment = sequelize.define('Attachment', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  originalName: {
+    type: DataTypes.STRING, // Nombre del archivo tal y como lo subió el usuario
+    allowNull: false
+  },
+  fileName: {
+    type: DataTypes.STRING, // Nombre con el que se guarda en uploads/attachments
+    allowNull: false
+  },
+  mimeType: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  size: {
+    type: DataTypes.INTEGER, // Tamaño en bytes
+    allowNull: false
+  },
+  thumbnailName: {
+    type: DataTypes.STRING, // Miniatura en uploads/attachments/thumbnails (solo imágenes)
+    allowNull: true
+  },
+  // Cada archivo pertenece a uno solo de estos elementos
+  jobId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'Jobs',
+      key: 'id'
+    }
+  },
+  proposalId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'Proposals',
+      key: 'id'
+    }
+  },
+  commentId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'Comments',
+      key: 'id'
+    }
+  },
+  milestoneId: {
+    type: DataTypes.UUID, // Entregables de un hito
+    allowNull: true,
+    references: {
+      model: 'Milestones',
+      key: 'id'
+    }
+  },
+  userId: {
+    type: DataTypes.UUID, // Usuario que subió el archivo
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    { fields: ['jobId'] },
+    { fields: ['proposalId'] },
+    { fields: ['commentId'] },
+    { fields: ['milestoneId'] }
+  ]
+});
+
+// Datos del archivo que se devuelven al cliente (el nombre en disco no se expone)
+Attachment.PUBLIC_ATTRIBUTES = ['id', 'originalName', 'mimeType', 'size', 'thumbnailName', 'userId', 'createdAt'];
+
+module.exports = Attachment;
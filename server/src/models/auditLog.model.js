@@ -0,0 +1,51 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+/**
+ * Registro de las acciones de los administradores
+ * Las entradas no se modifican ni se borran
+ */
+const AuditLog = sequelize.define('AuditLog', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  action: {
+    type: DataTypes.STRING(64), // Ej: 'user.suspend', 'job.remove', 'category.rename'
+    allowNull: false
+  },
+  targetType: {
+    type: DataTypes.STRING(32), // user, job, report, category, skill
+    allowNull: false
+  },
+  targetId: {
+    type: DataTypes.STRING, // UUID o id numérico (categorías y habilidades)
+    allowNull: false
+  },
+  details: {
+    type: DataTypes.JSONB, // Motivo, valores anteriores y nuevos...
+    defaultValue: {}
+  },
+  adminId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    {
+      fields: ['createdAt']
+    },
+    {
+      fields: ['targetType', 'targetId']
+    }
+  ]
+});
+
+module.exports = AuditLog;
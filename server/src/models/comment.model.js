@@ -11,9 +11,19 @@ const Comment = sequelize.define('Comment', {
   content: {
     type: DataTypes.TEXT,
     allowNull: false
+  },
+  idempotencyKey: {
+    type: DataTypes.STRING(64), // Clave generada en el cliente para no duplicar los reintentos
+    allowNull: true
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['userId', 'jobId', 'idempotencyKey']
+    }
+  ]
 });
 
 module.exports = Comment;
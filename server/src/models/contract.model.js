@@ -0,0 +1,67 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Contract = sequelize.define('Contract', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  title: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  totalAmount: {
+    type: DataTypes.FLOAT, // Importe acordado en la oferta aceptada
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.ENUM('active', 'completed', 'cancelled'),
+    defaultValue: 'active'
+  },
+  jobId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Jobs',
+      key: 'id'
+    }
+  },
+  proposalId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'Proposals',
+      key: 'id'
+    }
+  },
+  clientId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  freelancerId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      // Al reabrir un trabajo su contrato se cancela y se conserva: solo puede haber uno activo
+      name: 'contracts_job_id_active',
+      unique: true,
+      fields: ['jobId'],
+      where: { status: 'active' }
+    }
+  ]
+});
+
+module.exports = Contract;
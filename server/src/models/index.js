@@ -8,6 +8,27 @@ const Chat = require('./chat.model');
 const Message = require('./message.model');
 const Category = require('./category.model');
 const Skill = require('./skill.model');
+const Proposal = require('./proposal.model');
+const Contract = require('./contract.model');
+const Milestone = require('./milestone.model');
+const LedgerEntry = require('./ledgerEntry.model');
+const Review = require('./review.model');
+const SavedSearch = require('./savedSearch.model');
+const SavedJob = require('./savedJob.model');
+const SavedJobCollection = require('./savedJobCollection.model');
+const Notification = require('./notification.model');
+const Attachment = require('./attachment.model');
+const MessageReceipt = require('./messageReceipt.model');
+const MessageEdit = require('./messageEdit.model');
+const MessageReaction = require('./messageReaction.model');
+const Session = require('./session.model');
+const Organization = require('./organization.model');
+const OrganizationMember = require('./organizationMember.model');
+const OrganizationInvitation = require('./organizationInvitation.model');
+const Report = require('./report.model');
+const AuditLog = require('./auditLog.model');
+const UserBlock = require('./userBlock.model');
+const JobStatusChange = require('./jobStatusChange.model');
 
 // Definir las relaciones entre los modelos
 // Users - Jobs (Un usuario puede tener muchos trabajos)
@@ -34,9 +55,146 @@ Reply.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 User.belongsToMany(Job, { through: 'JobLikes', as: 'likedJobs', foreignKey: 'userId' });
 Job.belongsToMany(User, { through: 'JobLikes', as: 'likedBy', foreignKey: 'jobId' });
 
-// Users - Jobs (Saved) (Muchos usuarios pueden guardar muchos trabajos)
-User.belongsToMany(Job, { through: 'SavedJobs', as: 'savedJobs', foreignKey: 'userId' });
-Job.belongsToMany(User, { through: 'SavedJobs', as: 'savedBy', foreignKey: 'jobId' });
+// Users - Jobs (Saved) (Muchos usuarios pueden guardar muchos trabajos, con nota y lista)
+User.belongsToMany(Job, { through: SavedJob, as: 'savedJobs', foreignKey: 'userId' });
+Job.belongsToMany(User, { through: SavedJob, as: 'savedBy', foreignKey: 'jobId' });
+SavedJob.belongsTo(Job, { foreignKey: 'jobId', as: 'job' });
+
+// Users - SavedJobCollections (Listas con nombre para organizar los guardados)
+User.hasMany(SavedJobCollection, { foreignKey: 'userId', as: 'savedJobCollections', onDelete: 'CASCADE' });
+SavedJobCollection.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+SavedJobCollection.hasMany(SavedJob, { foreignKey: 'collectionId', as: 'savedJobs', onDelete: 'SET NULL' });
+SavedJob.belongsTo(SavedJobCollection, { foreignKey: 'collectionId', as: 'collection' });
+
+// Chats - Users (Muchos usuarios participan en muchos chats)
+Chat.belongsToMany(User, { through: 'ChatParticipants', as: 'participants', foreignKey: 'chatId' });
+User.belongsToMany(Chat, { through: 'ChatParticipants', as: 'chats', foreignKey: 'userId' });
+
+// Chats - Messages (Un chat puede tener muchos mensajes)
+Chat.hasMany(Message, { foreignKey: 'chatId', as: 'messages', onDelete: 'CASCADE' });
+Message.belongsTo(Chat, { foreignKey: 'chatId', as: 'chat' });
+
+// Users - Messages (Un usuario puede enviar muchos mensajes; los mensajes del sistema no tienen usuario)
+User.hasMany(Message, { foreignKey: 'userId', as: 'messages', onDelete: 'CASCADE' });
+Message.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Messages - MessageReceipts (Estado de entrega y lectura de cada mensaje para cada destinatario)
+Message.hasMany(MessageReceipt, { foreignKey: 'messageId', as: 'receipts', onDelete: 'CASCADE' });
+MessageReceipt.belongsTo(Message, { foreignKey: 'messageId', as: 'message' });
+User.hasMany(MessageReceipt, { foreignKey: 'userId', as: 'messageReceipts', onDelete: 'CASCADE' });
+MessageReceipt.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Messages - MessageEdits (Versiones anteriores de un mensaje editado)
+Message.hasMany(MessageEdit, { foreignKey: 'messageId', as: 'edits', onDelete: 'CASCADE' });
+MessageEdit.belongsTo(Message, { foreignKey: 'messageId', as: 'message' });
+
+// Messages - MessageReactions (Reacciones con emoji de los participantes)
+Message.hasMany(MessageReaction, { foreignKey: 'messageId', as: 'reactions', onDelete: 'CASCADE' });
+MessageReaction.belongsTo(Message, { foreignKey: 'messageId', as: 'message' });
+User.hasMany(MessageReaction, { foreignKey: 'userId', as: 'messageReactions', onDelete: 'CASCADE' });
+MessageReaction.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Jobs - Proposals (Un trabajo puede recibir muchas ofertas)
+Job.hasMany(Proposal, { foreignKey: 'jobId', as: 'proposals', onDelete: 'CASCADE' });
+Proposal.belongsTo(Job, { foreignKey: 'jobId', as: 'job' });
+
+// Users - Proposals (Un freelancer puede enviar muchas ofertas)
+User.hasMany(Proposal, { foreignKey: 'userId', as: 'proposals', onDelete: 'CASCADE' });
+Proposal.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Jobs - Users (Freelancer asignado al trabajo)
+Job.belongsTo(User, { foreignKey: 'assignedTo', as: 'assignee' });
+
+// Jobs - Contracts (Un contrato por cada vez que se asigna el trabajo; solo uno activo)
+Job.hasMany(Contract, { foreignKey: 'jobId', as: 'contracts', onDelete: 'CASCADE' });
+Contract.belongsTo(Job, { foreignKey: 'jobId', as: 'job' });
+Contract.belongsTo(Proposal, { foreignKey: 'proposalId', as: 'proposal' });
+
+// Users - Contracts (Cliente y freelancer del contrato)
+Contract.belongsTo(User, { foreignKey: 'clientId', as: 'client' });
+Contract.belongsTo(User, { foreignKey: 'freelancerId', as: 'freelancer' });
+
+// Contracts - Milestones (Un contrato se divide en hitos de pago)
+Contract.hasMany(Milestone, { foreignKey: 'contractId', as: 'milestones', onDelete: 'CASCADE' });
+Milestone.belongsTo(Contract, { foreignKey: 'contractId', as: 'contract' });
+
+// Contracts - LedgerEntries (Apuntes contables del depósito en garantía)
+// Los apuntes nunca se borran: impiden eliminar el contrato o el hito al que pertenecen
+Contract.hasMany(LedgerEntry, { foreignKey: 'contractId', as: 'ledgerEntries', onDelete: 'RESTRICT' });
+LedgerEntry.belongsTo(Contract, { foreignKey: 'contractId', as: 'contract' });
+Milestone.hasMany(LedgerEntry, { foreignKey: 'milestoneId', as: 'ledgerEntries', onDelete: 'RESTRICT' });
+LedgerEntry.belongsTo(Milestone, { foreignKey: 'milestoneId', as: 'milestone' });
+
+// Jobs - Reviews (Cada parte de un trabajo completado puede dejar una reseña)
+Job.hasMany(Review, { foreignKey: 'jobId', as: 'reviews', onDelete: 'CASCADE' });
+Review.belongsTo(Job, { foreignKey: 'jobId', as: 'job' });
+
+// Users - Reviews (Reseñas escritas y recibidas)
+User.hasMany(Review, { foreignKey: 'reviewerId', as: 'writtenReviews', onDelete: 'CASCADE' });
+User.hasMany(Review, { foreignKey: 'revieweeId', as: 'receivedReviews', onDelete: 'CASCADE' });
+Review.belongsTo(User, { foreignKey: 'reviewerId', as: 'reviewer' });
+Review.belongsTo(User, { foreignKey: 'revieweeId', as: 'reviewee' });
+
+// Users - SavedSearches (Un usuario puede guardar muchas búsquedas de trabajos)
+User.hasMany(SavedSearch, { foreignKey: 'userId', as: 'savedSearches', onDelete: 'CASCADE' });
+SavedSearch.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Users - Notifications (Notificaciones recibidas y usuario que las provoca)
+User.hasMany(Notification, { foreignKey: 'userId', as: 'notifications', onDelete: 'CASCADE' });
+Notification.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Notification.belongsTo(User, { foreignKey: 'actorId', as: 'actor' });
+
+// Archivos adjuntos de trabajos, ofertas, comentarios y entregables de hitos
+// (Proposal ya usa `attachments` para los enlaces, por eso el alias es `files`)
+Job.hasMany(Attachment, { foreignKey: 'jobId', as: 'files', onDelete: 'CASCADE' });
+Proposal.hasMany(Attachment, { foreignKey: 'proposalId', as: 'files', onDelete: 'CASCADE' });
+Comment.hasMany(Attachment, { foreignKey: 'commentId', as: 'files', onDelete: 'CASCADE' });
+Milestone.hasMany(Attachment, { foreignKey: 'milestoneId', as: 'files', onDelete: 'CASCADE' });
+Attachment.belongsTo(Job, { foreignKey: 'jobId', as: 'job' });
+Attachment.belongsTo(Proposal, { foreignKey: 'proposalId', as: 'proposal' });
+Attachment.belongsTo(Comment, { foreignKey: 'commentId', as: 'comment' });
+Attachment.belongsTo(Milestone, { foreignKey: 'milestoneId', as: 'milestone' });
+User.hasMany(Attachment, { foreignKey: 'userId', as: 'attachments', onDelete: 'CASCADE' });
+Attachment.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Users - Sessions (Cada dispositivo en el que el usuario ha iniciado sesión)
+User.hasMany(Session, { foreignKey: 'userId', as: 'sessions', onDelete: 'CASCADE' });
+Session.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Organizations - Members (Equipos de clientes con roles)
+Organization.hasMany(OrganizationMember, { foreignKey: 'organizationId', as: 'members', onDelete: 'CASCADE' });
+OrganizationMember.belongsTo(Organization, { foreignKey: 'organizationId', as: 'organization' });
+User.hasMany(OrganizationMember, { foreignKey: 'userId', as: 'memberships', onDelete: 'CASCADE' });
+OrganizationMember.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+// Organizations - Invitations (Invitaciones pendientes por correo o por enlace)
+Organization.hasMany(OrganizationInvitation, { foreignKey: 'organizationId', as: 'invitations', onDelete: 'CASCADE' });
+OrganizationInvitation.belongsTo(Organization, { foreignKey: 'organizationId', as: 'organization' });
+OrganizationInvitation.belongsTo(User, { foreignKey: 'invitedBy', as: 'inviter' });
+
+// Organizations - Jobs (Los trabajos pertenecen a una organización)
+Organization.hasMany(Job, { foreignKey: 'organizationId', as: 'jobs', onDelete: 'CASCADE' });
+Job.belongsTo(Organization, { foreignKey: 'organizationId', as: 'organization' });
+
+// Moderación de trabajos (administrador que revisó el trabajo)
+Job.belongsTo(User, { foreignKey: 'moderatedBy', as: 'moderator' });
+
+// Reports - Users (Quien denuncia y administrador que resuelve)
+User.hasMany(Report, { foreignKey: 'reporterId', as: 'reports', onDelete: 'CASCADE' });
+Report.belongsTo(User, { foreignKey: 'reporterId', as: 'reporter' });
+Report.belongsTo(User, { foreignKey: 'resolvedBy', as: 'resolver' });
+
+// AuditLogs - Users (Administrador que realizó la acción)
+AuditLog.belongsTo(User, { foreignKey: 'adminId', as: 'admin' });
+
+// UserBlocks - Users (Usuarios bloqueados por cada usuario)
+User.hasMany(UserBlock, { foreignKey: 'blockerId', as: 'blocks', onDelete: 'CASCADE' });
+UserBlock.belongsTo(User, { foreignKey: 'blockedId', as: 'blocked', onDelete: 'CASCADE' });
+
+// Jobs - JobStatusChanges (Historial de estados y quién lo cambió)
+Job.hasMany(JobStatusChange, { foreignKey: 'jobId', as: 'statusHistory', onDelete: 'CASCADE' });
+JobStatusChange.belongsTo(Job, { foreignKey: 'jobId', as: 'job' });
+JobStatusChange.belongsTo(User, { foreignKey: 'changedBy', as: 'user' });
 
 // NO ejecutamos sequelize.sync() aquí ya que lo haremos en el archivo principal (index.js)
 
@@ -50,5 +208,26 @@ module.exports = {
   Chat,
   Message,
   Category,
-  Skill
+  Skill,
+  Proposal,
+  Contract,
+  Milestone,
+  LedgerEntry,
+  Review,
+  SavedSearch,
+  SavedJob,
+  SavedJobCollection,
+  Notification,
+  Attachment,
+  MessageReceipt,
+  MessageEdit,
+  MessageReaction,
+  Session,
+  Organization,
+  OrganizationMember,
+  OrganizationInvitation,
+  Report,
+  AuditLog,
+  UserBlock,
+  JobStatusChange
 };
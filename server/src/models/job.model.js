@@ -39,6 +39,46 @@ const Job = sequelize.define('Job', {
       model: 'Users', // Nombre de la tabla en la base de datos
       key: 'id'
     }
+  },
+  organizationId: {
+    type: DataTypes.UUID, // Organización propietaria; userId queda como autor de la publicación
+    allowNull: true,
+    references: {
+      model: 'Organizations',
+      key: 'id'
+    }
+  },
+  assignedTo: {
+    type: DataTypes.UUID, // Freelancer contratado al aceptar una oferta
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  completedAt: {
+    type: DataTypes.DATE, // Cuándo pasó a completado (abre el plazo para las reseñas)
+    allowNull: true
+  },
+  moderationStatus: {
+    type: DataTypes.ENUM('pending', 'approved', 'removed'), // Los trabajos nuevos entran en la cola de moderación
+    defaultValue: 'pending'
+  },
+  moderationNote: {
+    type: DataTypes.TEXT, // Motivo de la retirada o comentario de quien lo revisó
+    allowNull: true
+  },
+  moderatedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  moderatedBy: {
+    type: DataTypes.UUID, // Administrador que lo revisó
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
   }
 }, {
   timestamps: true
@@ -0,0 +1,52 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+/**
+ * Historial de cambios de estado de un trabajo
+ * Las entradas no se modifican; la primera (fromStatus nulo) es la publicación
+ */
+const JobStatusChange = sequelize.define('JobStatusChange', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  jobId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Jobs',
+      key: 'id'
+    }
+  },
+  fromStatus: {
+    type: DataTypes.STRING(32),
+    allowNull: true
+  },
+  toStatus: {
+    type: DataTypes.STRING(32),
+    allowNull: false
+  },
+  reason: {
+    type: DataTypes.TEXT, // Obligatorio al cancelar o devolver el trabajo a abierto
+    allowNull: true
+  },
+  changedBy: {
+    type: DataTypes.UUID, // Usuario que provocó el cambio (al aceptar una oferta, financiar un hito...)
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    {
+      fields: ['jobId', 'createdAt']
+    }
+  ]
+});
+
+module.exports = JobStatusChange;
@@ -0,0 +1,60 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+/**
+ * Apunte del libro contable de doble entrada
+ * Cada movimiento (transactionId) tiene al menos un cargo y un abono
+ * cuyos importes suman lo mismo, de forma que los saldos siempre cuadran
+ */
+const LedgerEntry = sequelize.define('LedgerEntry', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  transactionId: {
+    type: DataTypes.UUID, // Agrupa los apuntes de un mismo movimiento
+    allowNull: false
+  },
+  account: {
+    type: DataTypes.STRING, // Ej: "client:<userId>", "escrow:<contractId>", "freelancer:<userId>"
+    allowNull: false
+  },
+  direction: {
+    type: DataTypes.ENUM('debit', 'credit'),
+    allowNull: false
+  },
+  amount: {
+    type: DataTypes.INTEGER, // Importe en céntimos para evitar errores de redondeo
+    allowNull: false
+  },
+  description: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  contractId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Contracts',
+      key: 'id'
+    }
+  },
+  milestoneId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'Milestones',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { fields: ['account'] },
+    { fields: ['transactionId'] }
+  ]
+});
+
+module.exports = LedgerEntry;
@@ -12,12 +12,29 @@ const Message = sequelize.define('Message', {
     type: DataTypes.TEXT,
     allowNull: false
   },
-  read: {
-    type: DataTypes.BOOLEAN,
-    defaultValue: false
+  editedAt: {
+    type: DataTypes.DATE, // Última edición (las versiones anteriores se guardan en MessageEdit)
+    allowNull: true
+  },
+  deletedAt: {
+    type: DataTypes.DATE, // Eliminado para todos: se conserva el mensaje sin contenido
+    allowNull: true
+  },
+  idempotencyKey: {
+    type: DataTypes.STRING(64), // Clave generada en el cliente para no duplicar los reintentos
+    allowNull: true
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['userId', 'chatId', 'idempotencyKey']
+    }
+  ]
 });
 
+// Tiempo durante el que el remitente puede eliminar un mensaje para todos
+Message.DELETE_WINDOW_MS = 60 * 60 * 1000;
+
 module.exports = Message;
@@ -0,0 +1,31 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const MessageEdit = sequelize.define('MessageEdit', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  content: {
+    type: DataTypes.TEXT, // Contenido del mensaje antes de la edición
+    allowNull: false
+  },
+  messageId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Messages',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['messageId', 'createdAt']
+    }
+  ]
+});
+
+module.exports = MessageEdit;
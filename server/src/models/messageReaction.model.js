@@ -0,0 +1,43 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const MessageReaction = sequelize.define('MessageReaction', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  emoji: {
+    type: DataTypes.STRING(16),
+    allowNull: false
+  },
+  messageId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Messages',
+      key: 'id'
+    }
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['messageId', 'userId', 'emoji']
+    }
+  ]
+});
+
+// Reacciones disponibles (deben coincidir con las del cliente)
+MessageReaction.EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+module.exports = MessageReaction;
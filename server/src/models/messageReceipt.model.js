@@ -0,0 +1,47 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const MessageReceipt = sequelize.define('MessageReceipt', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  deliveredAt: {
+    type: DataTypes.DATE, // Cuándo llegó el mensaje a alguna conexión del destinatario
+    allowNull: true
+  },
+  readAt: {
+    type: DataTypes.DATE, // Cuándo lo leyó el destinatario
+    allowNull: true
+  },
+  messageId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Messages',
+      key: 'id'
+    }
+  },
+  userId: {
+    type: DataTypes.UUID, // Destinatario (todos los participantes salvo el remitente)
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['messageId', 'userId']
+    },
+    {
+      fields: ['userId', 'readAt']
+    }
+  ]
+});
+
+module.exports = MessageReceipt;
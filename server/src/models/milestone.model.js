@@ -0,0 +1,54 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Milestone = sequelize.define('Milestone', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  title: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  amount: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  dueDate: {
+    type: DataTypes.DATEONLY,
+    allowNull: true
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'funded', 'submitted', 'approved', 'released', 'disputed', 'refunded'),
+    defaultValue: 'pending'
+  },
+  submissionNote: {
+    type: DataTypes.TEXT, // Nota del freelancer al entregar el trabajo
+    allowNull: true
+  },
+  disputeReason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  resolutionNote: {
+    type: DataTypes.TEXT, // Motivo de la devolución o resolución de la disputa
+    allowNull: true
+  },
+  contractId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Contracts',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = Milestone;
@@ -0,0 +1,70 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+// Tipos de notificación y canales con los que el usuario puede recibirlas
+const NOTIFICATION_TYPES = ['job_comment', 'comment_reply', 'job_like', 'new_message'];
+const NOTIFICATION_CHANNELS = ['in_app', 'email_digest', 'off'];
+
+const Notification = sequelize.define('Notification', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  type: {
+    type: DataTypes.ENUM(...NOTIFICATION_TYPES),
+    allowNull: false
+  },
+  channel: {
+    type: DataTypes.ENUM('in_app', 'email_digest'), // Canal elegido por el usuario al crearse
+    defaultValue: 'in_app'
+  },
+  data: {
+    type: DataTypes.JSONB, // jobId, jobTitle, commentId, chatId, preview...
+    allowNull: false,
+    defaultValue: {}
+  },
+  count: {
+    type: DataTypes.INTEGER, // Eventos agrupados (mensajes del mismo chat sin leer)
+    defaultValue: 1
+  },
+  readAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  emailedAt: {
+    type: DataTypes.DATE, // Fecha en que se incluyó en un resumen por correo
+    allowNull: true
+  },
+  userId: {
+    type: DataTypes.UUID, // Destinatario
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  actorId: {
+    type: DataTypes.UUID, // Usuario que provocó la notificación
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['userId', 'readAt']
+    },
+    {
+      fields: ['userId', 'createdAt']
+    }
+  ]
+});
+
+Notification.TYPES = NOTIFICATION_TYPES;
+Notification.CHANNELS = NOTIFICATION_CHANNELS;
+
+module.exports = Notification;
@@ -0,0 +1,26 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Organization = sequelize.define('Organization', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  name: {
+    type: DataTypes.STRING(120),
+    allowNull: false
+  },
+  createdBy: {
+    type: DataTypes.UUID, // Usuario que creó la organización
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = Organization;
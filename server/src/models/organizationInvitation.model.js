@@ -0,0 +1,78 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const OrganizationInvitation = sequelize.define('OrganizationInvitation', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  email: {
+    type: DataTypes.STRING, // Destinatario; null en las invitaciones por enlace
+    allowNull: true,
+    validate: {
+      isEmail: true
+    }
+  },
+  role: {
+    type: DataTypes.ENUM('admin', 'hiring_manager', 'viewer'), // Rol con el que se entra al aceptar
+    allowNull: false,
+    defaultValue: 'viewer'
+  },
+  tokenHash: {
+    type: DataTypes.STRING(64), // SHA-256 del secreto del enlace
+    allowNull: false
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  acceptedAt: {
+    type: DataTypes.DATE, // Solo en las invitaciones por correo, que se usan una vez
+    allowNull: true
+  },
+  acceptedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  revokedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  organizationId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Organizations',
+      key: 'id'
+    }
+  },
+  invitedBy: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['organizationId']
+    }
+  ]
+});
+
+/**
+ * Indica si la invitación todavía se puede aceptar
+ */
+OrganizationInvitation.prototype.isPending = function() {
+  return !this.revokedAt && !this.acceptedAt && this.expiresAt > new Date();
+};
+
+module.exports = OrganizationInvitation;
@@ -0,0 +1,44 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const OrganizationMember = sequelize.define('OrganizationMember', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  role: {
+    type: DataTypes.ENUM('owner', 'admin', 'hiring_manager', 'viewer'),
+    allowNull: false,
+    defaultValue: 'viewer'
+  },
+  organizationId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Organizations',
+      key: 'id'
+    }
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['organizationId', 'userId']
+    },
+    {
+      fields: ['userId']
+    }
+  ]
+});
+
+module.exports = OrganizationMember;
@@ -0,0 +1,56 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Proposal = sequelize.define('Proposal', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  coverLetter: {
+    type: DataTypes.TEXT,
+    allowNull: false
+  },
+  proposedBudget: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  estimatedDuration: {
+    type: DataTypes.INTEGER, // Duración estimada en días
+    allowNull: false
+  },
+  attachments: {
+    type: DataTypes.ARRAY(DataTypes.STRING),
+    defaultValue: []
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'shortlisted', 'accepted', 'rejected', 'withdrawn'),
+    defaultValue: 'pending'
+  },
+  jobId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Jobs',
+      key: 'id'
+    }
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['jobId', 'userId']
+    }
+  ]
+});
+
+module.exports = Proposal;
@@ -11,9 +11,19 @@ const Reply = sequelize.define('Reply', {
   content: {
     type: DataTypes.TEXT,
     allowNull: false
+  },
+  idempotencyKey: {
+    type: DataTypes.STRING(64), // Clave generada en el cliente para no duplicar los reintentos
+    allowNull: true
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['userId', 'commentId', 'idempotencyKey']
+    }
+  ]
 });
 
 module.exports = Reply;
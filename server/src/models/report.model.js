@@ -0,0 +1,73 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+// Contenido que se puede denunciar y motivos de la denuncia
+const REPORT_TARGET_TYPES = ['job', 'comment', 'reply', 'message', 'user'];
+const REPORT_REASONS = ['spam', 'harassment', 'inappropriate', 'fraud', 'other'];
+
+const Report = sequelize.define('Report', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  targetType: {
+    type: DataTypes.ENUM(...REPORT_TARGET_TYPES),
+    allowNull: false
+  },
+  targetId: {
+    type: DataTypes.UUID, // Id del trabajo, comentario, respuesta, mensaje o usuario denunciado
+    allowNull: false
+  },
+  reason: {
+    type: DataTypes.ENUM(...REPORT_REASONS),
+    allowNull: false
+  },
+  details: {
+    type: DataTypes.TEXT, // Explicación opcional de quien denuncia
+    allowNull: true
+  },
+  status: {
+    type: DataTypes.ENUM('open', 'resolved', 'dismissed'),
+    defaultValue: 'open'
+  },
+  resolutionNote: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  resolvedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  reporterId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  resolvedBy: {
+    type: DataTypes.UUID, // Administrador que cerró la denuncia
+    allowNull: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['status', 'createdAt']
+    },
+    {
+      fields: ['targetType', 'targetId']
+    }
+  ]
+});
+
+Report.TARGET_TYPES = REPORT_TARGET_TYPES;
+Report.REASONS = REPORT_REASONS;
+
+module.exports = Report;
@@ -0,0 +1,159 @@
+const { DataTypes, Op, fn, col } = require('sequelize');
+const { sequelize } = require('../config/database');
+const User = require('./user.model');
+
+// Días desde que se completa el trabajo para valorar; las reseñas se publican al terminar el plazo
+// aunque falte la de la otra parte
+const REVIEW_WINDOW_DAYS = 14;
+const REVIEW_WINDOW_MS = REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+const scoreField = {
+  type: DataTypes.INTEGER,
+  allowNull: false,
+  validate: {
+    min: 1,
+    max: 5
+  }
+};
+
+const Review = sequelize.define('Review', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  rating: scoreField, // Valoración general (1-5 estrellas)
+  communication: scoreField,
+  quality: scoreField,
+  timeliness: scoreField,
+  comment: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  revealedAt: {
+    type: DataTypes.DATE, // Nulo mientras la reseña está oculta
+    allowNull: true
+  },
+  jobId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Jobs',
+      key: 'id'
+    }
+  },
+  reviewerId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  revieweeId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['jobId', 'reviewerId']
+    },
+    {
+      fields: ['revieweeId']
+    }
+  ]
+});
+
+Review.REVIEW_WINDOW_DAYS = REVIEW_WINDOW_DAYS;
+
+/**
+ * Fin del plazo para valorar un trabajo completado
+ * (los completados antes de guardar la fecha usan su última actualización)
+ */
+Review.getReviewDeadline = function(job) {
+  const completedAt = job.completedAt || job.updatedAt;
+  return new Date(new Date(completedAt).getTime() + REVIEW_WINDOW_MS);
+};
+
+const roundScore = (value) => (value ? Math.round(parseFloat(value) * 10) / 10 : 0);
+
+// Método para calcular la valoración de un usuario con sus reseñas visibles
+Review.getRatingSummary = async function(userId, options = {}) {
+  const summary = await Review.findOne({
+    attributes: [
+      [fn('COUNT', col('id')), 'count'],
+      [fn('AVG', col('rating')), 'average'],
+      [fn('AVG', col('communication')), 'communication'],
+      [fn('AVG', col('quality')), 'quality'],
+      [fn('AVG', col('timeliness')), 'timeliness']
+    ],
+    where: { revieweeId: userId, revealedAt: { [Op.ne]: null } },
+    raw: true,
+    ...options
+  });
+  
+  return {
+    count: parseInt(summary.count, 10) || 0,
+    average: roundScore(summary.average),
+    communication: roundScore(summary.communication),
+    quality: roundScore(summary.quality),
+    timeliness: roundScore(summary.timeliness)
+  };
+};
+
+// Método para recalcular la valoración guardada en el usuario
+Review.refreshUserRating = async function(userId, options = {}) {
+  const summary = await Review.getRatingSummary(userId, options);
+  
+  await User.update(
+    { ratingAverage: summary.average, ratingCount: summary.count },
+    { where: { id: userId }, ...options }
+  );
+  
+  return summary;
+};
+
+// Método para mostrar las reseñas de los trabajos cuyo plazo para valorar ha terminado
+Review.revealExpired = async function(where = {}) {
+  const windowStart = new Date(Date.now() - REVIEW_WINDOW_MS);
+  
+  const expiredReviews = await Review.findAll({
+    where: {
+      ...where,
+      revealedAt: null
+    },
+    include: [
+      {
+        association: 'job',
+        attributes: [],
+        where: {
+          [Op.or]: [
+            { completedAt: { [Op.lte]: windowStart } },
+            { completedAt: null, updatedAt: { [Op.lte]: windowStart } }
+          ]
+        }
+      }
+    ]
+  });
+  
+  if (expiredReviews.length === 0) return;
+  
+  await Review.update(
+    { revealedAt: new Date() },
+    { where: { id: expiredReviews.map(review => review.id) } }
+  );
+  
+  const revieweeIds = [...new Set(expiredReviews.map(review => review.revieweeId))];
+  for (const revieweeId of revieweeIds) {
+    await Review.refreshUserRating(revieweeId);
+  }
+};
+
+module.exports = Review;
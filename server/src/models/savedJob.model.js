@@ -0,0 +1,43 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+// Trabajo guardado por un usuario (tabla intermedia de User.savedJobs)
+const SavedJob = sequelize.define('SavedJob', {
+  userId: {
+    type: DataTypes.UUID,
+    primaryKey: true,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  jobId: {
+    type: DataTypes.UUID,
+    primaryKey: true,
+    references: {
+      model: 'Jobs',
+      key: 'id'
+    }
+  },
+  note: {
+    type: DataTypes.TEXT, // Nota privada del usuario sobre el trabajo
+    allowNull: true
+  },
+  collectionId: {
+    type: DataTypes.UUID, // Lista en la que está (null = sin lista)
+    allowNull: true,
+    references: {
+      model: 'SavedJobCollections',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['collectionId']
+    }
+  ]
+});
+
+module.exports = SavedJob;
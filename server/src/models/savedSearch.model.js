@@ -0,0 +1,41 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const SavedSearch = sequelize.define('SavedSearch', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  name: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  filters: {
+    type: DataTypes.JSONB, // search, category, status, skills, skillsMatch, minBudget, maxBudget
+    allowNull: false,
+    defaultValue: {}
+  },
+  lastViewedAt: {
+    type: DataTypes.DATE, // Los trabajos posteriores cuentan como nuevos
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['userId']
+    }
+  ]
+});
+
+module.exports = SavedSearch;
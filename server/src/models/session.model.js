@@ -0,0 +1,63 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Session = sequelize.define('Session', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  refreshTokenHash: {
+    type: DataTypes.STRING(64), // SHA-256 del refresh token vigente; cambia en cada rotación
+    allowNull: false
+  },
+  userAgent: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  ip: {
+    type: DataTypes.STRING(64),
+    allowNull: true
+  },
+  lastUsedAt: {
+    type: DataTypes.DATE, // Última renovación de los tokens
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  expiresAt: {
+    type: DataTypes.DATE, // Caducidad del refresh token vigente
+    allowNull: false
+  },
+  revokedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  revokedReason: {
+    type: DataTypes.ENUM('logout', 'revoked', 'reuse', 'moderation'), // moderation: cuenta suspendida o expulsada
+    allowNull: true
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['userId']
+    }
+  ]
+});
+
+/**
+ * Indica si la sesión sigue activa (ni revocada ni caducada)
+ */
+Session.prototype.isActive = function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+module.exports = Session;
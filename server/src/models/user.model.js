@@ -26,9 +26,21 @@ const User = sequelize.define('User', {
     allowNull: false
   },
   role: {
-    type: DataTypes.ENUM('freelancer', 'client'),
+    type: DataTypes.ENUM('freelancer', 'client', 'admin'), // 'admin' solo se asigna desde ADMIN_EMAILS
     defaultValue: 'freelancer'
   },
+  accountStatus: {
+    type: DataTypes.ENUM('active', 'suspended', 'banned'), // Estado fijado por la moderación
+    defaultValue: 'active'
+  },
+  suspendedUntil: {
+    type: DataTypes.DATE, // Fin de la suspensión (null: hasta que se levante a mano)
+    allowNull: true
+  },
+  moderationReason: {
+    type: DataTypes.TEXT, // Motivo de la última suspensión o expulsión, visible para el usuario
+    allowNull: true
+  },
   bio: {
     type: DataTypes.TEXT,
     defaultValue: ''
@@ -52,6 +64,38 @@ const User = sequelize.define('User', {
   lastSeen: {
     type: DataTypes.DATE,
     defaultValue: DataTypes.NOW
+  },
+  ratingAverage: {
+    type: DataTypes.FLOAT, // Media de las reseñas visibles (0 si no tiene)
+    defaultValue: 0
+  },
+  ratingCount: {
+    type: DataTypes.INTEGER,
+    defaultValue: 0
+  },
+  emailVerifiedAt: {
+    type: DataTypes.DATE, // Fecha en que confirmó su correo (null si aún no lo ha hecho)
+    allowNull: true
+  },
+  notificationPreferences: {
+    type: DataTypes.JSONB, // Canal por tipo de notificación (in_app, email_digest, off)
+    defaultValue: {}
+  },
+  twoFactorEnabled: {
+    type: DataTypes.BOOLEAN,
+    defaultValue: false
+  },
+  twoFactorSecret: {
+    type: DataTypes.STRING, // Secreto TOTP en base32 (confirmado, o pendiente durante la activación)
+    allowNull: true
+  },
+  twoFactorLastUsedStep: {
+    type: DataTypes.BIGINT, // Último periodo TOTP aceptado, para no admitir un código dos veces
+    allowNull: true
+  },
+  twoFactorRecoveryCodes: {
+    type: DataTypes.ARRAY(DataTypes.STRING), // Hashes de los códigos de recuperación sin usar
+    defaultValue: []
   }
 }, {
   timestamps: true,
@@ -76,10 +120,36 @@ User.prototype.comparePassword = async function(password) {
   return await bcrypt.compare(password, this.password);
 };
 
-// Método para formatear usuario para respuesta JSON (excluir password)
+/**
+ * Motivo por el que el usuario no puede acceder a su cuenta (suspensión vigente o expulsión)
+ * @returns El mensaje para el usuario, o null si puede acceder
+ */
+User.prototype.getAccessRestriction = function() {
+  const reason = this.moderationReason ? ` Motivo: ${this.moderationReason}` : '';
+  
+  if (this.accountStatus === 'banned') {
+    return `Tu cuenta ha sido bloqueada de forma permanente.${reason}`;
+  }
+  
+  if (this.accountStatus === 'suspended') {
+    if (!this.suspendedUntil) {
+      return `Tu cuenta está suspendida.${reason}`;
+    }
+    if (this.suspendedUntil > new Date()) {
+      return `Tu cuenta está suspendida hasta el ${this.suspendedUntil.toLocaleDateString('es-ES')}.${reason}`;
+    }
+  }
+  
+  return null;
+};
+
+// Campos que nunca se envían al cliente (contraseña y datos de la verificación en dos pasos)
+User.PRIVATE_FIELDS = ['password', 'twoFactorSecret', 'twoFactorLastUsedStep', 'twoFactorRecoveryCodes'];
+
+// Método para formatear usuario para respuesta JSON (excluir campos privados)
 User.prototype.toJSON = function () {
   const values = { ...this.get() };
-  delete values.password;
+  User.PRIVATE_FIELDS.forEach(field => delete values[field]);
   return values;
 };
 
@@ -0,0 +1,40 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const UserBlock = sequelize.define('UserBlock', {
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  blockerId: {
+    type: DataTypes.UUID, // Quien bloquea
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  },
+  blockedId: {
+    type: DataTypes.UUID, // Usuario bloqueado
+    allowNull: false,
+    references: {
+      model: 'Users',
+      key: 'id'
+    }
+  }
+}, {
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    {
+      unique: true,
+      fields: ['blockerId', 'blockedId']
+    },
+    {
+      fields: ['blockedId']
+    }
+  ]
+});
+
+module.exports = UserBlock;
@@ -0,0 +1,42 @@
+
+const express = require('express');
+const router = express.Router();
+const adminController = require('../controllers/admin.controller');
+const { verifyToken, isAdmin } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas del panel requieren una cuenta de administrador
+router.use(verifyToken, isAdmin);
+
+router.get('/overview', adminController.getOverview);
+
+// Usuarios
+router.get('/users', adminController.getUsers);
+router.put('/users/:userId/status', validateBody('admin.updateUserStatus'), adminController.updateUserStatus);
+
+// Cola de moderación de trabajos
+router.get('/jobs', adminController.getModerationJobs);
+router.put('/jobs/:jobId/moderation', validateBody('admin.moderateJob'), adminController.moderateJob);
+
+// Denuncias
+router.get('/reports', adminController.getReports);
+router.put('/reports/:reportId', validateBody('admin.resolveReport'), adminController.resolveReport);
+
+// Disputas de hitos
+router.get('/disputes', adminController.getDisputes);
+router.put('/milestones/:milestoneId/resolution', validateBody('admin.resolveDispute'), adminController.resolveDispute);
+
+// Catálogo de categorías y habilidades
+router.get('/categories', adminController.getCategories);
+router.post('/categories', validateBody('admin.createCategory'), adminController.createCategory);
+router.put('/categories/:categoryId', validateBody('admin.updateCategory'), adminController.updateCategory);
+router.delete('/categories/:categoryId', adminController.deleteCategory);
+router.get('/skills', adminController.getSkills);
+router.post('/skills', validateBody('admin.createSkill'), adminController.createSkill);
+router.put('/skills/:skillId', validateBody('admin.updateSkill'), adminController.updateSkill);
+router.delete('/skills/:skillId', adminController.deleteSkill);
+
+// Registro de auditoría
+router.get('/audit-log', adminController.getAuditLog);
+
+module.exports = router;
@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const attachmentController = require('../controllers/attachment.controller');
+const { verifyToken } = require('../middleware/auth');
+const { uploadAttachments } = require('../middleware/upload');
+
+// Todas las rutas de archivos adjuntos requieren autenticación
+router.use(verifyToken);
+
+// Archivos de un trabajo y de sus comentarios
+router.get('/job/:jobId', attachmentController.getJobAttachments);
+
+// Descargar y eliminar un archivo
+router.get('/:attachmentId/download', attachmentController.downloadAttachment);
+router.get('/:attachmentId/thumbnail', attachmentController.getAttachmentThumbnail);
+router.delete('/:attachmentId', attachmentController.deleteAttachment);
+
+// Subir archivos a un trabajo, oferta, comentario o hito (ownerType: job, proposal, comment, milestone)
+router.post('/:ownerType/:ownerId', uploadAttachments, attachmentController.uploadAttachments);
+
+module.exports = router;
@@ -2,14 +2,33 @@
 const express = require('express');
 const router = express.Router();
 const authController = require('../controllers/auth.controller');
+const twoFactorController = require('../controllers/twoFactor.controller');
+const accountController = require('../controllers/account.controller');
 const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
 
 // Rutas públicas
-router.post('/register', authController.register);
-router.post('/login', authController.login);
+router.post('/register', validateBody('auth.register'), authController.register);
+router.post('/login', validateBody('auth.login'), authController.login);
+router.post('/refresh', validateBody('auth.refresh'), authController.refresh);
+router.post('/2fa/verify', validateBody('auth.verifyTwoFactorLogin'), authController.verifyTwoFactorLogin);
+router.post('/forgot-password', validateBody('auth.forgotPassword'), accountController.forgotPassword);
+router.post('/reset-password', validateBody('auth.resetPassword'), accountController.resetPassword);
+router.post('/verify-email', validateBody('auth.verifyEmail'), accountController.verifyEmail);
 
 // Rutas protegidas
 router.post('/logout', verifyToken, authController.logout);
 router.get('/verify', verifyToken, authController.verifySession);
+router.get('/sessions', verifyToken, authController.getSessions);
+router.delete('/sessions', verifyToken, authController.revokeOtherSessions);
+router.delete('/sessions/:sessionId', verifyToken, authController.revokeSession);
+router.post('/verify-email/resend', verifyToken, accountController.resendVerificationEmail);
+
+// Verificación en dos pasos
+router.get('/2fa', verifyToken, twoFactorController.getStatus);
+router.post('/2fa/setup', verifyToken, twoFactorController.setup);
+router.post('/2fa/enable', verifyToken, validateBody('auth.enableTwoFactor'), twoFactorController.enable);
+router.post('/2fa/disable', verifyToken, validateBody('auth.disableTwoFactor'), twoFactorController.disable);
+router.post('/2fa/recovery-codes', verifyToken, validateBody('auth.regenerateRecoveryCodes'), twoFactorController.regenerateRecoveryCodes);
 
 module.exports = router;
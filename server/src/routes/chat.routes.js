@@ -2,15 +2,21 @@
 const express = require('express');
 const router = express.Router();
 const chatController = require('../controllers/chat.controller');
+const { validateBody, validateQuery } = require('../middleware/validate');
 
 // Todas las rutas están protegidas por el middleware verifyToken en app.js
 
 // Rutas de chat
-router.post('/', chatController.createChat);
+router.post('/', validateBody('chats.createChat'), chatController.createChat);
 router.get('/', chatController.getChats);
 router.get('/:chatId', chatController.getChat);
-router.post('/:chatId/messages', chatController.sendMessage);
-router.post('/:chatId/participants', chatController.addParticipant);
+router.get('/:chatId/messages', validateQuery('chats.getMessages'), chatController.getMessages);
+router.post('/:chatId/messages', validateBody('chats.sendMessage'), chatController.sendMessage);
+router.put('/:chatId/messages/:messageId', validateBody('chats.editMessage'), chatController.editMessage);
+router.delete('/:chatId/messages/:messageId', chatController.deleteMessage);
+router.get('/:chatId/messages/:messageId/edits', chatController.getMessageEdits);
+router.post('/:chatId/messages/:messageId/reactions', validateBody('chats.toggleReaction'), chatController.toggleReaction);
+router.post('/:chatId/participants', validateBody('chats.addParticipant'), chatController.addParticipant);
 router.delete('/:chatId/leave', chatController.leaveChat);
 
 module.exports = router;
@@ -0,0 +1,24 @@
+const express = require('express');
+const router = express.Router();
+const contractController = require('../controllers/contract.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas de contratos requieren autenticación
+router.use(verifyToken);
+
+// Contratos del usuario actual
+router.get('/me', contractController.getMyContracts);
+
+// Contrato de un trabajo
+router.get('/job/:jobId', contractController.getJobContract);
+
+// Gestión de un contrato
+router.get('/:contractId', contractController.getContract);
+
+// Hitos del contrato
+router.post('/:contractId/milestones', validateBody('contracts.createMilestone'), contractController.createMilestone);
+router.delete('/:contractId/milestones/:milestoneId', contractController.deleteMilestone);
+router.put('/:contractId/milestones/:milestoneId/:action', validateBody('contracts.updateMilestone'), contractController.updateMilestone);
+
+module.exports = router;
@@ -2,26 +2,29 @@
 const express = require('express');
 const router = express.Router();
 const jobController = require('../controllers/job.controller');
-const { verifyToken, isClient } = require('../middleware/auth');
+const { verifyToken, optionalAuth, requireOrganizationPermission } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
 
-// Rutas públicas (lectura)
-router.get('/', jobController.getAllJobs);
+// Rutas públicas (lectura); con sesión se ocultan los trabajos y comentarios de los usuarios bloqueados
+router.get('/', optionalAuth, jobController.getAllJobs);
 router.get('/categories', jobController.getCategories);
 router.get('/skills', jobController.getSkills);
-router.get('/:jobId', jobController.getJobById);
+router.get('/saved/me', verifyToken, jobController.getSavedJobs); // Antes de /:jobId para que no lo capture
+router.get('/:jobId', optionalAuth, jobController.getJobById);
+router.get('/:jobId/status-history', optionalAuth, jobController.getJobStatusHistory);
 
 // Rutas protegidas
-router.post('/', verifyToken, isClient, jobController.createJob);
-router.put('/:jobId', verifyToken, jobController.updateJob);
+router.post('/', verifyToken, requireOrganizationPermission('jobs:manage'), validateBody('jobs.createJob'), jobController.createJob);
+router.put('/:jobId', verifyToken, validateBody('jobs.updateJob'), jobController.updateJob);
+router.put('/:jobId/status', verifyToken, validateBody('jobs.changeJobStatus'), jobController.changeJobStatus);
 router.delete('/:jobId', verifyToken, jobController.deleteJob);
 
 // Comentarios y respuestas
-router.post('/:jobId/comments', verifyToken, jobController.addComment);
-router.post('/comments/:commentId/replies', verifyToken, jobController.addReply);
+router.post('/:jobId/comments', verifyToken, validateBody('jobs.addComment'), jobController.addComment);
+router.post('/comments/:commentId/replies', verifyToken, validateBody('jobs.addReply'), jobController.addReply);
 
 // Likes y guardados
 router.post('/:jobId/like', verifyToken, jobController.toggleJobLike);
 router.post('/:jobId/save', verifyToken, jobController.toggleSavedJob);
-router.get('/saved/me', verifyToken, jobController.getSavedJobs);
 
 module.exports = router;
@@ -0,0 +1,19 @@
+const express = require('express');
+const router = express.Router();
+const notificationController = require('../controllers/notification.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas de notificaciones requieren autenticación
+router.use(verifyToken);
+
+// Notificaciones del usuario
+router.get('/', notificationController.getNotifications);
+router.put('/read-all', notificationController.markAllAsRead);
+router.put('/:notificationId/read', notificationController.markAsRead);
+
+// Preferencias por tipo de notificación
+router.get('/preferences', notificationController.getNotificationPreferences);
+router.put('/preferences', validateBody('notifications.updateNotificationPreferences'), notificationController.updateNotificationPreferences);
+
+module.exports = router;
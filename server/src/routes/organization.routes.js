@@ -0,0 +1,24 @@
+
+const express = require('express');
+const router = express.Router();
+const organizationController = require('../controllers/organization.controller');
+const { verifyToken, requireOrganizationPermission } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Organizaciones del usuario actual
+router.get('/', verifyToken, organizationController.getMyOrganizations);
+router.post('/', verifyToken, validateBody('organizations.createOrganization'), organizationController.createOrganization);
+
+// Invitaciones: la consulta es pública para mostrarla antes de iniciar sesión
+router.get('/invitations/:token', organizationController.getInvitation);
+router.post('/invitations/accept', verifyToken, validateBody('organizations.acceptInvitation'), organizationController.acceptInvitation);
+
+// Gestión de una organización (el permiso depende del rol del usuario en ella)
+router.put('/:organizationId', verifyToken, requireOrganizationPermission('organization:manage'), validateBody('organizations.updateOrganization'), organizationController.updateOrganization);
+router.get('/:organizationId/members', verifyToken, requireOrganizationPermission('jobs:view'), organizationController.getMembers);
+router.put('/:organizationId/members/:memberId', verifyToken, requireOrganizationPermission('members:manage'), validateBody('organizations.updateMemberRole'), organizationController.updateMemberRole);
+router.delete('/:organizationId/members/:memberId', verifyToken, requireOrganizationPermission('jobs:view'), organizationController.removeMember);
+router.post('/:organizationId/invitations', verifyToken, requireOrganizationPermission('members:manage'), validateBody('organizations.createInvitation'), organizationController.createInvitation);
+router.delete('/:organizationId/invitations/:invitationId', verifyToken, requireOrganizationPermission('members:manage'), organizationController.revokeInvitation);
+
+module.exports = router;
@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const proposalController = require('../controllers/proposal.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas de ofertas requieren autenticación
+router.use(verifyToken);
+
+// Ofertas de un trabajo
+router.get('/job/:jobId', proposalController.getJobProposals);
+router.post('/job/:jobId', validateBody('proposals.createProposal'), proposalController.createProposal);
+
+// Ofertas del usuario actual
+router.get('/me', proposalController.getMyProposals);
+
+// Gestión de una oferta
+router.put('/:proposalId/status', validateBody('proposals.updateProposalStatus'), proposalController.updateProposalStatus);
+router.delete('/:proposalId', proposalController.withdrawProposal);
+
+module.exports = router;
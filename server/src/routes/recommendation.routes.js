@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const recommendationController = require('../controllers/recommendation.controller');
+const { verifyToken } = require('../middleware/auth');
+
+// Todas las rutas de recomendaciones requieren autenticación
+router.use(verifyToken);
+
+// Trabajos recomendados para el freelancer autenticado
+router.get('/jobs', recommendationController.getRecommendedJobs);
+
+// Freelancers recomendados para un trabajo propio
+router.get('/jobs/:jobId/freelancers', recommendationController.getRecommendedFreelancers);
+
+module.exports = router;
@@ -0,0 +1,13 @@
+const express = require('express');
+const router = express.Router();
+const reportController = require('../controllers/report.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Denunciar requiere autenticación
+router.use(verifyToken);
+
+// Denunciar contenido o perfiles (se revisan en /api/admin/reports)
+router.post('/', validateBody('reports.createReport'), reportController.createReport);
+
+module.exports = router;
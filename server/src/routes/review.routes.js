@@ -0,0 +1,17 @@
+const express = require('express');
+const router = express.Router();
+const reviewController = require('../controllers/review.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas de reseñas requieren autenticación
+router.use(verifyToken);
+
+// Reseñas de un trabajo completado
+router.get('/job/:jobId', reviewController.getJobReviews);
+router.post('/job/:jobId', validateBody('reviews.createReview'), reviewController.createReview);
+
+// Reseñas recibidas por un usuario
+router.get('/user/:userId', reviewController.getUserReviews);
+
+module.exports = router;
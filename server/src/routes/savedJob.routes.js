@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const savedJobController = require('../controllers/savedJob.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas de trabajos guardados requieren autenticación
+router.use(verifyToken);
+
+// Listas de guardados del usuario
+router.get('/collections', savedJobController.getMyCollections);
+router.post('/collections', validateBody('savedJobs.createCollection'), savedJobController.createCollection);
+router.put('/collections/:collectionId', validateBody('savedJobs.updateCollection'), savedJobController.updateCollection);
+router.delete('/collections/:collectionId', savedJobController.deleteCollection);
+
+// Trabajos guardados con su nota y su lista
+router.get('/', savedJobController.getMySavedJobs);
+router.put('/:jobId', validateBody('savedJobs.saveJob'), savedJobController.saveJob);
+router.delete('/:jobId', savedJobController.unsaveJob);
+
+module.exports = router;
@@ -0,0 +1,18 @@
+const express = require('express');
+const router = express.Router();
+const savedSearchController = require('../controllers/savedSearch.controller');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+
+// Todas las rutas de búsquedas guardadas requieren autenticación
+router.use(verifyToken);
+
+// Búsquedas guardadas del usuario
+router.get('/', savedSearchController.getMySavedSearches);
+router.post('/', validateBody('savedSearches.createSavedSearch'), savedSearchController.createSavedSearch);
+
+// Gestionar una búsqueda guardada
+router.put('/:savedSearchId/viewed', savedSearchController.markSavedSearchViewed);
+router.delete('/:savedSearchId', savedSearchController.deleteSavedSearch);
+
+module.exports = router;
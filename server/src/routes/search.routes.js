@@ -0,0 +1,12 @@
+const express = require('express');
+const router = express.Router();
+const searchController = require('../controllers/search.controller');
+const { verifyToken } = require('../middleware/auth');
+
+// La búsqueda requiere autenticación (incluye los mensajes del usuario)
+router.use(verifyToken);
+
+// Búsqueda global de texto completo
+router.get('/', searchController.search);
+
+module.exports = router;
@@ -5,6 +5,8 @@ const userController = require('../controllers/user.controller');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
+const { verifyToken } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
 
 // Configurar multer para subida de imágenes de perfil
 const uploadDir = path.join(__dirname, '../../uploads/profiles');
@@ -40,10 +42,16 @@ const upload = multer({
 });
 
 // Rutas de usuario
-router.get('/me', userController.getCurrentUser);
+router.get('/me', verifyToken, userController.getCurrentUser);
 router.get('/search', userController.searchUsers);
+router.get('/blocks', verifyToken, userController.getBlockedUsers);
 router.get('/:userId', userController.getUserById);
-router.put('/profile', userController.updateProfile);
-router.post('/profile/photo', upload.single('photo'), userController.uploadProfilePhoto);
+router.put('/profile', verifyToken, validateBody('users.updateProfile'), userController.updateProfile);
+// verifyToken antes de multer: el nombre del archivo lleva el id del usuario
+router.post('/profile/photo', verifyToken, upload.single('photo'), userController.uploadProfilePhoto);
+
+// Bloqueos
+router.post('/:userId/block', verifyToken, userController.blockUser);
+router.delete('/:userId/block', verifyToken, userController.unblockUser);
 
 module.exports = router;
@@ -0,0 +1,106 @@
+const { sendMail } = require('./mailer');
+const { createAccountToken } = require('./accountTokens');
+
+// URL pública del cliente web, para los enlaces de los correos
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:8080';
+
+/**
+ * Escapar texto para incluirlo en el HTML de un correo
+ */
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Correo con un botón de acción y el enlace en texto plano como alternativa
+ */
+const buildActionEmail = ({ name, intro, actionLabel, url, outro }) => ({
+  text: `Hola ${name},\n\n${intro}\n\n${url}\n\n${outro}\n\nEl equipo de WorkFlowConnect`,
+  html: `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>${escapeHtml(intro)}</p>
+    <p>
+      <a href="${url}" style="display:inline-block;padding:10px 18px;background:#7E69AB;color:#fff;border-radius:6px;text-decoration:none">
+        ${escapeHtml(actionLabel)}
+      </a>
+    </p>
+    <p style="color:#666;font-size:13px">Si el botón no funciona, copia este enlace en tu navegador:<br>${url}</p>
+    <p style="color:#666;font-size:13px">${escapeHtml(outro)}</p>
+    <p>El equipo de WorkFlowConnect</p>`
+});
+
+/**
+ * Enviar el enlace para confirmar el correo de una cuenta
+ */
+const sendVerificationEmail = async (user) => {
+  const url = `${CLIENT_URL}/verify-email?token=${encodeURIComponent(createAccountToken(user, 'email_verification'))}`;
+  
+  await sendMail({
+    to: user.email,
+    subject: 'Confirma tu correo en WorkFlowConnect',
+    ...buildActionEmail({
+      name: user.name,
+      intro: 'Confirma que este es tu correo electrónico para terminar de configurar tu cuenta.',
+      actionLabel: 'Confirmar correo',
+      url,
+      outro: 'El enlace caduca en 48 horas. Si no has creado una cuenta, ignora este mensaje.'
+    })
+  });
+};
+
+/**
+ * Enviar el enlace para restablecer la contraseña
+ */
+const sendPasswordResetEmail = async (user) => {
+  const url = `${CLIENT_URL}/reset-password?token=${encodeURIComponent(createAccountToken(user, 'password_reset'))}`;
+  
+  await sendMail({
+    to: user.email,
+    subject: 'Restablece tu contraseña de WorkFlowConnect',
+    ...buildActionEmail({
+      name: user.name,
+      intro: 'Hemos recibido una solicitud para restablecer la contraseña de tu cuenta.',
+      actionLabel: 'Elegir una contraseña nueva',
+      url,
+      outro: 'El enlace caduca en 1 hora y solo se puede usar una vez. Si no lo has pedido tú, ignora este mensaje: tu contraseña no cambiará.'
+    })
+  });
+};
+
+// Nombre de cada rol de organización en los correos
+const ORGANIZATION_ROLE_LABELS = {
+  admin: 'administrador',
+  hiring_manager: 'responsable de contratación',
+  viewer: 'observador'
+};
+
+/**
+ * Enlace para aceptar una invitación a una organización
+ */
+const getInvitationUrl = (token) => `${CLIENT_URL}/invitations/accept?token=${encodeURIComponent(token)}`;
+
+/**
+ * Enviar una invitación para unirse a una organización
+ */
+const sendOrganizationInvitationEmail = async ({ email, organization, inviter, role, token }) => {
+  await sendMail({
+    to: email,
+    subject: `${inviter.name} te invita a ${organization.name} en WorkFlowConnect`,
+    ...buildActionEmail({
+      name: email,
+      intro: `${inviter.name} te ha invitado a unirte a la organización ${organization.name} como ${ORGANIZATION_ROLE_LABELS[role]}.`,
+      actionLabel: 'Ver la invitación',
+      url: getInvitationUrl(token),
+      outro: 'La invitación caduca en 7 días. Necesitas una cuenta de cliente con este correo para aceptarla.'
+    })
+  });
+};
+
+module.exports = {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  getInvitationUrl,
+  sendOrganizationInvitationEmail
+};
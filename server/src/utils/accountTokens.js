@@ -0,0 +1,79 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { User } = require('../models');
+
+/**
+ * Enlaces de cuenta: restablecer la contraseña y verificar el correo
+ *
+ * Los tokens son JWT firmados con caducidad que incluyen una huella del estado de
+ * la cuenta al que se refieren (el hash de la contraseña o el correo pendiente de
+ * verificar). Al usarse, ese estado cambia y el token deja de ser válido, así que
+ * cada enlace sirve una sola vez sin guardar nada en la base de datos.
+ */
+
+const TOKEN_PURPOSES = {
+  password_reset: {
+    expiresIn: '1h',
+    fingerprint: (user) => user.password
+  },
+  email_verification: {
+    expiresIn: '48h',
+    fingerprint: (user) => (user.emailVerifiedAt ? null : user.email)
+  }
+};
+
+/**
+ * Huella del estado de la cuenta para un propósito (null si ya no admite tokens)
+ */
+const getFingerprint = (user, purpose) => {
+  const state = TOKEN_PURPOSES[purpose].fingerprint(user);
+  if (!state) return null;
+  
+  return crypto.createHmac('sha256', process.env.JWT_SECRET)
+    .update(`${purpose}:${state}`)
+    .digest('hex')
+    .slice(0, 32);
+};
+
+/**
+ * Crear el token de un enlace de cuenta
+ */
+const createAccountToken = (user, purpose) =>
+  jwt.sign(
+    { id: user.id, purpose, fp: getFingerprint(user, purpose) },
+    process.env.JWT_SECRET,
+    { expiresIn: TOKEN_PURPOSES[purpose].expiresIn }
+  );
+
+/**
+ * Comprobar el token de un enlace de cuenta
+ * @returns { user } o { status, error } si el enlace no es válido, ha caducado o ya se usó
+ */
+const verifyAccountToken = async (token, purpose) => {
+  const invalid = { status: 400, error: 'El enlace no es válido o ha caducado' };
+  
+  let decoded;
+  try {
+    decoded = jwt.verify(String(token || ''), process.env.JWT_SECRET);
+  } catch (error) {
+    return invalid;
+  }
+  
+  if (decoded.purpose !== purpose) return invalid;
+  
+  const user = await User.findByPk(decoded.id);
+  if (!user) return invalid;
+  
+  // La huella va dentro del token firmado: si no coincide, la cuenta cambió desde que se emitió
+  const fingerprint = getFingerprint(user, purpose);
+  if (!fingerprint || decoded.fp !== fingerprint) {
+    return { status: 400, error: 'Este enlace ya se ha utilizado' };
+  }
+  
+  return { user };
+};
+
+module.exports = {
+  createAccountToken,
+  verifyAccountToken
+};
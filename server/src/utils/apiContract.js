@@ -0,0 +1,69 @@
+const path = require('path');
+const { pathToFileURL } = require('url');
+const { z } = require('zod');
+
+// Contrato de la API compartido con el cliente (módulo ESM en /shared)
+const CONTRACT_PATH = path.join(__dirname, '..', '..', '..', 'shared', 'api-contract.js');
+
+let contractPromise = null;
+
+/**
+ * Cargar el contrato de la API con la instancia de zod del servidor
+ * Se carga una sola vez y con import() porque el módulo compartido es ESM
+ * @returns {Promise<{ schemas: object, endpoints: object, errorMap: Function }>}
+ */
+const loadApiContract = () => {
+  if (!contractPromise) {
+    contractPromise = import(pathToFileURL(CONTRACT_PATH).href)
+      .then(({ defineContract }) => defineContract(z));
+  }
+  return contractPromise;
+};
+
+/**
+ * Validar una parte de la petición (body o query) con el esquema del endpoint
+ * @returns {{ status, error, errors }} o null si es válida
+ */
+const validateRequestPart = async (endpointName, part, value) => {
+  const { endpoints, errorMap } = await loadApiContract();
+  const endpoint = endpoints[endpointName];
+  
+  if (!endpoint) {
+    throw new Error(`Endpoint sin definir en el contrato de la API: ${endpointName}`);
+  }
+  
+  if (!endpoint[part]) return null;
+  
+  const result = endpoint[part].safeParse(value || {}, { errorMap });
+  if (result.success) return null;
+  
+  const errors = result.error.issues.map(issue => ({
+    field: issue.path.join('.'),
+    message: issue.message
+  }));
+  const [first] = errors;
+  
+  return {
+    status: 400,
+    error: first.field ? `${first.field}: ${first.message}` : first.message,
+    errors
+  };
+};
+
+/**
+ * Validar el cuerpo de una petición con el esquema del endpoint
+ * @returns {{ status, error, errors }} o null si el cuerpo es válido
+ */
+const validateRequestBody = (endpointName, body) => validateRequestPart(endpointName, 'body', body);
+
+/**
+ * Validar la query de una petición con el esquema del endpoint
+ * @returns {{ status, error, errors }} o null si la query es válida
+ */
+const validateRequestQuery = (endpointName, query) => validateRequestPart(endpointName, 'query', query);
+
+module.exports = {
+  loadApiContract,
+  validateRequestBody,
+  validateRequestQuery
+};
@@ -0,0 +1,80 @@
+const path = require('path');
+const fs = require('fs');
+const sharp = require('sharp');
+
+// Directorios donde se guardan los archivos adjuntos y sus miniaturas
+const ATTACHMENT_DIR = path.join(__dirname, '../../uploads/attachments');
+const THUMBNAIL_DIR = path.join(ATTACHMENT_DIR, 'thumbnails');
+
+// Crear directorios si no existen
+for (const dir of [ATTACHMENT_DIR, THUMBNAIL_DIR]) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+// Lado máximo de las miniaturas en píxeles
+const THUMBNAIL_SIZE = 320;
+
+// Imágenes de las que se genera miniatura
+const THUMBNAIL_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const getAttachmentPath = (fileName) => path.join(ATTACHMENT_DIR, path.basename(fileName));
+
+const getThumbnailPath = (thumbnailName) => path.join(THUMBNAIL_DIR, path.basename(thumbnailName));
+
+/**
+ * Generar la miniatura de una imagen subida
+ * @returns Nombre de la miniatura, o null si el archivo no es una imagen o no se pudo procesar
+ */
+const createThumbnail = async (file) => {
+  if (!THUMBNAIL_MIME_TYPES.includes(file.mimetype)) return null;
+  
+  const thumbnailName = `${path.parse(file.filename).name}.webp`;
+  
+  try {
+    await sharp(file.path)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toFile(getThumbnailPath(thumbnailName));
+    
+    return thumbnailName;
+  } catch (error) {
+    // Una imagen dañada se guarda igualmente, solo que sin miniatura
+    console.error('Error al generar miniatura:', error);
+    return null;
+  }
+};
+
+const removeFile = async (filePath) => {
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error('Error al eliminar archivo:', error);
+    }
+  }
+};
+
+/**
+ * Borrar del disco los archivos recibidos por multer (p. ej. si se rechaza la subida)
+ */
+const removeUploadedFiles = (files = []) => Promise.all(files.map(file => removeFile(file.path)));
+
+/**
+ * Borrar del disco un archivo adjunto y su miniatura
+ */
+const removeAttachmentFiles = (attachment) => Promise.all([
+  removeFile(getAttachmentPath(attachment.fileName)),
+  attachment.thumbnailName ? removeFile(getThumbnailPath(attachment.thumbnailName)) : null
+]);
+
+module.exports = {
+  ATTACHMENT_DIR,
+  getAttachmentPath,
+  getThumbnailPath,
+  createThumbnail,
+  removeUploadedFiles,
+  removeAttachmentFiles
+};
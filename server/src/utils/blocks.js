@@ -0,0 +1,81 @@
+const { Op } = require('sequelize');
+const { UserBlock } = require('../models');
+
+/**
+ * Bloqueos entre usuarios
+ *
+ * Quien bloquea deja de ver los trabajos, comentarios, respuestas y mensajes del
+ * usuario bloqueado. Mientras dure el bloqueo ninguno de los dos puede abrir un
+ * chat con el otro, añadirle a un grupo ni escribirle en su chat privado.
+ */
+
+/**
+ * Ids de los usuarios bloqueados por un usuario (vacío si no hay sesión)
+ */
+const getBlockedUserIds = async (userId) => {
+  if (!userId) return [];
+  
+  const blocks = await UserBlock.findAll({
+    where: { blockerId: userId },
+    attributes: ['blockedId']
+  });
+  return blocks.map(block => block.blockedId);
+};
+
+/**
+ * Condición para excluir el contenido de los usuarios bloqueados
+ * @param includeSystem - Mantener también lo que no tiene autor (mensajes del sistema)
+ */
+const notFromBlockedUsers = (blockedIds, includeSystem = false) => {
+  if (blockedIds.length === 0) return {};
+  
+  const condition = { userId: { [Op.notIn]: blockedIds } };
+  return includeSystem ? { [Op.or]: [{ userId: null }, condition] } : condition;
+};
+
+/**
+ * Comprobar que no hay bloqueos entre un usuario y otros con los que quiere hablar
+ * Se usa al crear chats, añadir participantes y escribir en un chat privado
+ * @returns { status, error } si hay un bloqueo en cualquier sentido o null
+ */
+const checkChatBlocks = async (userId, otherIds) => {
+  const others = otherIds.filter(id => id && id !== userId);
+  if (others.length === 0) return null;
+  
+  const blocks = await UserBlock.findAll({
+    where: {
+      [Op.or]: [
+        { blockerId: userId, blockedId: { [Op.in]: others } },
+        { blockerId: { [Op.in]: others }, blockedId: userId }
+      ]
+    }
+  });
+  
+  if (blocks.some(block => block.blockerId === userId)) {
+    return { status: 400, error: 'Has bloqueado a este usuario. Desbloquéalo para poder escribirle' };
+  }
+  if (blocks.length > 0) {
+    return { status: 403, error: 'Este usuario no acepta tus mensajes' };
+  }
+  return null;
+};
+
+/**
+ * Comprobar que un usuario puede escribir en un chat
+ * En los privados no, si hay un bloqueo entre los dos; en los grupos cada uno
+ * simplemente deja de ver los mensajes de quien ha bloqueado
+ * @returns { status, error } o null
+ */
+const checkPrivateChatBlocks = async (chat, userId) => {
+  if (chat.isGroup) return null;
+  
+  const participants = await chat.getParticipants({ attributes: ['id'], joinTableAttributes: [] });
+  return checkChatBlocks(userId, participants.map(participant => participant.id));
+};
+
+module.exports = {
+  getBlockedUserIds,
+  notFromBlockedUsers,
+  checkChatBlocks,
+  checkPrivateChatBlocks
+};
@@ -0,0 +1,184 @@
+const { v4: uuidv4 } = require('uuid');
+const { LedgerEntry } = require('../models');
+const { transitionJob } = require('./jobLifecycle');
+
+/**
+ * Depósito en garantía de los contratos
+ *
+ * El dinero de cada hito se mueve entre tres cuentas de un libro contable de doble
+ * entrada, con importes en céntimos: el cliente lo deposita en la cuenta de garantía
+ * del contrato y de ahí se paga al freelancer o se devuelve al cliente. Cada movimiento
+ * tiene cargos y abonos por el mismo importe, así que la suma de los saldos es cero.
+ */
+
+// Cuentas del libro contable
+const clientAccount = (userId) => `client:${userId}`;
+const escrowAccount = (contractId) => `escrow:${contractId}`;
+const freelancerAccount = (userId) => `freelancer:${userId}`;
+
+const toCents = (amount) => Math.round(amount * 100);
+
+// Movimientos de un hito: cuenta a la que se carga (recibe) y cuenta a la que se abona (entrega)
+const MILESTONE_MOVEMENTS = {
+  fund: { debit: 'escrow', credit: 'client', description: 'Depósito en garantía' },
+  release: { debit: 'freelancer', credit: 'escrow', description: 'Pago liberado' },
+  refund: { debit: 'client', credit: 'escrow', description: 'Devolución al cliente' }
+};
+
+const partyAccount = (party, contract) => {
+  if (party === 'client') return clientAccount(contract.clientId);
+  if (party === 'freelancer') return freelancerAccount(contract.freelancerId);
+  return escrowAccount(contract.id);
+};
+
+/**
+ * Apuntes de un movimiento del importe de un hito (fund, release o refund)
+ */
+const buildMilestoneEntries = (movement, contract, milestone) => {
+  const { debit, credit } = MILESTONE_MOVEMENTS[movement];
+  const amount = toCents(milestone.amount);
+
+  return [
+    { account: partyAccount(debit, contract), direction: 'debit', amount },
+    { account: partyAccount(credit, contract), direction: 'credit', amount }
+  ];
+};
+
+/**
+ * Comprobar que un movimiento está cuadrado: importes enteros positivos y la
+ * suma de cargos igual a la de abonos. Si no, se lanza un error
+ */
+const assertBalanced = (entries) => {
+  if (entries.some(entry => !Number.isInteger(entry.amount) || entry.amount <= 0)) {
+    throw new Error('Los importes del movimiento contable deben ser céntimos positivos');
+  }
+
+  const sum = (direction) => entries
+    .filter(entry => entry.direction === direction)
+    .reduce((total, entry) => total + entry.amount, 0);
+
+  const debits = sum('debit');
+  if (debits <= 0 || debits !== sum('credit')) {
+    throw new Error('El movimiento contable no está cuadrado');
+  }
+};
+
+/**
+ * Registrar un movimiento de doble entrada en el libro contable
+ * Si no está cuadrado se lanza un error y la transacción de base de datos se revierte
+ */
+const postLedgerTransaction = async ({ contractId, milestoneId, description, entries }, transaction) => {
+  assertBalanced(entries);
+
+  const transactionId = uuidv4();
+
+  await LedgerEntry.bulkCreate(
+    entries.map(entry => ({
+      ...entry,
+      transactionId,
+      contractId,
+      milestoneId,
+      description
+    })),
+    { transaction }
+  );
+};
+
+/**
+ * Registrar el movimiento del importe de un hito
+ */
+const postMilestoneMovement = (movement, contract, milestone, transaction) =>
+  postLedgerTransaction({
+    contractId: contract.id,
+    milestoneId: milestone.id,
+    description: `${MILESTONE_MOVEMENTS[movement].description}: ${milestone.title}`,
+    entries: buildMilestoneEntries(movement, contract, milestone)
+  }, transaction);
+
+/**
+ * Saldos de un contrato a partir de sus apuntes (en la unidad monetaria)
+ * - funded: total depositado por el cliente
+ * - refunded: total devuelto al cliente
+ * - inEscrow: importe retenido en garantía pendiente de liberar o devolver
+ * - released: total pagado al freelancer
+ * - reconciled: la suma de todos los saldos es cero
+ */
+const summarizeBalances = (contract, entries) => {
+  const balances = {};
+  let funded = 0;
+  let refunded = 0;
+  const client = clientAccount(contract.clientId);
+
+  for (const entry of entries) {
+    const signedAmount = entry.direction === 'debit' ? entry.amount : -entry.amount;
+    balances[entry.account] = (balances[entry.account] || 0) + signedAmount;
+
+    if (entry.account === client) {
+      if (entry.direction === 'credit') funded += entry.amount;
+      else refunded += entry.amount;
+    }
+  }
+
+  const total = Object.values(balances).reduce((sum, balance) => sum + balance, 0);
+
+  return {
+    funded: funded / 100,
+    refunded: refunded / 100,
+    inEscrow: (balances[escrowAccount(contract.id)] || 0) / 100,
+    released: (balances[freelancerAccount(contract.freelancerId)] || 0) / 100,
+    reconciled: total === 0
+  };
+};
+
+/**
+ * Calcular los saldos de un contrato leyendo su libro contable
+ */
+const getContractBalances = async (contract, transaction) => {
+  const entries = await LedgerEntry.findAll({
+    where: { contractId: contract.id },
+    transaction
+  });
+
+  return summarizeBalances(contract, entries);
+};
+
+/**
+ * Importe repartido en hitos, en céntimos
+ * Los hitos devueltos al cliente no cuentan: su importe queda libre para otros hitos
+ */
+const allocatedCents = (milestones) => milestones
+  .filter(milestone => milestone.status !== 'refunded')
+  .reduce((sum, milestone) => sum + toCents(milestone.amount), 0);
+
+/**
+ * Completar el contrato, y con él el trabajo, cuando los pagos liberados cubren el importe total
+ * @returns { status, error } si el trabajo no puede pasar a completado, null en otro caso
+ */
+const completeContractIfPaid = async (contract, job, milestones, { userId = null, transaction } = {}) => {
+  const releasedAmount = milestones
+    .filter(milestone => milestone.status === 'released')
+    .reduce((sum, milestone) => sum + toCents(milestone.amount), 0);
+
+  if (releasedAmount < toCents(contract.totalAmount)) return null;
+
+  contract.status = 'completed';
+  await contract.save({ transaction });
+
+  if (job.status !== 'in-progress') return null;
+  return transitionJob(job, 'completed', { userId, transaction });
+};
+
+module.exports = {
+  toCents,
+  clientAccount,
+  escrowAccount,
+  freelancerAccount,
+  buildMilestoneEntries,
+  assertBalanced,
+  postLedgerTransaction,
+  postMilestoneMovement,
+  summarizeBalances,
+  getContractBalances,
+  allocatedCents,
+  completeContractIfPaid
+};
@@ -0,0 +1,228 @@
+jest.mock('../models', () => ({
+  LedgerEntry: {
+    bulkCreate: jest.fn(),
+    findAll: jest.fn()
+  }
+}));
+
+jest.mock('./jobLifecycle', () => ({
+  transitionJob: jest.fn()
+}));
+
+const { LedgerEntry } = require('../models');
+const { transitionJob } = require('./jobLifecycle');
+const {
+  toCents,
+  buildMilestoneEntries,
+  assertBalanced,
+  postMilestoneMovement,
+  summarizeBalances,
+  allocatedCents,
+  completeContractIfPaid
+} = require('./escrow');
+
+const contract = {
+  id: 'contract-1',
+  clientId: 'client-1',
+  freelancerId: 'freelancer-1',
+  totalAmount: 300
+};
+
+// Apuntes guardados con bulkCreate en el orden en que se registraron
+const postedEntries = () => LedgerEntry.bulkCreate.mock.calls.flatMap(([entries]) => entries);
+
+const post = (movement, milestone) => postMilestoneMovement(movement, contract, milestone, 'transaction');
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('toCents', () => {
+  it('redondea los importes a céntimos enteros', () => {
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(toCents(19.99)).toBe(1999);
+  });
+});
+
+describe('assertBalanced', () => {
+  it('acepta un movimiento con cargos y abonos iguales', () => {
+    expect(() => assertBalanced([
+      { account: 'a', direction: 'debit', amount: 500 },
+      { account: 'b', direction: 'credit', amount: 300 },
+      { account: 'c', direction: 'credit', amount: 200 }
+    ])).not.toThrow();
+  });
+
+  it('rechaza un movimiento descuadrado', () => {
+    expect(() => assertBalanced([
+      { account: 'a', direction: 'debit', amount: 500 },
+      { account: 'b', direction: 'credit', amount: 499 }
+    ])).toThrow('no está cuadrado');
+  });
+
+  it('rechaza importes que no son céntimos positivos', () => {
+    expect(() => assertBalanced([
+      { account: 'a', direction: 'debit', amount: 10.5 },
+      { account: 'b', direction: 'credit', amount: 10.5 }
+    ])).toThrow('céntimos positivos');
+    expect(() => assertBalanced([
+      { account: 'a', direction: 'debit', amount: -100 },
+      { account: 'b', direction: 'credit', amount: -100 }
+    ])).toThrow('céntimos positivos');
+  });
+});
+
+describe('buildMilestoneEntries', () => {
+  const milestone = { id: 'milestone-1', title: 'Diseño', amount: 120.5 };
+
+  it('financiar mueve el importe del cliente a la garantía', () => {
+    expect(buildMilestoneEntries('fund', contract, milestone)).toEqual([
+      { account: 'escrow:contract-1', direction: 'debit', amount: 12050 },
+      { account: 'client:client-1', direction: 'credit', amount: 12050 }
+    ]);
+  });
+
+  it('liberar mueve el importe de la garantía al freelancer', () => {
+    expect(buildMilestoneEntries('release', contract, milestone)).toEqual([
+      { account: 'freelancer:freelancer-1', direction: 'debit', amount: 12050 },
+      { account: 'escrow:contract-1', direction: 'credit', amount: 12050 }
+    ]);
+  });
+
+  it('devolver mueve el importe de la garantía al cliente', () => {
+    expect(buildMilestoneEntries('refund', contract, milestone)).toEqual([
+      { account: 'client:client-1', direction: 'debit', amount: 12050 },
+      { account: 'escrow:contract-1', direction: 'credit', amount: 12050 }
+    ]);
+  });
+});
+
+describe('postMilestoneMovement', () => {
+  it('guarda los apuntes de un movimiento con el mismo id de transacción', async () => {
+    await post('fund', { id: 'milestone-1', title: 'Diseño', amount: 100 });
+
+    const entries = postedEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0].transactionId).toBe(entries[1].transactionId);
+    expect(entries[0]).toMatchObject({
+      contractId: 'contract-1',
+      milestoneId: 'milestone-1',
+      description: 'Depósito en garantía: Diseño'
+    });
+    expect(LedgerEntry.bulkCreate).toHaveBeenCalledWith(expect.any(Array), { transaction: 'transaction' });
+  });
+
+  it('no guarda nada si el importe no es positivo', async () => {
+    await expect(post('fund', { id: 'milestone-1', title: 'Vacío', amount: 0 })).rejects.toThrow();
+    expect(LedgerEntry.bulkCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeBalances', () => {
+  it('el libro cuadra y los saldos reflejan los depósitos, pagos y devoluciones', async () => {
+    const design = { id: 'milestone-1', title: 'Diseño', amount: 100 };
+    const development = { id: 'milestone-2', title: 'Desarrollo', amount: 150.25 };
+    const testing = { id: 'milestone-3', title: 'Pruebas', amount: 49.75 };
+
+    await post('fund', design);
+    await post('fund', development);
+    await post('fund', testing);
+    await post('release', design);
+    await post('refund', testing);
+
+    expect(summarizeBalances(contract, postedEntries())).toEqual({
+      funded: 300,
+      refunded: 49.75,
+      inEscrow: 150.25,
+      released: 100,
+      reconciled: true
+    });
+  });
+
+  it('detecta un libro que no cuadra', () => {
+    const balances = summarizeBalances(contract, [
+      { account: 'escrow:contract-1', direction: 'debit', amount: 1000 },
+      { account: 'client:client-1', direction: 'credit', amount: 900 }
+    ]);
+
+    expect(balances.reconciled).toBe(false);
+  });
+
+  it('un contrato sin apuntes tiene todos los saldos a cero', () => {
+    expect(summarizeBalances(contract, [])).toEqual({
+      funded: 0,
+      refunded: 0,
+      inEscrow: 0,
+      released: 0,
+      reconciled: true
+    });
+  });
+});
+
+describe('allocatedCents', () => {
+  it('no cuenta los hitos devueltos al cliente', () => {
+    expect(allocatedCents([
+      { amount: 100, status: 'released' },
+      { amount: 50.5, status: 'funded' },
+      { amount: 80, status: 'refunded' }
+    ])).toBe(15050);
+  });
+});
+
+describe('completeContractIfPaid', () => {
+  const buildContract = () => ({ ...contract, status: 'active', save: jest.fn() });
+
+  it('no hace nada mientras quede importe por liberar', async () => {
+    const activeContract = buildContract();
+    const job = { status: 'in-progress' };
+
+    const result = await completeContractIfPaid(activeContract, job, [
+      { amount: 200, status: 'released' },
+      { amount: 100, status: 'approved' }
+    ]);
+
+    expect(result).toBeNull();
+    expect(activeContract.status).toBe('active');
+    expect(activeContract.save).not.toHaveBeenCalled();
+    expect(transitionJob).not.toHaveBeenCalled();
+  });
+
+  it('completa el contrato y el trabajo al liberar el importe total', async () => {
+    const activeContract = buildContract();
+    const job = { status: 'in-progress' };
+    transitionJob.mockResolvedValue(null);
+
+    const result = await completeContractIfPaid(activeContract, job, [
+      { amount: 200, status: 'released' },
+      { amount: 100, status: 'released' }
+    ], { userId: 'client-1', transaction: 'transaction' });
+
+    expect(result).toBeNull();
+    expect(activeContract.status).toBe('completed');
+    expect(activeContract.save).toHaveBeenCalledWith({ transaction: 'transaction' });
+    expect(transitionJob).toHaveBeenCalledWith(job, 'completed', { userId: 'client-1', transaction: 'transaction' });
+  });
+
+  it('devuelve el error si el trabajo no puede pasar a completado', async () => {
+    const error = { status: 400, error: 'Transición no permitida' };
+    transitionJob.mockResolvedValue(error);
+
+    const result = await completeContractIfPaid(buildContract(), { status: 'in-progress' }, [
+      { amount: 300, status: 'released' }
+    ]);
+
+    expect(result).toBe(error);
+  });
+
+  it('no cambia un trabajo que ya no está en curso', async () => {
+    const activeContract = buildContract();
+
+    const result = await completeContractIfPaid(activeContract, { status: 'completed' }, [
+      { amount: 300, status: 'released' }
+    ]);
+
+    expect(result).toBeNull();
+    expect(activeContract.status).toBe('completed');
+    expect(transitionJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,36 @@
+const { UniqueConstraintError } = require('sequelize');
+
+/**
+ * Crear un registro del usuario una sola vez por cada clave de idempotencia
+ *
+ * Los comentarios, respuestas y mensajes llevan una clave generada en el cliente que se
+ * mantiene al reintentar el envío (ej: desde la cola sin conexión). Si la primera petición
+ * llegó al servidor pero se perdió la respuesta, el reintento recibe el registro ya creado
+ * en lugar de crear otro. La clave solo cuenta dentro del registro padre (chat, trabajo o
+ * comentario), igual que el índice único de cada modelo.
+ * @param values - Campos del registro, con userId e idempotencyKey (opcional)
+ * @param scope - Campo del registro padre (ej: 'chatId')
+ * @returns { record, created } - created es false si el registro ya existía
+ */
+const createOnce = async (Model, values, scope) => {
+  const { userId, idempotencyKey } = values;
+  if (!idempotencyKey) {
+    return { record: await Model.create(values), created: true };
+  }
+
+  const where = { userId, [scope]: values[scope], idempotencyKey };
+  const existing = await Model.findOne({ where });
+  if (existing) return { record: existing, created: false };
+
+  try {
+    return { record: await Model.create(values), created: true };
+  } catch (error) {
+    // Dos envíos simultáneos con la misma clave: el índice único deja pasar solo uno
+    if (!(error instanceof UniqueConstraintError)) throw error;
+    return { record: await Model.findOne({ where }), created: false };
+  }
+};
+
+module.exports = {
+  createOnce
+};
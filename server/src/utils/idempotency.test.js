@@ -0,0 +1,87 @@
+const { UniqueConstraintError } = require('sequelize');
+const { createOnce } = require('./idempotency');
+
+const buildModel = () => ({
+  findOne: jest.fn(),
+  create: jest.fn(async (values) => ({ id: 'comment-1', ...values }))
+});
+
+describe('createOnce', () => {
+  it('crea el registro sin consultar nada si no hay clave', async () => {
+    const Model = buildModel();
+
+    const result = await createOnce(Model, { content: 'Hola', userId: 'user-1' });
+
+    expect(result).toEqual({ record: { id: 'comment-1', content: 'Hola', userId: 'user-1' }, created: true });
+    expect(Model.findOne).not.toHaveBeenCalled();
+  });
+
+  it('crea el registro la primera vez que llega una clave', async () => {
+    const Model = buildModel();
+    Model.findOne.mockResolvedValue(null);
+
+    const result = await createOnce(Model, { content: 'Hola', jobId: 'job-1', userId: 'user-1', idempotencyKey: 'clave-1' }, 'jobId');
+
+    expect(result.created).toBe(true);
+    expect(Model.findOne).toHaveBeenCalledWith({
+      where: { userId: 'user-1', jobId: 'job-1', idempotencyKey: 'clave-1' }
+    });
+    expect(Model.create).toHaveBeenCalledWith({
+      content: 'Hola',
+      jobId: 'job-1',
+      userId: 'user-1',
+      idempotencyKey: 'clave-1'
+    });
+  });
+
+  it('no devuelve el registro de otro trabajo aunque se repita la clave', async () => {
+    const Model = buildModel();
+    Model.findOne.mockImplementation(async ({ where }) => (where.jobId === 'job-1' ? { id: 'comment-1' } : null));
+
+    const result = await createOnce(Model, { content: 'Hola', jobId: 'job-2', userId: 'user-1', idempotencyKey: 'clave-1' }, 'jobId');
+
+    expect(result.created).toBe(true);
+    expect(result.record).toMatchObject({ jobId: 'job-2' });
+  });
+
+  it('los índices únicos de la clave incluyen el registro padre', () => {
+    const scopes = [['message', 'chatId'], ['comment', 'jobId'], ['reply', 'commentId']];
+    for (const [model, scope] of scopes) {
+      const Model = jest.requireActual(`../models/${model}.model`);
+      expect(Model.options.indexes).toContainEqual(expect.objectContaining({
+        unique: true,
+        fields: ['userId', scope, 'idempotencyKey']
+      }));
+    }
+  });
+
+  it('devuelve el registro existente al repetir la clave', async () => {
+    const Model = buildModel();
+    const existing = { id: 'comment-1' };
+    Model.findOne.mockResolvedValue(existing);
+
+    const result = await createOnce(Model, { content: 'Hola', jobId: 'job-1', userId: 'user-1', idempotencyKey: 'clave-1' }, 'jobId');
+
+    expect(result).toEqual({ record: existing, created: false });
+    expect(Model.create).not.toHaveBeenCalled();
+  });
+
+  it('devuelve el registro del envío simultáneo que ganó la carrera', async () => {
+    const Model = buildModel();
+    const winner = { id: 'comment-2' };
+    Model.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce(winner);
+    Model.create.mockRejectedValue(new UniqueConstraintError({}));
+
+    const result = await createOnce(Model, { content: 'Hola', jobId: 'job-1', userId: 'user-1', idempotencyKey: 'clave-1' }, 'jobId');
+
+    expect(result).toEqual({ record: winner, created: false });
+  });
+
+  it('propaga los demás errores', async () => {
+    const Model = buildModel();
+    Model.findOne.mockResolvedValue(null);
+    Model.create.mockRejectedValue(new Error('Sin conexión con la base de datos'));
+
+    await expect(createOnce(Model, { jobId: 'job-1', userId: 'user-1', idempotencyKey: 'clave-1' }, 'jobId')).rejects.toThrow('Sin conexión');
+  });
+});
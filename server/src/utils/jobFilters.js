@@ -0,0 +1,156 @@
+const { Op } = require('sequelize');
+
+// Filtros de búsqueda que se pueden guardar en una búsqueda guardada
+const SEARCH_FILTER_FIELDS = ['search', 'category', 'status', 'skills', 'skillsMatch', 'minBudget', 'maxBudget'];
+
+/**
+ * Convertir el parámetro de habilidades (lista o texto separado por comas) en un array
+ */
+const parseSkills = (skills) => {
+  if (!skills) return [];
+  const list = Array.isArray(skills) ? skills : String(skills).split(',');
+  return list.map(skill => String(skill).trim()).filter(Boolean);
+};
+
+/**
+ * Convertir un límite de presupuesto en número; devuelve null si no es válido
+ */
+const parseBudget = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Escapar los comodines de LIKE (% y _) y el carácter de escape para buscar el texto tal cual
+ * (ej: "100%" no debe coincidir con todo)
+ */
+const escapeLike = (text) => String(text).replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Construir las condiciones de búsqueda a partir de los parámetros de consulta
+ * @param query - Parámetros de la petición
+ * @param exclude - Filtro que se omite (para calcular la faceta de ese mismo campo)
+ * @param hiddenUserIds - Usuarios cuyos trabajos no se muestran (los bloqueados por quien busca)
+ */
+const buildJobFilters = (query, exclude, hiddenUserIds = []) => {
+  const { search, category, status, userId, skills, skillsMatch, minBudget, maxBudget } = query;
+  // Los trabajos retirados por moderación no aparecen en ninguna búsqueda
+  const where = { moderationStatus: { [Op.ne]: 'removed' } };
+  
+  // Filtrar por categoría
+  if (category && exclude !== 'category') {
+    where.category = category;
+  }
+  
+  // Filtrar por estado
+  if (status && exclude !== 'status') {
+    where.status = status;
+  }
+  
+  // Filtrar por usuario que publica
+  if (userId) {
+    where.userId = userId;
+  }
+  
+  if (hiddenUserIds.length > 0) {
+    where.userId = userId
+      ? { [Op.eq]: userId, [Op.notIn]: hiddenUserIds }
+      : { [Op.notIn]: hiddenUserIds };
+  }
+  
+  // Filtrar por habilidades (cualquiera o todas)
+  const skillList = parseSkills(skills);
+  if (skillList.length > 0 && exclude !== 'skills') {
+    where.skills = skillsMatch === 'all'
+      ? { [Op.contains]: skillList }
+      : { [Op.overlap]: skillList };
+  }
+  
+  // Filtrar por rango de presupuesto
+  const budget = {};
+  if (parseBudget(minBudget) !== null) {
+    budget[Op.gte] = parseBudget(minBudget);
+  }
+  if (parseBudget(maxBudget) !== null) {
+    budget[Op.lte] = parseBudget(maxBudget);
+  }
+  if (Object.getOwnPropertySymbols(budget).length > 0) {
+    where.budget = budget;
+  }
+  
+  // Buscar por título o descripción
+  if (search) {
+    const pattern = `%${escapeLike(search)}%`;
+    where[Op.or] = [
+      { title: { [Op.iLike]: pattern } },
+      { description: { [Op.iLike]: pattern } }
+    ];
+  }
+  
+  return where;
+};
+
+/**
+ * Comprobar en memoria si un trabajo cumple unos filtros de búsqueda
+ * Equivale a buildJobFilters para un único trabajo ya cargado
+ */
+const matchesJobFilters = (job, filters = {}) => {
+  const { search, category, status, skills, skillsMatch, minBudget, maxBudget } = filters;
+  
+  if (category && job.category !== category) return false;
+  if (status && job.status !== status) return false;
+  
+  const skillList = parseSkills(skills);
+  if (skillList.length > 0) {
+    const jobSkills = job.skills || [];
+    const hasSkill = (skill) => jobSkills.includes(skill);
+    const matchesSkills = skillsMatch === 'all' ? skillList.every(hasSkill) : skillList.some(hasSkill);
+    if (!matchesSkills) return false;
+  }
+  
+  const min = parseBudget(minBudget);
+  const max = parseBudget(maxBudget);
+  if (min !== null && job.budget < min) return false;
+  if (max !== null && job.budget > max) return false;
+  
+  if (search) {
+    const term = String(search).toLowerCase();
+    const inTitle = (job.title || '').toLowerCase().includes(term);
+    const inDescription = (job.description || '').toLowerCase().includes(term);
+    if (!inTitle && !inDescription) return false;
+  }
+  
+  return true;
+};
+
+/**
+ * Quedarse solo con los filtros de búsqueda conocidos y con valor
+ */
+const pickSearchFilters = (filters = {}) => {
+  const picked = {};
+  
+  for (const field of SEARCH_FILTER_FIELDS) {
+    const value = filters[field];
+    if (value === undefined || value === null || value === '') continue;
+    
+    if (field === 'skills') {
+      const skillList = parseSkills(value);
+      if (skillList.length > 0) picked.skills = skillList;
+    } else if (field === 'minBudget' || field === 'maxBudget') {
+      if (parseBudget(value) !== null) picked[field] = parseBudget(value);
+    } else if (field === 'skillsMatch') {
+      picked.skillsMatch = value === 'all' ? 'all' : 'any';
+    } else {
+      picked[field] = String(value).trim();
+    }
+  }
+  
+  return picked;
+};
+
+module.exports = {
+  buildJobFilters,
+  matchesJobFilters,
+  pickSearchFilters
+};
@@ -0,0 +1,31 @@
+const { Op } = require('sequelize');
+const { buildJobFilters, matchesJobFilters } = require('./jobFilters');
+
+// Patrones de LIKE del filtro de texto (título y descripción)
+const searchPatterns = (search) =>
+  buildJobFilters({ search })[Op.or].map(condition => Object.values(condition)[0][Op.iLike]);
+
+describe('buildJobFilters', () => {
+  it('busca el texto en el título y la descripción', () => {
+    expect(searchPatterns('react')).toEqual(['%react%', '%react%']);
+  });
+
+  it('escapa los comodines de LIKE para buscar el texto tal cual', () => {
+    expect(searchPatterns('100%')).toEqual(['%100\\%%', '%100\\%%']);
+    expect(searchPatterns('mi_app')).toEqual(['%mi\\_app%', '%mi\\_app%']);
+    expect(searchPatterns('C:\\datos')).toEqual(['%C:\\\\datos%', '%C:\\\\datos%']);
+  });
+
+  it('no filtra por texto sin búsqueda', () => {
+    expect(buildJobFilters({})[Op.or]).toBeUndefined();
+  });
+});
+
+describe('matchesJobFilters', () => {
+  const job = { title: 'Descuento del 100% en la web', description: 'Tienda online', category: 'web' };
+
+  it('trata los comodines como texto literal, igual que la consulta', () => {
+    expect(matchesJobFilters(job, { search: '100%' })).toBe(true);
+    expect(matchesJobFilters(job, { search: '10_%' })).toBe(false);
+  });
+});
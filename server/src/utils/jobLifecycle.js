@@ -0,0 +1,210 @@
+const { Op } = require('sequelize');
+const { Job, Contract, Milestone, Proposal, JobStatusChange } = require('../models');
+const { hasJobPermission } = require('./organizations');
+
+/**
+ * Ciclo de vida de los trabajos
+ *
+ * Un trabajo se publica abierto, pasa a asignado al aceptar una oferta, a en curso
+ * cuando empieza el trabajo (o se financia el primer hito) y a completado al cerrarse.
+ * Quien lo gestiona puede cancelarlo mientras no esté completado y reabrirlo después;
+ * el freelancer asignado puede renunciar antes de empezar. Cada cambio queda en el
+ * historial (JobStatusChange).
+ */
+
+// Roles: owner (puede gestionar el trabajo), freelancer (asignado) y system
+// (cambios que provocan otras acciones: aceptar una oferta, financiar o liberar hitos)
+const JOB_TRANSITIONS = [
+  { from: 'open', to: 'assigned', roles: ['system'] },
+  { from: 'open', to: 'cancelled', roles: ['owner'], reasonRequired: true },
+  { from: 'assigned', to: 'in-progress', roles: ['owner', 'freelancer', 'system'] },
+  { from: 'assigned', to: 'open', roles: ['owner', 'freelancer'], reasonRequired: true },
+  { from: 'assigned', to: 'cancelled', roles: ['owner'], reasonRequired: true },
+  { from: 'in-progress', to: 'completed', roles: ['owner', 'system'] },
+  { from: 'in-progress', to: 'cancelled', roles: ['owner'], reasonRequired: true },
+  { from: 'cancelled', to: 'open', roles: ['owner'] }
+];
+
+const STATUS_LABELS = {
+  open: 'abierto',
+  assigned: 'asignado',
+  'in-progress': 'en curso',
+  completed: 'completado',
+  cancelled: 'cancelado'
+};
+
+// Estados de hito con el importe retenido en garantía
+const ESCROW_STATUSES = ['funded', 'submitted', 'approved', 'disputed'];
+
+const MAX_REASON_LENGTH = 1000;
+
+const findTransition = (from, to) => JOB_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+
+/**
+ * Roles de un usuario sobre un trabajo (vacío si no tiene relación con él)
+ */
+const getJobRoles = async (job, userId) => {
+  if (!userId) return [];
+  
+  const roles = [];
+  if (await hasJobPermission(job, userId, 'jobs:manage')) roles.push('owner');
+  if (job.assignedTo === userId) roles.push('freelancer');
+  return roles;
+};
+
+/**
+ * Estados a los que un usuario con esos roles puede llevar el trabajo
+ */
+const getAvailableTransitions = (job, roles) => JOB_TRANSITIONS
+  .filter(transition => transition.from === job.status && transition.roles.some(role => roles.includes(role)))
+  .map(transition => ({ status: transition.to, reasonRequired: !!transition.reasonRequired }));
+
+/**
+ * Registrar un cambio de estado en el historial
+ */
+const recordStatusChange = (job, fromStatus, { userId = null, reason = null, transaction } = {}) =>
+  JobStatusChange.create({
+    jobId: job.id,
+    fromStatus,
+    toStatus: job.status,
+    reason,
+    changedBy: userId
+  }, { transaction });
+
+/**
+ * Cambiar el estado de un trabajo validando la transición y registrarlo en el historial
+ * Al cancelar, reabrir o completar a mano se cierra el contrato activo, siempre que
+ * no tenga importes en garantía pendientes
+ * @param options.roles - Roles de quien hace el cambio (por defecto, un cambio del sistema)
+ * @returns { status, error } si no se permite el cambio, null si se ha aplicado
+ */
+const transitionJob = async (job, toStatus, { userId = null, roles = ['system'], reason = null, transaction } = {}) => {
+  const transition = findTransition(job.status, toStatus);
+  if (!transition) {
+    return {
+      status: 400,
+      error: `Un trabajo ${STATUS_LABELS[job.status] || job.status} no puede pasar a ${STATUS_LABELS[toStatus] || toStatus}`
+    };
+  }
+  
+  if (!transition.roles.some(role => roles.includes(role))) {
+    return { status: 403, error: 'No tienes permiso para realizar este cambio de estado' };
+  }
+  
+  const cleanReason = String(reason || '').trim();
+  if (transition.reasonRequired && !cleanReason) {
+    return { status: 400, error: 'Indica el motivo del cambio' };
+  }
+  if (cleanReason.length > MAX_REASON_LENGTH) {
+    return { status: 400, error: `El motivo no puede superar los ${MAX_REASON_LENGTH} caracteres` };
+  }
+  
+  const contract = await Contract.findOne({
+    where: { jobId: job.id, status: 'active' },
+    transaction,
+    lock: transaction ? transaction.LOCK.UPDATE : undefined
+  });
+  
+  if (contract && ['cancelled', 'open', 'completed'].includes(toStatus)) {
+    const escrowed = await Milestone.count({
+      where: { contractId: contract.id, status: ESCROW_STATUSES },
+      transaction
+    });
+    
+    if (escrowed > 0) {
+      return {
+        status: 400,
+        error: 'El contrato tiene hitos con importes en garantía; libéralos o resuélvelos antes de cambiar el estado'
+      };
+    }
+    
+    contract.status = toStatus === 'completed' ? 'completed' : 'cancelled';
+    await contract.save({ transaction });
+  }
+  
+  // Al volver a abierto el trabajo queda libre para recibir ofertas
+  // (la oferta aceptada pasa a retirada y su autor puede enviar otra)
+  if (toStatus === 'open') {
+    job.assignedTo = null;
+    await Proposal.update(
+      { status: 'withdrawn' },
+      { where: { jobId: job.id, status: 'accepted' }, transaction }
+    );
+  }
+  
+  if (toStatus === 'completed') {
+    job.completedAt = new Date();
+  }
+  
+  const fromStatus = job.status;
+  job.status = toStatus;
+  await job.save({ transaction });
+  await recordStatusChange(job, fromStatus, { userId, reason: cleanReason || null, transaction });
+  
+  return null;
+};
+
+/**
+ * Bloquear un contrato y su trabajo dentro de una transacción
+ * Siempre en el mismo orden que transitionJob, primero el trabajo y después el contrato,
+ * para que dos operaciones simultáneas sobre el mismo trabajo no se bloqueen entre sí
+ * @returns { contract, job } o null si el contrato no existe
+ */
+const lockContractWithJob = async (contractId, transaction) => {
+  const found = await Contract.findByPk(contractId, { attributes: ['id', 'jobId'], transaction });
+  if (!found) return null;
+  
+  const job = await Job.findByPk(found.jobId, { transaction, lock: transaction.LOCK.UPDATE });
+  const contract = await Contract.findByPk(contractId, { transaction, lock: transaction.LOCK.UPDATE });
+  return { contract, job };
+};
+
+/**
+ * Asignar un trabajo abierto al aceptar una oferta
+ * Se rechazan las demás ofertas activas y se crea un contrato nuevo con el importe acordado
+ * (los de asignaciones anteriores se cancelaron al reabrir el trabajo y se conservan)
+ * @returns { contract } o { status, error } si el trabajo no se puede asignar
+ */
+const assignJob = async (job, proposal, { userId = null, transaction } = {}) => {
+  if (job.status !== 'open') {
+    return { status: 400, error: 'El trabajo ya tiene un freelancer asignado' };
+  }
+  
+  await Proposal.update(
+    { status: 'rejected' },
+    {
+      where: {
+        jobId: job.id,
+        id: { [Op.ne]: proposal.id },
+        status: { [Op.in]: ['pending', 'shortlisted'] }
+      },
+      transaction
+    }
+  );
+  
+  job.assignedTo = proposal.userId;
+  const transitionError = await transitionJob(job, 'assigned', { userId, transaction });
+  if (transitionError) return transitionError;
+  
+  // La parte cliente es quien publicó el trabajo, aunque acepte otro miembro
+  const contract = await Contract.create({
+    jobId: job.id,
+    proposalId: proposal.id,
+    clientId: job.userId,
+    freelancerId: proposal.userId,
+    title: job.title,
+    totalAmount: proposal.proposedBudget
+  }, { transaction });
+  
+  return { contract };
+};
+
+module.exports = {
+  JOB_TRANSITIONS,
+  getJobRoles,
+  getAvailableTransitions,
+  recordStatusChange,
+  transitionJob,
+  lockContractWithJob,
+  assignJob
+};
@@ -0,0 +1,277 @@
+jest.mock('../models', () => ({
+  Job: { findByPk: jest.fn() },
+  Contract: { findOne: jest.fn(), findByPk: jest.fn(), create: jest.fn() },
+  Milestone: { count: jest.fn() },
+  Proposal: { update: jest.fn() },
+  JobStatusChange: { create: jest.fn() }
+}));
+
+jest.mock('./organizations', () => ({
+  hasJobPermission: jest.fn()
+}));
+
+const { Job, Contract, Milestone, Proposal, JobStatusChange } = require('../models');
+const { hasJobPermission } = require('./organizations');
+const {
+  JOB_TRANSITIONS,
+  getJobRoles,
+  getAvailableTransitions,
+  transitionJob,
+  lockContractWithJob,
+  assignJob
+} = require('./jobLifecycle');
+
+const STATUSES = ['open', 'assigned', 'in-progress', 'completed', 'cancelled'];
+
+const buildJob = (status, data = {}) => ({
+  id: 'job-1',
+  status,
+  assignedTo: 'freelancer-1',
+  save: jest.fn(),
+  ...data
+});
+
+const buildContract = () => ({ id: 'contract-1', status: 'active', save: jest.fn() });
+
+const isAllowed = (from, to) => JOB_TRANSITIONS.some(transition => transition.from === from && transition.to === to);
+
+// Todos los pares de estados distintos que el ciclo de vida no permite
+const FORBIDDEN = STATUSES.flatMap(from => STATUSES
+  .filter(to => to !== from && !isAllowed(from, to))
+  .map(to => [from, to]));
+
+const ALL_ROLES = ['owner', 'freelancer', 'system'];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  Contract.findOne.mockResolvedValue(null);
+  Milestone.count.mockResolvedValue(0);
+});
+
+describe('transitionJob', () => {
+  it.each(JOB_TRANSITIONS.map(transition => [transition.from, transition.to, transition]))(
+    'permite pasar de %s a %s',
+    async (from, to, transition) => {
+      const job = buildJob(from);
+
+      const result = await transitionJob(job, to, {
+        userId: 'user-1',
+        roles: transition.roles,
+        reason: 'Motivo'
+      });
+
+      expect(result).toBeNull();
+      expect(job.status).toBe(to);
+      expect(job.save).toHaveBeenCalled();
+      expect(JobStatusChange.create).toHaveBeenCalledWith(expect.objectContaining({
+        jobId: 'job-1',
+        fromStatus: from,
+        toStatus: to,
+        changedBy: 'user-1',
+        reason: 'Motivo'
+      }), { transaction: undefined });
+    }
+  );
+
+  it.each(FORBIDDEN)('no permite pasar de %s a %s', async (from, to) => {
+    const job = buildJob(from);
+
+    const result = await transitionJob(job, to, { roles: ALL_ROLES, reason: 'Motivo' });
+
+    expect(result).toMatchObject({ status: 400 });
+    expect(job.status).toBe(from);
+    expect(job.save).not.toHaveBeenCalled();
+    expect(JobStatusChange.create).not.toHaveBeenCalled();
+  });
+
+  it('solo el sistema asigna un trabajo (al aceptar una oferta)', async () => {
+    const job = buildJob('open');
+
+    expect(await transitionJob(job, 'assigned', { roles: ['owner'] })).toMatchObject({ status: 403 });
+    expect(job.status).toBe('open');
+  });
+
+  it('el freelancer no puede cancelar ni completar el trabajo', async () => {
+    expect(await transitionJob(buildJob('assigned'), 'cancelled', { roles: ['freelancer'], reason: 'Motivo' }))
+      .toMatchObject({ status: 403 });
+    expect(await transitionJob(buildJob('in-progress'), 'completed', { roles: ['freelancer'] }))
+      .toMatchObject({ status: 403 });
+  });
+
+  it('exige un motivo para cancelar o reabrir', async () => {
+    const job = buildJob('open');
+
+    expect(await transitionJob(job, 'cancelled', { roles: ['owner'], reason: '   ' }))
+      .toEqual({ status: 400, error: 'Indica el motivo del cambio' });
+    expect(job.status).toBe('open');
+  });
+
+  it('rechaza motivos demasiado largos', async () => {
+    const result = await transitionJob(buildJob('open'), 'cancelled', { roles: ['owner'], reason: 'a'.repeat(1001) });
+
+    expect(result).toMatchObject({ status: 400 });
+  });
+
+  it('no cancela un trabajo con importes en garantía', async () => {
+    const contract = buildContract();
+    Contract.findOne.mockResolvedValue(contract);
+    Milestone.count.mockResolvedValue(1);
+    const job = buildJob('in-progress');
+
+    const result = await transitionJob(job, 'cancelled', { roles: ['owner'], reason: 'Motivo' });
+
+    expect(result).toMatchObject({ status: 400 });
+    expect(job.status).toBe('in-progress');
+    expect(contract.status).toBe('active');
+  });
+
+  it('al cancelar cierra el contrato activo sin importes en garantía', async () => {
+    const contract = buildContract();
+    Contract.findOne.mockResolvedValue(contract);
+
+    await transitionJob(buildJob('assigned'), 'cancelled', { roles: ['owner'], reason: 'Motivo' });
+
+    expect(contract.status).toBe('cancelled');
+    expect(contract.save).toHaveBeenCalled();
+  });
+
+  it('al completar guarda la fecha y completa el contrato', async () => {
+    const contract = buildContract();
+    Contract.findOne.mockResolvedValue(contract);
+    const job = buildJob('in-progress');
+
+    await transitionJob(job, 'completed');
+
+    expect(job.completedAt).toBeInstanceOf(Date);
+    expect(contract.status).toBe('completed');
+  });
+
+  it('al reabrir quita el freelancer asignado y retira su oferta', async () => {
+    const job = buildJob('assigned');
+
+    await transitionJob(job, 'open', { roles: ['freelancer'], reason: 'No puedo hacerlo' });
+
+    expect(job.assignedTo).toBeNull();
+    expect(Proposal.update).toHaveBeenCalledWith(
+      { status: 'withdrawn' },
+      { where: { jobId: 'job-1', status: 'accepted' }, transaction: undefined }
+    );
+  });
+
+  it('bloquea el contrato dentro de la transacción', async () => {
+    const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+    await transitionJob(buildJob('assigned'), 'in-progress', { transaction });
+
+    expect(Contract.findOne).toHaveBeenCalledWith(expect.objectContaining({ transaction, lock: 'UPDATE' }));
+  });
+});
+
+describe('assignJob', () => {
+  const proposal = { id: 'proposal-2', userId: 'freelancer-2', proposedBudget: 500 };
+
+  beforeEach(() => {
+    Contract.create.mockImplementation(async (data) => ({ id: 'contract-2', status: 'active', ...data }));
+  });
+
+  it('asigna el trabajo, rechaza las demás ofertas y crea el contrato', async () => {
+    const job = buildJob('open', { assignedTo: null, userId: 'owner-1', title: 'Web' });
+
+    const result = await assignJob(job, proposal, { userId: 'owner-1' });
+
+    expect(job.status).toBe('assigned');
+    expect(job.assignedTo).toBe('freelancer-2');
+    expect(Proposal.update).toHaveBeenCalledWith({ status: 'rejected' }, expect.objectContaining({
+      where: expect.objectContaining({ jobId: 'job-1' })
+    }));
+    expect(result.contract).toMatchObject({
+      jobId: 'job-1',
+      proposalId: 'proposal-2',
+      clientId: 'owner-1',
+      freelancerId: 'freelancer-2',
+      totalAmount: 500
+    });
+  });
+
+  it('no asigna un trabajo que no está abierto', async () => {
+    const result = await assignJob(buildJob('assigned'), proposal);
+
+    expect(result).toMatchObject({ status: 400 });
+    expect(Contract.create).not.toHaveBeenCalled();
+  });
+
+  it('un trabajo reabierto se puede volver a asignar con un contrato nuevo', async () => {
+    const previous = buildContract();
+    Contract.findOne.mockResolvedValueOnce(previous);
+    const job = buildJob('assigned', { userId: 'owner-1', title: 'Web' });
+
+    await transitionJob(job, 'open', { roles: ['owner'], reason: 'El freelancer no responde' });
+    const result = await assignJob(job, proposal, { userId: 'owner-1' });
+
+    expect(previous.status).toBe('cancelled');
+    expect(job.status).toBe('assigned');
+    expect(result.contract).toMatchObject({ id: 'contract-2', status: 'active', freelancerId: 'freelancer-2' });
+  });
+
+  it('el esquema admite varios contratos por trabajo pero solo uno activo', () => {
+    const ContractModel = jest.requireActual('../models/contract.model');
+
+    expect(ContractModel.rawAttributes.jobId.unique).toBeFalsy();
+    expect(ContractModel.options.indexes).toContainEqual(expect.objectContaining({
+      unique: true,
+      fields: ['jobId'],
+      where: { status: 'active' }
+    }));
+  });
+});
+
+describe('lockContractWithJob', () => {
+  const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+  it('bloquea el trabajo antes que el contrato, igual que transitionJob', async () => {
+    const contract = buildContract();
+    const job = buildJob('in-progress');
+    Contract.findByPk
+      .mockResolvedValueOnce({ id: 'contract-1', jobId: 'job-1' })
+      .mockResolvedValueOnce(contract);
+    Job.findByPk.mockResolvedValue(job);
+
+    const result = await lockContractWithJob('contract-1', transaction);
+
+    expect(result).toEqual({ contract, job });
+    expect(Job.findByPk).toHaveBeenCalledWith('job-1', { transaction, lock: 'UPDATE' });
+    expect(Contract.findByPk).toHaveBeenLastCalledWith('contract-1', { transaction, lock: 'UPDATE' });
+    expect(Job.findByPk.mock.invocationCallOrder[0])
+      .toBeLessThan(Contract.findByPk.mock.invocationCallOrder[1]);
+  });
+
+  it('devuelve null si el contrato no existe', async () => {
+    Contract.findByPk.mockResolvedValueOnce(null);
+
+    expect(await lockContractWithJob('contract-9', transaction)).toBeNull();
+    expect(Job.findByPk).not.toHaveBeenCalled();
+  });
+});
+
+describe('getJobRoles', () => {
+  it('distingue a quien gestiona el trabajo y al freelancer asignado', async () => {
+    hasJobPermission.mockImplementation(async (job, userId) => userId === 'owner-1');
+    const job = buildJob('assigned');
+
+    expect(await getJobRoles(job, 'owner-1')).toEqual(['owner']);
+    expect(await getJobRoles(job, 'freelancer-1')).toEqual(['freelancer']);
+    expect(await getJobRoles(job, 'other-1')).toEqual([]);
+    expect(await getJobRoles(job, null)).toEqual([]);
+    expect(hasJobPermission).toHaveBeenCalledWith(job, 'owner-1', 'jobs:manage');
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  it('devuelve los cambios permitidos para los roles del usuario', () => {
+    expect(getAvailableTransitions(buildJob('assigned'), ['freelancer'])).toEqual([
+      { status: 'in-progress', reasonRequired: false },
+      { status: 'open', reasonRequired: true }
+    ]);
+    expect(getAvailableTransitions(buildJob('completed'), ALL_ROLES)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+const fs = require('fs').promises;
+const path = require('path');
+
+/**
+ * Envío de correos
+ *
+ * El transporte se elige con MAIL_TRANSPORT:
+ * - smtp: servidor SMTP real (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+ * - file: guarda cada correo como .eml en MAIL_OUTBOX_DIR para abrirlo con cualquier cliente de correo
+ * - console: escribe los correos en el log (por defecto, para desarrollo local)
+ *
+ * Todos los transportes exponen send({ from, to, subject, text, html }).
+ */
+
+// Remitente de los correos de la plataforma
+const MAIL_FROM = process.env.MAIL_FROM || 'WorkFlowConnect <no-reply@workflowconnect.local>';
+
+// Carpeta del transporte file
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '../../mail-outbox');
+
+/**
+ * Transporte SMTP (nodemailer)
+ */
+const createSmtpTransport = () => {
+  // Se carga solo si se usa, para no exigir la configuración SMTP en desarrollo
+  const nodemailer = require('nodemailer');
+  const port = parseInt(process.env.SMTP_PORT, 10) || 587;
+  
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+  
+  return {
+    name: 'smtp',
+    send: (message) => transporter.sendMail(message)
+  };
+};
+
+/**
+ * Transporte de archivos: un .eml por correo en la carpeta de salida
+ */
+const createFileTransport = () => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(MAIL_OUTBOX_DIR, { recursive: true });
+    
+    const boundary = `wfc-${Date.now().toString(36)}`;
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      // Asunto codificado (RFC 2047) para las tildes
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0'
+    ];
+    const body = message.html
+      ? [
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        message.html,
+        `--${boundary}--`
+      ]
+      : ['Content-Type: text/plain; charset=utf-8', '', message.text];
+    
+    const slug = message.to.replace(/[^a-z0-9]+/gi, '_');
+    const filePath = path.join(MAIL_OUTBOX_DIR, `${Date.now()}-${slug}.eml`);
+    await fs.writeFile(filePath, [...headers, ...body].join('\r\n'));
+    
+    console.log(`Correo guardado en ${filePath}`);
+  }
+});
+
+/**
+ * Transporte de consola: escribe los correos en el log
+ */
+const createConsoleTransport = () => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`Correo para ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+const TRANSPORTS = {
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  console: createConsoleTransport
+};
+
+// Transporte en uso; se crea en el primer envío
+let transport = null;
+
+const getTransport = () => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || 'console';
+    const createTransport = TRANSPORTS[name];
+    
+    if (!createTransport) {
+      throw new Error(`Transporte de correo desconocido: ${name}`);
+    }
+    transport = createTransport();
+  }
+  return transport;
+};
+
+/**
+ * Enviar un correo con el transporte configurado
+ * @param message - { to, subject, text, html? }
+ */
+const sendMail = async (message) => {
+  await getTransport().send({ from: MAIL_FROM, ...message });
+};
+
+module.exports = {
+  sendMail
+};
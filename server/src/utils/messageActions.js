@@ -0,0 +1,172 @@
+const { sequelize, Chat, Message, MessageEdit, MessageReaction } = require('../models');
+const { findMessageWithReceipts } = require('./messageReceipts');
+
+/**
+ * Acciones sobre mensajes ya enviados (editar, eliminar para todos y reaccionar)
+ * Las usan tanto los eventos del socket como la API REST. Cada una devuelve
+ * el resultado o { status, error } para que quien la llama responda como corresponda.
+ */
+
+/**
+ * Cargar un mensaje comprobando que el usuario participa en su chat
+ * @param chatId - Si se indica, el mensaje debe pertenecer a ese chat
+ */
+const findParticipantMessage = async (messageId, userId, chatId) => {
+  const message = await Message.findByPk(messageId, {
+    include: [{ model: Chat, as: 'chat' }]
+  });
+  
+  if (!message || (chatId && message.chatId !== chatId)) {
+    return { status: 404, error: 'Mensaje no encontrado' };
+  }
+  
+  const isParticipant = await message.chat.hasParticipant(userId);
+  if (!isParticipant) {
+    return { status: 403, error: 'No tienes acceso a este chat' };
+  }
+  
+  return { message };
+};
+
+/**
+ * Comprobar que el usuario es el remitente de un mensaje que sigue visible
+ */
+const checkOwnMessage = (message, userId, action) => {
+  if (message.userId !== userId) {
+    return { status: 403, error: `Solo puedes ${action} tus propios mensajes` };
+  }
+  if (message.deletedAt) {
+    return { status: 400, error: 'El mensaje ha sido eliminado' };
+  }
+  return null;
+};
+
+/**
+ * Editar el contenido de un mensaje propio guardando la versión anterior
+ * @returns { message } con el mensaje actualizado
+ */
+const editMessage = async ({ messageId, chatId, userId, content }) => {
+  if (!content || !content.trim()) {
+    return { status: 400, error: 'El mensaje no puede estar vacío' };
+  }
+  
+  const result = await findParticipantMessage(messageId, userId, chatId);
+  if (result.error) return result;
+  
+  const { message } = result;
+  const ownershipError = checkOwnMessage(message, userId, 'editar');
+  if (ownershipError) return ownershipError;
+  
+  if (message.content !== content) {
+    const transaction = await sequelize.transaction();
+    
+    try {
+      await MessageEdit.create({ messageId: message.id, content: message.content }, { transaction });
+      
+      message.content = content;
+      message.editedAt = new Date();
+      await message.save({ transaction });
+      
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+  
+  return { message: await findMessageWithReceipts(message.id) };
+};
+
+/**
+ * Eliminar un mensaje propio para todos los participantes
+ * Solo se permite durante Message.DELETE_WINDOW_MS desde el envío. Se vacía el contenido
+ * y se borran su historial de ediciones y sus reacciones, pero el mensaje sigue en el chat
+ * @returns { message } con el mensaje eliminado
+ */
+const deleteMessage = async ({ messageId, chatId, userId }) => {
+  const result = await findParticipantMessage(messageId, userId, chatId);
+  if (result.error) return result;
+  
+  const { message } = result;
+  const ownershipError = checkOwnMessage(message, userId, 'eliminar');
+  if (ownershipError) return ownershipError;
+  
+  if (Date.now() - new Date(message.createdAt).getTime() > Message.DELETE_WINDOW_MS) {
+    return { status: 400, error: 'Ya no se puede eliminar este mensaje para todos' };
+  }
+  
+  const transaction = await sequelize.transaction();
+  
+  try {
+    await MessageEdit.destroy({ where: { messageId: message.id }, transaction });
+    await MessageReaction.destroy({ where: { messageId: message.id }, transaction });
+    
+    message.content = '';
+    message.deletedAt = new Date();
+    await message.save({ transaction });
+    
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+  
+  return { message };
+};
+
+/**
+ * Añadir o quitar la reacción de un usuario a un mensaje
+ * @returns { message, reactions } con todas las reacciones del mensaje
+ */
+const toggleReaction = async ({ messageId, chatId, userId, emoji }) => {
+  if (!MessageReaction.EMOJIS.includes(emoji)) {
+    return { status: 400, error: 'Reacción no válida' };
+  }
+  
+  const result = await findParticipantMessage(messageId, userId, chatId);
+  if (result.error) return result;
+  
+  const { message } = result;
+  if (message.deletedAt || !message.userId) {
+    return { status: 400, error: 'No se puede reaccionar a este mensaje' };
+  }
+  
+  const existing = await MessageReaction.findOne({ where: { messageId: message.id, userId, emoji } });
+  if (existing) {
+    await existing.destroy();
+  } else {
+    await MessageReaction.create({ messageId: message.id, userId, emoji });
+  }
+  
+  const reactions = await MessageReaction.findAll({
+    where: { messageId: message.id },
+    attributes: ['emoji', 'userId', 'createdAt'],
+    order: [['createdAt', 'ASC']]
+  });
+  
+  return { message, reactions };
+};
+
+/**
+ * Obtener las versiones anteriores de un mensaje (de la más antigua a la más reciente)
+ * @returns { edits }
+ */
+const getMessageEdits = async ({ messageId, chatId, userId }) => {
+  const result = await findParticipantMessage(messageId, userId, chatId);
+  if (result.error) return result;
+  
+  const edits = await MessageEdit.findAll({
+    where: { messageId },
+    attributes: ['id', 'content', 'createdAt'],
+    order: [['createdAt', 'ASC']]
+  });
+  
+  return { edits };
+};
+
+module.exports = {
+  editMessage,
+  deleteMessage,
+  toggleReaction,
+  getMessageEdits
+};
@@ -0,0 +1,114 @@
+const { Message, MessageReceipt, MessageReaction, User } = require('../models');
+
+// Datos de los recibos que se devuelven con cada mensaje
+const RECEIPT_ATTRIBUTES = ['userId', 'deliveredAt', 'readAt'];
+
+// Relaciones que se incluyen al devolver un mensaje (remitente, recibos y reacciones)
+const MESSAGE_INCLUDE = [
+  {
+    model: User,
+    as: 'user',
+    attributes: ['id', 'name', 'photoURL']
+  },
+  {
+    model: MessageReceipt,
+    as: 'receipts',
+    attributes: RECEIPT_ATTRIBUTES
+  },
+  {
+    model: MessageReaction,
+    as: 'reactions',
+    attributes: ['emoji', 'userId', 'createdAt']
+  }
+];
+
+/**
+ * Crear un recibo por cada destinatario de un mensaje
+ * Los destinatarios conectados lo reciben al momento, así que se marca como entregado
+ */
+const createMessageReceipts = async (chat, message) => {
+  if (!message.userId) return [];
+  
+  const participants = await chat.getParticipants({ attributes: ['id', 'isOnline'], joinTableAttributes: [] });
+  const now = new Date();
+  
+  return MessageReceipt.bulkCreate(
+    participants
+      .filter(participant => participant.id !== message.userId)
+      .map(participant => ({
+        messageId: message.id,
+        userId: participant.id,
+        deliveredAt: participant.isOnline ? now : null
+      }))
+  );
+};
+
+/**
+ * Cargar un mensaje con su remitente y sus recibos
+ */
+const findMessageWithReceipts = (messageId) => Message.findByPk(messageId, { include: MESSAGE_INCLUDE });
+
+/**
+ * Marcar como entregados los mensajes pendientes de un usuario que acaba de conectarse
+ * @returns IDs de los chats con mensajes entregados
+ */
+const markMessagesDelivered = async (userId) => {
+  const receipts = await MessageReceipt.findAll({
+    where: { userId, deliveredAt: null },
+    attributes: ['id'],
+    include: [
+      {
+        model: Message,
+        as: 'message',
+        attributes: ['chatId']
+      }
+    ]
+  });
+  
+  if (receipts.length === 0) return [];
+  
+  await MessageReceipt.update(
+    { deliveredAt: new Date() },
+    { where: { id: receipts.map(receipt => receipt.id) } }
+  );
+  
+  return [...new Set(receipts.map(receipt => receipt.message.chatId))];
+};
+
+/**
+ * Marcar como leídos los mensajes de un chat para un usuario
+ * @returns Número de mensajes que estaban sin leer
+ */
+const markChatMessagesRead = async (chatId, userId) => {
+  const receipts = await MessageReceipt.findAll({
+    where: { userId, readAt: null },
+    attributes: ['id'],
+    include: [
+      {
+        model: Message,
+        as: 'message',
+        attributes: [],
+        where: { chatId }
+      }
+    ]
+  });
+  
+  if (receipts.length === 0) return 0;
+  
+  const now = new Date();
+  const ids = receipts.map(receipt => receipt.id);
+  
+  // Un mensaje leído también se ha entregado
+  await MessageReceipt.update({ deliveredAt: now }, { where: { id: ids, deliveredAt: null } });
+  await MessageReceipt.update({ readAt: now }, { where: { id: ids } });
+  
+  return ids.length;
+};
+
+module.exports = {
+  MESSAGE_INCLUDE,
+  createMessageReceipts,
+  findMessageWithReceipts,
+  markMessagesDelivered,
+  markChatMessagesRead
+};
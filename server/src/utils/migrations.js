@@ -0,0 +1,117 @@
+const fs = require('fs');
+const path = require('path');
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../models');
+
+/**
+ * Migraciones del esquema
+ *
+ * `sequelize.sync()` crea las tablas que faltan pero nunca modifica las existentes,
+ * así que los cambios en tablas que ya existían (columnas nuevas, valores de ENUM,
+ * columnas eliminadas) se aplican con las migraciones de src/migrations.
+ *
+ * Se ejecutan al arrancar, antes de sync, en orden de nombre y una sola vez: las
+ * aplicadas se guardan en la tabla SchemaMigrations. Cada migración solo toca tablas
+ * que ya existen; en una base de datos nueva no hacen nada y sync crea las tablas
+ * completas a partir de los modelos.
+ */
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const MIGRATIONS_TABLE = 'SchemaMigrations';
+
+const queryInterface = sequelize.getQueryInterface();
+
+/**
+ * Indicar si existe una tabla
+ */
+const tableExists = async (table) => {
+  const tables = await queryInterface.showAllTables();
+  return tables.includes(table);
+};
+
+/**
+ * Añadir una columna a una tabla existente si aún no la tiene
+ * @returns true si se ha añadido (para completar los datos de las filas existentes)
+ */
+const addColumnIfMissing = async (table, column, definition) => {
+  if (!(await tableExists(table))) return false;
+
+  const columns = await queryInterface.describeTable(table);
+  if (columns[column]) return false;
+
+  await queryInterface.addColumn(table, column, definition);
+  return true;
+};
+
+/**
+ * Eliminar una columna de una tabla existente si todavía la tiene
+ */
+const removeColumnIfExists = async (table, column) => {
+  if (!(await tableExists(table))) return false;
+
+  const columns = await queryInterface.describeTable(table);
+  if (!columns[column]) return false;
+
+  await queryInterface.removeColumn(table, column);
+  return true;
+};
+
+/**
+ * Añadir un valor a un ENUM creado por Sequelize (enum_<tabla>_<columna>)
+ */
+const addEnumValue = async (table, column, value) => {
+  if (!(await tableExists(table))) return;
+
+  await sequelize.query(
+    `ALTER TYPE "enum_${table}_${column}" ADD VALUE IF NOT EXISTS ${sequelize.escape(value)}`
+  );
+};
+
+// Utilidades que recibe cada migración
+const context = {
+  sequelize,
+  queryInterface,
+  DataTypes,
+  tableExists,
+  addColumnIfMissing,
+  removeColumnIfExists,
+  addEnumValue
+};
+
+/**
+ * Aplicar las migraciones pendientes
+ * Si una falla se detiene el arranque: el resto del código cuenta con el esquema actualizado
+ */
+const runMigrations = async () => {
+  await queryInterface.createTable(MIGRATIONS_TABLE, {
+    name: {
+      type: DataTypes.STRING,
+      primaryKey: true
+    },
+    appliedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  });
+
+  const [rows] = await sequelize.query(`SELECT "name" FROM "${MIGRATIONS_TABLE}"`);
+  const applied = new Set(rows.map(row => row.name));
+
+  const files = fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.js'))
+    .sort();
+
+  for (const file of files) {
+    const name = path.basename(file, '.js');
+    if (applied.has(name)) continue;
+
+    const migration = require(path.join(MIGRATIONS_DIR, file));
+    await migration.up(context);
+    await queryInterface.bulkInsert(MIGRATIONS_TABLE, [{ name, appliedAt: new Date() }]);
+    console.log(`Migración aplicada: ${name}`);
+  }
+};
+
+module.exports = {
+  runMigrations
+};
@@ -0,0 +1,164 @@
+const { Op } = require('sequelize');
+const { sequelize, User, Job, Comment, Reply, Message, MessageEdit, MessageReaction, Attachment, AuditLog } = require('../models');
+const { UUID_PATTERN } = require('./sessionTokens');
+const { removeAttachmentFiles } = require('./attachmentStorage');
+
+/**
+ * Moderación
+ *
+ * Los administradores revisan los trabajos nuevos y las denuncias, suspenden o
+ * expulsan cuentas y gestionan el catálogo de categorías y habilidades. Cada una
+ * de esas acciones queda en el registro de auditoría (AuditLog).
+ */
+
+// Modelo de cada tipo de contenido que se puede denunciar
+const REPORT_TARGET_MODELS = {
+  job: Job,
+  comment: Comment,
+  reply: Reply,
+  message: Message,
+  user: User
+};
+
+/**
+ * Dar el rol de administrador a las cuentas de ADMIN_EMAILS (correos separados por comas)
+ * Es la única forma de crear administradores; se ejecuta al arrancar el servidor
+ */
+const ensureAdminUsers = async () => {
+  const emails = String(process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  
+  if (emails.length === 0) return;
+  
+  const [promotedCount] = await User.update({ role: 'admin' }, {
+    where: {
+      [Op.and]: [
+        sequelize.where(sequelize.fn('lower', sequelize.col('email')), { [Op.in]: emails }),
+        { role: { [Op.ne]: 'admin' } }
+      ]
+    }
+  });
+  
+  if (promotedCount > 0) {
+    console.log(`Administradores asignados desde ADMIN_EMAILS: ${promotedCount}`);
+  }
+};
+
+/**
+ * Guardar una acción de un administrador en el registro de auditoría
+ * @param target - { type, id } del elemento afectado
+ * @param details - Motivo, valores anteriores y nuevos...
+ */
+const recordAdminAction = (adminId, action, target, details = {}, transaction) =>
+  AuditLog.create({
+    adminId,
+    action,
+    targetType: target.type,
+    targetId: String(target.id),
+    details
+  }, { transaction });
+
+/**
+ * Cargar el contenido denunciado (null si ya no existe)
+ */
+const findReportTarget = async (targetType, targetId, options = {}) => {
+  const model = REPORT_TARGET_MODELS[targetType];
+  if (!model || !UUID_PATTERN.test(targetId || '')) return null;
+  
+  // Las respuestas se enlazan desde el trabajo de su comentario
+  const include = targetType === 'reply'
+    ? [{ model: Comment, as: 'comment', attributes: ['jobId'] }]
+    : [];
+  
+  return model.findByPk(targetId, { include, ...options });
+};
+
+/**
+ * Resumen del contenido denunciado para la cola de moderación
+ * @returns { preview, authorId, jobId, chatId, removed } o null si ya no existe
+ */
+const describeReportTarget = (targetType, target) => {
+  if (!target) return null;
+  
+  switch (targetType) {
+    case 'job':
+      return {
+        preview: target.title,
+        authorId: target.userId,
+        jobId: target.id,
+        removed: target.moderationStatus === 'removed'
+      };
+    case 'comment':
+      return { preview: target.content, authorId: target.userId, jobId: target.jobId, removed: false };
+    case 'reply':
+      return {
+        preview: target.content,
+        authorId: target.userId,
+        jobId: target.comment ? target.comment.jobId : null,
+        removed: false
+      };
+    case 'message':
+      return {
+        preview: target.deletedAt ? '' : target.content,
+        authorId: target.userId,
+        chatId: target.chatId,
+        removed: !!target.deletedAt
+      };
+    case 'user':
+      return { preview: target.name, authorId: target.id, removed: target.accountStatus === 'banned' };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Retirar el contenido de una denuncia
+ * Los trabajos quedan retirados (no se borran), los comentarios y respuestas se eliminan
+ * y los mensajes se vacían como al eliminarlos para todos. Las cuentas se suspenden aparte.
+ * @returns true si se ha retirado algo
+ */
+const removeReportedContent = async (targetType, target, adminId, transaction) => {
+  if (!target) return false;
+  
+  switch (targetType) {
+    case 'job':
+      await target.update({
+        moderationStatus: 'removed',
+        moderatedAt: new Date(),
+        moderatedBy: adminId
+      }, { transaction });
+      return true;
+    
+    case 'comment': {
+      // Los registros de los archivos se borran en cascada, pero los ficheros hay que quitarlos del disco
+      const attachments = await Attachment.findAll({ where: { commentId: target.id }, transaction });
+      await target.destroy({ transaction });
+      transaction.afterCommit(() => Promise.all(attachments.map(removeAttachmentFiles)));
+      return true;
+    }
+    
+    case 'reply':
+      await target.destroy({ transaction });
+      return true;
+    
+    case 'message':
+      if (target.deletedAt) return false;
+      await MessageEdit.destroy({ where: { messageId: target.id }, transaction });
+      await MessageReaction.destroy({ where: { messageId: target.id }, transaction });
+      await target.update({ content: '', deletedAt: new Date() }, { transaction });
+      return true;
+    
+    default:
+      return false;
+  }
+};
+
+module.exports = {
+  ensureAdminUsers,
+  recordAdminAction,
+  findReportTarget,
+  describeReportTarget,
+  removeReportedContent
+};
@@ -0,0 +1,171 @@
+const crypto = require('crypto');
+const { sequelize, User, Job, Organization, OrganizationMember, OrganizationInvitation } = require('../models');
+const { UUID_PATTERN } = require('./sessionTokens');
+
+/**
+ * Organizaciones de clientes
+ *
+ * Los trabajos pertenecen a una organización y cada miembro tiene un rol que decide
+ * qué puede hacer en ella. Todo cliente tiene al menos una: al registrarse se crea
+ * una organización personal de la que es propietario.
+ */
+
+// Permisos de cada rol
+const ROLE_PERMISSIONS = {
+  owner: ['organization:manage', 'members:manage', 'jobs:manage', 'proposals:manage', 'contracts:manage', 'jobs:view'],
+  admin: ['members:manage', 'jobs:manage', 'proposals:manage', 'contracts:manage', 'jobs:view'],
+  hiring_manager: ['jobs:manage', 'proposals:manage', 'contracts:manage', 'jobs:view'],
+  viewer: ['jobs:view']
+};
+
+// Orden de los roles al listar miembros
+const ROLE_RANK = {
+  owner: 0,
+  admin: 1,
+  hiring_manager: 2,
+  viewer: 3
+};
+
+// Validez de las invitaciones
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Indica si un rol incluye un permiso
+ */
+const hasPermission = (role, permission) => (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+/**
+ * Buscar la pertenencia de un usuario a una organización (null si no es miembro)
+ */
+const findMembership = async (organizationId, userId, options = {}) => {
+  if (!UUID_PATTERN.test(organizationId || '')) return null;
+  
+  return OrganizationMember.findOne({ where: { organizationId, userId }, ...options });
+};
+
+/**
+ * Comprobar si un usuario tiene un permiso sobre un trabajo
+ * Los trabajos sin organización (anteriores a los equipos) solo los gestiona su autor
+ */
+const hasJobPermission = async (job, userId, permission) => {
+  if (!job.organizationId) return job.userId === userId;
+  
+  const membership = await findMembership(job.organizationId, userId);
+  return !!membership && hasPermission(membership.role, permission);
+};
+
+/**
+ * Organización por defecto de un usuario: la más antigua en la que tiene el permiso
+ */
+const findDefaultOrganizationId = async (userId, permission) => {
+  const memberships = await OrganizationMember.findAll({
+    where: { userId },
+    order: [['createdAt', 'ASC']]
+  });
+  
+  const membership = memberships.find(m => hasPermission(m.role, permission));
+  return membership ? membership.organizationId : null;
+};
+
+/**
+ * Crear una organización con el usuario como propietario
+ */
+const createOrganization = async (user, name, transaction) => {
+  const organization = await Organization.create({ name, createdBy: user.id }, { transaction });
+  
+  await OrganizationMember.create({
+    organizationId: organization.id,
+    userId: user.id,
+    role: 'owner'
+  }, { transaction });
+  
+  return organization;
+};
+
+/**
+ * Crear la organización personal de los clientes que todavía no tienen ninguna y
+ * pasarle los trabajos que publicaron antes de existir las organizaciones
+ * Se ejecuta al iniciar el servidor
+ */
+const ensurePersonalOrganizations = async () => {
+  const clients = await User.findAll({
+    where: { role: 'client' },
+    attributes: ['id', 'name'],
+    include: [{ model: OrganizationMember, as: 'memberships', attributes: ['id'], required: false }]
+  });
+  
+  const pending = clients.filter(client => client.memberships.length === 0);
+  
+  for (const client of pending) {
+    await sequelize.transaction(async (transaction) => {
+      const organization = await createOrganization(client, client.name, transaction);
+      
+      await Job.update(
+        { organizationId: organization.id },
+        { where: { userId: client.id, organizationId: null }, transaction }
+      );
+    });
+  }
+  
+  if (pending.length > 0) {
+    console.log(`Organizaciones personales creadas: ${pending.length}`);
+  }
+};
+
+/**
+ * Hash SHA-256 del secreto de una invitación
+ */
+const hashInvitationSecret = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Crear una invitación (por correo si se indica email, si no por enlace)
+ * @returns La invitación y su token ("<invitationId>.<secreto>"), que solo se conoce ahora
+ */
+const createInvitation = async ({ organizationId, email, role, invitedBy }) => {
+  const secret = crypto.randomBytes(24).toString('hex');
+  
+  const invitation = await OrganizationInvitation.create({
+    organizationId,
+    email: email || null,
+    role,
+    invitedBy,
+    tokenHash: hashInvitationSecret(secret),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+  });
+  
+  return { invitation, token: `${invitation.id}.${secret}` };
+};
+
+/**
+ * Buscar la invitación de un token; null si el token no es válido
+ */
+const findInvitationByToken = async (token) => {
+  const [invitationId, secret] = String(token || '').split('.');
+  
+  if (!UUID_PATTERN.test(invitationId || '') || !secret) return null;
+  
+  const invitation = await OrganizationInvitation.findByPk(invitationId, {
+    include: [
+      { model: Organization, as: 'organization', attributes: ['id', 'name'] },
+      { model: User, as: 'inviter', attributes: ['id', 'name'] }
+    ]
+  });
+  if (!invitation) return null;
+  
+  const expected = Buffer.from(invitation.tokenHash, 'hex');
+  const received = Buffer.from(hashInvitationSecret(secret), 'hex');
+  
+  return crypto.timingSafeEqual(expected, received) ? invitation : null;
+};
+
+module.exports = {
+  ROLE_RANK,
+  hasPermission,
+  findMembership,
+  hasJobPermission,
+  findDefaultOrganizationId,
+  createOrganization,
+  ensurePersonalOrganizations,
+  createInvitation,
+  findInvitationByToken
+};
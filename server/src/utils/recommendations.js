@@ -0,0 +1,90 @@
+// Peso de cada criterio en la puntuación de recomendación (suman 100)
+const SKILLS_WEIGHT = 60;
+const CATEGORY_WEIGHT = 25;
+const BUDGET_WEIGHT = 15;
+
+// Horas de trabajo a partir de las cuales el presupuesto se considera adecuado a la tarifa
+const MIN_BILLABLE_HOURS = 10;
+
+/**
+ * Calcular el peso de cada habilidad según su rareza (IDF)
+ * Una habilidad que aparece en pocas listas pesa más que una muy común
+ * @param skillLists - Listas de habilidades (de trabajos o de freelancers)
+ */
+const buildSkillWeights = (skillLists) => {
+  const documentCount = skillLists.length;
+  const frequencies = new Map();
+  
+  for (const skills of skillLists) {
+    for (const skill of new Set(skills || [])) {
+      frequencies.set(skill, (frequencies.get(skill) || 0) + 1);
+    }
+  }
+  
+  const weights = new Map();
+  for (const [skill, frequency] of frequencies) {
+    weights.set(skill, Math.log((documentCount + 1) / (frequency + 1)) + 1);
+  }
+  
+  return weights;
+};
+
+/**
+ * Peso de una habilidad; las que no aparecen en el conjunto se tratan como las más raras
+ */
+const getSkillWeight = (skillWeights, skill, documentCount) =>
+  skillWeights.get(skill) || Math.log(documentCount + 1) + 1;
+
+/**
+ * Puntuar cuánto encaja un freelancer con un trabajo (0-100)
+ * - Habilidades en común ponderadas por rareza
+ * - Historial del freelancer en la categoría del trabajo
+ * - Presupuesto del trabajo frente a la tarifa por hora del freelancer
+ * @param job - { skills, category, budget }
+ * @param freelancer - { skills, hourlyRate, categoryHistory: { [categoría]: nº de trabajos } }
+ * @param skillWeights - Resultado de buildSkillWeights
+ * @param documentCount - Número de listas usadas para calcular los pesos
+ * @returns Puntuación y datos para explicar la recomendación
+ */
+const scoreMatch = (job, freelancer, skillWeights, documentCount) => {
+  const jobSkills = [...new Set(job.skills || [])];
+  const freelancerSkills = new Set(freelancer.skills || []);
+  
+  const matchedSkills = jobSkills.filter(skill => freelancerSkills.has(skill));
+  const missingSkills = jobSkills.filter(skill => !freelancerSkills.has(skill));
+  
+  const totalSkillWeight = jobSkills.reduce((sum, skill) => sum + getSkillWeight(skillWeights, skill, documentCount), 0);
+  const matchedSkillWeight = matchedSkills.reduce((sum, skill) => sum + getSkillWeight(skillWeights, skill, documentCount), 0);
+  const skillScore = totalSkillWeight > 0 ? matchedSkillWeight / totalSkillWeight : 0;
+  
+  // Proporción del historial del freelancer que pertenece a esta categoría
+  const categoryHistory = freelancer.categoryHistory || {};
+  const historyTotal = Object.values(categoryHistory).reduce((sum, count) => sum + count, 0);
+  const categoryCount = categoryHistory[job.category] || 0;
+  const categoryScore = historyTotal > 0 ? categoryCount / historyTotal : 0;
+  
+  // Horas que cubre el presupuesto a la tarifa del freelancer (sin tarifa, puntuación neutra)
+  const hourlyRate = freelancer.hourlyRate || 0;
+  const estimatedHours = hourlyRate > 0 ? Math.round(job.budget / hourlyRate) : null;
+  const budgetScore = estimatedHours === null ? 0.5 : Math.min(estimatedHours / MIN_BILLABLE_HOURS, 1);
+  
+  return {
+    score: Math.round(skillScore * SKILLS_WEIGHT + categoryScore * CATEGORY_WEIGHT + budgetScore * BUDGET_WEIGHT),
+    matchedSkills,
+    missingSkills,
+    categoryCount,
+    estimatedHours,
+    budgetFits: estimatedHours === null || estimatedHours >= MIN_BILLABLE_HOURS
+  };
+};
+
+/**
+ * Una recomendación solo tiene sentido si hay habilidades en común o experiencia en la categoría
+ */
+const isRelevantMatch = (match) => match.matchedSkills.length > 0 || match.categoryCount > 0;
+
+module.exports = {
+  buildSkillWeights,
+  scoreMatch,
+  isRelevantMatch
+};
@@ -0,0 +1,83 @@
+const { sequelize } = require('../models');
+
+/**
+ * Búsqueda de texto completo con PostgreSQL
+ *
+ * Cada tabla buscable tiene un índice GIN sobre la expresión tsvector de sus campos.
+ * Se indexa con stemming en español y en inglés para que "diseñadora" encuentre
+ * "diseño" y "developers" encuentre "developer". Las consultas usan exactamente la
+ * misma expresión (searchVector) para que PostgreSQL aproveche el índice.
+ */
+
+// Configuraciones de idioma con las que se indexa el texto
+const SEARCH_CONFIGS = ['spanish', 'english'];
+
+// Campos indexados por tabla con su peso en el ranking (A es el más relevante)
+const SEARCH_DOCUMENTS = {
+  Jobs: [['title', 'A'], ['category', 'B'], ['description', 'C']],
+  Comments: [['content', 'A']],
+  Replies: [['content', 'A']],
+  Messages: [['content', 'A']],
+  Users: [['name', 'A'], ['bio', 'C']]
+};
+
+/**
+ * Expresión tsvector de una tabla
+ * @param alias - Alias de la tabla en la consulta (vacío al crear el índice)
+ */
+const searchVector = (table, alias = '') => {
+  const prefix = alias ? `${alias}.` : '';
+  
+  return SEARCH_DOCUMENTS[table]
+    .flatMap(([field, weight]) => SEARCH_CONFIGS.map(config =>
+      `setweight(to_tsvector('${config}', coalesce(${prefix}"${field}", '')), '${weight}')`
+    ))
+    .join(' || ');
+};
+
+/**
+ * Convertir el texto buscado en una consulta tsquery
+ * Se quitan los signos de puntuación y la última palabra se busca como prefijo
+ * para poder mostrar resultados mientras se escribe
+ * @returns Texto para to_tsquery, o null si no queda ninguna palabra
+ */
+const toSearchTerms = (text) => {
+  const words = String(text || '')
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean)
+    .slice(0, 8);
+  
+  if (words.length === 0) return null;
+  
+  return words
+    .map((word, index) => index === words.length - 1 ? `${word}:*` : word)
+    .join(' & ');
+};
+
+/**
+ * Expresión tsquery para unos términos (parámetro :terms) en ambos idiomas
+ */
+const SEARCH_QUERY = SEARCH_CONFIGS
+  .map(config => `to_tsquery('${config}', :terms)`)
+  .join(' || ');
+
+/**
+ * Crear los índices de búsqueda si no existen
+ * Se llama al arrancar el servidor, después de sincronizar los modelos
+ */
+const ensureSearchIndexes = async () => {
+  for (const table of Object.keys(SEARCH_DOCUMENTS)) {
+    await sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "${table.toLowerCase()}_search_idx" ON "${table}" USING GIN ((${searchVector(table)}))`
+    );
+  }
+};
+
+module.exports = {
+  SEARCH_QUERY,
+  searchVector,
+  toSearchTerms,
+  ensureSearchIndexes
+};
@@ -0,0 +1,215 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { Op } = require('sequelize');
+const { sequelize, User, Session } = require('../models');
+
+/**
+ * Tokens de sesión
+ *
+ * Cada inicio de sesión crea una Session (un dispositivo). El cliente recibe un
+ * token de acceso JWT de corta duración con el id de la sesión y un refresh token
+ * opaco ("<sessionId>.<secreto>") del que solo se guarda el hash. Cada renovación
+ * rota el refresh token; si llega uno que ya fue rotado, alguien lo ha reutilizado
+ * y se revoca la sesión completa.
+ */
+
+// Duración del token de acceso (formato de jsonwebtoken, ej: '15m')
+const ACCESS_TOKEN_EXPIRATION = process.env.ACCESS_TOKEN_EXPIRATION || '15m';
+
+// Duración del refresh token desde la última renovación
+const REFRESH_TOKEN_TTL_MS = (parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS, 10) || 30) * 24 * 60 * 60 * 1000;
+
+// Formato del id de sesión incluido en el refresh token
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Hash SHA-256 de un secreto de refresh token
+ */
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Generar un refresh token nuevo para una sesión
+ * @returns El token para el cliente y el hash que se guarda en la sesión
+ */
+const generateRefreshToken = (sessionId) => {
+  const secret = crypto.randomBytes(48).toString('hex');
+  
+  return {
+    refreshToken: `${sessionId}.${secret}`,
+    refreshTokenHash: hashToken(secret)
+  };
+};
+
+/**
+ * Firmar un token de acceso para un usuario y una sesión
+ */
+const signAccessToken = (userId, sessionId) =>
+  jwt.sign({ id: userId, sid: sessionId }, process.env.JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_EXPIRATION
+  });
+
+/**
+ * Datos del dispositivo que hace la petición
+ */
+const getClientInfo = (req) => ({
+  userAgent: req.get('user-agent') || null,
+  ip: req.ip || null
+});
+
+/**
+ * Crear una sesión nueva tras el registro o el inicio de sesión
+ * @returns Token de acceso y refresh token de la sesión
+ */
+const createSession = async (user, req) => {
+  const id = crypto.randomUUID();
+  const { refreshToken, refreshTokenHash } = generateRefreshToken(id);
+  
+  await Session.create({
+    id,
+    userId: user.id,
+    refreshTokenHash,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    ...getClientInfo(req)
+  });
+  
+  return {
+    token: signAccessToken(user.id, id),
+    refreshToken
+  };
+};
+
+/**
+ * Renovar los tokens de una sesión con su refresh token
+ * @returns { user, token, refreshToken } o { status, error } si no se puede renovar.
+ *          Si se detecta la reutilización de un token, devuelve también la sesión revocada.
+ */
+const rotateSession = async (refreshToken, req) => {
+  const [sessionId, secret] = String(refreshToken || '').split('.');
+  
+  if (!UUID_PATTERN.test(sessionId || '') || !secret) {
+    return { status: 401, error: 'Refresh token no válido' };
+  }
+  
+  const transaction = await sequelize.transaction();
+  
+  try {
+    // Bloquear la sesión para que dos renovaciones simultáneas no roten el mismo token
+    const session = await Session.findByPk(sessionId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+    
+    // Si se cerró al suspender la cuenta, se explica el motivo en lugar de un error genérico
+    if (session && session.revokedReason === 'moderation') {
+      const owner = await User.findByPk(session.userId, { transaction });
+      const restriction = owner && owner.getAccessRestriction();
+      if (restriction) {
+        await transaction.rollback();
+        return { status: 403, error: restriction };
+      }
+    }
+    
+    if (!session || !session.isActive()) {
+      await transaction.rollback();
+      return { status: 401, error: 'La sesión ha caducado o se ha cerrado' };
+    }
+    
+    // Un token ya rotado en una sesión activa: se ha reutilizado, se cierra la sesión
+    if (hashToken(secret) !== session.refreshTokenHash) {
+      await session.update({ revokedAt: new Date(), revokedReason: 'reuse' }, { transaction });
+      await transaction.commit();
+      console.warn(`Reutilización de refresh token detectada en la sesión ${session.id}`);
+      return { status: 401, error: 'La sesión se ha cerrado por seguridad', session };
+    }
+    
+    const user = await User.findByPk(session.userId, { transaction });
+    if (!user) {
+      await transaction.rollback();
+      return { status: 401, error: 'Usuario no encontrado' };
+    }
+    
+    // Una cuenta suspendida o expulsada no puede renovar sus sesiones
+    const restriction = user.getAccessRestriction();
+    if (restriction) {
+      await transaction.rollback();
+      return { status: 403, error: restriction };
+    }
+    
+    const rotated = generateRefreshToken(session.id);
+    await session.update({
+      refreshTokenHash: rotated.refreshTokenHash,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      ...getClientInfo(req)
+    }, { transaction });
+    
+    await transaction.commit();
+    
+    return {
+      user,
+      token: signAccessToken(user.id, session.id),
+      refreshToken: rotated.refreshToken
+    };
+  
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
+
+/**
+ * Verificar un token de acceso y la sesión a la que pertenece
+ * @returns { user, session } o null si el token no es válido o la sesión ya no está activa
+ */
+const verifyAccessToken = async (token) => {
+  let decoded;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    return null;
+  }
+  
+  // Los tokens anteriores a las sesiones no llevan sid y dejan de ser válidos
+  if (!decoded.sid) return null;
+  
+  const session = await Session.findByPk(decoded.sid);
+  if (!session || session.userId !== decoded.id || !session.isActive()) return null;
+  
+  const user = await User.findByPk(decoded.id);
+  if (!user || user.getAccessRestriction()) return null;
+  
+  return { user, session };
+};
+
+/**
+ * Revocar todas las sesiones activas de un usuario
+ * @param exceptSessionId - Sesión que se mantiene abierta (ej: la del dispositivo actual)
+ * @param reason - Motivo guardado en las sesiones ('moderation' al suspender la cuenta)
+ * @returns Ids de las sesiones revocadas, para desconectar sus sockets
+ */
+const revokeUserSessions = async (userId, exceptSessionId = null, reason = 'revoked') => {
+  const where = { userId, revokedAt: null };
+  if (exceptSessionId) {
+    where.id = { [Op.ne]: exceptSessionId };
+  }
+  
+  const sessions = await Session.findAll({ where, attributes: ['id'] });
+  const sessionIds = sessions.map(session => session.id);
+  
+  if (sessionIds.length > 0) {
+    await Session.update(
+      { revokedAt: new Date(), revokedReason: reason },
+      { where: { id: sessionIds } }
+    );
+  }
+  
+  return sessionIds;
+};
+
+module.exports = {
+  UUID_PATTERN,
+  createSession,
+  rotateSession,
+  verifyAccessToken,
+  revokeUserSessions
+};
@@ -0,0 +1,171 @@
+jest.mock('../models', () => ({
+  sequelize: { transaction: jest.fn() },
+  User: { findByPk: jest.fn() },
+  Session: {
+    create: jest.fn(),
+    findByPk: jest.fn(),
+    findAll: jest.fn(),
+    update: jest.fn()
+  }
+}));
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { sequelize, User, Session } = require('../models');
+const { createSession, rotateSession, verifyAccessToken, revokeUserSessions } = require('./sessionTokens');
+
+process.env.JWT_SECRET = 'secreto-de-prueba';
+
+const request = {
+  ip: '127.0.0.1',
+  get: () => 'jest'
+};
+
+const hashSecret = (refreshToken) =>
+  crypto.createHash('sha256').update(refreshToken.split('.')[1]).digest('hex');
+
+const buildUser = (restriction = null) => ({
+  id: 'user-1',
+  getAccessRestriction: () => restriction
+});
+
+// Sesión guardada en memoria: update modifica sus campos como haría Sequelize
+const buildSession = (data) => {
+  const session = {
+    userId: 'user-1',
+    revokedAt: null,
+    revokedReason: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    ...data,
+    isActive() {
+      return !this.revokedAt && this.expiresAt > new Date();
+    },
+    update: jest.fn(async (changes) => Object.assign(session, changes))
+  };
+  return session;
+};
+
+let transaction;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  transaction = {
+    LOCK: { UPDATE: 'UPDATE' },
+    commit: jest.fn(),
+    rollback: jest.fn()
+  };
+  sequelize.transaction.mockResolvedValue(transaction);
+  User.findByPk.mockResolvedValue(buildUser());
+});
+
+/**
+ * Crear una sesión y devolverla junto con su refresh token
+ */
+const startSession = async () => {
+  const { token, refreshToken } = await createSession(buildUser(), request);
+  const session = buildSession(Session.create.mock.calls[0][0]);
+  Session.findByPk.mockResolvedValue(session);
+  return { session, token, refreshToken };
+};
+
+describe('createSession', () => {
+  it('guarda solo el hash del refresh token y firma el token de acceso con la sesión', async () => {
+    const { session, token, refreshToken } = await startSession();
+
+    expect(refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    expect(session.refreshTokenHash).toBe(hashSecret(refreshToken));
+    expect(JSON.stringify(Session.create.mock.calls[0][0])).not.toContain(refreshToken.split('.')[1]);
+    expect(jwt.verify(token, process.env.JWT_SECRET)).toMatchObject({ id: 'user-1', sid: session.id });
+  });
+});
+
+describe('rotateSession', () => {
+  it('rota el refresh token en cada renovación', async () => {
+    const { session, refreshToken } = await startSession();
+
+    const rotated = await rotateSession(refreshToken, request);
+
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(rotated.refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    expect(session.refreshTokenHash).toBe(hashSecret(rotated.refreshToken));
+    expect(jwt.verify(rotated.token, process.env.JWT_SECRET).sid).toBe(session.id);
+    expect(Session.findByPk).toHaveBeenCalledWith(session.id, { transaction, lock: 'UPDATE' });
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('revoca la sesión completa si se reutiliza un token ya rotado', async () => {
+    const { session, refreshToken } = await startSession();
+    const rotated = await rotateSession(refreshToken, request);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const reused = await rotateSession(refreshToken, request);
+
+    expect(reused).toMatchObject({ status: 401, session });
+    expect(session.revokedAt).toBeInstanceOf(Date);
+    expect(session.revokedReason).toBe('reuse');
+
+    // Tampoco sirve ya el token legítimo más reciente
+    const afterReuse = await rotateSession(rotated.refreshToken, request);
+    expect(afterReuse).toEqual({ status: 401, error: 'La sesión ha caducado o se ha cerrado' });
+  });
+
+  it('rechaza tokens con formato incorrecto sin consultar la base de datos', async () => {
+    expect(await rotateSession('no-es-un-token', request)).toEqual({ status: 401, error: 'Refresh token no válido' });
+    expect(await rotateSession(undefined, request)).toEqual({ status: 401, error: 'Refresh token no válido' });
+    expect(Session.findByPk).not.toHaveBeenCalled();
+  });
+
+  it('no renueva una sesión caducada', async () => {
+    const { session, refreshToken } = await startSession();
+    session.expiresAt = new Date(Date.now() - 1000);
+
+    expect(await rotateSession(refreshToken, request)).toMatchObject({ status: 401 });
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+
+  it('no renueva las sesiones de una cuenta suspendida', async () => {
+    const { refreshToken } = await startSession();
+    User.findByPk.mockResolvedValue(buildUser('Tu cuenta está suspendida'));
+
+    expect(await rotateSession(refreshToken, request)).toEqual({ status: 403, error: 'Tu cuenta está suspendida' });
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+});
+
+describe('verifyAccessToken', () => {
+  it('acepta el token de una sesión activa', async () => {
+    const { session, token } = await startSession();
+
+    expect(await verifyAccessToken(token)).toMatchObject({ session, user: { id: 'user-1' } });
+  });
+
+  it('rechaza el token de una sesión revocada', async () => {
+    const { session, token } = await startSession();
+    session.revokedAt = new Date();
+
+    expect(await verifyAccessToken(token)).toBeNull();
+  });
+
+  it('rechaza los tokens sin sesión o mal firmados', async () => {
+    const withoutSession = jwt.sign({ id: 'user-1' }, process.env.JWT_SECRET);
+    const wrongSignature = jwt.sign({ id: 'user-1', sid: 'session-1' }, 'otro-secreto');
+
+    expect(await verifyAccessToken(withoutSession)).toBeNull();
+    expect(await verifyAccessToken(wrongSignature)).toBeNull();
+  });
+});
+
+describe('revokeUserSessions', () => {
+  it('revoca las sesiones activas salvo la indicada', async () => {
+    Session.findAll.mockResolvedValue([{ id: 'session-2' }, { id: 'session-3' }]);
+
+    const revoked = await revokeUserSessions('user-1', 'session-1', 'moderation');
+
+    expect(Session.findAll.mock.calls[0][0].where).toMatchObject({ userId: 'user-1', revokedAt: null });
+    expect(Session.update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date), revokedReason: 'moderation' },
+      { where: { id: ['session-2', 'session-3'] } }
+    );
+    expect(revoked).toEqual(['session-2', 'session-3']);
+  });
+});
@@ -0,0 +1,151 @@
+const crypto = require('crypto');
+
+/**
+ * Códigos TOTP (RFC 6238) para la verificación en dos pasos
+ *
+ * Compatibles con cualquier aplicación de autenticación (Google Authenticator,
+ * Authy, 1Password...): HMAC-SHA1, 6 dígitos y periodos de 30 segundos.
+ * Todo se calcula localmente, sin servicios externos.
+ */
+
+const ISSUER = 'WorkFlowConnect';
+const DIGITS = 6;
+const PERIOD_SECONDS = 30;
+
+// Periodos de margen a cada lado por desfase de reloj entre el servidor y el móvil
+const VERIFY_WINDOW = 1;
+
+// Códigos de recuperación que se generan cada vez
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codificar bytes en base32 (RFC 4648, sin relleno), el formato de los secretos TOTP
+ */
+const base32Encode = (buffer) => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+  
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+};
+
+/**
+ * Decodificar un secreto en base32 (ignora espacios, guiones y relleno)
+ */
+const base32Decode = (text) => {
+  const clean = String(text).toUpperCase().replace(/[\s=-]/g, '');
+  let bits = '';
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error('Secreto TOTP no válido');
+    bits += value.toString(2).padStart(5, '0');
+  }
+  
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generar un secreto TOTP nuevo (160 bits, codificado en base32)
+ */
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Periodo de 30 segundos al que pertenece un instante
+ */
+const getTimeStep = (timestamp = Date.now()) => Math.floor(timestamp / 1000 / PERIOD_SECONDS);
+
+/**
+ * Calcular el código de un periodo (HOTP, RFC 4226)
+ */
+const generateCode = (secret, step) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+/**
+ * Verificar un código TOTP
+ * @param lastUsedStep - Último periodo aceptado, para no admitir el mismo código dos veces
+ * @returns El periodo del código si es válido, o null
+ */
+const verifyCode = (secret, code, lastUsedStep = null) => {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!secret || !new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+  
+  const currentStep = getTimeStep();
+  for (let step = currentStep - VERIFY_WINDOW; step <= currentStep + VERIFY_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+/**
+ * URL otpauth:// que las aplicaciones de autenticación leen desde el código QR
+ */
+const buildOtpauthUrl = (secret, accountName) => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Normalizar un código de recuperación (sin guiones ni espacios, en minúsculas)
+ */
+const normalizeRecoveryCode = (code) => String(code || '').toLowerCase().replace(/[\s-]/g, '');
+
+/**
+ * Hash de un código de recuperación; en la base de datos solo se guardan los hashes
+ */
+const hashRecoveryCode = (code) =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Generar códigos de recuperación de un solo uso (formato "xxxxx-xxxxx")
+ * @returns Los códigos para mostrar al usuario y sus hashes para guardar
+ */
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  
+  return {
+    codes,
+    hashes: codes.map(hashRecoveryCode)
+  };
+};
+
+module.exports = {
+  generateSecret,
+  verifyCode,
+  buildOtpauthUrl,
+  hashRecoveryCode,
+  generateRecoveryCodes
+};
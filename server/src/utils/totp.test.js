@@ -0,0 +1,106 @@
+const {
+  generateSecret,
+  verifyCode,
+  buildOtpauthUrl,
+  hashRecoveryCode,
+  generateRecoveryCodes
+} = require('./totp');
+
+// Secreto de los vectores de prueba del RFC 6238 (SHA-1): "12345678901234567890" en base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// Vectores del apéndice B del RFC 6238: instante (segundos) y código de 8 dígitos.
+// Con 6 dígitos el código son sus 6 últimas cifras
+const RFC_VECTORS = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130']
+];
+
+const setNow = (seconds) => jest.spyOn(Date, 'now').mockReturnValue(seconds * 1000);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('verifyCode', () => {
+  it.each(RFC_VECTORS)('acepta el código del RFC 6238 en T=%i', (seconds, code) => {
+    setNow(seconds);
+    expect(verifyCode(RFC_SECRET, code.slice(-6))).toBe(Math.floor(seconds / 30));
+  });
+
+  it('admite un periodo de desfase de reloj a cada lado y no más', () => {
+    // 287082 es el código del periodo 1 (T=30..59)
+    setNow(59 + 30);
+    expect(verifyCode(RFC_SECRET, '287082')).toBe(1);
+
+    setNow(59 + 60);
+    expect(verifyCode(RFC_SECRET, '287082')).toBeNull();
+  });
+
+  it('no acepta dos veces el mismo código', () => {
+    setNow(59);
+    const step = verifyCode(RFC_SECRET, '287082');
+    expect(verifyCode(RFC_SECRET, '287082', step)).toBeNull();
+  });
+
+  it('ignora los espacios del código', () => {
+    setNow(59);
+    expect(verifyCode(RFC_SECRET, '287 082')).toBe(1);
+  });
+
+  it('rechaza códigos con formato incorrecto o sin secreto', () => {
+    setNow(59);
+    expect(verifyCode(RFC_SECRET, '94287082')).toBeNull();
+    expect(verifyCode(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyCode(RFC_SECRET, '')).toBeNull();
+    expect(verifyCode(null, '287082')).toBeNull();
+  });
+
+  it('rechaza un código de otro secreto', () => {
+    setNow(59);
+    expect(verifyCode(generateSecret(), '287082')).toBeNull();
+  });
+});
+
+describe('generateSecret', () => {
+  it('genera secretos de 160 bits en base32', () => {
+    const secret = generateSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateSecret()).not.toBe(secret);
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('incluye el secreto, el emisor y los parámetros del código', () => {
+    const url = new URL(buildOtpauthUrl(RFC_SECRET, 'ana@example.com'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/WorkFlowConnect:ana@example.com');
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(url.searchParams.get('issuer')).toBe('WorkFlowConnect');
+    expect(url.searchParams.get('digits')).toBe('6');
+    expect(url.searchParams.get('period')).toBe('30');
+  });
+});
+
+describe('códigos de recuperación', () => {
+  it('genera diez códigos distintos con sus hashes', () => {
+    const { codes, hashes } = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code, index) => {
+      expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(hashes[index]).toBe(hashRecoveryCode(code));
+    });
+  });
+
+  it('el hash no distingue mayúsculas, espacios ni guiones', () => {
+    expect(hashRecoveryCode(' AB12C-3D4E5 ')).toBe(hashRecoveryCode('ab12c3d4e5'));
+  });
+});
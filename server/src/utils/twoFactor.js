@@ -0,0 +1,119 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { User } = require('../models');
+const { verifyCode, hashRecoveryCode } = require('./totp');
+
+/**
+ * Verificación en dos pasos
+ *
+ * Si el usuario la tiene activa, el login con contraseña no abre sesión: devuelve
+ * un desafío firmado de corta duración que se completa con un código TOTP o con
+ * un código de recuperación en POST /api/auth/2fa/verify.
+ */
+
+// Duración del desafío entre la contraseña y el código
+const CHALLENGE_EXPIRATION_SECONDS = 5 * 60;
+
+// Códigos incorrectos admitidos por desafío antes de obligar a repetir el login
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Intentos de cada desafío (por su jti); se eliminan al caducar
+const challengeAttempts = new Map();
+
+/**
+ * Eliminar los registros de desafíos ya caducados
+ */
+const pruneChallenges = () => {
+  const now = Date.now();
+  for (const [challengeId, attempt] of challengeAttempts) {
+    if (attempt.expiresAt < now) challengeAttempts.delete(challengeId);
+  }
+};
+
+/**
+ * Comprobar el segundo factor de un usuario: un código TOTP o un código de recuperación
+ * Los códigos TOTP no se aceptan dos veces y los de recuperación se consumen al usarlos
+ * @returns 'totp', 'recovery' o null si el código no es válido
+ */
+const verifySecondFactor = async (user, code) => {
+  const lastUsedStep = user.twoFactorLastUsedStep === null ? null : Number(user.twoFactorLastUsedStep);
+  const step = verifyCode(user.twoFactorSecret, code, lastUsedStep);
+  
+  if (step !== null) {
+    await user.update({ twoFactorLastUsedStep: step });
+    return 'totp';
+  }
+  
+  const recoveryCodes = user.twoFactorRecoveryCodes || [];
+  const hash = hashRecoveryCode(code);
+  
+  if (code && recoveryCodes.includes(hash)) {
+    await user.update({ twoFactorRecoveryCodes: recoveryCodes.filter(recoveryCode => recoveryCode !== hash) });
+    return 'recovery';
+  }
+  
+  return null;
+};
+
+/**
+ * Crear el desafío de login para un usuario con la verificación en dos pasos activa
+ */
+const createLoginChallenge = (user) => {
+  const challengeId = crypto.randomUUID();
+  
+  pruneChallenges();
+  challengeAttempts.set(challengeId, {
+    failures: 0,
+    expiresAt: Date.now() + CHALLENGE_EXPIRATION_SECONDS * 1000
+  });
+  
+  return jwt.sign({ id: user.id, purpose: '2fa' }, process.env.JWT_SECRET, {
+    expiresIn: CHALLENGE_EXPIRATION_SECONDS,
+    jwtid: challengeId
+  });
+};
+
+/**
+ * Completar un desafío de login con el código del segundo factor
+ * @returns { user, method } o { status, error } si no se puede completar
+ */
+const completeLoginChallenge = async (challengeToken, code) => {
+  let decoded;
+  try {
+    decoded = jwt.verify(challengeToken, process.env.JWT_SECRET);
+  } catch (error) {
+    return { status: 401, error: 'La verificación ha caducado. Vuelve a iniciar sesión.' };
+  }
+  
+  const attempt = challengeAttempts.get(decoded.jti);
+  if (decoded.purpose !== '2fa' || !attempt) {
+    return { status: 401, error: 'La verificación ha caducado. Vuelve a iniciar sesión.' };
+  }
+  
+  if (attempt.failures >= MAX_CHALLENGE_ATTEMPTS) {
+    challengeAttempts.delete(decoded.jti);
+    return { status: 429, error: 'Demasiados intentos. Vuelve a iniciar sesión.' };
+  }
+  
+  const user = await User.findByPk(decoded.id);
+  if (!user || !user.twoFactorEnabled) {
+    return { status: 401, error: 'La verificación ha caducado. Vuelve a iniciar sesión.' };
+  }
+  
+  const method = await verifySecondFactor(user, code);
+  if (!method) {
+    attempt.failures += 1;
+    return { status: 401, error: 'Código de verificación incorrecto' };
+  }
+  
+  // Cada desafío solo sirve para un inicio de sesión
+  challengeAttempts.delete(decoded.jti);
+  
+  return { user, method };
+};
+
+module.exports = {
+  verifySecondFactor,
+  createLoginChallenge,
+  completeLoginChallenge
+};
@@ -0,0 +1,1526 @@
+/**
+ * Contrato de la API de WorkFlowConnect
+ *
+ * Describe con esquemas de zod la petición (parámetros, query y cuerpo) y la
+ * respuesta de cada endpoint de /api. Lo comparten las dos partes:
+ * - El cliente tipa con él sus llamadas y valida las respuestas (src/lib/apiClient.ts)
+ * - El servidor valida con él el cuerpo de las peticiones (server/src/middleware/validate.js)
+ *
+ * Se exporta como una función que recibe zod para que cada parte use su propia
+ * instalación: el cliente es un módulo ESM y el servidor CommonJS.
+ *
+ * Las respuestas se describen con objetos abiertos (passthrough): un campo nuevo
+ * en el servidor no rompe el cliente, pero un campo que falta o cambia de tipo
+ * se detecta como desviación del contrato.
+ */
+
+/**
+ * Declarar un endpoint conservando el método y la ruta literales para el tipado
+ * @template {'GET' | 'POST' | 'PUT' | 'DELETE'} M
+ * @template {string} P
+ * @template {{ method: M, path: P }} T
+ * @param {T & { method: M, path: P }} definition
+ * @returns {T & { method: M, path: P }}
+ */
+const endpoint = (definition) => definition;
+
+/**
+ * Construir el contrato con la instancia de zod de quien lo usa
+ * @param {typeof import('zod').z} z
+ */
+export const defineContract = (z) => {
+  // ---------------------------------------------------------------------------
+  // Tipos básicos
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Objeto abierto: admite campos que el contrato no describe
+   * @template {import('zod').ZodRawShape} S
+   * @param {S} shape
+   */
+  const entity = (shape) => z.object(shape).passthrough();
+  const id = z.string();
+  // Ids que se envían al servidor para buscar un registro (las columnas son UUID)
+  const uuid = z.string().uuid();
+  const date = z.string();                       // Fechas en formato ISO
+  const optionalDate = z.string().nullish();
+  const optionalText = z.string().nullish();
+  const stringList = z.array(z.string());
+  // Los agregados de SQL (COUNT) llegan como texto en PostgreSQL
+  const count = z.union([z.number(), z.string()]);
+
+  // Texto obligatorio en los cuerpos de las peticiones (255 caracteres en las columnas STRING)
+  const requiredText = (max) => (max ? z.string().trim().min(1).max(max) : z.string().trim().min(1));
+  // Clave que genera el cliente al crear un comentario o mensaje y repite en los reintentos
+  const idempotencyKey = z.string().min(1).max(64).optional();
+  // Importes y cantidades: el formulario puede enviarlos como texto
+  const amount = z.coerce.number().positive();
+
+  const userRole = z.enum(['freelancer', 'client', 'admin']);
+  const accountStatus = z.enum(['active', 'suspended', 'banned']);
+  const jobStatus = z.enum(['open', 'assigned', 'in-progress', 'completed', 'cancelled']);
+  const moderationStatus = z.enum(['pending', 'approved', 'removed']);
+  const proposalStatus = z.enum(['pending', 'shortlisted', 'accepted', 'rejected', 'withdrawn']);
+  const contractStatus = z.enum(['active', 'completed', 'cancelled']);
+  const milestoneStatus = z.enum(['pending', 'funded', 'submitted', 'approved', 'released', 'disputed', 'refunded']);
+  const milestoneAction = z.enum(['fund', 'submit', 'approve', 'release', 'dispute', 'refund']);
+  const organizationRole = z.enum(['owner', 'admin', 'hiring_manager', 'viewer']);
+  const invitationRole = z.enum(['admin', 'hiring_manager', 'viewer']);
+  const notificationKind = z.enum(['job_comment', 'comment_reply', 'job_like', 'new_message']);
+  const notificationChannel = z.enum(['in_app', 'email_digest', 'off']);
+  const reportTargetType = z.enum(['job', 'comment', 'reply', 'message', 'user']);
+  const reportReason = z.enum(['spam', 'harassment', 'inappropriate', 'fraud', 'other']);
+  const reportStatus = z.enum(['open', 'resolved', 'dismissed']);
+  const jobSort = z.enum(['newest', 'budget_desc', 'budget_asc', 'most_liked', 'most_commented']);
+
+  // ---------------------------------------------------------------------------
+  // Entidades tal y como las devuelve el servidor
+  // ---------------------------------------------------------------------------
+
+  // Autor incluido en otras entidades (algunas inclusiones no traen el id)
+  const person = entity({
+    id: id.optional(),
+    name: z.string(),
+    photoURL: optionalText
+  });
+
+  const ratingSummary = entity({
+    count: z.number(),
+    average: z.number(),
+    communication: z.number(),
+    quality: z.number(),
+    timeliness: z.number()
+  });
+
+  const user = entity({
+    id,
+    name: z.string(),
+    email: z.string().optional(),
+    role: userRole,
+    bio: optionalText,
+    skills: stringList.nullish(),
+    photoURL: optionalText,
+    hourlyRate: z.number().nullish(),
+    isOnline: z.boolean().optional(),
+    lastSeen: optionalDate,
+    ratingAverage: z.number().nullish(),
+    ratingCount: z.number().nullish(),
+    accountStatus: accountStatus.optional(),
+    emailVerifiedAt: optionalDate,
+    createdAt: date.optional()
+  });
+
+  // Usuario en el panel de administración, con los datos de moderación
+  const adminUser = user.extend({
+    suspendedUntil: optionalDate,
+    moderationReason: optionalText
+  });
+
+  const attachment = entity({
+    id,
+    originalName: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+    thumbnailName: optionalText,
+    userId: id,
+    createdAt: date
+  });
+
+  const reply = entity({
+    id,
+    content: z.string(),
+    commentId: id,
+    userId: id,
+    createdAt: date,
+    user: person.nullish()
+  });
+
+  const comment = entity({
+    id,
+    content: z.string(),
+    jobId: id,
+    userId: id,
+    createdAt: date,
+    user: person.nullish(),
+    replies: z.array(reply).optional()
+  });
+
+  const job = entity({
+    id,
+    title: z.string(),
+    description: z.string(),
+    budget: z.number(),
+    category: z.string(),
+    skills: stringList.nullish(),
+    status: jobStatus.optional(),
+    moderationStatus: moderationStatus.optional(),
+    userId: id,
+    assignedTo: id.nullish(),
+    organizationId: id.nullish(),
+    completedAt: optionalDate,
+    likesCount: count.optional(),
+    commentsCount: count.optional(),
+    createdAt: date,
+    updatedAt: date,
+    user: entity({
+      id: id.optional(),
+      name: z.string(),
+      photoURL: optionalText,
+      ratingAverage: z.number().nullish(),
+      ratingCount: z.number().nullish()
+    }).nullish(),
+    organization: entity({ id, name: z.string() }).nullish(),
+    likedBy: z.array(entity({ id })).optional(),
+    comments: z.array(comment).optional()
+  });
+
+  const jobStatusChange = entity({
+    id,
+    fromStatus: jobStatus.nullable(),
+    toStatus: jobStatus,
+    reason: z.string().nullable(),
+    changedBy: id.nullable(),
+    createdAt: date,
+    user: person.nullish()
+  });
+
+  const jobStatusTransition = entity({
+    status: jobStatus,
+    reasonRequired: z.boolean()
+  });
+
+  const facet = entity({
+    value: z.string(),
+    count: z.number()
+  });
+
+  const proposal = entity({
+    id,
+    jobId: id,
+    userId: id,
+    coverLetter: z.string(),
+    proposedBudget: z.number(),
+    estimatedDuration: z.number(),
+    attachments: stringList.nullish(),
+    files: z.array(attachment).optional(),
+    status: proposalStatus,
+    matchScore: z.number().optional(),
+    createdAt: date,
+    user: entity({
+      id: id.optional(),
+      name: z.string(),
+      photoURL: optionalText,
+      skills: stringList.nullish()
+    }).optional(),
+    job: entity({
+      id,
+      title: z.string(),
+      budget: z.number(),
+      status: jobStatus,
+      userId: id
+    }).optional()
+  });
+
+  const milestone = entity({
+    id,
+    title: z.string(),
+    description: optionalText,
+    amount: z.number(),
+    dueDate: optionalText,
+    status: milestoneStatus,
+    submissionNote: optionalText,
+    disputeReason: optionalText,
+    resolutionNote: optionalText,
+    files: z.array(attachment).optional()
+  });
+
+  const contract = entity({
+    id,
+    jobId: id,
+    title: z.string(),
+    totalAmount: z.number(),
+    status: contractStatus,
+    clientId: id,
+    freelancerId: id,
+    client: person.optional(),
+    freelancer: person.optional(),
+    milestones: z.array(milestone).optional(),
+    balances: entity({
+      funded: z.number(),
+      refunded: z.number(),
+      inEscrow: z.number(),
+      released: z.number(),
+      reconciled: z.boolean()
+    }).optional(),
+    // Papel del usuario actual: client (actúa por el cliente), freelancer o viewer (solo consulta)
+    role: z.enum(['client', 'freelancer', 'viewer']).nullish(),
+    createdAt: date
+  });
+
+  const chatMessage = entity({
+    id,
+    content: z.string(),
+    chatId: id,
+    userId: id.nullable(),
+    createdAt: date,
+    editedAt: optionalDate,
+    deletedAt: optionalDate,
+    receipts: z.array(entity({
+      userId: id,
+      deliveredAt: optionalDate,
+      readAt: optionalDate
+    })).optional(),
+    reactions: z.array(entity({
+      emoji: z.string(),
+      userId: id,
+      createdAt: date.optional()
+    })).optional(),
+    user: person.nullish()
+  });
+
+  const chat = entity({
+    id,
+    name: optionalText,
+    isGroup: z.boolean(),
+    lastMessageAt: optionalDate,
+    participants: z.array(entity({
+      id,
+      name: z.string(),
+      photoURL: optionalText,
+      isOnline: z.boolean().optional(),
+      lastSeen: optionalDate
+    })).optional(),
+    messages: z.array(chatMessage).optional()
+  });
+
+  const notification = entity({
+    id,
+    type: notificationKind,
+    actorId: id.nullish(),
+    data: entity({
+      jobId: id.optional(),
+      jobTitle: z.string().optional(),
+      chatId: id.optional(),
+      chatName: optionalText,
+      preview: z.string().optional()
+    }).nullish(),
+    count: z.number().optional(),
+    readAt: optionalDate,
+    updatedAt: date,
+    actor: person.nullish()
+  });
+
+  const notificationPreferences = z.record(notificationKind, notificationChannel);
+
+  const organization = entity({
+    id,
+    name: z.string(),
+    role: organizationRole
+  });
+
+  const organizationMember = entity({
+    id,
+    userId: id,
+    role: organizationRole,
+    createdAt: date,
+    user: entity({
+      name: z.string(),
+      email: z.string().optional(),
+      photoURL: optionalText
+    }).optional()
+  });
+
+  const organizationInvitation = entity({
+    id,
+    email: optionalText,
+    role: invitationRole,
+    expiresAt: date,
+    createdAt: date,
+    inviter: person.optional()
+  });
+
+  const review = entity({
+    id,
+    jobId: id,
+    reviewerId: id,
+    revieweeId: id,
+    rating: z.number(),
+    communication: z.number(),
+    quality: z.number(),
+    timeliness: z.number(),
+    comment: optionalText,
+    revealedAt: optionalDate,
+    createdAt: date,
+    reviewer: person.optional(),
+    job: entity({ id, title: z.string() }).optional()
+  });
+
+  // Filtros de búsqueda de trabajos que se pueden guardar
+  const jobSearchFilters = z.object({
+    search: z.string().optional(),
+    category: z.string().optional(),
+    status: z.string().optional(),
+    skills: stringList.optional(),
+    skillsMatch: z.enum(['any', 'all']).optional(),
+    minBudget: z.number().optional(),
+    maxBudget: z.number().optional()
+  });
+
+  // Al guardar una búsqueda se admiten los filtros tal y como están en la URL
+  const jobSearchFiltersInput = z.object({
+    search: optionalText,
+    category: optionalText,
+    status: optionalText,
+    skills: z.union([stringList, z.string()]).nullish(),
+    skillsMatch: z.enum(['any', 'all']).nullish(),
+    minBudget: z.union([z.number(), z.string()]).nullish(),
+    maxBudget: z.union([z.number(), z.string()]).nullish()
+  });
+
+  const savedSearch = entity({
+    id,
+    name: z.string(),
+    filters: jobSearchFilters.passthrough().nullish(),
+    newCount: z.number().optional(),
+    lastViewedAt: date
+  });
+
+  const savedJobCollection = entity({
+    id,
+    name: z.string(),
+    savedCount: z.number().optional()
+  });
+
+  // Trabajo guardado con la nota y la lista del usuario
+  const savedJob = entity({
+    jobId: id,
+    note: optionalText,
+    collectionId: id.nullish(),
+    createdAt: date,
+    job
+  });
+
+  const matchExplanation = entity({
+    score: z.number(),
+    matchedSkills: stringList,
+    missingSkills: stringList,
+    categoryCount: z.number(),
+    estimatedHours: z.number().nullable(),
+    budgetFits: z.boolean()
+  });
+
+  const session = entity({
+    id,
+    userAgent: optionalText,
+    ip: optionalText,
+    current: z.boolean().optional(),
+    lastUsedAt: date,
+    createdAt: date
+  });
+
+  const blockedUser = entity({
+    id,
+    name: z.string(),
+    photoURL: optionalText,
+    role: userRole,
+    blockedAt: date
+  });
+
+  const report = entity({
+    id,
+    targetType: reportTargetType,
+    targetId: id,
+    reason: reportReason,
+    details: optionalText,
+    status: reportStatus,
+    resolutionNote: optionalText,
+    resolvedAt: optionalDate,
+    reporterId: id.optional(),
+    createdAt: date,
+    reporter: person.optional(),
+    resolver: person.nullish(),
+    target: entity({
+      preview: z.string(),
+      authorId: id.nullish(),
+      authorName: optionalText,
+      authorStatus: accountStatus.nullish(),
+      jobId: id.nullish(),
+      chatId: id.nullish(),
+      removed: z.boolean()
+    }).nullish()
+  });
+
+  const moderationJob = entity({
+    id,
+    title: z.string(),
+    description: z.string(),
+    budget: z.number(),
+    category: z.string(),
+    skills: stringList.nullish(),
+    moderationStatus,
+    moderationNote: optionalText,
+    moderatedAt: optionalDate,
+    openReports: count.optional(),
+    createdAt: date,
+    user: entity({ id, name: z.string(), accountStatus: accountStatus.optional() }).optional(),
+    organization: entity({ name: z.string() }).nullish(),
+    moderator: entity({ name: z.string() }).nullish()
+  });
+
+  // Categorías y habilidades (los ids son enteros)
+  const catalogEntry = entity({
+    id: z.number(),
+    name: z.string(),
+    jobCount: count.optional()
+  });
+
+  const auditLogEntry = entity({
+    id,
+    action: z.string(),
+    targetType: z.string(),
+    targetId: z.string(),
+    details: z.record(z.unknown()).nullish(),
+    adminId: id,
+    createdAt: date,
+    admin: person.optional()
+  });
+
+  // Hito en disputa con su contrato y las dos partes
+  const dispute = milestone.extend({
+    contractId: id,
+    updatedAt: date,
+    contract: entity({
+      id,
+      title: z.string(),
+      jobId: id,
+      totalAmount: z.number(),
+      client: person.optional(),
+      freelancer: person.optional()
+    }).optional()
+  });
+
+  // Resultado de la búsqueda global: cada tipo trae el texto con <mark> en las coincidencias
+  /**
+   * @template {import('zod').ZodRawShape} S
+   * @param {S} shape
+   */
+  const searchHit = (shape) => z.array(entity({ id, ...shape })).optional();
+
+  const searchResults = entity({
+    jobs: searchHit({ title: z.string(), category: z.string().optional(), snippet: z.string().optional() }),
+    comments: searchHit({ jobId: id, jobTitle: z.string(), userName: z.string().optional(), snippet: z.string() }),
+    replies: searchHit({ jobId: id, jobTitle: z.string(), userName: z.string().optional(), snippet: z.string() }),
+    messages: searchHit({
+      chatId: id,
+      chatName: z.string().optional(),
+      isGroup: z.boolean(),
+      userName: z.string().optional(),
+      snippet: z.string()
+    }),
+    users: searchHit({ name: z.string(), role: z.string(), snippet: z.string().optional() })
+  });
+
+  /**
+   * Respuesta correcta con los campos propios del endpoint
+   * @template {import('zod').ZodRawShape} [S={}]
+   * @param {S} [shape]
+   */
+  const ok = (shape) => entity({
+    success: z.literal(true),
+    message: z.string().optional(),
+    ...shape
+  });
+
+  // Sesión devuelta al registrarse, iniciar sesión o renovar el token
+  const authSession = ok({
+    user,
+    token: z.string(),
+    refreshToken: z.string()
+  });
+
+  // Listados de administración paginados por fecha (?before=)
+  const adminPageQuery = {
+    limit: z.number().int().positive().optional(),
+    before: z.string().optional()
+  };
+
+  // Código de verificación en dos pasos (TOTP o código de recuperación)
+  const twoFactorCode = z.object({ code: requiredText(32) });
+
+  const schemas = {
+    user,
+    adminUser,
+    ratingSummary,
+    attachment,
+    comment,
+    reply,
+    job,
+    jobStatusChange,
+    jobStatusTransition,
+    jobSearchFilters,
+    facet,
+    proposal,
+    milestone,
+    contract,
+    chat,
+    chatMessage,
+    notification,
+    notificationPreferences,
+    organization,
+    organizationMember,
+    organizationInvitation,
+    review,
+    savedSearch,
+    savedJob,
+    savedJobCollection,
+    matchExplanation,
+    session,
+    blockedUser,
+    report,
+    moderationJob,
+    catalogEntry,
+    auditLogEntry,
+    dispute,
+    searchResults
+  };
+
+  // ---------------------------------------------------------------------------
+  // Endpoints (rutas relativas a /api)
+  // Las respuestas sin campo propio solo llevan success y message; las
+  // descargas de archivos (raw) no devuelven JSON
+  // ---------------------------------------------------------------------------
+
+  const endpoints = {
+    // Autenticación y cuenta
+    'auth.register': endpoint({
+      method: 'POST',
+      path: '/auth/register',
+      body: z.object({
+        name: requiredText(255),
+        email: z.string().trim().email(),
+        password: z.string().min(6),
+        role: z.enum(['freelancer', 'client']).optional()
+      }),
+      response: authSession
+    }),
+    'auth.login': endpoint({
+      method: 'POST',
+      path: '/auth/login',
+      body: z.object({
+        email: z.string().trim().min(1),
+        password: z.string().min(1)
+      }),
+      // Con la verificación en dos pasos activada se devuelve un desafío en lugar de la sesión
+      response: z.union([
+        authSession,
+        ok({ twoFactorRequired: z.literal(true), challengeToken: z.string() })
+      ])
+    }),
+    'auth.refresh': endpoint({
+      method: 'POST',
+      path: '/auth/refresh',
+      body: z.object({ refreshToken: z.string().min(1) }),
+      response: authSession
+    }),
+    'auth.verifyTwoFactorLogin': endpoint({
+      method: 'POST',
+      path: '/auth/2fa/verify',
+      body: z.object({ challengeToken: z.string().min(1), code: requiredText(32) }),
+      response: authSession.extend({ recoveryCodesRemaining: z.number().optional() })
+    }),
+    'auth.forgotPassword': endpoint({
+      method: 'POST',
+      path: '/auth/forgot-password',
+      body: z.object({ email: z.string().trim().min(1) }),
+      response: ok()
+    }),
+    'auth.resetPassword': endpoint({
+      method: 'POST',
+      path: '/auth/reset-password',
+      body: z.object({ token: z.string().min(1), password: z.string().min(6) }),
+      response: ok()
+    }),
+    'auth.verifyEmail': endpoint({
+      method: 'POST',
+      path: '/auth/verify-email',
+      body: z.object({ token: z.string().min(1) }),
+      response: ok()
+    }),
+    'auth.resendVerificationEmail': endpoint({
+      method: 'POST',
+      path: '/auth/verify-email/resend',
+      response: ok()
+    }),
+    'auth.logout': endpoint({
+      method: 'POST',
+      path: '/auth/logout',
+      response: ok()
+    }),
+    'auth.verifySession': endpoint({
+      method: 'GET',
+      path: '/auth/verify',
+      response: ok({ user })
+    }),
+    'auth.getSessions': endpoint({
+      method: 'GET',
+      path: '/auth/sessions',
+      response: ok({ sessions: z.array(session) })
+    }),
+    'auth.revokeOtherSessions': endpoint({
+      method: 'DELETE',
+      path: '/auth/sessions',
+      response: ok({ revokedCount: z.number() })
+    }),
+    'auth.revokeSession': endpoint({
+      method: 'DELETE',
+      path: '/auth/sessions/:sessionId',
+      response: ok()
+    }),
+    'auth.getTwoFactorStatus': endpoint({
+      method: 'GET',
+      path: '/auth/2fa',
+      response: ok({ enabled: z.boolean(), recoveryCodesRemaining: z.number() })
+    }),
+    'auth.setupTwoFactor': endpoint({
+      method: 'POST',
+      path: '/auth/2fa/setup',
+      response: ok({ secret: z.string(), otpauthUrl: z.string(), qrCode: z.string() })
+    }),
+    'auth.enableTwoFactor': endpoint({
+      method: 'POST',
+      path: '/auth/2fa/enable',
+      body: twoFactorCode,
+      response: ok({ recoveryCodes: stringList })
+    }),
+    'auth.disableTwoFactor': endpoint({
+      method: 'POST',
+      path: '/auth/2fa/disable',
+      body: twoFactorCode,
+      response: ok()
+    }),
+    'auth.regenerateRecoveryCodes': endpoint({
+      method: 'POST',
+      path: '/auth/2fa/recovery-codes',
+      body: twoFactorCode,
+      response: ok({ recoveryCodes: stringList })
+    }),
+
+    // Usuarios
+    'users.getCurrentUser': endpoint({
+      method: 'GET',
+      path: '/users/me',
+      response: ok({ user })
+    }),
+    'users.searchUsers': endpoint({
+      method: 'GET',
+      path: '/users/search',
+      query: z.object({ query: z.string().optional(), role: userRole.optional() }),
+      response: ok({ users: z.array(user) })
+    }),
+    'users.getBlockedUsers': endpoint({
+      method: 'GET',
+      path: '/users/blocks',
+      response: ok({ blockedUsers: z.array(blockedUser) })
+    }),
+    'users.getUserById': endpoint({
+      method: 'GET',
+      path: '/users/:userId',
+      response: ok({ user: user.extend({ ratingSummary: ratingSummary.optional() }) })
+    }),
+    'users.updateProfile': endpoint({
+      method: 'PUT',
+      path: '/users/profile',
+      body: z.object({
+        name: z.string().trim().max(255).optional(),   // Vacío: se mantiene el nombre actual
+        bio: z.string().nullish(),
+        skills: stringList.optional(),
+        hourlyRate: z.coerce.number().min(0).nullish()
+      }),
+      response: ok({ user })
+    }),
+    'users.uploadProfilePhoto': endpoint({
+      method: 'POST',
+      path: '/users/profile/photo',
+      upload: true,
+      response: ok({ photoURL: z.string() })
+    }),
+    'users.blockUser': endpoint({
+      method: 'POST',
+      path: '/users/:userId/block',
+      response: ok({ blockedUser })
+    }),
+    'users.unblockUser': endpoint({
+      method: 'DELETE',
+      path: '/users/:userId/block',
+      response: ok()
+    }),
+
+    // Trabajos
+    'jobs.getAllJobs': endpoint({
+      method: 'GET',
+      path: '/jobs',
+      query: jobSearchFilters.extend({
+        userId: id.optional(),
+        sort: jobSort.optional(),
+        limit: z.number().int().positive().optional(),
+        cursor: z.string().optional()
+      }),
+      response: ok({
+        jobs: z.array(job),
+        pageInfo: entity({ hasMore: z.boolean(), nextCursor: z.string().nullable() }),
+        // Solo en la primera página
+        total: z.number().optional(),
+        facets: entity({
+          categories: z.array(facet),
+          statuses: z.array(facet),
+          skills: z.array(facet)
+        }).optional()
+      })
+    }),
+    'jobs.getCategories': endpoint({
+      method: 'GET',
+      path: '/jobs/categories',
+      response: ok({ categories: stringList })
+    }),
+    'jobs.getSkills': endpoint({
+      method: 'GET',
+      path: '/jobs/skills',
+      response: ok({ skills: stringList })
+    }),
+    'jobs.getSavedJobs': endpoint({
+      method: 'GET',
+      path: '/jobs/saved/me',
+      response: ok({ jobs: z.array(job) })
+    }),
+    'jobs.getJobById': endpoint({
+      method: 'GET',
+      path: '/jobs/:jobId',
+      response: ok({ job })
+    }),
+    'jobs.getJobStatusHistory': endpoint({
+      method: 'GET',
+      path: '/jobs/:jobId/status-history',
+      response: ok({
+        history: z.array(jobStatusChange),
+        availableTransitions: z.array(jobStatusTransition)
+      })
+    }),
+    'jobs.createJob': endpoint({
+      method: 'POST',
+      path: '/jobs',
+      body: z.object({
+        title: requiredText(255),
+        description: requiredText(),
+        budget: amount,
+        category: requiredText(255),
+        skills: stringList.optional(),
+        organizationId: id.optional()
+      }),
+      response: ok({ job })
+    }),
+    'jobs.updateJob': endpoint({
+      method: 'PUT',
+      path: '/jobs/:jobId',
+      body: z.object({
+        title: requiredText(255).optional(),
+        description: requiredText().optional(),
+        budget: amount.optional(),
+        category: requiredText(255).optional(),
+        skills: stringList.optional()
+      }),
+      response: ok({ job })
+    }),
+    'jobs.changeJobStatus': endpoint({
+      method: 'PUT',
+      path: '/jobs/:jobId/status',
+      body: z.object({
+        status: jobStatus,
+        reason: z.string().max(1000).nullish()
+      }),
+      response: ok({ job })
+    }),
+    'jobs.deleteJob': endpoint({
+      method: 'DELETE',
+      path: '/jobs/:jobId',
+      response: ok()
+    }),
+    'jobs.addComment': endpoint({
+      method: 'POST',
+      path: '/jobs/:jobId/comments',
+      body: z.object({ content: requiredText(), idempotencyKey }),
+      response: ok({ comment })
+    }),
+    'jobs.addReply': endpoint({
+      method: 'POST',
+      path: '/jobs/comments/:commentId/replies',
+      body: z.object({ content: requiredText(), idempotencyKey }),
+      response: ok({ reply })
+    }),
+    'jobs.toggleJobLike': endpoint({
+      method: 'POST',
+      path: '/jobs/:jobId/like',
+      response: ok({ liked: z.boolean() })
+    }),
+    'jobs.toggleSavedJob': endpoint({
+      method: 'POST',
+      path: '/jobs/:jobId/save',
+      response: ok({ saved: z.boolean() })
+    }),
+
+    // Ofertas
+    'proposals.getJobProposals': endpoint({
+      method: 'GET',
+      path: '/proposals/job/:jobId',
+      response: ok({ proposals: z.array(proposal) })
+    }),
+    'proposals.createProposal': endpoint({
+      method: 'POST',
+      path: '/proposals/job/:jobId',
+      body: z.object({
+        coverLetter: requiredText(),
+        proposedBudget: amount,
+        estimatedDuration: z.coerce.number().int().positive(),
+        attachments: stringList.optional()
+      }),
+      response: ok({ proposal })
+    }),
+    'proposals.getMyProposals': endpoint({
+      method: 'GET',
+      path: '/proposals/me',
+      response: ok({ proposals: z.array(proposal) })
+    }),
+    'proposals.updateProposalStatus': endpoint({
+      method: 'PUT',
+      path: '/proposals/:proposalId/status',
+      body: z.object({ status: z.enum(['shortlisted', 'accepted', 'rejected']) }),
+      response: ok({
+        proposal,
+        jobStatus: jobStatus.optional(),
+        contractId: id.optional()
+      })
+    }),
+    'proposals.withdrawProposal': endpoint({
+      method: 'DELETE',
+      path: '/proposals/:proposalId',
+      response: ok({ proposal })
+    }),
+
+    // Contratos e hitos
+    'contracts.getMyContracts': endpoint({
+      method: 'GET',
+      path: '/contracts/me',
+      response: ok({ contracts: z.array(contract) })
+    }),
+    'contracts.getJobContract': endpoint({
+      method: 'GET',
+      path: '/contracts/job/:jobId',
+      response: ok({ contract: contract.nullable() })
+    }),
+    'contracts.getContract': endpoint({
+      method: 'GET',
+      path: '/contracts/:contractId',
+      response: ok({ contract })
+    }),
+    'contracts.createMilestone': endpoint({
+      method: 'POST',
+      path: '/contracts/:contractId/milestones',
+      body: z.object({
+        title: requiredText(255),
+        description: z.string().nullish(),
+        amount,
+        dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish().or(z.literal(''))
+      }),
+      response: ok({ contract })
+    }),
+    'contracts.deleteMilestone': endpoint({
+      method: 'DELETE',
+      path: '/contracts/:contractId/milestones/:milestoneId',
+      response: ok({ contract })
+    }),
+    'contracts.updateMilestone': endpoint({
+      method: 'PUT',
+      path: '/contracts/:contractId/milestones/:milestoneId/:action',
+      params: z.object({ action: milestoneAction }),
+      body: z.object({ note: z.string().nullish() }),
+      response: ok({ contract })
+    }),
+
+    // Reseñas
+    'reviews.getJobReviews': endpoint({
+      method: 'GET',
+      path: '/reviews/job/:jobId',
+      response: ok({
+        reviews: z.array(review),
+        canReview: z.boolean(),
+        awaitingCounterpart: z.boolean(),
+        reviewWindowDays: z.number(),
+        reviewDeadline: optionalDate
+      })
+    }),
+    'reviews.createReview': endpoint({
+      method: 'POST',
+      path: '/reviews/job/:jobId',
+      body: z.object({
+        rating: z.coerce.number().int().min(1).max(5),
+        communication: z.coerce.number().int().min(1).max(5),
+        quality: z.coerce.number().int().min(1).max(5),
+        timeliness: z.coerce.number().int().min(1).max(5),
+        comment: z.string().nullish()
+      }),
+      response: ok({ review })
+    }),
+    'reviews.getUserReviews': endpoint({
+      method: 'GET',
+      path: '/reviews/user/:userId',
+      response: ok({ reviews: z.array(review), ratingSummary })
+    }),
+
+    // Chats y mensajes
+    'chats.createChat': endpoint({
+      method: 'POST',
+      path: '/chats',
+      body: z.object({
+        participantIds: z.array(id).min(1),
+        name: z.string().max(255).nullish(),
+        isGroup: z.boolean().optional()
+      }),
+      // Un chat privado que ya existía trae la página más reciente de mensajes, como getChat
+      response: ok({ chat, hasOlderMessages: z.boolean().optional() })
+    }),
+    'chats.getChats': endpoint({
+      method: 'GET',
+      path: '/chats',
+      response: ok({ chats: z.array(chat) })
+    }),
+    'chats.getChat': endpoint({
+      method: 'GET',
+      path: '/chats/:chatId',
+      response: ok({ chat, hasOlderMessages: z.boolean().optional() })
+    }),
+    'chats.getMessages': endpoint({
+      method: 'GET',
+      path: '/chats/:chatId/messages',
+      // Solo uno de before, after o around
+      query: z.object({
+        before: uuid.optional(),
+        after: uuid.optional(),
+        around: uuid.optional(),
+        // Llega como texto en la query
+        limit: z.coerce.number().int().positive().optional()
+      }),
+      response: ok({
+        messages: z.array(chatMessage),
+        hasOlder: z.boolean(),
+        hasNewer: z.boolean()
+      })
+    }),
+    'chats.sendMessage': endpoint({
+      method: 'POST',
+      path: '/chats/:chatId/messages',
+      body: z.object({ content: requiredText(), idempotencyKey }),
+      response: ok({ chatMessage })
+    }),
+    'chats.editMessage': endpoint({
+      method: 'PUT',
+      path: '/chats/:chatId/messages/:messageId',
+      body: z.object({ content: requiredText() }),
+      response: ok({ chatMessage })
+    }),
+    'chats.deleteMessage': endpoint({
+      method: 'DELETE',
+      path: '/chats/:chatId/messages/:messageId',
+      response: ok()
+    }),
+    'chats.getMessageEdits': endpoint({
+      method: 'GET',
+      path: '/chats/:chatId/messages/:messageId/edits',
+      response: ok({
+        edits: z.array(entity({ id, content: z.string(), createdAt: date }))
+      })
+    }),
+    'chats.toggleReaction': endpoint({
+      method: 'POST',
+      path: '/chats/:chatId/messages/:messageId/reactions',
+      body: z.object({ emoji: requiredText(16) }),
+      response: ok({
+        reactions: z.array(entity({ emoji: z.string(), userId: id, createdAt: date.optional() }))
+      })
+    }),
+    'chats.addParticipant': endpoint({
+      method: 'POST',
+      path: '/chats/:chatId/participants',
+      body: z.object({ userId: id.min(1) }),
+      response: ok({ chat })
+    }),
+    'chats.leaveChat': endpoint({
+      method: 'DELETE',
+      path: '/chats/:chatId/leave',
+      response: ok()
+    }),
+
+    // Archivos adjuntos
+    'attachments.getJobAttachments': endpoint({
+      method: 'GET',
+      path: '/attachments/job/:jobId',
+      response: ok({
+        attachments: z.array(attachment),
+        commentAttachments: z.record(id, z.array(attachment))
+      })
+    }),
+    'attachments.downloadAttachment': endpoint({
+      method: 'GET',
+      path: '/attachments/:attachmentId/download',
+      raw: true
+    }),
+    'attachments.getAttachmentThumbnail': endpoint({
+      method: 'GET',
+      path: '/attachments/:attachmentId/thumbnail',
+      raw: true
+    }),
+    'attachments.deleteAttachment': endpoint({
+      method: 'DELETE',
+      path: '/attachments/:attachmentId',
+      response: ok()
+    }),
+    'attachments.uploadAttachments': endpoint({
+      method: 'POST',
+      path: '/attachments/:ownerType/:ownerId',
+      params: z.object({ ownerType: z.enum(['job', 'comment', 'proposal', 'milestone']) }),
+      upload: true,
+      response: ok({ attachments: z.array(attachment) })
+    }),
+
+    // Notificaciones
+    'notifications.getNotifications': endpoint({
+      method: 'GET',
+      path: '/notifications',
+      query: z.object({
+        limit: z.number().int().positive().optional(),
+        before: z.string().optional()
+      }),
+      response: ok({
+        notifications: z.array(notification),
+        hasMore: z.boolean(),
+        unreadCount: z.number()
+      })
+    }),
+    'notifications.markAllAsRead': endpoint({
+      method: 'PUT',
+      path: '/notifications/read-all',
+      response: ok({ updatedCount: z.number() })
+    }),
+    'notifications.markAsRead': endpoint({
+      method: 'PUT',
+      path: '/notifications/:notificationId/read',
+      response: ok({ notification })
+    }),
+    'notifications.getNotificationPreferences': endpoint({
+      method: 'GET',
+      path: '/notifications/preferences',
+      response: ok({ preferences: notificationPreferences })
+    }),
+    'notifications.updateNotificationPreferences': endpoint({
+      method: 'PUT',
+      path: '/notifications/preferences',
+      body: z.object({ preferences: z.record(notificationKind, notificationChannel) }),
+      response: ok({ preferences: notificationPreferences })
+    }),
+
+    // Organizaciones
+    'organizations.getMyOrganizations': endpoint({
+      method: 'GET',
+      path: '/organizations',
+      response: ok({ organizations: z.array(organization) })
+    }),
+    'organizations.createOrganization': endpoint({
+      method: 'POST',
+      path: '/organizations',
+      body: z.object({ name: requiredText(120) }),
+      response: ok({ organization })
+    }),
+    'organizations.getInvitation': endpoint({
+      method: 'GET',
+      path: '/organizations/invitations/:token',
+      response: ok({
+        invitation: entity({
+          organization: entity({ id, name: z.string() }),
+          inviter: person.nullish(),
+          email: optionalText,
+          role: invitationRole,
+          expiresAt: date
+        })
+      })
+    }),
+    'organizations.acceptInvitation': endpoint({
+      method: 'POST',
+      path: '/organizations/invitations/accept',
+      body: z.object({ token: z.string().min(1) }),
+      response: ok({ organization })
+    }),
+    'organizations.updateOrganization': endpoint({
+      method: 'PUT',
+      path: '/organizations/:organizationId',
+      body: z.object({ name: requiredText(120) }),
+      response: ok({ organization })
+    }),
+    'organizations.getMembers': endpoint({
+      method: 'GET',
+      path: '/organizations/:organizationId/members',
+      // Las invitaciones pendientes solo se incluyen para quien puede gestionar miembros
+      response: ok({
+        members: z.array(organizationMember),
+        invitations: z.array(organizationInvitation).optional()
+      })
+    }),
+    'organizations.updateMemberRole': endpoint({
+      method: 'PUT',
+      path: '/organizations/:organizationId/members/:memberId',
+      body: z.object({ role: organizationRole }),
+      response: ok({ member: organizationMember })
+    }),
+    'organizations.removeMember': endpoint({
+      method: 'DELETE',
+      path: '/organizations/:organizationId/members/:memberId',
+      response: ok()
+    }),
+    'organizations.createInvitation': endpoint({
+      method: 'POST',
+      path: '/organizations/:organizationId/invitations',
+      // Sin correo se crea una invitación por enlace
+      body: z.object({
+        role: invitationRole.optional(),
+        email: z.string().trim().email().nullish().or(z.literal(''))
+      }),
+      response: ok({
+        invitation: organizationInvitation,
+        url: z.string().nullable()    // Enlace con el token (solo en las invitaciones por enlace)
+      })
+    }),
+    'organizations.revokeInvitation': endpoint({
+      method: 'DELETE',
+      path: '/organizations/:organizationId/invitations/:invitationId',
+      response: ok()
+    }),
+
+    // Recomendaciones
+    'recommendations.getRecommendedJobs': endpoint({
+      method: 'GET',
+      path: '/recommendations/jobs',
+      query: z.object({ limit: z.number().int().positive().optional() }),
+      response: ok({
+        recommendations: z.array(entity({ job, match: matchExplanation }))
+      })
+    }),
+    'recommendations.getRecommendedFreelancers': endpoint({
+      method: 'GET',
+      path: '/recommendations/jobs/:jobId/freelancers',
+      query: z.object({ limit: z.number().int().positive().optional() }),
+      response: ok({
+        recommendations: z.array(entity({ freelancer: user, match: matchExplanation }))
+      })
+    }),
+
+    // Trabajos guardados y sus listas
+    'savedJobs.getMySavedJobs': endpoint({
+      method: 'GET',
+      path: '/saved-jobs',
+      response: ok({ savedJobs: z.array(savedJob) })
+    }),
+    'savedJobs.saveJob': endpoint({
+      method: 'PUT',
+      path: '/saved-jobs/:jobId',
+      body: z.object({
+        note: z.string().max(1000).nullish(),
+        collectionId: id.nullish()
+      }),
+      response: ok({ savedJob })
+    }),
+    'savedJobs.unsaveJob': endpoint({
+      method: 'DELETE',
+      path: '/saved-jobs/:jobId',
+      response: ok()
+    }),
+    'savedJobs.getMyCollections': endpoint({
+      method: 'GET',
+      path: '/saved-jobs/collections',
+      response: ok({ collections: z.array(savedJobCollection) })
+    }),
+    'savedJobs.createCollection': endpoint({
+      method: 'POST',
+      path: '/saved-jobs/collections',
+      body: z.object({ name: requiredText(60) }),
+      response: ok({ collection: savedJobCollection })
+    }),
+    'savedJobs.updateCollection': endpoint({
+      method: 'PUT',
+      path: '/saved-jobs/collections/:collectionId',
+      body: z.object({ name: requiredText(60) }),
+      response: ok({ collection: savedJobCollection })
+    }),
+    'savedJobs.deleteCollection': endpoint({
+      method: 'DELETE',
+      path: '/saved-jobs/collections/:collectionId',
+      response: ok()
+    }),
+
+    // Búsquedas guardadas
+    'savedSearches.getMySavedSearches': endpoint({
+      method: 'GET',
+      path: '/saved-searches',
+      response: ok({ savedSearches: z.array(savedSearch) })
+    }),
+    'savedSearches.createSavedSearch': endpoint({
+      method: 'POST',
+      path: '/saved-searches',
+      body: z.object({
+        name: requiredText(255),
+        filters: jobSearchFiltersInput
+      }),
+      response: ok({ savedSearch })
+    }),
+    'savedSearches.markSavedSearchViewed': endpoint({
+      method: 'PUT',
+      path: '/saved-searches/:savedSearchId/viewed',
+      response: ok({ savedSearch })
+    }),
+    'savedSearches.deleteSavedSearch': endpoint({
+      method: 'DELETE',
+      path: '/saved-searches/:savedSearchId',
+      response: ok()
+    }),
+
+    // Búsqueda global
+    'search.search': endpoint({
+      method: 'GET',
+      path: '/search',
+      query: z.object({
+        q: z.string(),
+        type: z.enum(['jobs', 'comments', 'replies', 'messages', 'users']).optional(),
+        limit: z.number().int().positive().optional()
+      }),
+      response: ok({ query: z.string(), results: searchResults })
+    }),
+
+    // Denuncias
+    'reports.createReport': endpoint({
+      method: 'POST',
+      path: '/reports',
+      body: z.object({
+        targetType: reportTargetType,
+        targetId: id.min(1),
+        reason: reportReason,
+        details: z.string().max(1000).nullish()
+      }),
+      response: ok({ report })
+    }),
+
+    // Administración
+    'admin.getOverview': endpoint({
+      method: 'GET',
+      path: '/admin/overview',
+      response: ok({
+        overview: entity({
+          pendingJobs: z.number(),
+          openReports: z.number(),
+          openDisputes: z.number(),
+          suspendedUsers: z.number(),
+          bannedUsers: z.number()
+        })
+      })
+    }),
+    'admin.getUsers': endpoint({
+      method: 'GET',
+      path: '/admin/users',
+      query: z.object({
+        search: z.string().optional(),
+        role: userRole.optional(),
+        status: accountStatus.optional(),
+        ...adminPageQuery
+      }),
+      response: ok({ users: z.array(adminUser), hasMore: z.boolean() })
+    }),
+    'admin.updateUserStatus': endpoint({
+      method: 'PUT',
+      path: '/admin/users/:userId/status',
+      // El motivo es obligatorio al suspender o expulsar (lo comprueba el controlador)
+      body: z.object({
+        status: accountStatus,
+        days: z.coerce.number().int().positive().nullish(),
+        reason: z.string().nullish()
+      }),
+      response: ok({ user: adminUser })
+    }),
+    'admin.getModerationJobs': endpoint({
+      method: 'GET',
+      path: '/admin/jobs',
+      query: z.object({ status: moderationStatus.optional(), ...adminPageQuery }),
+      response: ok({ jobs: z.array(moderationJob), hasMore: z.boolean() })
+    }),
+    'admin.moderateJob': endpoint({
+      method: 'PUT',
+      path: '/admin/jobs/:jobId/moderation',
+      body: z.object({
+        status: z.enum(['approved', 'removed']),
+        note: z.string().nullish()
+      }),
+      response: ok({
+        job: entity({
+          id,
+          moderationStatus,
+          moderationNote: optionalText,
+          moderatedAt: optionalDate
+        })
+      })
+    }),
+    'admin.getReports': endpoint({
+      method: 'GET',
+      path: '/admin/reports',
+      query: z.object({ status: reportStatus.optional(), ...adminPageQuery }),
+      response: ok({ reports: z.array(report), hasMore: z.boolean() })
+    }),
+    'admin.resolveReport': endpoint({
+      method: 'PUT',
+      path: '/admin/reports/:reportId',
+      body: z.object({
+        status: z.enum(['resolved', 'dismissed']),
+        removeContent: z.boolean().optional(),
+        note: z.string().nullish()
+      }),
+      response: ok({ contentRemoved: z.boolean(), closedCount: z.number() })
+    }),
+    'admin.getDisputes': endpoint({
+      method: 'GET',
+      path: '/admin/disputes',
+      response: ok({ disputes: z.array(dispute) })
+    }),
+    'admin.resolveDispute': endpoint({
+      method: 'PUT',
+      path: '/admin/milestones/:milestoneId/resolution',
+      body: z.object({
+        resolution: z.enum(['release', 'refund']),
+        note: requiredText(1000)
+      }),
+      response: ok({
+        milestone: entity({ id, status: milestoneStatus, resolutionNote: optionalText })
+      })
+    }),
+    'admin.getCategories': endpoint({
+      method: 'GET',
+      path: '/admin/categories',
+      response: ok({ categories: z.array(catalogEntry) })
+    }),
+    'admin.createCategory': endpoint({
+      method: 'POST',
+      path: '/admin/categories',
+      body: z.object({ name: requiredText(60) }),
+      response: ok({ category: catalogEntry })
+    }),
+    'admin.updateCategory': endpoint({
+      method: 'PUT',
+      path: '/admin/categories/:categoryId',
+      body: z.object({ name: requiredText(60) }),
+      response: ok({ category: catalogEntry })
+    }),
+    'admin.deleteCategory': endpoint({
+      method: 'DELETE',
+      path: '/admin/categories/:categoryId',
+      response: ok()
+    }),
+    'admin.getSkills': endpoint({
+      method: 'GET',
+      path: '/admin/skills',
+      response: ok({ skills: z.array(catalogEntry) })
+    }),
+    'admin.createSkill': endpoint({
+      method: 'POST',
+      path: '/admin/skills',
+      body: z.object({ name: requiredText(60) }),
+      response: ok({ skill: catalogEntry })
+    }),
+    'admin.updateSkill': endpoint({
+      method: 'PUT',
+      path: '/admin/skills/:skillId',
+      body: z.object({ name: requiredText(60) }),
+      response: ok({ skill: catalogEntry })
+    }),
+    'admin.deleteSkill': endpoint({
+      method: 'DELETE',
+      path: '/admin/skills/:skillId',
+      response: ok()
+    }),
+    'admin.getAuditLog': endpoint({
+      method: 'GET',
+      path: '/admin/audit-log',
+      query: z.object({
+        action: z.string().optional(),
+        targetType: z.string().optional(),
+        ...adminPageQuery
+      }),
+      response: ok({ entries: z.array(auditLogEntry), hasMore: z.boolean() })
+    }),
+
+    // Catálogo público de categorías y habilidades
+    'catalog.getCategories': endpoint({
+      method: 'GET',
+      path: '/categories',
+      response: ok({ categories: z.array(catalogEntry) })
+    }),
+    'catalog.getSkills': endpoint({
+      method: 'GET',
+      path: '/skills',
+      response: ok({ skills: z.array(catalogEntry) })
+    })
+  };
+
+  return { schemas, endpoints, errorMap: createErrorMap(z) };
+};
+
+/**
+ * Mensajes de validación en español (los de zod por defecto están en inglés)
+ * @param {typeof import('zod').z} z
+ * @returns {import('zod').ZodErrorMap}
+ */
+const createErrorMap = (z) => (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return {
+        message: issue.received === 'undefined' || issue.received === 'null'
+          ? 'Campo obligatorio'
+          : `Se esperaba ${TYPE_NAMES[issue.expected] || issue.expected}`
+      };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `Valor no válido; se admite: ${issue.options.join(', ')}` };
+    case z.ZodIssueCode.invalid_literal:
+      return { message: 'Valor no válido' };
+    case z.ZodIssueCode.too_small:
+      if (issue.type === 'string') {
+        return { message: issue.minimum === 1 ? 'No puede estar vacío' : `Debe tener al menos ${issue.minimum} caracteres` };
+      }
+      if (issue.type === 'array') {
+        return { message: `Debe incluir al menos ${issue.minimum} elemento(s)` };
+      }
+      return { message: issue.inclusive ? `Debe ser al menos ${issue.minimum}` : `Debe ser mayor que ${issue.minimum}` };
+    case z.ZodIssueCode.too_big:
+      if (issue.type === 'string') {
+        return { message: `No puede superar los ${issue.maximum} caracteres` };
+      }
+      return { message: `No puede ser mayor que ${issue.maximum}` };
+    case z.ZodIssueCode.invalid_string:
+      return { message: issue.validation === 'email' ? 'Correo electrónico no válido' : 'Formato no válido' };
+    case z.ZodIssueCode.invalid_union:
+      return { message: 'Formato no válido' };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+// Nombre de los tipos de JavaScript en los mensajes de error
+const TYPE_NAMES = {
+  string: 'un texto',
+  number: 'un número',
+  integer: 'un número entero',
+  boolean: 'verdadero o falso',
+  array: 'una lista',
+  object: 'un objeto',
+  date: 'una fecha'
+};
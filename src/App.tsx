@@ -3,9 +3,9 @@
  * Componente Principal de la Aplicación
  * 
  * Este es el punto de entrada de la aplicación React que contiene:
- * - Proveedores globales (Theme, Auth, Data, Jobs, Chat)
+ * - Proveedores globales (Theme, Auth, Organizations, Data, Jobs, Chat, Notifications)
  * - Configuración de rutas usando React Router
- * - Implementación de rutas protegidas
+ * - Implementación de rutas protegidas (y de administración)
  * - Configuración de rutas públicas
  */
 
@@ -14,16 +14,23 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { OrganizationProvider } from "@/contexts/OrganizationContext";
 import { ChatProvider } from "@/contexts/ChatContext";
 import { JobProvider } from "@/contexts/JobContext";
 import { DataProvider } from "@/contexts/DataContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { NotificationProvider } from "@/contexts/NotificationContext";
+import { SavedSearchAlerts } from "@/components/SavedSearches/SavedSearchAlerts";
+import { DesktopMessageNotifications } from "@/components/Notifications/DesktopMessageNotifications";
 
 // Importar componentes de páginas
 import Index from "./pages/Index";
 import Login from "./pages/Login";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
 import JobsPage from "./pages/JobsPage";
@@ -32,10 +39,23 @@ import ProfilePage from "./pages/ProfilePage";
 import ChatsPage from "./pages/ChatsPage";
 import UserProfile from "./pages/UserProfile";
 import CreateJobPage from "./pages/CreateJobPage";
+import ContractPage from "./pages/ContractPage";
+import NotificationsPage from "./pages/NotificationsPage";
+import SavedJobsPage from "./pages/SavedJobsPage";
+import OrganizationPage from "./pages/OrganizationPage";
+import AcceptInvitation from "./pages/AcceptInvitation";
+import AdminPage from "./pages/AdminPage";
 import NotFound from "./pages/NotFound";
 
 // Inicializar el cliente de React Query
-const queryClient = new QueryClient();
+// 'offlineFirst': las consultas y mutaciones se ejecutan aunque el navegador no tenga
+// conexión, para que los servicios respondan con la caché o guarden el cambio en la cola
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { networkMode: 'offlineFirst' },
+    mutations: { networkMode: 'offlineFirst' }
+  }
+});
 
 /**
  * Componente de Ruta Protegida
@@ -59,13 +79,28 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
+/**
+ * Componente de Ruta de Administración
+ * Además de la sesión exige el rol de administrador; el resto vuelve al dashboard
+ */
+const AdminRoute = ({ children }: { children: React.ReactNode }) => {
+  const { currentUser } = useAuth();
+  
+  return (
+    <ProtectedRoute>
+      {currentUser?.role === 'admin' ? children : <Navigate to="/dashboard" />}
+    </ProtectedRoute>
+  );
+};
+
 /**
  * Componente de Ruta Solo Pública
  * Accesible solo cuando no hay sesión iniciada
- * Redirige al dashboard si ya está autenticado
+ * Redirige al dashboard (o a la página indicada en state.from) si ya está autenticado
  */
 const PublicOnlyRoute = ({ children }: { children: React.ReactNode }) => {
   const { currentUser, loading } = useAuth();
+  const location = useLocation();
   
   // Mostrar pantalla de carga mientras se verifica el estado de autenticación
   if (loading) {
@@ -74,7 +109,8 @@ const PublicOnlyRoute = ({ children }: { children: React.ReactNode }) => {
   
   // Redireccionar al dashboard si ya hay un usuario autenticado
   if (currentUser) {
-    return <Navigate to="/dashboard" />;
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from || "/dashboard"} />;
   }
   
   // Si no hay usuario autenticado, mostrar el contenido público
@@ -92,16 +128,28 @@ const AppRoutes = () => {
       <Route path="/" element={<Index />} />
       <Route path="/login" element={<PublicOnlyRoute><Login /></PublicOnlyRoute>} />
       <Route path="/register" element={<PublicOnlyRoute><Register /></PublicOnlyRoute>} />
+      <Route path="/forgot-password" element={<PublicOnlyRoute><ForgotPassword /></PublicOnlyRoute>} />
+      <Route path="/reset-password" element={<PublicOnlyRoute><ResetPassword /></PublicOnlyRoute>} />
+      {/* Accesible con o sin sesión: el enlace puede abrirse en otro dispositivo */}
+      <Route path="/verify-email" element={<VerifyEmail />} />
+      {/* Muestra la invitación sin sesión y pide iniciarla para aceptarla */}
+      <Route path="/invitations/accept" element={<AcceptInvitation />} />
       
       {/* Rutas protegidas - requieren autenticación */}
       <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
       <Route path="/jobs" element={<ProtectedRoute><JobsPage /></ProtectedRoute>} />
       <Route path="/jobs/:jobId" element={<ProtectedRoute><JobDetail /></ProtectedRoute>} />
       <Route path="/jobs/create" element={<ProtectedRoute><CreateJobPage /></ProtectedRoute>} />
+      <Route path="/jobs/:jobId/contract" element={<ProtectedRoute><ContractPage /></ProtectedRoute>} />
+      <Route path="/contracts/:contractId" element={<ProtectedRoute><ContractPage /></ProtectedRoute>} />
       <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
       <Route path="/chats" element={<ProtectedRoute><ChatsPage /></ProtectedRoute>} />
       <Route path="/user/:userId" element={<ProtectedRoute><UserProfile /></ProtectedRoute>} />
       <Route path="/create-job" element={<ProtectedRoute><CreateJobPage /></ProtectedRoute>} />
+      <Route path="/notifications" element={<ProtectedRoute><NotificationsPage /></ProtectedRoute>} />
+      <Route path="/saved" element={<ProtectedRoute><SavedJobsPage /></ProtectedRoute>} />
+      <Route path="/organization" element={<ProtectedRoute><OrganizationPage /></ProtectedRoute>} />
+      <Route path="/admin" element={<AdminRoute><AdminPage /></AdminRoute>} />
       
       {/* Ruta 404 para manejar URLs no encontradas */}
       <Route path="*" element={<NotFound />} />
@@ -118,17 +166,23 @@ const App = () => (
     <BrowserRouter>
       <ThemeProvider>
         <AuthProvider>
-          <DataProvider>
-            <JobProvider>
-              <ChatProvider>
-                <TooltipProvider>
-                  <AppRoutes />
-                  <Toaster />
-                  <Sonner />
-                </TooltipProvider>
-              </ChatProvider>
-            </JobProvider>
-          </DataProvider>
+          <OrganizationProvider>
+            <DataProvider>
+              <JobProvider>
+                <ChatProvider>
+                  <NotificationProvider>
+                    <TooltipProvider>
+                      <AppRoutes />
+                      <SavedSearchAlerts />
+                      <DesktopMessageNotifications />
+                      <Toaster />
+                      <Sonner />
+                    </TooltipProvider>
+                  </NotificationProvider>
+                </ChatProvider>
+              </JobProvider>
+            </DataProvider>
+          </OrganizationProvider>
         </AuthProvider>
       </ThemeProvider>
     </BrowserRouter>
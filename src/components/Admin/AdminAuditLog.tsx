@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { AUDIT_ACTION_LABELS, AuditLogEntryType, getAuditLog } from '@/lib/adminService';
+
+const ALL = 'all';
+
+/**
+ * Resumen legible de los detalles de una entrada (motivo, nota o nombres del catálogo)
+ */
+const describeDetails = (entry: AuditLogEntryType) => {
+  const { details } = entry;
+  const parts: string[] = [];
+
+  if (typeof details.title === 'string') parts.push(`"${details.title}"`);
+  if (typeof details.previousName === 'string' && typeof details.name === 'string') {
+    parts.push(`"${details.previousName}" → "${details.name}"`);
+  } else if (typeof details.name === 'string') {
+    parts.push(`"${details.name}"`);
+  }
+  if (typeof details.reason === 'string' && details.reason) parts.push(details.reason);
+  if (typeof details.note === 'string' && details.note) parts.push(details.note);
+  if (details.contentRemoved === true) parts.push('Contenido retirado');
+
+  return parts.join(' · ');
+};
+
+/**
+ * Registro de auditoría de las acciones de los administradores
+ */
+export const AdminAuditLog = () => {
+  const [action, setAction] = useState(ALL);
+  const filters = { action: action === ALL ? undefined : action };
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['admin', 'audit-log', filters],
+    queryFn: ({ pageParam }) => getAuditLog(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : undefined)
+  });
+
+  const entries = data?.pages.flatMap(page => page.items) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <Select value={action} onValueChange={setAction}>
+        <SelectTrigger className="w-full md:w-[260px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Todas las acciones</SelectItem>
+          {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No hay acciones registradas</p>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <ul className="divide-y">
+              {entries.map(entry => {
+                const summary = describeDetails(entry);
+
+                return (
+                  <li key={entry.id} className="p-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm">
+                          <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span>
+                          <span className="text-gray-500"> por {entry.adminName}</span>
+                        </p>
+                        {summary && <p className="text-sm text-gray-700 dark:text-gray-300 break-words">{summary}</p>}
+                        <p className="text-xs text-gray-400 font-mono truncate">{entry.targetType}:{entry.targetId}</p>
+                      </div>
+                      <span className="text-xs text-gray-500 flex-shrink-0">
+                        {formatDistanceToNow(entry.createdAt, { addSuffix: true, locale: es })}
+                      </span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? 'Cargando...' : 'Cargar más'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
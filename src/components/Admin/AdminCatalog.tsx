@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Check, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useData } from '@/contexts/DataContext';
+import {
+  CatalogEntryType,
+  createCatalogEntry,
+  deleteCatalogEntry,
+  getCatalog,
+  renameCatalogEntry
+} from '@/lib/adminService';
+import { toast } from '@/components/ui/use-toast';
+
+type CatalogKind = 'categories' | 'skills';
+
+const CATALOG_TEXTS: Record<CatalogKind, { title: string; description: string; placeholder: string; singular: string }> = {
+  categories: {
+    title: 'Categorías',
+    description: 'Las categorías con trabajos publicados no se pueden eliminar; al renombrarlas se actualizan sus trabajos.',
+    placeholder: 'Nueva categoría',
+    singular: 'categoría'
+  },
+  skills: {
+    title: 'Habilidades',
+    description: 'Al renombrar una habilidad se actualizan los trabajos y perfiles que la usan; si se elimina, la conservan.',
+    placeholder: 'Nueva habilidad',
+    singular: 'habilidad'
+  }
+};
+
+/**
+ * Lista editable de categorías o habilidades
+ */
+const CatalogSection = ({ kind }: { kind: CatalogKind }) => {
+  const queryClient = useQueryClient();
+  const { fetchCategories, fetchSkills } = useData();
+  const texts = CATALOG_TEXTS[kind];
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<CatalogEntryType | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['admin', 'catalog', kind],
+    queryFn: () => getCatalog(kind)
+  });
+
+  // Refrescar el panel y las listas que usan los formularios de la aplicación
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'catalog', kind] });
+    return kind === 'categories' ? fetchCategories() : fetchSkills();
+  };
+
+  const runAction = async (action: () => Promise<void>, successTitle: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await refresh();
+      toast({ title: successTitle });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar el cambio"
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (await runAction(() => createCatalogEntry(kind, name), `Se ha añadido "${name}"`)) {
+      setNewName('');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (!name) return;
+    if (await runAction(() => renameCatalogEntry(kind, editing.id, name), `Se ha renombrado a "${name}"`)) {
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const entry = pendingDelete;
+    setPendingDelete(null);
+    await runAction(() => deleteCatalogEntry(kind, entry.id), `Se ha eliminado "${entry.name}"`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{texts.title}</CardTitle>
+        <CardDescription>{texts.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder={texts.placeholder}
+            maxLength={100}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button
+            type="submit"
+            className="bg-wfc-purple hover:bg-wfc-purple-medium"
+            disabled={saving || !newName.trim()}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Añadir
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">Todavía no hay ninguna {texts.singular}</p>
+        ) : (
+          <ul className="divide-y max-h-[480px] overflow-y-auto">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between gap-2 py-2">
+                {editing?.id === entry.id ? (
+                  <form
+                    className="flex flex-1 gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename();
+                    }}
+                  >
+                    <Input
+                      autoFocus
+                      maxLength={100}
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    />
+                    <Button type="submit" size="icon" variant="ghost" aria-label="Guardar" disabled={saving || !editing.name.trim()}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" size="icon" variant="ghost" aria-label="Cancelar" onClick={() => setEditing(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <div className="min-w-0">
+                      <span className="text-sm">{entry.name}</span>
+                      {entry.jobCount !== undefined && (
+                        <span className="text-xs text-gray-500 ml-2">
+                          {entry.jobCount} {entry.jobCount === 1 ? 'trabajo' : 'trabajos'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-shrink-0">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Renombrar"
+                        onClick={() => setEditing({ id: entry.id, name: entry.name })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Eliminar"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={!!entry.jobCount}
+                        title={entry.jobCount ? 'Tiene trabajos publicados' : undefined}
+                        onClick={() => setPendingDelete(entry)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Eliminar {texts.singular}</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" dejará de ofrecerse en los formularios de la aplicación.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDelete}>
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+/**
+ * Gestión del catálogo de categorías y habilidades
+ */
+export const AdminCatalog = () => (
+  <div className="grid gap-6 lg:grid-cols-2">
+    <CatalogSection kind="categories" />
+    <CatalogSection kind="skills" />
+  </div>
+);
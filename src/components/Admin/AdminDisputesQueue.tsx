@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { DisputeResolution, DisputeType, getDisputes, resolveDispute } from '@/lib/adminService';
+import { ModerationDialog } from './ModerationDialog';
+import { toast } from '@/components/ui/use-toast';
+
+// Textos del diálogo de cada resolución
+const RESOLUTION_DIALOGS: Record<DisputeResolution, { title: string; confirmLabel: string; done: string }> = {
+  release: { title: 'Pagar al freelancer', confirmLabel: 'Liberar pago', done: 'Pago liberado al freelancer' },
+  refund: { title: 'Devolver al cliente', confirmLabel: 'Devolver importe', done: 'Importe devuelto al cliente' }
+};
+
+/**
+ * Cola de hitos en disputa
+ * El administrador cierra cada disputa pagando el hito al freelancer o devolviendo el importe al cliente
+ */
+export const AdminDisputesQueue = () => {
+  const queryClient = useQueryClient();
+  const [resolving, setResolving] = useState<{ dispute: DisputeType; resolution: DisputeResolution } | null>(null);
+
+  const { data: disputes = [], isLoading } = useQuery({
+    queryKey: ['admin', 'disputes'],
+    queryFn: getDisputes
+  });
+
+  const handleResolve = async (note: string) => {
+    if (!resolving) return;
+    await resolveDispute(resolving.dispute.id, resolving.resolution, note);
+    queryClient.invalidateQueries({ queryKey: ['admin'] });
+    toast({ title: RESOLUTION_DIALOGS[resolving.resolution].done, description: resolving.dispute.title });
+  };
+
+  const dialog = resolving && RESOLUTION_DIALOGS[resolving.resolution];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {disputes.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No hay hitos en disputa</p>
+      ) : (
+        <div className="space-y-3">
+          {disputes.map(dispute => (
+            <Card key={dispute.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h3 className="font-medium">{dispute.title} · ${dispute.amount}</h3>
+                    <p className="text-sm text-gray-600 mt-1">
+                      <Link to={`/jobs/${dispute.jobId}`} className="hover:underline">{dispute.contractTitle}</Link>
+                      {` · ${dispute.clientName} (cliente) y ${dispute.freelancerName} (freelancer)`}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      En disputa {formatDistanceToNow(dispute.disputedAt, { addSuffix: true, locale: es })}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={() => setResolving({ dispute, resolution: 'release' })}
+                    >
+                      Pagar al freelancer
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setResolving({ dispute, resolution: 'refund' })}
+                    >
+                      Devolver al cliente
+                    </Button>
+                  </div>
+                </div>
+                {dispute.disputeReason && (
+                  <div className="text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded p-2">
+                    <span className="font-medium">Disputa: </span>
+                    <span className="whitespace-pre-line">{dispute.disputeReason}</span>
+                  </div>
+                )}
+                {dispute.submissionNote && (
+                  <div className="text-sm bg-gray-50 dark:bg-gray-800 rounded p-2">
+                    <span className="font-medium">Entrega: </span>
+                    <span className="whitespace-pre-line">{dispute.submissionNote}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ModerationDialog
+        open={!!resolving}
+        onOpenChange={(open) => !open && setResolving(null)}
+        title={dialog?.title || ''}
+        description={`El importe de "${resolving?.dispute.title}" ($${resolving?.dispute.amount}) sale de la garantía del contrato. Las dos partes verán el motivo.`}
+        reasonLabel="Motivo de la resolución"
+        reasonRequired
+        confirmLabel={dialog?.confirmLabel || ''}
+        onConfirm={handleResolve}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Flag, Loader2 } from 'lucide-react';
+import {
+  ACCOUNT_STATUS_LABELS,
+  JobModerationStatus,
+  ModerationJobType,
+  getModerationJobs,
+  moderateJob
+} from '@/lib/adminService';
+import { ModerationDialog } from './ModerationDialog';
+import { toast } from '@/components/ui/use-toast';
+
+// Pestañas de la cola
+const STATUS_TABS: Record<JobModerationStatus, string> = {
+  pending: 'Pendientes',
+  approved: 'Aprobados',
+  removed: 'Retirados'
+};
+
+/**
+ * Cola de moderación de trabajos
+ * Los trabajos nuevos (o editados) se publican al momento y quedan pendientes de revisión
+ */
+export const AdminJobsQueue = () => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<JobModerationStatus>('pending');
+  const [removing, setRemoving] = useState<ModerationJobType | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['admin', 'jobs', status],
+    queryFn: ({ pageParam }) => getModerationJobs(status, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : undefined)
+  });
+
+  const jobs = data?.pages.flatMap(page => page.items) ?? [];
+
+  const handleApprove = async (job: ModerationJobType) => {
+    setApprovingId(job.id);
+    try {
+      await moderateJob(job.id, 'approved');
+      queryClient.invalidateQueries({ queryKey: ['admin'] });
+      toast({ title: job.moderationStatus === 'removed' ? "Trabajo restaurado" : "Trabajo aprobado", description: job.title });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo aprobar el trabajo"
+      });
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const handleRemove = async (note: string) => {
+    if (!removing) return;
+    await moderateJob(removing.id, 'removed', note);
+    queryClient.invalidateQueries({ queryKey: ['admin'] });
+    toast({ title: "Trabajo retirado", description: removing.title });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={(value) => setStatus(value as JobModerationStatus)}>
+        <TabsList>
+          {(Object.keys(STATUS_TABS) as JobModerationStatus[]).map(option => (
+            <TabsTrigger key={option} value={option}>{STATUS_TABS[option]}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">
+          {status === 'pending' ? 'No hay trabajos pendientes de revisión' : 'No hay trabajos en esta lista'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {jobs.map(job => (
+            <Card key={job.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {job.moderationStatus === 'removed' ? (
+                        <h3 className="font-medium">{job.title}</h3>
+                      ) : (
+                        <Link to={`/jobs/${job.id}`} className="font-medium hover:underline">{job.title}</Link>
+                      )}
+                      {job.openReports > 0 && (
+                        <Badge variant="destructive" className="gap-1">
+                          <Flag className="h-3 w-3" />
+                          {job.openReports} {job.openReports === 1 ? 'denuncia' : 'denuncias'}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {job.userName}
+                      {job.organizationName && ` · ${job.organizationName}`}
+                      {job.userStatus && job.userStatus !== 'active' && (
+                        <Badge variant="outline" className="ml-2">{ACCOUNT_STATUS_LABELS[job.userStatus]}</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {job.category} · ${job.budget} · Publicado {formatDistanceToNow(job.createdAt, { addSuffix: true, locale: es })}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {job.moderationStatus !== 'approved' && (
+                      <Button
+                        size="sm"
+                        className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                        disabled={approvingId === job.id}
+                        onClick={() => handleApprove(job)}
+                      >
+                        {job.moderationStatus === 'removed' ? 'Restaurar' : 'Aprobar'}
+                      </Button>
+                    )}
+                    {job.moderationStatus !== 'removed' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => setRemoving(job)}
+                      >
+                        Retirar
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3 whitespace-pre-line">{job.description}</p>
+                {job.moderatedAt && (
+                  <p className="text-xs text-gray-500">
+                    Revisado por {job.moderatorName || 'un administrador'} {formatDistanceToNow(job.moderatedAt, { addSuffix: true, locale: es })}
+                    {job.moderationNote && `: ${job.moderationNote}`}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? 'Cargando...' : 'Cargar más'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ModerationDialog
+        open={!!removing}
+        onOpenChange={(open) => !open && setRemoving(null)}
+        title="Retirar trabajo"
+        description={`"${removing?.title}" dejará de aparecer en los listados y las búsquedas. Podrás restaurarlo más adelante.`}
+        reasonLabel="Motivo de la retirada"
+        reasonRequired
+        confirmLabel="Retirar"
+        destructive
+        onConfirm={handleRemove}
+      />
+    </div>
+  );
+};
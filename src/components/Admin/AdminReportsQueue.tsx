@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2 } from 'lucide-react';
+import {
+  ACCOUNT_STATUS_LABELS,
+  REPORT_STATUS_LABELS,
+  REPORT_TARGET_LABELS,
+  ReportStatus,
+  ReportType,
+  getReports,
+  resolveReport
+} from '@/lib/adminService';
+import { REPORT_REASON_LABELS } from '@/lib/reportService';
+import { ModerationDialog } from './ModerationDialog';
+import { toast } from '@/components/ui/use-toast';
+
+// Pestañas de la cola
+const STATUS_TABS: Record<ReportStatus, string> = {
+  open: 'Abiertas',
+  resolved: 'Resueltas',
+  dismissed: 'Desestimadas'
+};
+
+/**
+ * Enlace al contenido denunciado (los mensajes de chats privados no se enlazan)
+ */
+const getTargetLink = (report: ReportType) => {
+  if (!report.target) return null;
+  if (report.targetType === 'user') return `/user/${report.targetId}`;
+  if (report.target.jobId && !(report.targetType === 'job' && report.target.removed)) {
+    return `/jobs/${report.target.jobId}`;
+  }
+  return null;
+};
+
+/**
+ * Cola de denuncias
+ * Al resolver se puede retirar el contenido; las cuentas se suspenden desde la pestaña de usuarios
+ */
+export const AdminReportsQueue = () => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [closing, setClosing] = useState<{ report: ReportType; status: Exclude<ReportStatus, 'open'> } | null>(null);
+  const [removeContent, setRemoveContent] = useState(true);
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['admin', 'reports', status],
+    queryFn: ({ pageParam }) => getReports(status, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : undefined)
+  });
+
+  const reports = data?.pages.flatMap(page => page.items) ?? [];
+
+  // Solo se puede retirar contenido que aún existe y no está retirado (los perfiles no se retiran)
+  const canRemoveContent = !!closing && closing.status === 'resolved' &&
+    closing.report.targetType !== 'user' && !!closing.report.target && !closing.report.target.removed;
+
+  const openCloseDialog = (report: ReportType, nextStatus: Exclude<ReportStatus, 'open'>) => {
+    setRemoveContent(true);
+    setClosing({ report, status: nextStatus });
+  };
+
+  const handleClose = async (note: string) => {
+    if (!closing) return;
+    const result = await resolveReport(closing.report.id, closing.status, note, canRemoveContent && removeContent);
+    queryClient.invalidateQueries({ queryKey: ['admin'] });
+
+    const others = result.closedCount - 1;
+    toast({
+      title: closing.status === 'resolved' ? "Denuncia resuelta" : "Denuncia desestimada",
+      description: [
+        result.contentRemoved && 'Se ha retirado el contenido.',
+        others > 0 && `Se han cerrado también ${others} ${others === 1 ? 'denuncia' : 'denuncias'} sobre el mismo contenido.`
+      ].filter(Boolean).join(' ') || undefined
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+        <TabsList>
+          {(Object.keys(STATUS_TABS) as ReportStatus[]).map(option => (
+            <TabsTrigger key={option} value={option}>{STATUS_TABS[option]}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">
+          {status === 'open' ? 'No hay denuncias pendientes' : 'No hay denuncias en esta lista'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {reports.map(report => {
+            const link = getTargetLink(report);
+
+            return (
+              <Card key={report.id}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{REPORT_TARGET_LABELS[report.targetType]}</Badge>
+                        <span className="font-medium">{REPORT_REASON_LABELS[report.reason]}</span>
+                        {report.status !== 'open' && (
+                          <Badge variant="secondary">{REPORT_STATUS_LABELS[report.status]}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Denunciado por {report.reporterName} {formatDistanceToNow(report.createdAt, { addSuffix: true, locale: es })}
+                      </p>
+                      {report.details && (
+                        <p className="text-sm text-gray-700 dark:text-gray-300">"{report.details}"</p>
+                      )}
+                    </div>
+                    {report.status === 'open' && (
+                      <div className="flex gap-2 flex-shrink-0">
+                        <Button
+                          size="sm"
+                          className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                          onClick={() => openCloseDialog(report, 'resolved')}
+                        >
+                          Resolver
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openCloseDialog(report, 'dismissed')}>
+                          Desestimar
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="rounded-md bg-gray-50 dark:bg-gray-800 p-3 text-sm">
+                    {report.target ? (
+                      <>
+                        <p className="text-xs text-gray-500 mb-1">
+                          {report.target.authorName || 'Usuario'}
+                          {report.target.authorStatus && report.target.authorStatus !== 'active' && (
+                            ` · Cuenta ${ACCOUNT_STATUS_LABELS[report.target.authorStatus].toLowerCase()}`
+                          )}
+                          {report.target.removed && ' · Ya retirado'}
+                        </p>
+                        <p className="whitespace-pre-line line-clamp-4">
+                          {report.target.preview || <span className="italic text-gray-500">Sin contenido</span>}
+                        </p>
+                        {link && (
+                          <Link to={link} className="inline-block mt-2 text-xs text-wfc-purple hover:underline">
+                            Ver en la aplicación
+                          </Link>
+                        )}
+                      </>
+                    ) : (
+                      <p className="italic text-gray-500">El contenido ya no existe</p>
+                    )}
+                  </div>
+
+                  {report.status !== 'open' && (
+                    <p className="text-xs text-gray-500">
+                      {REPORT_STATUS_LABELS[report.status]} por {report.resolverName || 'un administrador'}
+                      {report.resolvedAt && ` ${formatDistanceToNow(report.resolvedAt, { addSuffix: true, locale: es })}`}
+                      {report.resolutionNote && `: ${report.resolutionNote}`}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? 'Cargando...' : 'Cargar más'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ModerationDialog
+        open={!!closing}
+        onOpenChange={(open) => !open && setClosing(null)}
+        title={closing?.status === 'resolved' ? 'Resolver denuncia' : 'Desestimar denuncia'}
+        description="Se cerrarán también las demás denuncias abiertas sobre el mismo contenido."
+        reasonLabel="Nota interna"
+        confirmLabel={closing?.status === 'resolved' ? 'Resolver' : 'Desestimar'}
+        onConfirm={handleClose}
+      >
+        {canRemoveContent && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="removeReportedContent"
+              checked={removeContent}
+              onCheckedChange={(checked) => setRemoveContent(checked === true)}
+            />
+            <Label htmlFor="removeReportedContent" className="font-normal">
+              Retirar el contenido denunciado
+            </Label>
+          </div>
+        )}
+      </ModerationDialog>
+    </div>
+  );
+};
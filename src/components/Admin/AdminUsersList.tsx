@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Loader2, MoreHorizontal, Search } from 'lucide-react';
+import { useDebounce } from '@/hooks/use-debounce';
+import {
+  ACCOUNT_STATUS_LABELS,
+  AccountStatus,
+  AdminUserType,
+  getAdminUsers,
+  updateUserStatus
+} from '@/lib/adminService';
+import { ModerationDialog } from './ModerationDialog';
+import { toast } from '@/components/ui/use-toast';
+
+const ROLE_LABELS: Record<AdminUserType['role'], string> = {
+  freelancer: 'Freelancer',
+  client: 'Cliente',
+  admin: 'Administrador'
+};
+
+// Duraciones de suspensión que se ofrecen (indefinida: hasta que se readmita a mano)
+const SUSPENSION_OPTIONS = [
+  { value: '1', label: '1 día' },
+  { value: '7', label: '7 días' },
+  { value: '30', label: '30 días' },
+  { value: 'indefinite', label: 'Indefinida' }
+];
+
+const ALL = 'all';
+
+/**
+ * Listado de usuarios con búsqueda y filtros para suspender, expulsar o readmitir cuentas
+ */
+export const AdminUsersList = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<AdminUserType['role'] | typeof ALL>(ALL);
+  const [status, setStatus] = useState<AccountStatus | typeof ALL>(ALL);
+  const [pending, setPending] = useState<{ user: AdminUserType; status: Exclude<AccountStatus, 'active'> } | null>(null);
+  const [suspensionDays, setSuspensionDays] = useState('7');
+  const [reinstatingId, setReinstatingId] = useState<string | null>(null);
+  const debouncedSearch = useDebounce(search.trim());
+
+  const filters = {
+    search: debouncedSearch || undefined,
+    role: role === ALL ? undefined : role,
+    status: status === ALL ? undefined : status
+  };
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['admin', 'users', filters],
+    queryFn: ({ pageParam }) => getAdminUsers(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : undefined)
+  });
+
+  const users = data?.pages.flatMap(page => page.items) ?? [];
+
+  const openStatusDialog = (user: AdminUserType, nextStatus: Exclude<AccountStatus, 'active'>) => {
+    setSuspensionDays('7');
+    setPending({ user, status: nextStatus });
+  };
+
+  const handleRestrict = async (reason: string) => {
+    if (!pending) return;
+    const days = pending.status === 'suspended' && suspensionDays !== 'indefinite'
+      ? parseInt(suspensionDays, 10)
+      : undefined;
+    await updateUserStatus(pending.user.id, pending.status, reason, days);
+    queryClient.invalidateQueries({ queryKey: ['admin'] });
+    toast({
+      title: pending.status === 'suspended' ? "Cuenta suspendida" : "Cuenta expulsada",
+      description: `${pending.user.name} ya no puede acceder a la aplicación`
+    });
+  };
+
+  const handleReinstate = async (user: AdminUserType) => {
+    setReinstatingId(user.id);
+    try {
+      await updateUserStatus(user.id, 'active');
+      queryClient.invalidateQueries({ queryKey: ['admin'] });
+      toast({ title: "Cuenta readmitida", description: `${user.name} puede volver a acceder` });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo readmitir la cuenta"
+      });
+    } finally {
+      setReinstatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            className="pl-9"
+            placeholder="Buscar por nombre o correo"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Select value={role} onValueChange={(value) => setRole(value as AdminUserType['role'])}>
+          <SelectTrigger className="w-full md:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos los roles</SelectItem>
+            {(Object.keys(ROLE_LABELS) as AdminUserType['role'][]).map(option => (
+              <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={(value) => setStatus(value as AccountStatus)}>
+          <SelectTrigger className="w-full md:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todas las cuentas</SelectItem>
+            {(Object.keys(ACCOUNT_STATUS_LABELS) as AccountStatus[]).map(option => (
+              <SelectItem key={option} value={option}>{ACCOUNT_STATUS_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No hay usuarios con estos filtros</p>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <ul className="divide-y">
+              {users.map(user => (
+                <li key={user.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+                  <div className="flex items-center min-w-0">
+                    <Avatar className="h-9 w-9">
+                      <AvatarImage src={user.photoURL} />
+                      <AvatarFallback className="bg-wfc-purple-medium text-white">
+                        {user.name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="ml-3 min-w-0">
+                      <Link to={`/user/${user.id}`} className="font-medium text-sm hover:underline">{user.name}</Link>
+                      <p className="text-xs text-gray-500 truncate">
+                        {user.email}
+                        {!user.emailVerified && ' · Correo sin confirmar'}
+                        {' · '}Alta {formatDistanceToNow(user.createdAt, { addSuffix: true, locale: es })}
+                      </p>
+                      {user.accountStatus !== 'active' && (
+                        <p className="text-xs text-red-600 truncate">
+                          {user.accountStatus === 'suspended' && (user.suspendedUntil
+                            ? `Hasta el ${format(user.suspendedUntil, 'd MMM yyyy', { locale: es })}`
+                            : 'Suspensión indefinida')}
+                          {user.moderationReason && `${user.accountStatus === 'suspended' ? ' · ' : ''}${user.moderationReason}`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge variant="outline">{ROLE_LABELS[user.role]}</Badge>
+                    <Badge variant={user.accountStatus === 'active' ? 'secondary' : 'destructive'}>
+                      {ACCOUNT_STATUS_LABELS[user.accountStatus]}
+                    </Badge>
+                    {user.role !== 'admin' && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Acciones" disabled={reinstatingId === user.id}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {user.accountStatus !== 'active' && (
+                            <DropdownMenuItem onClick={() => handleReinstate(user)}>Readmitir</DropdownMenuItem>
+                          )}
+                          {user.accountStatus !== 'suspended' && (
+                            <DropdownMenuItem onClick={() => openStatusDialog(user, 'suspended')}>Suspender</DropdownMenuItem>
+                          )}
+                          {user.accountStatus !== 'banned' && (
+                            <DropdownMenuItem className="text-red-600" onClick={() => openStatusDialog(user, 'banned')}>
+                              Expulsar
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? 'Cargando...' : 'Cargar más'}
+          </Button>
+        </div>
+      )}
+
+      <ModerationDialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+        title={pending?.status === 'suspended' ? 'Suspender cuenta' : 'Expulsar cuenta'}
+        description={`${pending?.user.name} no podrá iniciar sesión y se cerrarán sus sesiones abiertas.`}
+        reasonLabel="Motivo (lo verá el usuario)"
+        reasonRequired
+        confirmLabel={pending?.status === 'suspended' ? 'Suspender' : 'Expulsar'}
+        destructive
+        onConfirm={handleRestrict}
+      >
+        {pending?.status === 'suspended' && (
+          <div className="space-y-2">
+            <Label>Duración</Label>
+            <Select value={suspensionDays} onValueChange={setSuspensionDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUSPENSION_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </ModerationDialog>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+
+interface ModerationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  reasonLabel: string;
+  reasonRequired?: boolean;  // Sin motivo no se puede confirmar
+  confirmLabel: string;
+  destructive?: boolean;
+  children?: ReactNode;      // Campos adicionales (duración de la suspensión, retirar el contenido...)
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+/**
+ * Diálogo de confirmación de una acción de moderación con su motivo o nota
+ * Queda registrado en la auditoría; el motivo de una suspensión lo ve el usuario
+ */
+export const ModerationDialog = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  reasonLabel,
+  reasonRequired = false,
+  confirmLabel,
+  destructive = false,
+  children,
+  onConfirm
+}: ModerationDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Cada apertura empieza con el motivo vacío
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reasonRequired && !reason.trim()) return;
+    setSaving(true);
+    try {
+      await onConfirm(reason.trim());
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo completar la acción"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="moderationReason">
+                {reasonLabel}{!reasonRequired && <span className="text-gray-500 font-normal"> (opcional)</span>}
+              </Label>
+              <Textarea
+                id="moderationReason"
+                autoFocus
+                rows={3}
+                maxLength={500}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            {children}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancelar</Button>
+            <Button
+              type="submit"
+              className={destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-wfc-purple hover:bg-wfc-purple-medium'}
+              disabled={saving || (reasonRequired && !reason.trim())}
+            >
+              {saving ? 'Guardando...' : confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
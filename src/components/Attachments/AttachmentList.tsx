@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, FileText, Loader2, Trash2 } from 'lucide-react';
+import {
+  AttachmentType,
+  downloadAttachment,
+  formatFileSize,
+  getAttachmentThumbnail
+} from '@/lib/attachmentService';
+import { toast } from '@/components/ui/use-toast';
+
+type AttachmentListProps = {
+  attachments: AttachmentType[];
+  canDelete?: (attachment: AttachmentType) => boolean;
+  onDelete?: (attachment: AttachmentType) => Promise<void>;
+  compact?: boolean;
+};
+
+/**
+ * Miniatura de una imagen adjunta
+ * Se descarga con el token de sesión porque los archivos no son públicos
+ */
+const AttachmentThumbnail: React.FC<{ attachment: AttachmentType; className: string }> = ({ attachment, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment.hasThumbnail) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getAttachmentThumbnail(attachment.id)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(error => console.error("Error al cargar miniatura:", error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id, attachment.hasThumbnail]);
+
+  if (!url) {
+    return (
+      <div className={`${className} flex items-center justify-center rounded bg-gray-100 dark:bg-gray-800`}>
+        <FileText className="h-5 w-5 text-gray-400" />
+      </div>
+    );
+  }
+
+  return <img src={url} alt={attachment.name} className={`${className} rounded object-cover`} />;
+};
+
+/**
+ * Lista de archivos adjuntos con miniatura, descarga y borrado opcional
+ */
+export const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  canDelete,
+  onDelete,
+  compact = false
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleDownload = async (attachment: AttachmentType) => {
+    setBusyId(attachment.id);
+    try {
+      await downloadAttachment(attachment);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo descargar el archivo"
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (attachment: AttachmentType) => {
+    if (!onDelete) return;
+
+    setBusyId(attachment.id);
+    try {
+      await onDelete(attachment);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo eliminar el archivo"
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {attachments.map(attachment => (
+        <li key={attachment.id} className="flex items-center gap-3">
+          <AttachmentThumbnail attachment={attachment} className={compact ? 'h-8 w-8' : 'h-12 w-12'} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm truncate">{attachment.name}</p>
+            <p className="text-xs text-gray-500">{formatFileSize(attachment.size)}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={busyId === attachment.id}
+            onClick={() => handleDownload(attachment)}
+            title="Descargar"
+          >
+            {busyId === attachment.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          </Button>
+          {onDelete && canDelete?.(attachment) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={busyId === attachment.id}
+              onClick={() => handleDelete(attachment)}
+              title="Eliminar"
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
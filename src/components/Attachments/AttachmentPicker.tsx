@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Paperclip, X } from 'lucide-react';
+import {
+  ALLOWED_ATTACHMENT_EXTENSIONS,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  formatFileSize,
+  validateAttachment
+} from '@/lib/attachmentService';
+import { toast } from '@/components/ui/use-toast';
+
+type AttachmentPickerProps = {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+  label?: string;
+};
+
+/**
+ * Selector de archivos para adjuntar antes de enviar un formulario
+ * Valida tipo, tamaño y número de archivos antes de añadirlos
+ */
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({
+  files,
+  onChange,
+  disabled = false,
+  label = 'Adjuntar archivos'
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = ''; // Permitir volver a elegir el mismo archivo
+
+    const errors = selected.map(validateAttachment).filter(Boolean);
+    if (errors.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Archivo no válido",
+        description: errors.join('. ')
+      });
+    }
+
+    const valid = selected.filter(file =>
+      !validateAttachment(file) && !files.some(f => f.name === file.name && f.size === file.size)
+    );
+    const next = [...files, ...valid];
+
+    if (next.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      toast({
+        variant: "destructive",
+        title: "Demasiados archivos",
+        description: `Puedes adjuntar como máximo ${MAX_ATTACHMENTS_PER_UPLOAD} archivos a la vez`
+      });
+    }
+
+    onChange(next.slice(0, MAX_ATTACHMENTS_PER_UPLOAD));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_EXTENSIONS.join(',')}
+        className="hidden"
+        onChange={handleSelect}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_UPLOAD}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        {label}
+      </Button>
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <Badge key={`${file.name}-${file.size}`} variant="outline" className="max-w-full">
+              <span className="truncate">{file.name}</span>
+              <span className="ml-1 text-gray-500">({formatFileSize(file.size)})</span>
+              <button
+                type="button"
+                className="ml-1"
+                disabled={disabled}
+                onClick={() => handleRemove(index)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Hasta {MAX_ATTACHMENTS_PER_UPLOAD} archivos de 10MB: PDF, imágenes, documentos de Office, texto o ZIP.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { JobType } from '@/contexts/JobContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import { AttachmentType, deleteAttachment, getJobAttachments, uploadAttachments } from '@/lib/attachmentService';
+import { AttachmentList } from './AttachmentList';
+import { AttachmentPicker } from './AttachmentPicker';
+import { toast } from '@/components/ui/use-toast';
+
+type JobAttachmentsProps = {
+  job: JobType;
+};
+
+/**
+ * Tarjeta de archivos adjuntos en el detalle de una propuesta
+ * Quien gestiona los trabajos de la organización puede añadir y eliminar archivos; el resto solo descargarlos
+ */
+export const JobAttachments: React.FC<JobAttachmentsProps> = ({ job }) => {
+  const { currentUser } = useAuth();
+  const { canOnJob } = useOrganizations();
+  const queryClient = useQueryClient();
+  const [files, setFiles] = useState<File[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const isOwner = canOnJob(job, 'jobs:manage');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['attachments', 'job', job.id],
+    queryFn: () => getJobAttachments(job.id),
+    enabled: !!currentUser
+  });
+  const attachments = data?.attachments || [];
+
+  const handleUpload = async () => {
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      await uploadAttachments('job', job.id, files);
+      await queryClient.invalidateQueries({ queryKey: ['attachments', 'job', job.id] });
+      setFiles([]);
+      toast({
+        title: "Archivos subidos",
+        description: "Los archivos se han adjuntado a la propuesta"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudieron subir los archivos"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: AttachmentType) => {
+    await deleteAttachment(attachment.id);
+    await queryClient.invalidateQueries({ queryKey: ['attachments', 'job', job.id] });
+  };
+
+  if (!currentUser || (!isOwner && attachments.length === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Archivos adjuntos</CardTitle>
+        <CardDescription>
+          {attachments.length === 0 ? 'No hay archivos adjuntos' : `${attachments.length} archivos`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />
+          </div>
+        ) : (
+          <AttachmentList
+            attachments={attachments}
+            canDelete={attachment => attachment.userId === currentUser.id}
+            onDelete={handleDelete}
+          />
+        )}
+
+        {isOwner && (
+          <div className="space-y-2">
+            <AttachmentPicker files={files} onChange={setFiles} disabled={isUploading} />
+            {files.length > 0 && (
+              <Button
+                size="sm"
+                onClick={handleUpload}
+                disabled={isUploading}
+                className="bg-wfc-purple hover:bg-wfc-purple-medium"
+              >
+                {isUploading ? 'Subiendo...' : 'Subir archivos'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,42 +3,57 @@ import React, { useState } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { MessageSquare, UserIcon } from 'lucide-react';
-import { CommentType, useJobs } from '@/contexts/JobContext';
+import { Flag, MessageSquare, UserIcon } from 'lucide-react';
+import { CommentType, ReplyType, useJobs } from '@/contexts/JobContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/components/ui/use-toast';
+import { AttachmentType } from '@/lib/attachmentService';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { ReportDialog } from '@/components/Reports/ReportDialog';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
 
 type CommentItemProps = {
   comment: CommentType;
   jobId: string;
+  attachments?: AttachmentType[]; // Archivos adjuntos del comentario
 };
 
-export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId }) => {
+export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId, attachments = [] }) => {
   const [showReplyForm, setShowReplyForm] = useState(false);
   const [replyContent, setReplyContent] = useState('');
   const [isSubmittingReply, setIsSubmittingReply] = useState(false);
+  const [reporting, setReporting] = useState<
+    { type: 'comment'; item: CommentType } | { type: 'reply'; item: ReplyType } | null
+  >(null);
   
   const { currentUser } = useAuth();
   const { addReplyToComment } = useJobs();
+  const { isBlocked } = useBlockedUsers();
+
+  // Las respuestas de los usuarios bloqueados no se muestran
+  const visibleReplies = comment.replies.filter(reply => !isBlocked(reply.userId));
 
   const handleSubmitReply = async () => {
     if (!replyContent.trim() || !currentUser) return;
     
+    const content = replyContent;
     setIsSubmittingReply(true);
+    // La respuesta aparece al momento; el formulario se cierra sin esperar al servidor
+    setReplyContent('');
+    setShowReplyForm(false);
     try {
-      await addReplyToComment(jobId, comment.id, replyContent, currentUser);
-      setReplyContent('');
-      setShowReplyForm(false);
-      toast({
+      const reply = await addReplyToComment(jobId, comment.id, content, currentUser);
+      toast(reply?.pending ? {
+        title: "Respuesta pendiente",
+        description: "Se publicará cuando vuelvas a tener conexión"
+      } : {
         title: "Respuesta enviada",
         description: "Tu respuesta ha sido publicada correctamente"
       });
     } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "No se pudo enviar la respuesta"
-      });
+      // El contexto ya ha retirado la respuesta y avisado del error; se recupera el texto
+      setReplyContent(content);
+      setShowReplyForm(true);
     } finally {
       setIsSubmittingReply(false);
     }
@@ -75,19 +90,37 @@ export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId }) => {
           <div className="flex justify-between">
             <h4 className="font-medium text-sm">{comment.userName}</h4>
             <span className="text-xs text-gray-500">
-              {formatDate(comment.timestamp)} {formatTime(comment.timestamp)}
+              {comment.pending ? 'Pendiente de enviar' : `${formatDate(comment.timestamp)} ${formatTime(comment.timestamp)}`}
             </span>
           </div>
           <p className="text-gray-700 text-sm mt-1">{comment.content}</p>
           
-          {currentUser && (
-            <button
-              onClick={() => setShowReplyForm(!showReplyForm)}
-              className="text-xs text-wfc-purple mt-1 flex items-center"
-            >
-              <MessageSquare className="h-3 w-3 mr-1" />
-              {showReplyForm ? 'Cancelar' : 'Responder'}
-            </button>
+          {attachments.length > 0 && (
+            <div className="mt-2">
+              <AttachmentList attachments={attachments} compact />
+            </div>
+          )}
+          
+          {/* Un comentario pendiente no existe aún en el servidor y no se puede responder */}
+          {currentUser && !comment.pending && (
+            <div className="flex items-center gap-3 mt-1">
+              <button
+                onClick={() => setShowReplyForm(!showReplyForm)}
+                className="text-xs text-wfc-purple flex items-center"
+              >
+                <MessageSquare className="h-3 w-3 mr-1" />
+                {showReplyForm ? 'Cancelar' : 'Responder'}
+              </button>
+              {comment.userId !== currentUser.id && (
+                <button
+                  onClick={() => setReporting({ type: 'comment', item: comment })}
+                  className="text-xs text-gray-500 hover:text-red-600 flex items-center"
+                >
+                  <Flag className="h-3 w-3 mr-1" />
+                  Denunciar
+                </button>
+              )}
+            </div>
           )}
         </div>
       </div>
@@ -123,9 +156,9 @@ export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId }) => {
       )}
 
       {/* Respuestas */}
-      {comment.replies.length > 0 && (
+      {visibleReplies.length > 0 && (
         <div className="ml-11 space-y-3 border-l-2 border-gray-100 pl-3">
-          {comment.replies.map((reply) => (
+          {visibleReplies.map((reply) => (
             <div key={reply.id} className="flex space-x-3">
               <Avatar className="h-6 w-6">
                 <AvatarImage src={reply.userPhoto} alt={reply.userName} />
@@ -137,15 +170,34 @@ export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId }) => {
                 <div className="flex justify-between">
                   <h4 className="font-medium text-xs">{reply.userName}</h4>
                   <span className="text-xs text-gray-500">
-                    {formatDate(reply.timestamp)} {formatTime(reply.timestamp)}
+                    {reply.pending ? 'Pendiente de enviar' : `${formatDate(reply.timestamp)} ${formatTime(reply.timestamp)}`}
                   </span>
                 </div>
                 <p className="text-gray-700 text-xs mt-1">{reply.content}</p>
+                {currentUser && reply.userId !== currentUser.id && (
+                  <button
+                    onClick={() => setReporting({ type: 'reply', item: reply })}
+                    className="text-xs text-gray-500 hover:text-red-600 flex items-center mt-1"
+                  >
+                    <Flag className="h-3 w-3 mr-1" />
+                    Denunciar
+                  </button>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {reporting && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setReporting(null)}
+          targetType={reporting.type}
+          targetId={reporting.item.id}
+          author={{ id: reporting.item.userId, name: reporting.item.userName }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MilestoneInput } from '@/lib/contractService';
+import { toast } from '@/components/ui/use-toast';
+
+type MilestoneFormProps = {
+  remainingAmount: number;
+  onSubmit: (data: MilestoneInput) => Promise<boolean>;
+  isSubmitting: boolean;
+};
+
+/**
+ * Formulario para que el cliente añada un hito al contrato
+ */
+export const MilestoneForm: React.FC<MilestoneFormProps> = ({ remainingAmount, onSubmit, isSubmitting }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState(String(remainingAmount));
+  const [dueDate, setDueDate] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount);
+
+    if (!title.trim() || !parsedAmount || parsedAmount <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Indica un título y un importe mayor que cero"
+      });
+      return;
+    }
+
+    if (parsedAmount > remainingAmount) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `El importe no puede superar lo que queda por asignar ($${remainingAmount})`
+      });
+      return;
+    }
+
+    const created = await onSubmit({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      amount: parsedAmount,
+      dueDate: dueDate || undefined
+    });
+
+    // Limpiar el formulario si el hito se creó correctamente
+    if (created) {
+      setTitle('');
+      setDescription('');
+      setAmount(String(Math.max(remainingAmount - parsedAmount, 0)));
+      setDueDate('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="milestone-title">Título del hito</Label>
+        <Input
+          id="milestone-title"
+          placeholder="Ej: Diseño de la página principal"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="milestone-description">Descripción (opcional)</Label>
+        <Textarea
+          id="milestone-description"
+          placeholder="¿Qué se entregará en este hito?"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="milestone-amount">Importe ($)</Label>
+          <Input
+            id="milestone-amount"
+            type="number"
+            min="1"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="milestone-due-date">Fecha de entrega</Label>
+          <Input
+            id="milestone-due-date"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+      >
+        {isSubmitting ? 'Guardando...' : 'Añadir hito'}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar, Check, DollarSign, Send, AlertTriangle, Trash2, Undo2 } from 'lucide-react';
+import { MilestoneAction, MilestoneStatus, MilestoneType } from '@/lib/contractService';
+import { AttachmentType, deleteAttachment, uploadAttachments } from '@/lib/attachmentService';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { AttachmentPicker } from '@/components/Attachments/AttachmentPicker';
+import { toast } from '@/components/ui/use-toast';
+
+const STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: 'Sin financiar',
+  funded: 'En garantía',
+  submitted: 'Entregado',
+  approved: 'Aprobado',
+  released: 'Pagado',
+  disputed: 'En disputa',
+  refunded: 'Devuelto'
+};
+
+const STATUS_CLASSES: Record<MilestoneStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800 hover:bg-gray-200',
+  funded: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
+  submitted: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200',
+  approved: 'bg-purple-100 text-purple-800 hover:bg-purple-200',
+  released: 'bg-green-100 text-green-800 hover:bg-green-200',
+  disputed: 'bg-red-100 text-red-800 hover:bg-red-200',
+  refunded: 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+};
+
+// Acciones que requieren una nota antes de confirmarse
+const NOTE_ACTIONS: Partial<Record<MilestoneAction, string>> = {
+  submit: 'Describe lo que entregas (enlaces, cambios realizados...)',
+  dispute: 'Explica el motivo de la disputa',
+  refund: 'Explica por qué devuelves el importe al cliente'
+};
+
+// Estados en los que el freelancer puede devolver al cliente el importe en garantía
+const REFUNDABLE_STATUSES: MilestoneStatus[] = ['funded', 'submitted', 'approved', 'disputed'];
+
+// Estados en los que el freelancer puede añadir o quitar entregables
+const DELIVERABLE_STATUSES: MilestoneStatus[] = ['funded', 'submitted', 'disputed'];
+
+/**
+ * Etiqueta con el estado de un hito
+ */
+export const MilestoneStatusBadge = ({ status }: { status: MilestoneStatus }) => (
+  <Badge className={STATUS_CLASSES[status]}>{STATUS_LABELS[status]}</Badge>
+);
+
+type MilestoneItemProps = {
+  milestone: MilestoneType;
+  role: 'client' | 'freelancer';
+  canManage: boolean;
+  isUpdating: boolean;
+  onAction: (milestoneId: string, action: MilestoneAction, note?: string) => void;
+  onDelete: (milestoneId: string) => void;
+  onFilesChange: (milestoneId: string, files: AttachmentType[]) => void;
+};
+
+/**
+ * Hito de un contrato con las acciones disponibles según el rol del usuario
+ */
+export const MilestoneItem: React.FC<MilestoneItemProps> = ({
+  milestone,
+  role,
+  canManage,
+  isUpdating,
+  onAction,
+  onDelete,
+  onFilesChange
+}) => {
+  const [noteAction, setNoteAction] = useState<MilestoneAction | null>(null);
+  const [note, setNote] = useState('');
+  const [newFiles, setNewFiles] = useState<File[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const isClient = role === 'client';
+  const { status } = milestone;
+  const canEditDeliverables = canManage && !isClient && DELIVERABLE_STATUSES.includes(status);
+
+  const handleUploadDeliverables = async () => {
+    setIsUploading(true);
+    try {
+      const uploaded = await uploadAttachments('milestone', milestone.id, newFiles);
+      onFilesChange(milestone.id, [...milestone.files, ...uploaded]);
+      setNewFiles([]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudieron subir los entregables"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDeleteDeliverable = async (attachment: AttachmentType) => {
+    await deleteAttachment(attachment.id);
+    onFilesChange(milestone.id, milestone.files.filter(file => file.id !== attachment.id));
+  };
+
+  const handleConfirmNote = () => {
+    if (!noteAction) return;
+    onAction(milestone.id, noteAction, note.trim() || undefined);
+    setNoteAction(null);
+    setNote('');
+  };
+
+  const formatDueDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('es-ES', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    });
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <p className="font-medium dark:text-white">{milestone.title}</p>
+          <p className="text-xs text-gray-500 flex items-center gap-3 mt-1">
+            <span className="flex items-center">
+              <DollarSign className="h-3 w-3" />{milestone.amount}
+            </span>
+            {milestone.dueDate && (
+              <span className="flex items-center">
+                <Calendar className="h-3 w-3 mr-1" />{formatDueDate(milestone.dueDate)}
+              </span>
+            )}
+          </p>
+        </div>
+        <MilestoneStatusBadge status={status} />
+      </div>
+
+      {milestone.description && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{milestone.description}</p>
+      )}
+
+      {milestone.submissionNote && (
+        <div className="text-sm bg-gray-50 dark:bg-gray-800 rounded p-2">
+          <span className="font-medium">Entrega: </span>
+          <span className="whitespace-pre-line">{milestone.submissionNote}</span>
+        </div>
+      )}
+
+      {(milestone.files.length > 0 || canEditDeliverables) && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Entregables</p>
+          <AttachmentList
+            attachments={milestone.files}
+            canDelete={() => canEditDeliverables}
+            onDelete={handleDeleteDeliverable}
+            compact
+          />
+          {canEditDeliverables && (
+            <div className="flex flex-wrap items-start gap-2">
+              <AttachmentPicker
+                files={newFiles}
+                onChange={setNewFiles}
+                disabled={isUploading}
+                label="Añadir entregables"
+              />
+              {newFiles.length > 0 && (
+                <Button
+                  size="sm"
+                  className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                  disabled={isUploading}
+                  onClick={handleUploadDeliverables}
+                >
+                  {isUploading ? 'Subiendo...' : 'Subir'}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {status === 'disputed' && milestone.disputeReason && (
+        <div className="text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded p-2">
+          <span className="font-medium">Disputa: </span>
+          <span className="whitespace-pre-line">{milestone.disputeReason}</span>
+        </div>
+      )}
+
+      {milestone.resolutionNote && (
+        <div className="text-sm bg-gray-50 dark:bg-gray-800 rounded p-2">
+          <span className="font-medium">{status === 'refunded' ? 'Devolución: ' : 'Resolución: '}</span>
+          <span className="whitespace-pre-line">{milestone.resolutionNote}</span>
+        </div>
+      )}
+
+      {canManage && noteAction && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder={NOTE_ACTIONS[noteAction]}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+              disabled={isUpdating}
+              onClick={handleConfirmNote}
+            >
+              Confirmar
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setNoteAction(null)}>
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {canManage && !noteAction && (
+        <div className="flex flex-wrap gap-2">
+          {isClient && status === 'pending' && (
+            <>
+              <Button
+                size="sm"
+                className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                disabled={isUpdating}
+                onClick={() => onAction(milestone.id, 'fund')}
+              >
+                <DollarSign className="h-4 w-4 mr-1" /> Financiar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isUpdating}
+                onClick={() => onDelete(milestone.id)}
+              >
+                <Trash2 className="h-4 w-4 mr-1" /> Eliminar
+              </Button>
+            </>
+          )}
+
+          {!isClient && (status === 'funded' || status === 'disputed') && (
+            <Button
+              size="sm"
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+              disabled={isUpdating}
+              onClick={() => setNoteAction('submit')}
+            >
+              <Send className="h-4 w-4 mr-1" /> Entregar trabajo
+            </Button>
+          )}
+
+          {isClient && (status === 'submitted' || status === 'disputed') && (
+            <Button
+              size="sm"
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+              disabled={isUpdating}
+              onClick={() => onAction(milestone.id, 'approve')}
+            >
+              <Check className="h-4 w-4 mr-1" /> Aprobar
+            </Button>
+          )}
+
+          {isClient && status === 'approved' && (
+            <Button
+              size="sm"
+              className="bg-green-600 hover:bg-green-700"
+              disabled={isUpdating}
+              onClick={() => onAction(milestone.id, 'release')}
+            >
+              <DollarSign className="h-4 w-4 mr-1" /> Liberar pago
+            </Button>
+          )}
+
+          {(status === 'funded' || status === 'submitted' || status === 'approved') && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600 border-red-600 hover:bg-red-600 hover:text-white"
+              disabled={isUpdating}
+              onClick={() => setNoteAction('dispute')}
+            >
+              <AlertTriangle className="h-4 w-4 mr-1" /> Disputar
+            </Button>
+          )}
+
+          {!isClient && REFUNDABLE_STATUSES.includes(status) && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isUpdating}
+              onClick={() => setNoteAction('refund')}
+            >
+              <Undo2 className="h-4 w-4 mr-1" /> Devolver al cliente
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -25,8 +25,7 @@ const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps
     description: job.description,
     budget: job.budget,
     category: job.category,
-    skills: [...job.skills],
-    status: job.status
+    skills: [...job.skills]
   });
 
   const [selectedSkill, setSelectedSkill] = useState('');
@@ -109,31 +108,6 @@ const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps
         </Select>
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="status" className="dark:text-gray-200">Estado</Label>
-        <Select 
-          value={formData.status} 
-          onValueChange={(value: 'open' | 'in-progress' | 'completed') => 
-            setFormData({ ...formData, status: value })
-          }
-        >
-          <SelectTrigger className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
-            <SelectValue placeholder="Selecciona un estado" />
-          </SelectTrigger>
-          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
-            <SelectItem value="open" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">
-              Abierto
-            </SelectItem>
-            <SelectItem value="in-progress" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">
-              En progreso
-            </SelectItem>
-            <SelectItem value="completed" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">
-              Completado
-            </SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
-
       <div className="space-y-2">
         <Label className="dark:text-gray-200">Habilidades requeridas</Label>
         <div className="flex flex-wrap gap-2 mb-2">
@@ -4,6 +4,7 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
+import { RatingBadge } from '@/components/Reviews/StarRating';
 
 type JobProps = {
   id: string;
@@ -14,12 +15,17 @@ type JobProps = {
   skills: string[];
   userId: string;
   userName: string;
+  userRating?: number;
+  userRatingCount?: number;
   timestamp: number;
-  status: 'open' | 'in-progress' | 'completed';
+  status: 'open' | 'in-progress' | 'completed' | 'assigned' | 'cancelled';
   comments: any[];
+  commentsCount?: number;
 };
 
 export const JobCard = ({ job }: { job: JobProps }) => {
+  const commentsCount = job.commentsCount ?? job.comments.length;
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('es-ES', {
@@ -38,15 +44,18 @@ export const JobCard = ({ job }: { job: JobProps }) => {
             <p className="text-sm text-muted-foreground">
               Publicado por {job.userName} • {formatDate(job.timestamp)}
             </p>
+            <RatingBadge average={job.userRating} count={job.userRatingCount} />
           </div>
           <div className={`
             text-xs px-2 py-1 rounded-full
             ${job.status === 'open' ? 'bg-green-100 text-green-800' : 
-              job.status === 'in-progress' ? 'bg-blue-100 text-blue-800' : 
+              job.status === 'in-progress' || job.status === 'assigned' ? 'bg-blue-100 text-blue-800' : 
               'bg-gray-100 text-gray-800'}
           `}>
             {job.status === 'open' ? 'Abierto' : 
+            job.status === 'assigned' ? 'Asignado' : 
             job.status === 'in-progress' ? 'En progreso' : 
+            job.status === 'cancelled' ? 'Cancelado' : 
             'Completado'}
           </div>
         </div>
@@ -75,7 +84,7 @@ export const JobCard = ({ job }: { job: JobProps }) => {
                 Presupuesto: ${job.budget}
               </div>
               <div className="text-xs text-muted-foreground mt-1">
-                {job.comments.length} {job.comments.length === 1 ? 'comentario' : 'comentarios'}
+                {commentsCount} {commentsCount === 1 ? 'comentario' : 'comentarios'}
               </div>
             </div>
             <Link to={`/jobs/${job.id}`}>
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { JobType, useJobs } from '@/contexts/JobContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { JOB_STATUS_LABELS, JobStatusTransitionType, getJobStatusHistory } from '@/lib/jobService';
+import { jobKeys } from '@/lib/queryKeys';
+import { toast } from '@/components/ui/use-toast';
+
+type JobStatusTimelineProps = {
+  job: JobType;
+};
+
+// Texto del botón y del diálogo de confirmación de cada cambio de estado
+const getTransitionTexts = (job: JobType, transition: JobStatusTransitionType, isFreelancer: boolean) => {
+  switch (transition.status) {
+    case 'in-progress':
+      return { action: 'Empezar el trabajo', description: 'El trabajo pasará a estar en curso.' };
+    case 'completed':
+      return { action: 'Marcar como completado', description: 'Se cerrará el contrato y podréis valoraros.' };
+    case 'cancelled':
+      return { action: 'Cancelar trabajo', description: 'El trabajo dejará de aceptar ofertas y se cerrará su contrato.' };
+    default:
+      if (job.status === 'cancelled') {
+        return { action: 'Reabrir trabajo', description: 'El trabajo volverá a aceptar ofertas.' };
+      }
+      return isFreelancer
+        ? { action: 'Renunciar al trabajo', description: 'Dejarás de estar asignado y el trabajo volverá a aceptar ofertas.' }
+        : { action: 'Quitar asignación', description: 'El freelancer dejará de estar asignado y el trabajo volverá a aceptar ofertas.' };
+  }
+};
+
+/**
+ * Estado de un trabajo con su historial de cambios
+ * Muestra los cambios de estado que puede hacer el usuario; cancelar o devolver
+ * el trabajo a abierto exige indicar el motivo
+ */
+export const JobStatusTimeline = ({ job }: JobStatusTimelineProps) => {
+  const { currentUser } = useAuth();
+  const { changeJobStatus } = useJobs();
+  const [pending, setPending] = useState<JobStatusTransitionType | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: jobKeys.statusHistory(job.id, currentUser?.id, job.status),
+    queryFn: () => getJobStatusHistory(job.id)
+  });
+
+  const history = data?.history ?? [];
+  const transitions = data?.availableTransitions ?? [];
+  const isFreelancer = !!currentUser && currentUser.id === job.assignedTo;
+  const pendingTexts = pending && getTransitionTexts(job, pending, isFreelancer);
+
+  const openTransition = (transition: JobStatusTransitionType) => {
+    setReason('');
+    setPending(transition);
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending || (pending.reasonRequired && !reason.trim())) return;
+    setSaving(true);
+    try {
+      await changeJobStatus(job.id, pending.status, reason.trim() || undefined);
+      setPending(null);
+      toast({
+        title: "Estado actualizado",
+        description: `El trabajo está ahora ${JOB_STATUS_LABELS[pending.status].toLowerCase()}`
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo cambiar el estado del trabajo"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Estado</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-600">{JOB_STATUS_LABELS[job.status]}</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1.5 space-y-4">
+            {history.map(change => (
+              <li key={change.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-wfc-purple dark:border-gray-900" />
+                <p className="text-sm font-medium">
+                  {change.fromStatus ? JOB_STATUS_LABELS[change.toStatus] : 'Publicado'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {change.userName && `${change.userName} · `}
+                  {formatDistanceToNow(change.timestamp, { addSuffix: true, locale: es })}
+                </p>
+                {change.reason && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 italic mt-1 break-words">"{change.reason}"</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {transitions.length > 0 && (
+          <div className="space-y-2">
+            {transitions.map(transition => (
+              <Button
+                key={transition.status}
+                variant={transition.status === 'cancelled' ? 'outline' : 'default'}
+                className={transition.status === 'cancelled'
+                  ? 'w-full text-red-600 hover:text-red-700'
+                  : 'w-full bg-wfc-purple hover:bg-wfc-purple-medium'}
+                onClick={() => openTransition(transition)}
+              >
+                {getTransitionTexts(job, transition, isFreelancer).action}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <form onSubmit={handleConfirm}>
+            <DialogHeader>
+              <DialogTitle>{pendingTexts?.action}</DialogTitle>
+              <DialogDescription>{pendingTexts?.description}</DialogDescription>
+            </DialogHeader>
+            {pending?.reasonRequired && (
+              <div className="space-y-2 py-4">
+                <Label htmlFor="jobStatusReason">Motivo</Label>
+                <Textarea
+                  id="jobStatusReason"
+                  rows={3}
+                  maxLength={1000}
+                  placeholder="Quedará en el historial del trabajo"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            )}
+            <DialogFooter className={pending?.reasonRequired ? undefined : 'pt-4'}>
+              <Button type="button" variant="ghost" onClick={() => setPending(null)}>Volver</Button>
+              <Button
+                type="submit"
+                className={pending?.status === 'cancelled' ? 'bg-red-600 hover:bg-red-700' : 'bg-wfc-purple hover:bg-wfc-purple-medium'}
+                disabled={saving || (pending?.reasonRequired && !reason.trim())}
+              >
+                {saving ? 'Guardando...' : 'Confirmar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
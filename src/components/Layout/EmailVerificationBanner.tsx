@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { MailWarning, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { resendVerificationEmail } from '@/lib/accountService';
+import { toast } from '@/components/ui/use-toast';
+
+/**
+ * Aviso para confirmar el correo mientras la cuenta no esté verificada
+ */
+export const EmailVerificationBanner = () => {
+  const { currentUser } = useAuth();
+  const [sending, setSending] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!currentUser || currentUser.emailVerifiedAt || dismissed) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const message = await resendVerificationEmail();
+      toast({ title: "Correo enviado", description: message });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo reenviar el correo"
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 border-b bg-amber-50 dark:bg-amber-950 px-4 py-2 text-sm text-amber-900 dark:text-amber-100">
+      <MailWarning className="h-4 w-4 flex-shrink-0" />
+      <p className="flex-1">
+        Confirma tu correo <span className="font-medium">{currentUser.email}</span> con el enlace que te hemos enviado.
+      </p>
+      <Button variant="link" size="sm" className="h-auto p-0 text-amber-900 dark:text-amber-100" disabled={sending} onClick={handleResend}>
+        {sending ? 'Enviando...' : 'Reenviar enlace'}
+      </Button>
+      <button type="button" aria-label="Cerrar aviso" onClick={() => setDismissed(true)}>
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
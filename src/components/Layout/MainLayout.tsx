@@ -6,9 +6,17 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useInstallPrompt } from '@/hooks/use-install-prompt';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Menu, X, LayoutDashboard, Briefcase, MessageCircle, User, LogOut, Plus, Users, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Menu, X, LayoutDashboard, Briefcase, MessageCircle, User, LogOut, Plus, Users, ChevronLeft, ChevronRight, Search, Building2, Shield, Bookmark, Download } from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { NotificationBell } from '@/components/Notifications/NotificationBell';
+import { SearchCommand } from '@/components/Search/SearchCommand';
+import { EmailVerificationBanner } from './EmailVerificationBanner';
+import { OfflineBanner } from './OfflineBanner';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { OrganizationSwitcher } from '@/components/Organizations/OrganizationSwitcher';
+import { useOrganizations } from '@/contexts/OrganizationContext';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -16,9 +24,12 @@ interface MainLayoutProps {
 
 const MainLayout = ({ children }: MainLayoutProps) => {
   const { currentUser, logout } = useAuth();
+  const { organizations, can } = useOrganizations();
   const isMobile = useIsMobile();
+  const { canInstall, install } = useInstallPrompt();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
   
@@ -28,6 +39,19 @@ const MainLayout = ({ children }: MainLayoutProps) => {
     }
   }, [location.pathname, isMobile]);
 
+  // Abrir la búsqueda global con Ctrl/⌘ + K
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -44,8 +68,15 @@ const MainLayout = ({ children }: MainLayoutProps) => {
   const navLinks = [
     { path: '/dashboard', label: 'Inicio', icon: <LayoutDashboard className="h-5 w-5" /> },
     { path: '/jobs', label: 'Propuestas', icon: <Briefcase className="h-5 w-5" /> },
+    { path: '/saved', label: 'Guardados', icon: <Bookmark className="h-5 w-5" /> },
     { path: '/chats', label: 'Mensajes', icon: <MessageCircle className="h-5 w-5" /> },
     { path: '/profile', label: 'Perfil', icon: <User className="h-5 w-5" /> },
+    ...(organizations.length > 0
+      ? [{ path: '/organization', label: 'Equipo', icon: <Building2 className="h-5 w-5" /> }]
+      : []),
+    ...(currentUser?.role === 'admin'
+      ? [{ path: '/admin', label: 'Administración', icon: <Shield className="h-5 w-5" /> }]
+      : []),
   ];
   
   const isActive = (path: string) => location.pathname === path;
@@ -94,6 +125,26 @@ const MainLayout = ({ children }: MainLayoutProps) => {
           <Separator />
           
           <div className="flex-1 overflow-y-auto py-4 px-3">
+            <OrganizationSwitcher collapsed={sidebarCollapsed && !isMobile} />
+            
+            <button
+              type="button"
+              onClick={() => setSearchOpen(true)}
+              className={`
+                w-full flex items-center px-3 py-2 mb-3 rounded-md border border-border text-sm text-muted-foreground hover:bg-sidebar-accent/50 transition-colors
+                ${sidebarCollapsed && !isMobile ? 'justify-center' : ''}
+              `}
+              aria-label="Buscar"
+            >
+              <Search className="h-4 w-4 flex-shrink-0" />
+              {(!sidebarCollapsed || isMobile) && (
+                <>
+                  <span className="ml-3 flex-1 text-left">Buscar...</span>
+                  <kbd className="text-xs tracking-widest opacity-60">⌘K</kbd>
+                </>
+              )}
+            </button>
+            
             <nav className="space-y-1">
               {navLinks.map((link) => (
                 <Link
@@ -112,16 +163,19 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                 </Link>
               ))}
               
-              <Link
-                to="/create-job"
-                className={`
-                  flex items-center px-3 py-2 mt-4 rounded-md text-sm font-medium bg-sidebar-primary text-sidebar-primary-foreground hover:bg-wfc-purple-medium transition-colors
-                  ${sidebarCollapsed && !isMobile ? 'justify-center' : ''}
-                `}
-              >
-                <Plus className="h-5 w-5" />
-                {(!sidebarCollapsed || isMobile) && <span className="ml-3">Nueva propuesta</span>}
-              </Link>
+              {/* Solo se publica si el rol en la organización activa lo permite */}
+              {can('jobs:manage') && (
+                <Link
+                  to="/create-job"
+                  className={`
+                    flex items-center px-3 py-2 mt-4 rounded-md text-sm font-medium bg-sidebar-primary text-sidebar-primary-foreground hover:bg-wfc-purple-medium transition-colors
+                    ${sidebarCollapsed && !isMobile ? 'justify-center' : ''}
+                  `}
+                >
+                  <Plus className="h-5 w-5" />
+                  {(!sidebarCollapsed || isMobile) && <span className="ml-3">Nueva propuesta</span>}
+                </Link>
+              )}
             </nav>
           </div>
           
@@ -148,6 +202,12 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                         <User className="mr-2 h-4 w-4" />
                         <span>Perfil</span>
                       </DropdownMenuItem>
+                      {canInstall && (
+                        <DropdownMenuItem onClick={install}>
+                          <Download className="mr-2 h-4 w-4" />
+                          <span>Instalar aplicación</span>
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuItem onClick={handleLogout}>
                         <LogOut className="mr-2 h-4 w-4" />
                         <span>Cerrar sesión</span>
@@ -155,6 +215,8 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
+                <SyncStatusIndicator />
+                <NotificationBell />
                 <ThemeToggle />
               </>
             ) : (
@@ -181,6 +243,11 @@ const MainLayout = ({ children }: MainLayoutProps) => {
               </div>
             </Link>
             <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="icon" onClick={() => setSearchOpen(true)} aria-label="Buscar">
+                <Search className="h-5 w-5" />
+              </Button>
+              <SyncStatusIndicator />
+              <NotificationBell />
               <ThemeToggle />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -200,6 +267,12 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                     <User className="mr-2 h-4 w-4" />
                     <span>Perfil</span>
                   </DropdownMenuItem>
+                  {canInstall && (
+                    <DropdownMenuItem onClick={install}>
+                      <Download className="mr-2 h-4 w-4" />
+                      <span>Instalar aplicación</span>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Cerrar sesión</span>
@@ -217,12 +290,17 @@ const MainLayout = ({ children }: MainLayoutProps) => {
           />
         )}
         
+        <OfflineBanner />
+        <EmailVerificationBanner />
+        
         <main className={`flex-1 overflow-y-auto bg-background p-6 transition-all duration-300`}>
           <div className="container-custom">
             {children}
           </div>
         </main>
       </div>
+      
+      <SearchCommand open={searchOpen} onOpenChange={setSearchOpen} />
     </div>
   );
 };
@@ -0,0 +1,21 @@
+import { WifiOff } from 'lucide-react';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+
+/**
+ * Aviso mientras no hay conexión: se muestran los datos guardados y los cambios quedan en cola
+ */
+export const OfflineBanner = () => {
+  const { online, pending } = useSyncStatus();
+
+  if (online) return null;
+
+  return (
+    <div className="flex items-center gap-3 border-b bg-gray-100 dark:bg-gray-800 px-4 py-2 text-sm text-gray-700 dark:text-gray-200">
+      <WifiOff className="h-4 w-4 flex-shrink-0" />
+      <p className="flex-1">
+        Sin conexión: estás viendo la última copia guardada. Tus comentarios, mensajes y cambios del perfil se enviarán al recuperarla
+        {pending.length > 0 && ` (${pending.length} pendiente${pending.length === 1 ? '' : 's'})`}.
+      </p>
+    </div>
+  );
+};
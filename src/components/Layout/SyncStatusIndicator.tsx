@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle, CloudUpload, Loader2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { QueuedMutation, discardMutation, replayQueue, retryMutation } from '@/lib/offlineQueue';
+
+const PREVIEW_LENGTH = 60;
+
+const preview = (content: string) =>
+  content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}…` : content;
+
+// Texto y enlace de cada cambio de la cola
+const describeMutation = (mutation: QueuedMutation): { label: string; link: string } => {
+  switch (mutation.type) {
+    case 'comment':
+      return { label: `Comentario: "${preview(mutation.payload.content)}"`, link: `/jobs/${mutation.payload.jobId}` };
+    case 'reply':
+      return { label: `Respuesta: "${preview(mutation.payload.content)}"`, link: `/jobs/${mutation.payload.jobId}` };
+    case 'message':
+      return { label: `Mensaje: "${preview(mutation.payload.content)}"`, link: '/chats' };
+    case 'profile':
+      return { label: 'Cambios del perfil', link: '/profile' };
+  }
+};
+
+/**
+ * Estado de la sincronización: sin conexión, enviando la cola, cambios pendientes
+ * o en conflicto. Los conflictos se pueden reintentar (o sobrescribir, en el perfil) o descartar
+ * No se muestra si todo está enviado
+ */
+export const SyncStatusIndicator = () => {
+  const { online, syncing, mutations, pending, conflicts } = useSyncStatus();
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (online && !syncing && mutations.length === 0) return null;
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const [icon, label] = !online
+    ? [<WifiOff className="h-5 w-5 text-amber-600" />, 'Sin conexión']
+    : syncing
+    ? [<Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />, 'Sincronizando']
+    : conflicts.length > 0
+    ? [<AlertTriangle className="h-5 w-5 text-red-500" />, 'Cambios con conflictos']
+    : [<CloudUpload className="h-5 w-5 text-gray-500" />, 'Cambios pendientes'];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={label}>
+          {icon}
+          {mutations.length > 0 && (
+            <span className={`absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full text-white text-[10px] font-semibold flex items-center justify-center ${conflicts.length > 0 ? 'bg-red-500' : 'bg-amber-500'}`}>
+              {mutations.length > 99 ? '99+' : mutations.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-border">
+          <h3 className="font-semibold text-sm">{label}</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {!online
+              ? 'Los cambios se enviarán cuando vuelvas a tener conexión'
+              : pending.length > 0
+              ? `${pending.length} cambio${pending.length === 1 ? '' : 's'} por enviar`
+              : 'Todos los cambios pendientes se han enviado'}
+          </p>
+        </div>
+        {mutations.length > 0 && (
+          <ScrollArea className="max-h-[360px]">
+            <ul className="divide-y">
+              {mutations.map(mutation => {
+                const { label: description, link } = describeMutation(mutation);
+                const isConflict = mutation.status === 'conflict';
+                const busy = busyId === mutation.id;
+
+                return (
+                  <li key={mutation.id} className="px-4 py-3 space-y-1">
+                    <Link
+                      to={link}
+                      className="block text-sm break-words hover:underline"
+                      onClick={() => setOpen(false)}
+                    >
+                      {description}
+                    </Link>
+                    <p className={`text-xs ${isConflict ? 'text-red-600' : 'text-gray-500'}`}>
+                      {isConflict
+                        ? mutation.error
+                        : `Pendiente desde ${formatDistanceToNow(mutation.createdAt, { addSuffix: false, locale: es })}`}
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7"
+                        disabled={busy}
+                        onClick={() => runAction(mutation.id, () => discardMutation(mutation.id))}
+                      >
+                        Descartar
+                      </Button>
+                      {isConflict && (
+                        <Button
+                          size="sm"
+                          className="h-7 bg-wfc-purple hover:bg-wfc-purple-medium"
+                          disabled={busy || !online}
+                          onClick={() => runAction(mutation.id, () => retryMutation(mutation.id, mutation.type === 'profile'))}
+                        >
+                          {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : mutation.type === 'profile' ? 'Sobrescribir' : 'Reintentar'}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+        {online && pending.length > 0 && (
+          <div className="border-t border-border p-2 text-center">
+            <Button variant="link" size="sm" className="text-wfc-purple" disabled={syncing} onClick={() => replayQueue()}>
+              {syncing ? 'Sincronizando...' : 'Sincronizar ahora'}
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
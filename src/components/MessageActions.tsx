@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Flag, History, Loader2, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { MessageType } from '@/contexts/ChatContext';
+import { MESSAGE_REACTIONS, canDeleteMessage, getMessageEdits } from '@/lib/chatService';
+import { chatKeys } from '@/lib/queryKeys';
+import { ReportDialog } from '@/components/Reports/ReportDialog';
+
+type MessageActionsProps = {
+  chatId: string;
+  message: MessageType;
+  isOwn: boolean;
+  onReact: (emoji: string) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+};
+
+const formatEditDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-ES', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * Menú de acciones de un mensaje: reaccionar, editar, eliminar para todos
+ * consultar las versiones anteriores de un mensaje editado y denunciar mensajes ajenos
+ */
+export const MessageActions: React.FC<MessageActionsProps> = ({ chatId, message, isOwn, onReact, onEdit, onDelete }) => {
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isShowingHistory, setIsShowingHistory] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+
+  const canReport = !isOwn && message.senderId !== 'system';
+
+  const { data: edits = [], isLoading: loadingEdits } = useQuery({
+    queryKey: chatKeys.messageEdits(chatId, message.id, message.editedAt),
+    queryFn: () => getMessageEdits(chatId, message.id),
+    enabled: isShowingHistory
+  });
+
+  if (message.deletedAt) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+            aria-label="Acciones del mensaje"
+          >
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+          <div className="flex gap-1 p-1">
+            {MESSAGE_REACTIONS.map(emoji => (
+              <DropdownMenuItem
+                key={emoji}
+                className="justify-center px-2 text-lg"
+                onSelect={() => onReact(emoji)}
+              >
+                {emoji}
+              </DropdownMenuItem>
+            ))}
+          </div>
+          {(isOwn || message.editedAt || canReport) && <DropdownMenuSeparator />}
+          {isOwn && (
+            <DropdownMenuItem onSelect={onEdit}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Editar
+            </DropdownMenuItem>
+          )}
+          {isOwn && canDeleteMessage(message) && (
+            <DropdownMenuItem className="text-red-600" onSelect={() => setIsConfirmingDelete(true)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Eliminar para todos
+            </DropdownMenuItem>
+          )}
+          {message.editedAt && (
+            <DropdownMenuItem onSelect={() => setIsShowingHistory(true)}>
+              <History className="h-4 w-4 mr-2" />
+              Ver ediciones
+            </DropdownMenuItem>
+          )}
+          {canReport && (
+            <DropdownMenuItem className="text-red-600" onSelect={() => setIsReporting(true)}>
+              <Flag className="h-4 w-4 mr-2" />
+              Denunciar
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Eliminar mensaje</AlertDialogTitle>
+            <AlertDialogDescription>
+              El mensaje se eliminará para todos los participantes del chat. Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="bg-red-600 hover:bg-red-700">
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={isShowingHistory} onOpenChange={setIsShowingHistory}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historial de ediciones</DialogTitle>
+          </DialogHeader>
+          {loadingEdits ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {edits.map(edit => (
+                <li key={edit.id} className="rounded-md bg-gray-50 dark:bg-gray-800 p-3">
+                  <p className="text-sm break-words">{edit.content}</p>
+                  <p className="text-xs text-gray-500 mt-1">Reemplazado el {formatEditDate(edit.timestamp)}</p>
+                </li>
+              ))}
+              <li className="rounded-md border border-wfc-purple/40 p-3">
+                <p className="text-sm break-words">{message.content}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Versión actual · {message.editedAt && formatEditDate(message.editedAt)}
+                </p>
+              </li>
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {canReport && (
+        <ReportDialog
+          open={isReporting}
+          onOpenChange={setIsReporting}
+          targetType="message"
+          targetId={message.id}
+          author={{ id: message.senderId, name: message.senderName || 'este usuario' }}
+        />
+      )}
+    </>
+  );
+};
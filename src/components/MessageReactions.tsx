@@ -0,0 +1,55 @@
+import React from 'react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { MessageType } from '@/contexts/ChatContext';
+
+type MessageReactionsProps = {
+  message: MessageType;
+  currentUserId?: string;
+  getUserName: (userId: string) => string | undefined;
+  onToggle: (emoji: string) => void;
+};
+
+/**
+ * Reacciones de un mensaje con su recuento
+ * El tooltip indica quién ha reaccionado; al pulsar se añade o quita la reacción propia
+ */
+export const MessageReactions: React.FC<MessageReactionsProps> = ({ message, currentUserId, getUserName, onToggle }) => {
+  const reactions = message.reactions || [];
+  if (reactions.length === 0) return null;
+
+  const names = (userIds: string[]) => userIds
+    .map(userId => userId === currentUserId ? 'Tú' : getUserName(userId) || 'Usuario')
+    .join(', ');
+
+  return (
+    <TooltipProvider>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {reactions.map(reaction => {
+          const reacted = !!currentUserId && reaction.userIds.includes(currentUserId);
+
+          return (
+            <Tooltip key={reaction.emoji}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => onToggle(reaction.emoji)}
+                  className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors
+                    ${reacted
+                      ? 'border-wfc-purple bg-wfc-purple/10'
+                      : 'border-gray-200 bg-white hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-800 dark:hover:bg-gray-700'}
+                  `}
+                >
+                  <span>{reaction.emoji}</span>
+                  <span className="text-gray-600 dark:text-gray-300">{reaction.userIds.length}</span>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs">{names(reaction.userIds)}</p>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Check, CheckCheck, Clock } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { MessageType } from '@/contexts/ChatContext';
+import { getMessageStatus } from '@/lib/chatService';
+
+type MessageStatusIndicatorProps = {
+  message: MessageType;
+  isGroup: boolean;
+  getUserName: (userId: string) => string | undefined;
+};
+
+const STATUS_LABELS = {
+  pending: 'Pendiente de enviar',
+  sent: 'Enviado',
+  delivered: 'Entregado',
+  read: 'Leído'
+};
+
+/**
+ * Estado de un mensaje propio: pendiente (reloj), enviado (✓), entregado (✓✓) o leído (✓✓ en color)
+ * En los chats grupales el tooltip indica quién lo ha leído y a quién le ha llegado
+ */
+export const MessageStatusIndicator: React.FC<MessageStatusIndicatorProps> = ({ message, isGroup, getUserName }) => {
+  const status = getMessageStatus(message);
+  const receipts = message.receipts || [];
+
+  const names = (userIds: string[]) => userIds.map(userId => getUserName(userId) || 'Usuario').join(', ');
+  const readBy = receipts.filter(receipt => receipt.readAt).map(receipt => receipt.userId);
+  const deliveredTo = receipts
+    .filter(receipt => receipt.deliveredAt && !receipt.readAt)
+    .map(receipt => receipt.userId);
+
+  const icon = status === 'pending'
+    ? <Clock className="h-3.5 w-3.5 text-gray-400" />
+    : status === 'sent'
+    ? <Check className="h-3.5 w-3.5 text-gray-400" />
+    : <CheckCheck className={`h-3.5 w-3.5 ${status === 'read' ? 'text-blue-500' : 'text-gray-400'}`} />;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="inline-flex items-center" aria-label={STATUS_LABELS[status]}>{icon}</span>
+        </TooltipTrigger>
+        <TooltipContent>
+          {isGroup && receipts.length > 0 ? (
+            <div className="text-xs space-y-1">
+              <p>Leído por: {readBy.length > 0 ? names(readBy) : 'nadie todavía'}</p>
+              {deliveredTo.length > 0 && <p>Entregado a: {names(deliveredTo)}</p>}
+            </div>
+          ) : (
+            STATUS_LABELS[status]
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useChat } from '@/contexts/ChatContext';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import { subscribeToNewMessages } from '@/lib/chatService';
+import { onNotificationNavigate, showDesktopNotification } from '@/lib/pwa';
+
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Notificaciones de escritorio de los mensajes nuevos mientras la pestaña está oculta
+ * No renderiza nada: escucha el socket y, al pulsar la notificación, abre el chat
+ */
+export const DesktopMessageNotifications = () => {
+  const { currentUser } = useAuth();
+  const { getChat } = useChat();
+  const { isBlocked } = useBlockedUsers();
+  const navigate = useNavigate();
+
+  // Se leen al llegar cada mensaje, sin volver a suscribirse cuando cambian los chats
+  const getChatRef = useRef(getChat);
+  getChatRef.current = getChat;
+  const isBlockedRef = useRef(isBlocked);
+  isBlockedRef.current = isBlocked;
+
+  useEffect(() => onNotificationNavigate(url => navigate(url)), [navigate]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    return subscribeToNewMessages((message) => {
+      if (!document.hidden || !message.chatId) return;
+      if (message.senderId === currentUser.id || message.senderId === 'system') return;
+      if (isBlockedRef.current(message.senderId)) return;
+
+      const chat = getChatRef.current(message.chatId);
+      const sender = message.senderName || 'Nuevo mensaje';
+      const body = message.content.length > PREVIEW_LENGTH
+        ? `${message.content.slice(0, PREVIEW_LENGTH)}…`
+        : message.content;
+
+      showDesktopNotification({
+        title: chat?.isGroup && chat.name ? `${sender} en ${chat.name}` : sender,
+        body,
+        tag: message.chatId,
+        url: `/chats?chatId=${message.chatId}`
+      });
+    });
+  }, [currentUser]);
+
+  return null;
+};
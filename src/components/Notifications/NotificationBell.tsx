@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { NotificationItem } from './NotificationItem';
+
+// Notificaciones que se muestran en el desplegable
+const BELL_PREVIEW_COUNT = 6;
+
+/**
+ * Campana con el número de notificaciones sin leer y las más recientes
+ */
+export const NotificationBell = () => {
+  const { notifications, unreadCount, markAllAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notificaciones">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h3 className="font-semibold text-sm">Notificaciones</h3>
+          {unreadCount > 0 && (
+            <button type="button" className="text-xs text-wfc-purple hover:underline" onClick={markAllAsRead}>
+              Marcar todas como leídas
+            </button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">No tienes notificaciones</p>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="p-1">
+              {notifications.slice(0, BELL_PREVIEW_COUNT).map(notification => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  compact
+                  onNavigate={() => setOpen(false)}
+                />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <div className="border-t border-border p-2 text-center">
+          <Link to="/notifications" className="text-sm text-wfc-purple hover:underline" onClick={() => setOpen(false)}>
+            Ver todas
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Heart, MessageCircle, MessageSquare, Reply } from 'lucide-react';
+import { NotificationKind, NotificationType, describeNotification, getNotificationLink } from '@/lib/notificationService';
+import { useNotifications } from '@/contexts/NotificationContext';
+
+const TYPE_ICONS: Record<NotificationKind, React.ReactNode> = {
+  job_comment: <MessageSquare className="h-3 w-3" />,
+  comment_reply: <Reply className="h-3 w-3" />,
+  job_like: <Heart className="h-3 w-3" />,
+  new_message: <MessageCircle className="h-3 w-3" />
+};
+
+type NotificationItemProps = {
+  notification: NotificationType;
+  compact?: boolean; // Versión reducida para el desplegable de la campana
+  onNavigate?: () => void;
+};
+
+/**
+ * Formatear el tiempo transcurrido desde la notificación
+ */
+const formatRelativeTime = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Ahora';
+  if (minutes < 60) return `Hace ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Hace ${hours} h`;
+  return new Date(timestamp).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' });
+};
+
+/**
+ * Notificación individual: al abrirla se marca como leída y se navega a su origen
+ */
+export const NotificationItem: React.FC<NotificationItemProps> = ({ notification, compact = false, onNavigate }) => {
+  const navigate = useNavigate();
+  const { markAsRead } = useNotifications();
+
+  const handleClick = () => {
+    markAsRead(notification.id);
+    onNavigate?.();
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={`w-full text-left flex items-start gap-3 rounded-md p-3 transition-colors hover:bg-gray-100 dark:hover:bg-gray-800 ${
+        notification.isRead ? '' : 'bg-wfc-purple/5'
+      }`}
+    >
+      <div className="relative flex-shrink-0">
+        <Avatar className={compact ? 'h-8 w-8' : 'h-10 w-10'}>
+          <AvatarImage src={notification.actorPhoto} alt={notification.actorName} />
+          <AvatarFallback className="bg-wfc-purple-medium text-white">
+            {notification.actorName.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <span className="absolute -bottom-1 -right-1 rounded-full bg-wfc-purple text-white p-0.5">
+          {TYPE_ICONS[notification.type]}
+        </span>
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm ${notification.isRead ? 'text-gray-700 dark:text-gray-300' : 'font-medium'}`}>
+          {describeNotification(notification)}
+        </p>
+        {notification.preview && (
+          <p className={`text-xs text-gray-500 dark:text-gray-400 ${compact ? 'truncate' : 'line-clamp-2'}`}>
+            {notification.preview}
+          </p>
+        )}
+        <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(notification.timestamp)}</p>
+      </div>
+      {!notification.isRead && <span className="mt-2 h-2 w-2 rounded-full bg-wfc-purple flex-shrink-0" />}
+    </button>
+  );
+};
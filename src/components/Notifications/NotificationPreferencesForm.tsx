@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import {
+  NotificationChannel,
+  NotificationKind,
+  NotificationPreferences,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '@/lib/notificationService';
+import {
+  desktopNotificationsEnabled,
+  desktopNotificationsSupported,
+  setDesktopNotificationsEnabled
+} from '@/lib/pwa';
+import { toast } from '@/components/ui/use-toast';
+
+const TYPE_LABELS: Record<NotificationKind, { title: string; description: string }> = {
+  job_comment: { title: 'Comentarios', description: 'Alguien comenta en una de tus propuestas' },
+  comment_reply: { title: 'Respuestas', description: 'Alguien responde a uno de tus comentarios' },
+  job_like: { title: 'Me gusta', description: 'A alguien le gusta una de tus propuestas' },
+  new_message: { title: 'Mensajes', description: 'Recibes un mensaje en un chat' }
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'En la aplicación',
+  email_digest: 'Resumen por correo',
+  off: 'Desactivadas'
+};
+
+/**
+ * Preferencias de notificación por tipo (en la aplicación, resumen por correo o desactivadas)
+ */
+export const NotificationPreferencesForm = () => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [savingType, setSavingType] = useState<NotificationKind | null>(null);
+  const [desktopEnabled, setDesktopEnabled] = useState(desktopNotificationsEnabled);
+
+  useEffect(() => {
+    getNotificationPreferences()
+      .then(setPreferences)
+      .catch(error => console.error("Error al cargar preferencias de notificación:", error));
+  }, []);
+
+  const handleChange = async (type: NotificationKind, channel: NotificationChannel) => {
+    setSavingType(type);
+    try {
+      setPreferences(await updateNotificationPreferences({ [type]: channel }));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudieron guardar las preferencias"
+      });
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  const handleDesktopChange = async (enabled: boolean) => {
+    const active = await setDesktopNotificationsEnabled(enabled);
+    setDesktopEnabled(active);
+
+    if (enabled && !active) {
+      toast({
+        variant: "destructive",
+        title: "Notificaciones bloqueadas",
+        description: "Permite las notificaciones de este sitio en la configuración del navegador"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notificaciones</CardTitle>
+        <CardDescription>Elige cómo quieres enterarte de cada tipo de actividad</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!preferences ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : (
+          (Object.keys(TYPE_LABELS) as NotificationKind[]).map(type => (
+            <div key={type} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div>
+                <p className="font-medium text-sm">{TYPE_LABELS[type].title}</p>
+                <p className="text-xs text-gray-500">{TYPE_LABELS[type].description}</p>
+              </div>
+              <Select
+                value={preferences[type]}
+                onValueChange={(value) => handleChange(type, value as NotificationChannel)}
+                disabled={savingType === type}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                    <SelectItem key={channel} value={channel}>
+                      {CHANNEL_LABELS[channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))
+        )}
+        {desktopNotificationsSupported() && (
+          <div className="flex items-center justify-between gap-2 pt-4 border-t border-border">
+            <div>
+              <p className="font-medium text-sm">Notificaciones de escritorio</p>
+              <p className="text-xs text-gray-500">Avisos del sistema de los mensajes nuevos mientras la pestaña está en segundo plano</p>
+            </div>
+            <Switch checked={desktopEnabled} onCheckedChange={handleDesktopChange} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
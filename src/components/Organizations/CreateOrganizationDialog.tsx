@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import { createOrganization } from '@/lib/organizationService';
+import { toast } from '@/components/ui/use-toast';
+
+interface CreateOrganizationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Diálogo para crear una organización; al crearla pasa a ser la activa
+ */
+export const CreateOrganizationDialog = ({ open, onOpenChange }: CreateOrganizationDialogProps) => {
+  const { refreshOrganizations } = useOrganizations();
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const organization = await createOrganization(name.trim());
+      await refreshOrganizations(organization.id);
+      toast({
+        title: "Organización creada",
+        description: `Ahora publicas como ${organization.name}`
+      });
+      setName('');
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo crear la organización"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Nueva organización</DialogTitle>
+            <DialogDescription>
+              Publica trabajos en nombre de tu empresa e invita a tu equipo a gestionarlos
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="organizationName">Nombre</Label>
+            <Input
+              id="organizationName"
+              autoFocus
+              maxLength={120}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Empresa ABC"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancelar</Button>
+            <Button type="submit" className="bg-wfc-purple hover:bg-wfc-purple-medium" disabled={saving || !name.trim()}>
+              {saving ? 'Creando...' : 'Crear organización'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Link2, Loader2, Mail } from 'lucide-react';
+import {
+  OrganizationInvitationType,
+  OrganizationType,
+  ROLE_LABELS,
+  createInvitation,
+  getOrganizationMembers,
+  revokeInvitation
+} from '@/lib/organizationService';
+import { toast } from '@/components/ui/use-toast';
+
+interface OrganizationInvitationsProps {
+  organization: OrganizationType;
+}
+
+// Roles que se pueden dar al invitar (los propietarios se nombran desde la lista de miembros)
+const INVITATION_ROLES: OrganizationInvitationType['role'][] = ['hiring_manager', 'viewer', 'admin'];
+
+const showError = (error: unknown, fallback: string) => {
+  toast({
+    variant: "destructive",
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback
+  });
+};
+
+/**
+ * Invitar miembros por correo o con un enlace y gestionar las invitaciones pendientes
+ */
+export const OrganizationInvitations = ({ organization }: OrganizationInvitationsProps) => {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationInvitationType['role']>('hiring_manager');
+  const [sending, setSending] = useState(false);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  // Misma consulta que la lista de miembros: incluye las invitaciones pendientes
+  const queryKey = ['organizationMembers', organization.id];
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getOrganizationMembers(organization.id)
+  });
+
+  const invitations = data?.invitations || [];
+
+  const handleInvite = async (byEmail: boolean) => {
+    if (byEmail && !email.trim()) return;
+    setSending(true);
+    try {
+      const result = await createInvitation(organization.id, role, byEmail ? email.trim() : undefined);
+      queryClient.invalidateQueries({ queryKey });
+      if (byEmail) {
+        setEmail('');
+        toast({ title: "Invitación enviada", description: `Hemos enviado la invitación a ${result.invitation.email}` });
+      } else {
+        setInviteUrl(result.url);
+      }
+    } catch (error) {
+      showError(error, "No se pudo crear la invitación");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCopyUrl = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      toast({ title: "Enlace copiado" });
+    } catch (error) {
+      showError(error, "No se pudo copiar el enlace");
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    setRevokingId(invitationId);
+    try {
+      await revokeInvitation(organization.id, invitationId);
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Invitación anulada" });
+    } catch (error) {
+      showError(error, "No se pudo anular la invitación");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invitar al equipo</CardTitle>
+        <CardDescription>
+          Invita por correo o comparte un enlace. Solo pueden unirse cuentas de cliente; las invitaciones caducan en 7 días.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="flex flex-col md:flex-row md:items-end gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleInvite(true);
+          }}
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="invitationEmail">Correo electrónico</Label>
+            <Input
+              id="invitationEmail"
+              type="email"
+              placeholder="nombre@empresa.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Rol</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as OrganizationInvitationType['role'])}>
+              <SelectTrigger className="w-full md:w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITATION_ROLES.map(option => (
+                  <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" className="bg-wfc-purple hover:bg-wfc-purple-medium" disabled={sending || !email.trim()}>
+              <Mail className="h-4 w-4 mr-2" />
+              Invitar
+            </Button>
+            <Button type="button" variant="outline" disabled={sending} onClick={() => handleInvite(false)}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Crear enlace
+            </Button>
+          </div>
+        </form>
+
+        {inviteUrl && (
+          <div className="rounded-md bg-gray-50 dark:bg-gray-800 p-4 space-y-2">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Comparte este enlace con tu equipo. No se volverá a mostrar; si lo pierdes, crea otro.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={inviteUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopyUrl}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copiar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Invitaciones pendientes</h3>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+            </div>
+          ) : invitations.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay invitaciones pendientes</p>
+          ) : (
+            <ul className="divide-y">
+              {invitations.map(invitation => (
+                <li key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center min-w-0">
+                    {invitation.email ? (
+                      <Mail className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                    ) : (
+                      <Link2 className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                    )}
+                    <div className="ml-3 min-w-0">
+                      <p className="font-medium text-sm truncate">
+                        {invitation.email || 'Enlace de invitación'}
+                        <Badge variant="outline" className="ml-2">{ROLE_LABELS[invitation.role]}</Badge>
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {invitation.inviterName && `Invitado por ${invitation.inviterName} · `}
+                        Caduca {formatDistanceToNow(invitation.expiresAt, { addSuffix: true, locale: es })}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 flex-shrink-0"
+                    disabled={revokingId === invitation.id}
+                    onClick={() => handleRevoke(invitation.id)}
+                  >
+                    {revokingId === invitation.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Anular'}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
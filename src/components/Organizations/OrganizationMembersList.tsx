@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import {
+  OrganizationMemberType,
+  OrganizationRole,
+  OrganizationType,
+  ROLE_LABELS,
+  getOrganizationMembers,
+  hasPermission,
+  removeMember,
+  updateMemberRole
+} from '@/lib/organizationService';
+import { toast } from '@/components/ui/use-toast';
+
+interface OrganizationMembersListProps {
+  organization: OrganizationType;
+}
+
+const showError = (error: unknown, fallback: string) => {
+  toast({
+    variant: "destructive",
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback
+  });
+};
+
+/**
+ * Miembros de una organización con su rol
+ * Quien gestiona miembros puede cambiar roles y quitar miembros; cualquiera puede salir
+ */
+export const OrganizationMembersList = ({ organization }: OrganizationMembersListProps) => {
+  const { currentUser } = useAuth();
+  const { refreshOrganizations } = useOrganizations();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [pendingRemoval, setPendingRemoval] = useState<OrganizationMemberType | null>(null);
+
+  const queryKey = ['organizationMembers', organization.id];
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getOrganizationMembers(organization.id)
+  });
+
+  const members = data?.members || [];
+  const canManage = hasPermission(organization.role, 'members:manage');
+  const isOwner = organization.role === 'owner';
+
+  // Los propietarios solo los cambia otro propietario
+  const roleOptions = (Object.keys(ROLE_LABELS) as OrganizationRole[]).filter(role => isOwner || role !== 'owner');
+  const canEdit = (member: OrganizationMemberType) =>
+    canManage && member.userId !== currentUser?.id && (isOwner || member.role !== 'owner');
+
+  const handleRoleChange = async (member: OrganizationMemberType, role: OrganizationRole) => {
+    try {
+      await updateMemberRole(organization.id, member.id, role);
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Rol actualizado",
+        description: `${member.userName} ahora es ${ROLE_LABELS[role].toLowerCase()}`
+      });
+    } catch (error) {
+      showError(error, "No se pudo cambiar el rol");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return;
+    const isSelf = pendingRemoval.userId === currentUser?.id;
+    try {
+      await removeMember(organization.id, pendingRemoval.id);
+      if (isSelf) {
+        await refreshOrganizations();
+        toast({ title: "Has salido de la organización", description: organization.name });
+        navigate('/dashboard');
+      } else {
+        queryClient.invalidateQueries({ queryKey });
+        toast({ title: "Miembro eliminado", description: `${pendingRemoval.userName} ya no forma parte de ${organization.name}` });
+      }
+    } catch (error) {
+      showError(error, "No se pudo quitar al miembro");
+    } finally {
+      setPendingRemoval(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Miembros</CardTitle>
+        <CardDescription>Personas que gestionan los trabajos de {organization.name}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {members.map(member => (
+              <li key={member.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                <div className="flex items-center min-w-0">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={member.userPhoto} />
+                    <AvatarFallback className="bg-wfc-purple-medium text-white">
+                      {member.userName.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="ml-3 min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {member.userName}
+                      {member.userId === currentUser?.id && <span className="text-gray-500 font-normal"> (tú)</span>}
+                    </p>
+                    {member.userEmail && <p className="text-xs text-gray-500 truncate">{member.userEmail}</p>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {canEdit(member) ? (
+                    <Select value={member.role} onValueChange={(role) => handleRoleChange(member, role as OrganizationRole)}>
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roleOptions.map(role => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {(canEdit(member) || member.userId === currentUser?.id) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => setPendingRemoval(member)}
+                    >
+                      {member.userId === currentUser?.id ? 'Salir' : 'Quitar'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRemoval?.userId === currentUser?.id ? 'Salir de la organización' : 'Quitar miembro'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemoval?.userId === currentUser?.id
+                ? `Dejarás de ver y gestionar los trabajos de ${organization.name}. Necesitarás una invitación para volver.`
+                : `${pendingRemoval?.userName} dejará de tener acceso a los trabajos de ${organization.name}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleRemove}>
+              {pendingRemoval?.userId === currentUser?.id ? 'Salir' : 'Quitar'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
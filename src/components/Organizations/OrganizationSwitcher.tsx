@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Building2, Check, ChevronsUpDown, Plus, Settings } from 'lucide-react';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import { ROLE_LABELS } from '@/lib/organizationService';
+import { CreateOrganizationDialog } from './CreateOrganizationDialog';
+
+interface OrganizationSwitcherProps {
+  collapsed?: boolean; // Barra lateral contraída: solo se muestra el icono
+}
+
+/**
+ * Selector de la organización activa en la barra lateral
+ */
+export const OrganizationSwitcher = ({ collapsed = false }: OrganizationSwitcherProps) => {
+  const { organizations, currentOrganization, switchOrganization } = useOrganizations();
+  const [createOpen, setCreateOpen] = useState(false);
+  const navigate = useNavigate();
+
+  if (!currentOrganization) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className={`
+              w-full flex items-center px-3 py-2 mb-3 rounded-md border border-border text-sm hover:bg-sidebar-accent/50 transition-colors
+              ${collapsed ? 'justify-center' : ''}
+            `}
+            aria-label="Cambiar de organización"
+          >
+            <Building2 className="h-4 w-4 flex-shrink-0 text-wfc-purple" />
+            {!collapsed && (
+              <>
+                <span className="ml-3 flex-1 min-w-0 text-left">
+                  <span className="block truncate font-medium text-sidebar-foreground">{currentOrganization.name}</span>
+                  <span className="block truncate text-xs text-muted-foreground">{ROLE_LABELS[currentOrganization.role]}</span>
+                </span>
+                <ChevronsUpDown className="h-4 w-4 flex-shrink-0 opacity-60" />
+              </>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Organizaciones</DropdownMenuLabel>
+          {organizations.map(organization => (
+            <DropdownMenuItem key={organization.id} onClick={() => switchOrganization(organization.id)}>
+              <Check className={`mr-2 h-4 w-4 ${organization.id === currentOrganization.id ? '' : 'invisible'}`} />
+              <span className="flex-1 truncate">{organization.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{ROLE_LABELS[organization.role]}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => navigate('/organization')}>
+            <Settings className="mr-2 h-4 w-4" />
+            <span>Gestionar equipo</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            <span>Nueva organización</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateOrganizationDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { JobType, useJobs } from '@/contexts/JobContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import {
+  ProposalInput,
+  ProposalType,
+  getJobProposals,
+  submitProposal,
+  updateProposalStatus,
+  withdrawProposal
+} from '@/lib/proposalService';
+import { deleteAttachment, uploadAttachments } from '@/lib/attachmentService';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { ProposalForm } from './ProposalForm';
+import { ProposalItem, ProposalStatusBadge } from './ProposalItem';
+import { toast } from '@/components/ui/use-toast';
+
+type JobProposalsSectionProps = {
+  job: JobType;
+};
+
+/**
+ * Sección de ofertas en el detalle de un trabajo
+ * - Los miembros de la organización ven la lista ordenada de ofertas; según su rol pueden gestionarlas
+ * - Un freelancer ve su oferta o el formulario para enviar una
+ */
+export const JobProposalsSection: React.FC<JobProposalsSectionProps> = ({ job }) => {
+  const { currentUser } = useAuth();
+  const { canOnJob } = useOrganizations();
+  const { loadJobs } = useJobs();
+  const [proposals, setProposals] = useState<ProposalType[]>([]);
+  const [loadingProposals, setLoadingProposals] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [updatingProposalId, setUpdatingProposalId] = useState<string | null>(null);
+
+  // El equipo del trabajo ve todas las ofertas; solo algunos roles pueden gestionarlas
+  const isOwner = canOnJob(job, 'jobs:view');
+  const canManageProposals = canOnJob(job, 'proposals:manage');
+  const ownProposal = !isOwner ? proposals.find(p => p.userId === currentUser?.id) : undefined;
+
+  const loadProposals = useCallback(async () => {
+    setLoadingProposals(true);
+    try {
+      setProposals(await getJobProposals(job.id));
+    } catch (error) {
+      console.error("Error al cargar ofertas:", error);
+    } finally {
+      setLoadingProposals(false);
+    }
+  }, [job.id]);
+
+  useEffect(() => {
+    if (currentUser) {
+      loadProposals();
+    }
+  }, [currentUser, loadProposals]);
+
+  const handleSubmitProposal = async (data: ProposalInput, files: File[]) => {
+    setIsSubmitting(true);
+    try {
+      const proposal = await submitProposal(job.id, data);
+      
+      // Los archivos se suben una vez creada la oferta; si fallan, la oferta se mantiene
+      if (files.length > 0) {
+        try {
+          proposal.files = [...proposal.files, ...await uploadAttachments('proposal', proposal.id, files)];
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Archivos no subidos",
+            description: error instanceof Error ? error.message : "La oferta se envió sin los archivos"
+          });
+        }
+      }
+      
+      setProposals([proposal]);
+      toast({
+        title: "Oferta enviada",
+        description: "El cliente revisará tu oferta"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo enviar la oferta"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChangeStatus = async (proposalId: string, status: 'accepted' | 'rejected' | 'shortlisted') => {
+    setUpdatingProposalId(proposalId);
+    try {
+      await updateProposalStatus(proposalId, status);
+      await loadProposals();
+
+      // Al aceptar una oferta cambia el estado del trabajo
+      if (status === 'accepted') {
+        await loadJobs();
+      }
+
+      toast({
+        title: "Oferta actualizada",
+        description: status === 'accepted'
+          ? "Has asignado el trabajo a este freelancer"
+          : "El estado de la oferta se ha actualizado"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo actualizar la oferta"
+      });
+    } finally {
+      setUpdatingProposalId(null);
+    }
+  };
+
+  const handleDeleteFile = async (proposalId: string, attachmentId: string) => {
+    await deleteAttachment(attachmentId);
+    setProposals(prev => prev.map(proposal =>
+      proposal.id === proposalId
+        ? { ...proposal, files: proposal.files.filter(file => file.id !== attachmentId) }
+        : proposal
+    ));
+  };
+
+  const handleWithdraw = async (proposalId: string) => {
+    try {
+      await withdrawProposal(proposalId);
+      await loadProposals();
+      toast({
+        title: "Oferta retirada",
+        description: "Tu oferta ha sido retirada"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo retirar la oferta"
+      });
+    }
+  };
+
+  if (!currentUser) return null;
+
+  // Los clientes ajenos al trabajo no envían ofertas
+  if (!isOwner && currentUser.role !== 'freelancer') return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{isOwner ? 'Ofertas recibidas' : 'Tu oferta'}</CardTitle>
+        {isOwner && (
+          <CardDescription>
+            {proposals.length === 0 ? 'Aún no has recibido ofertas' : `${proposals.length} ofertas, ordenadas por afinidad`}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loadingProposals ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : isOwner ? (
+          <div className="space-y-4">
+            {proposals.map(proposal => (
+              <ProposalItem
+                key={proposal.id}
+                proposal={proposal}
+                jobSkills={job.skills}
+                canManage={canManageProposals && job.status === 'open'}
+                isUpdating={updatingProposalId === proposal.id}
+                onChangeStatus={handleChangeStatus}
+              />
+            ))}
+          </div>
+        ) : ownProposal && ownProposal.status !== 'withdrawn' ? (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">
+                ${ownProposal.proposedBudget} • {ownProposal.estimatedDuration} días
+              </span>
+              <ProposalStatusBadge status={ownProposal.status} />
+            </div>
+            <p className="text-sm text-gray-700 whitespace-pre-line">{ownProposal.coverLetter}</p>
+            <AttachmentList
+              attachments={ownProposal.files}
+              canDelete={() => ownProposal.status === 'pending' || ownProposal.status === 'shortlisted'}
+              onDelete={(attachment) => handleDeleteFile(ownProposal.id, attachment.id)}
+              compact
+            />
+            {(ownProposal.status === 'pending' || ownProposal.status === 'shortlisted') && (
+              <Button variant="outline" size="sm" onClick={() => handleWithdraw(ownProposal.id)}>
+                Retirar oferta
+              </Button>
+            )}
+          </div>
+        ) : job.status === 'open' ? (
+          <ProposalForm jobBudget={job.budget} onSubmit={handleSubmitProposal} isSubmitting={isSubmitting} />
+        ) : (
+          <p className="text-sm text-gray-500">Este trabajo ya no acepta ofertas</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
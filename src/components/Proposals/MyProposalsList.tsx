@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { ProposalType, getMyProposals, withdrawProposal } from '@/lib/proposalService';
+import { ProposalStatusBadge } from './ProposalItem';
+import { toast } from '@/components/ui/use-toast';
+
+/**
+ * Lista de ofertas enviadas por el freelancer actual
+ */
+export const MyProposalsList = () => {
+  const [proposals, setProposals] = useState<ProposalType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadProposals = async () => {
+    setLoading(true);
+    try {
+      setProposals(await getMyProposals());
+    } catch (error) {
+      console.error("Error al cargar mis ofertas:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProposals();
+  }, []);
+
+  const handleWithdraw = async (proposalId: string) => {
+    try {
+      await withdrawProposal(proposalId);
+      setProposals(prev => prev.map(p => p.id === proposalId ? { ...p, status: 'withdrawn' } : p));
+      toast({
+        title: "Oferta retirada",
+        description: "Tu oferta ha sido retirada"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo retirar la oferta"
+      });
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString('es-ES', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+      </div>
+    );
+  }
+
+  if (proposals.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <p className="text-gray-500 dark:text-gray-400">Aún no has enviado ninguna oferta</p>
+        <Link to="/jobs">
+          <Button className="mt-4 bg-wfc-purple hover:bg-wfc-purple-medium">
+            Explorar propuestas
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {proposals.map(proposal => (
+        <div
+          key={proposal.id}
+          className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+        >
+          <div className="flex flex-col md:flex-row justify-between">
+            <div>
+              <h3 className="font-medium dark:text-white">
+                <Link to={`/jobs/${proposal.jobId}`} className="hover:text-wfc-purple">
+                  {proposal.job?.title || 'Propuesta'}
+                </Link>
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Enviada el {formatDate(proposal.timestamp)} • ${proposal.proposedBudget} • {proposal.estimatedDuration} días
+              </p>
+            </div>
+            <div className="mt-2 md:mt-0">
+              <ProposalStatusBadge status={proposal.status} />
+            </div>
+          </div>
+          {(proposal.status === 'pending' || proposal.status === 'shortlisted') && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3"
+              onClick={() => handleWithdraw(proposal.id)}
+            >
+              Retirar oferta
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Paperclip, X } from 'lucide-react';
+import { ProposalInput } from '@/lib/proposalService';
+import { toast } from '@/components/ui/use-toast';
+import { AttachmentPicker } from '@/components/Attachments/AttachmentPicker';
+
+type ProposalFormProps = {
+  jobBudget: number;
+  onSubmit: (data: ProposalInput, files: File[]) => Promise<void>;
+  isSubmitting: boolean;
+};
+
+/**
+ * Formulario para que un freelancer envíe una oferta a un trabajo
+ */
+export const ProposalForm: React.FC<ProposalFormProps> = ({ jobBudget, onSubmit, isSubmitting }) => {
+  const [coverLetter, setCoverLetter] = useState('');
+  const [proposedBudget, setProposedBudget] = useState(jobBudget ? String(jobBudget) : '');
+  const [estimatedDuration, setEstimatedDuration] = useState('');
+  const [attachmentUrl, setAttachmentUrl] = useState('');
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+
+  const handleAddAttachment = () => {
+    const url = attachmentUrl.trim();
+    if (!url || attachments.includes(url)) return;
+
+    setAttachments([...attachments, url]);
+    setAttachmentUrl('');
+  };
+
+  const handleRemoveAttachment = (url: string) => {
+    setAttachments(attachments.filter(attachment => attachment !== url));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const budget = parseFloat(proposedBudget);
+    const duration = parseInt(estimatedDuration, 10);
+
+    if (!coverLetter.trim() || !budget || budget <= 0 || !duration || duration <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Completa la carta de presentación, el presupuesto y la duración estimada"
+      });
+      return;
+    }
+
+    await onSubmit({
+      coverLetter: coverLetter.trim(),
+      proposedBudget: budget,
+      estimatedDuration: duration,
+      attachments
+    }, files);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="cover-letter">Carta de presentación</Label>
+        <Textarea
+          id="cover-letter"
+          placeholder="Explica por qué eres la persona adecuada para este trabajo..."
+          value={coverLetter}
+          onChange={(e) => setCoverLetter(e.target.value)}
+          className="min-h-[120px]"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="proposed-budget">Presupuesto ($)</Label>
+          <Input
+            id="proposed-budget"
+            type="number"
+            min="1"
+            value={proposedBudget}
+            onChange={(e) => setProposedBudget(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="estimated-duration">Duración (días)</Label>
+          <Input
+            id="estimated-duration"
+            type="number"
+            min="1"
+            value={estimatedDuration}
+            onChange={(e) => setEstimatedDuration(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="attachment-url">Adjuntos (enlaces)</Label>
+        <div className="flex space-x-2">
+          <Input
+            id="attachment-url"
+            placeholder="https://..."
+            value={attachmentUrl}
+            onChange={(e) => setAttachmentUrl(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={handleAddAttachment}>
+            <Paperclip className="h-4 w-4" />
+          </Button>
+        </div>
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {attachments.map((url) => (
+              <Badge key={url} variant="outline" className="max-w-full">
+                <span className="truncate">{url}</span>
+                <button type="button" className="ml-1" onClick={() => handleRemoveAttachment(url)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Archivos</Label>
+        <AttachmentPicker files={files} onChange={setFiles} disabled={isSubmitting} />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+      >
+        {isSubmitting ? 'Enviando...' : 'Enviar oferta'}
+      </Button>
+    </form>
+  );
+};
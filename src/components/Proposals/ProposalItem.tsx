@@ -0,0 +1,141 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, X, Star, Paperclip } from 'lucide-react';
+import { ProposalStatus, ProposalType } from '@/lib/proposalService';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+
+const STATUS_LABELS: Record<ProposalStatus, string> = {
+  pending: 'Pendiente',
+  shortlisted: 'Preseleccionada',
+  accepted: 'Aceptada',
+  rejected: 'Rechazada',
+  withdrawn: 'Retirada'
+};
+
+const STATUS_CLASSES: Record<ProposalStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200',
+  shortlisted: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
+  accepted: 'bg-green-100 text-green-800 hover:bg-green-200',
+  rejected: 'bg-red-100 text-red-800 hover:bg-red-200',
+  withdrawn: 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+};
+
+/**
+ * Etiqueta con el estado de una oferta
+ */
+export const ProposalStatusBadge = ({ status }: { status: ProposalStatus }) => (
+  <Badge className={STATUS_CLASSES[status]}>{STATUS_LABELS[status]}</Badge>
+);
+
+type ProposalItemProps = {
+  proposal: ProposalType;
+  jobSkills: string[];
+  canManage: boolean;
+  isUpdating: boolean;
+  onChangeStatus: (proposalId: string, status: 'accepted' | 'rejected' | 'shortlisted') => void;
+};
+
+/**
+ * Oferta recibida en un trabajo, con las acciones del propietario
+ */
+export const ProposalItem: React.FC<ProposalItemProps> = ({
+  proposal,
+  jobSkills,
+  canManage,
+  isUpdating,
+  onChangeStatus
+}) => {
+  const isActive = proposal.status === 'pending' || proposal.status === 'shortlisted';
+  const matchingSkills = proposal.userSkills.filter(skill => jobSkills.includes(skill));
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex justify-between items-start">
+        <Link to={`/user/${proposal.userId}`} className="flex items-center space-x-3">
+          <Avatar className="h-9 w-9">
+            <AvatarImage src={proposal.userPhoto} alt={proposal.userName} />
+            <AvatarFallback className="bg-wfc-purple-medium text-white">
+              {proposal.userName?.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="font-medium text-sm">{proposal.userName}</p>
+            <p className="text-xs text-gray-500">
+              ${proposal.proposedBudget} • {proposal.estimatedDuration} {proposal.estimatedDuration === 1 ? 'día' : 'días'}
+            </p>
+          </div>
+        </Link>
+        <div className="flex items-center gap-2">
+          {proposal.matchScore !== undefined && (
+            <span className="text-xs text-gray-500">{proposal.matchScore}% afinidad</span>
+          )}
+          <ProposalStatusBadge status={proposal.status} />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{proposal.coverLetter}</p>
+
+      {matchingSkills.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matchingSkills.map(skill => (
+            <Badge key={skill} variant="outline" className="text-xs">{skill}</Badge>
+          ))}
+        </div>
+      )}
+
+      {proposal.attachments.length > 0 && (
+        <div className="space-y-1">
+          {proposal.attachments.map(url => (
+            <a
+              key={url}
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center text-xs text-wfc-purple hover:underline truncate"
+            >
+              <Paperclip className="h-3 w-3 mr-1 flex-shrink-0" />
+              {url}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {proposal.files.length > 0 && <AttachmentList attachments={proposal.files} compact />}
+
+      {canManage && isActive && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Button
+            size="sm"
+            className="bg-wfc-purple hover:bg-wfc-purple-medium"
+            disabled={isUpdating}
+            onClick={() => onChangeStatus(proposal.id, 'accepted')}
+          >
+            <Check className="h-4 w-4 mr-1" /> Aceptar
+          </Button>
+          {proposal.status !== 'shortlisted' && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isUpdating}
+              onClick={() => onChangeStatus(proposal.id, 'shortlisted')}
+            >
+              <Star className="h-4 w-4 mr-1" /> Preseleccionar
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 border-red-600 hover:bg-red-600 hover:text-white"
+            disabled={isUpdating}
+            onClick={() => onChangeStatus(proposal.id, 'rejected')}
+          >
+            <X className="h-4 w-4 mr-1" /> Rechazar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Check, Briefcase, DollarSign, AlertCircle } from 'lucide-react';
+import { MatchExplanationType } from '@/lib/recommendationService';
+
+type MatchReasonsProps = {
+  match: MatchExplanationType;
+  category: string;
+  perspective: 'freelancer' | 'client'; // Quién lee la explicación
+};
+
+/**
+ * Explicación de por qué una propuesta y un freelancer encajan
+ */
+export const MatchReasons: React.FC<MatchReasonsProps> = ({ match, category, perspective }) => {
+  const isFreelancer = perspective === 'freelancer';
+  const reasons: { icon: React.ReactNode; text: string }[] = [];
+
+  if (match.matchedSkills.length > 0) {
+    reasons.push({
+      icon: <Check className="h-3 w-3 text-green-600" />,
+      text: `${isFreelancer ? 'Dominas' : 'Domina'} ${match.matchedSkills.join(', ')}`
+    });
+  }
+
+  if (match.missingSkills.length > 0) {
+    reasons.push({
+      icon: <AlertCircle className="h-3 w-3 text-amber-500" />,
+      text: `${isFreelancer ? 'Te falta' : 'Le falta'} ${match.missingSkills.join(', ')}`
+    });
+  }
+
+  if (match.categoryCount > 0) {
+    reasons.push({
+      icon: <Briefcase className="h-3 w-3 text-wfc-purple" />,
+      text: `${isFreelancer ? 'Has enviado' : 'Ha enviado'} ${match.categoryCount} ${match.categoryCount === 1 ? 'oferta' : 'ofertas'} en ${category}`
+    });
+  }
+
+  if (match.estimatedHours !== null) {
+    reasons.push({
+      icon: <DollarSign className={`h-3 w-3 ${match.budgetFits ? 'text-green-600' : 'text-amber-500'}`} />,
+      text: isFreelancer
+        ? `El presupuesto equivale a unas ${match.estimatedHours} h a tu tarifa`
+        : `Tu presupuesto cubre unas ${match.estimatedHours} h a su tarifa`
+    });
+  }
+
+  return (
+    <ul className="space-y-1">
+      {reasons.map((reason, index) => (
+        <li key={index} className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-300">
+          {reason.icon}
+          <span>{reason.text}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { JobType } from '@/contexts/JobContext';
+import { getRecommendedFreelancers } from '@/lib/recommendationService';
+import { RatingBadge } from '@/components/Reviews/StarRating';
+import { MatchReasons } from './MatchReasons';
+
+type RecommendedFreelancersProps = {
+  job: JobType;
+};
+
+/**
+ * Freelancers que mejor encajan con una propuesta abierta (vista del propietario)
+ */
+export const RecommendedFreelancers: React.FC<RecommendedFreelancersProps> = ({ job }) => {
+  const { data: recommendations = [], isLoading } = useQuery({
+    queryKey: ['recommendations', 'freelancers', job.id],
+    queryFn: () => getRecommendedFreelancers(job.id)
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Freelancers recomendados</CardTitle>
+        <CardDescription>
+          Según sus habilidades, su experiencia en {job.category} y su tarifa
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-gray-500">No hemos encontrado freelancers que encajen todavía</p>
+        ) : (
+          recommendations.map(({ freelancer, match }) => (
+            <div key={freelancer.id} className="border rounded-lg p-3 space-y-2 dark:border-gray-700">
+              <div className="flex items-center justify-between gap-2">
+                <Link to={`/user/${freelancer.id}`} className="flex items-center space-x-3 min-w-0">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={freelancer.photoURL} alt={freelancer.name} />
+                    <AvatarFallback className="bg-wfc-purple-medium text-white">
+                      {freelancer.name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{freelancer.name}</p>
+                    <RatingBadge average={freelancer.ratingAverage} count={freelancer.ratingCount} />
+                  </div>
+                </Link>
+                <Badge className="bg-wfc-purple hover:bg-wfc-purple-medium flex-shrink-0">
+                  {match.score}%
+                </Badge>
+              </div>
+              {!!freelancer.hourlyRate && (
+                <p className="text-xs text-gray-500">${freelancer.hourlyRate}/h</p>
+              )}
+              <MatchReasons match={match} category={job.category} perspective="client" />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
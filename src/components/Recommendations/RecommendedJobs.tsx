@@ -0,0 +1,58 @@
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { getRecommendedJobs } from '@/lib/recommendationService';
+import { MatchReasons } from './MatchReasons';
+
+/**
+ * Propuestas recomendadas para el freelancer según sus habilidades, su historial y su tarifa
+ */
+export const RecommendedJobs = () => {
+  const { data: recommendations = [], isLoading, isError } = useQuery({
+    queryKey: ['recommendations', 'jobs'],
+    queryFn: () => getRecommendedJobs()
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8">Buscando propuestas para ti...</div>;
+  }
+
+  if (isError || recommendations.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-gray-500">Todavía no hay recomendaciones para ti</p>
+        <Link to="/profile" className="text-sm text-wfc-purple hover:underline">
+          Añade habilidades y tu tarifa por hora a tu perfil
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {recommendations.map(({ job, match }) => (
+        <Link key={job.id} to={`/jobs/${job.id}`}>
+          <Card className="hover:border-wfc-purple transition-colors">
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle className="text-lg font-medium">{job.title}</CardTitle>
+                  <CardDescription className="text-sm">
+                    {job.category} • ${job.budget}
+                  </CardDescription>
+                </div>
+                <Badge className="bg-wfc-purple hover:bg-wfc-purple-medium flex-shrink-0">
+                  {match.score}% de coincidencia
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <MatchReasons match={match} category={job.category} perspective="freelancer" />
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+};
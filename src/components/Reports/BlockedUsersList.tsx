@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import { BlockedUserType } from '@/lib/userService';
+import { toast } from '@/components/ui/use-toast';
+
+/**
+ * Usuarios bloqueados por el usuario actual, con la opción de desbloquearlos
+ */
+export const BlockedUsersList = () => {
+  const { blockedUsers, isLoading, unblock } = useBlockedUsers();
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  const handleUnblock = async (user: BlockedUserType) => {
+    setUnblockingId(user.id);
+    try {
+      await unblock(user.id);
+      toast({
+        title: "Usuario desbloqueado",
+        description: `Vuelves a ver el contenido de ${user.name}`
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo desbloquear al usuario"
+      });
+    } finally {
+      setUnblockingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Usuarios bloqueados</CardTitle>
+        <CardDescription>No ves su contenido y no pueden escribirte ni añadirte a chats</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : blockedUsers.length === 0 ? (
+          <p className="text-sm text-gray-500">No has bloqueado a nadie</p>
+        ) : (
+          <ul className="divide-y">
+            {blockedUsers.map(user => (
+              <li key={user.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center min-w-0">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={user.photoURL} />
+                    <AvatarFallback className="bg-wfc-purple-medium text-white">
+                      {user.name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="ml-3 min-w-0">
+                    <Link to={`/user/${user.id}`} className="font-medium text-sm hover:underline truncate">
+                      {user.name}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      Bloqueado {formatDistanceToNow(user.blockedAt, { addSuffix: true, locale: es })}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex-shrink-0"
+                  disabled={unblockingId === user.id}
+                  onClick={() => handleUnblock(user)}
+                >
+                  {unblockingId === user.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Desbloquear'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import { REPORT_REASON_LABELS, ReportReason, ReportTargetType, createReport } from '@/lib/reportService';
+import { toast } from '@/components/ui/use-toast';
+
+const DIALOG_TITLES: Record<ReportTargetType, string> = {
+  job: 'Denunciar propuesta',
+  comment: 'Denunciar comentario',
+  reply: 'Denunciar respuesta',
+  message: 'Denunciar mensaje',
+  user: 'Denunciar perfil'
+};
+
+type ReportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+  author?: { id: string; name: string }; // Autor del contenido (permite bloquearle a la vez)
+};
+
+/**
+ * Diálogo para denunciar un contenido o un perfil con su motivo
+ * La denuncia la revisan los administradores; opcionalmente se bloquea también al autor
+ */
+export const ReportDialog = ({ open, onOpenChange, targetType, targetId, author }: ReportDialogProps) => {
+  const { isBlocked, block } = useBlockedUsers();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [alsoBlock, setAlsoBlock] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  // Cada apertura empieza con el formulario vacío
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setDetails('');
+      setAlsoBlock(false);
+    }
+  }, [open]);
+
+  const canBlock = !!author && !isBlocked(author.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+    setSending(true);
+    try {
+      await createReport(targetType, targetId, reason, details.trim() || undefined);
+      if (canBlock && alsoBlock) {
+        await block(author.id);
+      }
+      onOpenChange(false);
+      toast({
+        title: "Denuncia enviada",
+        description: canBlock && alsoBlock
+          ? `La revisaremos lo antes posible. Has bloqueado a ${author.name}.`
+          : "La revisaremos lo antes posible. Gracias por avisarnos."
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo enviar la denuncia"
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{DIALOG_TITLES[targetType]}</DialogTitle>
+            <DialogDescription>
+              Los administradores revisarán la denuncia. Quien la recibe no sabrá quién la ha enviado.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Motivo</Label>
+              <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+                {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(option => (
+                  <div key={option} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option} id={`report-reason-${option}`} />
+                    <Label htmlFor={`report-reason-${option}`} className="font-normal">
+                      {REPORT_REASON_LABELS[option]}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reportDetails">
+                Detalles <span className="text-gray-500 font-normal">(opcional)</span>
+              </Label>
+              <Textarea
+                id="reportDetails"
+                rows={3}
+                maxLength={1000}
+                placeholder="Cuéntanos qué ha pasado"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+            </div>
+            {canBlock && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="reportAlsoBlock"
+                  checked={alsoBlock}
+                  onCheckedChange={(checked) => setAlsoBlock(checked === true)}
+                />
+                <Label htmlFor="reportAlsoBlock" className="font-normal">
+                  Bloquear también a {author.name}
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancelar</Button>
+            <Button type="submit" className="bg-red-600 hover:bg-red-700" disabled={sending || !reason}>
+              {sending ? 'Enviando...' : 'Denunciar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { JobType } from '@/contexts/JobContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { JobReviewsType, ReviewInput, getJobReviews, submitReview } from '@/lib/reviewService';
+import { getUserProfile } from '@/lib/userService';
+import { ReviewForm } from './ReviewForm';
+import { ReviewItem } from './ReviewItem';
+import { toast } from '@/components/ui/use-toast';
+
+type JobReviewSectionProps = {
+  job: JobType;
+};
+
+/**
+ * Sección de reseñas de un trabajo completado
+ * - Cliente y freelancer pueden valorarse una vez
+ * - Las reseñas se muestran cuando ambos valoran o vence el plazo
+ */
+export const JobReviewSection: React.FC<JobReviewSectionProps> = ({ job }) => {
+  const { currentUser } = useAuth();
+  const [jobReviews, setJobReviews] = useState<JobReviewsType | null>(null);
+  const [loadingReviews, setLoadingReviews] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [freelancerName, setFreelancerName] = useState('el freelancer');
+
+  const isOwner = currentUser?.id === job.userId;
+
+  const loadReviews = useCallback(async () => {
+    setLoadingReviews(true);
+    try {
+      setJobReviews(await getJobReviews(job.id));
+    } catch (error) {
+      console.error("Error al cargar reseñas:", error);
+    } finally {
+      setLoadingReviews(false);
+    }
+  }, [job.id]);
+
+  useEffect(() => {
+    if (currentUser) {
+      loadReviews();
+    }
+  }, [currentUser, loadReviews]);
+
+  // El cliente necesita el nombre del freelancer al que va a valorar
+  useEffect(() => {
+    if (isOwner && job.assignedTo) {
+      getUserProfile(job.assignedTo).then(profile => {
+        if (profile) setFreelancerName(profile.name);
+      });
+    }
+  }, [isOwner, job.assignedTo]);
+
+  const handleSubmitReview = async (data: ReviewInput) => {
+    setIsSubmitting(true);
+    try {
+      const review = await submitReview(job.id, data);
+      await loadReviews();
+      toast({
+        title: "Reseña enviada",
+        description: review.isRevealed
+          ? "Vuestras reseñas ya son visibles"
+          : "Se publicará cuando la otra parte te valore"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo enviar la reseña"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!currentUser || job.status !== 'completed' || !job.assignedTo) return null;
+
+  const reviews = jobReviews?.reviews || [];
+
+  // Sin reseñas visibles ni posibilidad de valorar no hay nada que mostrar
+  if (!loadingReviews && reviews.length === 0 && !jobReviews?.canReview) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Reseñas</CardTitle>
+        {jobReviews?.awaitingCounterpart && (
+          <CardDescription>
+            Tu reseña se publicará cuando la otra parte te valore o termine el plazo para valorar
+            {jobReviews.reviewDeadline
+              ? ` (${format(jobReviews.reviewDeadline, "d 'de' MMMM", { locale: es })})`
+              : ` (${jobReviews.reviewWindowDays} días desde que se completó el trabajo)`}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loadingReviews ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : (
+          <>
+            {reviews.map(review => (
+              <ReviewItem key={review.id} review={review} />
+            ))}
+            {jobReviews?.canReview && (
+              <ReviewForm
+                revieweeName={isOwner ? freelancerName : job.userName}
+                onSubmit={handleSubmitReview}
+                isSubmitting={isSubmitting}
+              />
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ReviewInput, ReviewScores } from '@/lib/reviewService';
+import { StarRating } from './StarRating';
+import { toast } from '@/components/ui/use-toast';
+
+const SCORE_LABELS: Record<keyof ReviewScores, string> = {
+  rating: 'Valoración general',
+  communication: 'Comunicación',
+  quality: 'Calidad',
+  timeliness: 'Puntualidad'
+};
+
+type ReviewFormProps = {
+  revieweeName: string;
+  onSubmit: (data: ReviewInput) => Promise<void>;
+  isSubmitting: boolean;
+};
+
+/**
+ * Formulario para valorar a la otra parte de un trabajo completado
+ */
+export const ReviewForm: React.FC<ReviewFormProps> = ({ revieweeName, onSubmit, isSubmitting }) => {
+  const [scores, setScores] = useState<ReviewScores>({
+    rating: 0,
+    communication: 0,
+    quality: 0,
+    timeliness: 0
+  });
+  const [comment, setComment] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (Object.values(scores).some(score => score === 0)) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Puntúa todas las categorías antes de enviar la reseña"
+      });
+      return;
+    }
+
+    await onSubmit({ ...scores, comment: comment.trim() || undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        ¿Qué tal ha sido trabajar con {revieweeName}?
+      </p>
+
+      <div className="space-y-2">
+        {(Object.keys(SCORE_LABELS) as (keyof ReviewScores)[]).map(field => (
+          <div key={field} className="flex justify-between items-center">
+            <Label className={field === 'rating' ? 'font-semibold' : ''}>{SCORE_LABELS[field]}</Label>
+            <StarRating
+              value={scores[field]}
+              onChange={(value) => setScores({ ...scores, [field]: value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-comment">Reseña</Label>
+        <Textarea
+          id="review-comment"
+          placeholder="Cuenta cómo ha ido el trabajo..."
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+        />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+      >
+        {isSubmitting ? 'Enviando...' : 'Enviar reseña'}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ReviewType } from '@/lib/reviewService';
+import { StarRating } from './StarRating';
+
+type ReviewItemProps = {
+  review: ReviewType;
+  showJob?: boolean;
+};
+
+/**
+ * Reseña con la valoración general, las puntuaciones por dimensión y el comentario
+ */
+export const ReviewItem: React.FC<ReviewItemProps> = ({ review, showJob = false }) => {
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString('es-ES', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2">
+      <div className="flex justify-between items-start">
+        <Link to={`/user/${review.reviewerId}`} className="flex items-center space-x-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={review.reviewerPhoto} alt={review.reviewerName} />
+            <AvatarFallback className="bg-wfc-purple-medium text-white">
+              {review.reviewerName?.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="font-medium text-sm dark:text-white">{review.reviewerName}</p>
+            <p className="text-xs text-gray-500">{formatDate(review.timestamp)}</p>
+          </div>
+        </Link>
+        <StarRating value={review.rating} size="sm" />
+      </div>
+
+      {showJob && review.jobTitle && (
+        <Link to={`/jobs/${review.jobId}`} className="text-xs text-wfc-purple hover:underline">
+          {review.jobTitle}
+        </Link>
+      )}
+
+      {review.comment && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{review.comment}</p>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-500 dark:text-gray-400">
+        <span>Comunicación: {review.communication}/5</span>
+        <span>Calidad: {review.quality}/5</span>
+        <span>Puntualidad: {review.timeliness}/5</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type StarRatingProps = {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md';
+};
+
+/**
+ * Estrellas de valoración (de 1 a 5)
+ * Si recibe onChange se puede usar para seleccionar una puntuación
+ */
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'md' }) => {
+  const iconSize = size === 'sm' ? 'h-3 w-3' : 'h-5 w-5';
+
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={cn(
+              iconSize,
+              star <= Math.round(value) ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            aria-label={`${star} estrellas`}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Valoración media compacta: estrella, media y número de reseñas
+ */
+export const RatingBadge = ({ average, count }: { average?: number; count?: number }) => {
+  if (!count) {
+    return <span className="text-xs text-gray-500 dark:text-gray-400">Sin valoraciones</span>;
+  }
+
+  return (
+    <span className="inline-flex items-center text-xs text-gray-700 dark:text-gray-300">
+      <Star className="h-3 w-3 mr-1 text-yellow-400 fill-yellow-400" />
+      {average?.toFixed(1)} ({count})
+    </span>
+  );
+};
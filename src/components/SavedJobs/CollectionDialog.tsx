@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { SavedJobCollectionType } from '@/lib/savedJobService';
+
+interface CollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  collection?: SavedJobCollectionType; // Lista a renombrar (sin ella se crea una nueva)
+  onSubmit: (name: string) => Promise<void>;
+}
+
+/**
+ * Diálogo para crear o renombrar una lista de propuestas guardadas
+ */
+export const CollectionDialog = ({ open, onOpenChange, collection, onSubmit }: CollectionDialogProps) => {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Cada apertura empieza con el nombre actual de la lista
+  useEffect(() => {
+    if (open) {
+      setName(collection?.name || '');
+    }
+  }, [open, collection]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(name.trim());
+      onOpenChange(false);
+    } catch (error) {
+      // Quien abre el diálogo avisa del error; el diálogo sigue abierto para corregir el nombre
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{collection ? 'Renombrar lista' : 'Nueva lista'}</DialogTitle>
+            <DialogDescription>
+              Organiza tus propuestas guardadas en listas, por ejemplo "Shortlist Q4"
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            className="my-4"
+            placeholder="Nombre de la lista"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            autoFocus
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="submit"
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+              disabled={isSaving || !name.trim()}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {collection ? 'Guardar' : 'Crear'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
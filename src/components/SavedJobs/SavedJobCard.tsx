@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookmarkX } from 'lucide-react';
+import { JOB_STATUS_LABELS } from '@/lib/jobService';
+import { SavedJobChanges, SavedJobCollectionType, SavedJobType } from '@/lib/savedJobService';
+
+// Valor del selector para las propuestas sin lista
+const NO_COLLECTION = 'none';
+
+type SavedJobCardProps = {
+  savedJob: SavedJobType;
+  collections: SavedJobCollectionType[];
+  onChange: (changes: SavedJobChanges) => void;
+  onRemove: () => void;
+};
+
+/**
+ * Propuesta guardada con su lista y su nota privada
+ */
+export const SavedJobCard = ({ savedJob, collections, onChange, onRemove }: SavedJobCardProps) => {
+  const { job } = savedJob;
+  const [note, setNote] = useState(savedJob.note || '');
+
+  // La nota guardada manda cuando cambia desde fuera (al guardar o al recargar)
+  useEffect(() => {
+    setNote(savedJob.note || '');
+  }, [savedJob.note]);
+
+  const hasNoteChanges = note.trim() !== (savedJob.note || '');
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <Link to={`/jobs/${job.id}`} className="font-medium hover:underline dark:text-white">
+              {job.title}
+            </Link>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {job.userName} · ${job.budget} · Guardada {formatDistanceToNow(savedJob.savedAt, { addSuffix: true, locale: es })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Badge variant="outline">{JOB_STATUS_LABELS[job.status]}</Badge>
+            <Button variant="ghost" size="icon" title="Quitar de guardados" onClick={onRemove}>
+              <BookmarkX className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Select
+          value={savedJob.collectionId || NO_COLLECTION}
+          onValueChange={(value) => onChange({ collectionId: value === NO_COLLECTION ? null : value })}
+        >
+          <SelectTrigger className="w-full sm:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_COLLECTION}>Sin lista</SelectItem>
+            {collections.map(collection => (
+              <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          <Textarea
+            rows={2}
+            maxLength={1000}
+            placeholder="Añade una nota privada (solo la ves tú)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          {hasNoteChanges && (
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setNote(savedJob.note || '')}>
+                Descartar
+              </Button>
+              <Button
+                size="sm"
+                className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                onClick={() => onChange({ note: note.trim() || null })}
+              >
+                Guardar nota
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
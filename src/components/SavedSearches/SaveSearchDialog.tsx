@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { SavedSearchFilters, createSavedSearch } from '@/lib/savedSearchService';
+import { toast } from '@/components/ui/use-toast';
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: SavedSearchFilters;
+}
+
+/**
+ * Diálogo para guardar la combinación actual de filtros con un nombre
+ */
+export const SaveSearchDialog = ({ open, onOpenChange, filters }: SaveSearchDialogProps) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await createSavedSearch(name.trim(), filters);
+      await queryClient.invalidateQueries({ queryKey: ['savedSearches'] });
+      toast({
+        title: "Búsqueda guardada",
+        description: "Te avisaremos cuando se publiquen propuestas que coincidan"
+      });
+      setName('');
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar la búsqueda"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Guardar búsqueda</DialogTitle>
+            <DialogDescription>
+              Verás en el panel las propuestas nuevas que coincidan con estos filtros
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            className="my-4"
+            placeholder="Nombre de la búsqueda"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="submit"
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+              disabled={isSaving || !name.trim()}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
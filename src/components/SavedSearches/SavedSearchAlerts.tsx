@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/components/ui/use-toast';
+import { subscribeToSavedSearchMatches } from '@/lib/savedSearchService';
+
+/**
+ * Avisos en tiempo real de propuestas nuevas que coinciden con una búsqueda guardada
+ * No renderiza nada: escucha el socket y muestra un toast con enlace a la propuesta
+ */
+export const SavedSearchAlerts = () => {
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    return subscribeToSavedSearchMatches((match) => {
+      // Actualizar el contador de nuevas del panel
+      queryClient.invalidateQueries({ queryKey: ['savedSearches'] });
+
+      toast({
+        title: `Nueva propuesta en "${match.savedSearchName}"`,
+        description: `${match.job.title} · $${match.job.budget}`,
+        action: (
+          <ToastAction altText="Ver propuesta" onClick={() => navigate(`/jobs/${match.job.id}`)}>
+            Ver
+          </ToastAction>
+        )
+      });
+    });
+  }, [currentUser, navigate, queryClient]);
+
+  return null;
+};
@@ -0,0 +1,134 @@
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Bookmark, Trash2 } from 'lucide-react';
+import {
+  SavedSearchType,
+  deleteSavedSearch,
+  getSavedSearchUrl,
+  getSavedSearches,
+  markSavedSearchViewed
+} from '@/lib/savedSearchService';
+import { toast } from '@/components/ui/use-toast';
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Abiertas',
+  assigned: 'Asignadas',
+  'in-progress': 'En progreso',
+  completed: 'Completadas',
+  cancelled: 'Canceladas'
+};
+
+/**
+ * Resumen legible de los filtros de una búsqueda guardada
+ */
+const describeFilters = (savedSearch: SavedSearchType) => {
+  const { search, category, status, skills, minBudget, maxBudget } = savedSearch.filters;
+  const parts: string[] = [];
+
+  if (search) parts.push(`"${search}"`);
+  if (category) parts.push(category);
+  if (status) parts.push(STATUS_LABELS[status] || status);
+  if (skills && skills.length > 0) parts.push(skills.join(', '));
+  if (minBudget !== undefined || maxBudget !== undefined) {
+    parts.push(`$${minBudget ?? 0} - ${maxBudget !== undefined ? `$${maxBudget}` : 'sin límite'}`);
+  }
+
+  return parts.join(' · ');
+};
+
+/**
+ * Lista de búsquedas guardadas del panel con las propuestas nuevas desde la última visita
+ */
+export const SavedSearchList = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: savedSearches = [], isLoading } = useQuery({
+    queryKey: ['savedSearches'],
+    queryFn: getSavedSearches
+  });
+
+  // Abrir la búsqueda reinicia su contador de nuevas
+  const handleOpen = async (savedSearch: SavedSearchType) => {
+    navigate(getSavedSearchUrl(savedSearch.filters));
+    try {
+      await markSavedSearchViewed(savedSearch.id);
+      queryClient.invalidateQueries({ queryKey: ['savedSearches'] });
+    } catch (error) {
+      console.error("Error al marcar la búsqueda como vista:", error);
+    }
+  };
+
+  const handleDelete = async (savedSearchId: string) => {
+    try {
+      await deleteSavedSearch(savedSearchId);
+      queryClient.invalidateQueries({ queryKey: ['savedSearches'] });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo eliminar la búsqueda"
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Cargando búsquedas...</div>;
+  }
+
+  if (savedSearches.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-gray-500">No tienes búsquedas guardadas</p>
+        <p className="text-sm text-gray-400 mt-1">Guarda tus filtros desde la página de propuestas</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {savedSearches.map(savedSearch => (
+        <Card
+          key={savedSearch.id}
+          className="hover:border-wfc-purple transition-colors cursor-pointer"
+          onClick={() => handleOpen(savedSearch)}
+        >
+          <CardContent className="py-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center min-w-0">
+                <Bookmark className="h-5 w-5 text-wfc-purple flex-shrink-0" />
+                <div className="ml-3 min-w-0">
+                  <h3 className="font-medium truncate">{savedSearch.name}</h3>
+                  <p className="text-sm text-gray-600 truncate">{describeFilters(savedSearch)}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {savedSearch.newCount > 0 ? (
+                  <Badge className="bg-wfc-purple hover:bg-wfc-purple-medium">
+                    {savedSearch.newCount} {savedSearch.newCount === 1 ? 'nueva' : 'nuevas'} desde tu última visita
+                  </Badge>
+                ) : (
+                  <span className="text-xs text-gray-500">Sin novedades</span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-gray-500 hover:text-red-600"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(savedSearch.id);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
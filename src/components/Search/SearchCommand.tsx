@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Briefcase, Loader2, MessageCircle, MessageSquare, User } from 'lucide-react';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { useDebounce } from '@/hooks/use-debounce';
+import { SearchResultType, SearchResults, searchAll, splitHighlight } from '@/lib/searchService';
+
+type SearchCommandProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Longitud mínima del texto para lanzar la búsqueda
+const MIN_QUERY_LENGTH = 2;
+
+// Grupos de resultados en el orden en que se muestran
+const RESULT_GROUPS: { key: keyof SearchResults; heading: string; icon: React.ReactNode }[] = [
+  { key: 'jobs', heading: 'Propuestas', icon: <Briefcase className="mr-2 h-4 w-4" /> },
+  { key: 'messages', heading: 'Mensajes', icon: <MessageCircle className="mr-2 h-4 w-4" /> },
+  { key: 'comments', heading: 'Comentarios', icon: <MessageSquare className="mr-2 h-4 w-4" /> },
+  { key: 'users', heading: 'Personas', icon: <User className="mr-2 h-4 w-4" /> }
+];
+
+/**
+ * Texto con las coincidencias de la búsqueda resaltadas
+ */
+const HighlightedText: React.FC<{ text: string; className?: string }> = ({ text, className }) => (
+  <span className={className}>
+    {splitHighlight(text).map((part, index) => part.highlighted ? (
+      <mark key={index} className="bg-wfc-purple/20 text-inherit rounded-sm px-0.5">{part.text}</mark>
+    ) : (
+      <React.Fragment key={index}>{part.text}</React.Fragment>
+    ))}
+  </span>
+);
+
+/**
+ * Paleta de búsqueda global (Ctrl/⌘ + K)
+ * Busca en propuestas, mensajes, comentarios y perfiles; el servidor ordena por relevancia
+ */
+export const SearchCommand: React.FC<SearchCommandProps> = ({ open, onOpenChange }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebounce(query.trim());
+  const canSearch = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const { data: results, isFetching } = useQuery({
+    queryKey: ['search', debouncedQuery],
+    queryFn: () => searchAll(debouncedQuery),
+    enabled: open && canSearch,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000
+  });
+
+  const hasResults = !!results && RESULT_GROUPS.some(group => results[group.key].length > 0);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setQuery('');
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (result: SearchResultType) => {
+    handleOpenChange(false);
+    navigate(result.link);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+        {/* El filtrado lo hace el servidor: cmdk no debe volver a filtrar los resultados */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            placeholder="Buscar propuestas, mensajes, comentarios o personas..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[420px]">
+            {!canSearch ? (
+              <p className="py-6 text-center text-sm text-gray-500">
+                Escribe al menos {MIN_QUERY_LENGTH} caracteres para buscar
+              </p>
+            ) : isFetching && !hasResults ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />
+              </div>
+            ) : (
+              <CommandEmpty>No se encontraron resultados</CommandEmpty>
+            )}
+
+            {canSearch && results && RESULT_GROUPS.map(group => results[group.key].length > 0 && (
+              <CommandGroup key={group.key} heading={group.heading}>
+                {results[group.key].map(result => (
+                  <CommandItem
+                    key={`${result.kind}-${result.id}`}
+                    value={`${result.kind}-${result.id}`}
+                    onSelect={() => handleSelect(result)}
+                    className="items-start"
+                  >
+                    {group.icon}
+                    <div className="flex-1 min-w-0">
+                      <HighlightedText text={result.title} className="block truncate text-sm" />
+                      {result.subtitle && (
+                        <span className="block truncate text-xs text-gray-500">{result.subtitle}</span>
+                      )}
+                      {result.snippet && (
+                        <HighlightedText text={result.snippet} className="block text-xs text-gray-500 line-clamp-2" />
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
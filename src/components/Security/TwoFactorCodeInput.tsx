@@ -0,0 +1,40 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { TOTP_CODE_LENGTH } from '@/lib/twoFactorService';
+
+type TwoFactorCodeInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+};
+
+const HALF = TOTP_CODE_LENGTH / 2;
+
+/**
+ * Campo para el código de 6 dígitos de la aplicación de autenticación
+ */
+export const TwoFactorCodeInput = ({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) => (
+  <InputOTP
+    maxLength={TOTP_CODE_LENGTH}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      {Array.from({ length: HALF }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      {Array.from({ length: HALF }, (_, index) => (
+        <InputOTPSlot key={index} index={HALF + index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, Download, KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+import { TwoFactorCodeInput } from './TwoFactorCodeInput';
+import {
+  TOTP_CODE_LENGTH,
+  TwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup
+} from '@/lib/twoFactorService';
+import { toast } from '@/components/ui/use-toast';
+
+// Acciones que piden confirmar con un código actual
+type ConfirmAction = 'disable' | 'regenerate';
+
+const CONFIRM_LABELS: Record<ConfirmAction, { title: string; description: string; button: string }> = {
+  disable: {
+    title: 'Desactivar la verificación en dos pasos',
+    description: 'Introduce un código de tu aplicación de autenticación o uno de tus códigos de recuperación.',
+    button: 'Desactivar'
+  },
+  regenerate: {
+    title: 'Nuevos códigos de recuperación',
+    description: 'Los códigos anteriores dejarán de funcionar. Introduce un código de tu aplicación para continuar.',
+    button: 'Generar códigos'
+  }
+};
+
+const showError = (error: unknown, fallback: string) => {
+  toast({
+    variant: "destructive",
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback
+  });
+};
+
+/**
+ * Activación y gestión de la verificación en dos pasos con una aplicación de autenticación
+ */
+export const TwoFactorSettings = () => {
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['twoFactor'],
+    queryFn: getTwoFactorStatus
+  });
+
+  const refreshStatus = () => queryClient.invalidateQueries({ queryKey: ['twoFactor'] });
+
+  const handleStartSetup = async () => {
+    setSaving(true);
+    try {
+      setSetup(await startTwoFactorSetup());
+      setCode('');
+    } catch (error) {
+      showError(error, "No se pudo iniciar la configuración");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = async (value = code) => {
+    if (value.length < TOTP_CODE_LENGTH) return;
+    setSaving(true);
+    try {
+      setRecoveryCodes(await enableTwoFactor(value));
+      setSetup(null);
+      refreshStatus();
+      toast({
+        title: "Verificación en dos pasos activada",
+        description: "Guarda tus códigos de recuperación en un lugar seguro"
+      });
+    } catch (error) {
+      showError(error, "No se pudo activar la verificación en dos pasos");
+    } finally {
+      setCode('');
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirmAction || !code.trim()) return;
+    setSaving(true);
+    try {
+      if (confirmAction === 'disable') {
+        await disableTwoFactor(code.trim());
+        toast({
+          title: "Verificación en dos pasos desactivada",
+          description: "Tu cuenta ya solo pide la contraseña al iniciar sesión"
+        });
+      } else {
+        setRecoveryCodes(await regenerateRecoveryCodes(code.trim()));
+      }
+      setConfirmAction(null);
+      refreshStatus();
+    } catch (error) {
+      showError(error, "Código de verificación incorrecto");
+    } finally {
+      setCode('');
+      setSaving(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: "Códigos copiados" });
+    } catch (error) {
+      showError(error, "No se pudieron copiar los códigos");
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Códigos de recuperación de WorkFlowConnect\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'workflowconnect-codigos-recuperacion.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Verificación en dos pasos
+          {status?.enabled && (
+            <Badge className="bg-green-600 hover:bg-green-600">
+              <ShieldCheck className="h-3 w-3 mr-1" />
+              Activada
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Además de tu contraseña, pide un código de una aplicación de autenticación al iniciar sesión
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : status.enabled ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              Te quedan {status.recoveryCodesRemaining} {status.recoveryCodesRemaining === 1 ? 'código' : 'códigos'} de recuperación
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setConfirmAction('regenerate')}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                Nuevos códigos
+              </Button>
+              <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setConfirmAction('disable')}>
+                Desactivar
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+              <li>Escanea el código QR con tu aplicación de autenticación</li>
+              <li>Introduce el código de 6 dígitos que te muestra para confirmar</li>
+            </ol>
+            <div className="flex flex-col sm:flex-row items-center gap-6">
+              <img src={setup.qrCode} alt="Código QR para la aplicación de autenticación" className="h-44 w-44 rounded-md border" />
+              <div className="space-y-4 min-w-0">
+                <div>
+                  <p className="text-xs text-gray-500">¿No puedes escanearlo? Introduce esta clave:</p>
+                  <code className="block break-all text-sm font-mono mt-1">{setup.secret}</code>
+                </div>
+                <TwoFactorCodeInput value={code} onChange={setCode} onComplete={handleEnable} disabled={saving} />
+                <div className="flex gap-2">
+                  <Button
+                    className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                    disabled={saving || code.length < TOTP_CODE_LENGTH}
+                    onClick={() => handleEnable()}
+                  >
+                    {saving ? 'Verificando...' : 'Activar'}
+                  </Button>
+                  <Button variant="ghost" onClick={() => setSetup(null)}>Cancelar</Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <Button className="bg-wfc-purple hover:bg-wfc-purple-medium" disabled={saving} onClick={handleStartSetup}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Configurar verificación en dos pasos
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!confirmAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setConfirmAction(null);
+            setCode('');
+          }
+        }}
+      >
+        <DialogContent>
+          {confirmAction && (
+            <form onSubmit={handleConfirm}>
+              <DialogHeader>
+                <DialogTitle>{CONFIRM_LABELS[confirmAction].title}</DialogTitle>
+                <DialogDescription>{CONFIRM_LABELS[confirmAction].description}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 py-4">
+                <Label htmlFor="twoFactorCode">Código</Label>
+                <Input
+                  id="twoFactorCode"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setConfirmAction(null)}>Cancelar</Button>
+                <Button
+                  type="submit"
+                  disabled={saving || !code.trim()}
+                  className={confirmAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-wfc-purple hover:bg-wfc-purple-medium'}
+                >
+                  {CONFIRM_LABELS[confirmAction].button}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Códigos de recuperación</DialogTitle>
+            <DialogDescription>
+              Cada código sirve una sola vez para entrar si pierdes el acceso a tu aplicación de autenticación.
+              Guárdalos ahora: no se volverán a mostrar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 dark:bg-gray-800 p-4 font-mono text-sm">
+            {recoveryCodes?.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={handleCopyCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar
+            </Button>
+            <Button variant="outline" onClick={handleDownloadCodes}>
+              <Download className="h-4 w-4 mr-2" />
+              Descargar
+            </Button>
+            <Button className="bg-wfc-purple hover:bg-wfc-purple-medium" onClick={() => setRecoveryCodes(null)}>
+              Ya los he guardado
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
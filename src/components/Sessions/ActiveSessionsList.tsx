@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { getSessions, revokeOtherSessions, revokeSession } from '@/lib/sessionService';
+import { toast } from '@/components/ui/use-toast';
+
+/**
+ * Dispositivos con la sesión iniciada; permite cerrar cada uno o todos excepto el actual
+ */
+export const ActiveSessionsList = () => {
+  const queryClient = useQueryClient();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isConfirmingRevokeAll, setIsConfirmingRevokeAll] = useState(false);
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: getSessions
+  });
+
+  const otherSessionsCount = sessions.filter(session => !session.current).length;
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    try {
+      await revokeSession(sessionId);
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast({
+        title: "Sesión cerrada",
+        description: "El dispositivo tendrá que volver a iniciar sesión"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo cerrar la sesión"
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      const revokedCount = await revokeOtherSessions();
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast({
+        title: "Sesiones cerradas",
+        description: `Se ${revokedCount === 1 ? 'ha cerrado 1 sesión' : `han cerrado ${revokedCount} sesiones`}`
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudieron cerrar las sesiones"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Sesiones</CardTitle>
+          <CardDescription>Dispositivos en los que has iniciado sesión</CardDescription>
+        </div>
+        {otherSessionsCount > 0 && (
+          <Button variant="outline" onClick={() => setIsConfirmingRevokeAll(true)}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Cerrar las demás sesiones
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center min-w-0">
+                  {session.isMobile ? (
+                    <Smartphone className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                  ) : (
+                    <Monitor className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                  )}
+                  <div className="ml-3 min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {session.device}
+                      {session.current && (
+                        <Badge className="ml-2 bg-wfc-purple hover:bg-wfc-purple-medium">Este dispositivo</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {session.ip && `${session.ip} · `}
+                      Activa {formatDistanceToNow(session.lastUsedAt, { addSuffix: true, locale: es })}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 flex-shrink-0"
+                    disabled={revokingId === session.id}
+                    onClick={() => handleRevoke(session.id)}
+                  >
+                    {revokingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Cerrar sesión'}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isConfirmingRevokeAll} onOpenChange={setIsConfirmingRevokeAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cerrar las demás sesiones</AlertDialogTitle>
+            <AlertDialogDescription>
+              Se cerrará la sesión en {otherSessionsCount === 1 ? 'otro dispositivo' : `otros ${otherSessionsCount} dispositivos`}. Esta sesión seguirá abierta.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevokeOthers}>Cerrar sesiones</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
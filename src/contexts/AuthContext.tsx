@@ -3,15 +3,18 @@
  * Contexto de Autenticación
  * 
  * Este contexto proporciona funcionalidad de autenticación para la aplicación, incluyendo:
- * - Manejo de inicio de sesión y registro de usuarios
+ * - Manejo de inicio de sesión (con verificación en dos pasos opcional) y registro de usuarios
  * - Gestión del estado del usuario actual
- * - Actualización del perfil de usuario
+ * - Actualización del perfil de usuario (en cola si no hay conexión)
+ * - Sincronización de los cambios hechos sin conexión mientras hay sesión
  * - Cierre de sesión
  */
 
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { toast } from "@/components/ui/use-toast";
-import { apiRequest } from "@/lib/api";
+import { apiUpload, isNetworkError } from "@/lib/api";
+import { ApiResponse, callApi } from "@/lib/apiClient";
+import { mapApiUser } from "@/lib/userService";
 import { UserType } from "@/contexts/DataContext";
 import { 
   saveToken, 
@@ -20,17 +23,27 @@ import {
   saveUserData, 
   removeUserData, 
   getUserData,
-  clearSession 
+  clearSession,
+  onSessionExpired
 } from "@/lib/authService";
 import { disconnectSocket } from '@/lib/socket';
+import { clearOfflineData } from '@/lib/offlineStore';
+import { ProfileChanges, onMutationSettled, queueMutation, startOfflineSync } from '@/lib/offlineQueue';
+
+// Segundo paso pendiente cuando el usuario tiene activa la verificación en dos pasos
+export type TwoFactorChallenge = {
+  challengeToken: string;
+};
 
 interface AuthContextType {
   currentUser: UserType | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (email: string, password: string, name: string, role?: 'freelancer' | 'client') => Promise<void>;
   logout: () => Promise<void>;
-  updateUserProfile: (data: Partial<UserType>) => Promise<void>;
+  refreshCurrentUser: () => Promise<void>;
+  updateUserProfile: (data: Partial<UserType>) => Promise<'saved' | 'queued'>; // 'queued': sin conexión, se enviará al recuperarla
   uploadProfilePhoto: (file: File) => Promise<string>;
 }
 
@@ -64,13 +77,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const token = getToken();
       if (token) {
         try {
-          const response = await apiRequest('/auth/verify');
-          const user = response.user;
+          const response = await callApi('auth.verifySession');
+          const user = mapApiUser(response.user);
           setCurrentUser(user);
           saveUserData(user);
         } catch (error) {
           console.error('Error al verificar sesión:', error);
-          clearSession();
+          // Sin conexión se mantiene la sesión guardada para poder trabajar con la caché
+          if (!isNetworkError(error)) clearSession();
         }
       }
       setLoading(false);
@@ -79,24 +93,78 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     verifySession();
   }, []);
 
+  useEffect(() => {
+    // La sesión caducó o se cerró desde otro dispositivo y no se pudo renovar
+    return onSessionExpired((reason) => {
+      disconnectSocket();
+      setCurrentUser(null);
+      toast({
+        variant: "destructive",
+        title: "Sesión finalizada",
+        description: reason || "Tu sesión ha caducado o se ha cerrado. Vuelve a iniciar sesión.",
+      });
+    });
+  }, []);
+
+  // Enviar los cambios hechos sin conexión mientras haya sesión
+  const currentUserId = currentUser?.id;
+  useEffect(() => {
+    if (!currentUserId) return;
+    return startOfflineSync(currentUserId);
+  }, [currentUserId]);
+
+  useEffect(() => {
+    return onMutationSettled((settled) => {
+      if (settled.type !== 'profile') return;
+      
+      if (settled.result) {
+        const updatedUser = mapApiUser(settled.result);
+        saveUserData(updatedUser);
+        setCurrentUser(updatedUser);
+        return;
+      }
+      
+      // Edición descartada: se vuelve a los datos del servidor
+      callApi('auth.verifySession')
+        .then(response => {
+          const user = mapApiUser(response.user);
+          saveUserData(user);
+          setCurrentUser(user);
+        })
+        .catch(error => console.error('Error al recargar el perfil:', error));
+    });
+  }, []);
+
+  /**
+   * Guardar tokens y datos de usuario de una sesión recién abierta
+   */
+  const startSession = (session: ApiResponse<'auth.register'>) => {
+    const user = mapApiUser(session.user);
+    saveToken(session.token, session.refreshToken);
+    saveUserData(user);
+    setCurrentUser(user);
+  };
+
   /**
    * Función para iniciar sesión
+   * No activa `loading` global: la página de login debe conservar su estado para el segundo paso
+   * @returns El desafío del segundo paso si el usuario tiene la verificación en dos pasos activa
    */
   const login = async (email: string, password: string) => {
-    setLoading(true);
     try {
-      const response = await apiRequest('/auth/login', 'POST', { email, password });
-      const { user, token } = response;
+      const response = await callApi('auth.login', { body: { email, password } });
       
-      // Guardar token y datos de usuario
-      saveToken(token);
-      saveUserData(user);
-      setCurrentUser(user);
+      if (response.twoFactorRequired && typeof response.challengeToken === 'string') {
+        return { challengeToken: response.challengeToken };
+      }
+      
+      startSession(response);
       
       toast({
         title: "Inicio de sesión exitoso",
         description: "Bienvenido a WorkFlowConnect",
       });
+      return null;
     } catch (error) {
       console.error('Error de inicio de sesión:', error);
       toast({
@@ -105,30 +173,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         description: error instanceof Error ? error.message : "Error al iniciar sesión",
       });
       throw error;
-    } finally {
-      setLoading(false);
     }
   };
 
+  /**
+   * Segundo paso del inicio de sesión con un código de la aplicación o de recuperación
+   * Los errores se muestran en el propio formulario para poder reintentar
+   */
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const response = await callApi('auth.verifyTwoFactorLogin', { body: { challengeToken, code } });
+    startSession(response);
+    
+    toast({
+      title: "Inicio de sesión exitoso",
+      description: response.recoveryCodesRemaining !== undefined
+        ? `Has usado un código de recuperación. Te quedan ${response.recoveryCodesRemaining}.`
+        : "Bienvenido a WorkFlowConnect",
+    });
+  };
+
   /**
    * Función para registrar nuevo usuario
    */
   const register = async (email: string, password: string, name: string, role: 'freelancer' | 'client' = 'freelancer') => {
     setLoading(true);
     try {
-      const response = await apiRequest('/auth/register', 'POST', { 
-        email, 
-        password, 
-        name,
-        role 
+      const response = await callApi('auth.register', {
+        body: { email, password, name, role }
       });
       
-      const { user, token } = response;
-      
-      // Guardar token y datos de usuario
-      saveToken(token);
-      saveUserData(user);
-      setCurrentUser(user);
+      startSession(response);
       
       toast({
         title: "Registro exitoso",
@@ -152,14 +226,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    */
   const logout = async () => {
     try {
+      // Desconectar el socket antes de que el servidor cierre la sesión
+      disconnectSocket();
+      
       // Llamar al endpoint de logout
       if (getToken()) {
-        await apiRequest('/auth/logout', 'POST');
+        await callApi('auth.logout');
       }
       
       // Limpiar datos locales
       clearSession();
-      disconnectSocket();
+      await clearOfflineData();
       setCurrentUser(null);
       
       toast({
@@ -170,6 +247,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.error('Error al cerrar sesión:', error);
       // Aún así, limpiamos los datos locales
       clearSession();
+      await clearOfflineData();
       setCurrentUser(null);
       
       toast({
@@ -180,15 +258,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * Volver a cargar los datos del usuario actual desde el servidor (ej: tras confirmar el correo)
+   */
+  const refreshCurrentUser = async () => {
+    if (!getToken()) return;
+    
+    const response = await callApi('auth.verifySession');
+    const user = mapApiUser(response.user);
+    saveUserData(user);
+    setCurrentUser(user);
+  };
+
   /**
    * Función para actualizar el perfil
+   * Sin conexión los cambios se aplican al momento y se guardan en la cola junto
+   * con los valores anteriores, para detectar si el perfil cambia en otro dispositivo
    */
-  const updateUserProfile = async (data: Partial<UserType>) => {
+  const updateUserProfile = async (data: Partial<UserType>): Promise<'saved' | 'queued'> => {
     if (!currentUser) throw new Error('No hay usuario autenticado');
     
     try {
-      const response = await apiRequest('/users/profile', 'PUT', data);
-      const updatedUser = response.user;
+      const response = await callApi('users.updateProfile', { body: data });
+      const updatedUser = mapApiUser(response.user);
       
       saveUserData(updatedUser);
       setCurrentUser(updatedUser);
@@ -197,7 +289,25 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         title: "Perfil actualizado",
         description: "Tus cambios han sido guardados",
       });
+      return 'saved';
     } catch (error) {
+      if (isNetworkError(error)) {
+        const base = Object.fromEntries(
+          Object.keys(data).map(field => [field, currentUser[field as keyof UserType]])
+        ) as ProfileChanges;
+        await queueMutation('profile', { changes: data as ProfileChanges, base });
+        
+        const updatedUser = { ...currentUser, ...data };
+        saveUserData(updatedUser);
+        setCurrentUser(updatedUser);
+        
+        toast({
+          title: "Cambios pendientes",
+          description: "Tu perfil se actualizará cuando vuelvas a tener conexión",
+        });
+        return 'queued';
+      }
+      
       toast({
         variant: "destructive",
         title: "Error",
@@ -218,22 +328,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const formData = new FormData();
       formData.append('photo', file);
       
-      // Implementar la lógica de subida usando fetch directamente, ya que apiRequest es para JSON
-      const token = getToken();
-      const response = await fetch(`http://localhost:5000/api/users/upload-photo`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
-        body: formData
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Error al subir la foto');
-      }
-      
-      const data = await response.json();
+      const data = await apiUpload('/users/profile/photo', formData);
       const photoURL = data.photoURL;
       
       // Actualizar usuario con la nueva foto
@@ -264,8 +359,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         currentUser, 
         loading, 
         login, 
+        verifyTwoFactor,
         register, 
         logout,
+        refreshCurrentUser,
         updateUserProfile,
         uploadProfilePhoto
       }}
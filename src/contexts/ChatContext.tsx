@@ -3,38 +3,100 @@
  * Contexto de Chat
  * 
  * Este archivo gestiona toda la funcionalidad de chat incluyendo:
- * - Simulación de tiempo real de chats usando un servicio temporal
- * - Envío y recepción de mensajes
+ * - Carga de chats desde la API REST del servidor
+ * - Envío y recepción de mensajes en tiempo real mediante Socket.IO
+ * - Estado de conexión de los usuarios, indicador de escritura y recibos de lectura
+ * - Historial de mensajes paginado y salto a un mensaje concreto
+ * - Edición, eliminación para todos y reacciones de los mensajes
  * - Creación de nuevos chats
  * - Gestión del estado del chat activo
+ * 
+ * La lista de chats vive en la caché de React Query (chatKeys.list) y los eventos
+ * del socket la actualizan directamente. Los mensajes enviados se muestran al
+ * momento y se retiran si el servidor los rechaza; sin conexión quedan como
+ * pendientes hasta que se envían desde la cola (ver offlineQueue).
  */
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './AuthContext';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
 import { 
   getChats as getServiceChats,
+  getChatById as getServiceChatById,
+  getChatMessages as getServiceChatMessages,
   createChat as createServiceChat,
   sendMessage as sendServiceMessage,
+  editMessage as editServiceMessage,
+  deleteMessage as deleteServiceMessage,
+  toggleMessageReaction,
   addParticipantToChat as addServiceParticipantToChat,
-  setupChatListener
+  markChatAsRead,
+  sendTyping,
+  sendStopTyping,
+  subscribeToChatEvents,
+  mapApiMessage,
+  ApiChatMessage
 } from '@/lib/chatService';
+import { onMutationSettled } from '@/lib/offlineQueue';
+import { chatKeys } from '@/lib/queryKeys';
 import { toast } from '@/components/ui/use-toast';
 
 // Definición de tipos para mensajes y chats
+export type MessageReceiptType = {
+  userId: string;       // Destinatario del mensaje
+  deliveredAt?: number; // Cuándo le llegó (timestamp)
+  readAt?: number;      // Cuándo lo leyó (timestamp)
+};
+
+export type MessageReactionType = {
+  emoji: string;        // Emoji de la reacción
+  userIds: string[];    // Usuarios que han reaccionado con él
+};
+
 export type MessageType = {
   id: string;           // ID único del mensaje
-  senderId: string;     // ID del usuario que envió el mensaje
+  chatId?: string;      // ID del chat al que pertenece el mensaje
+  senderId: string;     // ID del usuario que envió el mensaje ("system" para mensajes del sistema)
+  senderName?: string;  // Nombre del remitente (opcional)
+  senderPhoto?: string; // Foto del remitente (opcional)
   content: string;      // Contenido del mensaje
   timestamp: number;    // Timestamp cuando se envió el mensaje
+  receipts?: MessageReceiptType[]; // Entrega y lectura por destinatario (vacío en mensajes del sistema)
+  reactions?: MessageReactionType[]; // Reacciones agrupadas por emoji
+  editedAt?: number;    // Última edición (timestamp)
+  deletedAt?: number;   // Eliminado para todos (timestamp); el contenido queda vacío
+  pending?: boolean;    // Escrito sin conexión, pendiente de enviar
+};
+
+export type ChatParticipantType = {
+  id: string;           // ID del usuario participante
+  name: string;         // Nombre del participante
+  photoURL?: string;    // Foto de perfil (opcional)
+  isOnline?: boolean;   // Estado de conexión según el servidor
+  lastSeen?: number;    // Última conexión (timestamp)
+};
+
+export type TypingUserType = {
+  userId: string;       // Usuario que está escribiendo
+  userName?: string;    // Nombre para mostrar en el indicador
+};
+
+export type PresenceType = {
+  isOnline: boolean;    // Conectado en este momento
+  lastSeen?: number;    // Última conexión (timestamp)
 };
 
 export type ChatType = {
   id: string;           // ID único del chat
   name: string;         // Nombre del chat (para chats grupales)
   participants: string[]; // Array de IDs de usuarios participantes
+  participantDetails?: ChatParticipantType[]; // Información de los participantes
   messages: MessageType[]; // Array de mensajes en el chat
   isGroup: boolean;     // Indica si es un chat grupal o privado
   lastMessage?: MessageType; // Último mensaje enviado (para mostrar vistas previas)
+  hasOlderMessages?: boolean; // Quedan mensajes anteriores por cargar
+  hasNewerMessages?: boolean; // Los mensajes cargados no llegan hasta el presente (tras saltar a un mensaje)
 };
 
 // Interfaz del contexto de chat definiendo funciones y estado disponibles
@@ -43,12 +105,21 @@ interface ChatContextType {
   activeChat: ChatType | null; // Chat actualmente seleccionado
   setActiveChat: (chat: ChatType | null) => void; // Función para cambiar el chat activo
   sendMessage: (chatId: string, content: string) => void; // Enviar mensaje a un chat
+  editMessage: (chatId: string, messageId: string, content: string) => Promise<boolean>; // Editar un mensaje propio
+  deleteMessage: (chatId: string, messageId: string) => Promise<boolean>; // Eliminar un mensaje propio para todos
+  toggleReaction: (chatId: string, messageId: string, emoji: string) => Promise<void>; // Añadir o quitar una reacción
   createChat: (participantIds: string[], name?: string) => void; // Crear un nuevo chat
   createPrivateChat: (participantId: string) => Promise<void>; // Crear un chat privado 1:1
   getChat: (chatId: string) => ChatType | undefined; // Obtener un chat por ID
-  loadingChats: boolean; // Estado de carga de chats
+  loadingChats: boolean; // Carga inicial de los chats
   onlineUsers: string[]; // IDs de usuarios conectados
-  loadChats: () => Promise<void>; // Cargar todos los chats
+  getPresence: (userId: string) => PresenceType | undefined; // Estado de conexión de un usuario
+  typingUsers: Record<string, TypingUserType[]>; // Usuarios escribiendo en cada chat
+  notifyTyping: (chatId: string) => void; // Avisar de que el usuario actual está escribiendo
+  loadChats: () => Promise<void>; // Recargar todos los chats
+  loadOlderMessages: (chatId: string) => Promise<number>; // Cargar la página anterior del historial (devuelve los mensajes añadidos)
+  loadNewerMessages: (chatId: string) => Promise<number>; // Cargar la página siguiente tras saltar a un mensaje
+  openChatAtMessage: (chatId: string, messageId: string) => Promise<boolean>; // Abrir un chat en un mensaje concreto
   addParticipantToChat: (chatId: string, participantId: string) => Promise<boolean>; // Añadir usuario a chat
   findExistingPrivateChat: (participantId: string) => ChatType | undefined; // Buscar chat privado existente
 }
@@ -67,8 +138,12 @@ export const useChat = () => {
   return context;
 };
 
-// Usuarios en línea simulados
-const MOCK_ONLINE_USERS = ['user1', 'user2', 'user3'];
+// Un indicador de escritura desaparece si no se renueva en este tiempo
+const TYPING_TIMEOUT = 5000;
+
+// Intervalo mínimo entre avisos de escritura y pausa tras la que se deja de escribir
+const TYPING_THROTTLE = 2000;
+const TYPING_IDLE = 3000;
 
 // Props para el provider
 interface ChatProviderProps {
@@ -82,12 +157,170 @@ interface ChatProviderProps {
 export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   // Obtener usuario actual del contexto de autenticación
   const { currentUser } = useAuth();
+  const { isBlocked } = useBlockedUsers();
+  const queryClient = useQueryClient();
+  const currentUserId = currentUser?.id;
   
-  // Estados para gestionar los chats y su estado
-  const [chats, setChats] = useState<ChatType[]>([]);
-  const [activeChat, setActiveChat] = useState<ChatType | null>(null);
-  const [loadingChats, setLoadingChats] = useState(true);
-  const [onlineUsers] = useState<string[]>(MOCK_ONLINE_USERS);
+  // Estados para gestionar el chat activo, la conexión y la escritura
+  const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [presence, setPresence] = useState<Record<string, PresenceType>>({});
+  const [typingUsers, setTypingUsers] = useState<Record<string, TypingUserType[]>>({});
+
+  // Temporizadores de los indicadores de escritura recibidos (clave chatId:userId)
+  const typingTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // Último aviso de escritura enviado y temporizador de pausa por chat
+  const typingSentAtRef = useRef(new Map<string, number>());
+  const typingIdleTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // Chats con una página del historial en curso (evita peticiones duplicadas al hacer scroll)
+  const loadingHistoryRef = useRef(new Set<string>());
+
+  /**
+   * Tomar el estado de conexión de los participantes que devuelve el servidor
+   */
+  const mergePresence = useCallback((chatList: ChatType[]) => {
+    setPresence(prev => {
+      const next = { ...prev };
+      chatList.forEach(chat => chat.participantDetails?.forEach(participant => {
+        if (participant.isOnline === undefined) return;
+        next[participant.id] = { isOnline: participant.isOnline, lastSeen: participant.lastSeen };
+      }));
+      return next;
+    });
+  }, []);
+
+  // Chats del usuario; el socket mantiene la lista al día y se recarga al reconectar
+  const { data: chats = [], isLoading: loadingChats, error: chatsError } = useQuery({
+    queryKey: chatKeys.list(currentUserId),
+    queryFn: async () => {
+      const userChats = await getServiceChats();
+      
+      mergePresence(userChats);
+      
+      // Conservar los mensajes ya cargados de cada chat (la lista solo trae el último)
+      const prevChats = queryClient.getQueryData<ChatType[]>(chatKeys.list(currentUserId)) || [];
+      return userChats.map(chat => {
+        const previous = prevChats.find(c => c.id === chat.id);
+        if (previous && previous.messages.length > chat.messages.length) {
+          return {
+            ...chat,
+            messages: previous.messages,
+            hasOlderMessages: previous.hasOlderMessages,
+            hasNewerMessages: previous.hasNewerMessages
+          };
+        }
+        return chat;
+      });
+    },
+    enabled: !!currentUserId,
+    staleTime: Infinity
+  });
+
+  /**
+   * Modificar la lista de chats en caché (sin efecto hasta que se haya cargado)
+   */
+  const setChats = useCallback((update: (prevChats: ChatType[]) => ChatType[]) => {
+    queryClient.setQueryData<ChatType[]>(chatKeys.list(currentUserId), prevChats => prevChats && update(prevChats));
+  }, [queryClient, currentUserId]);
+
+  const onlineUsers = Object.keys(presence).filter(userId => presence[userId].isOnline);
+
+  // El chat activo se deriva de la lista para reflejar siempre los mensajes nuevos
+  const activeChat = chats.find(chat => chat.id === activeChatId) || null;
+
+  // Referencia a la lista actual de chats para los listeners del socket
+  const chatsRef = useRef<ChatType[]>(chats);
+  chatsRef.current = chats;
+
+  // Comprobación de bloqueos actual para los listeners del socket
+  const isBlockedRef = useRef(isBlocked);
+  isBlockedRef.current = isBlocked;
+
+  /**
+   * Insertar o reemplazar un chat en la lista, dejándolo el primero
+   */
+  const upsertChat = useCallback((chat: ChatType) => {
+    setChats(prevChats => [chat, ...prevChats.filter(c => c.id !== chat.id)]);
+  }, [setChats]);
+
+  /**
+   * Añadir un mensaje a su chat si aún no está en la lista
+   * Si se está viendo una parte antigua del historial solo se actualiza la vista previa
+   */
+  const mergeMessage = useCallback((chatId: string, message: MessageType) => {
+    setChats(prevChats => {
+      const chat = prevChats.find(c => c.id === chatId);
+      if (!chat) return prevChats;
+      
+      if (chat.messages.some(m => m.id === message.id)) return prevChats;
+      
+      const updatedChat: ChatType = {
+        ...chat,
+        messages: chat.hasNewerMessages ? chat.messages : [...chat.messages, message],
+        lastMessage: message
+      };
+      
+      return [updatedChat, ...prevChats.filter(c => c.id !== chatId)];
+    });
+  }, [setChats]);
+
+  /**
+   * Modificar un mensaje ya cargado (y la vista previa si es el último del chat)
+   */
+  const updateMessage = useCallback((chatId: string, messageId: string, update: (message: MessageType) => MessageType) => {
+    setChats(prevChats => prevChats.map(chat => {
+      if (chat.id !== chatId) return chat;
+      
+      return {
+        ...chat,
+        messages: chat.messages.map(message => message.id === messageId ? update(message) : message),
+        lastMessage: chat.lastMessage?.id === messageId ? update(chat.lastMessage) : chat.lastMessage
+      };
+    }));
+  }, [setChats]);
+
+  /**
+   * Quitar el indicador de escritura de un usuario en un chat
+   */
+  const clearTyping = useCallback((chatId: string, userId: string) => {
+    const key = `${chatId}:${userId}`;
+    clearTimeout(typingTimersRef.current.get(key));
+    typingTimersRef.current.delete(key);
+    
+    setTypingUsers(prev => {
+      if (!prev[chatId]?.some(user => user.userId === userId)) return prev;
+      return { ...prev, [chatId]: prev[chatId].filter(user => user.userId !== userId) };
+    });
+  }, []);
+
+  /**
+   * Registrar la entrega o lectura de los mensajes de un chat por un destinatario
+   */
+  const applyReceipt = useCallback((chatId: string, userId: string, field: 'deliveredAt' | 'readAt', timestamp: number) => {
+    setChats(prevChats => prevChats.map(chat => {
+      if (chat.id !== chatId) return chat;
+      
+      const updateReceipts = (message: MessageType): MessageType => {
+        if (!message.receipts?.some(receipt => receipt.userId === userId && !receipt[field])) return message;
+        
+        return {
+          ...message,
+          receipts: message.receipts.map(receipt => {
+            if (receipt.userId !== userId || receipt[field]) return receipt;
+            // Un mensaje leído también se ha entregado
+            return field === 'readAt'
+              ? { ...receipt, readAt: timestamp, deliveredAt: receipt.deliveredAt || timestamp }
+              : { ...receipt, deliveredAt: timestamp };
+          })
+        };
+      };
+      
+      return {
+        ...chat,
+        messages: chat.messages.map(updateReceipts),
+        lastMessage: chat.lastMessage && updateReceipts(chat.lastMessage)
+      };
+    }));
+  }, [setChats]);
 
   /**
    * Función para buscar un chat privado existente con un usuario específico
@@ -105,72 +338,261 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   };
 
   /**
-   * Función para cargar todos los chats y configurar los listeners
+   * Función para recargar los chats del usuario desde el servidor
+   * Los chats ya mostrados se mantienen mientras llega la lista nueva
    */
-  const loadChats = async () => {
-    // Si no hay usuario autenticado, no se cargan chats
-    if (!currentUser) {
-      setChats([]);
-      setLoadingChats(false);
-      return;
+  const loadChats = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: chatKeys.list(currentUserId) });
+  }, [queryClient, currentUserId]);
+
+  // Avisar si no se pudo cargar la lista de chats
+  useEffect(() => {
+    if (!chatsError) return;
+    
+    console.error("Error al cargar chats:", chatsError);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "No se pudieron cargar los chats. Por favor, inténtalo de nuevo."
+    });
+  }, [chatsError]);
+
+  /**
+   * Cargar los mensajes de un chat y marcarlos como leídos
+   */
+  const loadChatMessages = useCallback(async (chatId: string) => {
+    try {
+      const chat = await getServiceChatById(chatId);
+      if (!chat) return;
+      
+      mergePresence([chat]);
+      setChats(prevChats => prevChats.map(c => c.id === chatId ? chat : c));
+      markChatAsRead(chatId);
+    } catch (error) {
+      console.error("Error al cargar mensajes del chat:", error);
     }
-  
-    setLoadingChats(true);
+  }, [mergePresence, setChats]);
+
+  /**
+   * Añadir una página del historial a un chat
+   * Los mensajes se insertan antes o después de los cargados sin duplicarlos
+   * @returns Número de mensajes añadidos
+   */
+  const loadMessagePage = useCallback(async (chatId: string, direction: 'older' | 'newer') => {
+    const chat = chatsRef.current.find(c => c.id === chatId);
+    if (!chat || chat.messages.length === 0 || loadingHistoryRef.current.has(chatId)) return 0;
+    if (direction === 'older' ? !chat.hasOlderMessages : !chat.hasNewerMessages) return 0;
+    
+    loadingHistoryRef.current.add(chatId);
     try {
-      console.log("Cargando chats para el usuario:", currentUser.id);
-      // Obtener chats iniciales
-      const userChats = await getServiceChats(currentUser.id);
-      setChats(userChats);
-      console.log("Chats cargados:", userChats.length);
+      const cursor = direction === 'older'
+        ? { before: chat.messages[0].id }
+        : { after: chat.messages[chat.messages.length - 1].id };
+      const page = await getServiceChatMessages(chatId, cursor);
+      const isNew = (messages: MessageType[]) => (message: MessageType) => !messages.some(m => m.id === message.id);
+      
+      setChats(prevChats => prevChats.map(c => {
+        if (c.id !== chatId) return c;
+        
+        const messages = page.messages.filter(isNew(c.messages));
+        return direction === 'older'
+          ? { ...c, messages: [...messages, ...c.messages], hasOlderMessages: page.hasOlder }
+          : { ...c, messages: [...c.messages, ...messages], hasNewerMessages: page.hasNewer };
+      }));
+      
+      return page.messages.filter(isNew(chat.messages)).length;
     } catch (error) {
-      console.error("Error al cargar chats:", error);
+      console.error("Error al cargar el historial del chat:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "No se pudieron cargar los chats. Por favor, inténtalo de nuevo."
+        description: "No se pudieron cargar más mensajes. Por favor, inténtalo de nuevo."
       });
+      return 0;
     } finally {
-      setLoadingChats(false);
+      loadingHistoryRef.current.delete(chatId);
+    }
+  }, [setChats]);
+
+  const loadOlderMessages = useCallback((chatId: string) => loadMessagePage(chatId, 'older'), [loadMessagePage]);
+  const loadNewerMessages = useCallback((chatId: string) => loadMessagePage(chatId, 'newer'), [loadMessagePage]);
+
+  /**
+   * Abrir un chat mostrando un mensaje concreto con los mensajes de su alrededor
+   * @returns false si el mensaje no existe o no se pudo cargar
+   */
+  const openChatAtMessage = useCallback(async (chatId: string, messageId: string) => {
+    try {
+      let chat = chatsRef.current.find(c => c.id === chatId);
+      if (!chat) {
+        chat = await getServiceChatById(chatId);
+        if (!chat) return false;
+        mergePresence([chat]);
+      }
+      
+      const page = await getServiceChatMessages(chatId, { around: messageId });
+      const chatAtMessage: ChatType = {
+        ...chat,
+        messages: page.messages,
+        hasOlderMessages: page.hasOlder,
+        hasNewerMessages: page.hasNewer
+      };
+      
+      setChats(prevChats => prevChats.some(c => c.id === chatId)
+        ? prevChats.map(c => c.id === chatId ? { ...chatAtMessage, lastMessage: c.lastMessage } : c)
+        : [chatAtMessage, ...prevChats]
+      );
+      setActiveChatId(chatId);
+      markChatAsRead(chatId);
+      return true;
+    } catch (error) {
+      console.error("Error al abrir el mensaje:", error);
+      toast({
+        variant: "destructive",
+        title: "Mensaje no disponible",
+        description: "No se pudo encontrar el mensaje en esta conversación."
+      });
+      return false;
+    }
+  }, [mergePresence, setChats]);
+
+  /**
+   * Cambiar el chat activo cargando su historial de mensajes
+   */
+  const setActiveChat = (chat: ChatType | null) => {
+    setActiveChatId(chat ? chat.id : null);
+    
+    if (chat) {
+      loadChatMessages(chat.id);
     }
   };
 
   /**
-   * Configurar listeners para actualizaciones de chat
+   * Suscribirse a los eventos de chat en tiempo real del socket
    */
   useEffect(() => {
     if (!currentUser) return;
 
-    console.log("Configurando listener para chats...");
-    const unsubscribe = setupChatListener((updatedChats) => {
-      console.log("Actualización de chats recibida:", updatedChats.length);
-      
-      // Filtrar solo los chats donde el usuario es participante
-      const userChats = updatedChats.filter(chat => 
-        chat.participants.includes(currentUser.id)
-      );
-      
-      setChats(userChats);
-      
-      // Si hay un chat activo, actualizarlo también
-      if (activeChat) {
-        const updatedActiveChat = userChats.find(chat => chat.id === activeChat.id);
-        if (updatedActiveChat) {
-          setActiveChat(updatedActiveChat);
+    const unsubscribe = subscribeToChatEvents({
+      onNewMessage: (message) => {
+        if (!message.chatId) return;
+        // Los mensajes de usuarios bloqueados no se muestran
+        if (isBlockedRef.current(message.senderId)) return;
+        
+        const chatId = message.chatId;
+        
+        // Si el chat aún no está en la lista, cargarlo desde el servidor
+        if (!chatsRef.current.some(chat => chat.id === chatId)) {
+          getServiceChatById(chatId)
+            .then(chat => chat && upsertChat(chat))
+            .catch(error => console.error("Error al cargar chat nuevo:", error));
+          return;
         }
+        
+        clearTyping(chatId, message.senderId);
+        mergeMessage(chatId, message);
+      },
+      onChatCreated: (chat) => {
+        mergePresence([chat]);
+        setChats(prevChats => prevChats.some(c => c.id === chat.id) ? prevChats : [chat, ...prevChats]);
+      },
+      // Tras una reconexión pueden haberse perdido mensajes
+      onReconnect: () => {
+        loadChats();
+      },
+      onUserStatusChange: ({ userId, isOnline, lastSeen }) => {
+        setPresence(prev => ({ ...prev, [userId]: { isOnline, lastSeen } }));
+      },
+      onUserTyping: ({ chatId, userId, userName }) => {
+        const key = `${chatId}:${userId}`;
+        clearTimeout(typingTimersRef.current.get(key));
+        typingTimersRef.current.set(key, setTimeout(() => clearTyping(chatId, userId), TYPING_TIMEOUT));
+        
+        setTypingUsers(prev => {
+          if (prev[chatId]?.some(user => user.userId === userId)) return prev;
+          return { ...prev, [chatId]: [...(prev[chatId] || []), { userId, userName }] };
+        });
+      },
+      onUserStoppedTyping: ({ chatId, userId }) => {
+        clearTyping(chatId, userId);
+      },
+      onMessagesDelivered: ({ chatId, userId, timestamp }) => {
+        applyReceipt(chatId, userId, 'deliveredAt', timestamp);
+      },
+      onMessagesRead: ({ chatId, userId, timestamp }) => {
+        applyReceipt(chatId, userId, 'readAt', timestamp);
+      },
+      onMessageEdited: (message) => {
+        if (!message.chatId) return;
+        updateMessage(message.chatId, message.id, current => ({ ...current, ...message }));
+      },
+      onMessageDeleted: ({ chatId, messageId, timestamp }) => {
+        updateMessage(chatId, messageId, message => ({ ...message, content: '', reactions: [], deletedAt: timestamp }));
+      },
+      onMessageReactions: ({ chatId, messageId, reactions }) => {
+        updateMessage(chatId, messageId, message => ({ ...message, reactions }));
       }
     });
     
     return () => {
-      console.log("Limpiando listener de chats");
       unsubscribe();
     };
-  }, [currentUser, activeChat]);
+  }, [currentUser, mergeMessage, updateMessage, upsertChat, setChats, loadChats, mergePresence, clearTyping, applyReceipt]);
 
-  // Cargar chats iniciales cuando cambia el usuario
+  // Los mensajes pendientes se sustituyen al enviarse desde la cola y se quitan si se descartan
   useEffect(() => {
-    loadChats();
+    return onMutationSettled((settled) => {
+      if (settled.type !== 'message') return;
+      
+      const { chatId } = settled.mutation.payload;
+      const pendingId = `pending-${settled.mutation.id}`;
+      const sentMessage = settled.result && { ...mapApiMessage(settled.result as ApiChatMessage), chatId };
+      
+      setChats(prevChats => prevChats.map(chat => {
+        if (chat.id !== chatId) return chat;
+        
+        const replace = sentMessage && !chat.messages.some(m => m.id === sentMessage.id);
+        const messages = replace
+          ? chat.messages.map(m => m.id === pendingId ? sentMessage : m)
+          : chat.messages.filter(m => m.id !== pendingId);
+        
+        return {
+          ...chat,
+          messages,
+          lastMessage: chat.lastMessage?.id === pendingId
+            ? sentMessage || messages[messages.length - 1]
+            : chat.lastMessage
+        };
+      }));
+    });
+  }, [setChats]);
+
+  // Cancelar los temporizadores de escritura al desmontar o cambiar de usuario
+  useEffect(() => {
+    const typingTimers = typingTimersRef.current;
+    const idleTimers = typingIdleTimersRef.current;
+    
+    return () => {
+      typingTimers.forEach(timer => clearTimeout(timer));
+      typingTimers.clear();
+      idleTimers.forEach(timer => clearTimeout(timer));
+      idleTimers.clear();
+      setTypingUsers({});
+    };
   }, [currentUser]);
 
+  // Marcar como leídos los mensajes que llegan al chat abierto
+  useEffect(() => {
+    if (activeChatId && activeChat?.lastMessage?.senderId !== currentUser?.id) {
+      markChatAsRead(activeChatId);
+    }
+  }, [activeChatId, activeChat?.lastMessage?.id, activeChat?.lastMessage?.senderId, currentUser?.id]);
+
+  // Los chats se cargan con la consulta; al cambiar de usuario no queda ninguno abierto
+  useEffect(() => {
+    setActiveChatId(null);
+  }, [currentUserId]);
+
   /**
    * Función auxiliar para obtener un chat específico por ID
    */
@@ -178,22 +600,163 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     return chats.find(chat => chat.id === chatId);
   };
 
+  /**
+   * Estado de conexión de un usuario
+   */
+  const getPresence = (userId: string) => presence[userId];
+
+  /**
+   * Avisar de que el usuario actual está escribiendo en un chat
+   * Los avisos se limitan a uno cada TYPING_THROTTLE y se deja de escribir tras TYPING_IDLE sin teclear
+   */
+  const notifyTyping = (chatId: string) => {
+    const now = Date.now();
+    if (now - (typingSentAtRef.current.get(chatId) || 0) >= TYPING_THROTTLE) {
+      typingSentAtRef.current.set(chatId, now);
+      sendTyping(chatId);
+    }
+    
+    clearTimeout(typingIdleTimersRef.current.get(chatId));
+    typingIdleTimersRef.current.set(chatId, setTimeout(() => stopTyping(chatId), TYPING_IDLE));
+  };
+
+  /**
+   * Dejar de mostrar al resto que el usuario actual está escribiendo
+   */
+  const stopTyping = (chatId: string) => {
+    clearTimeout(typingIdleTimersRef.current.get(chatId));
+    typingIdleTimersRef.current.delete(chatId);
+    
+    if (typingSentAtRef.current.has(chatId)) {
+      typingSentAtRef.current.delete(chatId);
+      sendStopTyping(chatId);
+    }
+  };
+
+  const sendMessageMutation = useMutation({
+    mutationFn: ({ chatId, content }: { chatId: string; content: string }) => sendServiceMessage(chatId, content, currentUser),
+    onMutate: async ({ chatId, content }) => {
+      // Una recarga en curso no debe pisar el mensaje provisional
+      await queryClient.cancelQueries({ queryKey: chatKeys.list(currentUserId) });
+      
+      const previousLastMessage = chatsRef.current.find(chat => chat.id === chatId)?.lastMessage;
+      const optimisticMessage: MessageType = {
+        id: `temp-${Date.now()}`,
+        chatId,
+        senderId: currentUser.id,
+        senderName: currentUser.name,
+        senderPhoto: currentUser.photoURL,
+        content,
+        timestamp: Date.now(),
+        receipts: []
+      };
+      
+      mergeMessage(chatId, optimisticMessage);
+      return { optimisticMessage, previousLastMessage };
+    },
+    onSuccess: (sentMessage, { chatId }, { optimisticMessage }) => {
+      const message = { ...sentMessage, chatId };
+      
+      // El mensaje también puede haber llegado ya por el socket; se sustituye el provisional sin duplicarlo
+      setChats(prevChats => prevChats.map(chat => {
+        if (chat.id !== chatId) return chat;
+        
+        const received = chat.messages.some(m => m.id === message.id);
+        return {
+          ...chat,
+          messages: received
+            ? chat.messages.filter(m => m.id !== optimisticMessage.id)
+            : chat.messages.map(m => m.id === optimisticMessage.id ? message : m),
+          lastMessage: chat.lastMessage?.id === optimisticMessage.id ? message : chat.lastMessage
+        };
+      }));
+    },
+    onError: (error, { chatId }, context) => {
+      console.error("Error al enviar mensaje:", error);
+      
+      if (context) {
+        const { optimisticMessage, previousLastMessage } = context;
+        setChats(prevChats => prevChats.map(chat => chat.id !== chatId ? chat : {
+          ...chat,
+          messages: chat.messages.filter(m => m.id !== optimisticMessage.id),
+          lastMessage: chat.lastMessage?.id === optimisticMessage.id ? previousLastMessage : chat.lastMessage
+        }));
+      }
+      
+      toast({
+        variant: "destructive",
+        title: "Mensaje no enviado",
+        description: error instanceof Error ? error.message : "No se pudo enviar el mensaje. Por favor, inténtalo de nuevo."
+      });
+    }
+  });
+
   /**
    * Función para enviar mensajes
+   * El mensaje se muestra al momento y se retira si el servidor lo rechaza
    */
-  const sendMessage = async (chatId: string, content: string) => {
+  const sendMessage = (chatId: string, content: string) => {
     if (!currentUser || !content.trim()) return;
     
+    stopTyping(chatId);
+    sendMessageMutation.mutate({ chatId, content });
+  };
+
+  /**
+   * Editar el contenido de un mensaje propio
+   * @returns true si se guardó la edición
+   */
+  const editMessage = async (chatId: string, messageId: string, content: string) => {
+    if (!content.trim()) return false;
+    
     try {
-      console.log("Enviando mensaje:", { chatId, content });
-      await sendServiceMessage(chatId, currentUser.id, content);
-      console.log("Mensaje enviado correctamente");
+      const message = await editServiceMessage(chatId, messageId, content);
+      updateMessage(chatId, messageId, current => ({ ...current, ...message, chatId }));
+      return true;
     } catch (error) {
-      console.error("Error al enviar mensaje:", error);
+      console.error("Error al editar mensaje:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "No se pudo enviar el mensaje. Por favor, inténtalo de nuevo."
+        description: error instanceof Error ? error.message : "No se pudo editar el mensaje."
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Eliminar un mensaje propio para todos los participantes
+   * @returns true si se eliminó
+   */
+  const deleteMessage = async (chatId: string, messageId: string) => {
+    try {
+      await deleteServiceMessage(chatId, messageId);
+      updateMessage(chatId, messageId, message => ({ ...message, content: '', reactions: [], deletedAt: Date.now() }));
+      return true;
+    } catch (error) {
+      console.error("Error al eliminar mensaje:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo eliminar el mensaje."
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Añadir o quitar una reacción del usuario actual a un mensaje
+   */
+  const toggleReaction = async (chatId: string, messageId: string, emoji: string) => {
+    try {
+      const reactions = await toggleMessageReaction(chatId, messageId, emoji);
+      updateMessage(chatId, messageId, message => ({ ...message, reactions }));
+    } catch (error) {
+      console.error("Error al reaccionar al mensaje:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo guardar la reacción. Por favor, inténtalo de nuevo."
       });
     }
   };
@@ -211,10 +774,10 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     
     try {
       const newChat = await createServiceChat(participantIds, name);
-      console.log("Nuevo chat creado:", newChat);
       
       // Actualizar el chat activo inmediatamente
-      setActiveChat(newChat);
+      upsertChat(newChat);
+      setActiveChatId(newChat.id);
     } catch (error) {
       console.error("Error al crear chat:", error);
       toast({
@@ -237,24 +800,22 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
       
       if (existingChat) {
         // Si el chat existe, establecerlo como activo
-        console.log("Chat privado existente encontrado, navegando a él:", existingChat.id);
         setActiveChat(existingChat);
         return;
       }
       
-      // Si no existe, crear un nuevo chat privado
-      console.log("Creando nuevo chat privado con usuario:", participantId);
+      // Si no existe, el servidor crea el chat o devuelve el que ya exista
       const participants = [currentUser.id, participantId];
       const newChat = await createServiceChat(participants);
-      console.log("Nuevo chat privado creado:", newChat);
       
-      setActiveChat(newChat);
+      upsertChat(newChat);
+      setActiveChatId(newChat.id);
     } catch (error) {
       console.error("Error al crear chat privado:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "No se pudo crear el chat privado. Por favor, inténtalo de nuevo."
+        description: error instanceof Error ? error.message : "No se pudo crear el chat privado. Por favor, inténtalo de nuevo."
       });
     }
   };
@@ -266,22 +827,26 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     try {
       // Comprobar si el chat existe y es un chat grupal
       const chat = chats.find(c => c.id === chatId);
-      if (!chat) return false;
+      if (!chat || !chat.isGroup) return false;
       
       // Comprobar si el usuario ya está en el chat
       if (chat.participants.includes(participantId)) return false;
       
       // Añadir participante
-      const success = await addServiceParticipantToChat(chatId, participantId);
-      console.log(`Participante ${participantId} añadido al chat ${chatId}`);
+      const updatedChat = await addServiceParticipantToChat(chatId, participantId);
+      
+      setChats(prevChats => prevChats.map(c => c.id === chatId
+        ? { ...c, participants: updatedChat.participants, participantDetails: updatedChat.participantDetails }
+        : c
+      ));
       
-      return success;
+      return true;
     } catch (error) {
       console.error("Error al añadir participante:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "No se pudo añadir el participante. Por favor, inténtalo de nuevo."
+        description: error instanceof Error ? error.message : "No se pudo añadir el participante. Por favor, inténtalo de nuevo."
       });
       return false;
     }
@@ -295,12 +860,21 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         activeChat,
         setActiveChat,
         sendMessage,
+        editMessage,
+        deleteMessage,
+        toggleReaction,
         createChat,
         createPrivateChat,
         getChat,
         loadingChats,
         onlineUsers,
+        getPresence,
+        typingUsers,
+        notifyTyping,
         loadChats,
+        loadOlderMessages,
+        loadNewerMessages,
+        openChatAtMessage,
         addParticipantToChat,
         findExistingPrivateChat
       }}
@@ -10,18 +10,21 @@
  */
 
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-import { getCategories, getSkills } from '@/lib/api';
+import { getJobCategories, getJobSkills } from '@/lib/jobService';
 
 export type UserType = {
   id: string;
   name: string;
   email: string;
-  role: 'freelancer' | 'client';
+  role: 'freelancer' | 'client' | 'admin'; // 'admin' solo lo asigna el servidor
   photoURL?: string;
   bio?: string;
   location?: string;
   skills?: string[];
   joinDate?: number;
+  ratingAverage?: number;   // Valoración media de las reseñas visibles
+  ratingCount?: number;     // Número de reseñas visibles
+  emailVerifiedAt?: string | null; // Fecha de confirmación del correo (null si está pendiente)
 };
 
 interface DataContextType {
@@ -110,7 +113,7 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
    */
   const fetchCategories = async () => {
     try {
-      const categories = await getCategories();
+      const categories = await getJobCategories();
       if (Array.isArray(categories) && categories.length > 0) {
         setJobCategories(categories);
       } else {
@@ -126,7 +129,7 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
    */
   const fetchSkills = async () => {
     try {
-      const skills = await getSkills();
+      const skills = await getJobSkills();
       if (Array.isArray(skills) && skills.length > 0) {
         setSkillsList(skills);
       } else {
@@ -3,18 +3,27 @@
  * 
  * Este contexto proporciona funcionalidades relacionadas con la gestión de trabajos:
  * - Listar, crear, actualizar y eliminar trabajos
+ * - Cambiar el estado de los trabajos según su ciclo de vida
  * - Gestionar comentarios y respuestas en trabajos
  * - Manejar likes y guardados de trabajos
  * - Proporcionar acceso a los datos de trabajos en toda la aplicación
+ * 
+ * Los trabajos se guardan en la caché de React Query (claves en jobKeys): las
+ * mutaciones actualizan la caché en lugar de recargar el listado, y los likes,
+ * guardados, comentarios y respuestas se muestran al momento y se deshacen si
+ * el servidor los rechaza. Los comentarios y respuestas hechos sin conexión
+ * quedan como pendientes hasta que se envían desde la cola (ver offlineQueue).
  */
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useCallback, useEffect, ReactNode } from 'react';
+import { QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { UserType } from '@/contexts/DataContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { 
   getAllJobs, 
-  getJobById, 
   createJob as createJobService,
   updateJob as updateJobService,
+  changeJobStatus as changeJobStatusService,
   deleteJob as deleteJobService,
   addCommentToJob, 
   addReplyToComment as addReplyToCommentService,
@@ -22,6 +31,8 @@ import {
   toggleSavedJob as toggleSavedJobService,
   getSavedJobs as getSavedJobsService
 } from '@/lib/jobService';
+import { onMutationSettled } from '@/lib/offlineQueue';
+import { jobKeys } from '@/lib/queryKeys';
 import { toast } from '@/components/ui/use-toast';
 
 export type ReplyType = {
@@ -32,6 +43,7 @@ export type ReplyType = {
   userPhoto?: string;   // Foto de perfil del usuario (opcional)
   content: string;      // Contenido de la respuesta
   timestamp: number;    // Marca de tiempo cuando se creó la respuesta
+  pending?: boolean;    // Hecha sin conexión, pendiente de enviar
 };
 
 export type CommentType = {
@@ -43,6 +55,7 @@ export type CommentType = {
   content: string;      // Contenido del comentario
   timestamp: number;    // Marca de tiempo cuando se creó el comentario
   replies: ReplyType[]; // Lista de respuestas al comentario
+  pending?: boolean;    // Hecho sin conexión, pendiente de enviar
 };
 
 export type JobType = {
@@ -55,28 +68,36 @@ export type JobType = {
   userId: string;       // ID del usuario que creó el trabajo
   userName: string;     // Nombre del usuario que creó el trabajo
   userPhoto?: string;   // Foto de perfil del usuario (opcional)
+  userRating?: number;  // Valoración media del usuario que creó el trabajo
+  userRatingCount?: number; // Número de reseñas visibles de ese usuario
+  organizationId?: string; // Organización propietaria del trabajo
+  organizationName?: string; // Nombre de la organización propietaria
   timestamp: number;    // Marca de tiempo cuando se creó el trabajo
   status: 'open' | 'in-progress' | 'completed' | 'assigned' | 'cancelled'; // Estado actual del trabajo
   comments: CommentType[]; // Comentarios en el trabajo
   likes: string[];      // Array de IDs de usuarios que dieron like
+  likesCount?: number;  // Número de likes (en el listado paginado)
+  commentsCount?: number; // Número de comentarios (en el listado paginado)
+  assignedTo?: string;  // ID del freelancer asignado (al aceptar una oferta)
   createdAt?: string;   // Fecha de creación (formato ISO)
   updatedAt?: string;   // Fecha de última actualización (formato ISO)
 };
 
 type JobContextType = {
   jobs: JobType[];      // Lista de todos los trabajos disponibles
-  loading: boolean;     // Indica si los datos están cargando
+  loading: boolean;     // Indica si el listado se está cargando por primera vez
   createJob: (jobData: Omit<JobType, 'id' | 'timestamp' | 'comments' | 'likes'>) => Promise<JobType>; // Crear nuevo trabajo
   updateJob: (jobId: string, jobData: Partial<JobType>) => Promise<JobType>; // Actualizar trabajo existente
+  changeJobStatus: (jobId: string, status: JobType['status'], reason?: string) => Promise<JobType>; // Cambiar el estado de un trabajo
   deleteJob: (jobId: string) => Promise<boolean>; // Eliminar trabajo
-  addComment: (jobId: string, content: string, user: UserType) => Promise<void>; // Añadir comentario a un trabajo
-  addReplyToComment: (jobId: string, commentId: string, content: string, user: UserType) => Promise<void>; // Añadir respuesta a comentario
+  addComment: (jobId: string, content: string, user: UserType) => Promise<CommentType>; // Añadir comentario a un trabajo
+  addReplyToComment: (jobId: string, commentId: string, content: string, user: UserType) => Promise<ReplyType | undefined>; // Añadir respuesta a comentario
   getJob: (jobId: string) => JobType | undefined; // Obtener un trabajo por su ID
   toggleSavedJob: (jobId: string, userId: string) => void; // Guardar/eliminar un trabajo de favoritos
   getSavedJobs: (userId: string) => Promise<JobType[]>; // Obtener trabajos guardados por un usuario
   toggleLike: (jobId: string, userId: string) => void; // Dar/quitar like a un trabajo
   savedJobs: string[]; // Array de IDs de trabajos guardados por el usuario actual
-  loadJobs: () => Promise<void>; // Método para recargar trabajos
+  loadJobs: () => Promise<void>; // Invalidar la caché y recargar los trabajos
 };
 
 // Tipos para el contexto
@@ -104,67 +125,309 @@ interface JobProviderProps {
   children: ReactNode;
 }
 
+// Estado de las consultas de trabajos antes de un cambio optimista, para poder deshacerlo
+type JobCacheSnapshot = [QueryKey, unknown][];
+
+/**
+ * Dar o quitar el like de un usuario a un trabajo (y ajustar el contador del listado)
+ */
+const withLike = (job: JobType, userId: string, liked: boolean): JobType => {
+  if (job.likes.includes(userId) === liked) return job;
+  
+  return {
+    ...job,
+    likes: liked ? [...job.likes, userId] : job.likes.filter(id => id !== userId),
+    likesCount: job.likesCount !== undefined ? job.likesCount + (liked ? 1 : -1) : undefined
+  };
+};
+
+/**
+ * Añadir o quitar un ID de una lista sin duplicarlo
+ */
+const withId = (ids: string[] = [], id: string, included: boolean) => {
+  if (!included) return ids.filter(current => current !== id);
+  return ids.includes(id) ? ids : [...ids, id];
+};
+
 /**
  * Proveedor del contexto de trabajos
  * Proporciona funcionalidad y estado relacionados con los trabajos
  */
 export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
-  const [jobs, setJobs] = useState<JobType[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [savedJobs, setSavedJobs] = useState<string[]>([]);
+  const { currentUser } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Listado de trabajos (depende del usuario: el servidor omite los de usuarios bloqueados)
+  const { data: jobs = [], isLoading: loading } = useQuery({
+    queryKey: jobKeys.list(currentUser?.id),
+    queryFn: getAllJobs
+  });
+
+  // IDs de los trabajos guardados por el usuario actual
+  const { data: savedJobs = [] } = useQuery({
+    queryKey: jobKeys.saved(currentUser?.id),
+    queryFn: async () => (await getSavedJobsService()).map(job => job.id),
+    enabled: !!currentUser
+  });
 
   /**
-   * Función para cargar todos los trabajos
+   * Aplicar un cambio a un trabajo en todas las consultas en caché (listados y detalle)
    */
-  const loadJobs = async () => {
-    setLoading(true);
-    try {
-      const jobsData = await getAllJobs();
-      // Aseguramos que todos los trabajos tienen los campos requeridos
-      const formattedJobs: JobType[] = jobsData.map(job => ({
+  const updateCachedJob = useCallback((jobId: string, update: (job: JobType) => JobType) => {
+    queryClient.setQueriesData<JobType[]>({ queryKey: jobKeys.lists() }, prevJobs =>
+      prevJobs?.map(job => job.id === jobId ? update(job) : job)
+    );
+    queryClient.setQueryData<JobType | null>(jobKeys.detail(jobId), job => job && update(job));
+  }, [queryClient]);
+
+  /**
+   * Detener las recargas en curso de un trabajo y guardar su estado antes de un cambio optimista
+   * Así una respuesta antigua no pisa el cambio y se puede deshacer si falla
+   */
+  const snapshotJob = async (jobId: string): Promise<JobCacheSnapshot> => {
+    await queryClient.cancelQueries({ queryKey: jobKeys.lists() });
+    await queryClient.cancelQueries({ queryKey: jobKeys.detail(jobId), exact: true });
+    
+    return [
+      ...queryClient.getQueriesData<JobType[]>({ queryKey: jobKeys.lists() }),
+      ...queryClient.getQueriesData<JobType | null>({ queryKey: jobKeys.detail(jobId), exact: true })
+    ];
+  };
+
+  /**
+   * Deshacer un cambio optimista y avisar al usuario
+   */
+  const rollback = (snapshot: JobCacheSnapshot | undefined, description: string) => {
+    snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData<unknown>(queryKey, data));
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description
+    });
+  };
+
+  /**
+   * Función para recargar los trabajos
+   * Invalida toda la caché de trabajos; las consultas en uso se recargan sin vaciarse
+   */
+  const loadJobs = () => queryClient.invalidateQueries({ queryKey: jobKeys.all });
+
+  // Al enviarse (o descartarse) un comentario pendiente se recarga su trabajo
+  useEffect(() => {
+    return onMutationSettled((settled) => {
+      if (settled.type !== 'comment' && settled.type !== 'reply') return;
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(settled.mutation.payload.jobId), exact: true });
+    });
+  }, [queryClient]);
+
+  const createJobMutation = useMutation({
+    mutationFn: createJobService,
+    onSuccess: (newJob) => {
+      queryClient.setQueriesData<JobType[]>({ queryKey: jobKeys.lists() }, prevJobs =>
+        prevJobs && [newJob, ...prevJobs.filter(job => job.id !== newJob.id)]
+      );
+      queryClient.invalidateQueries({ queryKey: jobKeys.lists() });
+    }
+  });
+
+  const updateJobMutation = useMutation({
+    mutationFn: ({ jobId, jobData }: { jobId: string; jobData: Partial<JobType> }) => updateJobService(jobId, jobData),
+    onSuccess: (updatedJob, { jobId }) => {
+      // La respuesta no incluye los comentarios ni los likes ya cargados
+      updateCachedJob(jobId, job => ({ ...job, ...updatedJob, comments: job.comments, likes: job.likes }));
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(jobId) });
+    }
+  });
+
+  const changeJobStatusMutation = useMutation({
+    mutationFn: ({ jobId, status, reason }: { jobId: string; status: JobType['status']; reason?: string }) =>
+      changeJobStatusService(jobId, status, reason),
+    onSuccess: (updatedJob, { jobId }) => {
+      updateCachedJob(jobId, job => ({
         ...job,
-        likes: job.likes || [],
-        comments: job.comments || [],
-        timestamp: job.timestamp || new Date(job.createdAt || Date.now()).getTime(),
-        userName: job.userName || "Usuario",
-        status: job.status || 'open'
+        status: updatedJob.status,
+        assignedTo: updatedJob.assignedTo,
+        updatedAt: updatedJob.updatedAt
       }));
-      setJobs(formattedJobs);
-    } catch (error) {
-      console.error("Error al cargar trabajos:", error);
-    } finally {
-      setLoading(false);
+      // También recarga el historial de estados, que cuelga del detalle
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(jobId) });
     }
-  };
+  });
 
-  // Cargar trabajos iniciales al montar el componente
-  useEffect(() => {
-    loadJobs();
-  }, []);
+  const deleteJobMutation = useMutation({
+    mutationFn: deleteJobService,
+    onSuccess: (success, jobId) => {
+      if (!success) return;
+      
+      queryClient.setQueriesData<JobType[]>({ queryKey: jobKeys.lists() }, prevJobs =>
+        prevJobs?.filter(job => job.id !== jobId)
+      );
+      queryClient.removeQueries({ queryKey: jobKeys.detail(jobId) });
+    }
+  });
+
+  const addCommentMutation = useMutation({
+    mutationFn: async ({ jobId, content, user }: { jobId: string; content: string; user: UserType }) => {
+      const newComment = await addCommentToJob(jobId, content, user);
+      
+      // Asegurar que el comentario tiene el formato correcto
+      const formattedComment: CommentType = {
+        ...newComment,
+        userName: newComment.userName || user.name,
+        timestamp: newComment.timestamp || Date.now(),
+        replies: newComment.replies || []
+      };
+      return formattedComment;
+    },
+    onMutate: async ({ jobId, content, user }) => {
+      const snapshot = await snapshotJob(jobId);
+      
+      // Comentario provisional hasta que responda el servidor
+      const optimisticComment: CommentType = {
+        id: `temp-${Date.now()}`,
+        jobId,
+        userId: user.id,
+        userName: user.name,
+        userPhoto: user.photoURL,
+        content,
+        timestamp: Date.now(),
+        replies: []
+      };
+      
+      updateCachedJob(jobId, job => ({
+        ...job,
+        comments: [...job.comments, optimisticComment],
+        commentsCount: job.commentsCount !== undefined ? job.commentsCount + 1 : undefined
+      }));
+      
+      return { snapshot, optimisticComment };
+    },
+    onSuccess: (formattedComment, { jobId }, { optimisticComment }) => {
+      updateCachedJob(jobId, job => ({
+        ...job,
+        comments: job.comments.map(comment => comment.id === optimisticComment.id ? formattedComment : comment)
+      }));
+    },
+    onError: (error, _variables, context) => {
+      console.error("Error al añadir comentario:", error);
+      rollback(context?.snapshot, "No se pudo publicar el comentario. Por favor, inténtalo de nuevo.");
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(jobId), exact: true });
+    }
+  });
+
+  const addReplyMutation = useMutation({
+    mutationFn: async ({ jobId, commentId, content, user }: { jobId: string; commentId: string; content: string; user: UserType }) => {
+      const newReply = await addReplyToCommentService(jobId, commentId, content, user);
+      if (!newReply) return undefined;
+      
+      // Asegurar que la respuesta tiene el formato correcto
+      const formattedReply: ReplyType = {
+        ...newReply,
+        userName: newReply.userName || user.name,
+        timestamp: newReply.timestamp || Date.now()
+      };
+      return formattedReply;
+    },
+    onMutate: async ({ jobId, commentId, content, user }) => {
+      const snapshot = await snapshotJob(jobId);
+      
+      // Respuesta provisional hasta que responda el servidor
+      const optimisticReply: ReplyType = {
+        id: `temp-${Date.now()}`,
+        commentId,
+        userId: user.id,
+        userName: user.name,
+        userPhoto: user.photoURL,
+        content,
+        timestamp: Date.now()
+      };
+      
+      updateCachedJob(jobId, job => ({
+        ...job,
+        comments: job.comments.map(comment =>
+          comment.id === commentId
+            ? { ...comment, replies: [...comment.replies, optimisticReply] }
+            : comment
+        )
+      }));
+      
+      return { snapshot, optimisticReply };
+    },
+    onSuccess: (formattedReply, { jobId, commentId }, { optimisticReply }) => {
+      if (!formattedReply) return;
+      
+      updateCachedJob(jobId, job => ({
+        ...job,
+        comments: job.comments.map(comment =>
+          comment.id === commentId
+            ? { ...comment, replies: comment.replies.map(reply => reply.id === optimisticReply.id ? formattedReply : reply) }
+            : comment
+        )
+      }));
+    },
+    onError: (error, _variables, context) => {
+      console.error("Error al añadir respuesta:", error);
+      rollback(context?.snapshot, "No se pudo publicar la respuesta. Por favor, inténtalo de nuevo.");
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(jobId), exact: true });
+    }
+  });
+
+  const toggleLikeMutation = useMutation({
+    mutationFn: ({ jobId }: { jobId: string; userId: string }) => toggleJobLikeService(jobId),
+    onMutate: async ({ jobId, userId }) => {
+      const snapshot = await snapshotJob(jobId);
+      updateCachedJob(jobId, job => withLike(job, userId, !job.likes.includes(userId)));
+      return { snapshot };
+    },
+    // El resultado del servidor manda sobre el cambio provisional
+    onSuccess: (isNowLiked, { jobId, userId }) => {
+      updateCachedJob(jobId, job => withLike(job, userId, isNowLiked));
+    },
+    onError: (error, _variables, context) => {
+      console.error("Error al marcar/desmarcar me gusta:", error);
+      rollback(context?.snapshot, "No se pudo guardar tu me gusta. Por favor, inténtalo de nuevo.");
+    }
+  });
+
+  const toggleSavedJobMutation = useMutation({
+    mutationFn: ({ jobId }: { jobId: string; userId: string }) => toggleSavedJobService(jobId),
+    onMutate: async ({ jobId, userId }) => {
+      const queryKey = jobKeys.saved(userId);
+      await queryClient.cancelQueries({ queryKey, exact: true });
+      
+      const snapshot: JobCacheSnapshot = [[queryKey, queryClient.getQueryData<string[]>(queryKey)]];
+      queryClient.setQueryData<string[]>(queryKey, ids => withId(ids, jobId, !ids?.includes(jobId)));
+      return { snapshot };
+    },
+    onSuccess: (isNowSaved, { jobId, userId }) => {
+      queryClient.setQueryData<string[]>(jobKeys.saved(userId), ids => withId(ids, jobId, isNowSaved));
+    },
+    onError: (error, _variables, context) => {
+      console.error("Error al marcar/desmarcar trabajo guardado:", error);
+      rollback(context?.snapshot, "No se pudo actualizar tus guardados. Por favor, inténtalo de nuevo.");
+    },
+    // Recargar la página de guardados (notas y listas)
+    onSettled: (_data, _error, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: jobKeys.savedEntries(userId) });
+      queryClient.invalidateQueries({ queryKey: jobKeys.savedCollections(userId) });
+    }
+  });
 
   /**
    * Función para crear un nuevo trabajo
    */
   const createJob = async (jobData: Omit<JobType, 'id' | 'timestamp' | 'comments' | 'likes'>) => {
     try {
-      console.log('Creating job with data:', jobData);
-      const newJob = await createJobService(jobData);
-      
-      // Aseguramos que tenga todos los campos necesarios
-      const formattedJob: JobType = {
-        ...newJob,
-        likes: [],
-        comments: [],
-        timestamp: newJob.timestamp || new Date(newJob.createdAt || Date.now()).getTime(),
-        status: newJob.status as JobType['status']
-      };
-      
-      setJobs(prevJobs => [...prevJobs, formattedJob]);
+      const newJob = await createJobMutation.mutateAsync(jobData);
       toast({
         title: "Éxito",
         description: "La propuesta se ha creado correctamente."
       });
-      return formattedJob;
+      return newJob;
     } catch (error) {
       console.error("Error al crear trabajo:", error);
       toast({
@@ -181,46 +444,26 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
    */
   const updateJob = async (jobId: string, jobData: Partial<JobType>) => {
     try {
-      // Aquí convertimos el estado si es necesario
-      if (jobData.status) {
-        const status = jobData.status as JobType['status'];
-        jobData.status = status;
-      }
-      
-      const updatedJob = await updateJobService(jobId, jobData);
-      
-      // Aseguramos que tenga todos los campos necesarios
-      const formattedJob: JobType = {
-        ...updatedJob,
-        likes: updatedJob.likes || [],
-        comments: updatedJob.comments || [],
-        timestamp: updatedJob.timestamp || new Date(updatedJob.createdAt || Date.now()).getTime(),
-        status: updatedJob.status as JobType['status']
-      };
-      
-      setJobs(prevJobs => prevJobs.map(job => 
-        job.id === jobId ? formattedJob : job
-      ));
-      
-      return formattedJob;
+      return await updateJobMutation.mutateAsync({ jobId, jobData });
     } catch (error) {
       console.error("Error al actualizar trabajo:", error);
       throw error;
     }
   };
 
+  /**
+   * Función para cambiar el estado de un trabajo
+   * Conserva los comentarios y likes ya cargados, que la respuesta no incluye
+   */
+  const changeJobStatus = (jobId: string, status: JobType['status'], reason?: string) =>
+    changeJobStatusMutation.mutateAsync({ jobId, status, reason });
+
   /**
    * Función para eliminar un trabajo
    */
   const deleteJob = async (jobId: string) => {
     try {
-      const success = await deleteJobService(jobId);
-      
-      if (success) {
-        setJobs(prevJobs => prevJobs.filter(job => job.id !== jobId));
-      }
-      
-      return success;
+      return await deleteJobMutation.mutateAsync(jobId);
     } catch (error) {
       console.error("Error al eliminar trabajo:", error);
       throw error;
@@ -229,63 +472,17 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
 
   /**
    * Función para añadir un comentario a un trabajo
+   * Si falla, el comentario provisional se retira y se avisa al usuario
    */
-  const addComment = async (jobId: string, content: string, user: UserType) => {
-    try {
-      const newComment = await addCommentToJob(jobId, content, user);
-      
-      // Asegurar que el comentario tiene el formato correcto
-      const formattedComment: CommentType = {
-        ...newComment,
-        userName: newComment.userName || user.name,
-        timestamp: newComment.timestamp || Date.now(),
-        replies: newComment.replies || []
-      };
-      
-      setJobs(prevJobs => prevJobs.map(job => 
-        job.id === jobId 
-          ? { ...job, comments: [...job.comments, formattedComment] }
-          : job
-      ));
-    } catch (error) {
-      console.error("Error al añadir comentario:", error);
-      throw error;
-    }
-  };
+  const addComment = (jobId: string, content: string, user: UserType) =>
+    addCommentMutation.mutateAsync({ jobId, content, user });
 
   /**
    * Función para añadir una respuesta a un comentario
+   * Si falla, la respuesta provisional se retira y se avisa al usuario
    */
-  const addReplyToComment = async (jobId: string, commentId: string, content: string, user: UserType) => {
-    try {
-      const newReply = await addReplyToCommentService(jobId, commentId, content, user);
-      
-      if (!newReply) return;
-      
-      // Asegurar que la respuesta tiene el formato correcto
-      const formattedReply: ReplyType = {
-        ...newReply,
-        userName: newReply.userName || user.name,
-        timestamp: newReply.timestamp || Date.now()
-      };
-      
-      setJobs(prevJobs => prevJobs.map(job => {
-        if (job.id !== jobId) return job;
-        
-        return {
-          ...job,
-          comments: job.comments.map(comment => 
-            comment.id === commentId
-              ? { ...comment, replies: [...comment.replies, formattedReply] }
-              : comment
-          )
-        };
-      }));
-    } catch (error) {
-      console.error("Error al añadir respuesta:", error);
-      throw error;
-    }
-  };
+  const addReplyToComment = (jobId: string, commentId: string, content: string, user: UserType) =>
+    addReplyMutation.mutateAsync({ jobId, commentId, content, user });
 
   /**
    * Función para obtener un trabajo por su ID
@@ -297,59 +494,29 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
   /**
    * Función para guardar/eliminar un trabajo de favoritos
    */
-  const toggleSavedJob = async (jobId: string, userId: string) => {
-    try {
-      const isNowSaved = await toggleSavedJobService(userId, jobId);
-      
-      setSavedJobs(prev => {
-        if (isNowSaved) {
-          return [...prev, jobId];
-        } else {
-          return prev.filter(id => id !== jobId);
-        }
-      });
-    } catch (error) {
-      console.error("Error al marcar/desmarcar trabajo guardado:", error);
-    }
+  const toggleSavedJob = (jobId: string, userId: string) => {
+    toggleSavedJobMutation.mutate({ jobId, userId });
   };
 
   /**
    * Función para obtener trabajos guardados por un usuario
    */
-  const getSavedJobs = async (userId: string) => {
+  const getSavedJobs = useCallback(async (userId: string) => {
     try {
-      const savedJobsData = await getSavedJobsService(userId);
-      const savedJobIds = savedJobsData.map(job => job.id);
-      setSavedJobs(savedJobIds);
+      const savedJobsData = await getSavedJobsService();
+      queryClient.setQueryData(jobKeys.saved(userId), savedJobsData.map(job => job.id));
       return savedJobsData;
     } catch (error) {
       console.error("Error al obtener trabajos guardados:", error);
       return [];
     }
-  };
+  }, [queryClient]);
 
   /**
    * Función para dar/quitar like a un trabajo
    */
-  const toggleLike = async (jobId: string, userId: string) => {
-    try {
-      const isNowLiked = await toggleJobLikeService(jobId, userId);
-      
-      setJobs(prevJobs => prevJobs.map(job => {
-        if (job.id !== jobId) return job;
-        
-        const likes = isNowLiked
-          ? [...job.likes, userId]
-          : job.likes.filter(id => id !== userId);
-        
-        return {
-          ...job,
-          likes
-        };
-      }));
-    } catch (error) {
-      console.error("Error al marcar/desmarcar me gusta:", error);
-    }
+  const toggleLike = (jobId: string, userId: string) => {
+    toggleLikeMutation.mutate({ jobId, userId });
   };
 
   return (
@@ -359,6 +526,7 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
         loading,
         createJob,
         updateJob,
+        changeJobStatus,
         deleteJob,
         addComment,
         addReplyToComment,
@@ -0,0 +1,166 @@
+/**
+ * Contexto de Notificaciones
+ *
+ * Este archivo gestiona las notificaciones del usuario:
+ * - Carga paginada desde la API REST del servidor
+ * - Recepción en tiempo real mediante Socket.IO
+ * - Contador de no leídas y marcado como leídas
+ */
+
+import React, { createContext, useState, useContext, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  NotificationType,
+  getNotifications,
+  markAllNotificationsAsRead,
+  markNotificationAsRead,
+  subscribeToNotifications
+} from '@/lib/notificationService';
+
+// Interfaz del contexto de notificaciones
+interface NotificationContextType {
+  notifications: NotificationType[]; // Notificaciones cargadas (las más recientes primero)
+  unreadCount: number;               // Número total de notificaciones sin leer
+  loading: boolean;                  // Estado de la carga inicial
+  hasMore: boolean;                  // Quedan notificaciones antiguas por cargar
+  loadMore: () => Promise<void>;     // Cargar la siguiente página
+  markAsRead: (notificationId: string) => Promise<void>; // Marcar una como leída
+  markAllAsRead: () => Promise<void>; // Marcar todas como leídas
+}
+
+// Crear el contexto
+const NotificationContext = createContext<NotificationContextType | null>(null);
+
+/**
+ * Hook personalizado para usar el contexto de notificaciones
+ */
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications debe usarse dentro de un NotificationProvider');
+  }
+  return context;
+};
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Componente proveedor del contexto de notificaciones
+ */
+export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const { currentUser } = useAuth();
+
+  const [notifications, setNotifications] = useState<NotificationType[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+
+  // Referencia a la lista actual para el listener del socket
+  const notificationsRef = useRef<NotificationType[]>(notifications);
+  notificationsRef.current = notifications;
+
+  /**
+   * Cargar la primera página de notificaciones
+   */
+  const loadNotifications = useCallback(async () => {
+    setLoading(true);
+    try {
+      const page = await getNotifications();
+      setNotifications(page.notifications);
+      setUnreadCount(page.unreadCount);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Error al cargar notificaciones:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Cargar notificaciones más antiguas que la última de la lista
+   */
+  const loadMore = async () => {
+    const oldest = notifications[notifications.length - 1];
+    if (!oldest) return;
+
+    try {
+      const page = await getNotifications(oldest.timestamp);
+      setNotifications(prev => [
+        ...prev,
+        ...page.notifications.filter(notification => !prev.some(n => n.id === notification.id))
+      ]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Error al cargar más notificaciones:", error);
+    }
+  };
+
+  const markAsRead = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification || notification.isRead) return;
+
+    setNotifications(prev => prev.map(n => (n.id === notificationId ? { ...n, isRead: true } : n)));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+
+    try {
+      await markNotificationAsRead(notificationId);
+    } catch (error) {
+      console.error("Error al marcar notificación como leída:", error);
+    }
+  };
+
+  const markAllAsRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+    setUnreadCount(0);
+
+    try {
+      await markAllNotificationsAsRead();
+    } catch (error) {
+      console.error("Error al marcar notificaciones como leídas:", error);
+    }
+  };
+
+  // Cargar notificaciones cuando cambia el usuario
+  useEffect(() => {
+    if (currentUser) {
+      loadNotifications();
+    } else {
+      setNotifications([]);
+      setUnreadCount(0);
+      setHasMore(false);
+      setLoading(false);
+    }
+  }, [currentUser, loadNotifications]);
+
+  // Recibir notificaciones nuevas (o agrupadas) en tiempo real
+  useEffect(() => {
+    if (!currentUser) return;
+
+    return subscribeToNotifications((notification) => {
+      // Una notificación agrupada que ya estaba sin leer no suma de nuevo
+      const previous = notificationsRef.current.find(n => n.id === notification.id);
+      if (!previous || previous.isRead) {
+        setUnreadCount(count => count + 1);
+      }
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+    });
+  }, [currentUser]);
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        loading,
+        hasMore,
+        loadMore,
+        markAsRead,
+        markAllAsRead
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
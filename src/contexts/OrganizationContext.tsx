@@ -0,0 +1,124 @@
+/**
+ * Contexto de Organizaciones
+ *
+ * Este archivo gestiona las organizaciones del usuario actual:
+ * - Carga de sus organizaciones con el rol que tiene en cada una
+ * - Organización activa, en cuyo nombre se publican los trabajos (se recuerda entre visitas)
+ * - Comprobación de permisos en una organización o sobre un trabajo
+ */
+
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { JobType } from './JobContext';
+import {
+  OrganizationPermission,
+  OrganizationType,
+  getMyOrganizations,
+  hasPermission
+} from '@/lib/organizationService';
+
+// Clave de la organización activa en el almacenamiento local
+const CURRENT_ORGANIZATION_STORAGE_KEY = 'workflowconnect_organization';
+
+// Interfaz del contexto de organizaciones
+interface OrganizationContextType {
+  organizations: OrganizationType[];                  // Organizaciones del usuario con su rol
+  currentOrganization: OrganizationType | null;       // Organización activa
+  loading: boolean;                                   // Estado de la carga
+  switchOrganization: (organizationId: string) => void; // Cambiar la organización activa
+  refreshOrganizations: (selectId?: string) => Promise<void>; // Recargar (y opcionalmente activar una)
+  can: (permission: OrganizationPermission, organizationId?: string) => boolean; // Permiso en una organización (la activa por defecto)
+  canOnJob: (job: Pick<JobType, 'userId' | 'organizationId'>, permission: OrganizationPermission) => boolean; // Permiso sobre un trabajo
+}
+
+// Crear el contexto
+const OrganizationContext = createContext<OrganizationContextType | null>(null);
+
+/**
+ * Hook personalizado para usar el contexto de organizaciones
+ */
+export const useOrganizations = () => {
+  const context = useContext(OrganizationContext);
+  if (!context) {
+    throw new Error('useOrganizations debe usarse dentro de un OrganizationProvider');
+  }
+  return context;
+};
+
+interface OrganizationProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Componente proveedor del contexto de organizaciones
+ */
+export const OrganizationProvider: React.FC<OrganizationProviderProps> = ({ children }) => {
+  const { currentUser } = useAuth();
+
+  const [organizations, setOrganizations] = useState<OrganizationType[]>([]);
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string | null>(
+    () => localStorage.getItem(CURRENT_ORGANIZATION_STORAGE_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+
+  const switchOrganization = useCallback((organizationId: string) => {
+    setCurrentOrganizationId(organizationId);
+    localStorage.setItem(CURRENT_ORGANIZATION_STORAGE_KEY, organizationId);
+  }, []);
+
+  /**
+   * Cargar las organizaciones del usuario
+   */
+  const refreshOrganizations = useCallback(async (selectId?: string) => {
+    try {
+      const list = await getMyOrganizations();
+      setOrganizations(list);
+      if (selectId) {
+        switchOrganization(selectId);
+      }
+    } catch (error) {
+      console.error("Error al cargar organizaciones:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [switchOrganization]);
+
+  // Cargar las organizaciones cuando cambia el usuario
+  useEffect(() => {
+    if (currentUser?.id) {
+      setLoading(true);
+      refreshOrganizations();
+    } else {
+      setOrganizations([]);
+      setLoading(false);
+    }
+  }, [currentUser?.id, refreshOrganizations]);
+
+  // Si la organización guardada ya no es del usuario, se activa la primera
+  const currentOrganization = organizations.find(org => org.id === currentOrganizationId)
+    || organizations[0]
+    || null;
+
+  const can = (permission: OrganizationPermission, organizationId = currentOrganization?.id) =>
+    hasPermission(organizations.find(org => org.id === organizationId)?.role, permission);
+
+  // Los trabajos sin organización (anteriores a los equipos) solo los gestiona su autor
+  const canOnJob = (job: Pick<JobType, 'userId' | 'organizationId'>, permission: OrganizationPermission) =>
+    job.organizationId ? can(permission, job.organizationId) : !!currentUser && job.userId === currentUser.id;
+
+  return (
+    <OrganizationContext.Provider
+      value={{
+        organizations,
+        currentOrganization,
+        loading,
+        switchOrganization,
+        refreshOrganizations,
+        can,
+        canOnJob
+      }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
@@ -0,0 +1,45 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { blockUser, getBlockedUsers, unblockUser } from '@/lib/userService';
+import { jobKeys } from '@/lib/queryKeys';
+
+/**
+ * Lista de usuarios bloqueados por el usuario actual
+ * Permite ocultar su contenido en la interfaz y bloquear o desbloquear;
+ * al cambiar la lista se recargan los trabajos (el servidor ya omite los de los bloqueados)
+ */
+export function useBlockedUsers() {
+  const { currentUser } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: blockedUsers = [], isLoading } = useQuery({
+    queryKey: ['blocked-users', currentUser?.id],
+    queryFn: getBlockedUsers,
+    enabled: !!currentUser
+  });
+
+  const blockedIds = useMemo(() => new Set(blockedUsers.map(user => user.id)), [blockedUsers]);
+
+  const isBlocked = useCallback(
+    (userId?: string | null) => !!userId && blockedIds.has(userId),
+    [blockedIds]
+  );
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['blocked-users'] });
+    queryClient.invalidateQueries({ queryKey: jobKeys.all });
+  };
+
+  const block = async (userId: string) => {
+    await blockUser(userId);
+    await refresh();
+  };
+
+  const unblock = async (userId: string) => {
+    await unblockUser(userId);
+    await refresh();
+  };
+
+  return { blockedUsers, isLoading, isBlocked, block, unblock };
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Devuelve el valor recibido cuando deja de cambiar durante `delay` milisegundos
+ * Útil para no lanzar una búsqueda en el servidor con cada tecla
+ */
+export function useDebounce<T>(value: T, delay = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
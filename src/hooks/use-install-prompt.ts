@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { canInstallApp, installApp, onInstallAvailabilityChange } from '@/lib/pwa';
+
+/**
+ * Indica si el navegador permite instalar la aplicación y abre su diálogo de instalación
+ */
+export function useInstallPrompt() {
+  const [canInstall, setCanInstall] = useState(canInstallApp);
+
+  useEffect(() => {
+    // El navegador puede haber ofrecido la instalación entre el render y la suscripción
+    setCanInstall(canInstallApp());
+    return onInstallAvailabilityChange(setCanInstall);
+  }, []);
+
+  return { canInstall, install: installApp };
+}
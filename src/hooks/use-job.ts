@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { useJobs } from '@/contexts/JobContext';
+import { getJobById } from '@/lib/jobService';
+import { jobKeys } from '@/lib/queryKeys';
+
+/**
+ * Trabajo con sus comentarios y respuestas cargado desde el servidor
+ * Mientras carga se muestra la versión del listado, si está en caché
+ */
+export function useJob(jobId?: string) {
+  const { getJob } = useJobs();
+
+  const { data, isLoading } = useQuery({
+    queryKey: jobKeys.detail(jobId as string),
+    queryFn: () => getJobById(jobId as string),
+    enabled: !!jobId,
+    placeholderData: () => getJob(jobId as string)
+  });
+
+  return { job: data ?? undefined, isLoading };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { getSyncState, onSyncStateChange } from '@/lib/offlineQueue';
+
+/**
+ * Estado de la conexión y de la cola de cambios hechos sin conexión
+ * Incluye los cambios que esperan a enviarse y los que el servidor ha rechazado
+ */
+export function useSyncStatus() {
+  const [state, setState] = useState(getSyncState);
+
+  useEffect(() => {
+    // El estado puede haber cambiado entre el render y la suscripción
+    setState(getSyncState());
+    return onSyncStateChange(setState);
+  }, []);
+
+  const pending = state.mutations.filter(mutation => mutation.status === 'pending');
+  const conflicts = state.mutations.filter(mutation => mutation.status === 'conflict');
+
+  return { ...state, pending, conflicts };
+}
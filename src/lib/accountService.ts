@@ -0,0 +1,40 @@
+/**
+ * Servicio de Cuenta
+ *
+ * Este servicio gestiona los enlaces que se envían por correo: restablecer la
+ * contraseña olvidada y confirmar la dirección de correo de la cuenta.
+ */
+
+import { callApi } from './apiClient';
+
+/**
+ * Pedir el enlace para restablecer la contraseña
+ * @returns Mensaje del servidor (el mismo exista o no la cuenta)
+ */
+export const requestPasswordReset = async (email: string): Promise<string> => {
+  const response = await callApi('auth.forgotPassword', { body: { email } });
+  return response.message || '';
+};
+
+/**
+ * Elegir una contraseña nueva con el token del enlace
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  await callApi('auth.resetPassword', { body: { token, password } });
+};
+
+/**
+ * Confirmar el correo con el token del enlace
+ */
+export const verifyEmail = async (token: string): Promise<void> => {
+  await callApi('auth.verifyEmail', { body: { token } });
+};
+
+/**
+ * Reenviar el enlace de confirmación al correo del usuario actual
+ * @returns Mensaje del servidor
+ */
+export const resendVerificationEmail = async (): Promise<string> => {
+  const response = await callApi('auth.resendVerificationEmail');
+  return response.message || '';
+};
@@ -0,0 +1,447 @@
+/**
+ * Servicio de Administración
+ *
+ * Este servicio gestiona el panel de administración: suspensión de cuentas,
+ * cola de moderación de trabajos, revisión de denuncias, catálogo de categorías
+ * y habilidades y registro de auditoría. Solo lo pueden usar los administradores.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { ReportReason, ReportTargetType } from './reportService';
+
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+export type JobModerationStatus = 'pending' | 'approved' | 'removed';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+// Nombres en la interfaz
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+  active: 'Activa',
+  suspended: 'Suspendida',
+  banned: 'Expulsada'
+};
+
+export const JOB_MODERATION_LABELS: Record<JobModerationStatus, string> = {
+  pending: 'Pendiente',
+  approved: 'Aprobado',
+  removed: 'Retirado'
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Abierta',
+  resolved: 'Resuelta',
+  dismissed: 'Desestimada'
+};
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  job: 'Propuesta',
+  comment: 'Comentario',
+  reply: 'Respuesta',
+  message: 'Mensaje',
+  user: 'Perfil'
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'user.suspend': 'Cuenta suspendida',
+  'user.ban': 'Cuenta expulsada',
+  'user.reinstate': 'Cuenta readmitida',
+  'job.approve': 'Trabajo aprobado',
+  'job.remove': 'Trabajo retirado',
+  'job.restore': 'Trabajo restaurado',
+  'report.resolve': 'Denuncia resuelta',
+  'report.dismiss': 'Denuncia desestimada',
+  'milestone.release': 'Disputa resuelta: pago liberado',
+  'milestone.refund': 'Disputa resuelta: importe devuelto',
+  'category.create': 'Categoría creada',
+  'category.rename': 'Categoría renombrada',
+  'category.delete': 'Categoría eliminada',
+  'skill.create': 'Habilidad creada',
+  'skill.rename': 'Habilidad renombrada',
+  'skill.delete': 'Habilidad eliminada'
+};
+
+export type AdminOverview = {
+  pendingJobs: number;
+  openReports: number;
+  openDisputes: number;
+  suspendedUsers: number;
+  bannedUsers: number;
+};
+
+// Página de un listado; nextCursor es la fecha de creación del último elemento
+export type AdminPage<T> = {
+  items: T[];
+  hasMore: boolean;
+  nextCursor: string | null;
+};
+
+export type AdminUserType = {
+  id: string;
+  name: string;
+  email: string;
+  role: 'freelancer' | 'client' | 'admin';
+  photoURL?: string;
+  accountStatus: AccountStatus;
+  suspendedUntil?: number;   // Fin de la suspensión (sin fecha: indefinida)
+  moderationReason?: string; // Motivo que ve el usuario al intentar acceder
+  emailVerified: boolean;
+  lastSeen?: number;
+  createdAt: number;
+};
+
+export type ModerationJobType = {
+  id: string;
+  title: string;
+  description: string;
+  budget: number;
+  category: string;
+  skills: string[];
+  moderationStatus: JobModerationStatus;
+  moderationNote?: string;
+  moderatedAt?: number;
+  moderatorName?: string;
+  userId: string;
+  userName: string;
+  userStatus?: AccountStatus; // Estado de la cuenta del autor
+  organizationName?: string;
+  openReports: number;        // Denuncias abiertas sobre el trabajo
+  createdAt: number;
+};
+
+export type ReportTargetSummary = {
+  preview: string;            // Título, texto o nombre del contenido denunciado
+  authorId?: string;
+  authorName?: string;
+  authorStatus?: AccountStatus;
+  jobId?: string;             // Propuesta en la que está el contenido
+  chatId?: string;            // Chat del mensaje denunciado
+  removed: boolean;           // Ya retirado (o cuenta expulsada)
+};
+
+export type ReportType = {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  resolutionNote?: string;
+  resolvedAt?: number;
+  resolverName?: string;
+  reporterId: string;
+  reporterName: string;
+  target: ReportTargetSummary | null; // null si el contenido ya no existe
+  createdAt: number;
+};
+
+export type DisputeResolution = 'release' | 'refund';
+
+export type DisputeType = {
+  id: string;                 // ID del hito en disputa
+  title: string;
+  amount: number;
+  disputeReason?: string;
+  submissionNote?: string;
+  contractId: string;
+  contractTitle: string;
+  jobId: string;
+  clientName: string;
+  freelancerName: string;
+  disputedAt: number;         // Última actualización del hito (al abrir la disputa)
+};
+
+export type CatalogEntryType = {
+  id: number;
+  name: string;
+  jobCount?: number;          // Solo en categorías
+};
+
+export type AuditLogEntryType = {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  details: Record<string, unknown>;
+  adminId: string;
+  adminName: string;
+  createdAt: number;
+};
+
+// Formato de los datos tal y como los devuelve el servidor
+type ApiAdminUser = ApiEntity<'adminUser'>;
+type ApiModerationJob = ApiEntity<'moderationJob'>;
+type ApiReport = ApiEntity<'report'>;
+type ApiDispute = ApiEntity<'dispute'>;
+type ApiAuditLogEntry = ApiEntity<'auditLogEntry'>;
+type ApiCatalogEntry = ApiEntity<'catalogEntry'>;
+
+const toTime = (date?: string | null) => (date ? new Date(date).getTime() : undefined);
+
+const mapApiAdminUser = (user: ApiAdminUser): AdminUserType => ({
+  id: user.id,
+  name: user.name,
+  email: user.email || '',
+  role: user.role,
+  photoURL: user.photoURL || undefined,
+  accountStatus: user.accountStatus || 'active',
+  suspendedUntil: toTime(user.suspendedUntil),
+  moderationReason: user.moderationReason || undefined,
+  emailVerified: !!user.emailVerifiedAt,
+  lastSeen: toTime(user.lastSeen),
+  createdAt: new Date(user.createdAt).getTime()
+});
+
+const mapApiModerationJob = (job: ApiModerationJob): ModerationJobType => ({
+  id: job.id,
+  title: job.title,
+  description: job.description,
+  budget: job.budget,
+  category: job.category,
+  skills: job.skills || [],
+  moderationStatus: job.moderationStatus,
+  moderationNote: job.moderationNote || undefined,
+  moderatedAt: toTime(job.moderatedAt),
+  moderatorName: job.moderator?.name,
+  userId: job.user?.id || '',
+  userName: job.user?.name || 'Usuario',
+  userStatus: job.user?.accountStatus,
+  organizationName: job.organization?.name,
+  openReports: Number(job.openReports || 0),
+  createdAt: new Date(job.createdAt).getTime()
+});
+
+const mapApiReport = (report: ApiReport): ReportType => ({
+  id: report.id,
+  targetType: report.targetType,
+  targetId: report.targetId,
+  reason: report.reason,
+  details: report.details || undefined,
+  status: report.status,
+  resolutionNote: report.resolutionNote || undefined,
+  resolvedAt: toTime(report.resolvedAt),
+  resolverName: report.resolver?.name,
+  reporterId: report.reporterId,
+  reporterName: report.reporter?.name || 'Usuario',
+  target: report.target
+    ? {
+        preview: report.target.preview,
+        authorId: report.target.authorId || undefined,
+        authorName: report.target.authorName || undefined,
+        authorStatus: report.target.authorStatus || undefined,
+        jobId: report.target.jobId || undefined,
+        chatId: report.target.chatId || undefined,
+        removed: report.target.removed
+      }
+    : null,
+  createdAt: new Date(report.createdAt).getTime()
+});
+
+const mapApiDispute = (dispute: ApiDispute): DisputeType => ({
+  id: dispute.id,
+  title: dispute.title,
+  amount: dispute.amount,
+  disputeReason: dispute.disputeReason || undefined,
+  submissionNote: dispute.submissionNote || undefined,
+  contractId: dispute.contractId,
+  contractTitle: dispute.contract?.title || '',
+  jobId: dispute.contract?.jobId || '',
+  clientName: dispute.contract?.client?.name || 'Cliente',
+  freelancerName: dispute.contract?.freelancer?.name || 'Freelancer',
+  disputedAt: new Date(dispute.updatedAt).getTime()
+});
+
+const mapApiCatalogEntry = (entry: ApiCatalogEntry): CatalogEntryType => ({
+  id: entry.id,
+  name: entry.name,
+  jobCount: entry.jobCount === undefined ? undefined : Number(entry.jobCount)
+});
+
+const mapApiAuditLogEntry = (entry: ApiAuditLogEntry): AuditLogEntryType => ({
+  id: entry.id,
+  action: entry.action,
+  targetType: entry.targetType,
+  targetId: entry.targetId,
+  details: entry.details || {},
+  adminId: entry.adminId,
+  adminName: entry.admin?.name || 'Administrador',
+  createdAt: new Date(entry.createdAt).getTime()
+});
+
+/**
+ * Convertir una respuesta paginada del servidor en AdminPage
+ */
+const toPage = <TApi extends { createdAt?: string }, T>(
+  items: TApi[] | undefined,
+  hasMore: boolean,
+  map: (item: TApi) => T
+): AdminPage<T> => {
+  const list = Array.isArray(items) ? items : [];
+  return {
+    items: list.map(map),
+    hasMore: !!hasMore,
+    nextCursor: list.length > 0 ? list[list.length - 1].createdAt : null
+  };
+};
+
+/**
+ * Obtener el resumen del panel (pendientes de revisar, denuncias abiertas...)
+ */
+export const getAdminOverview = async (): Promise<AdminOverview> => {
+  const { overview } = await callApi('admin.getOverview');
+  return {
+    pendingJobs: overview.pendingJobs,
+    openReports: overview.openReports,
+    openDisputes: overview.openDisputes,
+    suspendedUsers: overview.suspendedUsers,
+    bannedUsers: overview.bannedUsers
+  };
+};
+
+/**
+ * Listar usuarios (los más recientes primero)
+ * @param before - Cursor de la página anterior
+ */
+export const getAdminUsers = async (
+  filters: { search?: string; role?: AdminUserType['role']; status?: AccountStatus },
+  before?: string | null
+): Promise<AdminPage<AdminUserType>> => {
+  const response = await callApi('admin.getUsers', { query: { ...filters, before } });
+  return toPage(response.users, response.hasMore, mapApiAdminUser);
+};
+
+/**
+ * Suspender, expulsar o readmitir a un usuario
+ * @param days - Duración de la suspensión (sin días: indefinida)
+ */
+export const updateUserStatus = async (
+  userId: string,
+  status: AccountStatus,
+  reason?: string,
+  days?: number
+): Promise<AdminUserType> => {
+  const response = await callApi('admin.updateUserStatus', { params: { userId }, body: { status, reason, days } });
+  return mapApiAdminUser(response.user);
+};
+
+/**
+ * Obtener la cola de moderación de trabajos
+ */
+export const getModerationJobs = async (
+  status: JobModerationStatus,
+  before?: string | null
+): Promise<AdminPage<ModerationJobType>> => {
+  const response = await callApi('admin.getModerationJobs', { query: { status, before } });
+  return toPage(response.jobs, response.hasMore, mapApiModerationJob);
+};
+
+/**
+ * Aprobar o retirar un trabajo (la nota es obligatoria al retirar)
+ */
+export const moderateJob = async (
+  jobId: string,
+  status: Exclude<JobModerationStatus, 'pending'>,
+  note?: string
+): Promise<void> => {
+  await callApi('admin.moderateJob', { params: { jobId }, body: { status, note } });
+};
+
+/**
+ * Listar denuncias (las más recientes primero)
+ */
+export const getReports = async (status: ReportStatus, before?: string | null): Promise<AdminPage<ReportType>> => {
+  const response = await callApi('admin.getReports', { query: { status, before } });
+  return toPage(response.reports, response.hasMore, mapApiReport);
+};
+
+/**
+ * Resolver o desestimar una denuncia
+ * @param removeContent - Retirar también el contenido denunciado (solo al resolver)
+ * @returns Número de denuncias cerradas (todas las abiertas sobre el mismo contenido)
+ */
+export const resolveReport = async (
+  reportId: string,
+  status: Exclude<ReportStatus, 'open'>,
+  note?: string,
+  removeContent = false
+): Promise<{ contentRemoved: boolean; closedCount: number }> => {
+  const response = await callApi('admin.resolveReport', { params: { reportId }, body: { status, note, removeContent } });
+  return {
+    contentRemoved: !!response.contentRemoved,
+    closedCount: response.closedCount || 0
+  };
+};
+
+/**
+ * Listar los hitos en disputa (los más antiguos primero)
+ */
+export const getDisputes = async (): Promise<DisputeType[]> => {
+  const response = await callApi('admin.getDisputes');
+  return (response.disputes || []).map(mapApiDispute);
+};
+
+/**
+ * Resolver la disputa de un hito: pagar al freelancer o devolver el importe al cliente
+ */
+export const resolveDispute = async (
+  milestoneId: string,
+  resolution: DisputeResolution,
+  note: string
+): Promise<void> => {
+  await callApi('admin.resolveDispute', { params: { milestoneId }, body: { resolution, note } });
+};
+
+/**
+ * Obtener las categorías (con el número de trabajos) o las habilidades del catálogo
+ */
+export const getCatalog = async (kind: 'categories' | 'skills'): Promise<CatalogEntryType[]> => {
+  if (kind === 'categories') {
+    const response = await callApi('admin.getCategories');
+    return (response.categories || []).map(mapApiCatalogEntry);
+  }
+
+  const response = await callApi('admin.getSkills');
+  return (response.skills || []).map(mapApiCatalogEntry);
+};
+
+/**
+ * Crear una categoría o habilidad
+ */
+export const createCatalogEntry = async (kind: 'categories' | 'skills', name: string): Promise<void> => {
+  if (kind === 'categories') {
+    await callApi('admin.createCategory', { body: { name } });
+  } else {
+    await callApi('admin.createSkill', { body: { name } });
+  }
+};
+
+/**
+ * Cambiar el nombre de una categoría o habilidad (se actualizan los trabajos que la usan)
+ */
+export const renameCatalogEntry = async (kind: 'categories' | 'skills', id: number, name: string): Promise<void> => {
+  if (kind === 'categories') {
+    await callApi('admin.updateCategory', { params: { categoryId: String(id) }, body: { name } });
+  } else {
+    await callApi('admin.updateSkill', { params: { skillId: String(id) }, body: { name } });
+  }
+};
+
+/**
+ * Eliminar una categoría (sin trabajos) o una habilidad
+ */
+export const deleteCatalogEntry = async (kind: 'categories' | 'skills', id: number): Promise<void> => {
+  if (kind === 'categories') {
+    await callApi('admin.deleteCategory', { params: { categoryId: String(id) } });
+  } else {
+    await callApi('admin.deleteSkill', { params: { skillId: String(id) } });
+  }
+};
+
+/**
+ * Obtener el registro de auditoría (las acciones más recientes primero)
+ */
+export const getAuditLog = async (
+  filters: { action?: string; targetType?: string },
+  before?: string | null
+): Promise<AdminPage<AuditLogEntryType>> => {
+  const response = await callApi('admin.getAuditLog', { query: { ...filters, before } });
+  return toPage(response.entries, response.hasMore, mapApiAuditLogEntry);
+};
@@ -1,10 +1,143 @@
 
-import { getToken } from './authService';
+import { expireSession, getRefreshToken, getToken, saveToken } from './authService';
 
 const API_URL = 'http://localhost:5000/api';
 
+// Endpoints en los que un 401 no significa que haya caducado el token de acceso
+const ENDPOINTS_WITHOUT_REFRESH = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/2fa/verify'];
+
+// Renovación en curso, compartida por todas las peticiones que reciben un 401 a la vez
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Construir el error de una respuesta fallida con el mensaje enviado por el servidor
+ */
+async function toApiError(response: Response) {
+  const contentType = response.headers.get('content-type');
+  let errorData;
+  
+  // Intentar obtener el mensaje de error como JSON si es posible
+  if (contentType && contentType.includes('application/json')) {
+    errorData = await response.json().catch(() => ({ 
+      message: `Error HTTP: ${response.status} ${response.statusText}` 
+    }));
+  } else {
+    errorData = { message: `Error HTTP: ${response.status} ${response.statusText}` };
+  }
+  
+  const error = new Error(errorData.message || 'Error en la petición') as Error & {
+    status: number;
+    data: any;
+  };
+  error.status = response.status;
+  error.data = errorData;
+  return error;
+}
+
+/**
+ * Construir el error de una petición que no llegó al servidor (sin conexión o servidor caído)
+ */
+function toNetworkError(cause: unknown) {
+  const error = new Error('No se pudo conectar con el servidor. Comprueba tu conexión.') as Error & {
+    offline: boolean;
+    cause: unknown;
+  };
+  error.offline = true;
+  error.cause = cause;
+  return error;
+}
+
+/**
+ * Indicar si un error se debe a que no hubo conexión con el servidor
+ * (a diferencia de los errores que devuelve el propio servidor, que llevan su `status`)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return !!(error as { offline?: boolean } | null)?.offline;
+}
+
+/**
+ * Cabecera de autenticación con el token actual (vacía si no hay sesión)
+ */
+function authHeaders(): Record<string, string> {
+  const token = getToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
+
+/**
+ * Renovar el token de acceso con el refresh token guardado
+ * El servidor invalida cada refresh token al usarlo, así que las peticiones
+ * simultáneas esperan a una única renovación
+ * @returns true si hay un token de acceso nuevo
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+async function requestTokenRefresh(): Promise<boolean> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return false;
+  
+  try {
+    const response = await fetch(`${API_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken })
+    });
+    
+    if (!response.ok) {
+      // Otra pestaña pudo renovar la sesión mientras tanto con el mismo refresh token
+      if (getRefreshToken() !== refreshToken) return true;
+      
+      // 403: la cuenta se ha suspendido o expulsado; se muestra el motivo
+      if (response.status === 401 || response.status === 403) {
+        const error = await toApiError(response);
+        expireSession(response.status === 403 ? error.message : undefined);
+      }
+      return false;
+    }
+    
+    const data = await response.json();
+    saveToken(data.token, data.refreshToken);
+    return true;
+  } catch (error) {
+    console.error('Error al renovar la sesión:', error);
+    return false;
+  }
+}
+
+/**
+ * Hacer una petición autenticada; si el token de acceso ha caducado,
+ * se renueva y la petición se repite una vez
+ */
+async function fetchWithAuth(endpoint: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(`${API_URL}${endpoint}`, {
+    ...init,
+    headers: { ...init.headers, ...authHeaders() }
+  }).catch(error => {
+    throw toNetworkError(error);
+  });
+  
+  const usedToken = getToken();
+  const response = await send();
+  
+  if (response.status !== 401 || !usedToken || ENDPOINTS_WITHOUT_REFRESH.includes(endpoint)) {
+    return response;
+  }
+  
+  // Si otra petición ya renovó el token, basta con repetir la petición
+  const refreshed = getToken() !== usedToken || await refreshAccessToken();
+  return refreshed ? send() : response;
+}
+
 /**
  * Función para realizar peticiones HTTP a la API
+ * La respuesta no tiene tipo: los servicios llaman a los endpoints con callApi
+ * (apiClient.ts), que la valida y la tipa con el contrato de la API
  * @param endpoint - Ruta del endpoint (sin la base URL)
  * @param method - Método HTTP (GET, POST, PUT, DELETE)
  * @param body - Cuerpo de la petición (opcional)
@@ -13,10 +146,8 @@ const API_URL = 'http://localhost:5000/api';
 export async function apiRequest(
   endpoint: string,
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-  body?: any
-) {
-  const token = getToken();
-  
+  body?: unknown
+): Promise<unknown> {
   const options: RequestInit = {
     method,
     headers: {
@@ -24,14 +155,6 @@ export async function apiRequest(
     }
   };
   
-  // Añadir token de autenticación si existe
-  if (token) {
-    options.headers = {
-      ...options.headers,
-      'Authorization': `Bearer ${token}`
-    };
-  }
-  
   // Añadir cuerpo de la petición si existe
   if (body) {
     options.body = JSON.stringify(body);
@@ -39,29 +162,13 @@ export async function apiRequest(
   
   try {
     console.log(`API Request: ${method} ${API_URL}${endpoint}`, body);
-    const response = await fetch(`${API_URL}${endpoint}`, options);
+    // El token de autenticación se añade (y renueva si hace falta) en fetchWithAuth
+    const response = await fetchWithAuth(endpoint, options);
     const contentType = response.headers.get('content-type');
     
     // Verificar si la respuesta es exitosa
     if (!response.ok) {
-      let errorData;
-      
-      // Intentar obtener el mensaje de error como JSON si es posible
-      if (contentType && contentType.includes('application/json')) {
-        errorData = await response.json().catch(() => ({ 
-          message: `Error HTTP: ${response.status} ${response.statusText}` 
-        }));
-      } else {
-        errorData = { message: `Error HTTP: ${response.status} ${response.statusText}` };
-      }
-      
-      const error = new Error(errorData.message || 'Error en la petición') as Error & {
-        status: number;
-        data: any;
-      };
-      error.status = response.status;
-      error.data = errorData;
-      throw error;
+      throw await toApiError(response);
     }
     
     // Si la respuesta no contiene contenido o no es JSON, devolver un objeto vacío
@@ -79,23 +186,43 @@ export async function apiRequest(
   }
 }
 
-// Funciones específicas para categorías y habilidades
-export async function getCategories() {
+/**
+ * Subir archivos a la API como multipart/form-data
+ * @param endpoint - Ruta del endpoint (sin la base URL)
+ * @param formData - Formulario con los archivos
+ * @returns Promise con la respuesta de la API
+ */
+export async function apiUpload(endpoint: string, formData: FormData) {
   try {
-    const response = await apiRequest('/jobs/categories');
-    return response.categories || [];
+    console.log(`API Upload: POST ${API_URL}${endpoint}`);
+    // Sin Content-Type: el navegador añade el boundary del multipart
+    const response = await fetchWithAuth(endpoint, {
+      method: 'POST',
+      body: formData
+    });
+    
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    
+    return await response.json();
   } catch (error) {
-    console.error('Error al obtener categorías:', error);
-    return [];
+    console.error('Error en la subida a la API:', error);
+    throw error;
   }
 }
 
-export async function getSkills() {
-  try {
-    const response = await apiRequest('/jobs/skills');
-    return response.skills || [];
-  } catch (error) {
-    console.error('Error al obtener habilidades:', error);
-    return [];
+/**
+ * Descargar un archivo protegido de la API
+ * @param endpoint - Ruta del endpoint (sin la base URL)
+ * @returns Promise con el contenido del archivo
+ */
+export async function apiDownload(endpoint: string): Promise<Blob> {
+  const response = await fetchWithAuth(endpoint);
+  
+  if (!response.ok) {
+    throw await toApiError(response);
   }
+  
+  return response.blob();
 }
@@ -0,0 +1,169 @@
+/**
+ * Cliente tipado de la API
+ *
+ * Genera las llamadas a partir del contrato compartido con el servidor
+ * (shared/api-contract.js): los parámetros, la query y el cuerpo de cada
+ * endpoint se tipan con sus esquemas y las respuestas se validan en tiempo
+ * de ejecución. Si el servidor devuelve algo que no cumple el contrato se
+ * avisa de la desviación y se devuelven los datos tal cual, para que un
+ * cambio en la API no deje la aplicación sin funcionar.
+ */
+
+import { z } from 'zod';
+import { apiRequest } from './api';
+import { defineContract } from '../../shared/api-contract.js';
+
+export const apiContract = defineContract(z);
+
+type ApiEndpoints = typeof apiContract.endpoints;
+type ApiSchemas = typeof apiContract.schemas;
+
+export type ApiEndpointName = keyof ApiEndpoints;
+
+// Entidad tal y como la devuelve el servidor (ej: ApiEntity<'job'>)
+export type ApiEntity<K extends keyof ApiSchemas> = z.infer<ApiSchemas[K]>;
+
+// Endpoints que devuelven JSON (las subidas y descargas usan apiUpload y apiDownload)
+type JsonEndpointName = {
+  [N in ApiEndpointName]: ApiEndpoints[N] extends { upload: boolean } | { raw: boolean } ? never : N
+}[ApiEndpointName];
+
+// Nombres de los parámetros de una ruta (ej: '/jobs/:jobId' -> 'jobId')
+type PathParams<P extends string> = P extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | PathParams<`/${Rest}`>
+  : P extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+type ParamsOption<E extends { path: string }> = [PathParams<E['path']>] extends [never]
+  ? { params?: undefined }
+  : { params: Record<PathParams<E['path']>, string> };
+
+type QueryOption<E> = E extends { query: z.ZodTypeAny } ? { query?: z.input<E['query']> } : { query?: undefined };
+
+type BodyOption<E> = E extends { body: z.ZodTypeAny } ? { body: z.input<E['body']> } : { body?: undefined };
+
+export type ApiCallOptions<N extends ApiEndpointName> =
+  ParamsOption<ApiEndpoints[N]> & QueryOption<ApiEndpoints[N]> & BodyOption<ApiEndpoints[N]>;
+
+export type ApiResponse<N extends ApiEndpointName> =
+  ApiEndpoints[N] extends { response: z.ZodTypeAny } ? z.infer<ApiEndpoints[N]['response']> : never;
+
+// Las opciones solo se pueden omitir si el endpoint no tiene parámetros ni cuerpo obligatorios
+type ApiCallArgs<N extends ApiEndpointName> =
+  Record<string, never> extends ApiCallOptions<N> ? [options?: ApiCallOptions<N>] : [options: ApiCallOptions<N>];
+
+// Forma común de todos los endpoints, para recorrerlos sin sus tipos concretos
+type EndpointDefinition = {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  response?: z.ZodTypeAny;
+};
+
+export type SchemaDriftReport = {
+  endpoint: ApiEndpointName;
+  method: string;
+  path: string;
+  issues: { path: string; message: string }[];
+};
+
+// Funciones a las que se avisa cuando una respuesta no cumple el contrato
+const schemaDriftListeners = new Set<(report: SchemaDriftReport) => void>();
+
+// Endpoints cuya desviación ya se ha avisado (una vez por endpoint y sesión)
+const reportedDrift = new Set<ApiEndpointName>();
+
+/**
+ * Suscribirse a las desviaciones del contrato detectadas en las respuestas
+ * @returns Función para cancelar la suscripción
+ */
+export const onSchemaDrift = (listener: (report: SchemaDriftReport) => void): (() => void) => {
+  schemaDriftListeners.add(listener);
+  return () => {
+    schemaDriftListeners.delete(listener);
+  };
+};
+
+const toIssueList = (error: z.ZodError) => error.issues.map(issue => ({
+  path: issue.path.join('.'),
+  message: issue.message
+}));
+
+const reportSchemaDrift = (report: SchemaDriftReport) => {
+  if (reportedDrift.has(report.endpoint)) return;
+  reportedDrift.add(report.endpoint);
+
+  console.warn(`La respuesta de ${report.method} ${report.path} no cumple el contrato de la API (${report.endpoint}):`, report.issues);
+  schemaDriftListeners.forEach(listener => listener(report));
+};
+
+/**
+ * Construir la ruta con los parámetros y la query
+ * Las listas se envían separadas por comas y los valores vacíos se omiten
+ */
+const buildEndpointPath = (path: string, params: Record<string, string> = {}, query: Record<string, unknown> = {}) => {
+  const resolved = path.replace(/:(\w+)/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Falta el parámetro "${name}" de la ruta ${path}`);
+    }
+    return encodeURIComponent(params[name]);
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.set(key, value.join(','));
+    } else {
+      search.set(key, String(value));
+    }
+  }
+
+  const queryString = search.toString();
+  return queryString ? `${resolved}?${queryString}` : resolved;
+};
+
+/**
+ * Llamar a un endpoint del contrato
+ * El cuerpo se valida antes de enviarlo (con los mismos mensajes que el servidor)
+ * y la respuesta al recibirla
+ * @param name - Nombre del endpoint en el contrato (ej: 'jobs.getJobById')
+ * @param options - Parámetros de la ruta, query y cuerpo
+ */
+export async function callApi<N extends JsonEndpointName>(
+  name: N,
+  ...[options]: ApiCallArgs<N>
+): Promise<ApiResponse<N>> {
+  const endpoint = apiContract.endpoints[name] as EndpointDefinition;
+  const { params, query, body } = (options || {}) as {
+    params?: Record<string, string>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+  };
+
+  if (endpoint.body) {
+    const validation = endpoint.body.safeParse(body ?? {}, { errorMap: apiContract.errorMap });
+    if (!validation.success) {
+      const [issue] = toIssueList(validation.error);
+      throw new Error(issue.path ? `${issue.path}: ${issue.message}` : issue.message);
+    }
+  }
+
+  const path = buildEndpointPath(endpoint.path, params, query);
+  const data = await apiRequest(path, endpoint.method, body);
+
+  const result = endpoint.response.safeParse(data, { errorMap: apiContract.errorMap });
+  if (!result.success) {
+    reportSchemaDrift({
+      endpoint: name,
+      method: endpoint.method,
+      path: endpoint.path,
+      issues: toIssueList(result.error)
+    });
+    return data as ApiResponse<N>;
+  }
+
+  return result.data;
+}
@@ -0,0 +1,147 @@
+/**
+ * Servicio de Archivos Adjuntos
+ *
+ * Este servicio gestiona los archivos adjuntos de propuestas, ofertas, comentarios
+ * y entregables de hitos: subida, listado, descarga y miniaturas de imágenes.
+ */
+
+import { apiDownload, apiUpload } from './api';
+import { ApiEntity, callApi } from './apiClient';
+
+export type AttachmentOwnerType = 'job' | 'proposal' | 'comment' | 'milestone';
+
+export type AttachmentType = {
+  id: string;            // ID único del archivo
+  name: string;          // Nombre original del archivo
+  mimeType: string;      // Tipo MIME
+  size: number;          // Tamaño en bytes
+  hasThumbnail: boolean; // Si es una imagen con miniatura
+  userId: string;        // Usuario que lo subió
+  timestamp: number;     // Marca de tiempo de la subida
+};
+
+export type JobAttachments = {
+  attachments: AttachmentType[];                        // Archivos de la propuesta
+  commentAttachments: Record<string, AttachmentType[]>; // Archivos de cada comentario
+};
+
+// Límites de subida (deben coincidir con los del servidor)
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+// Extensiones que acepta el servidor
+export const ALLOWED_ATTACHMENT_EXTENSIONS = [
+  '.pdf', '.jpg', '.jpeg', '.png', '.gif', '.webp', '.txt', '.csv',
+  '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.zip'
+];
+
+// Formato de los archivos tal y como los devuelve el servidor
+export type ApiAttachment = ApiEntity<'attachment'>;
+
+/**
+ * Convertir un archivo del servidor al formato AttachmentType
+ */
+export const mapApiAttachment = (attachment: ApiAttachment): AttachmentType => ({
+  id: attachment.id,
+  name: attachment.originalName,
+  mimeType: attachment.mimeType,
+  size: attachment.size,
+  hasThumbnail: !!attachment.thumbnailName,
+  userId: attachment.userId,
+  timestamp: new Date(attachment.createdAt).getTime()
+});
+
+const mapApiAttachments = (attachments?: ApiAttachment[]) =>
+  Array.isArray(attachments) ? attachments.map(mapApiAttachment) : [];
+
+/**
+ * Comprobar un archivo antes de subirlo
+ * @returns Mensaje de error, o null si el archivo es válido
+ */
+export const validateAttachment = (file: File): string | null => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+
+  if (!ALLOWED_ATTACHMENT_EXTENSIONS.includes(extension)) {
+    return `Tipo de archivo no permitido: ${file.name}`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} supera el tamaño máximo de 10MB`;
+  }
+  return null;
+};
+
+/**
+ * Subir archivos a una propuesta, oferta, comentario o hito
+ */
+export const uploadAttachments = async (
+  ownerType: AttachmentOwnerType,
+  ownerId: string,
+  files: File[]
+): Promise<AttachmentType[]> => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await apiUpload(`/attachments/${ownerType}/${ownerId}`, formData);
+
+  if (!Array.isArray(response.attachments)) {
+    throw new Error(response.message || 'Error al subir los archivos');
+  }
+
+  return mapApiAttachments(response.attachments);
+};
+
+/**
+ * Obtener los archivos de una propuesta y de sus comentarios
+ */
+export const getJobAttachments = async (jobId: string): Promise<JobAttachments> => {
+  const response = await callApi('attachments.getJobAttachments', { params: { jobId } });
+  const commentAttachments: Record<string, AttachmentType[]> = {};
+
+  for (const [commentId, attachments] of Object.entries(response.commentAttachments || {})) {
+    commentAttachments[commentId] = mapApiAttachments(attachments);
+  }
+
+  return {
+    attachments: mapApiAttachments(response.attachments),
+    commentAttachments
+  };
+};
+
+/**
+ * Eliminar un archivo
+ */
+export const deleteAttachment = async (attachmentId: string): Promise<void> => {
+  await callApi('attachments.deleteAttachment', { params: { attachmentId } });
+};
+
+/**
+ * Obtener la miniatura de una imagen (requiere autenticación, por eso se descarga como blob)
+ */
+export const getAttachmentThumbnail = (attachmentId: string): Promise<Blob> =>
+  apiDownload(`/attachments/${attachmentId}/thumbnail`);
+
+/**
+ * Descargar un archivo y guardarlo con su nombre original
+ */
+export const downloadAttachment = async (attachment: AttachmentType): Promise<void> => {
+  const blob = await apiDownload(`/attachments/${attachment.id}/download`);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = attachment.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Tamaño legible de un archivo
+ */
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
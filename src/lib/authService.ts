@@ -9,27 +9,42 @@
 import { UserType } from "@/contexts/DataContext";
 
 const SESSION_STORAGE_KEY = 'workflowconnect_token';
+const REFRESH_STORAGE_KEY = 'workflowconnect_refresh_token';
 const USER_STORAGE_KEY = 'workflowconnect_user';
 
+// Funciones a las que se avisa cuando la sesión caduca y no se puede renovar
+const sessionExpiredListeners = new Set<(reason?: string) => void>();
+
 /**
- * Obtiene el token JWT almacenado
+ * Obtiene el token de acceso JWT almacenado
  */
 export const getToken = (): string | null => {
   return localStorage.getItem(SESSION_STORAGE_KEY);
 };
 
 /**
- * Guarda el token JWT
+ * Guarda el token de acceso JWT y, si se indica, el refresh token que lo acompaña
  */
-export const saveToken = (token: string): void => {
+export const saveToken = (token: string, refreshToken?: string): void => {
   localStorage.setItem(SESSION_STORAGE_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_STORAGE_KEY, refreshToken);
+  }
 };
 
 /**
- * Elimina el token JWT
+ * Obtiene el refresh token almacenado
+ */
+export const getRefreshToken = (): string | null => {
+  return localStorage.getItem(REFRESH_STORAGE_KEY);
+};
+
+/**
+ * Elimina el token de acceso y el refresh token
  */
 export const removeToken = (): void => {
   localStorage.removeItem(SESSION_STORAGE_KEY);
+  localStorage.removeItem(REFRESH_STORAGE_KEY);
 };
 
 /**
@@ -75,3 +90,23 @@ export const clearSession = (): void => {
   removeToken();
   removeUserData();
 };
+
+/**
+ * Suscribirse al aviso de sesión caducada
+ * @returns Función para cancelar la suscripción
+ */
+export const onSessionExpired = (listener: (reason?: string) => void): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+/**
+ * Cierra la sesión local cuando ya no se puede renovar y avisa a los suscriptores
+ * @param reason - Mensaje del servidor (ej: la cuenta ha sido suspendida)
+ */
+export const expireSession = (reason?: string): void => {
+  clearSession();
+  sessionExpiredListeners.forEach(listener => listener(reason));
+};
@@ -1,194 +1,584 @@
-
 /**
  * Servicio de Chat
- * 
- * Este servicio proporciona funcionalidades temporales para la gestión de chats
- * mientras se implementa un backend personalizado.
- */
-
-import { ChatType, MessageType } from "@/contexts/ChatContext";
-
-// Estado local para los chats (simula una base de datos)
-let CHATS: ChatType[] = [
-  {
-    id: "chat1",
-    name: "",
-    participants: ["user1", "user3"],
-    messages: [
-      {
-        id: "msg1",
-        senderId: "user3",
-        content: "Hola, me interesa tu perfil para un proyecto",
-        timestamp: Date.now() - 86400000 // 1 día atrás
-      },
-      {
-        id: "msg2",
-        senderId: "user1",
-        content: "Hola, gracias por contactarme. Cuéntame más sobre el proyecto.",
-        timestamp: Date.now() - 86400000 + 3600000 // 1 día atrás + 1 hora
-      }
-    ],
-    isGroup: false,
-    lastMessage: {
-      id: "msg2",
-      senderId: "user1",
-      content: "Hola, gracias por contactarme. Cuéntame más sobre el proyecto.",
-      timestamp: Date.now() - 86400000 + 3600000
-    }
-  },
-  {
-    id: "chat2",
-    name: "Proyecto Web App",
-    participants: ["user1", "user2", "user3"],
-    messages: [
-      {
-        id: "msg3",
-        senderId: "user3",
-        content: "He creado este grupo para coordinar el nuevo proyecto",
-        timestamp: Date.now() - 172800000 // 2 días atrás
-      },
-      {
-        id: "msg4",
-        senderId: "user2",
-        content: "Perfecto, ¿cuándo comenzamos?",
-        timestamp: Date.now() - 172800000 + 3600000 // 2 días atrás + 1 hora
-      }
-    ],
-    isGroup: true,
-    lastMessage: {
-      id: "msg4",
-      senderId: "user2",
-      content: "Perfecto, ¿cuándo comenzamos?",
-      timestamp: Date.now() - 172800000 + 3600000
+ *
+ * Este servicio conecta el chat con el backend:
+ * - Carga y creación de chats mediante la API REST (/api/chats)
+ * - Envío y recepción de mensajes en tiempo real mediante Socket.IO
+ * - Sin conexión, los chats se leen de la última copia guardada y los mensajes
+ *   se guardan en la cola de cambios pendientes (ver offlineQueue)
+ */
+
+import { isNetworkError } from './api';
+import { ApiEntity, ApiResponse, callApi } from './apiClient';
+import { getSocket } from './socket';
+import { withOfflineCache } from './offlineStore';
+import { QueuedMutation, createMutationId, getQueuedMutations, queueMutation } from './offlineQueue';
+import { UserType } from '@/contexts/DataContext';
+import {
+  ChatType,
+  MessageType,
+  ChatParticipantType,
+  MessageReceiptType,
+  MessageReactionType
+} from "@/contexts/ChatContext";
+
+// Tiempo máximo de espera para la confirmación del servidor al enviar por socket
+const SOCKET_ACK_TIMEOUT = 5000;
+
+// Reacciones disponibles (deben coincidir con las del servidor)
+export const MESSAGE_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Tiempo durante el que se puede eliminar un mensaje para todos (debe coincidir con el servidor)
+export const MESSAGE_DELETE_WINDOW = 60 * 60 * 1000;
+
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'read';
+
+// Formato de los chats y mensajes tal y como los devuelve el servidor
+export type ApiChatMessage = ApiEntity<'chatMessage'>;
+export type ApiChat = ApiEntity<'chat'>;
+
+// Recibos de entrega y lectura, y reacciones (una por usuario y emoji) de un mensaje
+type ApiMessageReceipt = NonNullable<ApiChatMessage['receipts']>[number];
+type ApiMessageReaction = NonNullable<ApiChatMessage['reactions']>[number];
+
+const mapApiReceipt = (receipt: ApiMessageReceipt): MessageReceiptType => ({
+  userId: receipt.userId,
+  deliveredAt: receipt.deliveredAt ? new Date(receipt.deliveredAt).getTime() : undefined,
+  readAt: receipt.readAt ? new Date(receipt.readAt).getTime() : undefined
+});
+
+/**
+ * Agrupar las reacciones de un mensaje por emoji, en el orden en que se usaron por primera vez
+ */
+const mapApiReactions = (reactions: ApiMessageReaction[] = []): MessageReactionType[] => {
+  const sorted = [...reactions].sort((a, b) =>
+    new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
+  );
+
+  return sorted.reduce<MessageReactionType[]>((groups, reaction) => {
+    const group = groups.find(g => g.emoji === reaction.emoji);
+    if (group) {
+      group.userIds.push(reaction.userId);
+    } else {
+      groups.push({ emoji: reaction.emoji, userIds: [reaction.userId] });
     }
-  }
-];
+    return groups;
+  }, []);
+};
+
+/**
+ * Convertir un mensaje del servidor al formato MessageType
+ * Los mensajes sin usuario son mensajes del sistema
+ */
+export const mapApiMessage = (message: ApiChatMessage): MessageType => ({
+  id: message.id,
+  chatId: message.chatId,
+  senderId: message.userId || 'system',
+  senderName: message.user?.name,
+  senderPhoto: message.user?.photoURL || undefined,
+  content: message.content,
+  timestamp: new Date(message.createdAt).getTime(),
+  editedAt: message.editedAt ? new Date(message.editedAt).getTime() : undefined,
+  deletedAt: message.deletedAt ? new Date(message.deletedAt).getTime() : undefined,
+  receipts: (message.receipts || []).map(mapApiReceipt),
+  reactions: mapApiReactions(message.reactions)
+});
+
+/**
+ * Convertir un chat del servidor al formato ChatType
+ * Los mensajes se ordenan del más antiguo al más reciente
+ */
+export const mapApiChat = (chat: ApiChat): ChatType => {
+  const messages = (chat.messages || [])
+    .map(mapApiMessage)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const participantDetails: ChatParticipantType[] = (chat.participants || []).map(participant => ({
+    id: participant.id,
+    name: participant.name,
+    photoURL: participant.photoURL || undefined,
+    isOnline: participant.isOnline,
+    lastSeen: participant.lastSeen ? new Date(participant.lastSeen).getTime() : undefined
+  }));
+
+  return {
+    id: chat.id,
+    name: chat.name || '',
+    participants: participantDetails.map(participant => participant.id),
+    participantDetails,
+    messages,
+    isGroup: chat.isGroup,
+    lastMessage: messages.length > 0 ? messages[messages.length - 1] : undefined
+  };
+};
+
+/**
+ * Mensaje de la cola, con un ID provisional hasta enviarse
+ */
+export const mapQueuedMessage = (mutation: QueuedMutation<'message'>): MessageType => ({
+  id: `pending-${mutation.id}`,
+  chatId: mutation.payload.chatId,
+  senderId: mutation.payload.author.id,
+  senderName: mutation.payload.author.name,
+  senderPhoto: mutation.payload.author.photoURL,
+  content: mutation.payload.content,
+  timestamp: mutation.createdAt,
+  receipts: [],
+  pending: true
+});
+
+/**
+ * Obtener todos los chats del usuario autenticado
+ */
+export const getChats = (): Promise<ChatType[]> => withOfflineCache('chats:list', async () => {
+  const response = await callApi('chats.getChats');
+  return Array.isArray(response.chats) ? response.chats.map(mapApiChat) : [];
+});
+
+/**
+ * Obtener un chat por ID con sus mensajes
+ * Incluye al final los mensajes pendientes de enviar
+ */
+export const getChatById = async (chatId: string): Promise<ChatType | null> => {
+  const chat = await withOfflineCache<ChatType | null>(`chats:${chatId}`, async () => {
+    const response = await callApi('chats.getChat', { params: { chatId } });
+    if (!response.chat) return null;
+
+    // El chat trae solo los mensajes más recientes; el resto se pide con getChatMessages
+    return {
+      ...mapApiChat(response.chat),
+      hasOlderMessages: !!response.hasOlderMessages,
+      hasNewerMessages: false
+    };
+  });
+  if (!chat) return null;
+
+  const queued = (await getQueuedMutations('message')).filter(mutation => mutation.payload.chatId === chatId);
+  return queued.length > 0 ? { ...chat, messages: [...chat.messages, ...queued.map(mapQueuedMessage)] } : chat;
+};
 
-// Mapa de callbacks para simular listeners en tiempo real
-const listeners: ((chats: ChatType[]) => void)[] = [];
+// Referencia para paginar el historial: solo se usa una de las tres
+export type MessageCursor = {
+  before?: string;  // Mensajes anteriores a este ID
+  after?: string;   // Mensajes posteriores a este ID
+  around?: string;  // Este mensaje con contexto a ambos lados
+};
 
-// Función para notificar a los listeners cuando hay cambios
-const notifyListeners = () => {
-  listeners.forEach(callback => callback([...CHATS]));
+export type MessagePage = {
+  messages: MessageType[]; // Del más antiguo al más reciente
+  hasOlder: boolean;       // Quedan mensajes anteriores
+  hasNewer: boolean;       // Quedan mensajes posteriores
 };
 
 /**
- * Obtener todos los chats para un usuario
+ * Obtener una página del historial de un chat
  */
-export const getChats = async (userId: string): Promise<ChatType[]> => {
-  await new Promise(resolve => setTimeout(resolve, 500));
-  return CHATS.filter(chat => chat.participants.includes(userId)).map(chat => ({ ...chat }));
+export const getChatMessages = async (
+  chatId: string,
+  cursor: MessageCursor = {},
+  limit?: number
+): Promise<MessagePage> => {
+  const response = await callApi('chats.getMessages', {
+    params: { chatId },
+    query: { ...cursor, limit }
+  });
+
+  if (!Array.isArray(response.messages)) {
+    throw new Error(response.message || 'Error al cargar los mensajes');
+  }
+
+  return {
+    messages: response.messages.map(mapApiMessage),
+    hasOlder: !!response.hasOlder,
+    hasNewer: !!response.hasNewer
+  };
 };
 
 /**
  * Crear un nuevo chat
+ * Para chats privados el servidor devuelve el chat existente si ya lo hay
  */
 export const createChat = async (participantIds: string[], name = ""): Promise<ChatType> => {
-  await new Promise(resolve => setTimeout(resolve, 700));
-  
   const isGroup = participantIds.length > 2 || !!name;
-  
+
+  const response = await callApi('chats.createChat', {
+    body: { participantIds, name, isGroup }
+  });
+
+  if (!response.chat) {
+    throw new Error(response.message || 'Error al crear chat');
+  }
+
   const newChat: ChatType = {
-    id: `chat${Date.now()}`,
-    name,
-    participants: participantIds,
-    messages: [],
-    isGroup
+    ...mapApiChat(response.chat),
+    hasOlderMessages: !!response.hasOlderMessages,
+    hasNewerMessages: false
   };
-  
-  CHATS = [...CHATS, newChat];
-  
-  // Notificar a los listeners sobre el cambio
-  notifyListeners();
-  
-  return { ...newChat };
+
+  // Unirse a la sala del chat para recibir sus mensajes
+  joinChatRoom(newChat.id);
+
+  return newChat;
+};
+
+// Respuesta de confirmación (ack) del servidor a los eventos del socket
+interface SocketAck {
+  success: boolean;
+  message?: string;
+  chatMessage?: ApiChatMessage;
+  reactions?: ApiMessageReaction[];
+}
+
+/**
+ * Emitir un evento por el socket y esperar la confirmación del servidor
+ * @returns La respuesta, o null si el socket no está conectado (se usa la API REST)
+ */
+const emitWithAck = async (event: string, payload: object, errorMessage: string): Promise<SocketAck | null> => {
+  const socket = getSocket();
+  if (!socket || !socket.connected) return null;
+
+  const response = await new Promise<SocketAck>((resolve, reject) => {
+    socket.timeout(SOCKET_ACK_TIMEOUT).emit(event, payload, (error: Error | null, ack: SocketAck) => {
+      if (error) {
+        reject(new Error('El servidor no confirmó la operación'));
+        return;
+      }
+      resolve(ack);
+    });
+  });
+
+  if (!response.success) {
+    throw new Error(response.message || errorMessage);
+  }
+
+  return response;
 };
 
 /**
  * Enviar un mensaje a un chat
+ * Se usa el socket cuando está conectado y la API REST como alternativa;
+ * sin conexión el mensaje se guarda en la cola y se devuelve como pendiente
  */
-export const sendMessage = async (chatId: string, senderId: string, content: string): Promise<MessageType> => {
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  const chatIndex = CHATS.findIndex(chat => chat.id === chatId);
-  if (chatIndex === -1) {
-    throw new Error('Chat no encontrado');
+export const sendMessage = async (chatId: string, content: string, sender: UserType): Promise<MessageType> => {
+  // La misma clave en el socket, la API REST y la cola evita duplicar el mensaje
+  const idempotencyKey = createMutationId();
+  const ack = await emitWithAck('send_message', { chatId, content, idempotencyKey }, 'Error al enviar mensaje');
+
+  let response: SocketAck | ApiResponse<'chats.sendMessage'> | null = ack;
+  if (!response) {
+    try {
+      response = await callApi('chats.sendMessage', { params: { chatId }, body: { content, idempotencyKey } });
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+
+      const mutation = await queueMutation('message', {
+        chatId,
+        content,
+        author: { id: sender.id, name: sender.name, photoURL: sender.photoURL }
+      }, idempotencyKey);
+      return mapQueuedMessage(mutation);
+    }
+  }
+
+  if (!response.chatMessage) {
+    throw new Error(response.message || 'Error al enviar mensaje');
   }
-  
-  const newMessage: MessageType = {
-    id: `msg_${Date.now()}`,
-    senderId,
-    content,
-    timestamp: Date.now()
-  };
-  
-  CHATS[chatIndex].messages.push(newMessage);
-  CHATS[chatIndex].lastMessage = newMessage;
-  
-  // Notificar a los listeners sobre el cambio
-  notifyListeners();
-  
-  return { ...newMessage };
-};
-
-/**
- * Añadir un participante a un chat existente
- */
-export const addParticipantToChat = async (chatId: string, participantId: string): Promise<boolean> => {
-  await new Promise(resolve => setTimeout(resolve, 400));
-  
-  const chatIndex = CHATS.findIndex(chat => chat.id === chatId);
-  if (chatIndex === -1) {
-    throw new Error('Chat no encontrado');
+
+  return mapApiMessage(response.chatMessage);
+};
+
+/**
+ * Editar el contenido de un mensaje propio
+ */
+export const editMessage = async (chatId: string, messageId: string, content: string): Promise<MessageType> => {
+  const ack = await emitWithAck('edit_message', { chatId, messageId, content }, 'Error al editar mensaje');
+  const response = ack || await callApi('chats.editMessage', { params: { chatId, messageId }, body: { content } });
+
+  if (!response.chatMessage) {
+    throw new Error(response.message || 'Error al editar mensaje');
   }
-  
-  if (CHATS[chatIndex].participants.includes(participantId)) {
-    return false;
+
+  return mapApiMessage(response.chatMessage);
+};
+
+/**
+ * Eliminar un mensaje propio para todos los participantes
+ */
+export const deleteMessage = async (chatId: string, messageId: string): Promise<void> => {
+  const ack = await emitWithAck('delete_message', { chatId, messageId }, 'Error al eliminar mensaje');
+  if (!ack) {
+    await callApi('chats.deleteMessage', { params: { chatId, messageId } });
   }
-  
-  CHATS[chatIndex].participants = [...CHATS[chatIndex].participants, participantId];
-  
-  // Añadir un mensaje del sistema
-  const systemMessage: MessageType = {
-    id: `msg_${Date.now()}`,
-    senderId: "system",
-    content: "Un nuevo participante se ha unido al chat",
-    timestamp: Date.now()
-  };
-  
-  CHATS[chatIndex].messages = [...CHATS[chatIndex].messages, systemMessage];
-  CHATS[chatIndex].lastMessage = systemMessage;
-  
-  // Notificar a los listeners sobre el cambio
-  notifyListeners();
-  
-  return true;
-};
-
-/**
- * Configurar un listener para cambios en los chats
- * Esta función simula la funcionalidad en tiempo real que antes proporcionaba Firebase
- */
-export const setupChatListener = (callback: (chats: ChatType[]) => void) => {
-  listeners.push(callback);
-  
-  // Llamar inmediatamente con los datos actuales
-  callback([...CHATS]);
-  
-  // Devolver una función para eliminar el listener
+};
+
+/**
+ * Añadir o quitar una reacción del usuario a un mensaje
+ * @returns Las reacciones del mensaje tras el cambio
+ */
+export const toggleMessageReaction = async (
+  chatId: string,
+  messageId: string,
+  emoji: string
+): Promise<MessageReactionType[]> => {
+  const ack = await emitWithAck('toggle_reaction', { chatId, messageId, emoji }, 'Error al reaccionar al mensaje');
+  const response = ack || await callApi('chats.toggleReaction', { params: { chatId, messageId }, body: { emoji } });
+
+  return mapApiReactions(response.reactions);
+};
+
+export type MessageEditType = {
+  id: string;
+  content: string;    // Contenido antes de la edición
+  timestamp: number;  // Cuándo se reemplazó
+};
+
+/**
+ * Obtener las versiones anteriores de un mensaje editado
+ */
+export const getMessageEdits = async (chatId: string, messageId: string): Promise<MessageEditType[]> => {
+  const response = await callApi('chats.getMessageEdits', { params: { chatId, messageId } });
+
+  return Array.isArray(response.edits)
+    ? response.edits.map(edit => ({
+      id: edit.id,
+      content: edit.content,
+      timestamp: new Date(edit.createdAt).getTime()
+    }))
+    : [];
+};
+
+/**
+ * Se puede eliminar un mensaje para todos solo poco después de enviarlo
+ */
+export const canDeleteMessage = (message: MessageType) =>
+  !message.deletedAt && Date.now() - message.timestamp < MESSAGE_DELETE_WINDOW;
+
+/**
+ * Añadir un participante a un chat grupal existente
+ */
+export const addParticipantToChat = async (chatId: string, participantId: string): Promise<ChatType> => {
+  const response = await callApi('chats.addParticipant', { params: { chatId }, body: { userId: participantId } });
+
+  if (!response.chat) {
+    throw new Error(response.message || 'Error al añadir participante');
+  }
+
+  return mapApiChat(response.chat);
+};
+
+/**
+ * Unirse a la sala de un chat en el socket
+ */
+export const joinChatRoom = (chatId: string) => {
+  const socket = getSocket();
+  socket?.emit('join_chat', { chatId });
+};
+
+/**
+ * Marcar como leídos los mensajes de un chat
+ */
+export const markChatAsRead = (chatId: string) => {
+  const socket = getSocket();
+  socket?.emit('mark_read', { chatId });
+};
+
+/**
+ * Avisar al resto de participantes de que el usuario está escribiendo
+ */
+export const sendTyping = (chatId: string) => {
+  const socket = getSocket();
+  socket?.emit('typing', { chatId });
+};
+
+/**
+ * Avisar de que el usuario ha dejado de escribir
+ */
+export const sendStopTyping = (chatId: string) => {
+  const socket = getSocket();
+  socket?.emit('stop_typing', { chatId });
+};
+
+/**
+ * Estado de un mensaje propio según sus recibos
+ * - pending: escrito sin conexión, aún no ha llegado al servidor
+ * - read: todos los destinatarios lo han leído
+ * - delivered: ha llegado a todos los destinatarios
+ * - sent: el servidor lo ha guardado pero algún destinatario no lo ha recibido
+ */
+export const getMessageStatus = (message: MessageType): MessageStatus => {
+  if (message.pending) return 'pending';
+  const receipts = message.receipts || [];
+  if (receipts.length === 0) return 'sent';
+  if (receipts.every(receipt => receipt.readAt)) return 'read';
+  if (receipts.every(receipt => receipt.deliveredAt)) return 'delivered';
+  return 'sent';
+};
+
+// Evento de entrega o lectura de los mensajes de un chat por un usuario
+export interface ReceiptEvent {
+  chatId: string;
+  userId: string;
+  timestamp: number;
+}
+
+// Cambio de estado de conexión de un usuario
+export interface PresenceEvent {
+  userId: string;
+  isOnline: boolean;
+  lastSeen: number;
+}
+
+// Usuario que está escribiendo en un chat
+export interface TypingEvent {
+  chatId: string;
+  userId: string;
+  userName?: string;
+}
+
+// Reacciones de un mensaje tras un cambio
+export interface ReactionsEvent {
+  chatId: string;
+  messageId: string;
+  reactions: MessageReactionType[];
+}
+
+// Mensaje eliminado para todos
+export interface MessageDeletedEvent {
+  chatId: string;
+  messageId: string;
+  timestamp: number;
+}
+
+// Callbacks para los eventos de chat en tiempo real
+export interface ChatEventHandlers {
+  onNewMessage: (message: MessageType) => void;
+  onChatCreated: (chat: ChatType) => void;
+  onReconnect?: () => void;
+  onUserStatusChange?: (event: PresenceEvent) => void;
+  onUserTyping?: (event: TypingEvent) => void;
+  onUserStoppedTyping?: (event: TypingEvent) => void;
+  onMessagesDelivered?: (event: ReceiptEvent) => void;
+  onMessagesRead?: (event: ReceiptEvent) => void;
+  onMessageEdited?: (message: MessageType) => void;
+  onMessageDeleted?: (event: MessageDeletedEvent) => void;
+  onMessageReactions?: (event: ReactionsEvent) => void;
+}
+
+/**
+ * Suscribirse a los eventos de chat del socket
+ * Devuelve una función para cancelar la suscripción
+ */
+export const subscribeToChatEvents = (handlers: ChatEventHandlers) => {
+  const socket = getSocket();
+  if (!socket) return () => {};
+
+  const handleNewMessage = (message: ApiChatMessage) => {
+    handlers.onNewMessage(mapApiMessage(message));
+  };
+
+  const handleChatCreated = (chat: ApiChat) => {
+    joinChatRoom(chat.id);
+    handlers.onChatCreated(mapApiChat(chat));
+  };
+
+  const handleReconnect = () => {
+    handlers.onReconnect?.();
+  };
+
+  const handleStatusChange = (event: { userId: string; isOnline: boolean; lastSeen: string }) => {
+    handlers.onUserStatusChange?.({
+      userId: event.userId,
+      isOnline: event.isOnline,
+      lastSeen: new Date(event.lastSeen).getTime()
+    });
+  };
+
+  const handleTyping = (event: TypingEvent) => {
+    handlers.onUserTyping?.(event);
+  };
+
+  const handleStoppedTyping = (event: TypingEvent) => {
+    handlers.onUserStoppedTyping?.(event);
+  };
+
+  const handleDelivered = (event: { chatId: string; userId: string; deliveredAt: string }) => {
+    handlers.onMessagesDelivered?.({
+      chatId: event.chatId,
+      userId: event.userId,
+      timestamp: new Date(event.deliveredAt).getTime()
+    });
+  };
+
+  const handleRead = (event: { chatId: string; userId: string; readAt: string }) => {
+    handlers.onMessagesRead?.({
+      chatId: event.chatId,
+      userId: event.userId,
+      timestamp: new Date(event.readAt).getTime()
+    });
+  };
+
+  const handleEdited = (message: ApiChatMessage) => {
+    handlers.onMessageEdited?.(mapApiMessage(message));
+  };
+
+  const handleDeleted = (event: { chatId: string; messageId: string; deletedAt: string }) => {
+    handlers.onMessageDeleted?.({
+      chatId: event.chatId,
+      messageId: event.messageId,
+      timestamp: new Date(event.deletedAt).getTime()
+    });
+  };
+
+  const handleReactions = (event: { chatId: string; messageId: string; reactions: ApiMessageReaction[] }) => {
+    handlers.onMessageReactions?.({
+      chatId: event.chatId,
+      messageId: event.messageId,
+      reactions: mapApiReactions(event.reactions)
+    });
+  };
+
+  socket.on('new_message', handleNewMessage);
+  socket.on('chat_created', handleChatCreated);
+  socket.on('user_status_change', handleStatusChange);
+  socket.on('user_typing', handleTyping);
+  socket.on('user_stopped_typing', handleStoppedTyping);
+  socket.on('messages_delivered', handleDelivered);
+  socket.on('messages_read', handleRead);
+  socket.on('message_edited', handleEdited);
+  socket.on('message_deleted', handleDeleted);
+  socket.on('message_reactions', handleReactions);
+  socket.io.on('reconnect', handleReconnect);
+
   return () => {
-    const index = listeners.indexOf(callback);
-    if (index !== -1) {
-      listeners.splice(index, 1);
-    }
+    socket.off('new_message', handleNewMessage);
+    socket.off('chat_created', handleChatCreated);
+    socket.off('user_status_change', handleStatusChange);
+    socket.off('user_typing', handleTyping);
+    socket.off('user_stopped_typing', handleStoppedTyping);
+    socket.off('messages_delivered', handleDelivered);
+    socket.off('messages_read', handleRead);
+    socket.off('message_edited', handleEdited);
+    socket.off('message_deleted', handleDeleted);
+    socket.off('message_reactions', handleReactions);
+    socket.io.off('reconnect', handleReconnect);
   };
 };
 
 /**
- * Obtener un chat por ID
+ * Suscribirse solo a los mensajes nuevos (ej: para las notificaciones de escritorio)
+ * Devuelve una función para cancelar la suscripción
  */
-export const getChatById = async (chatId: string): Promise<ChatType | null> => {
-  await new Promise(resolve => setTimeout(resolve, 200));
-  const chat = CHATS.find(chat => chat.id === chatId);
-  return chat ? { ...chat } : null;
+export const subscribeToNewMessages = (onMessage: (message: MessageType) => void) => {
+  const socket = getSocket();
+  if (!socket) return () => {};
+
+  const handleNewMessage = (message: ApiChatMessage) => {
+    onMessage(mapApiMessage(message));
+  };
+
+  socket.on('new_message', handleNewMessage);
+
+  return () => {
+    socket.off('new_message', handleNewMessage);
+  };
 };
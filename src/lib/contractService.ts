@@ -0,0 +1,187 @@
+/**
+ * Servicio de Contratos
+ *
+ * Este servicio gestiona los contratos que se crean al aceptar una oferta
+ * y sus hitos de pago, cuyo dinero se retiene en garantía en el servidor.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { AttachmentType, mapApiAttachment } from './attachmentService';
+
+export type ContractStatus = 'active' | 'completed' | 'cancelled';
+
+// client: actúa en nombre del cliente; viewer: miembro de la organización que solo puede consultarlo
+export type ContractRole = 'client' | 'freelancer' | 'viewer';
+
+export type MilestoneStatus = 'pending' | 'funded' | 'submitted' | 'approved' | 'released' | 'disputed' | 'refunded';
+
+export type MilestoneAction = 'fund' | 'submit' | 'approve' | 'release' | 'dispute' | 'refund';
+
+export type MilestoneType = {
+  id: string;                 // ID único del hito
+  title: string;              // Título del hito
+  description?: string;       // Descripción del trabajo a entregar
+  amount: number;             // Importe del hito
+  dueDate?: string;           // Fecha de entrega (YYYY-MM-DD)
+  status: MilestoneStatus;    // Estado actual del hito
+  submissionNote?: string;    // Nota del freelancer al entregar
+  disputeReason?: string;     // Motivo de la disputa
+  resolutionNote?: string;    // Motivo de la devolución o resolución de la disputa
+  files: AttachmentType[];    // Entregables subidos por el freelancer
+};
+
+export type ContractPartyType = {
+  id: string;
+  name: string;
+  photoURL?: string;
+};
+
+export type ContractBalancesType = {
+  funded: number;             // Total aportado por el cliente
+  refunded: number;           // Total devuelto al cliente
+  inEscrow: number;           // Importe retenido en garantía
+  released: number;           // Total pagado al freelancer
+  reconciled: boolean;        // El libro contable cuadra
+};
+
+export type ContractType = {
+  id: string;                 // ID único del contrato
+  jobId: string;              // Trabajo del contrato
+  title: string;              // Título (el del trabajo)
+  totalAmount: number;        // Importe acordado
+  status: ContractStatus;     // Estado del contrato
+  client?: ContractPartyType;     // Cliente que contrata
+  freelancer?: ContractPartyType; // Freelancer contratado
+  clientId: string;
+  freelancerId: string;
+  milestones: MilestoneType[];    // Hitos de pago
+  balances?: ContractBalancesType; // Saldos calculados a partir del libro contable
+  role?: ContractRole;            // Papel del usuario actual en el contrato
+  timestamp: number;          // Fecha de creación
+};
+
+export type MilestoneInput = {
+  title: string;
+  description?: string;
+  amount: number;
+  dueDate?: string;
+};
+
+// Formato de los contratos tal y como los devuelve el servidor
+type ApiMilestone = ApiEntity<'milestone'>;
+type ApiContract = ApiEntity<'contract'>;
+type ApiContractParty = NonNullable<ApiContract['client']>;
+
+/**
+ * Convertir un hito del servidor al formato MilestoneType
+ */
+const mapApiMilestone = (milestone: ApiMilestone): MilestoneType => ({
+  id: milestone.id,
+  title: milestone.title,
+  description: milestone.description || undefined,
+  amount: milestone.amount,
+  dueDate: milestone.dueDate || undefined,
+  status: milestone.status,
+  submissionNote: milestone.submissionNote || undefined,
+  disputeReason: milestone.disputeReason || undefined,
+  resolutionNote: milestone.resolutionNote || undefined,
+  files: Array.isArray(milestone.files) ? milestone.files.map(mapApiAttachment) : []
+});
+
+const mapApiContractParty = (party?: ApiContractParty): ContractPartyType | undefined => party && ({
+  id: party.id,
+  name: party.name,
+  photoURL: party.photoURL || undefined
+});
+
+/**
+ * Convertir un contrato del servidor al formato ContractType
+ */
+const mapApiContract = (contract: ApiContract): ContractType => ({
+  id: contract.id,
+  jobId: contract.jobId,
+  title: contract.title,
+  totalAmount: contract.totalAmount,
+  status: contract.status,
+  client: mapApiContractParty(contract.client),
+  freelancer: mapApiContractParty(contract.freelancer),
+  clientId: contract.clientId,
+  freelancerId: contract.freelancerId,
+  milestones: (contract.milestones || []).map(mapApiMilestone),
+  balances: contract.balances && {
+    funded: contract.balances.funded,
+    refunded: contract.balances.refunded,
+    inEscrow: contract.balances.inEscrow,
+    released: contract.balances.released,
+    reconciled: contract.balances.reconciled
+  },
+  role: contract.role || undefined,
+  timestamp: new Date(contract.createdAt).getTime()
+});
+
+/**
+ * Comprobar la respuesta y devolver el contrato que incluye
+ */
+const contractFromResponse = (response: { contract?: ApiContract; message?: string }, fallbackMessage: string) => {
+  if (!response.contract) {
+    throw new Error(response.message || fallbackMessage);
+  }
+
+  return mapApiContract(response.contract);
+};
+
+/**
+ * Obtener los contratos del usuario actual
+ */
+export const getMyContracts = async (): Promise<ContractType[]> => {
+  const response = await callApi('contracts.getMyContracts');
+  return Array.isArray(response.contracts) ? response.contracts.map(mapApiContract) : [];
+};
+
+/**
+ * Obtener un contrato por ID
+ */
+export const getContract = async (contractId: string): Promise<ContractType> => {
+  const response = await callApi('contracts.getContract', { params: { contractId } });
+  return contractFromResponse(response, 'Contrato no encontrado');
+};
+
+/**
+ * Obtener el contrato de un trabajo
+ */
+export const getJobContract = async (jobId: string): Promise<ContractType> => {
+  const response = await callApi('contracts.getJobContract', { params: { jobId } });
+  return contractFromResponse(response, 'Contrato no encontrado');
+};
+
+/**
+ * Añadir un hito a un contrato (solo el cliente)
+ */
+export const createMilestone = async (contractId: string, data: MilestoneInput): Promise<ContractType> => {
+  const response = await callApi('contracts.createMilestone', { params: { contractId }, body: data });
+  return contractFromResponse(response, 'Error al crear el hito');
+};
+
+/**
+ * Eliminar un hito sin financiar (solo el cliente)
+ */
+export const deleteMilestone = async (contractId: string, milestoneId: string): Promise<ContractType> => {
+  const response = await callApi('contracts.deleteMilestone', { params: { contractId, milestoneId } });
+  return contractFromResponse(response, 'Error al eliminar el hito');
+};
+
+/**
+ * Aplicar una acción a un hito (financiar, entregar, aprobar, liberar, disputar o devolver)
+ */
+export const updateMilestone = async (
+  contractId: string,
+  milestoneId: string,
+  action: MilestoneAction,
+  note?: string
+): Promise<ContractType> => {
+  const response = await callApi('contracts.updateMilestone', {
+    params: { contractId, milestoneId, action },
+    body: { note }
+  });
+  return contractFromResponse(response, 'Error al actualizar el hito');
+};
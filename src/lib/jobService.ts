@@ -2,88 +2,234 @@
 /**
  * Servicio de Gestión de Trabajos
  * 
- * Este servicio proporciona funcionalidades para gestionar trabajos
- * a través de la API o usando datos locales como fallback.
+ * Este servicio proporciona funcionalidades para gestionar trabajos a través de la API.
+ * Sin conexión, los trabajos se leen de la última copia guardada y los comentarios
+ * y respuestas se guardan en la cola de cambios pendientes (ver offlineQueue).
  */
 
-import { apiRequest } from './api';
+import { isNetworkError } from './api';
+import { ApiEntity, callApi } from './apiClient';
+import { withOfflineCache } from './offlineStore';
+import { QueuedMutation, createMutationId, getQueuedMutations, queueMutation } from './offlineQueue';
 import { UserType } from '@/contexts/DataContext';
 import { JobType, CommentType, ReplyType } from '@/contexts/JobContext';
 
-// Estado local para almacenar trabajos (simulando una base de datos)
-let JOBS: JobType[] = [
-  {
-    id: "job1",
-    title: "Desarrollo de sitio web responsive",
-    description: "Necesitamos desarrollar un sitio web responsive para nuestra empresa. El sitio debe ser moderno, rápido y fácil de usar.",
-    budget: 1500,
-    category: "Desarrollo Web",
-    skills: ["JavaScript", "React", "HTML/CSS"],
-    userId: "user3",
-    userName: "Empresa ABC",
-    userPhoto: "https://logo.clearbit.com/acme.com",
-    status: "open",
-    timestamp: Date.now() - 86400000 * 5, // 5 días atrás
-    comments: [],
-    likes: [],
-    createdAt: new Date(Date.now() - 86400000 * 5).toISOString(),
-    updatedAt: new Date(Date.now() - 86400000 * 5).toISOString()
-  },
-  {
-    id: "job2",
-    title: "Diseño de interfaz para aplicación móvil",
-    description: "Buscamos un diseñador UX/UI para crear la interfaz de nuestra nueva aplicación móvil de fitness.",
-    budget: 1200,
-    category: "Diseño UX/UI",
-    skills: ["UI Design", "UX Research", "Figma"],
-    userId: "user3",
-    userName: "Empresa ABC",
-    userPhoto: "https://logo.clearbit.com/acme.com",
-    status: "open",
-    timestamp: Date.now() - 86400000 * 3, // 3 días atrás
-    comments: [],
-    likes: [],
-    createdAt: new Date(Date.now() - 86400000 * 3).toISOString(),
-    updatedAt: new Date(Date.now() - 86400000 * 3).toISOString()
-  }
-];
+export type JobSortOption = 'newest' | 'budget_desc' | 'budget_asc' | 'most_liked' | 'most_commented';
+
+export type JobSearchParams = {
+  search?: string;
+  category?: string;
+  status?: string;
+  userId?: string;
+  skills?: string[];
+  skillsMatch?: 'any' | 'all';
+  minBudget?: number;
+  maxBudget?: number;
+  sort?: JobSortOption;
+  limit?: number;
+};
+
+export type JobFacetType = {
+  value: string;
+  count: number;
+};
+
+export type JobSearchPage = {
+  jobs: JobType[];
+  nextCursor: string | null;   // Cursor para pedir la siguiente página
+  hasMore: boolean;
+  total?: number;              // Solo en la primera página
+  facets?: {                   // Solo en la primera página
+    categories: JobFacetType[];
+    statuses: JobFacetType[];
+    skills: JobFacetType[];
+  };
+};
+
+export const JOB_STATUS_LABELS: Record<JobType['status'], string> = {
+  open: 'Abierto',
+  assigned: 'Asignado',
+  'in-progress': 'En progreso',
+  completed: 'Completado',
+  cancelled: 'Cancelado'
+};
+
+// Entrada del historial de estados de un trabajo
+export type JobStatusChangeType = {
+  id: string;
+  fromStatus: JobType['status'] | null; // Nulo en la publicación
+  toStatus: JobType['status'];
+  reason?: string;
+  userId?: string;      // Quien provocó el cambio
+  userName?: string;
+  timestamp: number;
+};
+
+// Cambio de estado que puede hacer el usuario actual
+export type JobStatusTransitionType = {
+  status: JobType['status'];
+  reasonRequired: boolean;
+};
+
+const mapApiJobStatusChange = (change: ApiEntity<'jobStatusChange'>): JobStatusChangeType => ({
+  id: change.id,
+  fromStatus: change.fromStatus,
+  toStatus: change.toStatus,
+  reason: change.reason || undefined,
+  userId: change.changedBy || undefined,
+  userName: change.user?.name,
+  timestamp: new Date(change.createdAt).getTime()
+});
+
+// Formato de los trabajos tal y como los devuelve la API (definido en el contrato)
+export type ApiJob = ApiEntity<'job'>;
+
+const mapApiReply = (reply: ApiEntity<'reply'>): ReplyType => ({
+  id: reply.id,
+  commentId: reply.commentId,
+  userId: reply.userId,
+  userName: reply.user?.name || "Usuario",
+  userPhoto: reply.user?.photoURL || undefined,
+  content: reply.content,
+  timestamp: new Date(reply.createdAt).getTime()
+});
+
+const mapApiComment = (comment: ApiEntity<'comment'>): CommentType => ({
+  id: comment.id,
+  jobId: comment.jobId,
+  userId: comment.userId,
+  userName: comment.user?.name || "Usuario",
+  userPhoto: comment.user?.photoURL || undefined,
+  content: comment.content,
+  timestamp: new Date(comment.createdAt).getTime(),
+  replies: (comment.replies || []).map(mapApiReply)
+});
+
+// Los comentarios y respuestas de la cola se muestran con un ID provisional hasta enviarse
+const PENDING_ID_PREFIX = 'pending-';
+
+const mapQueuedComment = (mutation: QueuedMutation<'comment'>): CommentType => ({
+  id: `${PENDING_ID_PREFIX}${mutation.id}`,
+  jobId: mutation.payload.jobId,
+  userId: mutation.payload.author.id,
+  userName: mutation.payload.author.name,
+  userPhoto: mutation.payload.author.photoURL,
+  content: mutation.payload.content,
+  timestamp: mutation.createdAt,
+  replies: [],
+  pending: true
+});
+
+const mapQueuedReply = (mutation: QueuedMutation<'reply'>): ReplyType => ({
+  id: `${PENDING_ID_PREFIX}${mutation.id}`,
+  commentId: mutation.payload.commentId,
+  userId: mutation.payload.author.id,
+  userName: mutation.payload.author.name,
+  userPhoto: mutation.payload.author.photoURL,
+  content: mutation.payload.content,
+  timestamp: mutation.createdAt,
+  pending: true
+});
+
+const toAuthor = (user: UserType) => ({ id: user.id, name: user.name, photoURL: user.photoURL });
+
+/**
+ * Añadir a un trabajo los comentarios y respuestas que siguen en la cola sin enviar
+ */
+const withQueuedComments = async (job: JobType): Promise<JobType> => {
+  const [comments, replies] = await Promise.all([getQueuedMutations('comment'), getQueuedMutations('reply')]);
+  const queuedComments = comments.filter(mutation => mutation.payload.jobId === job.id);
+  const queuedReplies = replies.filter(mutation => mutation.payload.jobId === job.id);
+  if (queuedComments.length === 0 && queuedReplies.length === 0) return job;
+
+  return {
+    ...job,
+    comments: [
+      ...job.comments.map(comment => {
+        const commentReplies = queuedReplies.filter(mutation => mutation.payload.commentId === comment.id);
+        return commentReplies.length > 0
+          ? { ...comment, replies: [...comment.replies, ...commentReplies.map(mapQueuedReply)] }
+          : comment;
+      }),
+      ...queuedComments.map(mapQueuedComment)
+    ]
+  };
+};
+
+/**
+ * Convertir un trabajo de la API al formato JobType
+ */
+export const mapApiJob = (job: ApiJob): JobType => ({
+  id: job.id,
+  title: job.title,
+  description: job.description,
+  budget: job.budget,
+  category: job.category,
+  skills: job.skills || [],
+  status: job.status || 'open',
+  userId: job.userId,
+  userName: job.user?.name || "Usuario",
+  userPhoto: job.user?.photoURL || undefined,
+  userRating: job.user?.ratingAverage ?? undefined,
+  userRatingCount: job.user?.ratingCount ?? undefined,
+  organizationId: job.organizationId || undefined,
+  organizationName: job.organization?.name,
+  timestamp: new Date(job.createdAt).getTime(),
+  comments: (job.comments || []).map(mapApiComment),
+  likes: job.likedBy?.map(user => user.id) || [],
+  likesCount: job.likesCount !== undefined ? Number(job.likesCount) : undefined,
+  commentsCount: job.commentsCount !== undefined ? Number(job.commentsCount) : undefined,
+  assignedTo: job.assignedTo || undefined,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt
+});
+
+const mapApiFacets = (facets: ApiEntity<'facet'>[] = []): JobFacetType[] =>
+  facets.map(facet => ({ value: facet.value, count: facet.count }));
+
+/**
+ * Pedir una página de trabajos al servidor
+ */
+const fetchJobsPage = async (params: JobSearchParams, cursor?: string | null): Promise<JobSearchPage> => {
+  const hasSkills = !!params.skills && params.skills.length > 0;
+
+  const response = await callApi('jobs.getAllJobs', {
+    query: {
+      ...params,
+      skillsMatch: hasSkills ? params.skillsMatch || 'any' : undefined,
+      cursor: cursor || undefined
+    }
+  });
 
-// Mapa para almacenar trabajos guardados por usuario
-const SAVED_JOBS: Record<string, string[]> = {
-  "user1": ["job2"],
-  "user2": ["job1"]
+  return {
+    jobs: Array.isArray(response.jobs) ? response.jobs.map(mapApiJob) : [],
+    nextCursor: response.pageInfo?.nextCursor || null,
+    hasMore: !!response.pageInfo?.hasMore,
+    total: response.total,
+    facets: response.facets && {
+      categories: mapApiFacets(response.facets.categories),
+      statuses: mapApiFacets(response.facets.statuses),
+      skills: mapApiFacets(response.facets.skills)
+    }
+  };
 };
 
+/**
+ * Buscar trabajos en el servidor con filtros, orden y paginación por cursor
+ * Sin conexión se devuelve la última copia de la misma búsqueda
+ */
+export const searchJobs = (params: JobSearchParams, cursor?: string | null): Promise<JobSearchPage> =>
+  withOfflineCache(`jobs:search:${JSON.stringify({ ...params, cursor })}`, () => fetchJobsPage(params, cursor));
+
 /**
  * Obtener todos los trabajos
+ * Pide la página más grande que permite la API; el listado completo con
+ * filtros y scroll infinito se obtiene con searchJobs
  */
 export const getAllJobs = async (): Promise<JobType[]> => {
   try {
-    // Try to get jobs from API first
-    const response = await apiRequest('/jobs');
-    if (response && response.jobs && Array.isArray(response.jobs)) {
-      console.log('Jobs from API:', response.jobs);
-      
-      // Convert API response to JobType format
-      return response.jobs.map((job: any) => ({
-        id: job.id,
-        title: job.title,
-        description: job.description,
-        budget: job.budget,
-        category: job.category,
-        skills: job.skills || [],
-        status: job.status || 'open',
-        userId: job.userId,
-        userName: job.user?.name || "Usuario",
-        userPhoto: job.user?.photoURL,
-        timestamp: new Date(job.createdAt).getTime(),
-        comments: job.comments || [],
-        likes: job.likedBy?.map((user: any) => user.id) || [],
-        createdAt: job.createdAt,
-        updatedAt: job.updatedAt
-      }));
-    }
-    return [];
+    const { jobs } = await searchJobs({ limit: 100 });
+    return jobs;
   } catch (error) {
     console.error("Error al obtener trabajos desde la API:", error);
     return [];
@@ -92,31 +238,18 @@ export const getAllJobs = async (): Promise<JobType[]> => {
 
 /**
  * Obtener un trabajo por su ID
+ * Incluye los comentarios y respuestas pendientes de enviar
  */
 export const getJobById = async (jobId: string): Promise<JobType | null> => {
   try {
-    const response = await apiRequest(`/jobs/${jobId}`);
-    if (response && response.job) {
-      const job = response.job;
-      return {
-        id: job.id,
-        title: job.title,
-        description: job.description,
-        budget: job.budget,
-        category: job.category,
-        skills: job.skills || [],
-        status: job.status || 'open',
-        userId: job.userId,
-        userName: job.user?.name || "Usuario",
-        userPhoto: job.user?.photoURL,
-        timestamp: new Date(job.createdAt).getTime(),
-        comments: job.comments || [],
-        likes: job.likedBy?.map((user: any) => user.id) || [],
-        createdAt: job.createdAt,
-        updatedAt: job.updatedAt
-      };
-    }
-    throw new Error('No se pudo encontrar el trabajo solicitado');
+    const job = await withOfflineCache(`jobs:${jobId}`, async () => {
+      const response = await callApi('jobs.getJobById', { params: { jobId } });
+      if (response.job) {
+        return mapApiJob(response.job);
+      }
+      throw new Error('No se pudo encontrar el trabajo solicitado');
+    });
+    return withQueuedComments(job);
   } catch (error) {
     console.error("Error al obtener trabajo desde la API:", error);
     throw error;
@@ -130,42 +263,21 @@ export const createJob = async (jobData: Omit<JobType, "id" | "timestamp" | "com
   console.log("JobService: Creating job with data:", jobData);
   
   try {
-    // Try to create job via API
-    const response = await apiRequest('/jobs', 'POST', {
-      title: jobData.title,
-      description: jobData.description,
-      budget: jobData.budget,
-      category: jobData.category,
-      skills: jobData.skills
+    const response = await callApi('jobs.createJob', {
+      body: {
+        title: jobData.title,
+        description: jobData.description,
+        budget: jobData.budget,
+        category: jobData.category,
+        skills: jobData.skills,
+        organizationId: jobData.organizationId
+      }
     });
     
-    if (!response) {
-      throw new Error('No se recibió respuesta del servidor');
-    }
-    
-    if (!response.success) {
-      throw new Error(response.message || 'Error al crear trabajo');
-    }
-    
-    if (response && response.job) {
-      const job = response.job;
-      return {
-        id: job.id,
-        title: job.title,
-        description: job.description,
-        budget: job.budget,
-        category: job.category,
-        skills: job.skills || [],
-        status: job.status || 'open',
-        userId: job.userId,
-        userName: job.user?.name || jobData.userName,
-        userPhoto: job.user?.photoURL || jobData.userPhoto,
-        timestamp: new Date(job.createdAt).getTime(),
-        comments: [],
-        likes: [],
-        createdAt: job.createdAt,
-        updatedAt: job.updatedAt
-      };
+    if (response.job) {
+      const job = mapApiJob(response.job);
+      // Si el servidor no incluye al autor se usan los datos de quien lo publica
+      return response.job.user ? job : { ...job, userName: jobData.userName, userPhoto: jobData.userPhoto };
     }
     
     throw new Error('Error al crear trabajo en la API: formato de respuesta inválido');
@@ -180,60 +292,25 @@ export const createJob = async (jobData: Omit<JobType, "id" | "timestamp" | "com
  */
 export const updateJob = async (jobId: string, jobData: Partial<JobType>): Promise<JobType> => {
   try {
-    // Try to update job via API
-    const response = await apiRequest(`/jobs/${jobId}`, 'PUT', {
-      title: jobData.title,
-      description: jobData.description,
-      budget: jobData.budget,
-      category: jobData.category,
-      skills: jobData.skills,
-      status: jobData.status
+    const response = await callApi('jobs.updateJob', {
+      params: { jobId },
+      body: {
+        title: jobData.title,
+        description: jobData.description,
+        budget: jobData.budget,
+        category: jobData.category,
+        skills: jobData.skills
+      }
     });
     
-    if (!response) {
-      throw new Error('No se recibió respuesta del servidor');
-    }
-    
-    if (!response.success) {
-      throw new Error(response.message || 'Error al actualizar trabajo');
-    }
-    
-    if (response && response.job) {
-      const job = response.job;
-      return {
-        id: job.id,
-        title: job.title,
-        description: job.description,
-        budget: job.budget,
-        category: job.category,
-        skills: job.skills || [],
-        status: job.status || 'open',
-        userId: job.userId,
-        userName: job.user?.name || "Usuario",
-        userPhoto: job.user?.photoURL,
-        timestamp: new Date(job.createdAt).getTime(),
-        comments: job.comments || [],
-        likes: job.likedBy?.map((user: any) => user.id) || [],
-        createdAt: job.createdAt,
-        updatedAt: job.updatedAt
-      };
+    if (response.job) {
+      return mapApiJob(response.job);
     }
     
     throw new Error('Error al actualizar trabajo en la API: formato de respuesta inválido');
   } catch (error) {
     console.error("Error al actualizar trabajo en la API:", error);
-    
-    // Fallback to local data as a last resort
-    console.log("Usando almacenamiento local como respaldo para actualización");
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const index = JOBS.findIndex(job => job.id === jobId);
-    if (index === -1) {
-      throw new Error('Trabajo no encontrado');
-    }
-    
-    JOBS[index] = { ...JOBS[index], ...jobData };
-    return { ...JOBS[index] };
+    throw error;
   }
 };
 
@@ -242,85 +319,70 @@ export const updateJob = async (jobId: string, jobData: Partial<JobType>): Promi
  */
 export const deleteJob = async (jobId: string): Promise<boolean> => {
   try {
-    // Try to delete job via API
-    const response = await apiRequest(`/jobs/${jobId}`, 'DELETE');
-    
-    if (!response) {
-      throw new Error('No se recibió respuesta del servidor');
-    }
-    
-    if (!response.success) {
-      throw new Error(response.message || 'Error al eliminar trabajo');
-    }
-    
+    await callApi('jobs.deleteJob', { params: { jobId } });
     return true;
   } catch (error) {
     console.error("Error al eliminar trabajo en la API:", error);
-    
-    // Fallback to local data as a last resort
-    console.log("Usando almacenamiento local como respaldo para eliminación");
-    await new Promise(resolve => setTimeout(resolve, 400));
-    
-    const initialLength = JOBS.length;
-    JOBS = JOBS.filter(job => job.id !== jobId);
-    
-    return JOBS.length < initialLength;
+    throw error;
   }
 };
 
+/**
+ * Historial de estados de un trabajo y cambios que puede hacer el usuario actual
+ */
+export const getJobStatusHistory = async (jobId: string): Promise<{
+  history: JobStatusChangeType[];
+  availableTransitions: JobStatusTransitionType[];
+}> => {
+  const response = await callApi('jobs.getJobStatusHistory', { params: { jobId } });
+  
+  return {
+    history: (response.history || []).map(mapApiJobStatusChange),
+    availableTransitions: (response.availableTransitions || []).map(transition => ({
+      status: transition.status,
+      reasonRequired: transition.reasonRequired
+    }))
+  };
+};
+
+/**
+ * Cambiar el estado de un trabajo (el servidor valida la transición y el motivo)
+ */
+export const changeJobStatus = async (jobId: string, status: JobType['status'], reason?: string): Promise<JobType> => {
+  const response = await callApi('jobs.changeJobStatus', { params: { jobId }, body: { status, reason } });
+  return mapApiJob(response.job);
+};
+
 /**
  * Añadir un comentario a un trabajo
+ * Sin conexión se guarda en la cola y se devuelve como pendiente
  */
 export const addCommentToJob = async (jobId: string, content: string, user: UserType): Promise<CommentType> => {
+  // La misma clave en el reenvío desde la cola evita duplicar el comentario
+  const idempotencyKey = createMutationId();
+  
   try {
-    // Try to add comment via API first
-    const response = await apiRequest(`/jobs/${jobId}/comments`, 'POST', { content });
+    const response = await callApi('jobs.addComment', { params: { jobId }, body: { content, idempotencyKey } });
     
-    if (response && response.comment) {
-      const comment = response.comment;
-      return {
-        id: comment.id,
-        jobId,
-        userId: user.id,
-        userName: user.name,
-        userPhoto: user.photoURL,
-        content,
-        timestamp: new Date(comment.createdAt).getTime(),
-        replies: []
-      };
+    if (response.comment) {
+      return mapApiComment(response.comment);
     }
     throw new Error('Error al añadir comentario en la API');
   } catch (error) {
-    console.error("Error al añadir comentario en la API:", error);
-    console.log("Usando almacenamiento local como respaldo");
-    
-    // Fallback to local data
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
-    const jobIndex = JOBS.findIndex(job => job.id === jobId);
-    if (jobIndex === -1) {
-      throw new Error('Trabajo no encontrado');
+    if (!isNetworkError(error)) {
+      console.error("Error al añadir comentario en la API:", error);
+      throw error;
     }
     
-    const commentId = `comment_${Date.now()}`;
-    const newComment: CommentType = {
-      id: commentId,
-      jobId,
-      userId: user.id,
-      userName: user.name,
-      userPhoto: user.photoURL,
-      content,
-      timestamp: Date.now(),
-      replies: []
-    };
-    
-    JOBS[jobIndex].comments.push(newComment);
-    return { ...newComment };
+    console.log("Sin conexión: el comentario se enviará al recuperarla");
+    const mutation = await queueMutation('comment', { jobId, content, author: toAuthor(user) }, idempotencyKey);
+    return mapQueuedComment(mutation);
   }
 };
 
 /**
  * Añadir una respuesta a un comentario
+ * Sin conexión se guarda en la cola y se devuelve como pendiente
  */
 export const addReplyToComment = async (
   jobId: string, 
@@ -328,106 +390,70 @@ export const addReplyToComment = async (
   content: string, 
   user: UserType
 ): Promise<ReplyType | undefined> => {
+  if (commentId.startsWith(PENDING_ID_PREFIX)) {
+    throw new Error('El comentario aún no se ha enviado; podrás responderlo cuando se publique');
+  }
+  
+  const idempotencyKey = createMutationId();
+  
   try {
-    // Try to add reply via API first
-    const response = await apiRequest(`/comments/${commentId}/replies`, 'POST', { content });
+    const response = await callApi('jobs.addReply', { params: { commentId }, body: { content, idempotencyKey } });
     
-    if (response && response.reply) {
-      const reply = response.reply;
-      return {
-        id: reply.id,
-        commentId,
-        userId: user.id,
-        userName: user.name,
-        userPhoto: user.photoURL,
-        content,
-        timestamp: new Date(reply.createdAt).getTime()
-      };
+    if (response.reply) {
+      return mapApiReply(response.reply);
     }
     throw new Error('Error al añadir respuesta en la API');
   } catch (error) {
-    console.error("Error al añadir respuesta en la API:", error);
-    console.log("Usando almacenamiento local como respaldo");
-    
-    // Fallback to local data
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
-    const jobIndex = JOBS.findIndex(job => job.id === jobId);
-    if (jobIndex === -1) {
-      throw new Error('Trabajo no encontrado');
-    }
-    
-    const commentIndex = JOBS[jobIndex].comments.findIndex(comment => comment.id === commentId);
-    if (commentIndex === -1) {
-      throw new Error('Comentario no encontrado');
+    if (!isNetworkError(error)) {
+      console.error("Error al añadir respuesta en la API:", error);
+      throw error;
     }
     
-    const newReply: ReplyType = {
-      id: `reply_${Date.now()}`,
-      commentId,
-      userId: user.id,
-      userName: user.name,
-      userPhoto: user.photoURL,
-      content,
-      timestamp: Date.now()
-    };
-    
-    JOBS[jobIndex].comments[commentIndex].replies.push(newReply);
-    return { ...newReply };
+    console.log("Sin conexión: la respuesta se enviará al recuperarla");
+    const mutation = await queueMutation('reply', { jobId, commentId, content, author: toAuthor(user) }, idempotencyKey);
+    return mapQueuedReply(mutation);
   }
 };
 
 /**
- * Toggle like para un trabajo
+ * Dar o quitar el like del usuario actual a un trabajo
+ * @returns true si el trabajo queda con like
  */
-export const toggleJobLike = async (jobId: string, userId: string): Promise<boolean> => {
-  await new Promise(resolve => setTimeout(resolve, 200));
-  
-  const jobIndex = JOBS.findIndex(job => job.id === jobId);
-  if (jobIndex === -1) {
-    throw new Error('Trabajo no encontrado');
-  }
-  
-  const userLiked = JOBS[jobIndex].likes.includes(userId);
-  
-  if (userLiked) {
-    JOBS[jobIndex].likes = JOBS[jobIndex].likes.filter(id => id !== userId);
-  } else {
-    JOBS[jobIndex].likes = [...JOBS[jobIndex].likes, userId];
-  }
-  
-  return !userLiked;
+export const toggleJobLike = async (jobId: string): Promise<boolean> => {
+  const response = await callApi('jobs.toggleJobLike', { params: { jobId } });
+  return response.liked;
 };
 
 /**
- * Toggle guardar un trabajo para un usuario
+ * Guardar o quitar de guardados un trabajo para el usuario actual
+ * @returns true si el trabajo queda guardado
  */
-export const toggleSavedJob = async (userId: string, jobId: string): Promise<boolean> => {
-  await new Promise(resolve => setTimeout(resolve, 200));
-  
-  if (!SAVED_JOBS[userId]) {
-    SAVED_JOBS[userId] = [];
-  }
-  
-  const isJobSaved = SAVED_JOBS[userId].includes(jobId);
-  
-  if (isJobSaved) {
-    SAVED_JOBS[userId] = SAVED_JOBS[userId].filter(id => id !== jobId);
-  } else {
-    SAVED_JOBS[userId] = [...SAVED_JOBS[userId], jobId];
-  }
-  
-  return !isJobSaved;
+export const toggleSavedJob = async (jobId: string): Promise<boolean> => {
+  const response = await callApi('jobs.toggleSavedJob', { params: { jobId } });
+  return response.saved;
 };
 
 /**
- * Obtener trabajos guardados por un usuario
+ * Obtener los trabajos guardados por el usuario actual
+ * Las notas y listas de cada guardado se obtienen con savedJobService
  */
-export const getSavedJobs = async (userId: string): Promise<JobType[]> => {
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  const savedJobIds = SAVED_JOBS[userId] || [];
-  const jobs = JOBS.filter(job => savedJobIds.includes(job.id));
-  
-  return jobs.map(job => ({ ...job }));
+export const getSavedJobs = async (): Promise<JobType[]> => {
+  const response = await callApi('jobs.getSavedJobs');
+  return Array.isArray(response.jobs) ? response.jobs.map(mapApiJob) : [];
+};
+
+/**
+ * Obtener las categorías usadas en los trabajos publicados
+ */
+export const getJobCategories = async (): Promise<string[]> => {
+  const response = await callApi('jobs.getCategories');
+  return response.categories || [];
+};
+
+/**
+ * Obtener las habilidades pedidas en los trabajos publicados
+ */
+export const getJobSkills = async (): Promise<string[]> => {
+  const response = await callApi('jobs.getSkills');
+  return response.skills || [];
 };
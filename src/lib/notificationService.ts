@@ -0,0 +1,177 @@
+/**
+ * Servicio de Notificaciones
+ *
+ * Este servicio gestiona las notificaciones del usuario (comentarios, respuestas,
+ * likes y mensajes), su estado de lectura, las preferencias por tipo y la
+ * recepción en tiempo real a través del socket.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { getSocket } from './socket';
+
+export type NotificationKind = 'job_comment' | 'comment_reply' | 'job_like' | 'new_message';
+
+export type NotificationChannel = 'in_app' | 'email_digest' | 'off';
+
+export type NotificationPreferences = Record<NotificationKind, NotificationChannel>;
+
+export type NotificationType = {
+  id: string;              // ID único de la notificación
+  type: NotificationKind;  // Tipo de notificación
+  actorId?: string;        // Usuario que la provocó
+  actorName: string;       // Nombre de quien la provocó
+  actorPhoto?: string;     // Foto de quien la provocó
+  jobId?: string;          // Propuesta relacionada
+  jobTitle?: string;       // Título de la propuesta relacionada
+  chatId?: string;         // Chat relacionado
+  chatName?: string;       // Nombre del chat (solo grupales)
+  preview?: string;        // Extracto del comentario o mensaje
+  count: number;           // Eventos agrupados en la notificación
+  isRead: boolean;         // Si el usuario ya la ha leído
+  timestamp: number;       // Marca de tiempo de la última actualización
+};
+
+export type NotificationPage = {
+  notifications: NotificationType[];
+  hasMore: boolean;
+  unreadCount: number;
+};
+
+// Formato de las notificaciones tal y como las devuelve el servidor
+type ApiNotification = ApiEntity<'notification'>;
+
+/**
+ * Completar las preferencias del servidor: los tipos sin preferencia se notifican en la aplicación
+ */
+const mapApiPreferences = (preferences: ApiEntity<'notificationPreferences'>): NotificationPreferences => ({
+  job_comment: preferences.job_comment || 'in_app',
+  comment_reply: preferences.comment_reply || 'in_app',
+  job_like: preferences.job_like || 'in_app',
+  new_message: preferences.new_message || 'in_app'
+});
+
+/**
+ * Convertir una notificación del servidor al formato NotificationType
+ */
+const mapApiNotification = (notification: ApiNotification): NotificationType => ({
+  id: notification.id,
+  type: notification.type,
+  actorId: notification.actorId || undefined,
+  actorName: notification.actor?.name || "Alguien",
+  actorPhoto: notification.actor?.photoURL || undefined,
+  jobId: notification.data?.jobId,
+  jobTitle: notification.data?.jobTitle,
+  chatId: notification.data?.chatId,
+  chatName: notification.data?.chatName || undefined,
+  preview: notification.data?.preview,
+  count: notification.count || 1,
+  isRead: !!notification.readAt,
+  timestamp: new Date(notification.updatedAt).getTime()
+});
+
+/**
+ * Obtener una página de notificaciones (las más recientes primero)
+ * @param before - Marca de tiempo de la última notificación ya cargada
+ */
+export const getNotifications = async (before?: number): Promise<NotificationPage> => {
+  const response = await callApi('notifications.getNotifications', {
+    query: { before: before ? new Date(before).toISOString() : undefined }
+  });
+
+  return {
+    notifications: Array.isArray(response.notifications) ? response.notifications.map(mapApiNotification) : [],
+    hasMore: !!response.hasMore,
+    unreadCount: response.unreadCount || 0
+  };
+};
+
+/**
+ * Marcar una notificación como leída
+ */
+export const markNotificationAsRead = async (notificationId: string): Promise<void> => {
+  await callApi('notifications.markAsRead', { params: { notificationId } });
+};
+
+/**
+ * Marcar todas las notificaciones como leídas
+ */
+export const markAllNotificationsAsRead = async (): Promise<void> => {
+  await callApi('notifications.markAllAsRead');
+};
+
+/**
+ * Obtener el canal elegido para cada tipo de notificación
+ */
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  const response = await callApi('notifications.getNotificationPreferences');
+  return mapApiPreferences(response.preferences);
+};
+
+/**
+ * Cambiar el canal de uno o varios tipos de notificación
+ */
+export const updateNotificationPreferences = async (
+  preferences: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> => {
+  const response = await callApi('notifications.updateNotificationPreferences', { body: { preferences } });
+
+  if (!response.preferences) {
+    throw new Error(response.message || 'Error al guardar las preferencias');
+  }
+
+  return mapApiPreferences(response.preferences);
+};
+
+/**
+ * Ruta a la que lleva una notificación
+ */
+export const getNotificationLink = (notification: NotificationType) => {
+  if (notification.type === 'new_message') {
+    return notification.chatId ? `/chats?chatId=${notification.chatId}` : '/chats';
+  }
+  return notification.jobId ? `/jobs/${notification.jobId}` : '/notifications';
+};
+
+/**
+ * Texto de una notificación
+ */
+export const describeNotification = (notification: NotificationType) => {
+  const { actorName, jobTitle, chatName, count } = notification;
+
+  switch (notification.type) {
+    case 'job_comment':
+      return `${actorName} ha comentado en "${jobTitle}"`;
+    case 'comment_reply':
+      return `${actorName} ha respondido a tu comentario en "${jobTitle}"`;
+    case 'job_like':
+      return count > 1
+        ? `A ${actorName} y ${count - 1} más les gusta "${jobTitle}"`
+        : `A ${actorName} le gusta "${jobTitle}"`;
+    case 'new_message':
+      if (count > 1) {
+        return chatName ? `${count} mensajes nuevos en ${chatName}` : `${count} mensajes nuevos de ${actorName}`;
+      }
+      return chatName ? `${actorName} ha escrito en ${chatName}` : `${actorName} te ha enviado un mensaje`;
+    default:
+      return 'Tienes una notificación nueva';
+  }
+};
+
+/**
+ * Suscribirse a las notificaciones en tiempo real
+ * Devuelve la función para cancelar la suscripción
+ */
+export const subscribeToNotifications = (onNotification: (notification: NotificationType) => void) => {
+  const socket = getSocket();
+  if (!socket) return () => {};
+
+  const handleNotification = (notification: ApiNotification) => {
+    onNotification(mapApiNotification(notification));
+  };
+
+  socket.on('notification', handleNotification);
+
+  return () => {
+    socket.off('notification', handleNotification);
+  };
+};
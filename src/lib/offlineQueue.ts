@@ -0,0 +1,385 @@
+/**
+ * Cola de cambios pendientes de enviar
+ *
+ * Los comentarios, respuestas, mensajes y ediciones del perfil que se hacen sin
+ * conexión se guardan en IndexedDB y se envían en orden al recuperarla. Si el
+ * servidor rechaza un cambio (ej: el trabajo se eliminó), sigue fallando tras
+ * varios intentos o el perfil se ha modificado desde otro dispositivo, el cambio queda como conflicto hasta que
+ * el usuario decide reintentarlo o descartarlo.
+ *
+ * Los comentarios, respuestas y mensajes se envían con el id del cambio como clave
+ * de idempotencia (el mismo que en el primer intento): si el servidor llegó a
+ * crearlo pero se perdió la respuesta, el reenvío no lo duplica.
+ */
+
+import { isNetworkError } from './api';
+import { ApiEntity, callApi } from './apiClient';
+import { deleteStoredMutation, getStoredMutations, putStoredMutation } from './offlineStore';
+
+// Cada cuánto se reintenta la cola si el servidor no respondía
+const RETRY_INTERVAL = 30 * 1000;
+
+// Intentos con error pasajero del servidor (ej: 500) antes de dejar el cambio como conflicto,
+// para que un cambio que falla siempre no bloquee el resto de la cola
+const MAX_SERVER_ATTEMPTS = 5;
+
+// Autor de un comentario o mensaje pendiente, para mostrarlo mientras tanto
+export type MutationAuthor = {
+  id: string;
+  name: string;
+  photoURL?: string;
+};
+
+export type ProfileChanges = {
+  name?: string;
+  bio?: string;
+  skills?: string[];
+  hourlyRate?: number;
+};
+
+type MutationPayloads = {
+  comment: { jobId: string; content: string; author: MutationAuthor };
+  reply: { jobId: string; commentId: string; content: string; author: MutationAuthor };
+  message: { chatId: string; content: string; author: MutationAuthor };
+  // base: valores que tenía el perfil al editarlo, para detectar cambios hechos en otro dispositivo
+  profile: { changes: ProfileChanges; base: ProfileChanges };
+};
+
+// Respuesta del servidor al enviar cada tipo de cambio
+type MutationResults = {
+  comment: ApiEntity<'comment'>;
+  reply: ApiEntity<'reply'>;
+  message: ApiEntity<'chatMessage'>;
+  profile: ApiEntity<'user'>;
+};
+
+export type QueuedMutationType = keyof MutationPayloads;
+
+export type QueuedMutation<T extends QueuedMutationType = QueuedMutationType> = {
+  [K in T]: {
+    id: string;
+    type: K;
+    payload: MutationPayloads[K];
+    userId: string;                  // Usuario que hizo el cambio
+    createdAt: number;               // Cuándo se hizo (timestamp); la cola se envía en este orden
+    status: 'pending' | 'conflict';
+    attempts?: number;               // Envíos fallidos con un error pasajero del servidor
+    error?: string;                  // Motivo del conflicto
+    force?: boolean;                 // Enviar aunque el perfil haya cambiado en el servidor
+  };
+}[T];
+
+// Un cambio sale de la cola: enviado (con la respuesta del servidor) o descartado (sin ella)
+export type SettledMutation = {
+  [K in QueuedMutationType]: { type: K; mutation: QueuedMutation<K>; result?: MutationResults[K] };
+}[QueuedMutationType];
+
+export type SyncState = {
+  online: boolean;                   // El navegador tiene conexión
+  syncing: boolean;                  // Se está enviando la cola
+  mutations: QueuedMutation[];       // Cambios del usuario actual en la cola
+};
+
+const PROFILE_FIELD_LABELS: Record<keyof ProfileChanges, string> = {
+  name: 'nombre',
+  bio: 'biografía',
+  skills: 'habilidades',
+  hourlyRate: 'tarifa por hora'
+};
+
+let state: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  mutations: []
+};
+
+// Usuario cuya cola se está sincronizando (null sin sesión)
+let activeUserId: string | null = null;
+
+// Envío de la cola en curso, compartido por todas las llamadas a replayQueue
+let replayPromise: Promise<void> | null = null;
+
+const syncStateListeners = new Set<(state: SyncState) => void>();
+const settledListeners = new Set<(settled: SettledMutation) => void>();
+
+/**
+ * Estado actual de la conexión y de la cola
+ */
+export const getSyncState = (): SyncState => state;
+
+/**
+ * Suscribirse a los cambios de conexión y de la cola
+ * @returns Función para cancelar la suscripción
+ */
+export const onSyncStateChange = (listener: (state: SyncState) => void): (() => void) => {
+  syncStateListeners.add(listener);
+  return () => {
+    syncStateListeners.delete(listener);
+  };
+};
+
+/**
+ * Suscribirse a los cambios que salen de la cola (enviados o descartados)
+ * Lo usan los contextos para sustituir lo mostrado provisionalmente
+ * @returns Función para cancelar la suscripción
+ */
+export const onMutationSettled = (listener: (settled: SettledMutation) => void): (() => void) => {
+  settledListeners.add(listener);
+  return () => {
+    settledListeners.delete(listener);
+  };
+};
+
+const setState = (changes: Partial<SyncState>) => {
+  state = { ...state, ...changes };
+  syncStateListeners.forEach(listener => listener(state));
+};
+
+const notifySettled = (settled: SettledMutation) => {
+  settledListeners.forEach(listener => listener(settled));
+};
+
+const readUserMutations = async (): Promise<QueuedMutation[]> => {
+  if (!activeUserId) return [];
+  const mutations = await getStoredMutations<QueuedMutation>();
+  return mutations.filter(mutation => mutation.userId === activeUserId);
+};
+
+const refreshMutations = async () => {
+  setState({ mutations: await readUserMutations() });
+};
+
+/**
+ * Cambios en cola de un tipo, para mostrarlos junto a los datos del servidor
+ */
+export const getQueuedMutations = async <T extends QueuedMutationType>(type: T): Promise<QueuedMutation<T>[]> => {
+  const mutations = await readUserMutations();
+  return mutations.filter(mutation => mutation.type === type) as QueuedMutation<T>[];
+};
+
+/**
+ * Generar el id de un cambio
+ * Se crea antes del primer intento de envío para usarlo como clave de idempotencia
+ */
+export const createMutationId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Añadir un cambio a la cola
+ * Las ediciones del perfil se combinan con la que ya estuviera pendiente,
+ * conservando los valores originales para detectar conflictos
+ * @param id - Id del cambio; el del primer intento si ya se intentó enviar
+ */
+export const queueMutation = async <T extends QueuedMutationType>(
+  type: T,
+  payload: MutationPayloads[T],
+  id: string = createMutationId()
+): Promise<QueuedMutation<T>> => {
+  if (!activeUserId) throw new Error('No hay usuario autenticado');
+
+  let mutation = {
+    id,
+    type,
+    payload,
+    userId: activeUserId,
+    createdAt: Date.now(),
+    status: 'pending'
+  } as QueuedMutation<T>;
+
+  if (type === 'profile') {
+    const [previous] = await getQueuedMutations('profile');
+    if (previous) {
+      const { changes, base } = payload as MutationPayloads['profile'];
+      mutation = {
+        ...previous,
+        payload: {
+          changes: { ...previous.payload.changes, ...changes },
+          base: { ...base, ...previous.payload.base }
+        },
+        status: 'pending',
+        error: undefined
+      } as QueuedMutation<T>;
+    }
+  }
+
+  await putStoredMutation(mutation);
+  await refreshMutations();
+  return mutation;
+};
+
+const conflictError = (message: string) => {
+  const error = new Error(message) as Error & { status: number };
+  error.status = 409;
+  return error;
+};
+
+const sameProfileValue = (a: unknown, b: unknown) => {
+  if (Array.isArray(a) || Array.isArray(b)) return JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+  if (typeof a === 'number' || typeof b === 'number') return Number(a ?? 0) === Number(b ?? 0);
+  return (a ?? '') === (b ?? '');
+};
+
+/**
+ * Comprobar que los campos editados no han cambiado en el servidor desde que se editaron
+ * Un campo que ya tiene el valor nuevo no cuenta como conflicto
+ */
+const checkProfileConflict = async ({ changes, base }: MutationPayloads['profile']) => {
+  const { user } = await callApi('auth.verifySession');
+
+  const changedFields = (Object.keys(changes) as (keyof ProfileChanges)[]).filter(field =>
+    !sameProfileValue(user[field], base[field]) && !sameProfileValue(user[field], changes[field])
+  );
+
+  if (changedFields.length > 0) {
+    const fields = changedFields.map(field => PROFILE_FIELD_LABELS[field]).join(', ');
+    throw conflictError(`Tu perfil se modificó desde otro dispositivo (${fields})`);
+  }
+};
+
+/**
+ * Enviar un cambio al servidor
+ * @returns La respuesta del servidor
+ */
+const sendMutation = async (mutation: QueuedMutation): Promise<MutationResults[QueuedMutationType]> => {
+  switch (mutation.type) {
+    case 'comment': {
+      const { jobId, content } = mutation.payload;
+      const body = { content, idempotencyKey: mutation.id };
+      return (await callApi('jobs.addComment', { params: { jobId }, body })).comment;
+    }
+    case 'reply': {
+      const { commentId, content } = mutation.payload;
+      const body = { content, idempotencyKey: mutation.id };
+      return (await callApi('jobs.addReply', { params: { commentId }, body })).reply;
+    }
+    case 'message': {
+      const { chatId, content } = mutation.payload;
+      const body = { content, idempotencyKey: mutation.id };
+      return (await callApi('chats.sendMessage', { params: { chatId }, body })).chatMessage;
+    }
+    case 'profile': {
+      if (!mutation.force) await checkProfileConflict(mutation.payload);
+      return (await callApi('users.updateProfile', { body: mutation.payload.changes })).user;
+    }
+  }
+};
+
+/**
+ * Indicar si un error es pasajero y el cambio debe reintentarse más tarde
+ * (sin conexión, servidor caído o sesión por renovar) en lugar de marcarse como conflicto
+ */
+const isTransientError = (error: unknown) => {
+  if (isNetworkError(error)) return true;
+  const status = (error as { status?: number }).status;
+  return status === 401 || status === 408 || status === 429 || (status !== undefined && status >= 500);
+};
+
+const runReplay = async () => {
+  setState({ syncing: true });
+
+  try {
+    for (const mutation of await readUserMutations()) {
+      if (mutation.status !== 'pending') continue;
+
+      try {
+        const result = await sendMutation(mutation);
+        await deleteStoredMutation(mutation.id);
+        notifySettled({ type: mutation.type, mutation, result } as SettledMutation);
+      } catch (error) {
+        // Sin conexión se espera sin contar el intento: los siguientes cambios pueden
+        // depender de este (ej: mensajes en orden)
+        if (isNetworkError(error)) break;
+
+        // Un error pasajero del servidor también se espera, pero solo hasta MAX_SERVER_ATTEMPTS
+        const attempts = (mutation.attempts || 0) + 1;
+        if (isTransientError(error) && attempts < MAX_SERVER_ATTEMPTS) {
+          await putStoredMutation({ ...mutation, attempts });
+          break;
+        }
+
+        console.error('Cambio pendiente rechazado por el servidor:', error);
+        await putStoredMutation({
+          ...mutation,
+          status: 'conflict',
+          attempts,
+          error: error instanceof Error ? error.message : 'El servidor rechazó el cambio'
+        });
+      }
+    }
+  } finally {
+    await refreshMutations();
+    setState({ syncing: false });
+  }
+};
+
+/**
+ * Enviar los cambios pendientes de la cola
+ * No hace nada sin conexión ni si ya se está enviando
+ */
+export const replayQueue = (): Promise<void> => {
+  if (!activeUserId || !navigator.onLine) return Promise.resolve();
+
+  if (!replayPromise) {
+    replayPromise = runReplay().finally(() => {
+      replayPromise = null;
+    });
+  }
+  return replayPromise;
+};
+
+/**
+ * Volver a enviar un cambio en conflicto
+ * @param force - En las ediciones del perfil, sobrescribir los cambios hechos en otro dispositivo
+ */
+export const retryMutation = async (id: string, force = false): Promise<void> => {
+  const mutation = state.mutations.find(m => m.id === id);
+  if (!mutation) return;
+
+  await putStoredMutation({ ...mutation, status: 'pending', attempts: 0, error: undefined, force });
+  await refreshMutations();
+  await replayQueue();
+};
+
+/**
+ * Descartar un cambio de la cola sin enviarlo
+ */
+export const discardMutation = async (id: string): Promise<void> => {
+  const mutation = state.mutations.find(m => m.id === id);
+  if (!mutation) return;
+
+  await deleteStoredMutation(id);
+  await refreshMutations();
+  notifySettled({ type: mutation.type, mutation } as SettledMutation);
+};
+
+/**
+ * Empezar a sincronizar la cola de un usuario: se envía al iniciar sesión,
+ * al recuperar la conexión y periódicamente mientras queden cambios pendientes
+ * @returns Función para dejar de sincronizar (al cerrar sesión)
+ */
+export const startOfflineSync = (userId: string): (() => void) => {
+  activeUserId = userId;
+
+  const handleOnline = () => {
+    setState({ online: true });
+    replayQueue();
+  };
+  const handleOffline = () => setState({ online: false });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  const retryTimer = setInterval(() => {
+    if (state.mutations.some(mutation => mutation.status === 'pending')) replayQueue();
+  }, RETRY_INTERVAL);
+
+  setState({ online: navigator.onLine });
+  refreshMutations().then(replayQueue);
+
+  return () => {
+    activeUserId = null;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    clearInterval(retryTimer);
+    setState({ mutations: [] });
+  };
+};
@@ -0,0 +1,171 @@
+/**
+ * Almacenamiento sin conexión en IndexedDB
+ *
+ * Guarda la última copia recibida del servidor de los trabajos, los chats y
+ * los perfiles para poder mostrarlos sin conexión, y la cola de cambios
+ * pendientes de enviar (ver offlineQueue). Si el navegador no permite usar
+ * IndexedDB (ej: navegación privada) la aplicación sigue funcionando sin caché.
+ */
+
+import { isNetworkError } from './api';
+
+const DB_NAME = 'workflowconnect-offline';
+const DB_VERSION = 1;
+
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'mutations';
+
+// Caché del service worker con las respuestas de /api/jobs (ver public/sw.js)
+const SERVICE_WORKER_API_CACHE = 'wfc-api-jobs';
+
+export type CachedEntry<T> = {
+  key: string;        // Recurso guardado (ej: 'jobs:<id>')
+  value: T;           // Datos tal y como los devolvió el servicio
+  updatedAt: number;  // Cuándo se recibieron del servidor (timestamp)
+};
+
+// Conexión abierta, compartida por todas las operaciones
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB no está disponible'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Se vuelve a intentar en la siguiente operación
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Ejecutar una operación sobre un almacén y esperar a que termine su transacción
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Leer un recurso de la caché
+ * @returns La entrada guardada, o undefined si no hay copia
+ */
+export const readCache = async <T>(key: string): Promise<CachedEntry<T> | undefined> => {
+  try {
+    return await runRequest<CachedEntry<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error('Error al leer la caché sin conexión:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Guardar la copia actual de un recurso
+ */
+export const writeCache = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    const entry: CachedEntry<T> = { key, value, updatedAt: Date.now() };
+    await runRequest(CACHE_STORE, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error('Error al guardar la caché sin conexión:', error);
+  }
+};
+
+/**
+ * Obtener un recurso del servidor guardando una copia para cuando no haya conexión
+ * Si la petición no llega al servidor se devuelve la última copia guardada;
+ * el resto de errores (ej: 404) se propagan sin usar la caché
+ * @param key - Clave del recurso en la caché
+ * @param fetcher - Petición al servidor
+ */
+export const withOfflineCache = async <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  try {
+    const value = await fetcher();
+    await writeCache(key, value);
+    return value;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+
+    const cached = await readCache<T>(key);
+    if (!cached) throw error;
+
+    console.log(`Sin conexión: usando la copia guardada de ${key}`);
+    return cached.value;
+  }
+};
+
+/**
+ * Leer todos los cambios de la cola, del más antiguo al más reciente
+ */
+export const getStoredMutations = async <T extends { createdAt: number }>(): Promise<T[]> => {
+  try {
+    const mutations = await runRequest<T[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+    return mutations.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Error al leer la cola de cambios pendientes:', error);
+    return [];
+  }
+};
+
+/**
+ * Guardar (o reemplazar) un cambio de la cola
+ * A diferencia de la caché, los errores se propagan: perder un cambio no debe pasar en silencio
+ */
+export const putStoredMutation = async <T extends { id: string }>(mutation: T): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.put(mutation));
+};
+
+/**
+ * Quitar un cambio de la cola
+ */
+export const deleteStoredMutation = async (id: string): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Borrar la caché, la cola y las respuestas guardadas por el service worker
+ * (al cerrar sesión, para no dejar datos del usuario en el navegador)
+ */
+export const clearOfflineData = async (): Promise<void> => {
+  try {
+    await runRequest(CACHE_STORE, 'readwrite', store => store.clear());
+    await runRequest(QUEUE_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Error al borrar los datos sin conexión:', error);
+  }
+
+  if ('caches' in window) {
+    await caches.delete(SERVICE_WORKER_API_CACHE).catch(error => {
+      console.error('Error al borrar la caché del service worker:', error);
+    });
+  }
+};
@@ -0,0 +1,205 @@
+/**
+ * Servicio de Organizaciones
+ *
+ * Este servicio gestiona las organizaciones de clientes: los trabajos se publican
+ * en nombre de una organización y cada miembro tiene un rol con sus permisos.
+ * También gestiona las invitaciones por correo o por enlace.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+
+export type OrganizationRole = 'owner' | 'admin' | 'hiring_manager' | 'viewer';
+
+export type OrganizationPermission =
+  | 'organization:manage'  // Cambiar el nombre de la organización
+  | 'members:manage'       // Invitar, quitar y cambiar el rol de los miembros
+  | 'jobs:manage'          // Publicar, editar y eliminar trabajos
+  | 'proposals:manage'     // Aceptar, rechazar y preseleccionar ofertas
+  | 'contracts:manage'     // Añadir, financiar, aprobar y pagar los hitos de los contratos
+  | 'jobs:view';           // Ver las ofertas y candidatos de los trabajos
+
+export type OrganizationType = {
+  id: string;              // ID único de la organización
+  name: string;            // Nombre visible
+  role: OrganizationRole;  // Rol del usuario actual en ella
+};
+
+export type OrganizationMemberType = {
+  id: string;              // ID de la pertenencia (no del usuario)
+  userId: string;
+  userName: string;
+  userEmail?: string;
+  userPhoto?: string;
+  role: OrganizationRole;
+  joinedAt: number;        // Marca de tiempo de entrada en la organización
+};
+
+export type OrganizationInvitationType = {
+  id: string;
+  email?: string;          // Sin correo: invitación por enlace
+  role: Exclude<OrganizationRole, 'owner'>;
+  inviterName?: string;
+  expiresAt: number;
+  createdAt: number;
+};
+
+export type InvitationPreviewType = {
+  organizationId: string;
+  organizationName: string;
+  inviterName?: string;
+  email?: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  expiresAt: number;
+};
+
+// Nombre de cada rol en la interfaz
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  hiring_manager: 'Responsable de contratación',
+  viewer: 'Observador'
+};
+
+// Qué puede hacer cada rol (igual que en el servidor)
+const ROLE_PERMISSIONS: Record<OrganizationRole, OrganizationPermission[]> = {
+  owner: ['organization:manage', 'members:manage', 'jobs:manage', 'proposals:manage', 'contracts:manage', 'jobs:view'],
+  admin: ['members:manage', 'jobs:manage', 'proposals:manage', 'contracts:manage', 'jobs:view'],
+  hiring_manager: ['jobs:manage', 'proposals:manage', 'contracts:manage', 'jobs:view'],
+  viewer: ['jobs:view']
+};
+
+/**
+ * Indica si un rol incluye un permiso
+ */
+export const hasPermission = (role: OrganizationRole | undefined, permission: OrganizationPermission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Formato de las organizaciones, los miembros y las invitaciones tal y como los devuelve el servidor
+type ApiOrganization = ApiEntity<'organization'>;
+type ApiMember = ApiEntity<'organizationMember'>;
+type ApiInvitation = ApiEntity<'organizationInvitation'>;
+
+const mapApiOrganization = (organization: ApiOrganization): OrganizationType => ({
+  id: organization.id,
+  name: organization.name,
+  role: organization.role
+});
+
+const mapApiMember = (member: ApiMember): OrganizationMemberType => ({
+  id: member.id,
+  userId: member.userId,
+  userName: member.user?.name || 'Usuario',
+  userEmail: member.user?.email,
+  userPhoto: member.user?.photoURL || undefined,
+  role: member.role,
+  joinedAt: new Date(member.createdAt).getTime()
+});
+
+const mapApiInvitation = (invitation: ApiInvitation): OrganizationInvitationType => ({
+  id: invitation.id,
+  email: invitation.email || undefined,
+  role: invitation.role,
+  inviterName: invitation.inviter?.name,
+  expiresAt: new Date(invitation.expiresAt).getTime(),
+  createdAt: new Date(invitation.createdAt).getTime()
+});
+
+/**
+ * Obtener las organizaciones del usuario actual
+ */
+export const getMyOrganizations = async (): Promise<OrganizationType[]> => {
+  const response = await callApi('organizations.getMyOrganizations');
+  return (response.organizations || []).map(mapApiOrganization);
+};
+
+/**
+ * Crear una organización (el usuario actual será su propietario)
+ */
+export const createOrganization = async (name: string): Promise<OrganizationType> => {
+  const response = await callApi('organizations.createOrganization', { body: { name } });
+  return mapApiOrganization(response.organization);
+};
+
+/**
+ * Cambiar el nombre de una organización
+ */
+export const renameOrganization = async (organizationId: string, name: string): Promise<OrganizationType> => {
+  const response = await callApi('organizations.updateOrganization', { params: { organizationId }, body: { name } });
+  return mapApiOrganization(response.organization);
+};
+
+/**
+ * Obtener los miembros de una organización y, si se pueden gestionar, las invitaciones pendientes
+ */
+export const getOrganizationMembers = async (organizationId: string): Promise<{
+  members: OrganizationMemberType[];
+  invitations: OrganizationInvitationType[];
+}> => {
+  const response = await callApi('organizations.getMembers', { params: { organizationId } });
+  return {
+    members: (response.members || []).map(mapApiMember),
+    invitations: (response.invitations || []).map(mapApiInvitation)
+  };
+};
+
+/**
+ * Cambiar el rol de un miembro
+ */
+export const updateMemberRole = async (organizationId: string, memberId: string, role: OrganizationRole): Promise<void> => {
+  await callApi('organizations.updateMemberRole', { params: { organizationId, memberId }, body: { role } });
+};
+
+/**
+ * Quitar a un miembro (o salir de la organización si es el propio usuario)
+ */
+export const removeMember = async (organizationId: string, memberId: string): Promise<void> => {
+  await callApi('organizations.removeMember', { params: { organizationId, memberId } });
+};
+
+/**
+ * Invitar por correo (con email) o crear un enlace de invitación (sin email)
+ * @returns La invitación y, si es por enlace, la URL para compartir
+ */
+export const createInvitation = async (
+  organizationId: string,
+  role: OrganizationInvitationType['role'],
+  email?: string
+): Promise<{ invitation: OrganizationInvitationType; url: string | null }> => {
+  const response = await callApi('organizations.createInvitation', { params: { organizationId }, body: { role, email } });
+  return {
+    invitation: mapApiInvitation(response.invitation),
+    url: response.url || null
+  };
+};
+
+/**
+ * Anular una invitación pendiente
+ */
+export const revokeInvitation = async (organizationId: string, invitationId: string): Promise<void> => {
+  await callApi('organizations.revokeInvitation', { params: { organizationId, invitationId } });
+};
+
+/**
+ * Consultar una invitación a partir del token del enlace
+ */
+export const getInvitationPreview = async (token: string): Promise<InvitationPreviewType> => {
+  const response = await callApi('organizations.getInvitation', { params: { token } });
+  const invitation = response.invitation;
+  return {
+    organizationId: invitation.organization.id,
+    organizationName: invitation.organization.name,
+    inviterName: invitation.inviter?.name,
+    email: invitation.email || undefined,
+    role: invitation.role,
+    expiresAt: new Date(invitation.expiresAt).getTime()
+  };
+};
+
+/**
+ * Aceptar una invitación
+ * @returns La organización a la que se ha unido el usuario
+ */
+export const acceptInvitation = async (token: string): Promise<OrganizationType> => {
+  const response = await callApi('organizations.acceptInvitation', { body: { token } });
+  return mapApiOrganization(response.organization);
+};
@@ -0,0 +1,115 @@
+/**
+ * Servicio de Ofertas
+ *
+ * Este servicio gestiona las ofertas (proposals) que los freelancers
+ * envían a los trabajos publicados, a través de la API.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { JobType } from '@/contexts/JobContext';
+import { AttachmentType, mapApiAttachment } from './attachmentService';
+
+export type ProposalStatus = 'pending' | 'shortlisted' | 'accepted' | 'rejected' | 'withdrawn';
+
+export type ProposalType = {
+  id: string;                 // ID único de la oferta
+  jobId: string;              // ID del trabajo al que se envía
+  userId: string;             // ID del freelancer que la envía
+  userName: string;           // Nombre del freelancer
+  userPhoto?: string;         // Foto del freelancer (opcional)
+  userSkills: string[];       // Habilidades del freelancer
+  coverLetter: string;        // Carta de presentación
+  proposedBudget: number;     // Presupuesto propuesto
+  estimatedDuration: number;  // Duración estimada en días
+  attachments: string[];      // Enlaces a archivos adjuntos
+  files: AttachmentType[];    // Archivos subidos con la oferta
+  status: ProposalStatus;     // Estado actual de la oferta
+  matchScore?: number;        // Puntuación de relevancia (solo para el propietario del trabajo)
+  timestamp: number;          // Marca de tiempo de envío
+  job?: Pick<JobType, 'id' | 'title' | 'budget' | 'status' | 'userId'>; // Trabajo asociado (en "mis ofertas")
+};
+
+export type ProposalInput = {
+  coverLetter: string;
+  proposedBudget: number;
+  estimatedDuration: number;
+  attachments: string[];
+};
+
+// Formato de las ofertas tal y como las devuelve el servidor
+type ApiProposal = ApiEntity<'proposal'>;
+
+/**
+ * Convertir una oferta del servidor al formato ProposalType
+ */
+const mapApiProposal = (proposal: ApiProposal): ProposalType => ({
+  id: proposal.id,
+  jobId: proposal.jobId,
+  userId: proposal.userId,
+  userName: proposal.user?.name || "Usuario",
+  userPhoto: proposal.user?.photoURL || undefined,
+  userSkills: proposal.user?.skills || [],
+  coverLetter: proposal.coverLetter,
+  proposedBudget: proposal.proposedBudget,
+  estimatedDuration: proposal.estimatedDuration,
+  attachments: proposal.attachments || [],
+  files: Array.isArray(proposal.files) ? proposal.files.map(mapApiAttachment) : [],
+  status: proposal.status,
+  matchScore: proposal.matchScore,
+  timestamp: new Date(proposal.createdAt).getTime(),
+  job: proposal.job && {
+    id: proposal.job.id,
+    title: proposal.job.title,
+    budget: proposal.job.budget,
+    status: proposal.job.status,
+    userId: proposal.job.userId
+  }
+});
+
+/**
+ * Obtener las ofertas de un trabajo
+ * El propietario recibe todas ordenadas por relevancia; un freelancer solo la suya
+ */
+export const getJobProposals = async (jobId: string): Promise<ProposalType[]> => {
+  const response = await callApi('proposals.getJobProposals', { params: { jobId } });
+  return Array.isArray(response.proposals) ? response.proposals.map(mapApiProposal) : [];
+};
+
+/**
+ * Obtener las ofertas enviadas por el usuario actual
+ */
+export const getMyProposals = async (): Promise<ProposalType[]> => {
+  const response = await callApi('proposals.getMyProposals');
+  return Array.isArray(response.proposals) ? response.proposals.map(mapApiProposal) : [];
+};
+
+/**
+ * Enviar una oferta a un trabajo
+ */
+export const submitProposal = async (jobId: string, data: ProposalInput): Promise<ProposalType> => {
+  const response = await callApi('proposals.createProposal', { params: { jobId }, body: data });
+
+  if (!response.proposal) {
+    throw new Error(response.message || 'Error al enviar la oferta');
+  }
+
+  return mapApiProposal(response.proposal);
+};
+
+/**
+ * Cambiar el estado de una oferta (solo el propietario del trabajo)
+ */
+export const updateProposalStatus = async (
+  proposalId: string,
+  status: Extract<ProposalStatus, 'accepted' | 'rejected' | 'shortlisted'>
+): Promise<ProposalStatus> => {
+  const response = await callApi('proposals.updateProposalStatus', { params: { proposalId }, body: { status } });
+  return response.proposal?.status || status;
+};
+
+/**
+ * Retirar una oferta propia
+ */
+export const withdrawProposal = async (proposalId: string): Promise<void> => {
+  await callApi('proposals.withdrawProposal', { params: { proposalId } });
+};
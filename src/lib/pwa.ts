@@ -0,0 +1,218 @@
+/**
+ * Aplicación instalable (PWA)
+ *
+ * Registra el service worker (public/sw.js), que precarga la aplicación y guarda
+ * los listados públicos de trabajos para usarlos sin conexión, gestiona la instalación
+ * y muestra notificaciones de escritorio. El service worker solo se registra en
+ * producción: en desarrollo serviría versiones antiguas de los archivos.
+ */
+
+import { onSyncStateChange, replayQueue } from './offlineQueue';
+
+// Etiqueta de la sincronización en segundo plano de la cola (la misma que en public/sw.js)
+const SYNC_TAG = 'wfc-outbox';
+
+// Preferencia del usuario para las notificaciones de escritorio ('on' | 'off')
+const DESKTOP_NOTIFICATIONS_KEY = 'wfc_desktop_notifications';
+
+// Evento que lanza el navegador cuando la aplicación se puede instalar
+type BeforeInstallPromptEvent = Event & {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+};
+
+type SyncManagerRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+export type DesktopNotification = {
+  title: string;
+  body: string;
+  url: string;   // Ruta de la aplicación que se abre al pulsarla
+  tag?: string;  // Las notificaciones con la misma etiqueta se reemplazan (ej: una por chat)
+};
+
+// Instalación pendiente de que el usuario la confirme
+let installPrompt: BeforeInstallPromptEvent | null = null;
+
+// Ya se ha pedido la sincronización de la cola actual
+let syncRequested = false;
+
+const installListeners = new Set<(available: boolean) => void>();
+const navigateListeners = new Set<(url: string) => void>();
+
+const notifyInstall = () => {
+  installListeners.forEach(listener => listener(!!installPrompt));
+};
+
+const notifyNavigate = (url: string) => {
+  navigateListeners.forEach(listener => listener(url));
+};
+
+/**
+ * Pedir al service worker una sincronización en segundo plano de la cola
+ * Al volver la conexión avisa a las pestañas abiertas de la aplicación, aunque estén en
+ * segundo plano. Sin ninguna abierta no se envía nada: la cola y el token solo los tiene
+ * la página, y se envía al volver a abrir la aplicación (ver startOfflineSync)
+ */
+const requestBackgroundSync = async () => {
+  try {
+    const registration = await navigator.serviceWorker.ready as SyncManagerRegistration;
+    await registration.sync?.register(SYNC_TAG);
+  } catch (error) {
+    console.error('Error al pedir la sincronización en segundo plano:', error);
+  }
+};
+
+/**
+ * Registrar el service worker y los eventos de instalación
+ * Se llama una vez al arrancar la aplicación
+ */
+export const registerServiceWorker = () => {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    // Se muestra la opción de instalar en el menú en lugar del aviso del navegador
+    event.preventDefault();
+    installPrompt = event as BeforeInstallPromptEvent;
+    notifyInstall();
+  });
+
+  window.addEventListener('appinstalled', () => {
+    installPrompt = null;
+    notifyInstall();
+  });
+
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error al registrar el service worker:', error);
+    });
+  });
+
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    const data = event.data || {};
+    if (data.type === 'REPLAY_QUEUE') replayQueue();
+    if (data.type === 'OPEN_URL' && typeof data.url === 'string') notifyNavigate(data.url);
+  });
+
+  // Los mensajes escritos sin conexión se envían en cuanto vuelve mientras haya una pestaña abierta, aunque no esté activa
+  onSyncStateChange(state => {
+    if (state.online) {
+      syncRequested = false;
+      return;
+    }
+    const hasQueuedMessages = state.mutations.some(mutation => mutation.type === 'message' && mutation.status === 'pending');
+    if (hasQueuedMessages && !syncRequested) {
+      syncRequested = true;
+      requestBackgroundSync();
+    }
+  });
+};
+
+/**
+ * Indicar si el navegador ofrece instalar la aplicación
+ */
+export const canInstallApp = () => !!installPrompt;
+
+/**
+ * Suscribirse a los cambios en la posibilidad de instalar la aplicación
+ * @returns Función para cancelar la suscripción
+ */
+export const onInstallAvailabilityChange = (listener: (available: boolean) => void): (() => void) => {
+  installListeners.add(listener);
+  return () => {
+    installListeners.delete(listener);
+  };
+};
+
+/**
+ * Mostrar el diálogo de instalación del navegador
+ * @returns true si el usuario instala la aplicación
+ */
+export const installApp = async (): Promise<boolean> => {
+  if (!installPrompt) return false;
+
+  const prompt = installPrompt;
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+
+  // El evento solo se puede usar una vez
+  installPrompt = null;
+  notifyInstall();
+  return outcome === 'accepted';
+};
+
+/**
+ * Indicar si el navegador permite notificaciones de escritorio
+ */
+export const desktopNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Indicar si las notificaciones de escritorio están activas (permiso concedido y no desactivadas)
+ */
+export const desktopNotificationsEnabled = () =>
+  desktopNotificationsSupported() &&
+  Notification.permission === 'granted' &&
+  localStorage.getItem(DESKTOP_NOTIFICATIONS_KEY) !== 'off';
+
+/**
+ * Activar o desactivar las notificaciones de escritorio
+ * Al activarlas se pide permiso al navegador si aún no se ha concedido
+ * @returns Si quedan activas
+ */
+export const setDesktopNotificationsEnabled = async (enabled: boolean): Promise<boolean> => {
+  if (!desktopNotificationsSupported()) return false;
+
+  if (!enabled) {
+    localStorage.setItem(DESKTOP_NOTIFICATIONS_KEY, 'off');
+    return false;
+  }
+
+  const permission = Notification.permission === 'default'
+    ? await Notification.requestPermission()
+    : Notification.permission;
+
+  if (permission !== 'granted') return false;
+
+  localStorage.setItem(DESKTOP_NOTIFICATIONS_KEY, 'on');
+  return true;
+};
+
+/**
+ * Mostrar una notificación de escritorio
+ * Con service worker la muestra él (sigue funcionando si se cierra la pestaña que la creó);
+ * si no, se usa la API de notificaciones de la página
+ */
+export const showDesktopNotification = async ({ title, body, url, tag }: DesktopNotification) => {
+  if (!desktopNotificationsEnabled()) return;
+
+  const options = { body, tag, icon: '/icons/icon.svg', data: { url } };
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      notifyNavigate(url);
+      notification.close();
+    };
+  } catch (error) {
+    console.error('Error al mostrar la notificación de escritorio:', error);
+  }
+};
+
+/**
+ * Suscribirse a las rutas que se deben abrir al pulsar una notificación de escritorio
+ * @returns Función para cancelar la suscripción
+ */
+export const onNotificationNavigate = (listener: (url: string) => void): (() => void) => {
+  navigateListeners.add(listener);
+  return () => {
+    navigateListeners.delete(listener);
+  };
+};
@@ -0,0 +1,27 @@
+/**
+ * Claves de React Query de los trabajos y los chats
+ *
+ * Cada recurso cuelga de su clave raíz para poder invalidarlo por partes:
+ * invalidar jobKeys.detail(id) recarga el trabajo y su historial de estados,
+ * invalidar jobKeys.saved(userId) recarga los guardados con sus notas y listas,
+ * e invalidar jobKeys.all recarga todos los trabajos en caché.
+ */
+
+export const jobKeys = {
+  all: ['jobs'] as const,
+  lists: () => [...jobKeys.all, 'list'] as const,
+  list: (userId?: string) => [...jobKeys.lists(), userId] as const,
+  saved: (userId?: string) => [...jobKeys.all, 'saved', userId] as const,
+  savedEntries: (userId?: string) => [...jobKeys.saved(userId), 'entries'] as const,
+  savedCollections: (userId?: string) => [...jobKeys.saved(userId), 'collections'] as const,
+  detail: (jobId: string) => [...jobKeys.all, jobId] as const,
+  statusHistory: (jobId: string, userId?: string, status?: string) =>
+    [...jobKeys.detail(jobId), 'status-history', userId, status] as const
+};
+
+export const chatKeys = {
+  all: ['chats'] as const,
+  list: (userId?: string) => [...chatKeys.all, 'list', userId] as const,
+  messageEdits: (chatId: string, messageId: string, editedAt?: number) =>
+    [...chatKeys.all, chatId, 'messages', messageId, 'edits', editedAt] as const
+};
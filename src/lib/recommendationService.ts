@@ -0,0 +1,91 @@
+/**
+ * Servicio de Recomendaciones
+ *
+ * Este servicio obtiene las propuestas recomendadas para un freelancer y los
+ * freelancers recomendados para una propuesta, junto con los datos que
+ * explican cada coincidencia (habilidades, categoría y presupuesto).
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { mapApiJob } from './jobService';
+import { JobType } from '@/contexts/JobContext';
+
+export type MatchExplanationType = {
+  score: number;                 // Puntuación de 0 a 100
+  matchedSkills: string[];       // Habilidades en común
+  missingSkills: string[];       // Habilidades de la propuesta que no tiene el freelancer
+  categoryCount: number;         // Ofertas previas del freelancer en la categoría
+  estimatedHours: number | null; // Horas que cubre el presupuesto a la tarifa del freelancer
+  budgetFits: boolean;           // El presupuesto es adecuado a la tarifa
+};
+
+export type RecommendedJobType = {
+  job: JobType;
+  match: MatchExplanationType;
+};
+
+export type RecommendedFreelancerType = {
+  freelancer: {
+    id: string;
+    name: string;
+    photoURL?: string;
+    bio?: string;
+    skills: string[];
+    hourlyRate?: number;
+    ratingAverage?: number;
+    ratingCount?: number;
+  };
+  match: MatchExplanationType;
+};
+
+/**
+ * Convertir la explicación de una recomendación al formato MatchExplanationType
+ */
+const mapApiMatch = (match: ApiEntity<'matchExplanation'>): MatchExplanationType => ({
+  score: match.score,
+  matchedSkills: match.matchedSkills,
+  missingSkills: match.missingSkills,
+  categoryCount: match.categoryCount,
+  estimatedHours: match.estimatedHours,
+  budgetFits: match.budgetFits
+});
+
+/**
+ * Obtener las propuestas recomendadas para el freelancer autenticado
+ */
+export const getRecommendedJobs = async (limit?: number): Promise<RecommendedJobType[]> => {
+  const response = await callApi('recommendations.getRecommendedJobs', { query: { limit } });
+
+  if (!Array.isArray(response.recommendations)) return [];
+
+  return response.recommendations.map(recommendation => ({
+    job: mapApiJob(recommendation.job),
+    match: mapApiMatch(recommendation.match)
+  }));
+};
+
+/**
+ * Obtener los freelancers recomendados para una propuesta propia
+ */
+export const getRecommendedFreelancers = async (jobId: string, limit?: number): Promise<RecommendedFreelancerType[]> => {
+  const response = await callApi('recommendations.getRecommendedFreelancers', {
+    params: { jobId },
+    query: { limit }
+  });
+
+  if (!Array.isArray(response.recommendations)) return [];
+
+  return response.recommendations.map(({ freelancer, match }) => ({
+    freelancer: {
+      id: freelancer.id,
+      name: freelancer.name,
+      photoURL: freelancer.photoURL || undefined,
+      bio: freelancer.bio || undefined,
+      skills: freelancer.skills || [],
+      hourlyRate: freelancer.hourlyRate ?? undefined,
+      ratingAverage: freelancer.ratingAverage ?? undefined,
+      ratingCount: freelancer.ratingCount ?? undefined
+    },
+    match: mapApiMatch(match)
+  }));
+};
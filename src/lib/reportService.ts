@@ -0,0 +1,32 @@
+/**
+ * Servicio de Denuncias
+ *
+ * Este servicio permite denunciar trabajos, comentarios, respuestas, mensajes
+ * y perfiles. Las denuncias llegan a la cola de moderación de los administradores.
+ */
+
+import { callApi } from './apiClient';
+
+export type ReportTargetType = 'job' | 'comment' | 'reply' | 'message' | 'user';
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'fraud' | 'other';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam o publicidad',
+  harassment: 'Acoso o insultos',
+  inappropriate: 'Contenido inapropiado',
+  fraud: 'Fraude o estafa',
+  other: 'Otro motivo'
+};
+
+/**
+ * Denunciar un contenido o un perfil
+ * @param details - Explicación opcional para los moderadores
+ */
+export const createReport = async (
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<void> => {
+  await callApi('reports.createReport', { body: { targetType, targetId, reason, details } });
+};
@@ -0,0 +1,122 @@
+/**
+ * Servicio de Reseñas
+ *
+ * Este servicio gestiona las reseñas que cliente y freelancer se dejan
+ * al completar un trabajo y la valoración agregada de cada usuario.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+
+export type ReviewScores = {
+  rating: number;         // Valoración general (1-5)
+  communication: number;  // Comunicación (1-5)
+  quality: number;        // Calidad del trabajo (1-5)
+  timeliness: number;     // Cumplimiento de plazos (1-5)
+};
+
+export type ReviewType = ReviewScores & {
+  id: string;             // ID único de la reseña
+  jobId: string;          // Trabajo valorado
+  jobTitle?: string;      // Título del trabajo (en las reseñas de un usuario)
+  reviewerId: string;     // Usuario que escribe la reseña
+  reviewerName: string;   // Nombre de quien escribe la reseña
+  reviewerPhoto?: string; // Foto de quien escribe la reseña
+  revieweeId: string;     // Usuario valorado
+  comment?: string;       // Reseña escrita
+  isRevealed: boolean;    // Visible para ambas partes
+  timestamp: number;      // Marca de tiempo de creación
+};
+
+export type RatingSummaryType = {
+  count: number;
+  average: number;
+  communication: number;
+  quality: number;
+  timeliness: number;
+};
+
+export type JobReviewsType = {
+  reviews: ReviewType[];
+  canReview: boolean;           // El usuario actual todavía puede valorar
+  awaitingCounterpart: boolean; // La reseña del usuario está oculta a la espera de la otra parte
+  reviewWindowDays: number;     // Días desde que se completa el trabajo para valorar
+  reviewDeadline?: number;      // Fin del plazo para valorar (timestamp); después se publican las reseñas
+};
+
+export type ReviewInput = ReviewScores & {
+  comment?: string;
+};
+
+// Formato de las reseñas tal y como las devuelve el servidor
+type ApiReview = ApiEntity<'review'>;
+
+/**
+ * Convertir el resumen de valoraciones del servidor al formato RatingSummaryType
+ */
+export const mapApiRatingSummary = (summary: ApiEntity<'ratingSummary'>): RatingSummaryType => ({
+  count: summary.count,
+  average: summary.average,
+  communication: summary.communication,
+  quality: summary.quality,
+  timeliness: summary.timeliness
+});
+
+/**
+ * Convertir una reseña del servidor al formato ReviewType
+ */
+const mapApiReview = (review: ApiReview): ReviewType => ({
+  id: review.id,
+  jobId: review.jobId,
+  jobTitle: review.job?.title,
+  reviewerId: review.reviewerId,
+  reviewerName: review.reviewer?.name || "Usuario",
+  reviewerPhoto: review.reviewer?.photoURL || undefined,
+  revieweeId: review.revieweeId,
+  rating: review.rating,
+  communication: review.communication,
+  quality: review.quality,
+  timeliness: review.timeliness,
+  comment: review.comment || undefined,
+  isRevealed: !!review.revealedAt,
+  timestamp: new Date(review.createdAt).getTime()
+});
+
+/**
+ * Obtener las reseñas de un trabajo y si el usuario actual puede valorar
+ */
+export const getJobReviews = async (jobId: string): Promise<JobReviewsType> => {
+  const response = await callApi('reviews.getJobReviews', { params: { jobId } });
+
+  return {
+    reviews: Array.isArray(response.reviews) ? response.reviews.map(mapApiReview) : [],
+    canReview: !!response.canReview,
+    awaitingCounterpart: !!response.awaitingCounterpart,
+    reviewWindowDays: response.reviewWindowDays || 14,
+    reviewDeadline: response.reviewDeadline ? new Date(response.reviewDeadline).getTime() : undefined
+  };
+};
+
+/**
+ * Valorar a la otra parte de un trabajo completado
+ */
+export const submitReview = async (jobId: string, data: ReviewInput): Promise<ReviewType> => {
+  const response = await callApi('reviews.createReview', { params: { jobId }, body: data });
+
+  if (!response.review) {
+    throw new Error(response.message || 'Error al enviar la reseña');
+  }
+
+  return mapApiReview(response.review);
+};
+
+/**
+ * Obtener las reseñas visibles de un usuario y su valoración
+ */
+export const getUserReviews = async (userId: string): Promise<{ reviews: ReviewType[]; ratingSummary: RatingSummaryType | null }> => {
+  const response = await callApi('reviews.getUserReviews', { params: { userId } });
+
+  return {
+    reviews: Array.isArray(response.reviews) ? response.reviews.map(mapApiReview) : [],
+    ratingSummary: response.ratingSummary ? mapApiRatingSummary(response.ratingSummary) : null
+  };
+};
@@ -0,0 +1,103 @@
+/**
+ * Servicio de Trabajos guardados
+ *
+ * Este servicio gestiona las notas de cada propuesta guardada y las listas
+ * con nombre (ej: "Shortlist Q4") en las que el usuario las organiza.
+ * Marcar y desmarcar una propuesta como guardada se hace con toggleSavedJob
+ * de jobService.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { mapApiJob } from './jobService';
+import { JobType } from '@/contexts/JobContext';
+
+export type SavedJobCollectionType = {
+  id: string;           // ID único de la lista
+  name: string;         // Nombre elegido por el usuario
+  savedCount: number;   // Propuestas guardadas en la lista
+};
+
+export type SavedJobType = {
+  jobId: string;        // Propuesta guardada
+  note?: string;        // Nota privada del usuario
+  collectionId?: string; // Lista en la que está (sin lista si no tiene)
+  savedAt: number;      // Marca de tiempo de cuando se guardó
+  job: JobType;         // Datos de la propuesta
+};
+
+// Cambios de un guardado; null quita la nota o la lista
+export type SavedJobChanges = {
+  note?: string | null;
+  collectionId?: string | null;
+};
+
+/**
+ * Convertir un guardado del servidor al formato SavedJobType
+ */
+const mapApiSavedJob = (savedJob: ApiEntity<'savedJob'>): SavedJobType => ({
+  jobId: savedJob.jobId,
+  note: savedJob.note || undefined,
+  collectionId: savedJob.collectionId || undefined,
+  savedAt: new Date(savedJob.createdAt).getTime(),
+  job: mapApiJob(savedJob.job)
+});
+
+const mapApiCollection = (collection: ApiEntity<'savedJobCollection'>): SavedJobCollectionType => ({
+  id: collection.id,
+  name: collection.name,
+  savedCount: collection.savedCount || 0
+});
+
+/**
+ * Obtener las propuestas guardadas del usuario actual con su nota y su lista
+ */
+export const getSavedJobEntries = async (): Promise<SavedJobType[]> => {
+  const response = await callApi('savedJobs.getMySavedJobs');
+  return Array.isArray(response.savedJobs) ? response.savedJobs.map(mapApiSavedJob) : [];
+};
+
+/**
+ * Guardar una propuesta o cambiar su nota y su lista
+ */
+export const updateSavedJob = async (jobId: string, changes: SavedJobChanges): Promise<SavedJobType> => {
+  const response = await callApi('savedJobs.saveJob', { params: { jobId }, body: changes });
+  return mapApiSavedJob(response.savedJob);
+};
+
+/**
+ * Quitar una propuesta de guardados (se pierde también su nota)
+ */
+export const unsaveJob = async (jobId: string): Promise<void> => {
+  await callApi('savedJobs.unsaveJob', { params: { jobId } });
+};
+
+/**
+ * Obtener las listas del usuario actual
+ */
+export const getSavedJobCollections = async (): Promise<SavedJobCollectionType[]> => {
+  const response = await callApi('savedJobs.getMyCollections');
+  return Array.isArray(response.collections) ? response.collections.map(mapApiCollection) : [];
+};
+
+/**
+ * Crear una lista de guardados
+ */
+export const createSavedJobCollection = async (name: string): Promise<SavedJobCollectionType> => {
+  const response = await callApi('savedJobs.createCollection', { body: { name } });
+  return mapApiCollection(response.collection);
+};
+
+/**
+ * Renombrar una lista de guardados
+ */
+export const renameSavedJobCollection = async (collectionId: string, name: string): Promise<SavedJobCollectionType> => {
+  const response = await callApi('savedJobs.updateCollection', { params: { collectionId }, body: { name } });
+  return mapApiCollection(response.collection);
+};
+
+/**
+ * Eliminar una lista; sus propuestas siguen guardadas sin lista
+ */
+export const deleteSavedJobCollection = async (collectionId: string): Promise<void> => {
+  await callApi('savedJobs.deleteCollection', { params: { collectionId } });
+};
@@ -0,0 +1,117 @@
+/**
+ * Servicio de Búsquedas guardadas
+ *
+ * Este servicio gestiona las búsquedas de propuestas que guarda el usuario,
+ * el contador de propuestas nuevas desde su última visita y los avisos
+ * en tiempo real cuando se publica una propuesta que coincide.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { getSocket } from './socket';
+import { JobSearchParams } from './jobService';
+
+export type SavedSearchFilters = Pick<
+  JobSearchParams,
+  'search' | 'category' | 'status' | 'skills' | 'skillsMatch' | 'minBudget' | 'maxBudget'
+>;
+
+export type SavedSearchType = {
+  id: string;                  // ID único de la búsqueda guardada
+  name: string;                // Nombre elegido por el usuario
+  filters: SavedSearchFilters; // Filtros guardados
+  newCount: number;            // Propuestas nuevas desde la última visita
+  lastViewedAt: number;        // Marca de tiempo de la última visita
+};
+
+export type SavedSearchMatchType = {
+  savedSearchId: string;
+  savedSearchName: string;
+  job: {
+    id: string;
+    title: string;
+    budget: number;
+    category: string;
+  };
+};
+
+// Formato de las búsquedas guardadas tal y como las devuelve el servidor
+type ApiSavedSearch = ApiEntity<'savedSearch'>;
+
+/**
+ * Convertir una búsqueda guardada del servidor al formato SavedSearchType
+ */
+const mapApiSavedSearch = (savedSearch: ApiSavedSearch): SavedSearchType => ({
+  id: savedSearch.id,
+  name: savedSearch.name,
+  filters: savedSearch.filters || {},
+  newCount: savedSearch.newCount || 0,
+  lastViewedAt: new Date(savedSearch.lastViewedAt).getTime()
+});
+
+/**
+ * Obtener las búsquedas guardadas del usuario actual
+ */
+export const getSavedSearches = async (): Promise<SavedSearchType[]> => {
+  const response = await callApi('savedSearches.getMySavedSearches');
+  return Array.isArray(response.savedSearches) ? response.savedSearches.map(mapApiSavedSearch) : [];
+};
+
+/**
+ * Guardar la combinación actual de filtros con un nombre
+ */
+export const createSavedSearch = async (name: string, filters: SavedSearchFilters): Promise<SavedSearchType> => {
+  const response = await callApi('savedSearches.createSavedSearch', { body: { name, filters } });
+
+  if (!response.savedSearch) {
+    throw new Error(response.message || 'Error al guardar la búsqueda');
+  }
+
+  return mapApiSavedSearch(response.savedSearch);
+};
+
+/**
+ * Marcar una búsqueda guardada como vista (reinicia el contador de nuevas)
+ */
+export const markSavedSearchViewed = async (savedSearchId: string): Promise<void> => {
+  await callApi('savedSearches.markSavedSearchViewed', { params: { savedSearchId } });
+};
+
+/**
+ * Eliminar una búsqueda guardada
+ */
+export const deleteSavedSearch = async (savedSearchId: string): Promise<void> => {
+  await callApi('savedSearches.deleteSavedSearch', { params: { savedSearchId } });
+};
+
+/**
+ * Construir la URL de la página de propuestas con los filtros de una búsqueda
+ */
+export const getSavedSearchUrl = (filters: SavedSearchFilters) => {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set('search', filters.search);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.skills && filters.skills.length > 0) params.set('skills', filters.skills.join(','));
+  if (filters.skillsMatch === 'all') params.set('skillsMatch', 'all');
+  if (filters.minBudget !== undefined) params.set('minBudget', String(filters.minBudget));
+  if (filters.maxBudget !== undefined) params.set('maxBudget', String(filters.maxBudget));
+
+  const query = params.toString();
+  return query ? `/jobs?${query}` : '/jobs';
+};
+
+/**
+ * Suscribirse a los avisos de propuestas nuevas que coinciden con una búsqueda guardada
+ * Devuelve la función para cancelar la suscripción
+ */
+export const subscribeToSavedSearchMatches = (onMatch: (match: SavedSearchMatchType) => void) => {
+  const socket = getSocket();
+  if (!socket) return () => {};
+
+  socket.on('saved_search_match', onMatch);
+
+  return () => {
+    socket.off('saved_search_match', onMatch);
+  };
+};
@@ -0,0 +1,102 @@
+/**
+ * Servicio de Búsqueda
+ *
+ * Este servicio consulta la búsqueda global de texto completo (/api/search) sobre
+ * propuestas, comentarios, respuestas, mensajes de los chats del usuario y perfiles.
+ * Los fragmentos de texto llegan con las coincidencias marcadas con <mark>.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+
+export type SearchResultKind = 'job' | 'comment' | 'reply' | 'message' | 'user';
+
+export type SearchResultType = {
+  id: string;               // ID del elemento encontrado
+  kind: SearchResultKind;   // Tipo de resultado
+  title: string;            // Texto principal (con <mark> en las coincidencias)
+  subtitle?: string;        // Contexto: propuesta, chat o autor
+  snippet?: string;         // Fragmento con las coincidencias marcadas
+  link: string;             // Ruta a la que lleva el resultado
+};
+
+export type SearchResults = {
+  jobs: SearchResultType[];
+  comments: SearchResultType[];
+  messages: SearchResultType[];
+  users: SearchResultType[];
+};
+
+// Formato de los resultados tal y como los devuelve el servidor
+type ApiSearchResults = ApiEntity<'searchResults'>;
+
+// Marcadores de coincidencia en los textos del servidor
+const MARK_PATTERN = /<\/?mark>/g;
+
+/**
+ * Texto sin los marcadores de coincidencia
+ */
+export const stripHighlight = (text = '') => text.replace(MARK_PATTERN, '');
+
+/**
+ * Dividir un texto con marcadores en fragmentos normales y resaltados
+ * Se trata como texto plano para no interpretar HTML del contenido de los usuarios
+ */
+export const splitHighlight = (text = ''): { text: string; highlighted: boolean }[] =>
+  text
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map(part => ({
+      text: stripHighlight(part),
+      highlighted: part.startsWith('<mark>')
+    }));
+
+/**
+ * Convertir los resultados del servidor al formato SearchResults
+ * Los comentarios y las respuestas se muestran juntos
+ */
+const mapApiSearchResults = (results: ApiSearchResults): SearchResults => ({
+  jobs: (results.jobs || []).map(job => ({
+    id: job.id,
+    kind: 'job',
+    title: job.title,
+    subtitle: job.category,
+    snippet: job.snippet,
+    link: `/jobs/${job.id}`
+  })),
+  comments: [
+    ...(results.comments || []).map(comment => ({ ...comment, kind: 'comment' as const })),
+    ...(results.replies || []).map(reply => ({ ...reply, kind: 'reply' as const }))
+  ].map(comment => ({
+    id: comment.id,
+    kind: comment.kind,
+    title: comment.snippet,
+    subtitle: `${comment.userName || 'Usuario'} en "${comment.jobTitle}"`,
+    link: `/jobs/${comment.jobId}`
+  })),
+  messages: (results.messages || []).map(message => ({
+    id: message.id,
+    kind: 'message',
+    title: message.snippet,
+    subtitle: message.isGroup && message.chatName
+      ? `${message.userName || 'Usuario'} en ${message.chatName}`
+      : message.userName,
+    link: `/chats?chatId=${message.chatId}&messageId=${message.id}`
+  })),
+  users: (results.users || []).map(user => ({
+    id: user.id,
+    kind: 'user',
+    title: user.name,
+    subtitle: user.role === 'client' ? 'Cliente' : 'Freelancer',
+    snippet: user.snippet,
+    link: `/user/${user.id}`
+  }))
+});
+
+/**
+ * Buscar en toda la plataforma
+ */
+export const searchAll = async (query: string): Promise<SearchResults> => {
+  const response = await callApi('search.search', { query: { q: query } });
+
+  return mapApiSearchResults(response.results || {});
+};
@@ -0,0 +1,88 @@
+/**
+ * Servicio de Sesiones
+ *
+ * Este servicio lista los dispositivos en los que el usuario tiene la sesión
+ * iniciada y permite cerrar cualquiera de ellos o todos excepto el actual.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+
+export type SessionType = {
+  id: string;          // ID único de la sesión
+  device: string;      // Navegador y sistema operativo (ej: "Chrome en Windows")
+  isMobile: boolean;   // Si el dispositivo es un móvil o tablet
+  ip?: string;         // Última IP desde la que se usó
+  current: boolean;    // Si es la sesión de este dispositivo
+  lastUsedAt: number;  // Marca de tiempo de la última renovación
+  createdAt: number;   // Marca de tiempo del inicio de sesión
+};
+
+// Formato de las sesiones tal y como las devuelve el servidor
+type ApiSession = ApiEntity<'session'>;
+
+// Patrones para reconocer navegador y sistema operativo (el orden importa: Edge y Opera incluyen "Chrome")
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Descripción legible de un user agent (ej: "Firefox en Linux")
+ */
+export const describeUserAgent = (userAgent?: string | null): string => {
+  if (!userAgent) return 'Dispositivo desconocido';
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} en ${os}`;
+  return browser || os || 'Dispositivo desconocido';
+};
+
+/**
+ * Convertir una sesión del servidor al formato SessionType
+ */
+const mapApiSession = (session: ApiSession): SessionType => ({
+  id: session.id,
+  device: describeUserAgent(session.userAgent),
+  isMobile: /Mobi|Android|iPhone|iPad/.test(session.userAgent || ''),
+  ip: session.ip || undefined,
+  current: !!session.current,
+  lastUsedAt: new Date(session.lastUsedAt).getTime(),
+  createdAt: new Date(session.createdAt).getTime()
+});
+
+/**
+ * Obtener las sesiones activas del usuario actual
+ */
+export const getSessions = async (): Promise<SessionType[]> => {
+  const response = await callApi('auth.getSessions');
+  return (response.sessions || []).map(mapApiSession);
+};
+
+/**
+ * Cerrar una sesión concreta
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await callApi('auth.revokeSession', { params: { sessionId } });
+};
+
+/**
+ * Cerrar todas las sesiones excepto la actual
+ * @returns Número de sesiones cerradas
+ */
+export const revokeOtherSessions = async (): Promise<number> => {
+  const response = await callApi('auth.revokeOtherSessions');
+  return response.revokedCount || 0;
+};
@@ -1,17 +1,28 @@
 
 import { io, Socket } from 'socket.io-client';
 import { getToken } from './authService';
+import { refreshAccessToken } from './api';
 
 let socket: Socket | null = null;
 
+/**
+ * Renovar el token de acceso y volver a conectar el socket
+ * Si la sesión se ha cerrado, la renovación falla y la sesión local se cierra
+ */
+const reconnectWithFreshToken = async () => {
+  const refreshed = await refreshAccessToken();
+  if (refreshed && socket && !socket.connected) {
+    socket.connect();
+  }
+};
+
 export const initializeSocket = () => {
   const token = getToken();
   
   if (!socket && token) {
     socket = io('http://localhost:5000', {
-      auth: {
-        token
-      },
+      // Se lee el token en cada intento para reconectar siempre con el más reciente
+      auth: (callback) => callback({ token: getToken() }),
       transports: ['websocket']
     });
 
@@ -21,12 +32,20 @@ export const initializeSocket = () => {
       console.log('Conectado al servidor de WebSockets');
     });
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', (reason) => {
       console.log('Desconectado del servidor de WebSockets');
+      // El servidor desconecta los sockets de una sesión al revocarla
+      if (reason === 'io server disconnect') {
+        reconnectWithFreshToken();
+      }
     });
 
     socket.on('connect_error', (error) => {
       console.error('Error de conexión del socket:', error.message);
+      // El token de acceso caducó: el socket no reintenta solo tras un rechazo del servidor
+      if (error.message === 'Token inválido o expirado') {
+        reconnectWithFreshToken();
+      }
     });
   }
 
@@ -0,0 +1,70 @@
+/**
+ * Servicio de Verificación en dos pasos
+ *
+ * Este servicio gestiona la activación de la verificación en dos pasos con una
+ * aplicación de autenticación (códigos TOTP de 6 dígitos), los códigos de
+ * recuperación y su desactivación.
+ */
+
+import { callApi } from './apiClient';
+
+// Dígitos de los códigos de la aplicación de autenticación
+export const TOTP_CODE_LENGTH = 6;
+
+export type TwoFactorStatus = {
+  enabled: boolean;                // Si la verificación en dos pasos está activa
+  recoveryCodesRemaining: number;  // Códigos de recuperación sin usar
+};
+
+export type TwoFactorSetup = {
+  secret: string;      // Secreto en base32 para introducirlo a mano
+  otpauthUrl: string;  // URL otpauth:// codificada en el QR
+  qrCode: string;      // Imagen del QR como data URL
+};
+
+/**
+ * Obtener el estado de la verificación en dos pasos del usuario actual
+ */
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const response = await callApi('auth.getTwoFactorStatus');
+  return {
+    enabled: !!response.enabled,
+    recoveryCodesRemaining: response.recoveryCodesRemaining || 0
+  };
+};
+
+/**
+ * Generar un secreto nuevo y su código QR para empezar la activación
+ */
+export const startTwoFactorSetup = async (): Promise<TwoFactorSetup> => {
+  const response = await callApi('auth.setupTwoFactor');
+  return {
+    secret: response.secret,
+    otpauthUrl: response.otpauthUrl,
+    qrCode: response.qrCode
+  };
+};
+
+/**
+ * Confirmar la activación con un código de la aplicación
+ * @returns Códigos de recuperación (solo se muestran esta vez)
+ */
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  const response = await callApi('auth.enableTwoFactor', { body: { code } });
+  return response.recoveryCodes || [];
+};
+
+/**
+ * Desactivar la verificación en dos pasos con un código actual o de recuperación
+ */
+export const disableTwoFactor = async (code: string): Promise<void> => {
+  await callApi('auth.disableTwoFactor', { body: { code } });
+};
+
+/**
+ * Generar códigos de recuperación nuevos (los anteriores dejan de servir)
+ */
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const response = await callApi('auth.regenerateRecoveryCodes', { body: { code } });
+  return response.recoveryCodes || [];
+};
@@ -0,0 +1,103 @@
+/**
+ * Servicio de Usuarios
+ *
+ * Este servicio obtiene los perfiles públicos de los usuarios desde la API
+ * (o de la última copia guardada si no hay conexión) y gestiona la lista de
+ * usuarios bloqueados.
+ */
+
+import { ApiEntity, callApi } from './apiClient';
+import { withOfflineCache } from './offlineStore';
+import { UserType } from '@/contexts/DataContext';
+import { RatingSummaryType, mapApiRatingSummary } from './reviewService';
+
+export type UserProfileType = UserType & {
+  hourlyRate?: number;
+  ratingSummary?: RatingSummaryType; // Valoración media y por dimensión
+};
+
+export type BlockedUserType = {
+  id: string;
+  name: string;
+  photoURL?: string;
+  role: UserType['role'];
+  blockedAt: number;
+};
+
+type ApiBlockedUser = ApiEntity<'blockedUser'>;
+
+/**
+ * Convertir un usuario del servidor al formato UserType
+ */
+export const mapApiUser = (user: ApiEntity<'user'>): UserType => ({
+  id: user.id,
+  name: user.name,
+  email: user.email || '',
+  role: user.role,
+  photoURL: user.photoURL || undefined,
+  bio: user.bio || undefined,
+  skills: user.skills || [],
+  joinDate: user.createdAt ? new Date(user.createdAt).getTime() : undefined,
+  ratingAverage: user.ratingAverage ?? undefined,
+  ratingCount: user.ratingCount ?? undefined,
+  emailVerifiedAt: user.emailVerifiedAt
+});
+
+const mapApiBlockedUser = (user: ApiBlockedUser): BlockedUserType => ({
+  id: user.id,
+  name: user.name,
+  photoURL: user.photoURL || undefined,
+  role: user.role,
+  blockedAt: new Date(user.blockedAt).getTime()
+});
+
+/**
+ * Pedir al servidor el perfil público de un usuario
+ */
+const fetchUserProfile = async (userId: string): Promise<UserProfileType | null> => {
+  const response = await callApi('users.getUserById', { params: { userId } });
+  const user = response.user;
+
+  if (!user) return null;
+
+  return {
+    ...mapApiUser(user),
+    hourlyRate: user.hourlyRate ?? undefined,
+    ratingSummary: user.ratingSummary ? mapApiRatingSummary(user.ratingSummary) : undefined
+  };
+};
+
+/**
+ * Obtener el perfil público de un usuario por su ID
+ */
+export const getUserProfile = async (userId: string): Promise<UserProfileType | null> => {
+  try {
+    return await withOfflineCache(`users:${userId}`, () => fetchUserProfile(userId));
+  } catch (error) {
+    console.error("Error al obtener el perfil del usuario:", error);
+    return null;
+  }
+};
+
+/**
+ * Obtener los usuarios bloqueados por el usuario actual
+ */
+export const getBlockedUsers = async (): Promise<BlockedUserType[]> => {
+  const response = await callApi('users.getBlockedUsers');
+  return (response.blockedUsers || []).map(mapApiBlockedUser);
+};
+
+/**
+ * Bloquear a un usuario: deja de verse su contenido y ninguno puede escribir al otro
+ */
+export const blockUser = async (userId: string): Promise<BlockedUserType> => {
+  const response = await callApi('users.blockUser', { params: { userId } });
+  return mapApiBlockedUser(response.blockedUser);
+};
+
+/**
+ * Desbloquear a un usuario
+ */
+export const unblockUser = async (userId: string): Promise<void> => {
+  await callApi('users.unblockUser', { params: { userId } });
+};
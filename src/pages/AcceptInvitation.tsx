@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Building2, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import { InvitationPreviewType, ROLE_LABELS, acceptInvitation, getInvitationPreview } from '@/lib/organizationService';
+import { resendVerificationEmail } from '@/lib/accountService';
+import { toast } from '@/components/ui/use-toast';
+
+const AcceptInvitation = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { currentUser, loading: authLoading } = useAuth();
+  const { refreshOrganizations } = useOrganizations();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [invitation, setInvitation] = useState<InvitationPreviewType | null>(null);
+  const [error, setError] = useState(token ? '' : 'El enlace no es válido');
+  const [accepting, setAccepting] = useState(false);
+  const [sendingVerification, setSendingVerification] = useState(false);
+
+  // Solo se puede aceptar con el correo confirmado
+  const needsVerification = !!currentUser && !currentUser.emailVerifiedAt;
+
+  useEffect(() => {
+    if (!token) return;
+
+    getInvitationPreview(token)
+      .then(setInvitation)
+      .catch(error => setError(error instanceof Error ? error.message : 'La invitación no es válida o ha caducado'));
+  }, [token]);
+
+  // Volver a esta página después de iniciar sesión o registrarse
+  const returnState = { from: `${location.pathname}${location.search}` };
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    try {
+      const organization = await acceptInvitation(token);
+      await refreshOrganizations(organization.id);
+      toast({
+        title: "Invitación aceptada",
+        description: `Ya formas parte de ${organization.name}`
+      });
+      navigate('/organization');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'No se pudo aceptar la invitación');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setSendingVerification(true);
+    try {
+      const message = await resendVerificationEmail();
+      toast({ title: "Correo enviado", description: message });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo reenviar el correo"
+      });
+    } finally {
+      setSendingVerification(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md p-8">
+        <div className="mb-8 text-center">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 rounded-md bg-wfc-purple flex items-center justify-center">
+              <span className="text-white font-bold text-xl">WFC</span>
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">WorkFlow Connect</h1>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">Invitación a una organización</CardTitle>
+            <CardDescription>
+              {invitation
+                ? `${invitation.inviterName || 'Un miembro'} te invita a unirte a su equipo`
+                : 'Revisa los datos de la invitación'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {!invitation && !error && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+              </div>
+            )}
+            {invitation && (
+              <div className="flex items-center gap-3 rounded-md border p-4">
+                <Building2 className="h-8 w-8 text-wfc-purple flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{invitation.organizationName}</p>
+                  <p className="text-sm text-gray-600">Rol: {ROLE_LABELS[invitation.role]}</p>
+                  {invitation.email && <p className="text-xs text-gray-500 truncate">Para {invitation.email}</p>}
+                </div>
+              </div>
+            )}
+            {invitation && needsVerification && (
+              <p className="text-sm text-gray-600">
+                Confirma tu correo <span className="font-medium">{currentUser?.email}</span> con el enlace que te hemos enviado para aceptar la invitación.
+              </p>
+            )}
+            {invitation && !authLoading && !currentUser && (
+              <p className="text-sm text-gray-600">
+                Inicia sesión o crea una cuenta de cliente{invitation.email ? ` con ${invitation.email}` : ''} para aceptarla.
+              </p>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col gap-3">
+            {invitation && currentUser && !needsVerification && (
+              <Button className="w-full bg-wfc-purple hover:bg-wfc-purple-medium" disabled={accepting} onClick={handleAccept}>
+                {accepting ? 'Uniéndote...' : `Unirme a ${invitation.organizationName}`}
+              </Button>
+            )}
+            {invitation && needsVerification && (
+              <Button variant="outline" className="w-full" disabled={sendingVerification} onClick={handleResendVerification}>
+                {sendingVerification ? 'Enviando...' : 'Reenviar enlace de confirmación'}
+              </Button>
+            )}
+            {invitation && !authLoading && !currentUser && (
+              <div className="flex w-full gap-2">
+                <Button asChild className="flex-1 bg-wfc-purple hover:bg-wfc-purple-medium">
+                  <Link to="/login" state={returnState}>Iniciar sesión</Link>
+                </Button>
+                <Button asChild variant="outline" className="flex-1">
+                  <Link to="/register" state={returnState}>Crear cuenta</Link>
+                </Button>
+              </div>
+            )}
+            <Link to={currentUser ? '/dashboard' : '/'} className="text-sm text-wfc-purple hover:underline">
+              {currentUser ? 'Ir al panel' : 'Volver al inicio'}
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+import MainLayout from '@/components/Layout/MainLayout';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AdminJobsQueue } from '@/components/Admin/AdminJobsQueue';
+import { AdminReportsQueue } from '@/components/Admin/AdminReportsQueue';
+import { AdminDisputesQueue } from '@/components/Admin/AdminDisputesQueue';
+import { AdminUsersList } from '@/components/Admin/AdminUsersList';
+import { AdminCatalog } from '@/components/Admin/AdminCatalog';
+import { AdminAuditLog } from '@/components/Admin/AdminAuditLog';
+import { getAdminOverview } from '@/lib/adminService';
+
+/**
+ * Contador de elementos pendientes junto al nombre de una pestaña
+ */
+const CountBadge = ({ count }: { count?: number }) => (
+  count ? <Badge variant="secondary" className="ml-2 px-1.5">{count}</Badge> : null
+);
+
+/**
+ * Panel de administración
+ *
+ * Reúne la moderación de trabajos, las denuncias, las disputas de hitos, la gestión de cuentas,
+ * el catálogo de categorías y habilidades y el registro de auditoría.
+ * Solo es accesible para administradores (la ruta y la API lo comprueban).
+ */
+const AdminPage = () => {
+  const { data: overview } = useQuery({
+    queryKey: ['admin', 'overview'],
+    queryFn: getAdminOverview
+  });
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="pb-4 border-b border-gray-200">
+          <h1 className="text-2xl font-bold">Administración</h1>
+          <p className="text-gray-600 mt-1">
+            {overview
+              ? `${overview.suspendedUsers} ${overview.suspendedUsers === 1 ? 'cuenta suspendida' : 'cuentas suspendidas'} · ${overview.bannedUsers} ${overview.bannedUsers === 1 ? 'cuenta expulsada' : 'cuentas expulsadas'}`
+              : 'Moderación de contenido y gestión de la plataforma'}
+          </p>
+        </div>
+
+        <Tabs defaultValue="jobs">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="jobs">
+              Trabajos
+              <CountBadge count={overview?.pendingJobs} />
+            </TabsTrigger>
+            <TabsTrigger value="reports">
+              Denuncias
+              <CountBadge count={overview?.openReports} />
+            </TabsTrigger>
+            <TabsTrigger value="disputes">
+              Disputas
+              <CountBadge count={overview?.openDisputes} />
+            </TabsTrigger>
+            <TabsTrigger value="users">Usuarios</TabsTrigger>
+            <TabsTrigger value="catalog">Catálogo</TabsTrigger>
+            <TabsTrigger value="audit">Auditoría</TabsTrigger>
+          </TabsList>
+          <TabsContent value="jobs" className="mt-4">
+            <AdminJobsQueue />
+          </TabsContent>
+          <TabsContent value="reports" className="mt-4">
+            <AdminReportsQueue />
+          </TabsContent>
+          <TabsContent value="disputes" className="mt-4">
+            <AdminDisputesQueue />
+          </TabsContent>
+          <TabsContent value="users" className="mt-4">
+            <AdminUsersList />
+          </TabsContent>
+          <TabsContent value="catalog" className="mt-4">
+            <AdminCatalog />
+          </TabsContent>
+          <TabsContent value="audit" className="mt-4">
+            <AdminAuditLog />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default AdminPage;
@@ -1,8 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useChat } from '@/contexts/ChatContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useData } from '@/contexts/DataContext';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,11 +22,28 @@ import {
   ChevronLeft, 
   ChevronRight,
   Info,
-  Loader2
+  Loader2,
+  ArrowDown
 } from 'lucide-react';
 import { ChatGroupForm } from '@/components/ChatGroupForm';
 import { UserSelectDialog } from '@/components/UserSelectDialog';
+import { MessageStatusIndicator } from '@/components/MessageStatusIndicator';
+import { MessageActions } from '@/components/MessageActions';
+import { MessageReactions } from '@/components/MessageReactions';
 import { toast } from '@/components/ui/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+// Tiempo que se resalta el mensaje al que se ha saltado
+const HIGHLIGHT_DURATION = 3000;
+
+// Posición del scroll guardada antes de cargar una página del historial
+type HistoryAnchor = {
+  chatId: string;
+  direction: 'older' | 'newer';
+  scrollHeight: number;
+  scrollTop: number;
+};
 
 const ChatsPage = () => {
   const { 
@@ -32,25 +51,129 @@ const ChatsPage = () => {
     activeChat, 
     setActiveChat, 
     sendMessage, 
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     onlineUsers, 
+    getPresence,
+    typingUsers,
+    notifyTyping,
     createPrivateChat,
     addParticipantToChat,
     loadChats,
-    loadingChats
+    loadingChats,
+    getChat,
+    loadOlderMessages,
+    loadNewerMessages,
+    openChatAtMessage
   } = useChat();
   const { currentUser } = useAuth();
   const { getUserById } = useData();
+  const { isBlocked } = useBlockedUsers();
   const [messageText, setMessageText] = useState('');
   const [isCreatingGroup, setIsCreatingGroup] = useState(false);
   const [isSelectingUser, setIsSelectingUser] = useState(false);
   const [isAddingParticipant, setIsAddingParticipant] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [loadingHistory, setLoadingHistory] = useState<'older' | 'newer' | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<{ id: string; content: string } | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const messagesAreaRef = useRef<HTMLDivElement>(null);
+  const loadOlderRef = useRef<HTMLDivElement>(null);
+  const loadNewerRef = useRef<HTMLDivElement>(null);
+  const historyAnchorRef = useRef<HistoryAnchor | null>(null);
+  
+  const activeChatId = activeChat?.id;
+  const hasOlderMessages = activeChat?.hasOlderMessages;
+  const hasNewerMessages = activeChat?.hasNewerMessages;
+  const firstMessageId = activeChat?.messages[0]?.id;
+  const lastMessageId = activeChat?.messages[activeChat.messages.length - 1]?.id;
+  
+  // El scroll real lo hace el viewport interno del ScrollArea
+  const getMessagesViewport = () =>
+    messagesAreaRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') || null;
+  
+  // Ajustar el scroll cuando cambian los mensajes mostrados:
+  // - al cargar mensajes anteriores se mantiene la posición de lectura
+  // - al cargar mensajes posteriores no se mueve
+  // - en el resto de casos (abrir el chat o mensaje nuevo) se baja al final,
+  //   salvo que se esté viendo una parte antigua del historial
+  useLayoutEffect(() => {
+    const viewport = getMessagesViewport();
+    const anchor = historyAnchorRef.current;
+    historyAnchorRef.current = null;
+    
+    if (!viewport || !activeChatId) return;
+    
+    if (anchor?.chatId === activeChatId) {
+      if (anchor.direction === 'older') {
+        viewport.scrollTop = viewport.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      }
+      return;
+    }
+    
+    if (!hasNewerMessages) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+  }, [activeChatId, hasNewerMessages, firstMessageId, lastMessageId]);
+  
+  /**
+   * Cargar una página del historial guardando antes la posición del scroll
+   */
+  const loadHistory = useCallback(async (direction: 'older' | 'newer') => {
+    const viewport = getMessagesViewport();
+    if (!activeChatId || !viewport || loadingHistory) return;
+    
+    const anchor: HistoryAnchor = {
+      chatId: activeChatId,
+      direction,
+      scrollHeight: viewport.scrollHeight,
+      scrollTop: viewport.scrollTop
+    };
+    historyAnchorRef.current = anchor;
+    setLoadingHistory(direction);
+    
+    try {
+      const added = direction === 'older'
+        ? await loadOlderMessages(activeChatId)
+        : await loadNewerMessages(activeChatId);
+      
+      // Sin mensajes nuevos no habrá cambio que consuma la posición guardada
+      if (!added && historyAnchorRef.current === anchor) {
+        historyAnchorRef.current = null;
+      }
+    } finally {
+      setLoadingHistory(null);
+    }
+  }, [activeChatId, loadingHistory, loadOlderMessages, loadNewerMessages]);
   
+  // Cargar más historial cuando el principio o el final de la lista entra en pantalla
   useEffect(() => {
-    scrollToBottom();
-  }, [activeChat?.messages?.length]);
+    const viewport = getMessagesViewport();
+    if (!viewport || !(hasOlderMessages || hasNewerMessages)) return;
+    
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach(entry => {
+        if (!entry.isIntersecting) return;
+        loadHistory(entry.target === loadOlderRef.current ? 'older' : 'newer');
+      });
+    }, { root: viewport, rootMargin: '200px' });
+    
+    if (loadOlderRef.current) observer.observe(loadOlderRef.current);
+    if (loadNewerRef.current) observer.observe(loadNewerRef.current);
+    return () => observer.disconnect();
+  }, [activeChatId, hasOlderMessages, hasNewerMessages, loadHistory]);
+  
+  // Centrar y resaltar durante un momento el mensaje al que se ha saltado
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
   
   useEffect(() => {
     if (currentUser) {
@@ -59,8 +182,28 @@ const ChatsPage = () => {
     }
   }, [currentUser]);
   
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  // Abrir el chat (y el mensaje) indicados en la URL: /chats?chatId=...&messageId=...
+  useEffect(() => {
+    const chatId = searchParams.get('chatId');
+    if (!chatId || !currentUser || loadingChats) return;
+    
+    const messageId = searchParams.get('messageId');
+    setSearchParams({}, { replace: true });
+    
+    if (messageId) {
+      openChatAtMessage(chatId, messageId).then(found => {
+        if (found) setHighlightedMessageId(messageId);
+      });
+      return;
+    }
+    
+    const chat = getChat(chatId);
+    if (chat) setActiveChat(chat);
+  }, [searchParams, setSearchParams, currentUser, loadingChats, getChat, setActiveChat, openChatAtMessage]);
+  
+  // Buscar la información de un participante en el chat o en los datos globales
+  const getParticipant = (chat, userId: string) => {
+    return chat.participantDetails?.find((participant) => participant.id === userId) || getUserById(userId);
   };
   
   const getChatName = (chat) => {
@@ -69,7 +212,7 @@ const ChatsPage = () => {
     if (!chat.isGroup && currentUser) {
       const otherUserId = chat.participants.find((id) => id !== currentUser.id);
       if (otherUserId) {
-        const otherUser = getUserById(otherUserId);
+        const otherUser = getParticipant(chat, otherUserId);
         return otherUser ? otherUser.name : 'Chat privado';
       }
     }
@@ -77,11 +220,19 @@ const ChatsPage = () => {
     return 'Chat';
   };
   
+  // En un chat privado, el otro participante si el usuario actual le ha bloqueado
+  const getBlockedContact = (chat) => {
+    if (chat.isGroup || !currentUser) return undefined;
+    const otherUserId = chat.participants.find((id) => id !== currentUser.id);
+    if (!isBlocked(otherUserId)) return undefined;
+    return getParticipant(chat, otherUserId) || { id: otherUserId, name: 'este usuario' };
+  };
+  
   const getChatAvatar = (chat) => {
     if (!chat.isGroup && currentUser) {
       const otherUserId = chat.participants.find((id) => id !== currentUser.id);
       if (otherUserId) {
-        const otherUser = getUserById(otherUserId);
+        const otherUser = getParticipant(chat, otherUserId);
         return otherUser?.photoURL;
       }
     }
@@ -100,6 +251,19 @@ const ChatsPage = () => {
     setMessageText('');
   };
   
+  const handleSaveEdit = async () => {
+    if (!activeChat || !editingMessage) return;
+    
+    const saved = await editMessage(activeChat.id, editingMessage.id, editingMessage.content);
+    if (saved) setEditingMessage(null);
+  };
+  
+  // Vista previa del último mensaje en la lista de chats
+  const getMessagePreview = (message) => {
+    if (!message) return 'No hay mensajes aún';
+    return message.deletedAt ? 'Mensaje eliminado' : message.content;
+  };
+  
   const handleCreatePrivateChat = (userId: string) => {
     createPrivateChat(userId);
     toast({
@@ -144,6 +308,36 @@ const ChatsPage = () => {
   };
   
   const isUserOnline = (userId) => onlineUsers.includes(userId);
+  
+  // Estado de conexión del otro participante de un chat privado
+  const getPresenceLabel = (userId: string) => {
+    if (isUserOnline(userId)) return 'En línea';
+    
+    const lastSeen = getPresence(userId)?.lastSeen;
+    return lastSeen
+      ? `Últ. vez ${formatDistanceToNow(lastSeen, { addSuffix: true, locale: es })}`
+      : 'Desconectado';
+  };
+  
+  // Texto del indicador de escritura de un chat
+  const getTypingLabel = (chat) => {
+    const users = (typingUsers[chat.id] || []).filter(user => user.userId !== currentUser?.id);
+    if (users.length === 0) return null;
+    
+    if (!chat.isGroup) return 'Escribiendo…';
+    
+    const names = users.map(user => user.userName || getParticipant(chat, user.userId)?.name || 'Alguien');
+    return names.length === 1
+      ? `${names[0]} está escribiendo…`
+      : `${names.slice(0, -1).join(', ')} y ${names[names.length - 1]} están escribiendo…`;
+  };
+  
+  const handleMessageChange = (value: string) => {
+    setMessageText(value);
+    if (activeChat && value.trim()) {
+      notifyTyping(activeChat.id);
+    }
+  };
 
   const filteredChats = chats.filter(chat => 
     getChatName(chat).toLowerCase().includes(searchQuery.toLowerCase())
@@ -280,11 +474,13 @@ const ChatsPage = () => {
                               </span>
                             )}
                           </div>
-                          <p className="text-sm text-gray-500 truncate mt-1">
-                            {chat.lastMessage 
-                              ? chat.lastMessage.content 
-                              : 'No hay mensajes aún'}
-                          </p>
+                          {getTypingLabel(chat) ? (
+                            <p className="text-sm text-wfc-purple italic truncate mt-1">{getTypingLabel(chat)}</p>
+                          ) : (
+                            <p className={`text-sm text-gray-500 truncate mt-1 ${chat.lastMessage?.deletedAt ? 'italic' : ''}`}>
+                              {getMessagePreview(chat.lastMessage)}
+                            </p>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -347,9 +543,7 @@ const ChatsPage = () => {
                     <p className="text-xs text-gray-500">
                       {activeChat.isGroup 
                         ? `${activeChat.participants.length} participantes` 
-                        : isUserOnline(activeChat.participants.find((id) => id !== currentUser?.id))
-                          ? 'En línea'
-                          : 'Desconectado'
+                        : getPresenceLabel(activeChat.participants.find((id) => id !== currentUser?.id))
                       }
                     </p>
                   </div>
@@ -372,7 +566,7 @@ const ChatsPage = () => {
                   )}
                 </div>
                 
-                <ScrollArea id="messages-container" className="flex-1 p-4">
+                <ScrollArea id="messages-container" ref={messagesAreaRef} className="flex-1 p-4">
                   {activeChat.messages.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-full text-center">
                       <p className="text-gray-500">No hay mensajes aún</p>
@@ -380,10 +574,21 @@ const ChatsPage = () => {
                     </div>
                   ) : (
                     <div className="space-y-6">
-                      {activeChat.messages.map((message, index, messages) => {
+                      {activeChat.hasOlderMessages && (
+                        <div ref={loadOlderRef} className="flex justify-center py-2">
+                          {loadingHistory === 'older' && <Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />}
+                        </div>
+                      )}
+                      {activeChat.messages.filter(message => !isBlocked(message.senderId)).map((message, index, messages) => {
                         const isCurrentUser = currentUser && message.senderId === currentUser.id;
                         const isSystemMessage = message.senderId === "system";
-                        const sender = isSystemMessage ? null : getUserById(message.senderId);
+                        const sender = isSystemMessage ? null : {
+                          name: message.senderName || getParticipant(activeChat, message.senderId)?.name,
+                          photoURL: message.senderPhoto || getParticipant(activeChat, message.senderId)?.photoURL
+                        };
+                        
+                        const isHighlighted = message.id === highlightedMessageId;
+                        const isEditing = editingMessage?.id === message.id;
                         
                         const showDateSeparator = index === 0 || 
                           new Date(message.timestamp).toDateString() !== 
@@ -400,14 +605,19 @@ const ChatsPage = () => {
                             )}
                             
                             {isSystemMessage ? (
-                              <div className="flex justify-center my-4">
+                              <div id={`message-${message.id}`} className="flex justify-center my-4">
                                 <div className="bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-xs text-gray-500 flex items-center">
                                   <Info className="h-3 w-3 mr-1" />
                                   {message.content}
                                 </div>
                               </div>
                             ) : (
-                              <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group`}>
+                              <div
+                                id={`message-${message.id}`}
+                                className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group rounded-lg transition-colors duration-700
+                                  ${isHighlighted ? 'bg-wfc-purple/10' : ''}
+                                `}
+                              >
                                 {!isCurrentUser && (
                                   <Avatar className="h-8 w-8 mr-2 mt-1">
                                     <AvatarImage src={sender?.photoURL} />
@@ -421,52 +631,136 @@ const ChatsPage = () => {
                                   {!isCurrentUser && activeChat.isGroup && (
                                     <p className="text-xs text-gray-500 mb-1">{sender?.name || 'Usuario'}</p>
                                   )}
-                                  <div 
-                                    className={`rounded-lg px-4 py-2 inline-block
-                                      ${isCurrentUser 
-                                        ? 'bg-wfc-purple text-white rounded-tr-none' 
-                                        : 'bg-gray-100 dark:bg-gray-700 rounded-tl-none'}
-                                    `}
-                                  >
-                                    <p className="break-words">{message.content}</p>
+                                  <div className={`flex items-start gap-1 ${isCurrentUser ? 'flex-row-reverse' : ''}`}>
+                                    {isEditing ? (
+                                      <div className="flex flex-col gap-1 min-w-[16rem]">
+                                        <Input
+                                          autoFocus
+                                          value={editingMessage.content}
+                                          onChange={(e) => setEditingMessage({ ...editingMessage, content: e.target.value })}
+                                          onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && !e.shiftKey) {
+                                              e.preventDefault();
+                                              handleSaveEdit();
+                                            }
+                                            if (e.key === 'Escape') setEditingMessage(null);
+                                          }}
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                          <Button variant="ghost" size="sm" onClick={() => setEditingMessage(null)}>
+                                            Cancelar
+                                          </Button>
+                                          <Button
+                                            size="sm"
+                                            onClick={handleSaveEdit}
+                                            disabled={!editingMessage.content.trim()}
+                                            className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                                          >
+                                            Guardar
+                                          </Button>
+                                        </div>
+                                      </div>
+                                    ) : message.deletedAt ? (
+                                      <div className="rounded-lg px-4 py-2 inline-block border border-dashed border-gray-300 dark:border-gray-600">
+                                        <p className="text-sm italic text-gray-500">Este mensaje se eliminó</p>
+                                      </div>
+                                    ) : (
+                                      <div 
+                                        className={`rounded-lg px-4 py-2 inline-block
+                                          ${isCurrentUser 
+                                            ? 'bg-wfc-purple text-white rounded-tr-none' 
+                                            : 'bg-gray-100 dark:bg-gray-700 rounded-tl-none'}
+                                        `}
+                                      >
+                                        <p className="break-words">{message.content}</p>
+                                      </div>
+                                    )}
+                                    {!isEditing && !message.pending && (
+                                      <MessageActions
+                                        chatId={activeChat.id}
+                                        message={message}
+                                        isOwn={!!isCurrentUser}
+                                        onReact={(emoji) => toggleReaction(activeChat.id, message.id, emoji)}
+                                        onEdit={() => setEditingMessage({ id: message.id, content: message.content })}
+                                        onDelete={() => deleteMessage(activeChat.id, message.id)}
+                                      />
+                                    )}
+                                  </div>
+                                  <div className={isCurrentUser ? 'flex justify-end' : ''}>
+                                    <MessageReactions
+                                      message={message}
+                                      currentUserId={currentUser?.id}
+                                      getUserName={(userId) => getParticipant(activeChat, userId)?.name}
+                                      onToggle={(emoji) => toggleReaction(activeChat.id, message.id, emoji)}
+                                    />
+                                  </div>
+                                  <div className={`flex items-center gap-1 mt-1 ${isCurrentUser ? 'justify-end' : ''}`}>
+                                    {message.editedAt && !message.deletedAt && (
+                                      <span className="text-xs text-gray-400">(editado)</span>
+                                    )}
+                                    <span className="text-xs text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                                      {formatTime(message.timestamp)}
+                                    </span>
+                                    {isCurrentUser && (
+                                      <MessageStatusIndicator
+                                        message={message}
+                                        isGroup={activeChat.isGroup}
+                                        getUserName={(userId) => getParticipant(activeChat, userId)?.name}
+                                      />
+                                    )}
                                   </div>
-                                  <p className="text-xs text-gray-400 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    {formatTime(message.timestamp)}
-                                  </p>
                                 </div>
                               </div>
                             )}
                           </React.Fragment>
                         );
                       })}
-                      <div ref={messagesEndRef} />
+                      {activeChat.hasNewerMessages && (
+                        <div ref={loadNewerRef} className="flex justify-center py-2">
+                          {loadingHistory === 'newer' ? (
+                            <Loader2 className="h-5 w-5 animate-spin text-wfc-purple" />
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => setActiveChat(activeChat)}>
+                              <ArrowDown className="h-4 w-4 mr-2" />
+                              Ir a los mensajes recientes
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </ScrollArea>
                 
-                <div className="p-4 border-t">
-                  <div className="flex space-x-2">
-                    <Input
-                      placeholder="Escribe un mensaje..."
-                      value={messageText}
-                      onChange={(e) => setMessageText(e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' && !e.shiftKey) {
-                          e.preventDefault();
-                          handleSendMessage();
-                        }
-                      }}
-                      className="flex-1"
-                    />
-                    <Button
-                      onClick={handleSendMessage}
-                      disabled={!messageText.trim()}
-                      className="bg-wfc-purple hover:bg-wfc-purple-medium"
-                    >
-                      <Send className="h-4 w-4" />
-                    </Button>
+                {getBlockedContact(activeChat) ? (
+                  <div className="p-4 border-t text-center text-sm text-gray-500">
+                    Has bloqueado a {getBlockedContact(activeChat).name}. Desbloquéalo desde su perfil para volver a escribirle.
                   </div>
-                </div>
+                ) : (
+                  <div className="p-4 border-t">
+                    <p className="text-xs text-gray-500 italic h-4 mb-1">{getTypingLabel(activeChat)}</p>
+                    <div className="flex space-x-2">
+                      <Input
+                        placeholder="Escribe un mensaje..."
+                        value={messageText}
+                        onChange={(e) => handleMessageChange(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSendMessage();
+                          }
+                        }}
+                        className="flex-1"
+                      />
+                      <Button
+                        onClick={handleSendMessage}
+                        disabled={!messageText.trim()}
+                        className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </>
             ) : (
               <div className="flex flex-col items-center justify-center h-full text-center p-4">
@@ -0,0 +1,317 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import MainLayout from '@/components/Layout/MainLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJobs } from '@/contexts/JobContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import {
+  ContractPartyType,
+  ContractType,
+  MilestoneAction,
+  MilestoneInput,
+  createMilestone,
+  deleteMilestone,
+  getContract,
+  getJobContract,
+  updateMilestone
+} from '@/lib/contractService';
+import { MilestoneForm } from '@/components/Contracts/MilestoneForm';
+import { MilestoneItem } from '@/components/Contracts/MilestoneItem';
+import { AttachmentType } from '@/lib/attachmentService';
+
+const ACTION_MESSAGES: Record<MilestoneAction, string> = {
+  fund: 'El importe del hito está ahora en garantía',
+  submit: 'Has entregado el trabajo del hito',
+  approve: 'Has aprobado la entrega',
+  release: 'El pago se ha liberado al freelancer',
+  dispute: 'Se ha abierto una disputa sobre el hito',
+  refund: 'El importe del hito se ha devuelto al cliente'
+};
+
+/**
+ * Página de un contrato
+ *
+ * Muestra el contrato creado al aceptar una oferta:
+ * - Cliente y freelancer
+ * - Saldos del depósito en garantía (aportado, retenido y pagado)
+ * - Hitos de pago con las acciones de cada parte
+ * Se puede abrir por ID de contrato o desde el trabajo (/jobs/:jobId/contract)
+ */
+const ContractPage = () => {
+  const { contractId, jobId } = useParams<{ contractId?: string; jobId?: string }>();
+  const navigate = useNavigate();
+  const { currentUser } = useAuth();
+  const { loadJobs } = useJobs();
+
+  const [contract, setContract] = useState<ContractType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSubmittingMilestone, setIsSubmittingMilestone] = useState(false);
+  const [updatingMilestoneId, setUpdatingMilestoneId] = useState<string | null>(null);
+
+  const loadContract = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = contractId ? await getContract(contractId) : await getJobContract(jobId as string);
+      setContract(data);
+    } catch (error) {
+      console.error("Error al cargar el contrato:", error);
+      setContract(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [contractId, jobId]);
+
+  useEffect(() => {
+    loadContract();
+  }, [loadContract]);
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!contract || !currentUser) {
+    return (
+      <MainLayout>
+        <div className="text-center py-12">
+          <h2 className="text-xl font-semibold mb-2">Contrato no encontrado</h2>
+          <p className="text-gray-600 mb-6">El contrato que buscas no existe o no tienes acceso</p>
+          <Button onClick={() => navigate('/jobs')}>Volver a propuestas</Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  // Los miembros de la organización que solo pueden consultar el contrato lo ven como el cliente, sin acciones
+  const role = contract.role === 'freelancer' ? 'freelancer' : 'client';
+  const canManage = contract.role === 'client' || contract.role === 'freelancer';
+  const isActive = contract.status === 'active';
+  // Los hitos devueltos al cliente no cuentan: su importe queda libre para otros hitos
+  const allocatedAmount = contract.milestones
+    .filter(milestone => milestone.status !== 'refunded')
+    .reduce((sum, milestone) => sum + milestone.amount, 0);
+  const remainingAmount = Math.round((contract.totalAmount - allocatedAmount) * 100) / 100;
+  const balances = contract.balances || { funded: 0, refunded: 0, inEscrow: 0, released: 0, reconciled: true };
+  const releasedPercentage = contract.totalAmount > 0
+    ? Math.round((balances.released / contract.totalAmount) * 100)
+    : 0;
+
+  const handleCreateMilestone = async (data: MilestoneInput) => {
+    setIsSubmittingMilestone(true);
+    try {
+      setContract(await createMilestone(contract.id, data));
+      toast({
+        title: "Hito añadido",
+        description: "Financia el hito para que el freelancer pueda empezar"
+      });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo crear el hito"
+      });
+      return false;
+    } finally {
+      setIsSubmittingMilestone(false);
+    }
+  };
+
+  const handleMilestoneAction = async (milestoneId: string, action: MilestoneAction, note?: string) => {
+    setUpdatingMilestoneId(milestoneId);
+    try {
+      const updatedContract = await updateMilestone(contract.id, milestoneId, action, note);
+      setContract(updatedContract);
+
+      // Financiar o liberar pagos cambia el estado del trabajo
+      if (action === 'fund' || action === 'release') {
+        await loadJobs();
+      }
+
+      toast({
+        title: updatedContract.status === 'completed' ? "Contrato completado" : "Hito actualizado",
+        description: ACTION_MESSAGES[action]
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo actualizar el hito"
+      });
+    } finally {
+      setUpdatingMilestoneId(null);
+    }
+  };
+
+  const handleMilestoneFilesChange = (milestoneId: string, files: AttachmentType[]) => {
+    setContract(prev => prev && {
+      ...prev,
+      milestones: prev.milestones.map(milestone => (milestone.id === milestoneId ? { ...milestone, files } : milestone))
+    });
+  };
+
+  const handleDeleteMilestone = async (milestoneId: string) => {
+    setUpdatingMilestoneId(milestoneId);
+    try {
+      setContract(await deleteMilestone(contract.id, milestoneId));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo eliminar el hito"
+      });
+    } finally {
+      setUpdatingMilestoneId(null);
+    }
+  };
+
+  const renderParty = (label: string, party?: ContractPartyType) => (
+    <Link to={`/user/${party?.id}`} className="flex items-center space-x-3">
+      <Avatar className="h-9 w-9">
+        <AvatarImage src={party?.photoURL} alt={party?.name} />
+        <AvatarFallback className="bg-wfc-purple-medium text-white">
+          {party?.name?.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div>
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className="font-medium text-sm">{party?.name}</p>
+      </div>
+    </Link>
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        {/* Cabecera del contrato */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 pb-4 border-b border-gray-200">
+          <div>
+            <h1 className="text-2xl font-bold">Contrato: {contract.title}</h1>
+            <Link to={`/jobs/${contract.jobId}`} className="text-sm text-wfc-purple hover:underline">
+              Ver propuesta
+            </Link>
+          </div>
+          <Badge className={
+            contract.status === 'active' ? 'bg-blue-100 text-blue-800 hover:bg-blue-200' :
+            contract.status === 'completed' ? 'bg-green-100 text-green-800 hover:bg-green-200' :
+            'bg-gray-100 text-gray-800 hover:bg-gray-200'
+          }>
+            {contract.status === 'active' ? 'Activo' :
+             contract.status === 'completed' ? 'Completado' :
+             'Cancelado'}
+          </Badge>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          {/* Hitos del contrato */}
+          <div className="md:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Hitos</CardTitle>
+                <CardDescription>
+                  {contract.milestones.length === 0
+                    ? role === 'client'
+                      ? 'Divide el contrato en hitos para ir pagando según avance el trabajo'
+                      : 'El cliente todavía no ha creado hitos'
+                    : `${contract.milestones.length} hitos`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {contract.milestones.map(milestone => (
+                  <MilestoneItem
+                    key={milestone.id}
+                    milestone={milestone}
+                    role={role}
+                    canManage={isActive && canManage}
+                    isUpdating={updatingMilestoneId === milestone.id}
+                    onAction={handleMilestoneAction}
+                    onDelete={handleDeleteMilestone}
+                    onFilesChange={handleMilestoneFilesChange}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+
+            {contract.role === 'client' && isActive && remainingAmount > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Nuevo hito</CardTitle>
+                  <CardDescription>Quedan ${remainingAmount} por asignar</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MilestoneForm
+                    remainingAmount={remainingAmount}
+                    onSubmit={handleCreateMilestone}
+                    isSubmitting={isSubmittingMilestone}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Sidebar con las partes y los saldos */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Pagos</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-600">Pagado</span>
+                    <span className="font-medium">${balances.released} de ${contract.totalAmount}</span>
+                  </div>
+                  <Progress value={releasedPercentage} />
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Aportado por el cliente</span>
+                  <span className="font-medium">${balances.funded}</span>
+                </div>
+                {balances.refunded > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Devuelto al cliente</span>
+                    <span className="font-medium">${balances.refunded}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">En garantía</span>
+                  <span className="font-medium">${balances.inEscrow}</span>
+                </div>
+                {!balances.reconciled && (
+                  <p className="flex items-center text-xs text-red-600">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    Los saldos del contrato no cuadran
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Partes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {renderParty('Cliente', contract.client)}
+                {renderParty('Freelancer', contract.freelancer)}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default ContractPage;
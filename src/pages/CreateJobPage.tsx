@@ -13,7 +13,10 @@ import { toast } from '@/components/ui/use-toast';
 import { useData } from '@/contexts/DataContext';
 import { useJobs } from '@/contexts/JobContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
 import { useNavigate } from 'react-router-dom';
+import { AttachmentPicker } from '@/components/Attachments/AttachmentPicker';
+import { uploadAttachments } from '@/lib/attachmentService';
 
 const CreateJobPage = () => {
   const [title, setTitle] = useState('');
@@ -22,12 +25,14 @@ const CreateJobPage = () => {
   const [budget, setBudget] = useState('');
   const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
   const [currentSkill, setCurrentSkill] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMsg, setErrorMsg] = useState('');
   
   const { jobCategories, skillsList } = useData();
   const { createJob } = useJobs();
   const { currentUser } = useAuth();
+  const { currentOrganization, can } = useOrganizations();
   const navigate = useNavigate();
 
   const handleAddSkill = () => {
@@ -62,6 +67,10 @@ const CreateJobPage = () => {
       setErrorMsg('Debes iniciar sesión para crear una propuesta');
       return false;
     }
+    if (!currentOrganization || !can('jobs:manage')) {
+      setErrorMsg('Tu rol en la organización no permite publicar propuestas');
+      return false;
+    }
     setErrorMsg('');
     return true;
   };
@@ -91,7 +100,7 @@ const CreateJobPage = () => {
       });
 
       // Create the job using the JobContext's createJob function
-      await createJob({
+      const newJob = await createJob({
         title,
         description,
         budget: Number(budget),
@@ -100,9 +109,23 @@ const CreateJobPage = () => {
         userId: currentUser.id,
         userName: currentUser.name,
         userPhoto: currentUser.photoURL,
+        organizationId: currentOrganization.id,
         status: 'open'
       });
 
+      // Los archivos se suben una vez creada la propuesta; si fallan, la propuesta se mantiene
+      if (files.length > 0) {
+        try {
+          await uploadAttachments('job', newJob.id, files);
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Archivos no subidos",
+            description: error instanceof Error ? error.message : "Puedes adjuntarlos desde el detalle de la propuesta"
+          });
+        }
+      }
+
       toast({
         title: "Éxito",
         description: "La propuesta se ha creado correctamente."
@@ -133,7 +156,12 @@ const CreateJobPage = () => {
       <div className="container py-10">
         <Card>
           <CardContent className="p-8">
-            <h1 className="text-2xl font-semibold mb-6 dark:text-white">Crear una nueva propuesta</h1>
+            <h1 className="text-2xl font-semibold mb-1 dark:text-white">Crear una nueva propuesta</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+              {currentOrganization
+                ? `Se publicará en nombre de ${currentOrganization.name}`
+                : 'Necesitas pertenecer a una organización para publicar propuestas'}
+            </p>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <Label htmlFor="title" className="mb-1 block dark:text-gray-200">Título de la propuesta*</Label>
@@ -237,6 +265,11 @@ const CreateJobPage = () => {
                 />
               </div>
               
+              <div>
+                <Label className="mb-1 block dark:text-gray-200">Archivos adjuntos</Label>
+                <AttachmentPicker files={files} onChange={setFiles} disabled={isSubmitting} />
+              </div>
+              
               <div className="flex justify-end space-x-3 pt-4">
                 <Button 
                   type="button" 
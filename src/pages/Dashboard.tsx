@@ -3,7 +3,8 @@
  * Componente Dashboard
  * 
  * Esta es la página principal que se muestra a los usuarios después de iniciar sesión.
- * Muestra un resumen del sistema con estadísticas, propuestas recientes y mensajes recientes.
+ * Muestra un resumen del sistema con estadísticas, recomendaciones (freelancers), búsquedas guardadas,
+ * propuestas recientes y mensajes recientes.
  */
 
 import MainLayout from '@/components/Layout/MainLayout';
@@ -14,6 +15,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
 import { Briefcase, MessageCircle, Timer, ArrowRight } from 'lucide-react';
+import { SavedSearchList } from '@/components/SavedSearches/SavedSearchList';
+import { RecommendedJobs } from '@/components/Recommendations/RecommendedJobs';
 
 const Dashboard = () => {
   // Obtener datos del usuario autenticado
@@ -108,6 +111,31 @@ const Dashboard = () => {
           </Card>
         </div>
         
+        {/* Sección de propuestas recomendadas (solo freelancers) */}
+        {currentUser?.role === 'freelancer' && (
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">Recomendadas para ti</h2>
+            </div>
+            
+            <RecommendedJobs />
+          </div>
+        )}
+        
+        {/* Sección de búsquedas guardadas con las propuestas nuevas de cada una */}
+        <div>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">Búsquedas guardadas</h2>
+            <Link to="/jobs">
+              <Button variant="ghost" className="text-wfc-purple">
+                Buscar propuestas <ArrowRight className="h-4 w-4 ml-1" />
+              </Button>
+            </Link>
+          </div>
+          
+          <SavedSearchList />
+        </div>
+        
         {/* Sección de propuestas recientes */}
         <div>
           <div className="flex justify-between items-center mb-4">
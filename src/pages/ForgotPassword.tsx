@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { requestPasswordReset } from '@/lib/accountService';
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    
+    if (!email) {
+      setError('Indica tu correo electrónico');
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      setSentMessage(await requestPasswordReset(email));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Error al solicitar el enlace');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md p-8">
+        <div className="mb-8 text-center">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 rounded-md bg-wfc-purple flex items-center justify-center">
+              <span className="text-white font-bold text-xl">WFC</span>
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">WorkFlow Connect</h1>
+        </div>
+        
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">¿Olvidaste tu contraseña?</CardTitle>
+            <CardDescription>
+              Te enviaremos un enlace para elegir una contraseña nueva
+            </CardDescription>
+          </CardHeader>
+          
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              
+              {sentMessage ? (
+                <Alert>
+                  <AlertDescription>{sentMessage}</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="email">Correo electrónico</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="tu@ejemplo.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+              )}
+            </CardContent>
+            
+            <CardFooter className="flex flex-col">
+              {!sentMessage && (
+                <Button
+                  className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? 'Enviando...' : 'Enviar enlace'}
+                </Button>
+              )}
+              
+              <p className="mt-4 text-center text-sm">
+                <Link to="/login" className="text-wfc-purple hover:underline">
+                  Volver a iniciar sesión
+                </Link>
+              </p>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
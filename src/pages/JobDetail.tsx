@@ -1,9 +1,11 @@
 
 import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useParams, useNavigate } from 'react-router-dom';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useJobs } from '@/contexts/JobContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
 import { useChat } from '@/contexts/ChatContext';
 import { useData } from '@/contexts/DataContext';
 import { Button } from '@/components/ui/button';
@@ -12,17 +14,36 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
-import { MessageCircle, Calendar, DollarSign, User, Heart, Bookmark } from 'lucide-react';
+import { MessageCircle, Calendar, DollarSign, User, Heart, Bookmark, FileText, Flag } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { CommentItem } from '@/components/Comments/CommentItem';
+import { JobProposalsSection } from '@/components/Proposals/JobProposalsSection';
+import { JobReviewSection } from '@/components/Reviews/JobReviewSection';
+import { RatingBadge } from '@/components/Reviews/StarRating';
+import { RecommendedFreelancers } from '@/components/Recommendations/RecommendedFreelancers';
+import { JobAttachments } from '@/components/Attachments/JobAttachments';
+import { AttachmentPicker } from '@/components/Attachments/AttachmentPicker';
+import { ReportDialog } from '@/components/Reports/ReportDialog';
+import { JobStatusTimeline } from '@/components/JobStatusTimeline';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import { useJob } from '@/hooks/use-job';
+import { getJobAttachments, uploadAttachments } from '@/lib/attachmentService';
+import { JOB_STATUS_LABELS } from '@/lib/jobService';
 
 /**
  * Componente de la página de detalles de una propuesta
  * 
  * Esta página muestra toda la información de una propuesta específica:
  * - Información general como título, descripción, presupuesto
+ * - Estado de la propuesta con su historial y los cambios que puede hacer el usuario
  * - Habilidades requeridas
- * - Sistema de comentarios
+ * - Archivos adjuntos de la propuesta
+ * - Sistema de comentarios (con archivos adjuntos; se ocultan los de usuarios bloqueados)
+ * - Denuncia de la propuesta
+ * - Ofertas de los freelancers (envío y revisión)
+ * - Freelancers recomendados para el propietario mientras está abierta
+ * - Acceso al contrato una vez asignado el trabajo
+ * - Reseñas entre cliente y freelancer al completarse
  * - Información del cliente
  * - Opciones para contactar al cliente
  * - Opciones para guardar/dar like a la propuesta
@@ -33,24 +54,49 @@ const JobDetail = () => {
   const navigate = useNavigate();
   
   // Hooks de contexto para acceder a datos y funcionalidades
-  const { getJob, addComment, toggleSavedJob, toggleLike, savedJobs } = useJobs(); // Funcionalidades de propuestas
+  const { addComment, toggleSavedJob, toggleLike, savedJobs } = useJobs(); // Funcionalidades de propuestas
   const { currentUser } = useAuth(); // Información del usuario actual
+  const { canOnJob } = useOrganizations(); // Permisos en la organización del trabajo
   const { findExistingPrivateChat, createPrivateChat } = useChat(); // Funcionalidades de chat
   const { getUserById } = useData(); // Para obtener datos de usuarios
+  const { isBlocked } = useBlockedUsers(); // Usuarios bloqueados (su contenido no se muestra)
   
   // Estados locales para el formulario de comentarios
   const [commentText, setCommentText] = useState('');
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [isReporting, setIsReporting] = useState(false);
   
-  // Obtener la propuesta basada en el ID de la URL
-  const job = jobId ? getJob(jobId) : undefined;
+  // Archivos adjuntos de los comentarios (la misma consulta carga los de la propuesta)
+  const queryClient = useQueryClient();
+  const { data: jobAttachments } = useQuery({
+    queryKey: ['attachments', 'job', jobId],
+    queryFn: () => getJobAttachments(jobId as string),
+    enabled: !!jobId && !!currentUser
+  });
+  
+  // Obtener la propuesta basada en el ID de la URL (con sus comentarios)
+  const { job, isLoading: loadingJob } = useJob(jobId);
   // Obtener información del propietario de la propuesta
   const jobOwner = job ? getUserById(job.userId) : undefined;
   // Verificar si la propuesta está guardada por el usuario actual
   const isJobSaved = job && savedJobs.includes(job.id);
   // Verificar si el usuario ha dado like a la propuesta
   const hasUserLiked = job && currentUser ? job.likes.includes(currentUser.id) : false;
+  // Verificar si el usuario tiene acceso al contrato (organización del trabajo o freelancer asignado)
+  const isContractParty = !!job?.assignedTo && !!currentUser &&
+    (canOnJob(job, 'jobs:view') || currentUser.id === job.assignedTo);
+  // Comentarios visibles (sin los de usuarios bloqueados)
+  const visibleComments = job ? job.comments.filter(comment => !isBlocked(comment.userId)) : [];
   
+  if (!job && loadingJob) {
+    return (
+      <MainLayout>
+        <div className="text-center py-12 text-gray-500">Cargando propuesta...</div>
+      </MainLayout>
+    );
+  }
+
   // Si no se encuentra la propuesta, mostrar mensaje de error
   if (!job) {
     return (
@@ -110,21 +156,47 @@ const JobDetail = () => {
   const handleSubmitComment = async () => {
     if (!commentText.trim() || !currentUser) return;
     
+    const content = commentText;
     setIsSubmittingComment(true);
+    // El comentario aparece al momento; el campo se limpia sin esperar al servidor
+    setCommentText('');
     try {
       // Llamar a la función para añadir el comentario a la propuesta
-      await addComment(job.id, commentText, currentUser);
-      setCommentText(''); // Limpiar el campo de comentario
+      const comment = await addComment(job.id, content, currentUser);
+      
+      // Sin conexión el comentario queda en cola y los archivos no se pueden subir
+      if (comment.pending) {
+        toast({
+          title: "Comentario pendiente",
+          description: commentFiles.length > 0
+            ? "Se publicará cuando vuelvas a tener conexión, sin los archivos adjuntos"
+            : "Se publicará cuando vuelvas a tener conexión"
+        });
+        return;
+      }
+      
+      // Subir los archivos una vez creado el comentario
+      if (commentFiles.length > 0) {
+        try {
+          await uploadAttachments('comment', comment.id, commentFiles);
+          await queryClient.invalidateQueries({ queryKey: ['attachments', 'job', job.id] });
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Archivos no subidos",
+            description: error instanceof Error ? error.message : "El comentario se publicó sin los archivos"
+          });
+        }
+        setCommentFiles([]);
+      }
+      
       toast({
         title: "Comentario enviado",
         description: "Tu comentario ha sido publicado correctamente"
       });
     } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "No se pudo enviar el comentario"
-      });
+      // El contexto ya ha retirado el comentario y avisado del error; se recupera el texto
+      setCommentText(content);
     } finally {
       setIsSubmittingComment(false);
     }
@@ -194,12 +266,10 @@ const JobDetail = () => {
             {/* Badge que muestra el estado de la propuesta */}
             <Badge className={`
               ${job.status === 'open' ? 'bg-green-100 text-green-800 hover:bg-green-200' : 
-                job.status === 'in-progress' ? 'bg-blue-100 text-blue-800 hover:bg-blue-200' : 
+                job.status === 'in-progress' || job.status === 'assigned' ? 'bg-blue-100 text-blue-800 hover:bg-blue-200' : 
                 'bg-gray-100 text-gray-800 hover:bg-gray-200'}
             `}>
-              {job.status === 'open' ? 'Abierto' : 
-               job.status === 'in-progress' ? 'En progreso' : 
-               'Completado'}
+              {JOB_STATUS_LABELS[job.status]}
             </Badge>
             
             {/* Botones de like y guardar, solo para usuarios autenticados */}
@@ -222,6 +292,18 @@ const JobDetail = () => {
                 >
                   <Bookmark className={`h-5 w-5 ${isJobSaved ? "fill-wfc-purple" : ""}`} />
                 </Button>
+                
+                {currentUser.id !== job.userId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsReporting(true)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Denunciar propuesta"
+                  >
+                    <Flag className="h-5 w-5" />
+                  </Button>
+                )}
               </>
             )}
           </div>
@@ -259,20 +341,34 @@ const JobDetail = () => {
               </CardContent>
             </Card>
             
+            {/* Archivos adjuntos de la propuesta */}
+            <JobAttachments job={job} />
+            
+            {/* Ofertas de freelancers (formulario o lista según el usuario) */}
+            <JobProposalsSection job={job} />
+            
+            {/* Reseñas entre cliente y freelancer (solo trabajos completados) */}
+            <JobReviewSection job={job} />
+            
             {/* Tarjeta de comentarios */}
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Comentarios</CardTitle>
                 <CardDescription>
-                  {job.comments.length === 0 ? 'No hay comentarios aún' : `${job.comments.length} comentarios`}
+                  {visibleComments.length === 0 ? 'No hay comentarios aún' : `${visibleComments.length} comentarios`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 {/* Lista de comentarios existentes */}
-                {job.comments.length > 0 && (
+                {visibleComments.length > 0 && (
                   <div className="space-y-4 mb-6">
-                    {job.comments.map((comment) => (
-                      <CommentItem key={comment.id} comment={comment} jobId={job.id} />
+                    {visibleComments.map((comment) => (
+                      <CommentItem
+                        key={comment.id}
+                        comment={comment}
+                        jobId={job.id}
+                        attachments={jobAttachments?.commentAttachments[comment.id]}
+                      />
                     ))}
                   </div>
                 )}
@@ -288,6 +384,7 @@ const JobDetail = () => {
                       onChange={(e) => setCommentText(e.target.value)}
                       className="min-h-[100px]"
                     />
+                    <AttachmentPicker files={commentFiles} onChange={setCommentFiles} disabled={isSubmittingComment} />
                     <Button 
                       onClick={handleSubmitComment} 
                       disabled={isSubmittingComment || !commentText.trim()}
@@ -332,9 +429,23 @@ const JobDetail = () => {
                   </Badge>
                   <span className="text-sm text-gray-600">Categoría</span>
                 </div>
+                
+                {/* Acceso al contrato para la organización del trabajo y el freelancer asignado */}
+                {isContractParty && (
+                  <Button
+                    className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+                    onClick={() => navigate(`/jobs/${job.id}/contract`)}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Ver contrato
+                  </Button>
+                )}
               </CardContent>
             </Card>
             
+            {/* Estado de la propuesta e historial de cambios */}
+            <JobStatusTimeline job={job} />
+            
             {/* Tarjeta con información del cliente */}
             <Card>
               <CardHeader>
@@ -351,11 +462,15 @@ const JobDetail = () => {
                   </Avatar>
                   <div>
                     <p className="font-medium">{job.userName}</p>
+                    {job.organizationName && (
+                      <p className="text-sm text-gray-600">{job.organizationName}</p>
+                    )}
+                    <RatingBadge average={job.userRating} count={job.userRatingCount} />
                   </div>
                 </div>
                 
-                {/* Botón de contacto (solo para usuarios autenticados que no son el dueño) */}
-                {currentUser && currentUser.id !== job.userId && (
+                {/* Botón de contacto (solo para usuarios autenticados que no son el dueño ni están bloqueados) */}
+                {currentUser && currentUser.id !== job.userId && !isBlocked(job.userId) && (
                   <Button
                     variant="outline"
                     className="w-full mt-2 border-wfc-purple text-wfc-purple hover:bg-wfc-purple/10"
@@ -377,9 +492,22 @@ const JobDetail = () => {
                 </Button>
               </CardContent>
             </Card>
+            
+            {/* Freelancers recomendados (solo el equipo de la organización, con la propuesta abierta) */}
+            {canOnJob(job, 'jobs:view') && job.status === 'open' && (
+              <RecommendedFreelancers job={job} />
+            )}
           </div>
         </div>
       </div>
+      
+      <ReportDialog
+        open={isReporting}
+        onOpenChange={setIsReporting}
+        targetType="job"
+        targetId={job.id}
+        author={{ id: job.userId, name: job.userName }}
+      />
     </MainLayout>
   );
 };
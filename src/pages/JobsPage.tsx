@@ -1,66 +1,157 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useData } from '@/contexts/DataContext';
-import { useJobs } from '@/contexts/JobContext';
-import JobCard from '@/components/JobCard';
+import { JobCard } from '@/components/JobCard';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { Search, Filter } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Search, Filter, Loader2, BookmarkPlus } from 'lucide-react';
+import { useDebounce } from '@/hooks/use-debounce';
+import { JobSearchParams, JobSortOption, searchJobs } from '@/lib/jobService';
+import { SavedSearchFilters } from '@/lib/savedSearchService';
+import { SaveSearchDialog } from '@/components/SavedSearches/SaveSearchDialog';
 
+// Número máximo de habilidades sugeridas a partir de las facetas
+const MAX_SKILL_FACETS = 12;
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Abierto',
+  assigned: 'Asignado',
+  'in-progress': 'En progreso',
+  completed: 'Completado',
+  cancelled: 'Cancelado'
+};
+
+const SORT_LABELS: Record<JobSortOption, string> = {
+  newest: 'Más recientes',
+  budget_desc: 'Mayor presupuesto',
+  budget_asc: 'Menor presupuesto',
+  most_liked: 'Más likes',
+  most_commented: 'Más comentadas'
+};
+
+const selectItemClass = "dark:text-white dark:focus:text-white dark:focus:bg-gray-700";
+
+/**
+ * Página de búsqueda de propuestas
+ *
+ * La búsqueda, los filtros, el orden y las facetas se resuelven en el servidor.
+ * Los resultados se cargan por páginas con scroll infinito (React Query).
+ * Los filtros iniciales se leen de la URL (enlaces de las búsquedas guardadas).
+ */
 const JobsPage = () => {
   const { jobCategories } = useData();
-  const { jobs, loading, loadJobs } = useJobs();
-  
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('all');
-  const [selectedStatus, setSelectedStatus] = useState('all');
-  const [filteredJobs, setFilteredJobs] = useState(jobs);
-  
-  useEffect(() => {
-    // Reload jobs on component mount
-    loadJobs();
-  }, []);
-  
+  const [searchParams] = useSearchParams();
+
+  const [searchTerm, setSearchTerm] = useState(() => searchParams.get('search') || '');
+  const [selectedCategory, setSelectedCategory] = useState(() => searchParams.get('category') || 'all');
+  const [selectedStatus, setSelectedStatus] = useState(() => searchParams.get('status') || 'all');
+  const [sort, setSort] = useState<JobSortOption>('newest');
+  const [minBudget, setMinBudget] = useState(() => searchParams.get('minBudget') || '');
+  const [maxBudget, setMaxBudget] = useState(() => searchParams.get('maxBudget') || '');
+  const [selectedSkills, setSelectedSkills] = useState<string[]>(
+    () => (searchParams.get('skills') || '').split(',').filter(Boolean)
+  );
+  const [skillsMatch, setSkillsMatch] = useState<'any' | 'all'>(
+    () => (searchParams.get('skillsMatch') === 'all' ? 'all' : 'any')
+  );
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+
+  // Esperar a que el usuario deje de escribir antes de consultar al servidor
+  const debouncedSearch = useDebounce(searchTerm);
+  const debouncedMinBudget = useDebounce(minBudget);
+  const debouncedMaxBudget = useDebounce(maxBudget);
+
+  const filters = useMemo<JobSearchParams>(() => ({
+    search: debouncedSearch.trim() || undefined,
+    category: selectedCategory === 'all' ? undefined : selectedCategory,
+    status: selectedStatus === 'all' ? undefined : selectedStatus,
+    skills: selectedSkills,
+    skillsMatch,
+    minBudget: debouncedMinBudget ? parseFloat(debouncedMinBudget) : undefined,
+    maxBudget: debouncedMaxBudget ? parseFloat(debouncedMaxBudget) : undefined,
+    sort
+  }), [debouncedSearch, selectedCategory, selectedStatus, selectedSkills, skillsMatch, debouncedMinBudget, debouncedMaxBudget, sort]);
+
+  // Filtros que se guardan en una búsqueda guardada (sin el orden)
+  const savedSearchFilters = useMemo<SavedSearchFilters>(() => ({
+    search: filters.search,
+    category: filters.category,
+    status: filters.status,
+    skills: filters.skills && filters.skills.length > 0 ? filters.skills : undefined,
+    skillsMatch: filters.skills && filters.skills.length > 1 ? filters.skillsMatch : undefined,
+    minBudget: filters.minBudget,
+    maxBudget: filters.maxBudget
+  }), [filters]);
+
+  const hasActiveFilters = Object.values(savedSearchFilters).some(value => value !== undefined);
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['jobs', 'search', filters],
+    queryFn: ({ pageParam }) => searchJobs(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : undefined),
+    placeholderData: keepPreviousData
+  });
+
+  const jobs = data?.pages.flatMap(page => page.jobs) ?? [];
+  const firstPage = data?.pages[0];
+  const facets = firstPage?.facets;
+
+  // Cargar la siguiente página cuando el final de la lista entra en pantalla
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
   useEffect(() => {
-    // Filter jobs whenever jobs, search term, or filter categories change
-    const filtered = jobs.filter(job => {
-      // Category filter
-      const matchesCategory = selectedCategory === 'all' || job.category === selectedCategory;
-      
-      // Status filter
-      const matchesStatus = selectedStatus === 'all' || job.status === selectedStatus;
-      
-      // Search filter
-      const matchesSearch = 
-        job.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        job.description.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      return matchesCategory && matchesStatus && matchesSearch;
-    });
-    
-    setFilteredJobs(filtered);
-  }, [jobs, searchTerm, selectedCategory, selectedStatus]);
-  
-  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(e.target.value);
-  };
-  
-  const handleCategoryChange = (value: string) => {
-    setSelectedCategory(value);
-  };
-  
-  const handleStatusChange = (value: string) => {
-    setSelectedStatus(value);
+    const element = loadMoreRef.current;
+    if (!element || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const facetCount = (facetList: { value: string; count: number }[] | undefined, value: string) =>
+    facetList?.find(facet => facet.value === value)?.count ?? 0;
+
+  // Habilidades sugeridas: las más frecuentes y las ya seleccionadas
+  const skillOptions = useMemo(() => {
+    const suggested = (facets?.skills || []).slice(0, MAX_SKILL_FACETS).map(facet => facet.value);
+    return [...new Set([...selectedSkills, ...suggested])];
+  }, [facets, selectedSkills]);
+
+  const handleToggleSkill = (skill: string) => {
+    setSelectedSkills(prev =>
+      prev.includes(skill) ? prev.filter(s => s !== skill) : [...prev, skill]
+    );
   };
-  
+
   const handleClearFilters = () => {
     setSearchTerm('');
     setSelectedCategory('all');
     setSelectedStatus('all');
+    setSort('newest');
+    setMinBudget('');
+    setMaxBudget('');
+    setSelectedSkills([]);
+    setSkillsMatch('any');
   };
-  
+
   return (
     <MainLayout>
       <div className="mb-6">
@@ -69,68 +160,152 @@ const JobsPage = () => {
           Encuentra propuestas de trabajo que se ajusten a tus habilidades y experiencia
         </p>
       </div>
-      
-      <div className="flex flex-col md:flex-row gap-4 mb-6">
+
+      <div className="flex flex-col md:flex-row gap-4 mb-4">
         <div className="relative flex-grow">
           <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <Input
             placeholder="Buscar propuestas..."
             className="pl-8 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
             value={searchTerm}
-            onChange={handleSearch}
+            onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
-        
+
         <div className="flex flex-wrap gap-2">
-          <Select value={selectedCategory} onValueChange={handleCategoryChange}>
+          <Select value={selectedCategory} onValueChange={setSelectedCategory}>
             <SelectTrigger className="w-[180px] dark:bg-gray-800 dark:border-gray-700 dark:text-white">
               <SelectValue placeholder="Categoría" />
             </SelectTrigger>
             <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
-              <SelectItem value="all" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">Todas las categorías</SelectItem>
+              <SelectItem value="all" className={selectItemClass}>Todas las categorías</SelectItem>
               {jobCategories.map((category, idx) => (
-                <SelectItem 
-                  key={idx} 
+                <SelectItem
+                  key={idx}
                   value={category}
-                  className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700"
+                  className={selectItemClass}
                 >
-                  {category}
+                  {category} ({facetCount(facets?.categories, category)})
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          
-          <Select value={selectedStatus} onValueChange={handleStatusChange}>
+
+          <Select value={selectedStatus} onValueChange={setSelectedStatus}>
             <SelectTrigger className="w-[180px] dark:bg-gray-800 dark:border-gray-700 dark:text-white">
               <SelectValue placeholder="Estado" />
             </SelectTrigger>
             <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
-              <SelectItem value="all" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">Todos los estados</SelectItem>
-              <SelectItem value="open" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">Abierto</SelectItem>
-              <SelectItem value="in-progress" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">En progreso</SelectItem>
-              <SelectItem value="completed" className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">Completado</SelectItem>
+              <SelectItem value="all" className={selectItemClass}>Todos los estados</SelectItem>
+              {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                <SelectItem key={status} value={status} className={selectItemClass}>
+                  {label} ({facetCount(facets?.statuses, status)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={sort} onValueChange={(value) => setSort(value as JobSortOption)}>
+            <SelectTrigger className="w-[180px] dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+              <SelectValue placeholder="Ordenar por" />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+              {(Object.keys(SORT_LABELS) as JobSortOption[]).map(option => (
+                <SelectItem key={option} value={option} className={selectItemClass}>
+                  {SORT_LABELS[option]}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
-          
-          <Button 
-            variant="outline" 
+
+          <Button
+            variant="outline"
             className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
             onClick={handleClearFilters}
           >
             <Filter className="mr-2 h-4 w-4" />
             Limpiar
           </Button>
+
+          <Button
+            variant="outline"
+            className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+            onClick={() => setIsSaveDialogOpen(true)}
+            disabled={!hasActiveFilters}
+          >
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+            Guardar búsqueda
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+        {/* Rango de presupuesto */}
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            placeholder="Mín $"
+            className="w-28 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+            value={minBudget}
+            onChange={(e) => setMinBudget(e.target.value)}
+          />
+          <span className="text-gray-500">-</span>
+          <Input
+            type="number"
+            min="0"
+            placeholder="Máx $"
+            className="w-28 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+            value={maxBudget}
+            onChange={(e) => setMaxBudget(e.target.value)}
+          />
+        </div>
+
+        {/* Habilidades con el número de propuestas de cada una */}
+        <div className="flex flex-wrap items-center gap-2 flex-grow">
+          {skillOptions.map(skill => (
+            <Badge
+              key={skill}
+              variant={selectedSkills.includes(skill) ? 'default' : 'outline'}
+              className={`cursor-pointer ${selectedSkills.includes(skill) ? 'bg-wfc-purple hover:bg-wfc-purple-medium' : 'dark:text-gray-300'}`}
+              onClick={() => handleToggleSkill(skill)}
+            >
+              {skill} ({facetCount(facets?.skills, skill)})
+            </Badge>
+          ))}
+
+          {selectedSkills.length > 1 && (
+            <Select value={skillsMatch} onValueChange={(value) => setSkillsMatch(value as 'any' | 'all')}>
+              <SelectTrigger className="w-[190px] h-8 dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                <SelectItem value="any" className={selectItemClass}>Cualquier habilidad</SelectItem>
+                <SelectItem value="all" className={selectItemClass}>Todas las habilidades</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
         </div>
       </div>
-      
-      {loading ? (
+
+      {firstPage?.total !== undefined && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {firstPage.total} {firstPage.total === 1 ? 'propuesta encontrada' : 'propuestas encontradas'}
+        </p>
+      )}
+
+      {isLoading ? (
         <div className="text-center py-12">
           <p className="text-gray-500 dark:text-gray-400">Cargando propuestas...</p>
         </div>
-      ) : filteredJobs.length === 0 ? (
+      ) : isError ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">No se pudieron cargar las propuestas</p>
+        </div>
+      ) : jobs.length === 0 ? (
         <div className="text-center py-12 border rounded-lg border-dashed border-gray-300 dark:border-gray-700">
           <p className="text-gray-500 dark:text-gray-400">No se encontraron propuestas que coincidan con los criterios de búsqueda</p>
-          <Button 
+          <Button
             onClick={handleClearFilters}
             className="mt-4 bg-wfc-purple hover:bg-wfc-purple-medium"
           >
@@ -139,11 +314,22 @@ const JobsPage = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 gap-6">
-          {filteredJobs.map((job) => (
+          {jobs.map((job) => (
             <JobCard key={job.id} job={job} />
           ))}
+
+          {/* Marcador para el scroll infinito */}
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />}
+          </div>
         </div>
       )}
+
+      <SaveSearchDialog
+        open={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        filters={savedSearchFilters}
+      />
     </MainLayout>
   );
 };
@@ -7,13 +7,19 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
+import { TwoFactorCodeInput } from '@/components/Security/TwoFactorCodeInput';
+import { TOTP_CODE_LENGTH } from '@/lib/twoFactorService';
 
 const Login = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const { login } = useAuth();
+  // Segundo paso: desafío del servidor y código de la aplicación o de recuperación
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTwoFactor } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,7 +32,10 @@ const Login = () => {
     
     try {
       setLoading(true);
-      await login(email, password);
+      const challenge = await login(email, password);
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken);
+      }
     } catch (error) {
       console.error('Error de inicio de sesión:', error);
       setError(error instanceof Error ? error.message : 'Error al iniciar sesión');
@@ -35,6 +44,37 @@ const Login = () => {
     }
   };
 
+  const submitCode = async (value: string) => {
+    if (!challengeToken || !value.trim()) return;
+    setError('');
+    
+    try {
+      setLoading(true);
+      await verifyTwoFactor(challengeToken, value.trim());
+    } catch (error) {
+      setCode('');
+      setError(error instanceof Error ? error.message : 'Código de verificación incorrecto');
+      // El desafío caduca o se bloquea tras varios intentos: hay que volver a empezar
+      if ((error as { status?: number }).status === 429 || /Vuelve a iniciar sesión/.test((error as Error).message)) {
+        setChallengeToken(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitCode(code);
+  };
+
+  const handleBackToCredentials = () => {
+    setChallengeToken(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
       <div className="w-full max-w-md p-8">
@@ -48,69 +88,138 @@ const Login = () => {
           <p className="text-gray-500 mt-2">La plataforma que conecta proyectos con talento</p>
         </div>
         
-        <Card>
-          <CardHeader className="space-y-1">
-            <CardTitle className="text-2xl">Iniciar sesión</CardTitle>
-            <CardDescription>
-              Ingresa tus credenciales para acceder a tu cuenta
-            </CardDescription>
-          </CardHeader>
+        {challengeToken ? (
+          <Card>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl">Verificación en dos pasos</CardTitle>
+              <CardDescription>
+                {useRecoveryCode
+                  ? 'Introduce uno de tus códigos de recuperación'
+                  : 'Introduce el código de 6 dígitos de tu aplicación de autenticación'}
+              </CardDescription>
+            </CardHeader>
+            
+            <form onSubmit={handleCodeSubmit}>
+              <CardContent className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recoveryCode">Código de recuperación</Label>
+                    <Input
+                      id="recoveryCode"
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="off"
+                      autoFocus
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                    />
+                  </div>
+                ) : (
+                    <TwoFactorCodeInput
+                      value={code}
+                      onChange={setCode}
+                      onComplete={submitCode}
+                      disabled={loading}
+                    />
+                  )}
+                
+                  <button
+                    type="button"
+                    className="w-full text-center text-sm text-wfc-purple hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode('');
+                      setError('');
+                    }}
+                  >
+                    {useRecoveryCode ? 'Usar la aplicación de autenticación' : 'Usar un código de recuperación'}
+                  </button>
+                </CardContent>
+              
+                <CardFooter className="flex flex-col gap-2">
+                  <Button
+                    className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+                    type="submit"
+                    disabled={loading || (useRecoveryCode ? !code.trim() : code.length < TOTP_CODE_LENGTH)}
+                  >
+                    {loading ? 'Verificando...' : 'Verificar'}
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={handleBackToCredentials}>
+                    Volver
+                  </Button>
+                </CardFooter>
+              </form>
+            </Card>
+          ) : (
+          <Card>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl">Iniciar sesión</CardTitle>
+              <CardDescription>
+                Ingresa tus credenciales para acceder a tu cuenta
+              </CardDescription>
+            </CardHeader>
           
-          <form onSubmit={handleSubmit}>
-            <CardContent className="space-y-4">
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
               
-              <div className="space-y-2">
-                <Label htmlFor="email">Correo electrónico</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="tu@ejemplo.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Correo electrónico</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="tu@ejemplo.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
               
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="password">Contraseña</Label>
-                  <Link to="#" className="text-sm text-wfc-purple hover:underline">
-                    ¿Olvidaste tu contraseña?
-                  </Link>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Contraseña</Label>
+                    <Link to="/forgot-password" className="text-sm text-wfc-purple hover:underline">
+                      ¿Olvidaste tu contraseña?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
                 </div>
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                />
-              </div>
-            </CardContent>
+              </CardContent>
             
-            <CardFooter className="flex flex-col">
-              <Button
-                className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
-                type="submit"
-                disabled={loading}
-              >
-                {loading ? 'Iniciando sesión...' : 'Iniciar sesión'}
-              </Button>
+              <CardFooter className="flex flex-col">
+                <Button
+                  className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? 'Iniciando sesión...' : 'Iniciar sesión'}
+                </Button>
               
-              <p className="mt-4 text-center text-sm">
-                ¿No tienes una cuenta?{' '}
-                <Link to="/register" className="text-wfc-purple hover:underline">
-                  Regístrate
-                </Link>
-              </p>
-            </CardFooter>
-          </form>
-        </Card>
+                <p className="mt-4 text-center text-sm">
+                  ¿No tienes una cuenta?{' '}
+                  <Link to="/register" className="text-wfc-purple hover:underline">
+                    Regístrate
+                  </Link>
+                </p>
+              </CardFooter>
+            </form>
+          </Card>
+        )}
       </div>
     </div>
   );
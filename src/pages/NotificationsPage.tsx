@@ -0,0 +1,88 @@
+
+import { useState } from 'react';
+import MainLayout from '@/components/Layout/MainLayout';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, CheckCheck } from 'lucide-react';
+import { NotificationItem } from '@/components/Notifications/NotificationItem';
+
+/**
+ * Página de notificaciones
+ *
+ * Lista todas las notificaciones del usuario (o solo las no leídas),
+ * permite marcarlas como leídas y cargar las más antiguas.
+ */
+const NotificationsPage = () => {
+  const { notifications, unreadCount, loading, hasMore, loadMore, markAllAsRead } = useNotifications();
+  const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const visibleNotifications = filter === 'unread'
+    ? notifications.filter(notification => !notification.isRead)
+    : notifications;
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    await loadMore();
+    setLoadingMore(false);
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 pb-4 border-b border-gray-200">
+          <div>
+            <h1 className="text-2xl font-bold">Notificaciones</h1>
+            <p className="text-gray-600 mt-1">
+              {unreadCount === 0 ? 'Estás al día' : `${unreadCount} sin leer`}
+            </p>
+          </div>
+          <Button variant="outline" onClick={markAllAsRead} disabled={unreadCount === 0}>
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Marcar todas como leídas
+          </Button>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as 'all' | 'unread')}>
+          <TabsList>
+            <TabsTrigger value="all">Todas</TabsTrigger>
+            <TabsTrigger value="unread">No leídas</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+          </div>
+        ) : visibleNotifications.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200 dark:bg-gray-800 dark:border-gray-700">
+            <p className="text-gray-500">
+              {filter === 'unread' ? 'No tienes notificaciones sin leer' : 'No tienes notificaciones'}
+            </p>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-2 divide-y divide-border">
+              {visibleNotifications.map(notification => (
+                <NotificationItem key={notification.id} notification={notification} />
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+              {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cargar más
+            </Button>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default NotificationsPage;
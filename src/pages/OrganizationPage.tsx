@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import MainLayout from '@/components/Layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Building2, Loader2, Pencil, Plus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizations } from '@/contexts/OrganizationContext';
+import { ROLE_LABELS, renameOrganization } from '@/lib/organizationService';
+import { OrganizationMembersList } from '@/components/Organizations/OrganizationMembersList';
+import { OrganizationInvitations } from '@/components/Organizations/OrganizationInvitations';
+import { CreateOrganizationDialog } from '@/components/Organizations/CreateOrganizationDialog';
+import { toast } from '@/components/ui/use-toast';
+
+/**
+ * Página de la organización activa
+ *
+ * Muestra sus miembros y, según el rol del usuario, permite cambiar el nombre,
+ * gestionar los roles e invitar a nuevos miembros.
+ */
+const OrganizationPage = () => {
+  const { currentUser } = useAuth();
+  const { currentOrganization, loading, can, refreshOrganizations } = useOrganizations();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+
+  // Al cambiar de organización se cancela la edición del nombre
+  useEffect(() => {
+    setIsRenaming(false);
+  }, [currentOrganization?.id]);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentOrganization || !name.trim()) return;
+    setSaving(true);
+    try {
+      await renameOrganization(currentOrganization.id, name.trim());
+      await refreshOrganizations();
+      setIsRenaming(false);
+      toast({ title: "Organización actualizada" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo cambiar el nombre"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-wfc-purple" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!currentOrganization) {
+    return (
+      <MainLayout>
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200 dark:bg-gray-800 dark:border-gray-700">
+          <Building2 className="h-10 w-10 mx-auto text-gray-400" />
+          <h2 className="mt-4 text-lg font-medium">No perteneces a ninguna organización</h2>
+          <p className="text-gray-600 mt-1">
+            {currentUser?.role === 'client'
+              ? 'Crea una para publicar trabajos con tu equipo, o pide a tu empresa una invitación.'
+              : 'Las organizaciones agrupan a los equipos de los clientes que publican trabajos.'}
+          </p>
+          {currentUser?.role === 'client' && (
+            <Button className="mt-4 bg-wfc-purple hover:bg-wfc-purple-medium" onClick={() => setCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nueva organización
+            </Button>
+          )}
+        </div>
+        <CreateOrganizationDialog open={createOpen} onOpenChange={setCreateOpen} />
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 pb-4 border-b border-gray-200">
+          {isRenaming ? (
+            <form onSubmit={handleRename} className="flex w-full max-w-lg gap-2">
+              <Input autoFocus maxLength={120} value={name} onChange={(e) => setName(e.target.value)} />
+              <Button type="submit" className="bg-wfc-purple hover:bg-wfc-purple-medium" disabled={saving || !name.trim()}>
+                Guardar
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setIsRenaming(false)}>Cancelar</Button>
+            </form>
+          ) : (
+            <div>
+              <h1 className="text-2xl font-bold flex items-center gap-2">
+                {currentOrganization.name}
+                {can('organization:manage') && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Cambiar nombre"
+                    onClick={() => {
+                      setName(currentOrganization.name);
+                      setIsRenaming(true);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Tu rol: <Badge variant="outline">{ROLE_LABELS[currentOrganization.role]}</Badge>
+              </p>
+            </div>
+          )}
+        </div>
+
+        {can('members:manage') && <OrganizationInvitations organization={currentOrganization} />}
+        <OrganizationMembersList organization={currentOrganization} />
+      </div>
+    </MainLayout>
+  );
+};
+
+export default OrganizationPage;
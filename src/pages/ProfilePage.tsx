@@ -29,6 +29,11 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import EditJobForm from '@/components/EditJobForm';
+import { MyProposalsList } from '@/components/Proposals/MyProposalsList';
+import { NotificationPreferencesForm } from '@/components/Notifications/NotificationPreferencesForm';
+import { ActiveSessionsList } from '@/components/Sessions/ActiveSessionsList';
+import { TwoFactorSettings } from '@/components/Security/TwoFactorSettings';
+import { BlockedUsersList } from '@/components/Reports/BlockedUsersList';
 
 const ProfilePage = () => {
   const { currentUser, updateUserProfile, uploadProfilePhoto } = useAuth();
@@ -129,16 +134,19 @@ const ProfilePage = () => {
     
     setIsUpdating(true);
     try {
-      await updateUserProfile({
+      const result = await updateUserProfile({
         name: profileForm.name,
         bio: profileForm.bio,
         skills: profileForm.skills,
       });
       
-      toast({
-        title: "Perfil actualizado",
-        description: "Tus cambios han sido guardados correctamente"
-      });
+      // Sin conexión el contexto ya avisa de que los cambios quedan pendientes
+      if (result === 'saved') {
+        toast({
+          title: "Perfil actualizado",
+          description: "Tus cambios han sido guardados correctamente"
+        });
+      }
     } catch (error) {
       toast({
         variant: "destructive",
@@ -226,6 +234,8 @@ const ProfilePage = () => {
     });
   };
 
+  const isFreelancer = currentUser?.role === 'freelancer';
+
   if (!currentUser) {
     return (
       <MainLayout>
@@ -240,10 +250,13 @@ const ProfilePage = () => {
     <MainLayout>
       <div className="space-y-6">
         <Tabs defaultValue="profile" className="w-full">
-          <TabsList className="grid w-full md:w-[400px] grid-cols-3">
+          <TabsList className={`grid w-full ${isFreelancer ? 'md:w-[790px] grid-cols-6' : 'md:w-[660px] grid-cols-5'}`}>
             <TabsTrigger value="profile">Mi Perfil</TabsTrigger>
             <TabsTrigger value="proposals">Mis Propuestas</TabsTrigger>
+            {isFreelancer && <TabsTrigger value="offers">Mis Ofertas</TabsTrigger>}
             <TabsTrigger value="saved">Guardadas</TabsTrigger>
+            <TabsTrigger value="notifications">Notificaciones</TabsTrigger>
+            <TabsTrigger value="security">Seguridad</TabsTrigger>
           </TabsList>
           
           <TabsContent value="profile" className="mt-6">
@@ -543,12 +556,29 @@ const ProfilePage = () => {
             </Card>
           </TabsContent>
           
+          {isFreelancer && (
+            <TabsContent value="offers" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="dark:text-white">Mis Ofertas</CardTitle>
+                  <CardDescription className="dark:text-gray-300">
+                    Ofertas que has enviado a propuestas de trabajo
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MyProposalsList />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+          
           <TabsContent value="saved" className="mt-6">
             <Card>
               <CardHeader>
                 <CardTitle className="dark:text-white">Propuestas Guardadas</CardTitle>
                 <CardDescription className="dark:text-gray-300">
-                  Propuestas de trabajo que has guardado para revisar más tarde
+                  Propuestas de trabajo que has guardado para revisar más tarde.{' '}
+                  <Link to="/saved" className="text-wfc-purple hover:underline">Organízalas en listas y añade notas</Link>
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -612,6 +642,16 @@ const ProfilePage = () => {
               </CardContent>
             </Card>
           </TabsContent>
+          
+          <TabsContent value="notifications" className="mt-6">
+            <NotificationPreferencesForm />
+          </TabsContent>
+          
+          <TabsContent value="security" className="mt-6 space-y-6">
+            <TwoFactorSettings />
+            <ActiveSessionsList />
+            <BlockedUsersList />
+          </TabsContent>
         </Tabs>
       </div>
     </MainLayout>
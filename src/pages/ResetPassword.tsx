@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from '@/components/ui/use-toast';
+import { resetPassword } from '@/lib/accountService';
+
+const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    
+    if (password !== confirmPassword) {
+      setError('Las contraseñas no coinciden');
+      return;
+    }
+    
+    if (password.length < 6) {
+      setError('La contraseña debe tener al menos 6 caracteres');
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      await resetPassword(token, password);
+      toast({
+        title: "Contraseña restablecida",
+        description: "Ya puedes iniciar sesión con tu nueva contraseña",
+      });
+      navigate('/login');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Error al restablecer la contraseña');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md p-8">
+        <div className="mb-8 text-center">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 rounded-md bg-wfc-purple flex items-center justify-center">
+              <span className="text-white font-bold text-xl">WFC</span>
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">WorkFlow Connect</h1>
+        </div>
+        
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">Nueva contraseña</CardTitle>
+            <CardDescription>
+              Elige una contraseña nueva. Se cerrará la sesión en todos tus dispositivos.
+            </CardDescription>
+          </CardHeader>
+          
+          {!token ? (
+            <CardContent>
+              <Alert variant="destructive">
+                <AlertDescription>
+                  El enlace no es válido. <Link to="/forgot-password" className="underline">Solicita uno nuevo</Link>.
+                </AlertDescription>
+              </Alert>
+            </CardContent>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      {error}{' '}
+                      <Link to="/forgot-password" className="underline">Solicitar otro enlace</Link>
+                    </AlertDescription>
+                  </Alert>
+                )}
+                
+                <div className="space-y-2">
+                  <Label htmlFor="password">Nueva contraseña</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirmar contraseña</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                  />
+                </div>
+              </CardContent>
+              
+              <CardFooter>
+                <Button
+                  className="w-full bg-wfc-purple hover:bg-wfc-purple-medium"
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? 'Guardando...' : 'Guardar contraseña'}
+                </Button>
+              </CardFooter>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
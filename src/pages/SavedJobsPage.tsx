@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import MainLayout from '@/components/Layout/MainLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { SavedJobCard } from '@/components/SavedJobs/SavedJobCard';
+import { CollectionDialog } from '@/components/SavedJobs/CollectionDialog';
+import {
+  SavedJobChanges,
+  SavedJobCollectionType,
+  SavedJobType,
+  createSavedJobCollection,
+  deleteSavedJobCollection,
+  getSavedJobCollections,
+  getSavedJobEntries,
+  renameSavedJobCollection,
+  unsaveJob,
+  updateSavedJob
+} from '@/lib/savedJobService';
+import { jobKeys } from '@/lib/queryKeys';
+import { toast } from '@/components/ui/use-toast';
+
+// Filtros fijos además de cada lista
+const ALL = 'all';
+const NO_COLLECTION = 'none';
+
+/**
+ * Aplicar a un guardado los cambios de nota y lista (null los quita)
+ */
+const applyChanges = (savedJob: SavedJobType, changes: SavedJobChanges): SavedJobType => ({
+  ...savedJob,
+  ...(changes.note !== undefined && { note: changes.note || undefined }),
+  ...(changes.collectionId !== undefined && { collectionId: changes.collectionId || undefined })
+});
+
+/**
+ * Página de propuestas guardadas
+ *
+ * Muestra las propuestas guardadas por el usuario organizadas en listas,
+ * con una nota privada en cada una. Los cambios de nota y lista y las
+ * propuestas quitadas se reflejan al momento y se deshacen si fallan.
+ */
+const SavedJobsPage = () => {
+  const { currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState(ALL);
+  const [editing, setEditing] = useState<{ collection?: SavedJobCollectionType } | null>(null);
+  const [deleting, setDeleting] = useState<SavedJobCollectionType | null>(null);
+
+  const entriesKey = jobKeys.savedEntries(currentUser?.id);
+
+  const { data: savedJobs = [], isLoading } = useQuery({
+    queryKey: entriesKey,
+    queryFn: getSavedJobEntries,
+    enabled: !!currentUser
+  });
+
+  const { data: collections = [] } = useQuery({
+    queryKey: jobKeys.savedCollections(currentUser?.id),
+    queryFn: getSavedJobCollections,
+    enabled: !!currentUser
+  });
+
+  // Los guardados cambian también los IDs guardados y los contadores de las listas
+  const refreshSaved = () => queryClient.invalidateQueries({ queryKey: jobKeys.saved(currentUser?.id) });
+
+  /**
+   * Cambiar los guardados en caché y devolver el estado anterior para deshacerlo
+   */
+  const updateCachedEntries = async (update: (savedJobs: SavedJobType[]) => SavedJobType[]) => {
+    await queryClient.cancelQueries({ queryKey: entriesKey });
+    const previous = queryClient.getQueryData<SavedJobType[]>(entriesKey);
+    queryClient.setQueryData<SavedJobType[]>(entriesKey, prev => prev && update(prev));
+    return { previous };
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ jobId, changes }: { jobId: string; changes: SavedJobChanges }) => updateSavedJob(jobId, changes),
+    onMutate: ({ jobId, changes }) => updateCachedEntries(prev =>
+      prev.map(savedJob => savedJob.jobId === jobId ? applyChanges(savedJob, changes) : savedJob)
+    ),
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(entriesKey, context?.previous);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar el cambio"
+      });
+    },
+    onSettled: refreshSaved
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (jobId: string) => unsaveJob(jobId),
+    onMutate: (jobId) => updateCachedEntries(prev => prev.filter(savedJob => savedJob.jobId !== jobId)),
+    onSuccess: () => {
+      toast({
+        title: "Propuesta eliminada de guardados",
+        description: "Se ha quitado de tus guardados junto con su nota"
+      });
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(entriesKey, context?.previous);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo quitar la propuesta de guardados"
+      });
+    },
+    onSettled: refreshSaved
+  });
+
+  const handleSubmitCollection = async (name: string) => {
+    const collection = editing?.collection;
+    try {
+      if (collection) {
+        await renameSavedJobCollection(collection.id, name);
+      } else {
+        const created = await createSavedJobCollection(name);
+        setSelected(created.id);
+      }
+      await refreshSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar la lista"
+      });
+      throw error;
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!deleting) return;
+    try {
+      await deleteSavedJobCollection(deleting.id);
+      if (selected === deleting.id) {
+        setSelected(ALL);
+      }
+      await refreshSaved();
+      toast({
+        title: "Lista eliminada",
+        description: "Sus propuestas siguen guardadas, sin lista"
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo eliminar la lista"
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const visibleSavedJobs = savedJobs.filter(savedJob =>
+    selected === ALL ||
+    (selected === NO_COLLECTION ? !savedJob.collectionId : savedJob.collectionId === selected)
+  );
+  const selectedCollection = collections.find(collection => collection.id === selected);
+
+  const filterButton = (value: string, label: string, count: number) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => setSelected(value)}
+      className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-sm text-left transition-colors ${
+        selected === value
+          ? 'bg-wfc-purple text-white'
+          : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+      }`}
+    >
+      <span className="truncate">{label}</span>
+      <span className="ml-2 text-xs opacity-75">{count}</span>
+    </button>
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 pb-4 border-b border-gray-200">
+          <div>
+            <h1 className="text-2xl font-bold">Guardados</h1>
+            <p className="text-gray-600 mt-1">
+              {savedJobs.length === 1 ? '1 propuesta guardada' : `${savedJobs.length} propuestas guardadas`}
+            </p>
+          </div>
+          <Button className="bg-wfc-purple hover:bg-wfc-purple-medium" onClick={() => setEditing({})}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nueva lista
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <nav className="space-y-1">
+            {filterButton(ALL, 'Todas', savedJobs.length)}
+            {filterButton(NO_COLLECTION, 'Sin lista', savedJobs.filter(savedJob => !savedJob.collectionId).length)}
+            {collections.map(collection => filterButton(collection.id, collection.name, collection.savedCount))}
+          </nav>
+
+          <div className="md:col-span-3 space-y-4">
+            {selectedCollection && (
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold truncate">{selectedCollection.name}</h2>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setEditing({ collection: selectedCollection })}>
+                    <Pencil className="mr-1 h-4 w-4" />
+                    Renombrar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setDeleting(selectedCollection)}
+                  >
+                    <Trash2 className="mr-1 h-4 w-4" />
+                    Eliminar
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+              </div>
+            ) : visibleSavedJobs.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <p className="text-gray-500 dark:text-gray-400">
+                    {savedJobs.length === 0
+                      ? 'Aún no has guardado ninguna propuesta'
+                      : 'No hay propuestas guardadas en esta lista'}
+                  </p>
+                  {savedJobs.length === 0 && (
+                    <Button asChild className="mt-4 bg-wfc-purple hover:bg-wfc-purple-medium">
+                      <Link to="/jobs">Explorar propuestas</Link>
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              visibleSavedJobs.map(savedJob => (
+                <SavedJobCard
+                  key={savedJob.jobId}
+                  savedJob={savedJob}
+                  collections={collections}
+                  onChange={(changes) => updateMutation.mutate({ jobId: savedJob.jobId, changes })}
+                  onRemove={() => removeMutation.mutate(savedJob.jobId)}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      <CollectionDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        collection={editing?.collection}
+        onSubmit={handleSubmitCollection}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar la lista "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sus propuestas seguirán guardadas, sin lista, y conservarán sus notas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDeleteCollection}>
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+};
+
+export default SavedJobsPage;
@@ -4,24 +4,47 @@ import { useParams, Link } from 'react-router-dom';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useData } from '@/contexts/DataContext';
 import { useJobs } from '@/contexts/JobContext';
-import { UserType } from '@/contexts/DataContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import JobCard from '@/components/JobCard';
-import { MessageCircle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Ban, Flag, MessageCircle } from 'lucide-react';
 import { useChat } from '@/contexts/ChatContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import { ReportDialog } from '@/components/Reports/ReportDialog';
+import { toast } from '@/components/ui/use-toast';
+import { getUserProfile, UserProfileType } from '@/lib/userService';
+import { getUserReviews, ReviewType } from '@/lib/reviewService';
+import { StarRating } from '@/components/Reviews/StarRating';
+import { ReviewItem } from '@/components/Reviews/ReviewItem';
 
 const UserProfile = () => {
   const { userId } = useParams<{ userId: string }>();
   const { getUserById } = useData();
   const { jobs } = useJobs();
   const { createOrGetDirectChat } = useChat();
+  const { currentUser } = useAuth();
+  const { isBlocked, block, unblock } = useBlockedUsers();
   
-  const [user, setUser] = useState<UserType | null>(null);
+  const [user, setUser] = useState<UserProfileType | null>(null);
+  const [isConfirmingBlock, setIsConfirmingBlock] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const [updatingBlock, setUpdatingBlock] = useState(false);
   const [userJobs, setUserJobs] = useState([]);
+  const [reviews, setReviews] = useState<ReviewType[]>([]);
   
   useEffect(() => {
     if (userId) {
@@ -29,9 +52,22 @@ const UserProfile = () => {
       if (userData) {
         setUser(userData);
       }
+      
+      // El perfil de la API incluye la valoración del usuario
+      getUserProfile(userId).then(profile => {
+        if (profile) setUser(profile);
+      });
     }
   }, [userId, getUserById]);
   
+  useEffect(() => {
+    if (userId) {
+      getUserReviews(userId)
+        .then(result => setReviews(result.reviews))
+        .catch(error => console.error('Error al cargar reseñas:', error));
+    }
+  }, [userId]);
+  
   useEffect(() => {
     if (userId && Array.isArray(jobs)) {
       setUserJobs(jobs.filter(job => job.userId === userId));
@@ -49,6 +85,30 @@ const UserProfile = () => {
     }
   };
   
+  // Bloquear o desbloquear al usuario del perfil
+  const handleToggleBlock = async () => {
+    if (!user) return;
+    const wasBlocked = isBlocked(user.id);
+    setUpdatingBlock(true);
+    try {
+      await (wasBlocked ? unblock(user.id) : block(user.id));
+      toast({
+        title: wasBlocked ? "Usuario desbloqueado" : "Usuario bloqueado",
+        description: wasBlocked
+          ? `Vuelves a ver el contenido de ${user.name}`
+          : `Ya no verás el contenido de ${user.name} ni podrá escribirte`
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo actualizar el bloqueo"
+      });
+    } finally {
+      setUpdatingBlock(false);
+    }
+  };
+  
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('es-ES', {
@@ -68,6 +128,9 @@ const UserProfile = () => {
     );
   }
   
+  const isOwnProfile = currentUser?.id === user.id;
+  const blocked = isBlocked(user.id);
+  
   return (
     <MainLayout>
       <div className="space-y-6">
@@ -88,14 +151,40 @@ const UserProfile = () => {
                     {user.role === 'freelancer' ? 'Freelancer' : 'Cliente'}
                   </p>
                   
-                  <Button 
-                    variant="outline" 
-                    className="w-full mb-4 border-wfc-purple text-wfc-purple hover:bg-wfc-purple hover:text-white dark:border-wfc-purple-medium dark:text-wfc-purple-medium dark:hover:bg-wfc-purple-medium dark:hover:text-white"
-                    onClick={handleStartChat}
-                  >
-                    <MessageCircle className="mr-2 h-4 w-4" />
-                    Enviar mensaje
-                  </Button>
+                  {!blocked && (
+                    <Button 
+                      variant="outline" 
+                      className="w-full mb-4 border-wfc-purple text-wfc-purple hover:bg-wfc-purple hover:text-white dark:border-wfc-purple-medium dark:text-wfc-purple-medium dark:hover:bg-wfc-purple-medium dark:hover:text-white"
+                      onClick={handleStartChat}
+                    >
+                      <MessageCircle className="mr-2 h-4 w-4" />
+                      Enviar mensaje
+                    </Button>
+                  )}
+                  
+                  {!isOwnProfile && (
+                    <div className="flex w-full gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex-1 text-gray-500"
+                        disabled={updatingBlock}
+                        onClick={() => blocked ? handleToggleBlock() : setIsConfirmingBlock(true)}
+                      >
+                        <Ban className="mr-2 h-4 w-4" />
+                        {blocked ? 'Desbloquear' : 'Bloquear'}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex-1 text-gray-500 hover:text-red-600"
+                        onClick={() => setIsReporting(true)}
+                      >
+                        <Flag className="mr-2 h-4 w-4" />
+                        Denunciar
+                      </Button>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="mt-6 space-y-4">
@@ -125,7 +214,9 @@ const UserProfile = () => {
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-400">Calificación</span>
-                        <span className="font-medium dark:text-white">5.0 ⭐</span>
+                        <span className="font-medium dark:text-white">
+                          {user.ratingCount ? `${user.ratingAverage?.toFixed(1)} ⭐ (${user.ratingCount})` : 'Sin valoraciones'}
+                        </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-400">Trabajos completados</span>
@@ -140,9 +231,10 @@ const UserProfile = () => {
           
           <div className="md:col-span-2">
             <Tabs defaultValue="about" className="w-full">
-              <TabsList className="w-full grid grid-cols-2">
+              <TabsList className="w-full grid grid-cols-3">
                 <TabsTrigger value="about">Acerca de</TabsTrigger>
                 <TabsTrigger value="proposals">Propuestas</TabsTrigger>
+                <TabsTrigger value="reviews">Reseñas</TabsTrigger>
               </TabsList>
               <TabsContent value="about" className="mt-6">
                 <Card>
@@ -178,10 +270,74 @@ const UserProfile = () => {
                   </CardContent>
                 </Card>
               </TabsContent>
+              <TabsContent value="reviews" className="mt-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="dark:text-white">Reseñas</CardTitle>
+                    {user.ratingSummary && user.ratingSummary.count > 0 && (
+                      <div className="text-sm text-muted-foreground">
+                        <div className="flex items-center gap-2 mt-1">
+                          <StarRating value={user.ratingSummary.average} />
+                          <span className="font-medium text-gray-900 dark:text-white">
+                            {user.ratingSummary.average.toFixed(1)}
+                          </span>
+                          <span>({user.ratingSummary.count} reseñas)</span>
+                        </div>
+                        <div className="flex flex-wrap gap-4 mt-2 text-xs">
+                          <span>Comunicación: {user.ratingSummary.communication.toFixed(1)}</span>
+                          <span>Calidad: {user.ratingSummary.quality.toFixed(1)}</span>
+                          <span>Puntualidad: {user.ratingSummary.timeliness.toFixed(1)}</span>
+                        </div>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    {reviews.length === 0 ? (
+                      <p className="text-center py-6 text-gray-500 dark:text-gray-400">
+                        Este usuario todavía no tiene reseñas.
+                      </p>
+                    ) : (
+                      <div className="space-y-4">
+                        {reviews.map(review => (
+                          <ReviewItem key={review.id} review={review} showJob />
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
         </div>
       </div>
+      
+      <AlertDialog open={isConfirmingBlock} onOpenChange={setIsConfirmingBlock}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Bloquear a {user.name}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Dejarás de ver sus propuestas, comentarios y mensajes, y no podrá escribirte ni añadirte a chats.
+              No se le avisará del bloqueo y puedes deshacerlo cuando quieras.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleToggleBlock}>
+              Bloquear
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {!isOwnProfile && (
+        <ReportDialog
+          open={isReporting}
+          onOpenChange={setIsReporting}
+          targetType="user"
+          targetId={user.id}
+          author={{ id: user.id, name: user.name }}
+        />
+      )}
     </MainLayout>
   );
 };
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { verifyEmail } from '@/lib/accountService';
+
+type VerifyStatus = 'verifying' | 'verified' | 'error';
+
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { currentUser, refreshCurrentUser } = useAuth();
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'error');
+  const [error, setError] = useState(token ? '' : 'El enlace no es válido');
+  // El token solo sirve una vez: evitar un segundo envío al montar dos veces en desarrollo
+  const submittedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || submittedRef.current) return;
+    submittedRef.current = true;
+
+    verifyEmail(token)
+      .then(() => {
+        setStatus('verified');
+        refreshCurrentUser().catch(error => console.error('Error al actualizar el usuario:', error));
+      })
+      .catch(error => {
+        setStatus('error');
+        setError(error instanceof Error ? error.message : 'No se pudo confirmar el correo');
+      });
+  }, [token, refreshCurrentUser]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md p-8">
+        <div className="mb-8 text-center">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 rounded-md bg-wfc-purple flex items-center justify-center">
+              <span className="text-white font-bold text-xl">WFC</span>
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">WorkFlow Connect</h1>
+        </div>
+        
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">Confirmación de correo</CardTitle>
+            <CardDescription>
+              {status === 'verifying' && 'Estamos confirmando tu correo...'}
+              {status === 'verified' && 'Tu correo está confirmado'}
+              {status === 'error' && 'No hemos podido confirmar tu correo'}
+            </CardDescription>
+          </CardHeader>
+          
+          <CardContent>
+            {status === 'verifying' && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-wfc-purple" />
+              </div>
+            )}
+            {status === 'verified' && (
+              <div className="flex flex-col items-center gap-2 py-4 text-center">
+                <CheckCircle2 className="h-10 w-10 text-green-600" />
+                <p className="text-sm text-gray-600">Gracias por confirmar tu dirección de correo.</p>
+              </div>
+            )}
+            {status === 'error' && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {error}. {currentUser ? 'Puedes pedir un enlace nuevo desde el aviso de la aplicación.' : 'Inicia sesión para pedir un enlace nuevo.'}
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+          
+          <CardFooter className="justify-center">
+            <Link to={currentUser ? '/dashboard' : '/login'} className="text-sm text-wfc-purple hover:underline">
+              {currentUser ? 'Ir al panel' : 'Ir a iniciar sesión'}
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -1,8 +1,31 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+/**
+ * Completar el service worker (public/sw.js) con los archivos de la compilación
+ * para precargarlos; la versión cambia con ellos y así el navegador instala la nueva
+ */
+const serviceWorkerPrecache = (): Plugin => ({
+  name: "wfc-service-worker-precache",
+  apply: "build",
+  writeBundle(options, bundle) {
+    const swPath = path.join(options.dir || "dist", "sw.js");
+    if (!fs.existsSync(swPath)) return;
+
+    const files = Object.keys(bundle).filter(file => !file.endsWith(".map")).map(file => `/${file}`);
+    const version = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+    const source = fs.readFileSync(swPath, "utf-8")
+      .replace("self.__WFC_PRECACHE__", JSON.stringify(files))
+      .replace("__WFC_CACHE_VERSION__", version);
+
+    fs.writeFileSync(swPath, source);
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +34,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    serviceWorkerPrecache(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),